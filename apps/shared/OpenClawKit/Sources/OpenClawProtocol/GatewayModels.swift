@@ -400,6 +400,7 @@ public struct SendParams: Codable, Sendable {
     public let accountid: String?
     public let threadid: String?
     public let sessionkey: String?
+    public let sendat: Int?
     public let idempotencykey: String
 
     public init(
@@ -412,6 +413,7 @@ public struct SendParams: Codable, Sendable {
         accountid: String?,
         threadid: String?,
         sessionkey: String?,
+        sendat: Int?,
         idempotencykey: String
     ) {
         self.to = to
@@ -423,6 +425,7 @@ public struct SendParams: Codable, Sendable {
         self.accountid = accountid
         self.threadid = threadid
         self.sessionkey = sessionkey
+        self.sendat = sendat
         self.idempotencykey = idempotencykey
     }
     private enum CodingKeys: String, CodingKey {
@@ -435,10 +438,45 @@ public struct SendParams: Codable, Sendable {
         case accountid = "accountId"
         case threadid = "threadId"
         case sessionkey = "sessionKey"
+        case sendat = "sendAt"
         case idempotencykey = "idempotencyKey"
     }
 }
 
+public struct SendScheduledListParams: Codable, Sendable {
+    public let agentid: String?
+    public let channel: String?
+
+    public init(
+        agentid: String?,
+        channel: String?
+    ) {
+        self.agentid = agentid
+        self.channel = channel
+    }
+    private enum CodingKeys: String, CodingKey {
+        case agentid = "agentId"
+        case channel
+    }
+}
+
+public struct SendScheduledCancelParams: Codable, Sendable {
+    public let id: String
+    public let agentid: String?
+
+    public init(
+        id: String,
+        agentid: String?
+    ) {
+        self.id = id
+        self.agentid = agentid
+    }
+    private enum CodingKeys: String, CodingKey {
+        case id
+        case agentid = "agentId"
+    }
+}
+
 public struct PollParams: Codable, Sendable {
     public let to: String
     public let question: String
@@ -1222,6 +1260,27 @@ public struct SessionsCompactParams: Codable, Sendable {
     }
 }
 
+public struct SessionsForkParams: Codable, Sendable {
+    public let key: String
+    public let entryid: String?
+    public let label: String?
+
+    public init(
+        key: String,
+        entryid: String?,
+        label: String?
+    ) {
+        self.key = key
+        self.entryid = entryid
+        self.label = label
+    }
+    private enum CodingKeys: String, CodingKey {
+        case key
+        case entryid = "entryId"
+        case label
+    }
+}
+
 public struct SessionsUsageParams: Codable, Sendable {
     public let key: String?
     public let startdate: String?
@@ -2342,6 +2401,66 @@ public struct CronRunLogEntry: Codable, Sendable {
     }
 }
 
+public struct DeliveriesListParams: Codable, Sendable {
+    public let state: String?
+    public let channel: String?
+    public let limit: Int?
+
+    public init(
+        state: String?,
+        channel: String?,
+        limit: Int?
+    ) {
+        self.state = state
+        self.channel = channel
+        self.limit = limit
+    }
+    private enum CodingKeys: String, CodingKey {
+        case state
+        case channel
+        case limit
+    }
+}
+
+public struct DeliveriesGetParams: Codable, Sendable {
+    public let id: String
+
+    public init(
+        id: String
+    ) {
+        self.id = id
+    }
+    private enum CodingKeys: String, CodingKey {
+        case id
+    }
+}
+
+public struct DeliveriesRetryParams: Codable, Sendable {
+    public let id: String
+
+    public init(
+        id: String
+    ) {
+        self.id = id
+    }
+    private enum CodingKeys: String, CodingKey {
+        case id
+    }
+}
+
+public struct DeliveriesDiscardParams: Codable, Sendable {
+    public let id: String
+
+    public init(
+        id: String
+    ) {
+        self.id = id
+    }
+    private enum CodingKeys: String, CodingKey {
+        case id
+    }
+}
+
 public struct LogsTailParams: Codable, Sendable {
     public let cursor: Int?
     public let limit: Int?
@@ -11,13 +11,21 @@ import {
   registerPluginHttpRoute,
   dispatchReplyWithBufferedBlockDispatcher,
 } from "openclaw/plugin-sdk";
-import type { LinkedInWebhookPayload } from "../../../src/linkedin/types.js";
-import type { ResolvedLinkedInAccount } from "./channel.js";
 import { sendMessage } from "../../../src/linkedin/client.js";
+import type { LinkedInWebhookPayload } from "../../../src/linkedin/types.js";
+import { createSubsystemLogger } from "../../../src/logging/subsystem.js";
 import { MEDIA_MAX_BYTES } from "../../../src/media/store.js";
+import {
+  createWebhookVerifier,
+  readWebhookBody,
+  sendWebhookRejection,
+} from "../../../src/security/webhook-verify.js";
+import type { ResolvedLinkedInAccount } from "./channel.js";
 import { resolveLinkedInMedia } from "./media.js";
 import { getLinkedInRuntime } from "./runtime.js";
 
+const log = createSubsystemLogger("linkedin-webhook");
+
 export interface LinkedInWebhookHandlerOptions {
   account: ResolvedLinkedInAccount;
   config: OpenClawConfig;
@@ -70,36 +78,6 @@ export function getLinkedInRuntimeState(accountId: string) {
   return runtimeState.get(`linkedin:${accountId}`);
 }
 
-async function readRequestBody(req: IncomingMessage): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const chunks: Buffer[] = [];
-    req.on("data", (chunk) => chunks.push(chunk));
-    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf-8")));
-    req.on("error", reject);
-  });
-}
-
-/**
- * Validate Unipile webhook signature (if configured).
- * Unipile uses a simple shared secret validation.
- */
-function validateWebhookSignature(
-  _body: string,
-  signature: string | undefined,
-  secret: string | undefined,
-): boolean {
-  if (!secret) {
-    // No secret configured, skip validation
-    return true;
-  }
-  if (!signature) {
-    return false;
-  }
-  // Unipile typically sends the secret as a header
-  // Exact validation depends on Unipile's implementation
-  return signature === secret;
-}
-
 /**
  * Start the LinkedIn webhook handler.
  */
@@ -119,6 +97,14 @@ export function startLinkedInWebhookHandler(
     },
   });
 
+  // Unipile echoes the secret back in the header we registered with the webhook
+  const verifier = account.webhookSecret
+    ? createWebhookVerifier({ provider: "linkedin", secret: account.webhookSecret })
+    : null;
+  if (!verifier) {
+    log.warn(`no webhookSecret for account ${account.accountId}; webhooks are not verified`);
+  }
+
   // Register HTTP webhook handler
   const normalizedPath =
     normalizePluginHttpPath(webhookPath, "/linkedin/webhook") ?? "/linkedin/webhook";
@@ -128,11 +114,10 @@ export function startLinkedInWebhookHandler(
     accountId: account.accountId,
     log: (msg) => runtime.logging?.logVerbose?.(msg),
     handler: async (req: IncomingMessage, res: ServerResponse) => {
-      console.log(`[LINKEDIN] Webhook hit: ${req.method} ${req.url}`);
+      log.debug(`webhook ${req.method} ${req.url}`);
 
       // Handle GET requests for webhook verification
       if (req.method === "GET") {
-        console.log("[LINKEDIN] GET request - returning OK");
         res.statusCode = 200;
         res.setHeader("Content-Type", "text/plain");
         res.end("OK");
@@ -141,7 +126,7 @@ export function startLinkedInWebhookHandler(
 
       // Only accept POST requests
       if (req.method !== "POST") {
-        console.log(`[LINKEDIN] Rejecting method: ${req.method}`);
+        log.debug(`rejecting webhook method ${req.method}`);
         res.statusCode = 405;
         res.setHeader("Allow", "GET, POST");
         res.setHeader("Content-Type", "application/json");
@@ -150,24 +135,22 @@ export function startLinkedInWebhookHandler(
       }
 
       try {
-        const rawBody = await readRequestBody(req);
-        console.log(`[LINKEDIN] Raw webhook body:`, rawBody.slice(0, 500));
-
-        const signature = req.headers["x-webhook-secret"] as string | undefined;
+        const rawBody = await readWebhookBody(req);
 
         // Validate signature if secret is configured
-        if (!validateWebhookSignature(rawBody, signature, account.webhookSecret)) {
-          console.log("[LINKEDIN] Signature validation FAILED");
-          runtime.logging?.logVerbose?.("linkedin: webhook signature validation failed");
-          res.statusCode = 401;
-          res.setHeader("Content-Type", "application/json");
-          res.end(JSON.stringify({ error: "Invalid signature" }));
+        const verification = verifier?.verify({
+          rawBody,
+          headers: req.headers,
+          path: normalizedPath,
+        });
+        if (verification && !verification.ok) {
+          log.warn(`rejected unverified webhook for account ${account.accountId}`);
+          sendWebhookRejection(res, verification);
           return;
         }
 
         // Parse the webhook body
         const payload = JSON.parse(rawBody) as LinkedInWebhookPayload;
-        console.log(`[LINKEDIN] Parsed payload:`, JSON.stringify(payload, null, 2));
 
         // Record inbound activity
         recordChannelRuntimeState({
@@ -184,27 +167,20 @@ export function startLinkedInWebhookHandler(
         res.end(JSON.stringify({ status: "ok" }));
 
         // Log the incoming message
-        console.log(
-          `[LINKEDIN] Message from: ${payload.sender?.name ?? payload.sender?.id ?? "unknown"}`,
-        );
         runtime.logging?.logVerbose?.(
           `linkedin: received message from ${payload.sender?.name ?? payload.sender?.id ?? "unknown"}`,
         );
 
         // Process the message asynchronously
         if (onMessage) {
-          console.log("[LINKEDIN] Calling onMessage handler...");
           await onMessage(payload).catch((err) => {
-            console.error(`[LINKEDIN] onMessage error:`, err);
-            runtime.logging?.error?.(`linkedin webhook handler failed: ${String(err)}`);
+            log.error(`webhook handler failed: ${String(err)}`);
           });
-          console.log("[LINKEDIN] onMessage handler completed");
         } else {
-          console.log("[LINKEDIN] WARNING: No onMessage handler!");
+          log.warn(`no message handler for account ${account.accountId}; dropping webhook`);
         }
       } catch (err) {
-        console.error(`[LINKEDIN] Webhook error:`, err);
-        runtime.logging?.error?.(`linkedin webhook error: ${String(err)}`);
+        log.error(`webhook error: ${String(err)}`);
         if (!res.headersSent) {
           res.statusCode = 500;
           res.setHeader("Content-Type", "application/json");
@@ -251,12 +227,10 @@ export async function processLinkedInMessage(
   account: ResolvedLinkedInAccount,
   config: OpenClawConfig,
 ): Promise<void> {
-  console.log("[LINKEDIN] processLinkedInMessage called");
   const runtime = getLinkedInRuntime();
 
   // Skip if it's our own message
   if (payload.is_sender) {
-    console.log("[LINKEDIN] Skipping own message (is_sender=true)");
     runtime.logging?.logVerbose?.("linkedin: skipping own message");
     return;
   }
@@ -392,37 +366,26 @@ export async function processLinkedInMessage(
         : undefined,
   };
 
-  console.log("[LINKEDIN] Built MsgContext:", JSON.stringify(ctxPayload, null, 2));
-
   runtime.logging?.logVerbose?.(
     `linkedin: message from ${ctxPayload.SenderName ?? ctxPayload.From}: ${(ctxPayload.Body ?? "").slice(0, 100)}`,
   );
 
   // Dispatch to auto-reply system
-  console.log("[LINKEDIN] Dispatching to auto-reply system...");
-  console.log("[LINKEDIN] config is:", config ? "defined" : "UNDEFINED!");
-  console.log("[LINKEDIN] config type:", typeof config);
-  if (config) {
-    console.log("[LINKEDIN] config.session:", config.session);
-  }
   try {
     await dispatchReplyWithBufferedBlockDispatcher({
       ctx: ctxPayload,
       cfg: config,
       dispatcherOptions: {
         deliver: async (replyPayload: ReplyPayload) => {
-          console.log("[LINKEDIN] deliver() called with:", JSON.stringify(replyPayload, null, 2));
           const text = replyPayload.text;
           if (!text) {
-            console.log("[LINKEDIN] No text in reply payload, skipping");
+            log.debug(`skipping reply without text for chat ${payload.chat_id}`);
             return;
           }
 
-          console.log(`[LINKEDIN] Sending reply to chat ${payload.chat_id}: ${text.slice(0, 100)}`);
           // Send reply to the same chat
           await sendMessage(clientOpts, payload.chat_id, { text });
 
-          console.log("[LINKEDIN] Reply sent successfully!");
           runtime.logging?.logVerbose?.(
             `linkedin: sent reply to ${payload.chat_id}: ${text.slice(0, 100)}`,
           );
@@ -437,14 +400,11 @@ export async function processLinkedInMessage(
           });
         },
         onError: (err, info) => {
-          console.error(`[LINKEDIN] Reply error (${info.kind}):`, err);
           runtime.logging?.error?.(`linkedin ${info.kind} reply failed: ${String(err)}`);
         },
       },
     });
-    console.log("[LINKEDIN] dispatchReplyWithBufferedBlockDispatcher completed");
   } catch (err) {
-    console.error("[LINKEDIN] Auto-reply dispatch failed:", err);
     runtime.logging?.error?.(`linkedin: auto-reply dispatch failed: ${String(err)}`);
   }
 }
@@ -21,9 +21,19 @@ const memoryCorePlugin = {
         if (!memorySearchTool || !memoryGetTool) {
           return null;
         }
-        return [memorySearchTool, memoryGetTool];
+        const memoryWriteTool = api.runtime.tools.createMemoryWriteTool({
+          config: ctx.config,
+          agentSessionKey: ctx.sessionKey,
+        });
+        const memoryForgetTool = api.runtime.tools.createMemoryForgetTool({
+          config: ctx.config,
+          agentSessionKey: ctx.sessionKey,
+        });
+        return [memorySearchTool, memoryGetTool, memoryWriteTool, memoryForgetTool].filter(
+          (tool) => tool !== null,
+        );
       },
-      { names: ["memory_search", "memory_get"] },
+      { names: ["memory_search", "memory_get", "memory_write", "memory_forget"] },
     );
 
     api.registerCli(
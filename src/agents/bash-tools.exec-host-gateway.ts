@@ -2,6 +2,10 @@ import crypto from "node:crypto";
 import type { AgentToolResult } from "@mariozechner/pi-agent-core";
 import {
   addAllowlistEntry,
+  addExecPolicyRules,
+  analyzeExecPolicySegments,
+  buildSimilarExecPolicyRules,
+  evaluateExecPolicyRules,
   type ExecAsk,
   type ExecSecurity,
   buildSafeBinsShellCommand,
@@ -10,6 +14,7 @@ import {
   maxAsk,
   minSecurity,
   recordAllowlistUse,
+  recordExecPolicyRuleUse,
   requiresExecApproval,
   resolveExecApprovals,
 } from "../infra/exec-approvals.js";
@@ -75,14 +80,40 @@ export async function processGatewayAllowlist(
   });
   const allowlistMatches = allowlistEval.allowlistMatches;
   const analysisOk = allowlistEval.analysisOk;
-  const allowlistSatisfied =
-    hostSecurity === "allowlist" && analysisOk ? allowlistEval.allowlistSatisfied : false;
-  const requiresAsk = requiresExecApproval({
-    ask: hostAsk,
-    security: hostSecurity,
-    analysisOk,
-    allowlistSatisfied,
+  const policySegments = analyzeExecPolicySegments({
+    command: params.command,
+    cwd: params.workdir,
+    env: params.env,
+    platform: process.platform,
+  });
+  const policy = evaluateExecPolicyRules({
+    rules: approvals.rules,
+    command: params.command,
+    segments: policySegments,
+    cwd: params.workdir,
+    env: params.env,
+    host: "gateway",
+    agentId: params.agentId,
   });
+  if (policy.decision === "deny") {
+    const rule = policy.rules[0];
+    throw new Error(
+      `exec denied: host=gateway rule=${rule?.id ?? "?"}${rule?.description ? ` (${rule.description})` : ""}`,
+    );
+  }
+  const allowedByRule = hostSecurity === "allowlist" && policy.decision === "allow";
+  const allowlistSatisfied =
+    hostSecurity === "allowlist" && analysisOk
+      ? allowlistEval.allowlistSatisfied || allowedByRule
+      : false;
+  const requiresAsk =
+    policy.decision === "ask" ||
+    requiresExecApproval({
+      ask: hostAsk,
+      security: hostSecurity,
+      analysisOk,
+      allowlistSatisfied,
+    });
 
   if (requiresAsk) {
     const approvalId = crypto.randomUUID();
@@ -149,6 +180,20 @@ export async function processGatewayAllowlist(
             }
           }
         }
+      } else if (decision === "allow-similar") {
+        approvedByAsk = true;
+        if (policySegments) {
+          addExecPolicyRules(
+            approvals.file,
+            buildSimilarExecPolicyRules({
+              command: params.command,
+              segments: policySegments,
+              cwd: params.workdir,
+              host: "gateway",
+              agentId: params.agentId,
+            }),
+          );
+        }
       }
 
       if (hostSecurity === "allowlist" && (!analysisOk || !allowlistSatisfied) && !approvedByAsk) {
@@ -166,6 +211,9 @@ export async function processGatewayAllowlist(
         return;
       }
 
+      if (allowedByRule) {
+        recordExecPolicyRuleUse(approvals.file, policy.rules);
+      }
       if (allowlistMatches.length > 0) {
         const seen = new Set<string>();
         for (const match of allowlistMatches) {
@@ -264,6 +312,9 @@ export async function processGatewayAllowlist(
   if (hostSecurity === "allowlist" && (!analysisOk || !allowlistSatisfied)) {
     throw new Error("exec denied: allowlist miss");
   }
+  if (allowedByRule) {
+    recordExecPolicyRuleUse(approvals.file, policy.rules);
+  }
 
   let execCommandOverride: string | undefined;
   // If allowlist uses safeBins, sanitize only those stdin-only segments:
@@ -1,9 +1,12 @@
 import crypto from "node:crypto";
 import type { AgentToolResult } from "@mariozechner/pi-agent-core";
 import {
+  type ExecApprovalDecision,
   type ExecApprovalsFile,
   type ExecAsk,
   type ExecSecurity,
+  analyzeExecPolicySegments,
+  evaluateExecPolicyRules,
   evaluateShellAllowlist,
   maxAsk,
   minSecurity,
@@ -22,6 +25,8 @@ import type { ExecToolDetails } from "./bash-tools.exec-types.js";
 import { callGatewayTool } from "./tools/gateway.js";
 import { listNodes, resolveNodeIdFromList } from "./tools/nodes-utils.js";
 
+type NodeApprovalDecision = Exclude<ExecApprovalDecision, "deny">;
+
 export type ExecuteNodeHostCommandParams = {
   command: string;
   workdir: string;
@@ -99,6 +104,7 @@ export async function executeNodeHostCommand(
   });
   let analysisOk = baseAllowlistEval.analysisOk;
   let allowlistSatisfied = false;
+  let ruleRequiresAsk = false;
   if (hostAsk === "on-miss" && hostSecurity === "allowlist" && analysisOk) {
     try {
       const approvalsSnapshot = await callGatewayTool<{ file: string }>(
@@ -126,19 +132,37 @@ export async function executeNodeHostCommand(
           platform: nodeInfo?.platform,
           trustedSafeBinDirs: params.trustedSafeBinDirs,
         });
-        allowlistSatisfied = allowlistEval.allowlistSatisfied;
+        const policy = evaluateExecPolicyRules({
+          rules: resolved.rules,
+          command: params.command,
+          segments: analyzeExecPolicySegments({
+            command: params.command,
+            cwd: params.workdir,
+            env: params.env,
+            platform: nodeInfo?.platform,
+          }),
+          cwd: params.workdir,
+          env: params.env,
+          host: "node",
+          agentId: params.agentId,
+        });
+        allowlistSatisfied = allowlistEval.allowlistSatisfied || policy.decision === "allow";
         analysisOk = allowlistEval.analysisOk;
+        // Deny rules are enforced by the node host; ask rules need approval up front.
+        ruleRequiresAsk = policy.decision === "ask";
       }
     } catch {
       // Fall back to requiring approval if node approvals cannot be fetched.
     }
   }
-  const requiresAsk = requiresExecApproval({
-    ask: hostAsk,
-    security: hostSecurity,
-    analysisOk,
-    allowlistSatisfied,
-  });
+  const requiresAsk =
+    ruleRequiresAsk ||
+    requiresExecApproval({
+      ask: hostAsk,
+      security: hostSecurity,
+      analysisOk,
+      allowlistSatisfied,
+    });
   const invokeTimeoutMs = Math.max(
     10_000,
     (typeof params.timeoutSec === "number" ? params.timeoutSec : params.defaultTimeoutSec) * 1000 +
@@ -146,7 +170,7 @@ export async function executeNodeHostCommand(
   );
   const buildInvokeParams = (
     approvedByAsk: boolean,
-    approvalDecision: "allow-once" | "allow-always" | null,
+    approvalDecision: NodeApprovalDecision | null,
     runId?: string,
   ) =>
     ({
@@ -197,7 +221,7 @@ export async function executeNodeHostCommand(
       }
 
       let approvedByAsk = false;
-      let approvalDecision: "allow-once" | "allow-always" | null = null;
+      let approvalDecision: NodeApprovalDecision | null = null;
       let deniedReason: string | null = null;
 
       if (decision === "deny") {
@@ -214,9 +238,9 @@ export async function executeNodeHostCommand(
       } else if (decision === "allow-once") {
         approvedByAsk = true;
         approvalDecision = "allow-once";
-      } else if (decision === "allow-always") {
+      } else if (decision === "allow-always" || decision === "allow-similar") {
         approvedByAsk = true;
-        approvalDecision = "allow-always";
+        approvalDecision = decision;
       }
 
       if (deniedReason) {
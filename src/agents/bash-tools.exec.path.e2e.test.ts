@@ -32,6 +32,7 @@ vi.mock("../infra/exec-approvals.js", async (importOriginal) => {
       autoAllowSkills: false,
     },
     allowlist: [],
+    rules: [],
     file: {
       version: 1,
       socket: { path: "/tmp/exec-approvals.sock", token: "token" },
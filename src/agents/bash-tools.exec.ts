@@ -1,7 +1,16 @@
 import fs from "node:fs/promises";
 import path from "node:path";
 import type { AgentTool, AgentToolResult } from "@mariozechner/pi-agent-core";
-import { type ExecHost, maxAsk, minSecurity, resolveSafeBins } from "../infra/exec-approvals.js";
+import {
+  type ExecHost,
+  analyzeExecPolicySegments,
+  evaluateExecPolicyRules,
+  loadExecApprovals,
+  maxAsk,
+  minSecurity,
+  pruneExecPolicyRules,
+  resolveSafeBins,
+} from "../infra/exec-approvals.js";
 import { getTrustedSafeBinDirs } from "../infra/exec-safe-bin-trust.js";
 import {
   getShellPathFromLoginShell,
@@ -147,6 +156,40 @@ async function validateScriptFileForShellBleed(params: {
   }
 }
 
+/** The sandbox skips approvals, but deny rules scoped to it (or to every host) still apply. */
+function assertSandboxExecRules(params: {
+  command: string;
+  workdir: string;
+  env: Record<string, string>;
+  agentId?: string;
+}) {
+  const rules = pruneExecPolicyRules(loadExecApprovals().rules ?? []).filter(
+    (rule) => rule.action === "deny",
+  );
+  if (rules.length === 0) {
+    return;
+  }
+  const policy = evaluateExecPolicyRules({
+    rules,
+    command: params.command,
+    segments: analyzeExecPolicySegments({
+      command: params.command,
+      cwd: params.workdir,
+      env: params.env,
+      platform: process.platform,
+    }),
+    cwd: params.workdir,
+    env: params.env,
+    host: "sandbox",
+    agentId: params.agentId,
+  });
+  // "ask" here means the command could not be analyzed; the sandbox has no approvals to fall back on.
+  if (policy.decision === "deny" || policy.decision === "ask") {
+    const unanalyzed = policy.decision === "ask" ? " (command could not be analyzed)" : "";
+    throw new Error(`exec denied: host=sandbox rule=${policy.rules[0]?.id ?? "?"}${unanalyzed}`);
+  }
+}
+
 export function createExecTool(
   defaults?: ExecToolDefaults,
   // oxlint-disable-next-line typescript/no-explicit-any
@@ -407,6 +450,10 @@ export function createExecTool(
         execCommandOverride = gatewayResult.execCommandOverride;
       }
 
+      if (host === "sandbox") {
+        assertSandboxExecRules({ command: params.command, workdir, env, agentId });
+      }
+
       const effectiveTimeout =
         typeof params.timeout === "number" ? params.timeout : defaultTimeoutSec;
       const getWarningText = () => (warnings.length ? `${warnings.join("\n")}\n\n` : "");
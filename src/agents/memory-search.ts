@@ -9,6 +9,12 @@ export type ResolvedMemorySearchConfig = {
   enabled: boolean;
   sources: Array<"memory" | "sessions">;
   extraPaths: string[];
+  documents: {
+    enabled: boolean;
+    /** Undefined means every registered extractor. */
+    formats?: string[];
+    maxBytes: Record<string, number>;
+  };
   provider: "openai" | "local" | "gemini" | "voyage" | "auto";
   remote?: {
     baseUrl?: string;
@@ -193,6 +199,12 @@ function mergeConfig(
     .map((value) => value.trim())
     .filter(Boolean);
   const extraPaths = Array.from(new Set(rawPaths));
+  const documentFormats = overrides?.documents?.formats ?? defaults?.documents?.formats;
+  const documents = {
+    enabled: overrides?.documents?.enabled ?? defaults?.documents?.enabled ?? true,
+    formats: documentFormats?.map((format) => format.trim().toLowerCase()).filter(Boolean),
+    maxBytes: { ...defaults?.documents?.maxBytes, ...overrides?.documents?.maxBytes },
+  };
   const vector = {
     enabled: overrides?.store?.vector?.enabled ?? defaults?.store?.vector?.enabled ?? true,
     extensionPath:
@@ -296,6 +308,7 @@ function mergeConfig(
     enabled,
     sources,
     extraPaths,
+    documents,
     provider,
     remote,
     experimental: {
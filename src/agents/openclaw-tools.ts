@@ -1,3 +1,4 @@
+import { createCandidatePipelineTool } from "../candidate-pipeline/tool.js";
 import type { OpenClawConfig } from "../config/config.js";
 import { createElevenLabsAgentsTool } from "../elevenlabs-agents/tool.js";
 import {
@@ -7,6 +8,8 @@ import {
   createLinkedInInMailCandidateTool,
   createLinkedInListConversationsTool,
   createLinkedInGetConversationMessagesTool,
+  createLinkedInOutreachTool,
+  createLinkedInSavedSearchTool,
 } from "../linkedin/tool.js";
 import { resolvePluginTools } from "../plugins/tools.js";
 import { createTalentlyCVAnalysisTool } from "../talently-cv-analysis/tool.js";
@@ -24,6 +27,7 @@ import { createGatewayTool } from "./tools/gateway-tool.js";
 import { createImageTool } from "./tools/image-tool.js";
 import { createMessageTool } from "./tools/message-tool.js";
 import { createNodesTool } from "./tools/nodes-tool.js";
+import { createSessionHandoffTool } from "./tools/session-handoff-tool.js";
 import { createSessionStatusTool } from "./tools/session-status-tool.js";
 import { createSessionsHistoryTool } from "./tools/sessions-history-tool.js";
 import { createSessionsListTool } from "./tools/sessions-list-tool.js";
@@ -99,6 +103,10 @@ export function createOpenClawTools(options?: {
     config: options?.config,
     sandboxed: options?.sandboxed,
   });
+  const sessionHandoffTool = createSessionHandoffTool({
+    agentSessionKey: options?.agentSessionKey,
+    config: options?.config,
+  });
   const messageTool = options?.disableMessageTool
     ? null
     : createMessageTool({
@@ -172,6 +180,7 @@ export function createOpenClawTools(options?: {
       agentSessionKey: options?.agentSessionKey,
       config: options?.config,
     }),
+    ...(sessionHandoffTool ? [sessionHandoffTool] : []),
     ...(webSearchTool ? [webSearchTool] : []),
     ...(webFetchTool ? [webFetchTool] : []),
     ...(imageTool ? [imageTool] : []),
@@ -180,6 +189,7 @@ export function createOpenClawTools(options?: {
   // LinkedIn tools
   const linkedInTalentTool = createLinkedInTalentSearchTool({
     config: options?.config,
+    workspaceDir,
   });
   if (linkedInTalentTool) {
     tools.push(linkedInTalentTool);
@@ -194,6 +204,7 @@ export function createOpenClawTools(options?: {
 
   const linkedInMessageTool = createLinkedInMessageConnectionTool({
     config: options?.config,
+    workspaceDir,
   });
   if (linkedInMessageTool) {
     tools.push(linkedInMessageTool);
@@ -201,6 +212,7 @@ export function createOpenClawTools(options?: {
 
   const linkedInInMailTool = createLinkedInInMailCandidateTool({
     config: options?.config,
+    workspaceDir,
   });
   if (linkedInInMailTool) {
     tools.push(linkedInInMailTool);
@@ -220,10 +232,32 @@ export function createOpenClawTools(options?: {
     tools.push(linkedInGetConversationMessagesTool);
   }
 
+  const linkedInOutreachTool = createLinkedInOutreachTool({
+    config: options?.config,
+    workspaceDir,
+    agentSessionKey: options?.agentSessionKey,
+  });
+  if (linkedInOutreachTool) {
+    tools.push(linkedInOutreachTool);
+  }
+
+  const linkedInSavedSearchTool = createLinkedInSavedSearchTool({
+    config: options?.config,
+    workspaceDir,
+    agentSessionKey: options?.agentSessionKey,
+  });
+  if (linkedInSavedSearchTool) {
+    tools.push(linkedInSavedSearchTool);
+  }
+
+  // Candidate pipeline (shared by the recruiting tools above and below)
+  tools.push(createCandidatePipelineTool({ workspaceDir }));
+
   // ElevenLabs Agents tool
   const elevenLabsAgentsTool = createElevenLabsAgentsTool({
     config: options?.config,
     workspaceDir: options?.workspaceDir,
+    agentSessionKey: options?.agentSessionKey,
   });
   if (elevenLabsAgentsTool) {
     tools.push(elevenLabsAgentsTool);
@@ -240,6 +274,8 @@ export function createOpenClawTools(options?: {
   // Talently CV Analysis tool
   const talentlyCVAnalysisTool = createTalentlyCVAnalysisTool({
     config: options?.config,
+    workspaceDir,
+    agentSessionKey: options?.agentSessionKey,
   });
   if (talentlyCVAnalysisTool) {
     tools.push(talentlyCVAnalysisTool);
@@ -248,6 +284,7 @@ export function createOpenClawTools(options?: {
   // Talently Interview tool
   const talentlyInterviewTool = createTalentlyInterviewTool({
     config: options?.config,
+    workspaceDir,
   });
   if (talentlyInterviewTool) {
     tools.push(talentlyInterviewTool);
@@ -1,8 +1,10 @@
 import fs from "node:fs/promises";
 import type { ThinkLevel } from "../../auto-reply/thinking.js";
+import { checkSpendBudget, recordSpend } from "../../infra/spend-budget.js";
 import { getGlobalHookRunner } from "../../plugins/hook-runner-global.js";
 import { enqueueCommandInLane } from "../../process/command-queue.js";
 import { isMarkdownCapableMessageChannel } from "../../utils/message-channel.js";
+import { estimateUsageCost, resolveModelCostConfig } from "../../utils/usage-format.js";
 import { resolveOpenClawAgentDir } from "../agent-paths.js";
 import {
   isProfileInCooldown,
@@ -24,7 +26,7 @@ import {
   resolveAuthProfileOrder,
   type ResolvedProviderAuth,
 } from "../model-auth.js";
-import { normalizeProviderId } from "../model-selection.js";
+import { normalizeProviderId, parseModelRef } from "../model-selection.js";
 import { ensureOpenClawModelsJson } from "../models-config.js";
 import {
   formatBillingErrorMessage,
@@ -267,6 +269,40 @@ export async function runEmbeddedPiAgent(
         log.info(`[hooks] model overridden to ${modelId}`);
       }
 
+      // Budgets are checked after hook overrides so a budget downgrade always wins.
+      const budgetSubject = {
+        agentId: workspaceResolution.agentId,
+        channel: channelHint,
+        accountId: params.agentAccountId,
+        senderId: params.senderId ?? undefined,
+      };
+      let budgetCheck: Awaited<ReturnType<typeof checkSpendBudget>> | undefined;
+      if (!isProbeSession) {
+        try {
+          budgetCheck = await checkSpendBudget({ cfg: params.config, subject: budgetSubject });
+        } catch (err) {
+          log.warn(`spend budget check failed: ${describeUnknownError(err)}`);
+        }
+      }
+      if (budgetCheck?.action === "refuse") {
+        log.warn(
+          `spend budget reached: runId=${params.runId} sessionId=${redactedSessionId} agent=${workspaceResolution.agentId}`,
+        );
+        return {
+          payloads: [{ text: budgetCheck.refusal, isError: true }],
+          meta: { durationMs: Date.now() - started },
+        };
+      }
+      if (budgetCheck?.action === "downgrade" && budgetCheck.downgradeModel) {
+        const downgrade = parseModelRef(budgetCheck.downgradeModel, provider);
+        if (downgrade) {
+          provider = downgrade.provider;
+          modelId = downgrade.model;
+          log.info(`[budget] spend limit reached; model downgraded to ${provider}/${modelId}`);
+        }
+      }
+      const budgetNotices = (budgetCheck?.notices ?? []).map((text) => ({ text }));
+
       const { model, error, authStorage, modelRegistry } = resolveModel(
         provider,
         modelId,
@@ -538,6 +574,7 @@ export async function runEmbeddedPiAgent(
             onAgentEvent: params.onAgentEvent,
             extraSystemPrompt: params.extraSystemPrompt,
             inputProvenance: params.inputProvenance,
+            injectionDetections: params.injectionDetections,
             streamParams: params.streamParams,
             ownerNumbers: params.ownerNumbers,
             enforceFinalTag: params.enforceFinalTag,
@@ -1046,8 +1083,9 @@ export async function runEmbeddedPiAgent(
               agentDir: params.agentDir,
             });
           }
+          const replyPayloads = [...payloads, ...budgetNotices];
           return {
-            payloads: payloads.length ? payloads : undefined,
+            payloads: replyPayloads.length ? replyPayloads : undefined,
             meta: {
               durationMs: Date.now() - started,
               agentMeta,
@@ -1074,6 +1112,19 @@ export async function runEmbeddedPiAgent(
         }
       } finally {
         process.chdir(prevCwd);
+        const costUsd = estimateUsageCost({
+          usage: usageAccumulator,
+          cost:
+            resolveModelCostConfig({ provider, model: modelId, config: params.config }) ??
+            model.cost,
+        });
+        if (costUsd) {
+          await recordSpend({ cfg: params.config, subject: budgetSubject, costUsd }).catch(
+            (err) => {
+              log.warn(`spend budget record failed: ${describeUnknownError(err)}`);
+            },
+          );
+        }
       }
     }),
   );
@@ -14,6 +14,7 @@ import {
   isSubagentSessionKey,
   normalizeAgentId,
 } from "../../../routing/session-key.js";
+import { isPromptInjectionScannedChannel } from "../../../security/prompt-injection.js";
 import { resolveSignalReactionLevel } from "../../../signal/reaction-level.js";
 import { resolveTelegramInlineButtonsScope } from "../../../telegram/inline-buttons.js";
 import { resolveTelegramReactionLevel } from "../../../telegram/reaction-level.js";
@@ -47,6 +48,7 @@ import {
 import { subscribeEmbeddedPiSession } from "../../pi-embedded-subscribe.js";
 import { applyPiCompactionSettingsFromConfig } from "../../pi-settings.js";
 import { toClientToolDefinitions } from "../../pi-tool-definition-adapter.js";
+import { createPromptInjectionTurnGuard } from "../../pi-tools.injection-guard.js";
 import { createOpenClawCodingTools, resolveToolLoopDetectionConfig } from "../../pi-tools.js";
 import { resolveSandboxContext } from "../../sandbox.js";
 import { resolveSandboxRuntimeStatus } from "../../sandbox/runtime-status.js";
@@ -283,6 +285,23 @@ export async function runEmbeddedAttempt(
 
     const agentDir = params.agentDir ?? resolveOpenClawAgentDir();
 
+    // Prompt-injection state for this turn: external prompts are scanned here, tool results
+    // as they come back, and dangerous tools need approval once something high-risk got through.
+    const injectionGuard = createPromptInjectionTurnGuard({
+      config: params.config,
+      agentId: params.agentId,
+      sessionKey: params.sessionKey ?? params.sessionId,
+      workspaceDir: effectiveWorkspace,
+    });
+    for (const detection of params.injectionDetections ?? []) {
+      injectionGuard?.record(detection);
+    }
+    const promptChannel = normalizeMessageChannel(params.messageChannel ?? params.messageProvider);
+    const runPrompt =
+      injectionGuard && isPromptInjectionScannedChannel(injectionGuard.settings, promptChannel)
+        ? await injectionGuard.guardText(params.prompt, promptChannel ?? "channel")
+        : params.prompt;
+
     // Check if the model supports native image input
     const modelHasVision = params.model.input?.includes("image") ?? false;
     const toolsRaw = params.disableTools
@@ -323,6 +342,7 @@ export async function runEmbeddedAttempt(
           requireExplicitMessageTarget:
             params.requireExplicitMessageTarget ?? isSubagentSessionKey(params.sessionKey),
           disableMessageTool: params.disableMessageTool,
+          injectionGuard,
         });
     const tools = sanitizeToolsForGoogle({ tools: toolsRaw, provider: params.provider });
     logToolSchemasForGoogle({ tools, provider: params.provider });
@@ -518,6 +538,9 @@ export async function runEmbeddedAttempt(
         allowSyntheticToolResults: transcriptPolicy.allowSyntheticToolResults,
       });
       trackSessionManagerAccess(params.sessionFile);
+      injectionGuard?.attachTranscript((customType, data) =>
+        sessionManager?.appendCustomEntry(customType, data),
+      );
 
       await prepareSessionManagerForRun({
         sessionManager,
@@ -877,7 +900,7 @@ export async function runEmbeddedAttempt(
 
         // Run before_prompt_build hooks to allow plugins to inject prompt context.
         // Legacy compatibility: before_agent_start is also checked for context fields.
-        let effectivePrompt = params.prompt;
+        let effectivePrompt = runPrompt;
         const hookCtx = {
           agentId: hookAgentId,
           sessionKey: params.sessionKey,
@@ -889,7 +912,7 @@ export async function runEmbeddedAttempt(
           ? await hookRunner
               .runBeforePromptBuild(
                 {
-                  prompt: params.prompt,
+                  prompt: runPrompt,
                   messages: activeSession.messages,
                 },
                 hookCtx,
@@ -903,7 +926,7 @@ export async function runEmbeddedAttempt(
           ? await hookRunner
               .runBeforeAgentStart(
                 {
-                  prompt: params.prompt,
+                  prompt: runPrompt,
                   messages: activeSession.messages,
                 },
                 hookCtx,
@@ -923,7 +946,7 @@ export async function runEmbeddedAttempt(
         };
         {
           if (hookResult?.prependContext) {
-            effectivePrompt = `${hookResult.prependContext}\n\n${params.prompt}`;
+            effectivePrompt = `${hookResult.prependContext}\n\n${runPrompt}`;
             log.debug(
               `hooks: prepended context to prompt (${hookResult.prependContext.length} chars)`,
             );
@@ -3,6 +3,7 @@ import type { SessionState } from "../logging/diagnostic-session-state.js";
 import { createSubsystemLogger } from "../logging/subsystem.js";
 import { getGlobalHookRunner } from "../plugins/hook-runner-global.js";
 import { isPlainObject } from "../utils.js";
+import type { PromptInjectionTurnGuard } from "./pi-tools.injection-guard.js";
 import { normalizeToolName } from "./tool-policy.js";
 import type { AnyAgentTool } from "./tools/common.js";
 
@@ -10,6 +11,7 @@ export type HookContext = {
   agentId?: string;
   sessionKey?: string;
   loopDetection?: ToolLoopDetectionConfig;
+  injectionGuard?: PromptInjectionTurnGuard;
 };
 
 type HookOutcome = { blocked: true; reason: string } | { blocked: false; params: unknown };
@@ -193,6 +195,16 @@ export function wrapToolWithBeforeToolCallHook(
       if (outcome.blocked) {
         throw new Error(outcome.reason);
       }
+      const normalizedToolName = normalizeToolName(toolName || "tool");
+      if (ctx?.injectionGuard) {
+        const approval = await ctx.injectionGuard.approveToolCall(
+          normalizedToolName,
+          outcome.params,
+        );
+        if (approval.blocked) {
+          throw new Error(approval.reason);
+        }
+      }
       if (toolCallId) {
         adjustedParamsByToolCallId.set(toolCallId, outcome.params);
         if (adjustedParamsByToolCallId.size > MAX_TRACKED_ADJUSTED_PARAMS) {
@@ -202,9 +214,11 @@ export function wrapToolWithBeforeToolCallHook(
           }
         }
       }
-      const normalizedToolName = normalizeToolName(toolName || "tool");
       try {
-        const result = await execute(toolCallId, outcome.params, signal, onUpdate);
+        const rawResult = await execute(toolCallId, outcome.params, signal, onUpdate);
+        const result = ctx?.injectionGuard
+          ? await ctx.injectionGuard.guardToolResult(normalizedToolName, rawResult)
+          : rawResult;
         await recordLoopOutcome({
           ctx,
           toolName: normalizedToolName,
@@ -0,0 +1,200 @@
+import crypto from "node:crypto";
+import type { AgentToolResult } from "@mariozechner/pi-agent-core";
+import type { OpenClawConfig } from "../config/config.js";
+import { createSubsystemLogger } from "../logging/subsystem.js";
+import { DANGEROUS_ACP_TOOLS } from "../security/dangerous-tools.js";
+import {
+  guardExternalContent,
+  isPromptInjectionScannedTool,
+  resolvePromptInjectionSettings,
+  stripPromptInjectionSpans,
+  type PromptInjectionDetection,
+  type ResolvedPromptInjectionSettings,
+} from "../security/prompt-injection.js";
+import { requestExecApprovalDecision } from "./bash-tools.exec-approval-request.js";
+
+const log = createSubsystemLogger("agents/tools");
+
+export const PROMPT_INJECTION_CUSTOM_TYPE = "openclaw:prompt-injection";
+
+const MAX_APPROVAL_SUMMARY_CHARS = 240;
+
+type ToolApprovalOutcome = { blocked: true; reason: string } | { blocked: false };
+
+type TranscriptAppender = (customType: string, data: unknown) => void;
+
+/**
+ * Per-turn prompt-injection state shared by every tool of one agent run.
+ * Once high-risk content reaches the model, dangerous tools need approval until the turn ends.
+ */
+export type PromptInjectionTurnGuard = {
+  settings: ResolvedPromptInjectionSettings;
+  detections: PromptInjectionDetection[];
+  isTripped: () => boolean;
+  record: (detection: PromptInjectionDetection) => void;
+  /** Persist detections to the session transcript (earlier ones are flushed on attach). */
+  attachTranscript: (append: TranscriptAppender) => void;
+  guardText: (text: string, source: string) => Promise<string>;
+  guardToolResult: (
+    toolName: string,
+    result: AgentToolResult<unknown>,
+  ) => Promise<AgentToolResult<unknown>>;
+  approveToolCall: (toolName: string, params: unknown) => Promise<ToolApprovalOutcome>;
+};
+
+function summarizeToolParams(toolName: string, params: unknown): string {
+  const record = params && typeof params === "object" ? (params as Record<string, unknown>) : {};
+  const raw =
+    typeof record.command === "string"
+      ? record.command
+      : (() => {
+          try {
+            return JSON.stringify(params ?? {});
+          } catch {
+            return "";
+          }
+        })();
+  const summary =
+    raw.length > MAX_APPROVAL_SUMMARY_CHARS ? `${raw.slice(0, MAX_APPROVAL_SUMMARY_CHARS)}…` : raw;
+  return `${toolName} ${summary}`.trim();
+}
+
+export function createPromptInjectionTurnGuard(params: {
+  config?: OpenClawConfig;
+  agentId?: string;
+  sessionKey?: string;
+  workspaceDir?: string;
+  quarantineDir?: string;
+  requestApproval?: typeof requestExecApprovalDecision;
+}): PromptInjectionTurnGuard | undefined {
+  const settings = resolvePromptInjectionSettings(params.config);
+  if (!settings.enabled) {
+    return undefined;
+  }
+  const requestApproval = params.requestApproval ?? requestExecApprovalDecision;
+  const detections: PromptInjectionDetection[] = [];
+  const approvedTools = new Set<string>();
+  let appendToTranscript: TranscriptAppender | undefined;
+
+  const persist = (detection: PromptInjectionDetection) => {
+    if (!appendToTranscript) {
+      return;
+    }
+    try {
+      appendToTranscript(PROMPT_INJECTION_CUSTOM_TYPE, detection);
+    } catch (err) {
+      log.warn(`failed to persist prompt-injection detection: ${String(err)}`);
+    }
+  };
+
+  const isTripped = () => detections.some((detection) => detection.risk === "high");
+
+  const record = (detection: PromptInjectionDetection) => {
+    detections.push(detection);
+    persist(detection);
+  };
+
+  return {
+    settings,
+    detections,
+    isTripped,
+    record,
+    attachTranscript: (append) => {
+      appendToTranscript = append;
+      for (const detection of detections) {
+        persist(detection);
+      }
+    },
+    guardText: async (text, source) => {
+      const guarded = await guardExternalContent({
+        content: text,
+        source,
+        mode: settings.mode,
+        sessionKey: params.sessionKey,
+        quarantineDir: params.quarantineDir,
+      });
+      if (guarded.detection) {
+        record(guarded.detection);
+      }
+      return guarded.content;
+    },
+    guardToolResult: async (toolName, result) => {
+      if (!isPromptInjectionScannedTool(settings, toolName) || !Array.isArray(result?.content)) {
+        return result;
+      }
+      const texts = result.content.flatMap((block) => (block.type === "text" ? [block.text] : []));
+      if (texts.length === 0) {
+        return result;
+      }
+      const guarded = await guardExternalContent({
+        content: texts.join("\n\n"),
+        source: `tool:${toolName}`,
+        mode: settings.mode,
+        sessionKey: params.sessionKey,
+        quarantineDir: params.quarantineDir,
+      });
+      if (!guarded.detection) {
+        return result;
+      }
+      record(guarded.detection);
+      if (guarded.detection.action === "quarantined") {
+        return {
+          content: [{ type: "text", text: guarded.content }],
+          details: { status: "quarantined", quarantineId: guarded.detection.quarantineId },
+        };
+      }
+      if (guarded.detection.action === "stripped") {
+        return {
+          ...result,
+          content: result.content.map((block) =>
+            block.type === "text"
+              ? { ...block, text: stripPromptInjectionSpans(block.text) }
+              : block,
+          ),
+        };
+      }
+      return result;
+    },
+    approveToolCall: async (toolName, toolParams) => {
+      if (
+        !settings.requireApproval ||
+        !isTripped() ||
+        !DANGEROUS_ACP_TOOLS.has(toolName) ||
+        approvedTools.has(toolName)
+      ) {
+        return { blocked: false };
+      }
+      const sources = [...new Set(detections.map((detection) => detection.source))].join(", ");
+      const blockedReason = (why: string) =>
+        `${toolName} needs approval: this turn handled content flagged as a possible prompt injection (${sources}); ${why}. ` +
+        "Ask the user to confirm in a new message if the action is really intended.";
+      let decision: string | null;
+      try {
+        decision = await requestApproval({
+          id: crypto.randomUUID(),
+          command: `[prompt-injection guard] ${summarizeToolParams(toolName, toolParams)}`,
+          cwd: params.workspaceDir ?? process.cwd(),
+          host: "gateway",
+          security: "allowlist",
+          ask: "always",
+          agentId: params.agentId,
+          sessionKey: params.sessionKey,
+        });
+      } catch (err) {
+        log.warn(`prompt-injection approval request failed: tool=${toolName} error=${String(err)}`);
+        return { blocked: true, reason: blockedReason("the approval request failed") };
+      }
+      if (decision === "allow-always" || decision === "allow-similar") {
+        approvedTools.add(toolName);
+        return { blocked: false };
+      }
+      if (decision === "allow-once") {
+        return { blocked: false };
+      }
+      return {
+        blocked: true,
+        reason: blockedReason(decision === "deny" ? "approval was denied" : "approval timed out"),
+      };
+    },
+  };
+}
@@ -49,10 +49,13 @@ const SUBAGENT_TOOL_DENY_ALWAYS = [
   "whatsapp_login",
   // Status/scheduling - main agent coordinates
   "session_status",
+  "session_handoff",
   "cron",
   // Memory - pass relevant info in spawn prompt instead
   "memory_search",
   "memory_get",
+  "memory_write",
+  "memory_forget",
   // Direct session sends - subagents communicate through announce chain
   "sessions_send",
 ];
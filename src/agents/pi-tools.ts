@@ -25,6 +25,7 @@ import type { ModelAuthMode } from "./model-auth.js";
 import { createOpenClawTools } from "./openclaw-tools.js";
 import { wrapToolWithAbortSignal } from "./pi-tools.abort.js";
 import { wrapToolWithBeforeToolCallHook } from "./pi-tools.before-tool-call.js";
+import type { PromptInjectionTurnGuard } from "./pi-tools.injection-guard.js";
 import {
   isToolAllowedByPolicies,
   resolveEffectiveToolPolicy,
@@ -215,6 +216,8 @@ export function createOpenClawCodingTools(options?: {
   disableMessageTool?: boolean;
   /** Whether the sender is an owner (required for owner-only tools). */
   senderIsOwner?: boolean;
+  /** Per-turn prompt-injection guard (scans tool results, gates dangerous tools). */
+  injectionGuard?: PromptInjectionTurnGuard;
 }): AnyAgentTool[] {
   const execToolName = "exec";
   const sandbox = options?.sandbox?.enabled ? options.sandbox : undefined;
@@ -494,6 +497,7 @@ export function createOpenClawCodingTools(options?: {
       agentId,
       sessionKey: options?.sessionKey,
       loopDetection: resolveToolLoopDetectionConfig({ cfg: options?.config, agentId }),
+      injectionGuard: options?.injectionGuard,
     }),
   );
   const withAbort = options?.abortSignal
@@ -2,6 +2,7 @@ import fs from "node:fs";
 import JSON5 from "json5";
 import type { OpenClawConfig } from "../config/config.js";
 import { resolveStorePath } from "../config/sessions/paths.js";
+import { resolveSessionStoreBackend } from "../config/sessions/store-backend.js";
 import { getSubagentDepth, parseAgentSessionKey } from "../sessions/session-key-utils.js";
 import { resolveDefaultAgentId } from "./agent-scope.js";
 
@@ -35,7 +36,11 @@ function normalizeSessionKey(value: unknown): string | undefined {
 }
 
 function readSessionStore(storePath: string): Record<string, SessionDepthEntry> {
+  const backend = resolveSessionStoreBackend(storePath);
   try {
+    if (backend.id !== "json") {
+      return backend.read(storePath);
+    }
     const raw = fs.readFileSync(storePath, "utf-8");
     const parsed = JSON5.parse(raw);
     if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
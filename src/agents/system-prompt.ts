@@ -62,6 +62,11 @@ function buildMemorySection(params: {
       "Citations: include Source: <path#line> when it helps the user verify memory snippets.",
     );
   }
+  if (params.availableTools.has("memory_write")) {
+    lines.push(
+      "To remember a durable fact, use memory_write (one fact per call, with a reason); supersede or memory_forget outdated facts by id instead of editing memory files directly.",
+    );
+  }
   lines.push("");
   return lines;
 }
@@ -237,6 +242,7 @@ export function buildAgentSystemPrompt(params: {
     linkedin_talent_search: "Search LinkedIn talent with advanced filters and pagination",
     linkedin_candidate_enrich: "Enrich a LinkedIn candidate profile with activity evidence",
     linkedin_message_connection: "Find and message an existing LinkedIn connection",
+    candidate_pipeline: "List, move and annotate candidates across recruiting stages",
     // Channel docking: add login tools here when a channel needs interactive linking.
     browser: "Control web browser",
     canvas: "Present/eval/snapshot the Canvas",
@@ -252,6 +258,7 @@ export function buildAgentSystemPrompt(params: {
     subagents: "List, steer, or kill sub-agent runs for this requester session",
     session_status:
       "Show a /status-equivalent status card (usage + time + Reasoning/Verbose/Elevated); use for model-use questions (📊 session_status); optional per-session model override",
+    session_handoff: "Hand the conversation to a human operator and pause until they hand it back",
     image: "Analyze an image with the configured image model",
   };
 
@@ -270,6 +277,7 @@ export function buildAgentSystemPrompt(params: {
     "linkedin_talent_search",
     "linkedin_candidate_enrich",
     "linkedin_message_connection",
+    "candidate_pipeline",
     "browser",
     "canvas",
     "nodes",
@@ -282,6 +290,7 @@ export function buildAgentSystemPrompt(params: {
     "sessions_send",
     "subagents",
     "session_status",
+    "session_handoff",
     "image",
   ];
 
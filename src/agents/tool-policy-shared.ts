@@ -12,7 +12,7 @@ const TOOL_NAME_ALIASES: Record<string, string> = {
 
 export const TOOL_GROUPS: Record<string, string[]> = {
   // NOTE: Keep canonical (lowercase) tool names here.
-  "group:memory": ["memory_search", "memory_get"],
+  "group:memory": ["memory_search", "memory_get", "memory_write", "memory_forget"],
   "group:web": ["web_search", "web_fetch"],
   // Basic workspace/file tools
   "group:fs": ["read", "write", "edit", "apply_patch"],
@@ -26,6 +26,7 @@ export const TOOL_GROUPS: Record<string, string[]> = {
     "sessions_spawn",
     "subagents",
     "session_status",
+    "session_handoff",
   ],
   // UI helpers
   "group:ui": ["browser", "canvas"],
@@ -50,8 +51,11 @@ export const TOOL_GROUPS: Record<string, string[]> = {
     "sessions_spawn",
     "subagents",
     "session_status",
+    "session_handoff",
     "memory_search",
     "memory_get",
+    "memory_write",
+    "memory_forget",
     "web_search",
     "web_fetch",
     "image",
@@ -72,6 +76,7 @@ const TOOL_PROFILES: Record<ToolProfileId, ToolProfilePolicy> = {
       "sessions_history",
       "sessions_send",
       "session_status",
+      "session_handoff",
     ],
   },
   full: {},
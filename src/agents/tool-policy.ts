@@ -14,7 +14,7 @@ const TOOL_NAME_ALIASES: Record<string, string> = {
 
 export const TOOL_GROUPS: Record<string, string[]> = {
   // NOTE: Keep canonical (lowercase) tool names here.
-  "group:memory": ["memory_search", "memory_get"],
+  "group:memory": ["memory_search", "memory_get", "memory_write", "memory_forget"],
   "group:web": ["web_search", "web_fetch"],
   // Basic workspace/file tools
   "group:fs": ["read", "write", "edit", "apply_patch"],
@@ -28,6 +28,7 @@ export const TOOL_GROUPS: Record<string, string[]> = {
     "sessions_spawn",
     "subagents",
     "session_status",
+    "session_handoff",
   ],
   // UI helpers
   "group:ui": ["browser", "canvas"],
@@ -40,6 +41,7 @@ export const TOOL_GROUPS: Record<string, string[]> = {
     "linkedin_talent_search",
     "linkedin_candidate_enrich",
     "linkedin_message_connection",
+    "candidate_pipeline",
   ],
   // Nodes + device tools
   "group:nodes": ["nodes"],
@@ -58,14 +60,18 @@ export const TOOL_GROUPS: Record<string, string[]> = {
     "sessions_spawn",
     "subagents",
     "session_status",
+    "session_handoff",
     "memory_search",
     "memory_get",
+    "memory_write",
+    "memory_forget",
     "web_search",
     "web_fetch",
     "image",
     "linkedin_talent_search",
     "linkedin_candidate_enrich",
     "linkedin_message_connection",
+    "candidate_pipeline",
   ],
 };
 
@@ -85,6 +91,7 @@ const TOOL_PROFILES: Record<ToolProfileId, ToolProfilePolicy> = {
       "sessions_history",
       "sessions_send",
       "session_status",
+      "session_handoff",
     ],
   },
   full: {},
@@ -239,6 +239,9 @@ SCHEDULE TYPES (schedule.kind):
   { "kind": "every", "everyMs": <interval-ms>, "anchorMs": <optional-start-ms> }
 - "cron": Cron expression
   { "kind": "cron", "expr": "<cron-expression>", "tz": "<optional-timezone>" }
+- "after": Run when another job finishes (chain jobs into a pipeline)
+  { "kind": "after", "onSuccess": "<jobId>" } or { "kind": "after", "onFailure": "<jobId>" }
+  Payload text/message may use {{previous.summary}}, {{previous.status}}, {{previous.error}}, {{previous.jobName}} from the run that triggered it.
 
 ISO timestamps without an explicit timezone are treated as UTC.
 
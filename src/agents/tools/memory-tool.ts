@@ -1,12 +1,24 @@
+import path from "node:path";
 import { Type } from "@sinclair/typebox";
 import type { OpenClawConfig } from "../../config/config.js";
 import type { MemoryCitationsMode } from "../../config/types.memory.js";
 import { resolveMemoryBackendConfig } from "../../memory/backend-config.js";
+import { formatMemoryDocumentLocation } from "../../memory/document-extractors.js";
 import { getMemorySearchManager } from "../../memory/index.js";
+import { forgetMemoryFact, writeMemoryFact } from "../../memory/memory-writes.js";
+import {
+  MEMORY_SHARED_NAMESPACE,
+  resolveAgentMemoryNamespace,
+  resolveAllowedMemoryNamespaces,
+  resolveMemoryFileNamespace,
+  resolveMemoryPeerKey,
+} from "../../memory/namespaces.js";
 import type { MemorySearchResult } from "../../memory/types.js";
 import { parseAgentSessionKey } from "../../routing/session-key.js";
-import { resolveSessionAgentId } from "../agent-scope.js";
+import { resolveAgentWorkspaceDir, resolveSessionAgentId } from "../agent-scope.js";
+import { resolveUserTimezone } from "../date-time.js";
 import { resolveMemorySearchConfig } from "../memory-search.js";
+import { optionalStringEnum } from "../schema/typebox.js";
 import type { AnyAgentTool } from "./common.js";
 import { jsonResult, readNumberParam, readStringParam } from "./common.js";
 
@@ -22,6 +34,26 @@ const MemoryGetSchema = Type.Object({
   lines: Type.Optional(Type.Number()),
 });
 
+const MEMORY_WRITE_SCOPES = ["shared", "agent", "peer"] as const;
+
+const MemoryWriteSchema = Type.Object({
+  topic: Type.String({ description: "Topic heading the fact is filed under." }),
+  text: Type.String({ description: "The fact, as one self-contained sentence." }),
+  supersedes: Type.Optional(
+    Type.String({ description: "Id of an outdated fact this one replaces." }),
+  ),
+  reason: Type.Optional(Type.String({ description: "Why this is worth remembering." })),
+  scope: optionalStringEnum(MEMORY_WRITE_SCOPES, {
+    description:
+      "Who may recall the fact: shared (everyone), agent (this agent), or peer (only this conversation's sender/group). Defaults to peer in per-sender sessions, otherwise shared.",
+  }),
+});
+
+const MemoryForgetSchema = Type.Object({
+  id: Type.String({ description: "Fact id returned by memory_write." }),
+  reason: Type.String({ description: "Why the fact should be forgotten." }),
+});
+
 function resolveMemoryToolContext(options: { config?: OpenClawConfig; agentSessionKey?: string }) {
   const cfg = options.config;
   if (!cfg) {
@@ -111,12 +143,28 @@ export function createMemoryGetTool(options: {
     label: "Memory Get",
     name: "memory_get",
     description:
-      "Safe snippet read from MEMORY.md or memory/*.md with optional from/lines; use after memory_search to pull only the needed lines and keep context small.",
+      "Safe snippet read from MEMORY.md or memory/*.md with optional from/lines; use after memory_search to pull only the needed lines and keep context small. For indexed documents (PDF, DOCX, HTML) from/lines select pages or sections.",
     parameters: MemoryGetSchema,
     execute: async (_toolCallId, params) => {
       const relPath = readStringParam(params, "path", { required: true });
       const from = readNumberParam(params, "from", { integer: true });
       const lines = readNumberParam(params, "lines", { integer: true });
+      const workspaceDir = resolveAgentWorkspaceDir(cfg, agentId);
+      const namespace = resolveMemoryFileNamespace(
+        path.relative(workspaceDir, path.resolve(workspaceDir, relPath)),
+      );
+      const allowed = resolveAllowedMemoryNamespaces({
+        agentId,
+        sessionKey: options.agentSessionKey,
+      });
+      if (!allowed.includes(namespace)) {
+        return jsonResult({
+          path: relPath,
+          text: "",
+          disabled: true,
+          error: `memory namespace ${namespace} is not accessible from this session`,
+        });
+      }
       const { manager, error } = await getMemorySearchManager({
         cfg,
         agentId,
@@ -139,6 +187,126 @@ export function createMemoryGetTool(options: {
   };
 }
 
+async function reindexAfterMemoryWrite(cfg: OpenClawConfig, agentId: string) {
+  const { manager, error } = await getMemorySearchManager({ cfg, agentId });
+  if (!manager) {
+    return { indexed: false, indexError: error };
+  }
+  try {
+    if (manager.syncMemoryWrites) {
+      await manager.syncMemoryWrites();
+    } else {
+      await manager.sync?.({ reason: "memory-write" });
+    }
+    return { indexed: true };
+  } catch (err) {
+    return { indexed: false, indexError: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+export function createMemoryWriteTool(options: {
+  config?: OpenClawConfig;
+  agentSessionKey?: string;
+}): AnyAgentTool | null {
+  const ctx = resolveMemoryToolContext(options);
+  if (!ctx) {
+    return null;
+  }
+  const { cfg, agentId } = ctx;
+  return {
+    label: "Memory Write",
+    name: "memory_write",
+    description:
+      "Remember a durable fact: files it under a topic in today's memory/YYYY-MM-DD.md (memory/peers/<key>/ for per-sender facts) and reindexes immediately; returns the fact id. Pass supersedes=<id> to replace an outdated fact. Every write is audited with your reason.",
+    parameters: MemoryWriteSchema,
+    execute: async (_toolCallId, params) => {
+      const topic = readStringParam(params, "topic", { required: true });
+      const text = readStringParam(params, "text", { required: true });
+      const supersedes = readStringParam(params, "supersedes");
+      const reason = readStringParam(params, "reason");
+      const scope = readStringParam(params, "scope");
+      const peerKey = resolveMemoryPeerKey(options.agentSessionKey);
+      try {
+        if (scope === "peer" && !peerKey) {
+          throw new Error("scope=peer requires a per-sender or group session");
+        }
+        const namespace =
+          scope === "agent"
+            ? resolveAgentMemoryNamespace(agentId)
+            : scope === "shared" || !peerKey
+              ? MEMORY_SHARED_NAMESPACE
+              : `peer:${peerKey}`;
+        const { fact, superseded } = await writeMemoryFact({
+          workspaceDir: resolveAgentWorkspaceDir(cfg, agentId),
+          topic,
+          text,
+          supersedes,
+          reason,
+          namespace,
+          namespaces: resolveAllowedMemoryNamespaces({
+            agentId,
+            sessionKey: options.agentSessionKey,
+          }),
+          actor: { agentId, sessionKey: options.agentSessionKey },
+          timezone: resolveUserTimezone(cfg.agents?.defaults?.userTimezone),
+        });
+        const index = await reindexAfterMemoryWrite(cfg, agentId);
+        return jsonResult({
+          id: fact.id,
+          path: fact.path,
+          line: fact.line,
+          topic: fact.topic,
+          namespace,
+          superseded: superseded?.id,
+          ...index,
+        });
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        return jsonResult({ error: message });
+      }
+    },
+  };
+}
+
+export function createMemoryForgetTool(options: {
+  config?: OpenClawConfig;
+  agentSessionKey?: string;
+}): AnyAgentTool | null {
+  const ctx = resolveMemoryToolContext(options);
+  if (!ctx) {
+    return null;
+  }
+  const { cfg, agentId } = ctx;
+  return {
+    label: "Memory Forget",
+    name: "memory_forget",
+    description:
+      "Forget a fact recorded with memory_write by id (removes it from memory files and the index). The removal and your reason are kept in the memory audit log.",
+    parameters: MemoryForgetSchema,
+    execute: async (_toolCallId, params) => {
+      const id = readStringParam(params, "id", { required: true });
+      const reason = readStringParam(params, "reason", { required: true });
+      try {
+        const fact = await forgetMemoryFact({
+          workspaceDir: resolveAgentWorkspaceDir(cfg, agentId),
+          id,
+          reason,
+          namespaces: resolveAllowedMemoryNamespaces({
+            agentId,
+            sessionKey: options.agentSessionKey,
+          }),
+          actor: { agentId, sessionKey: options.agentSessionKey },
+        });
+        const index = await reindexAfterMemoryWrite(cfg, agentId);
+        return jsonResult({ id: fact.id, path: fact.path, forgotten: true, ...index });
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        return jsonResult({ id, forgotten: false, error: message });
+      }
+    },
+  };
+}
+
 function resolveMemoryCitationsMode(cfg: OpenClawConfig): MemoryCitationsMode {
   const mode = cfg.memory?.citations;
   if (mode === "on" || mode === "off" || mode === "auto") {
@@ -159,6 +327,10 @@ function decorateCitations(results: MemorySearchResult[], include: boolean): Mem
 }
 
 function formatCitation(entry: MemorySearchResult): string {
+  const location = formatMemoryDocumentLocation(entry.path, entry.startLine, entry.endLine);
+  if (location) {
+    return `${entry.path} ${location}`;
+  }
   const lineRange =
     entry.startLine === entry.endLine
       ? `#L${entry.startLine}`
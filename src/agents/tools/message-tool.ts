@@ -2,6 +2,7 @@ import { Type } from "@sinclair/typebox";
 import { BLUEBUBBLES_GROUP_ACTIONS } from "../../channels/plugins/bluebubbles-actions.js";
 import {
   listChannelMessageActions,
+  SCHEDULED_MESSAGE_ACTIONS,
   supportsChannelMessageButtons,
   supportsChannelMessageButtonsForChannel,
   supportsChannelMessageCards,
@@ -236,6 +237,23 @@ function buildSendSchema(options: {
   return props;
 }
 
+function buildScheduleSchema() {
+  return {
+    sendAt: Type.Optional(
+      Type.String({
+        description:
+          "Schedule a send for later: ISO 8601 time with UTC offset (e.g. 2026-03-02T09:00:00+01:00). Recipient quiet hours may delay it.",
+      }),
+    ),
+    delay: Type.Optional(
+      Type.String({ description: "Schedule a send after a delay (e.g. 90m, 2h, 1d)." }),
+    ),
+    scheduledId: Type.Optional(
+      Type.String({ description: "Scheduled message id (cancel-scheduled)." }),
+    ),
+  };
+}
+
 function buildReactionSchema() {
   return {
     messageId: Type.Optional(Type.String()),
@@ -387,6 +405,7 @@ function buildMessageToolSchemaProps(options: {
   return {
     ...buildRoutingSchema(),
     ...buildSendSchema(options),
+    ...buildScheduleSchema(),
     ...buildReactionSchema(),
     ...buildFetchSchema(),
     ...buildPollSchema(),
@@ -447,7 +466,7 @@ function resolveMessageToolSchemaActions(params: {
       channel: currentChannel,
       currentChannelId: params.currentChannelId,
     });
-    const withSend = new Set<string>(["send", ...scopedActions]);
+    const withSend = new Set<string>(["send", ...SCHEDULED_MESSAGE_ACTIONS, ...scopedActions]);
     return Array.from(withSend);
   }
   const actions = listChannelMessageActions(params.cfg);
@@ -527,7 +546,8 @@ function buildMessageToolDescription(options?: {
   currentChannel?: string;
   currentChannelId?: string;
 }): string {
-  const baseDescription = "Send, delete, and manage messages via channel plugins.";
+  const baseDescription =
+    "Send, delete, and manage messages via channel plugins. Pass sendAt or delay with send to schedule a message; list-scheduled and cancel-scheduled manage pending ones.";
 
   // If we have a current channel, show only its supported actions
   if (options?.currentChannel) {
@@ -540,8 +560,8 @@ function buildMessageToolDescription(options?: {
       currentChannelId: options.currentChannelId,
     });
     if (channelActions.length > 0) {
-      // Always include "send" as a base action
-      const allActions = new Set(["send", ...channelActions]);
+      // Always include "send" and the schedule actions as base actions
+      const allActions = new Set(["send", ...SCHEDULED_MESSAGE_ACTIONS, ...channelActions]);
       const actionList = Array.from(allActions).toSorted().join(", ");
       return `${baseDescription} Current channel (${options.currentChannel}) supports: ${actionList}.`;
     }
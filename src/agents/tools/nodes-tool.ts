@@ -479,7 +479,11 @@ export function createNodesTool(options?: {
                 ? (approvalResult as { decision?: unknown }).decision
                 : undefined;
             const approvalDecision =
-              decisionRaw === "allow-once" || decisionRaw === "allow-always" ? decisionRaw : null;
+              decisionRaw === "allow-once" ||
+              decisionRaw === "allow-always" ||
+              decisionRaw === "allow-similar"
+                ? decisionRaw
+                : null;
 
             if (!approvalDecision) {
               if (decisionRaw === "deny") {
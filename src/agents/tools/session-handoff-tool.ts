@@ -0,0 +1,51 @@
+import { Type } from "@sinclair/typebox";
+import { resolveHandoffOperator, startSessionHandoff } from "../../auto-reply/reply/handoff.js";
+import type { OpenClawConfig } from "../../config/config.js";
+import { loadConfig } from "../../config/config.js";
+import type { AnyAgentTool } from "./common.js";
+import { jsonResult, readStringParam } from "./common.js";
+
+const SessionHandoffToolSchema = Type.Object({
+  reason: Type.String({ description: "Why a human should take over (shown to the operator)." }),
+  summary: Type.Optional(
+    Type.String({ description: "Short summary of the conversation so far for the operator." }),
+  ),
+});
+
+export function createSessionHandoffTool(opts?: {
+  agentSessionKey?: string;
+  config?: OpenClawConfig;
+}): AnyAgentTool | null {
+  const cfg = opts?.config ?? loadConfig();
+  if (!resolveHandoffOperator(cfg)) {
+    return null;
+  }
+  return {
+    label: "Session Handoff",
+    name: "session_handoff",
+    description:
+      "Hand this conversation to a human operator and pause yourself. Use when the user asks for a person or you cannot help safely. After calling, tell the user a human will reply; you will receive a summary of what the operator said when the handoff ends.",
+    parameters: SessionHandoffToolSchema,
+    execute: async (_toolCallId, args) => {
+      const params = args as Record<string, unknown>;
+      const reason = readStringParam(params, "reason", { required: true });
+      const summary = readStringParam(params, "summary");
+      const sessionKey = opts?.agentSessionKey?.trim();
+      if (!sessionKey) {
+        throw new Error("session_handoff requires a session");
+      }
+      const { handoff, started } = await startSessionHandoff({
+        cfg,
+        sessionKey,
+        trigger: "agent",
+        reason,
+        summary,
+      });
+      return jsonResult({
+        status: started ? "handed_off" : "already_handed_off",
+        id: handoff.id,
+        channel: handoff.origin.channel,
+      });
+    },
+  };
+}
@@ -383,15 +383,15 @@ function buildChatCommands(): ChatCommandDefinition[] {
     defineChatCommand({
       key: "usage",
       nativeName: "usage",
-      description: "Usage footer or cost summary.",
+      description: "Usage footer, cost summary, or spend budgets.",
       textAlias: "/usage",
       category: "options",
       args: [
         {
           name: "mode",
-          description: "off, tokens, full, or cost",
+          description: "off, tokens, full, cost, or budget",
           type: "string",
-          choices: ["off", "tokens", "full", "cost"],
+          choices: ["off", "tokens", "full", "cost", "budget"],
         },
       ],
       argsMenu: "auto",
@@ -442,6 +442,43 @@ function buildChatCommands(): ChatCommandDefinition[] {
       ],
       argsMenu: "auto",
     }),
+    defineChatCommand({
+      key: "handoff",
+      nativeName: "handoff",
+      description: "Hand the conversation to a human operator.",
+      textAlias: "/handoff",
+      category: "management",
+      args: [
+        {
+          name: "action",
+          description: "list, start, or end",
+          type: "string",
+          choices: ["list", "start", "end"],
+        },
+        {
+          name: "value",
+          description: "Reason, or #id and note for end",
+          type: "string",
+          captureRemaining: true,
+        },
+      ],
+      argsMenu: "auto",
+    }),
+    defineChatCommand({
+      key: "fork",
+      nativeName: "fork",
+      description: "Branch this conversation into a new session.",
+      textAlias: "/fork",
+      category: "session",
+      args: [
+        {
+          name: "label",
+          description: "Label for the new session",
+          type: "string",
+          captureRemaining: true,
+        },
+      ],
+    }),
     defineChatCommand({
       key: "reset",
       nativeName: "reset",
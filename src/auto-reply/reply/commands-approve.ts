@@ -1,5 +1,6 @@
 import { callGateway } from "../../gateway/call.js";
 import { logVerbose } from "../../globals.js";
+import type { ExecApprovalDecision } from "../../infra/exec-approvals.js";
 import {
   GATEWAY_CLIENT_MODES,
   GATEWAY_CLIENT_NAMES,
@@ -9,7 +10,7 @@ import type { CommandHandler } from "./commands-types.js";
 
 const COMMAND = "/approve";
 
-const DECISION_ALIASES: Record<string, "allow-once" | "allow-always" | "deny"> = {
+const DECISION_ALIASES: Record<string, ExecApprovalDecision> = {
   allow: "allow-once",
   once: "allow-once",
   "allow-once": "allow-once",
@@ -17,13 +18,16 @@ const DECISION_ALIASES: Record<string, "allow-once" | "allow-always" | "deny"> =
   always: "allow-always",
   "allow-always": "allow-always",
   allowalways: "allow-always",
+  similar: "allow-similar",
+  "allow-similar": "allow-similar",
+  allowsimilar: "allow-similar",
   deny: "deny",
   reject: "deny",
   block: "deny",
 };
 
 type ParsedApproveCommand =
-  | { ok: true; id: string; decision: "allow-once" | "allow-always" | "deny" }
+  | { ok: true; id: string; decision: ExecApprovalDecision }
   | { ok: false; error: string };
 
 function parseApproveCommand(raw: string): ParsedApproveCommand | null {
@@ -33,11 +37,11 @@ function parseApproveCommand(raw: string): ParsedApproveCommand | null {
   }
   const rest = trimmed.slice(COMMAND.length).trim();
   if (!rest) {
-    return { ok: false, error: "Usage: /approve <id> allow-once|allow-always|deny" };
+    return { ok: false, error: "Usage: /approve <id> allow-once|allow-always|allow-similar|deny" };
   }
   const tokens = rest.split(/\s+/).filter(Boolean);
   if (tokens.length < 2) {
-    return { ok: false, error: "Usage: /approve <id> allow-once|allow-always|deny" };
+    return { ok: false, error: "Usage: /approve <id> allow-once|allow-always|allow-similar|deny" };
   }
 
   const first = tokens[0].toLowerCase();
@@ -57,7 +61,7 @@ function parseApproveCommand(raw: string): ParsedApproveCommand | null {
       id: tokens[0],
     };
   }
-  return { ok: false, error: "Usage: /approve <id> allow-once|allow-always|deny" };
+  return { ok: false, error: "Usage: /approve <id> allow-once|allow-always|allow-similar|deny" };
 }
 
 function buildResolvedByLabel(params: Parameters<CommandHandler>[0]): string {
@@ -9,6 +9,7 @@ import { handleApproveCommand } from "./commands-approve.js";
 import { handleBashCommand } from "./commands-bash.js";
 import { handleCompactCommand } from "./commands-compact.js";
 import { handleConfigCommand, handleDebugCommand } from "./commands-config.js";
+import { handleHandoffCommand } from "./commands-handoff.js";
 import {
   handleCommandsListCommand,
   handleContextCommand,
@@ -22,6 +23,7 @@ import { handlePluginCommand } from "./commands-plugin.js";
 import {
   handleAbortTrigger,
   handleActivationCommand,
+  handleForkCommand,
   handleRestartCommand,
   handleSendPolicyCommand,
   handleStopCommand,
@@ -46,6 +48,8 @@ export async function handleCommands(params: HandleCommandsParams): Promise<Comm
       handleBashCommand,
       handleActivationCommand,
       handleSendPolicyCommand,
+      handleHandoffCommand,
+      handleForkCommand,
       handleUsageCommand,
       handleRestartCommand,
       handleTtsCommands,
@@ -0,0 +1,172 @@
+import { logVerbose } from "../../globals.js";
+import { formatRelativeTimestamp } from "../../infra/format-time/format-relative.js";
+import type { CommandHandler, HandleCommandsParams } from "./commands-types.js";
+import {
+  type ActiveHandoff,
+  endSessionHandoff,
+  findActiveHandoff,
+  isHandoffOperatorConversation,
+  listActiveHandoffs,
+  resolveHandoffNotice,
+  resolveHandoffOperator,
+  startSessionHandoff,
+} from "./handoff.js";
+
+const HANDOFF_USAGE =
+  "⚙️ Usage: /handoff [list] | /handoff start [reason] | /handoff end [#id|sessionKey] [note]";
+
+function parseHandoffCommand(normalized: string): { action: string; args: string } | null {
+  if (normalized !== "/handoff" && !normalized.startsWith("/handoff ")) {
+    return null;
+  }
+  const rest = normalized.slice("/handoff".length).trim();
+  const [action, ...tail] = rest.split(/\s+/);
+  return { action: (action || "list").toLowerCase(), args: tail.join(" ").trim() };
+}
+
+function currentConversation(params: HandleCommandsParams) {
+  return {
+    channel: params.ctx.OriginatingChannel ?? params.command.channel,
+    to: params.ctx.OriginatingTo ?? params.command.from,
+    accountId: params.ctx.AccountId,
+    threadId: params.ctx.MessageThreadId,
+  };
+}
+
+function formatActiveHandoffs(active: ActiveHandoff[]): string {
+  if (active.length === 0) {
+    return "🙋 No open handoffs.";
+  }
+  const lines = active.map(({ sessionKey, handoff }) =>
+    [
+      `#${handoff.id}`,
+      sessionKey,
+      `${handoff.origin.channel} ${handoff.origin.to}`,
+      formatRelativeTimestamp(handoff.startedAt),
+      handoff.reason ?? "",
+    ]
+      .filter(Boolean)
+      .join(" · "),
+  );
+  return [`🙋 Open handoffs (${active.length}):`, ...lines].join("\n");
+}
+
+/** Split `end` args into an optional handoff reference (#id or session key) and a note. */
+function parseEndArgs(args: string): { ref?: string; note?: string } {
+  const [first, ...rest] = args.split(/\s+/);
+  if (first && (/^#?[0-9a-f]{6}$/i.test(first) || first.includes(":"))) {
+    return { ref: first, note: rest.join(" ").trim() || undefined };
+  }
+  return { note: args || undefined };
+}
+
+export const handleHandoffCommand: CommandHandler = async (params, allowTextCommands) => {
+  if (!allowTextCommands) {
+    return null;
+  }
+  const parsed = parseHandoffCommand(params.command.commandBodyNormalized);
+  if (!parsed) {
+    return null;
+  }
+  if (!params.command.isAuthorizedSender) {
+    logVerbose(
+      `Ignoring /handoff from unauthorized sender: ${params.command.senderId || "<unknown>"}`,
+    );
+    return { shouldContinue: false };
+  }
+  const { cfg } = params;
+  if (!resolveHandoffOperator(cfg)) {
+    return {
+      shouldContinue: false,
+      reply: { text: "⚙️ Human handoff is not configured (set session.handoff.operator)." },
+    };
+  }
+  const inOperatorChat = isHandoffOperatorConversation(cfg, currentConversation(params));
+
+  if (parsed.action === "list") {
+    return {
+      shouldContinue: false,
+      reply: { text: formatActiveHandoffs(listActiveHandoffs(cfg)) },
+    };
+  }
+
+  if (parsed.action === "start") {
+    if (inOperatorChat) {
+      return {
+        shouldContinue: false,
+        reply: { text: "⚙️ Run /handoff start in the conversation you want to take over." },
+      };
+    }
+    try {
+      const { handoff, started } = await startSessionHandoff({
+        cfg,
+        sessionKey: params.sessionKey,
+        trigger: "operator",
+        reason: parsed.args,
+        origin: currentConversation(params),
+        createIfMissing: true,
+      });
+      if (params.sessionEntry) {
+        params.sessionEntry.handoff = handoff;
+      }
+      return {
+        shouldContinue: false,
+        reply: {
+          text: started
+            ? resolveHandoffNotice(cfg)
+            : `🙋 This conversation is already handed off (#${handoff.id}).`,
+        },
+      };
+    } catch (err) {
+      return {
+        shouldContinue: false,
+        reply: { text: `⚠️ ${err instanceof Error ? err.message : String(err)}` },
+      };
+    }
+  }
+
+  if (parsed.action === "end") {
+    const { ref, note } = parseEndArgs(parsed.args);
+    let target: ActiveHandoff | undefined;
+    if (ref) {
+      target = findActiveHandoff(cfg, ref);
+    } else {
+      const active = listActiveHandoffs(cfg);
+      target = active.find((entry) => entry.sessionKey === params.sessionKey);
+      if (!target && inOperatorChat && active.length > 1) {
+        return {
+          shouldContinue: false,
+          reply: {
+            text: `⚙️ Several handoffs are open; use /handoff end <#id>.\n${formatActiveHandoffs(active)}`,
+          },
+        };
+      }
+      target ??= inOperatorChat ? active[0] : undefined;
+    }
+    if (!target) {
+      return {
+        shouldContinue: false,
+        reply: { text: ref ? `⚠️ No open handoff ${ref}.` : "🙋 No open handoff here." },
+      };
+    }
+    const ended = await endSessionHandoff({
+      cfg,
+      sessionKey: target.sessionKey,
+      note,
+      notifyOperator: !inOperatorChat,
+    });
+    if (params.sessionEntry && target.sessionKey === params.sessionKey) {
+      delete params.sessionEntry.handoff;
+    }
+    return {
+      shouldContinue: false,
+      reply: {
+        text: ended
+          ? `✅ Handoff #${ended.id} ended; the agent is back in ${target.sessionKey}.`
+          : `🙋 Handoff #${target.handoff.id} was already closed.`,
+      },
+    };
+  }
+
+  return { shouldContinue: false, reply: { text: HANDOFF_USAGE } };
+};
@@ -1,11 +1,17 @@
 import { abortEmbeddedPiRun } from "../../agents/pi-embedded.js";
 import { isRestartEnabled } from "../../config/commands.js";
 import type { SessionEntry } from "../../config/sessions.js";
-import { updateSessionStore } from "../../config/sessions.js";
+import { forkSessionEntry, updateSessionStore } from "../../config/sessions.js";
 import { logVerbose } from "../../globals.js";
 import { createInternalHookEvent, triggerInternalHook } from "../../hooks/internal-hooks.js";
 import { scheduleGatewaySigusr1Restart, triggerOpenClawRestart } from "../../infra/restart.js";
 import { loadCostUsageSummary, loadSessionCostSummary } from "../../infra/session-cost-usage.js";
+import {
+  formatSpendBudgetStatus,
+  isSpendBudgetEnabled,
+  loadSpendBudgetStatuses,
+} from "../../infra/spend-budget.js";
+import { resolveAgentIdFromSessionKey } from "../../routing/session-key.js";
 import { formatTokenCount, formatUsd } from "../../utils/usage-format.js";
 import { parseActivationCommand } from "../group-activation.js";
 import { parseSendPolicyCommand } from "../send-policy.js";
@@ -158,6 +164,45 @@ export const handleSendPolicyCommand: CommandHandler = async (params, allowTextC
   };
 };
 
+export const handleForkCommand: CommandHandler = async (params, allowTextCommands) => {
+  if (!allowTextCommands) {
+    return null;
+  }
+  const normalized = params.command.commandBodyNormalized;
+  if (normalized !== "/fork" && !normalized.startsWith("/fork ")) {
+    return null;
+  }
+  if (!params.command.isAuthorizedSender) {
+    logVerbose(
+      `Ignoring /fork from unauthorized sender: ${params.command.senderId || "<unknown>"}`,
+    );
+    return { shouldContinue: false };
+  }
+  const parentKey = params.ctx.CommandTargetSessionKey?.trim() || params.sessionKey;
+  if (!params.storePath || !parentKey) {
+    return { shouldContinue: false, reply: { text: "⚠️ No session to fork here." } };
+  }
+  const label = normalized.slice("/fork".length).trim() || undefined;
+  const forked = await forkSessionEntry({
+    storePath: params.storePath,
+    parentKey,
+    agentId: params.agentId ?? resolveAgentIdFromSessionKey(parentKey),
+    label,
+  });
+  if (!forked.ok) {
+    return { shouldContinue: false, reply: { text: `⚠️ Fork failed: ${forked.error}` } };
+  }
+  const name = label ? `"${label}" (${forked.key})` : forked.key;
+  return {
+    shouldContinue: false,
+    reply: {
+      text:
+        `🍴 Forked this conversation as ${name}. ` +
+        "This chat stays on the original thread; open the fork from the Control UI sessions list.",
+    },
+  };
+};
+
 export const handleUsageCommand: CommandHandler = async (params, allowTextCommands) => {
   if (!allowTextCommands) {
     return null;
@@ -214,10 +259,35 @@ export const handleUsageCommand: CommandHandler = async (params, allowTextComman
     };
   }
 
+  if (rawArgs.toLowerCase().startsWith("budget")) {
+    if (!isSpendBudgetEnabled(params.cfg)) {
+      return {
+        shouldContinue: false,
+        reply: { text: "💸 No spend budgets configured (see `budgets` in the config)." },
+      };
+    }
+    const statuses = await loadSpendBudgetStatuses({
+      cfg: params.cfg,
+      subject: {
+        agentId: params.agentId,
+        channel: params.command.channel,
+        accountId: params.ctx.AccountId,
+        senderId: params.ctx.SenderId?.trim() || params.command.senderId,
+      },
+    });
+    const lines = statuses.map((status) => formatSpendBudgetStatus(status));
+    return {
+      shouldContinue: false,
+      reply: {
+        text: `💸 Spend budgets\n${lines.length > 0 ? lines.join("\n") : "No budget applies to this chat."}`,
+      },
+    };
+  }
+
   if (rawArgs && !requested) {
     return {
       shouldContinue: false,
-      reply: { text: "⚙️ Usage: /usage off|tokens|full|cost" },
+      reply: { text: "⚙️ Usage: /usage off|tokens|full|cost|budget" },
     };
   }
 
@@ -15,6 +15,7 @@ import { getReplyFromConfig } from "../reply.js";
 import type { FinalizedMsgContext } from "../templating.js";
 import type { GetReplyOptions, ReplyPayload } from "../types.js";
 import { formatAbortReplyText, tryFastAbortFromMessage } from "./abort.js";
+import { handleHandoffInbound } from "./handoff.js";
 import { shouldSkipDuplicateInbound } from "./inbound-dedupe.js";
 import type { ReplyDispatcher, ReplyDispatchKind } from "./reply-dispatcher.js";
 import { isRoutableChannel, routeReply } from "./route-reply.js";
@@ -275,43 +276,65 @@ export async function dispatchReplyFromConfig(params: {
     }
   };
 
+  /**
+   * Send a single final reply for short-circuited messages (fast abort,
+   * handoff) without running the agent.
+   */
+  const sendShortCircuitReply = async (
+    payload: ReplyPayload | undefined,
+    reason: string,
+  ): Promise<DispatchFromConfigResult> => {
+    let queuedFinal = false;
+    let routedFinalCount = 0;
+    // No payload means nothing to say back (e.g. a message forwarded to an operator).
+    if (payload && shouldRouteToOriginating && originatingChannel && originatingTo) {
+      const result = await routeReply({
+        payload,
+        channel: originatingChannel,
+        to: originatingTo,
+        sessionKey: ctx.SessionKey,
+        accountId: ctx.AccountId,
+        threadId: ctx.MessageThreadId,
+        cfg,
+      });
+      queuedFinal = result.ok;
+      if (result.ok) {
+        routedFinalCount += 1;
+      }
+      if (!result.ok) {
+        logVerbose(
+          `dispatch-from-config: route-reply (${reason}) failed: ${result.error ?? "unknown error"}`,
+        );
+      }
+    } else if (payload) {
+      queuedFinal = dispatcher.sendFinalReply(payload);
+    }
+    const counts = dispatcher.getQueuedCounts();
+    counts.final += routedFinalCount;
+    return { queuedFinal, counts };
+  };
+
   markProcessing();
 
   try {
     const fastAbort = await tryFastAbortFromMessage({ ctx, cfg });
     if (fastAbort.handled) {
-      const payload = {
-        text: formatAbortReplyText(fastAbort.stoppedSubagents),
-      } satisfies ReplyPayload;
-      let queuedFinal = false;
-      let routedFinalCount = 0;
-      if (shouldRouteToOriginating && originatingChannel && originatingTo) {
-        const result = await routeReply({
-          payload,
-          channel: originatingChannel,
-          to: originatingTo,
-          sessionKey: ctx.SessionKey,
-          accountId: ctx.AccountId,
-          threadId: ctx.MessageThreadId,
-          cfg,
-        });
-        queuedFinal = result.ok;
-        if (result.ok) {
-          routedFinalCount += 1;
-        }
-        if (!result.ok) {
-          logVerbose(
-            `dispatch-from-config: route-reply (abort) failed: ${result.error ?? "unknown error"}`,
-          );
-        }
-      } else {
-        queuedFinal = dispatcher.sendFinalReply(payload);
-      }
-      const counts = dispatcher.getQueuedCounts();
-      counts.final += routedFinalCount;
+      const result = await sendShortCircuitReply(
+        { text: formatAbortReplyText(fastAbort.stoppedSubagents) },
+        "abort",
+      );
       recordProcessed("completed", { reason: "fast_abort" });
       markIdle("message_completed");
-      return { queuedFinal, counts };
+      return result;
+    }
+
+    // Human handoff: operator replies and messages of paused sessions never reach the agent.
+    const handoff = await handleHandoffInbound({ ctx, cfg });
+    if (handoff.handled) {
+      const result = await sendShortCircuitReply(handoff.reply, "handoff");
+      recordProcessed("completed", { reason: "handoff" });
+      markIdle("message_completed");
+      return result;
     }
 
     // Track accumulated block text for TTS generation after streaming completes.
@@ -0,0 +1,193 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { OpenClawConfig } from "../../config/config.js";
+import { loadSessionStore, saveSessionStore } from "../../config/sessions.js";
+import { peekSystemEvents, resetSystemEventsForTest } from "../../infra/system-events.js";
+import type { MsgContext } from "../templating.js";
+import { endSessionHandoff, handleHandoffInbound, startSessionHandoff } from "./handoff.js";
+import { buildTestCtx } from "./test-ctx.js";
+
+const mocks = vi.hoisted(() => ({
+  routeReply: vi.fn(async (_params: unknown) => ({ ok: true, messageId: "mock" })),
+}));
+
+vi.mock("./route-reply.js", () => ({
+  routeReply: mocks.routeReply,
+}));
+
+const USER_SESSION = "agent:main:telegram:direct:42";
+
+describe("human handoff", () => {
+  let tmpDir: string;
+  let storePath: string;
+  let cfg: OpenClawConfig;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-handoff-"));
+    storePath = path.join(tmpDir, "sessions.json");
+    cfg = {
+      session: {
+        store: storePath,
+        handoff: {
+          operator: { channel: "telegram", to: "-100200" },
+          keywords: ["talk to a human"],
+        },
+      },
+    } as OpenClawConfig;
+    await saveSessionStore(storePath, {
+      [USER_SESSION]: {
+        sessionId: "s1",
+        updatedAt: Date.now(),
+        lastChannel: "telegram",
+        lastTo: "telegram:42",
+      },
+    });
+    mocks.routeReply.mockClear();
+    resetSystemEventsForTest();
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  const userCtx = (body: string, overrides: Partial<MsgContext> = {}) =>
+    buildTestCtx({
+      Body: body,
+      Provider: "telegram",
+      Surface: "telegram",
+      OriginatingChannel: "telegram",
+      OriginatingTo: "telegram:42",
+      From: "telegram:42",
+      SenderName: "Ada",
+      SessionKey: USER_SESSION,
+      ...overrides,
+    });
+
+  const operatorCtx = (body: string) =>
+    buildTestCtx({
+      Body: body,
+      Provider: "telegram",
+      Surface: "telegram",
+      OriginatingChannel: "telegram",
+      OriginatingTo: "telegram:-100200",
+      ChatType: "group",
+      SessionKey: "agent:main:telegram:group:-100200",
+    });
+
+  it("starts on a keyword and forwards the conversation to the operator", async () => {
+    const result = await handleHandoffInbound({
+      ctx: userCtx("Can I talk to a human please?"),
+      cfg,
+    });
+    expect(result).toEqual({ handled: true, reply: { text: expect.stringContaining("person") } });
+
+    const handoff = loadSessionStore(storePath, { skipCache: true })[USER_SESSION]?.handoff;
+    expect(handoff).toMatchObject({
+      trigger: "keyword",
+      origin: { channel: "telegram", to: "telegram:42" },
+      transcript: [{ from: "user", text: "Can I talk to a human please?" }],
+    });
+    const operatorTexts = mocks.routeReply.mock.calls.map(
+      ([params]) => (params as { payload: { text: string } }).payload.text,
+    );
+    expect(operatorTexts[0]).toContain(`Handoff #${handoff?.id} (keyword)`);
+    expect(operatorTexts[1]).toBe(`[#${handoff?.id}] Ada: Can I talk to a human please?`);
+
+    // Follow-ups skip the agent and go to the operator too.
+    await expect(handleHandoffInbound({ ctx: userCtx("hello?"), cfg })).resolves.toEqual({
+      handled: true,
+    });
+    expect(mocks.routeReply).toHaveBeenLastCalledWith(
+      expect.objectContaining({ channel: "telegram", to: "-100200" }),
+    );
+  });
+
+  it("forwards media-only messages to the operator", async () => {
+    const { handoff } = await startSessionHandoff({
+      cfg,
+      sessionKey: USER_SESSION,
+      trigger: "agent",
+    });
+    mocks.routeReply.mockClear();
+
+    await expect(
+      handleHandoffInbound({
+        ctx: userCtx("", {
+          MediaPaths: ["/tmp/media/inbound/receipt.jpg"],
+          MediaUrls: ["https://files.example/receipt.jpg"],
+        }),
+        cfg,
+      }),
+    ).resolves.toEqual({ handled: true });
+
+    expect(mocks.routeReply).toHaveBeenCalledWith(
+      expect.objectContaining({
+        payload: {
+          text: `[#${handoff.id}] Ada: [1 attachment]`,
+          mediaUrls: ["/tmp/media/inbound/receipt.jpg"],
+        },
+        to: "-100200",
+      }),
+    );
+    expect(
+      loadSessionStore(storePath, { skipCache: true })[USER_SESSION]?.handoff?.transcript,
+    ).toEqual([expect.objectContaining({ from: "user", text: "[1 attachment]" })]);
+  });
+
+  it("relays operator replies and resumes the agent with a summary", async () => {
+    const { handoff } = await startSessionHandoff({
+      cfg,
+      sessionKey: USER_SESSION,
+      trigger: "agent",
+      reason: "refund request",
+    });
+    mocks.routeReply.mockClear();
+
+    await expect(
+      handleHandoffInbound({ ctx: operatorCtx("Refund issued, sorry for the wait!"), cfg }),
+    ).resolves.toEqual({ handled: true });
+    expect(mocks.routeReply).toHaveBeenCalledWith(
+      expect.objectContaining({
+        payload: { text: "Refund issued, sorry for the wait!" },
+        channel: "telegram",
+        to: "telegram:42",
+        sessionKey: USER_SESSION,
+        mirror: false,
+      }),
+    );
+    await expect(
+      handleHandoffInbound({ ctx: operatorCtx("#ffffff wrong one"), cfg }),
+    ).resolves.toEqual({ handled: true, reply: { text: "⚠️ No open handoff #ffffff." } });
+
+    const ended = await endSessionHandoff({ cfg, sessionKey: USER_SESSION, note: "refunded" });
+    expect(ended?.id).toBe(handoff.id);
+    expect(loadSessionStore(storePath, { skipCache: true })[USER_SESSION]?.handoff).toBeUndefined();
+    const [summary] = peekSystemEvents(USER_SESSION);
+    expect(summary).toContain(`Human handoff #${handoff.id} ended`);
+    expect(summary).toContain("Operator: Refund issued, sorry for the wait!");
+    expect(summary).toContain("Operator note: refunded");
+
+    // With nothing open, the operator chat talks to its own agent again.
+    await expect(handleHandoffInbound({ ctx: operatorCtx("hi"), cfg })).resolves.toEqual({
+      handled: false,
+    });
+  });
+
+  it("does nothing when no operator is configured", async () => {
+    await expect(
+      handleHandoffInbound({
+        ctx: userCtx("talk to a human"),
+        cfg: { session: { store: storePath } },
+      }),
+    ).resolves.toEqual({ handled: false });
+    await expect(
+      startSessionHandoff({
+        cfg: { session: { store: storePath } },
+        sessionKey: USER_SESSION,
+        trigger: "agent",
+      }),
+    ).rejects.toThrow("human handoff is not configured");
+  });
+});
@@ -0,0 +1,509 @@
+import crypto from "node:crypto";
+import { listAgentIds, resolveSessionAgentId } from "../../agents/agent-scope.js";
+import type { OpenClawConfig } from "../../config/config.js";
+import {
+  loadSessionStore,
+  mergeSessionEntry,
+  resolveStorePath,
+  type SessionHandoff,
+  type SessionHandoffMessage,
+  updateSessionStore,
+} from "../../config/sessions.js";
+import { logVerbose } from "../../globals.js";
+import { enqueueSystemEvent } from "../../infra/system-events.js";
+import { normalizeAccountId } from "../../utils/account-id.js";
+import {
+  deliveryContextFromSession,
+  type DeliveryContext,
+  normalizeDeliveryContext,
+} from "../../utils/delivery-context.js";
+import type { FinalizedMsgContext, OriginatingChannelType } from "../templating.js";
+import type { ReplyPayload } from "../types.js";
+import { routeReply } from "./route-reply.js";
+
+/**
+ * Human handoff: a session in handoff stops auto-replying, inbound messages
+ * are forwarded to the operator chat (`session.handoff.operator`), operator
+ * replies are relayed back through the original channel, and the agent gets a
+ * summary of the human exchange when the handoff ends.
+ */
+
+const MAX_TRANSCRIPT_MESSAGES = 30;
+const MAX_MESSAGE_CHARS = 1000;
+const DEFAULT_NOTICE = "You're now talking to a person from our team. They'll reply here shortly.";
+
+type OperatorTarget = DeliveryContext & { channel: string; to: string };
+
+export type ActiveHandoff = {
+  sessionKey: string;
+  storePath: string;
+  handoff: SessionHandoff;
+};
+
+export function resolveHandoffOperator(cfg: OpenClawConfig): OperatorTarget | null {
+  const operator = normalizeDeliveryContext(cfg.session?.handoff?.operator);
+  if (!operator?.channel || !operator.to) {
+    return null;
+  }
+  return { ...operator, channel: operator.channel, to: operator.to };
+}
+
+export function resolveHandoffNotice(cfg: OpenClawConfig): string {
+  return cfg.session?.handoff?.notice?.trim() || DEFAULT_NOTICE;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Returns the configured keyword found in `text` (whole words, case-insensitive). */
+export function matchHandoffKeyword(cfg: OpenClawConfig, text: string): string | null {
+  for (const raw of cfg.session?.handoff?.keywords ?? []) {
+    const keyword = raw.trim();
+    if (
+      keyword &&
+      new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(keyword)}(?![\\p{L}\\p{N}])`, "iu").test(text)
+    ) {
+      return keyword;
+    }
+  }
+  return null;
+}
+
+function normalizeTarget(channel: string, to: string): string {
+  const trimmed = to.trim().toLowerCase();
+  return trimmed.startsWith(`${channel}:`) ? trimmed.slice(channel.length + 1) : trimmed;
+}
+
+/** Whether an inbound conversation is the configured operator chat. */
+export function isHandoffOperatorConversation(
+  cfg: OpenClawConfig,
+  conversation: DeliveryContext,
+): boolean {
+  const operator = resolveHandoffOperator(cfg);
+  const target = normalizeDeliveryContext(conversation);
+  if (!operator || !target?.channel || !target.to || target.channel !== operator.channel) {
+    return false;
+  }
+  if (
+    normalizeTarget(operator.channel, operator.to) !== normalizeTarget(target.channel, target.to)
+  ) {
+    return false;
+  }
+  if (operator.accountId && normalizeAccountId(target.accountId) !== operator.accountId) {
+    return false;
+  }
+  return operator.threadId == null || String(operator.threadId) === String(target.threadId ?? "");
+}
+
+function resolveHandoffStorePath(cfg: OpenClawConfig, sessionKey: string): string {
+  const agentId = resolveSessionAgentId({ sessionKey, config: cfg });
+  return resolveStorePath(cfg.session?.store, { agentId });
+}
+
+function resolveStoreKey(store: Record<string, unknown>, sessionKey: string): string {
+  const lower = sessionKey.toLowerCase();
+  return store[lower] ? lower : sessionKey;
+}
+
+export function loadSessionHandoff(
+  cfg: OpenClawConfig,
+  sessionKey: string,
+): SessionHandoff | undefined {
+  try {
+    const store = loadSessionStore(resolveHandoffStorePath(cfg, sessionKey));
+    return store[resolveStoreKey(store, sessionKey)]?.handoff;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Every session currently handed off to a human, across agent stores. */
+export function listActiveHandoffs(cfg: OpenClawConfig): ActiveHandoff[] {
+  const storePaths = new Set(
+    listAgentIds(cfg).map((agentId) => resolveStorePath(cfg.session?.store, { agentId })),
+  );
+  const active: ActiveHandoff[] = [];
+  for (const storePath of storePaths) {
+    let store: ReturnType<typeof loadSessionStore>;
+    try {
+      store = loadSessionStore(storePath);
+    } catch {
+      continue;
+    }
+    for (const [sessionKey, entry] of Object.entries(store)) {
+      if (entry?.handoff) {
+        active.push({ sessionKey, storePath, handoff: entry.handoff });
+      }
+    }
+  }
+  return active.toSorted((a, b) => a.handoff.startedAt - b.handoff.startedAt);
+}
+
+export function findActiveHandoff(cfg: OpenClawConfig, ref: string): ActiveHandoff | undefined {
+  const needle = ref.trim().replace(/^#/, "").toLowerCase();
+  return listActiveHandoffs(cfg).find(
+    (entry) => entry.handoff.id === needle || entry.sessionKey.toLowerCase() === needle,
+  );
+}
+
+async function sendToOperator(
+  cfg: OpenClawConfig,
+  text: string,
+  mediaUrls: string[] = [],
+): Promise<boolean> {
+  const operator = resolveHandoffOperator(cfg);
+  if (!operator) {
+    return false;
+  }
+  const result = await routeReply({
+    payload: mediaUrls.length > 0 ? { text, mediaUrls } : { text },
+    channel: operator.channel as OriginatingChannelType,
+    to: operator.to,
+    accountId: operator.accountId,
+    threadId: operator.threadId,
+    cfg,
+  });
+  if (!result.ok) {
+    logVerbose(`handoff: operator delivery failed: ${result.error ?? "unknown error"}`);
+  }
+  return result.ok;
+}
+
+function clip(text: string): string {
+  const trimmed = text.trim();
+  return trimmed.length > MAX_MESSAGE_CHARS ? `${trimmed.slice(0, MAX_MESSAGE_CHARS)}…` : trimmed;
+}
+
+async function appendTranscript(
+  cfg: OpenClawConfig,
+  sessionKey: string,
+  message: SessionHandoffMessage,
+): Promise<void> {
+  await updateSessionStore(resolveHandoffStorePath(cfg, sessionKey), (store) => {
+    const entry = store[resolveStoreKey(store, sessionKey)];
+    if (!entry?.handoff) {
+      return;
+    }
+    const transcript = [...(entry.handoff.transcript ?? []), message];
+    entry.handoff = {
+      ...entry.handoff,
+      transcript: transcript.slice(-MAX_TRANSCRIPT_MESSAGES),
+    };
+  });
+}
+
+/**
+ * Pause the agent for `sessionKey` and tell the operator chat. Returns the
+ * existing handoff unchanged when the session is already handed off.
+ */
+export async function startSessionHandoff(params: {
+  cfg: OpenClawConfig;
+  sessionKey: string;
+  trigger: SessionHandoff["trigger"];
+  reason?: string;
+  /** Context for the operator (e.g. the agent's summary of the conversation). */
+  summary?: string;
+  /** Defaults to the session's last delivery route. */
+  origin?: DeliveryContext;
+  /** Create the session entry when the handoff arrives before the first agent run. */
+  createIfMissing?: boolean;
+}): Promise<{ handoff: SessionHandoff; started: boolean }> {
+  const { cfg, sessionKey } = params;
+  if (!resolveHandoffOperator(cfg)) {
+    throw new Error("human handoff is not configured (set session.handoff.operator)");
+  }
+  const reason = params.reason?.trim() || undefined;
+  const result = await updateSessionStore(resolveHandoffStorePath(cfg, sessionKey), (store) => {
+    const key = resolveStoreKey(store, sessionKey);
+    const existing = store[key];
+    if (!existing && !params.createIfMissing) {
+      throw new Error(`session not found: ${sessionKey}`);
+    }
+    if (existing?.handoff) {
+      return { handoff: existing.handoff, started: false };
+    }
+    const origin = normalizeDeliveryContext(params.origin) ?? deliveryContextFromSession(existing);
+    if (!origin?.channel || !origin.to) {
+      throw new Error(`session ${sessionKey} has no delivery route to hand off`);
+    }
+    const handoff: SessionHandoff = {
+      id: crypto.randomBytes(3).toString("hex"),
+      startedAt: Date.now(),
+      trigger: params.trigger,
+      ...(reason ? { reason } : {}),
+      origin,
+      transcript: [],
+    };
+    store[key] = mergeSessionEntry(existing, { handoff });
+    return { handoff, started: true };
+  });
+  if (result.started) {
+    const { handoff } = result;
+    const lines = [
+      `🙋 Handoff #${handoff.id} (${handoff.trigger}) · ${sessionKey}`,
+      `Conversation: ${handoff.origin.channel} ${handoff.origin.to}`,
+      reason ? `Reason: ${reason}` : "",
+      params.summary?.trim() ? `Summary: ${clip(params.summary)}` : "",
+      `Reply here to answer (prefix #${handoff.id} when several handoffs are open). /handoff end #${handoff.id} [note] hands it back to the agent.`,
+    ];
+    await sendToOperator(cfg, lines.filter(Boolean).join("\n"));
+  }
+  return result;
+}
+
+/** Local copies of the inbound attachments, falling back to their URLs. */
+function resolveInboundMedia(ctx: FinalizedMsgContext): string[] {
+  const candidates = [
+    ctx.MediaPaths,
+    ctx.MediaPath ? [ctx.MediaPath] : undefined,
+    ctx.MediaUrls,
+    ctx.MediaUrl ? [ctx.MediaUrl] : undefined,
+  ];
+  for (const list of candidates) {
+    const media = (list ?? []).map((entry) => entry.trim()).filter(Boolean);
+    if (media.length > 0) {
+      return media;
+    }
+  }
+  return [];
+}
+
+/**
+ * Forward a user message from a handed-off session to the operator chat.
+ * Attachments are forwarded as media; the transcript only notes how many there were.
+ */
+export async function forwardHandoffMessage(params: {
+  cfg: OpenClawConfig;
+  sessionKey: string;
+  handoff: SessionHandoff;
+  sender?: string;
+  text: string;
+  mediaUrls?: string[];
+}): Promise<boolean> {
+  const mediaUrls = params.mediaUrls ?? [];
+  const attachments =
+    mediaUrls.length > 0
+      ? `[${mediaUrls.length} attachment${mediaUrls.length === 1 ? "" : "s"}]`
+      : "";
+  const text = [clip(params.text), attachments].filter(Boolean).join(" ");
+  if (!text) {
+    return false;
+  }
+  await appendTranscript(params.cfg, params.sessionKey, {
+    from: "user",
+    text,
+    at: Date.now(),
+  });
+  const sender = params.sender?.trim() ? `${params.sender.trim()}: ` : "";
+  return await sendToOperator(params.cfg, `[#${params.handoff.id}] ${sender}${text}`, mediaUrls);
+}
+
+/** Send an operator reply to the handed-off conversation through its own channel. */
+export async function relayOperatorReply(params: {
+  cfg: OpenClawConfig;
+  active: ActiveHandoff;
+  text: string;
+}): Promise<{ ok: boolean; error?: string }> {
+  const { cfg, active } = params;
+  const text = params.text.trim();
+  const { origin } = active.handoff;
+  if (!text || !origin.channel || !origin.to) {
+    return { ok: false, error: "nothing to send" };
+  }
+  const result = await routeReply({
+    payload: { text },
+    channel: origin.channel as OriginatingChannelType,
+    to: origin.to,
+    sessionKey: active.sessionKey,
+    accountId: origin.accountId,
+    threadId: origin.threadId,
+    cfg,
+    // The agent hears about operator replies in the resume summary instead.
+    mirror: false,
+  });
+  if (result.ok) {
+    await appendTranscript(cfg, active.sessionKey, {
+      from: "operator",
+      text: clip(text),
+      at: Date.now(),
+    });
+  }
+  return { ok: result.ok, error: result.error };
+}
+
+/**
+ * Pick the handoff an operator message is meant for: `#id text` addresses one
+ * explicitly, otherwise the only open handoff wins.
+ */
+export function resolveOperatorReplyTarget(
+  active: ActiveHandoff[],
+  text: string,
+): { target: ActiveHandoff; text: string } | { error: string } {
+  const match = text.trim().match(/^#([0-9a-f]{6})\b\s*([\s\S]*)$/i);
+  if (match) {
+    const target = active.find((entry) => entry.handoff.id === match[1].toLowerCase());
+    return target
+      ? { target, text: match[2] }
+      : { error: `No open handoff #${match[1].toLowerCase()}.` };
+  }
+  if (active.length === 1) {
+    return { target: active[0], text };
+  }
+  return {
+    error: `Several handoffs are open; prefix your reply with one of ${active
+      .map((entry) => `#${entry.handoff.id}`)
+      .join(", ")}.`,
+  };
+}
+
+/** System event text that brings the agent up to speed after a handoff. */
+export function formatHandoffSummary(handoff: SessionHandoff, note?: string): string {
+  const transcript = handoff.transcript ?? [];
+  const lines = [
+    `Human handoff #${handoff.id} ended; you are back in charge of this conversation.`,
+    transcript.length > 0
+      ? "While you were paused, a human operator handled it:"
+      : "The operator did not exchange any messages while you were paused.",
+    ...transcript.map(
+      (message) => `${message.from === "user" ? "User" : "Operator"}: ${message.text}`,
+    ),
+    note?.trim() ? `Operator note: ${note.trim()}` : "",
+  ];
+  return lines.filter(Boolean).join("\n");
+}
+
+/** End the handoff, resume the agent with a summary and confirm to the operator. */
+export async function endSessionHandoff(params: {
+  cfg: OpenClawConfig;
+  sessionKey: string;
+  note?: string;
+  /** Skip the confirmation when the operator chat ended it (it gets a command reply). */
+  notifyOperator?: boolean;
+}): Promise<SessionHandoff | null> {
+  const { cfg, sessionKey } = params;
+  const handoff = await updateSessionStore(resolveHandoffStorePath(cfg, sessionKey), (store) => {
+    const entry = store[resolveStoreKey(store, sessionKey)];
+    if (!entry?.handoff) {
+      return null;
+    }
+    const ended = entry.handoff;
+    delete entry.handoff;
+    entry.updatedAt = Date.now();
+    return ended;
+  });
+  if (!handoff) {
+    return null;
+  }
+  enqueueSystemEvent(formatHandoffSummary(handoff, params.note), {
+    sessionKey,
+    contextKey: `handoff:${handoff.id}`,
+  });
+  if (params.notifyOperator !== false) {
+    await sendToOperator(
+      cfg,
+      `✅ Handoff #${handoff.id} closed; the agent has resumed ${sessionKey}.`,
+    );
+  }
+  return handoff;
+}
+
+export type HandoffInboundResult = { handled: false } | { handled: true; reply?: ReplyPayload };
+
+/**
+ * Handoff gate for inbound messages, run before the agent: relays operator
+ * chat replies, forwards messages of handed-off sessions and starts a handoff
+ * when a configured keyword shows up.
+ */
+export async function handleHandoffInbound(params: {
+  ctx: FinalizedMsgContext;
+  cfg: OpenClawConfig;
+}): Promise<HandoffInboundResult> {
+  const { ctx, cfg } = params;
+  if (!resolveHandoffOperator(cfg)) {
+    return { handled: false };
+  }
+  const text =
+    [ctx.BodyForCommands, ctx.RawBody, ctx.Body]
+      .find((value): value is string => typeof value === "string" && value.trim() !== "")
+      ?.trim() ?? "";
+  const isCommand = text.startsWith("/");
+  const conversation: DeliveryContext = {
+    channel: ctx.OriginatingChannel ?? ctx.Surface ?? ctx.Provider,
+    to: ctx.OriginatingTo ?? ctx.From,
+    accountId: ctx.AccountId,
+    threadId: ctx.MessageThreadId,
+  };
+
+  if (isHandoffOperatorConversation(cfg, conversation)) {
+    if (!text || isCommand) {
+      return { handled: false };
+    }
+    const active = listActiveHandoffs(cfg);
+    if (active.length === 0) {
+      return { handled: false };
+    }
+    const resolved = resolveOperatorReplyTarget(active, text);
+    if ("error" in resolved) {
+      return { handled: true, reply: { text: `⚠️ ${resolved.error}` } };
+    }
+    const result = await relayOperatorReply({ cfg, active: resolved.target, text: resolved.text });
+    return result.ok
+      ? { handled: true }
+      : {
+          handled: true,
+          reply: {
+            text: `⚠️ Could not deliver to #${resolved.target.handoff.id}: ${result.error ?? "unknown error"}`,
+          },
+        };
+  }
+
+  const sessionKey = ctx.SessionKey?.trim();
+  if (!sessionKey) {
+    return { handled: false };
+  }
+  const sender = ctx.SenderName ?? ctx.SenderUsername ?? ctx.From;
+  const handoff = loadSessionHandoff(cfg, sessionKey);
+  if (handoff) {
+    // `/handoff end` from an authorized sender still reaches the command handler.
+    if (/^\/handoff(?:\s|$)/i.test(text)) {
+      return { handled: false };
+    }
+    await forwardHandoffMessage({
+      cfg,
+      sessionKey,
+      handoff,
+      sender,
+      text,
+      mediaUrls: resolveInboundMedia(ctx),
+    });
+    return { handled: true };
+  }
+
+  const keyword = text && !isCommand ? matchHandoffKeyword(cfg, text) : null;
+  if (!keyword) {
+    return { handled: false };
+  }
+  try {
+    const started = await startSessionHandoff({
+      cfg,
+      sessionKey,
+      trigger: "keyword",
+      reason: `keyword "${keyword}"`,
+      origin: conversation,
+      createIfMissing: true,
+    });
+    await forwardHandoffMessage({
+      cfg,
+      sessionKey,
+      handoff: started.handoff,
+      sender,
+      text,
+      mediaUrls: resolveInboundMedia(ctx),
+    });
+  } catch (err) {
+    logVerbose(`handoff: keyword handoff failed: ${String(err)}`);
+    return { handled: false };
+  }
+  return { handled: true, reply: { text: resolveHandoffNotice(cfg) } };
+}
@@ -0,0 +1,141 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { OpenClawConfig } from "../config/config.js";
+import { makeTempWorkspace } from "../test-helpers/workspace.js";
+import { collectBusyBlocks, findAvailableSlots } from "./availability.js";
+import { createIcsCalendarBackend } from "./backends.js";
+import { resolveCalendarAvailabilityConfig } from "./config.js";
+import { formatIcs } from "./ics.js";
+import type { InterviewerAvailability } from "./types.js";
+
+const LONDON: InterviewerAvailability = {
+  email: "lead@example.com",
+  timeZone: "Europe/London",
+  workingHours: { days: [1, 2, 3, 4, 5], startMinute: 9 * 60, endMinute: 17 * 60 },
+  icsPaths: [],
+};
+
+describe("findAvailableSlots", () => {
+  it("respects working hours, time zones, buffers and busy blocks", () => {
+    const slots = findAvailableSlots({
+      interviewers: [LONDON],
+      busy: {
+        "LEAD@example.com": [
+          { start: Date.parse("2026-03-09T10:00:00Z"), end: Date.parse("2026-03-09T11:00:00Z") },
+        ],
+      },
+      // Sunday evening: first working window is Monday 09:00 London (= 09:00 UTC in March)
+      from: Date.parse("2026-03-08T18:00:00Z"),
+      to: Date.parse("2026-03-10T00:00:00Z"),
+      durationMinutes: 60,
+      bufferMinutes: 15,
+      stepMinutes: 30,
+      count: 4,
+    });
+    // 09:00 would end at 10:00, inside the 15 min buffer before the 10:00 meeting
+    expect(slots.map((slot) => slot.start)).toEqual([
+      "2026-03-09T11:30:00.000Z",
+      "2026-03-09T12:00:00.000Z",
+      "2026-03-09T12:30:00.000Z",
+      "2026-03-09T13:00:00.000Z",
+    ]);
+  });
+
+  it("spreads slots across days and interviewers in different zones", () => {
+    const newYork: InterviewerAvailability = {
+      ...LONDON,
+      email: "ny@example.com",
+      timeZone: "America/New_York",
+    };
+    const slots = findAvailableSlots({
+      interviewers: [LONDON, newYork],
+      busy: {},
+      from: Date.parse("2026-03-09T16:00:00Z"),
+      to: Date.parse("2026-03-11T00:00:00Z"),
+      durationMinutes: 30,
+      count: 3,
+      maxPerDay: 2,
+    });
+    expect(slots).toEqual([
+      expect.objectContaining({
+        interviewerEmail: "lead@example.com",
+        start: "2026-03-09T16:00:00.000Z",
+      }),
+      expect.objectContaining({
+        interviewerEmail: "lead@example.com",
+        start: "2026-03-09T16:30:00.000Z",
+      }),
+      // Monday is full (2 per day), so the next slot is Tuesday 09:00 London
+      expect.objectContaining({
+        interviewerEmail: "lead@example.com",
+        start: "2026-03-10T09:00:00.000Z",
+      }),
+    ]);
+  });
+});
+
+describe("ICS calendar backend", () => {
+  let workspaceDir: string;
+
+  beforeEach(async () => {
+    workspaceDir = await makeTempWorkspace("openclaw-availability-");
+  });
+
+  afterEach(async () => {
+    await fs.rm(workspaceDir, { recursive: true, force: true });
+  });
+
+  it("proposes slots offline from configured ICS files", async () => {
+    const icsPath = path.join(workspaceDir, "lead.ics");
+    await fs.writeFile(
+      icsPath,
+      formatIcs([
+        {
+          uid: "busy-1",
+          start: Date.parse("2026-03-09T09:00:00Z"),
+          end: Date.parse("2026-03-09T12:00:00Z"),
+          summary: "Workshop",
+        },
+      ]),
+    );
+    const cfg = {
+      tools: {
+        talentlyInterview: {
+          interviewerEmails: ["lead@example.com"],
+          availability: {
+            timeZone: "Europe/London",
+            bufferMinutes: 0,
+            interviewers: {
+              "lead@example.com": { icsPath, workingHours: { start: "09:00", end: "13:00" } },
+            },
+          },
+        },
+      },
+    } as OpenClawConfig;
+
+    const availability = resolveCalendarAvailabilityConfig(cfg);
+    expect(availability.interviewers).toHaveLength(1);
+    const from = Date.parse("2026-03-09T00:00:00Z");
+    const to = Date.parse("2026-03-10T00:00:00Z");
+    const busy = await collectBusyBlocks({
+      backends: [createIcsCalendarBackend()],
+      interviewers: availability.interviewers,
+      from,
+      to,
+    });
+    const slots = findAvailableSlots({
+      interviewers: availability.interviewers,
+      busy,
+      from,
+      to,
+      durationMinutes: 30,
+      stepMinutes: availability.slotStepMinutes,
+      count: 5,
+    });
+    expect(slots.map((slot) => slot.start)).toEqual([
+      "2026-03-09T12:00:00.000Z",
+      "2026-03-09T12:30:00.000Z",
+    ]);
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * Calendar Availability - Slot Finder
+ *
+ * Proposes interview slots inside each interviewer's working hours (in their own
+ * time zone), keeping a buffer around existing busy blocks.
+ */
+
+import { getZonedDateTime, zonedDateTimeToUtc } from "./time-zone.js";
+import type {
+  AvailabilitySlot,
+  BusyBlock,
+  CalendarBackend,
+  InterviewerAvailability,
+  ResolvedWorkingHours,
+} from "./types.js";
+
+const MINUTE_MS = 60_000;
+const MAX_SEARCH_DAYS = 366;
+
+export type FindAvailableSlotsParams = {
+  interviewers: InterviewerAvailability[];
+  /** Busy blocks keyed by interviewer email (case-insensitive). */
+  busy: Record<string, BusyBlock[]>;
+  from: number;
+  to: number;
+  durationMinutes: number;
+  bufferMinutes?: number;
+  stepMinutes?: number;
+  /** Number of slots to propose. */
+  count: number;
+  /** Limit slots per calendar day so proposals spread across days. */
+  maxPerDay?: number;
+};
+
+/**
+ * Whether an instant falls inside working hours in the given time zone.
+ */
+export function isWithinWorkingHours(
+  ms: number,
+  timeZone: string,
+  workingHours: ResolvedWorkingHours,
+): boolean {
+  const zoned = getZonedDateTime(ms, timeZone);
+  const weekday = new Date(Date.UTC(zoned.year, zoned.month - 1, zoned.day)).getUTCDay();
+  const minute = zoned.hour * 60 + zoned.minute;
+  return (
+    workingHours.days.includes(weekday) &&
+    minute >= workingHours.startMinute &&
+    minute < workingHours.endMinute
+  );
+}
+
+function overlapsBusy(start: number, end: number, blocks: BusyBlock[], bufferMs: number): boolean {
+  return blocks.some((block) => block.start < end + bufferMs && start - bufferMs < block.end);
+}
+
+/**
+ * Working-hour windows (epoch ms) for one interviewer between `from` and `to`.
+ */
+function listWorkingWindows(
+  interviewer: InterviewerAvailability,
+  from: number,
+  to: number,
+): Array<{ start: number; end: number; dayKey: string }> {
+  const { timeZone, workingHours } = interviewer;
+  if (workingHours.endMinute <= workingHours.startMinute) {
+    return [];
+  }
+  const first = getZonedDateTime(from, timeZone);
+  const windows: Array<{ start: number; end: number; dayKey: string }> = [];
+  for (let offset = 0; offset <= MAX_SEARCH_DAYS; offset += 1) {
+    // Walk calendar dates in the interviewer's zone; Date.UTC normalizes month overflow
+    const date = new Date(Date.UTC(first.year, first.month - 1, first.day + offset));
+    const fields = {
+      year: date.getUTCFullYear(),
+      month: date.getUTCMonth() + 1,
+      day: date.getUTCDate(),
+      second: 0,
+    };
+    const start = zonedDateTimeToUtc(
+      {
+        ...fields,
+        hour: Math.floor(workingHours.startMinute / 60),
+        minute: workingHours.startMinute % 60,
+      },
+      timeZone,
+    );
+    if (start >= to) {
+      break;
+    }
+    if (!workingHours.days.includes(date.getUTCDay())) {
+      continue;
+    }
+    const end =
+      workingHours.endMinute === 24 * 60
+        ? zonedDateTimeToUtc({ ...fields, day: fields.day + 1, hour: 0, minute: 0 }, timeZone)
+        : zonedDateTimeToUtc(
+            {
+              ...fields,
+              hour: Math.floor(workingHours.endMinute / 60),
+              minute: workingHours.endMinute % 60,
+            },
+            timeZone,
+          );
+    if (end > from) {
+      windows.push({ start, end, dayKey: date.toISOString().slice(0, 10) });
+    }
+  }
+  return windows;
+}
+
+/**
+ * Propose up to `count` slots, earliest first. When several interviewers are free
+ * at the same time, the first one listed gets the slot and the time is offered once.
+ */
+export function findAvailableSlots(params: FindAvailableSlotsParams): AvailabilitySlot[] {
+  const durationMs = params.durationMinutes * MINUTE_MS;
+  const bufferMs = (params.bufferMinutes ?? 0) * MINUTE_MS;
+  const stepMs = Math.max(1, params.stepMinutes ?? 30) * MINUTE_MS;
+  const busyByEmail = new Map(
+    Object.entries(params.busy).map(([email, blocks]) => [email.toLowerCase(), blocks]),
+  );
+
+  const candidates: Array<AvailabilitySlot & { startMs: number; order: number; dayKey: string }> =
+    [];
+  params.interviewers.forEach((interviewer, order) => {
+    const blocks = busyByEmail.get(interviewer.email.toLowerCase()) ?? [];
+    for (const window of listWorkingWindows(interviewer, params.from, params.to)) {
+      // Align slot starts to the step, counted from the start of working hours
+      const earliest = Math.max(window.start, params.from);
+      let start = window.start + Math.ceil((earliest - window.start) / stepMs) * stepMs;
+      for (; start + durationMs <= Math.min(window.end, params.to); start += stepMs) {
+        if (overlapsBusy(start, start + durationMs, blocks, bufferMs)) {
+          continue;
+        }
+        candidates.push({
+          interviewerEmail: interviewer.email,
+          start: new Date(start).toISOString(),
+          end: new Date(start + durationMs).toISOString(),
+          timeZone: interviewer.timeZone,
+          startMs: start,
+          order,
+          dayKey: window.dayKey,
+        });
+      }
+    }
+  });
+
+  candidates.sort((a, b) => a.startMs - b.startMs || a.order - b.order);
+
+  const slots: AvailabilitySlot[] = [];
+  const usedStarts = new Set<number>();
+  const perDay = new Map<string, number>();
+  for (const candidate of candidates) {
+    if (slots.length >= params.count) {
+      break;
+    }
+    if (usedStarts.has(candidate.startMs)) {
+      continue;
+    }
+    const dayCount = perDay.get(candidate.dayKey) ?? 0;
+    if (params.maxPerDay !== undefined && dayCount >= params.maxPerDay) {
+      continue;
+    }
+    usedStarts.add(candidate.startMs);
+    perDay.set(candidate.dayKey, dayCount + 1);
+    slots.push({
+      interviewerEmail: candidate.interviewerEmail,
+      start: candidate.start,
+      end: candidate.end,
+      timeZone: candidate.timeZone,
+    });
+  }
+  return slots;
+}
+
+/**
+ * Collect busy blocks for each interviewer from all backends.
+ */
+export async function collectBusyBlocks(params: {
+  backends: CalendarBackend[];
+  interviewers: InterviewerAvailability[];
+  from: number;
+  to: number;
+}): Promise<Record<string, BusyBlock[]>> {
+  const busy: Record<string, BusyBlock[]> = {};
+  for (const interviewer of params.interviewers) {
+    const blocks: BusyBlock[] = [];
+    for (const backend of params.backends) {
+      const found = await backend.listBusyBlocks({
+        interviewer,
+        from: params.from,
+        to: params.to,
+      });
+      blocks.push(...found.filter((block) => block.end > params.from && block.start < params.to));
+    }
+    busy[interviewer.email.toLowerCase()] = blocks;
+  }
+  return busy;
+}
+
+/**
+ * Format a slot in the interviewer's time zone, e.g. "Tue, Mar 10, 2:00 PM (Europe/London)".
+ */
+export function formatAvailabilitySlot(slot: AvailabilitySlot, timeZone = slot.timeZone): string {
+  const label = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  }).format(new Date(slot.start));
+  return `${label} (${timeZone})`;
+}
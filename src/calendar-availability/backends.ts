@@ -0,0 +1,32 @@
+/**
+ * Calendar Availability - ICS Backend
+ *
+ * Reads busy blocks from the ICS files configured for each interviewer.
+ */
+
+import { icsEventsToBusyBlocks, readIcsFile } from "./ics.js";
+import type { BusyBlock, CalendarBackend } from "./types.js";
+
+/**
+ * Create a backend that reads each interviewer's `icsPaths`.
+ * Missing files are treated as empty calendars.
+ */
+export function createIcsCalendarBackend(): CalendarBackend {
+  return {
+    id: "ics",
+    listBusyBlocks: async ({ interviewer }) => {
+      const blocks: BusyBlock[] = [];
+      for (const icsPath of interviewer.icsPaths) {
+        try {
+          const events = await readIcsFile(icsPath, { timeZone: interviewer.timeZone });
+          blocks.push(...icsEventsToBusyBlocks(events, `ics:${icsPath}`));
+        } catch (err) {
+          if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+            throw err;
+          }
+        }
+      }
+      return blocks;
+    },
+  };
+}
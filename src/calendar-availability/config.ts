@@ -0,0 +1,126 @@
+/**
+ * Calendar Availability - Configuration
+ *
+ * Resolves interviewer working hours and calendars from tools.talentlyInterview.availability.
+ */
+
+import { resolveUserTimezone } from "../agents/date-time.js";
+import type { OpenClawConfig } from "../config/config.js";
+import { resolveUserPath } from "../utils.js";
+import { isValidTimeZone } from "./time-zone.js";
+import type {
+  CalendarAvailabilityConfig,
+  InterviewerAvailability,
+  ResolvedWorkingHours,
+  WorkingHoursConfig,
+} from "./types.js";
+
+const DEFAULT_WORKING_DAYS = [1, 2, 3, 4, 5];
+const DEFAULT_START_MINUTE = 9 * 60;
+const DEFAULT_END_MINUTE = 17 * 60;
+
+export const DEFAULT_BUFFER_MINUTES = 15;
+export const DEFAULT_SLOT_STEP_MINUTES = 30;
+export const DEFAULT_MIN_NOTICE_MINUTES = 120;
+export const DEFAULT_HORIZON_DAYS = 14;
+
+const TIME_PATTERN = /^([01]?\d|2[0-3]):([0-5]\d)$|^24:00$/;
+
+export type ResolvedCalendarAvailabilityConfig = {
+  bufferMinutes: number;
+  slotStepMinutes: number;
+  minNoticeMinutes: number;
+  horizonDays: number;
+  interviewers: InterviewerAvailability[];
+};
+
+/**
+ * Get availability config from tools.talentlyInterview.availability.
+ */
+function getAvailabilityConfig(cfg: OpenClawConfig): CalendarAvailabilityConfig | undefined {
+  return cfg.tools?.talentlyInterview?.availability;
+}
+
+function parseTime(raw: string | undefined, fallback: number): number {
+  if (!raw || !TIME_PATTERN.test(raw.trim())) {
+    return fallback;
+  }
+  const [hour, minute] = raw.trim().split(":").map(Number);
+  return hour * 60 + minute;
+}
+
+/**
+ * Resolve working hours, with per-field overrides falling back to `base` then the defaults.
+ */
+export function resolveWorkingHours(
+  base: WorkingHoursConfig | undefined,
+  override: WorkingHoursConfig | undefined,
+): ResolvedWorkingHours {
+  const days = (override?.days ?? base?.days ?? DEFAULT_WORKING_DAYS).filter(
+    (day) => Number.isInteger(day) && day >= 0 && day <= 6,
+  );
+  const startMinute = parseTime(override?.start ?? base?.start, DEFAULT_START_MINUTE);
+  const endMinute = parseTime(override?.end ?? base?.end, DEFAULT_END_MINUTE);
+  return { days, startMinute, endMinute };
+}
+
+function resolveTimeZone(cfg: OpenClawConfig, ...candidates: Array<string | undefined>): string {
+  for (const candidate of candidates) {
+    const trimmed = candidate?.trim();
+    if (trimmed && isValidTimeZone(trimmed)) {
+      return trimmed;
+    }
+  }
+  return resolveUserTimezone(cfg.agents?.defaults?.userTimezone);
+}
+
+/**
+ * Resolve availability settings for the given interviewers
+ * (default: tools.talentlyInterview.interviewerEmails plus any configured overrides).
+ */
+export function resolveCalendarAvailabilityConfig(
+  cfg: OpenClawConfig,
+  interviewerEmails?: string[],
+): ResolvedCalendarAvailabilityConfig {
+  const config = getAvailabilityConfig(cfg);
+  const overrides = new Map(
+    Object.entries(config?.interviewers ?? {}).map(([email, value]) => [
+      email.trim().toLowerCase(),
+      value,
+    ]),
+  );
+  const emails =
+    interviewerEmails && interviewerEmails.length > 0
+      ? interviewerEmails
+      : [...(cfg.tools?.talentlyInterview?.interviewerEmails ?? []), ...overrides.keys()];
+
+  const seen = new Set<string>();
+  const interviewers: InterviewerAvailability[] = [];
+  for (const raw of emails) {
+    const email = raw.trim();
+    const key = email.toLowerCase();
+    if (!email || seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+    const override = overrides.get(key);
+    const icsPaths = [override?.icsPath, config?.icsPath]
+      .map((value) => value?.trim())
+      .filter((value): value is string => Boolean(value))
+      .map((value) => resolveUserPath(value));
+    interviewers.push({
+      email,
+      timeZone: resolveTimeZone(cfg, override?.timeZone, config?.timeZone),
+      workingHours: resolveWorkingHours(config?.workingHours, override?.workingHours),
+      icsPaths,
+    });
+  }
+
+  return {
+    bufferMinutes: Math.max(0, config?.bufferMinutes ?? DEFAULT_BUFFER_MINUTES),
+    slotStepMinutes: Math.max(5, config?.slotStepMinutes ?? DEFAULT_SLOT_STEP_MINUTES),
+    minNoticeMinutes: Math.max(0, config?.minNoticeMinutes ?? DEFAULT_MIN_NOTICE_MINUTES),
+    horizonDays: Math.max(1, config?.horizonDays ?? DEFAULT_HORIZON_DAYS),
+    interviewers,
+  };
+}
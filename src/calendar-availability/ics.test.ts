@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { formatIcs, icsEventsToBusyBlocks, parseIcs } from "./ics.js";
+
+const SAMPLE = [
+  "BEGIN:VCALENDAR",
+  "VERSION:2.0",
+  "BEGIN:VEVENT",
+  "UID:utc-1",
+  "DTSTART:20260310T140000Z",
+  "DTEND:20260310T150000Z",
+  "SUMMARY:Team sync\\, weekly",
+  "END:VEVENT",
+  "BEGIN:VEVENT",
+  "UID:zoned-1",
+  "DTSTART;TZID=America/New_York:20260310T090000",
+  "DURATION:PT1H30M",
+  "SUMMARY:Standup with a very long title that needs to be folded across multiple",
+  "  lines",
+  "END:VEVENT",
+  "BEGIN:VEVENT",
+  "UID:all-day",
+  "DTSTART;VALUE=DATE:20260311",
+  "SUMMARY:Offsite",
+  "END:VEVENT",
+  "BEGIN:VEVENT",
+  "UID:free",
+  "DTSTART:20260312T100000Z",
+  "DTEND:20260312T110000Z",
+  "TRANSP:TRANSPARENT",
+  "END:VEVENT",
+  "BEGIN:VEVENT",
+  "UID:cancelled",
+  "DTSTART:20260312T120000Z",
+  "DTEND:20260312T130000Z",
+  "STATUS:CANCELLED",
+  "END:VEVENT",
+  "END:VCALENDAR",
+].join("\r\n");
+
+describe("ics", () => {
+  it("parses UTC, zoned, floating and all-day events", () => {
+    const events = parseIcs(SAMPLE, { timeZone: "Europe/London" });
+    expect(events.map((event) => event.uid)).toEqual([
+      "utc-1",
+      "zoned-1",
+      "all-day",
+      "free",
+      "cancelled",
+    ]);
+    expect(events[0]).toMatchObject({
+      start: Date.parse("2026-03-10T14:00:00Z"),
+      end: Date.parse("2026-03-10T15:00:00Z"),
+      summary: "Team sync, weekly",
+    });
+    // 09:00 in New York (EDT from March 8, 2026) is 13:00 UTC
+    expect(events[1]).toMatchObject({
+      start: Date.parse("2026-03-10T13:00:00Z"),
+      end: Date.parse("2026-03-10T14:30:00Z"),
+      summary: "Standup with a very long title that needs to be folded across multiple lines",
+    });
+    // All-day dates are floating: midnight in the fallback zone, lasting one day
+    expect(events[2]).toMatchObject({
+      allDay: true,
+      start: Date.parse("2026-03-11T00:00:00Z"),
+      end: Date.parse("2026-03-12T00:00:00Z"),
+    });
+
+    const busy = icsEventsToBusyBlocks(events);
+    expect(busy).toHaveLength(3);
+  });
+
+  it("round-trips exported events", () => {
+    const ics = formatIcs(
+      [
+        {
+          uid: "slot-1",
+          start: Date.parse("2026-03-10T14:00:00Z"),
+          end: Date.parse("2026-03-10T15:00:00Z"),
+          summary: "Interview hold; lead@example.com, panel",
+          description: "Line one\nLine two",
+          status: "TENTATIVE",
+          attendees: ["lead@example.com"],
+        },
+      ],
+      { now: Date.parse("2026-03-01T00:00:00Z") },
+    );
+    expect(ics).toContain("DTSTART:20260310T140000Z\r\n");
+    expect(ics).toContain("DTSTAMP:20260301T000000Z\r\n");
+    expect(ics.endsWith("END:VCALENDAR\r\n")).toBe(true);
+
+    const [event] = parseIcs(ics);
+    expect(event).toMatchObject({
+      uid: "slot-1",
+      summary: "Interview hold; lead@example.com, panel",
+      description: "Line one\nLine two",
+      status: "TENTATIVE",
+      start: Date.parse("2026-03-10T14:00:00Z"),
+      end: Date.parse("2026-03-10T15:00:00Z"),
+    });
+  });
+});
@@ -0,0 +1,282 @@
+/**
+ * Calendar Availability - ICS Import/Export
+ *
+ * Minimal iCalendar (RFC 5545) support: reads VEVENTs as busy blocks and writes
+ * proposed slots as events. Recurring events (RRULE) are not expanded.
+ */
+
+import fs from "node:fs/promises";
+import { zonedDateTimeToUtc } from "./time-zone.js";
+import type { BusyBlock } from "./types.js";
+
+export type IcsEvent = {
+  uid?: string;
+  summary?: string;
+  description?: string;
+  start: number;
+  end: number;
+  allDay: boolean;
+  status?: string;
+  /** TRANSP:TRANSPARENT events do not block time. */
+  transparent: boolean;
+};
+
+export type IcsExportEvent = {
+  uid: string;
+  start: number;
+  end: number;
+  summary: string;
+  description?: string;
+  status?: "TENTATIVE" | "CONFIRMED" | "CANCELLED";
+  attendees?: string[];
+};
+
+type IcsProperty = {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+};
+
+// =============================================================================
+// Import
+// =============================================================================
+
+function unfoldLines(text: string): string[] {
+  return text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+}
+
+function parseProperty(line: string): IcsProperty | null {
+  const colon = line.indexOf(":");
+  if (colon <= 0) {
+    return null;
+  }
+  const [name, ...rawParams] = line.slice(0, colon).split(";");
+  const params: Record<string, string> = {};
+  for (const raw of rawParams) {
+    const eq = raw.indexOf("=");
+    if (eq > 0) {
+      params[raw.slice(0, eq).toUpperCase()] = raw.slice(eq + 1).replace(/^"|"$/g, "");
+    }
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_match, ch: string) =>
+    ch === "n" || ch === "N" ? "\n" : ch,
+  );
+}
+
+/**
+ * Parse DATE or DATE-TIME values. Floating times use the fallback time zone.
+ */
+function parseIcsDate(
+  prop: IcsProperty,
+  fallbackTimeZone: string,
+): { ms: number; allDay: boolean } | null {
+  const match = prop.value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) {
+    return null;
+  }
+  const [, y, mo, d, h, mi, s, utc] = match;
+  const fields = {
+    year: Number(y),
+    month: Number(mo),
+    day: Number(d),
+    hour: Number(h ?? 0),
+    minute: Number(mi ?? 0),
+    second: Number(s ?? 0),
+  };
+  const allDay = h === undefined || prop.params.VALUE === "DATE";
+  if (utc) {
+    return {
+      ms: Date.UTC(
+        fields.year,
+        fields.month - 1,
+        fields.day,
+        fields.hour,
+        fields.minute,
+        fields.second,
+      ),
+      allDay: false,
+    };
+  }
+  const timeZone = prop.params.TZID ?? fallbackTimeZone;
+  try {
+    return { ms: zonedDateTimeToUtc(fields, timeZone), allDay };
+  } catch {
+    return { ms: zonedDateTimeToUtc(fields, fallbackTimeZone), allDay };
+  }
+}
+
+/**
+ * Parse an ISO 8601 duration such as PT1H30M or P1D (weeks/days/hours/minutes/seconds).
+ */
+function parseIcsDuration(value: string): number | null {
+  const match = value
+    .trim()
+    .match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) {
+    return null;
+  }
+  const [, sign, w, d, h, m, s] = match;
+  const ms =
+    ((Number(w ?? 0) * 7 + Number(d ?? 0)) * 86_400 +
+      Number(h ?? 0) * 3_600 +
+      Number(m ?? 0) * 60 +
+      Number(s ?? 0)) *
+    1000;
+  return sign === "-" ? -ms : ms;
+}
+
+/**
+ * Parse VEVENTs from ICS text.
+ */
+export function parseIcs(text: string, options?: { timeZone?: string }): IcsEvent[] {
+  const fallbackTimeZone = options?.timeZone ?? "UTC";
+  const events: IcsEvent[] = [];
+  let current: IcsProperty[] | null = null;
+
+  for (const line of unfoldLines(text)) {
+    const trimmed = line.trim();
+    if (trimmed === "BEGIN:VEVENT") {
+      current = [];
+      continue;
+    }
+    if (trimmed === "END:VEVENT") {
+      const event = current ? buildEvent(current, fallbackTimeZone) : null;
+      if (event) {
+        events.push(event);
+      }
+      current = null;
+      continue;
+    }
+    if (current) {
+      const prop = parseProperty(line);
+      if (prop) {
+        current.push(prop);
+      }
+    }
+  }
+  return events;
+}
+
+function buildEvent(props: IcsProperty[], fallbackTimeZone: string): IcsEvent | null {
+  const get = (name: string) => props.find((prop) => prop.name === name);
+  const dtstart = get("DTSTART");
+  const start = dtstart ? parseIcsDate(dtstart, fallbackTimeZone) : null;
+  if (!start) {
+    return null;
+  }
+  const dtend = get("DTEND");
+  const duration = get("DURATION");
+  let end = dtend ? parseIcsDate(dtend, fallbackTimeZone)?.ms : undefined;
+  if (end === undefined && duration) {
+    const ms = parseIcsDuration(duration.value);
+    end = ms === null ? undefined : start.ms + ms;
+  }
+  // RFC 5545: no end means one day for dates, zero length for date-times
+  end ??= start.allDay ? start.ms + 86_400_000 : start.ms;
+
+  const summary = get("SUMMARY");
+  const description = get("DESCRIPTION");
+  return {
+    uid: get("UID")?.value,
+    summary: summary ? unescapeText(summary.value) : undefined,
+    description: description ? unescapeText(description.value) : undefined,
+    start: start.ms,
+    end,
+    allDay: start.allDay,
+    status: get("STATUS")?.value.toUpperCase(),
+    transparent: get("TRANSP")?.value.toUpperCase() === "TRANSPARENT",
+  };
+}
+
+/**
+ * Busy blocks from ICS events (skips cancelled and transparent events).
+ */
+export function icsEventsToBusyBlocks(events: IcsEvent[], source = "ics"): BusyBlock[] {
+  return events
+    .filter(
+      (event) => event.status !== "CANCELLED" && !event.transparent && event.end > event.start,
+    )
+    .map((event) => ({ start: event.start, end: event.end, summary: event.summary, source }));
+}
+
+export async function readIcsFile(
+  filePath: string,
+  options?: { timeZone?: string },
+): Promise<IcsEvent[]> {
+  return parseIcs(await fs.readFile(filePath, "utf8"), options);
+}
+
+// =============================================================================
+// Export
+// =============================================================================
+
+function formatIcsUtc(ms: number): string {
+  return new Date(ms)
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Fold lines longer than 75 characters (continuation lines start with a space).
+ */
+function foldLine(line: string): string {
+  if (line.length <= 75) {
+    return line;
+  }
+  const chunks = [line.slice(0, 75)];
+  for (let i = 75; i < line.length; i += 74) {
+    chunks.push(` ${line.slice(i, i + 74)}`);
+  }
+  return chunks.join("\r\n");
+}
+
+/**
+ * Serialize events to an ICS calendar (UTC times, CRLF line endings).
+ */
+export function formatIcs(
+  events: IcsExportEvent[],
+  options?: { prodId?: string; now?: number },
+): string {
+  const stamp = formatIcsUtc(options?.now ?? Date.now());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${options?.prodId ?? "-//OpenClaw//Calendar Availability//EN"}`,
+    "CALSCALE:GREGORIAN",
+  ];
+  for (const event of events) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatIcsUtc(event.start)}`,
+      `DTEND:${formatIcsUtc(event.end)}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+    );
+    if (event.description) {
+      lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    }
+    if (event.status) {
+      lines.push(`STATUS:${event.status}`);
+    }
+    for (const attendee of event.attendees ?? []) {
+      lines.push(`ATTENDEE:mailto:${attendee}`);
+    }
+    lines.push("END:VEVENT");
+  }
+  lines.push("END:VCALENDAR");
+  return `${lines.map(foldLine).join("\r\n")}\r\n`;
+}
@@ -0,0 +1,84 @@
+/**
+ * Calendar Availability - Time Zone Helpers
+ *
+ * Convert between UTC instants and wall-clock times in an IANA time zone using Intl.
+ */
+
+export type ZonedDateTime = {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+};
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone }).format(new Date());
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Wall-clock fields of an instant in a time zone.
+ */
+export function getZonedDateTime(ms: number, timeZone: string): ZonedDateTime {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(new Date(ms));
+  const map: Record<string, number> = {};
+  for (const part of parts) {
+    if (part.type !== "literal") {
+      map[part.type] = Number(part.value);
+    }
+  }
+  return {
+    year: map.year,
+    month: map.month,
+    day: map.day,
+    hour: map.hour,
+    minute: map.minute,
+    second: map.second,
+  };
+}
+
+function offsetAt(ms: number, timeZone: string): number {
+  const zoned = getZonedDateTime(ms, timeZone);
+  const asUtc = Date.UTC(
+    zoned.year,
+    zoned.month - 1,
+    zoned.day,
+    zoned.hour,
+    zoned.minute,
+    zoned.second,
+  );
+  return asUtc - Math.floor(ms / 1000) * 1000;
+}
+
+/**
+ * Instant (epoch ms) of a wall-clock time in a time zone.
+ * Times skipped by a DST jump resolve to the later offset.
+ */
+export function zonedDateTimeToUtc(value: ZonedDateTime, timeZone: string): number {
+  const guess = Date.UTC(
+    value.year,
+    value.month - 1,
+    value.day,
+    value.hour,
+    value.minute,
+    value.second,
+  );
+  const first = guess - offsetAt(guess, timeZone);
+  const second = guess - offsetAt(first, timeZone);
+  return second;
+}
@@ -0,0 +1,100 @@
+/**
+ * Calendar Availability - Types
+ *
+ * Shared shapes for working hours, busy blocks, proposed slots and calendar backends.
+ */
+
+// =============================================================================
+// Configuration Types
+// =============================================================================
+
+/**
+ * Working hours in the interviewer's local time ("HH:MM", 24h clock).
+ */
+export type WorkingHoursConfig = {
+  /** Working days, 0 = Sunday ... 6 = Saturday. Default: Monday-Friday. */
+  days?: number[];
+  start?: string;
+  end?: string;
+};
+
+export type InterviewerAvailabilityConfig = {
+  timeZone?: string;
+  workingHours?: WorkingHoursConfig;
+  /** ICS file with this interviewer's busy events. */
+  icsPath?: string;
+};
+
+export type CalendarAvailabilityConfig = {
+  /** Default IANA time zone for interviewers (default: user time zone). */
+  timeZone?: string;
+  workingHours?: WorkingHoursConfig;
+  /** Free time kept before and after existing events. Default: 15. */
+  bufferMinutes?: number;
+  /** Slot start granularity. Default: 30. */
+  slotStepMinutes?: number;
+  /** Earliest slot offered, relative to now. Default: 120. */
+  minNoticeMinutes?: number;
+  /** How far ahead to search. Default: 14. */
+  horizonDays?: number;
+  /** Shared ICS file with busy events for all interviewers. */
+  icsPath?: string;
+  /** Per-interviewer overrides keyed by email. */
+  interviewers?: Record<string, InterviewerAvailabilityConfig>;
+};
+
+// =============================================================================
+// Resolved Types
+// =============================================================================
+
+export type ResolvedWorkingHours = {
+  days: number[];
+  /** Minutes after local midnight. */
+  startMinute: number;
+  endMinute: number;
+};
+
+export type InterviewerAvailability = {
+  email: string;
+  timeZone: string;
+  workingHours: ResolvedWorkingHours;
+  icsPaths: string[];
+};
+
+// =============================================================================
+// Calendar Types
+// =============================================================================
+
+/**
+ * Time range (epoch ms) during which an interviewer is unavailable.
+ */
+export type BusyBlock = {
+  start: number;
+  end: number;
+  summary?: string;
+  /** Backend that reported the block. */
+  source?: string;
+};
+
+/**
+ * A proposed interview slot.
+ */
+export type AvailabilitySlot = {
+  interviewerEmail: string;
+  /** ISO 8601 UTC. */
+  start: string;
+  end: string;
+  timeZone: string;
+};
+
+/**
+ * Source of busy blocks (ICS files, an interview API, a calendar provider, ...).
+ */
+export type CalendarBackend = {
+  id: string;
+  listBusyBlocks: (params: {
+    interviewer: InterviewerAvailability;
+    from: number;
+    to: number;
+  }) => Promise<BusyBlock[]>;
+};
@@ -0,0 +1,145 @@
+import fs from "node:fs/promises";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { makeTempWorkspace } from "../test-helpers/workspace.js";
+import {
+  addCandidate,
+  annotateCandidate,
+  listCandidates,
+  moveCandidate,
+  readCandidatePipeline,
+  recordCandidateActivities,
+  summarizeCandidatePipeline,
+  trackCandidateActivity,
+} from "./store.js";
+
+describe("candidate pipeline store", () => {
+  let workspaceDir: string;
+
+  beforeEach(async () => {
+    workspaceDir = await makeTempWorkspace("openclaw-candidates-");
+  });
+
+  afterEach(async () => {
+    await fs.rm(workspaceDir, { recursive: true, force: true });
+  });
+
+  it("merges activity from different tools into one candidate", async () => {
+    await recordCandidateActivities(workspaceDir, [
+      {
+        identity: { name: "Jane Doe", linkedin: { providerId: "ACo123" } },
+        source: "linkedin",
+        stage: "sourced",
+        summary: "Found via LinkedIn search",
+      },
+    ]);
+    await recordCandidateActivities(workspaceDir, [
+      {
+        identity: { linkedin: { providerId: "ACo123" }, email: "Jane@Example.com" },
+        source: "linkedin",
+        stage: "contacted",
+        summary: "InMail sent",
+      },
+      {
+        identity: { email: "jane@example.com", phone: "+1 (555) 010-2000" },
+        source: "voice_call",
+        stage: "screened",
+        summary: "Screening call completed",
+        ref: "conv_1",
+      },
+    ]);
+
+    const candidates = await listCandidates(workspaceDir);
+    expect(candidates).toHaveLength(1);
+    const [jane] = candidates;
+    expect(jane.name).toBe("Jane Doe");
+    expect(jane.stage).toBe("screened");
+    expect(jane.emails).toEqual(["jane@example.com"]);
+    expect(jane.phones).toEqual(["+15550102000"]);
+    expect(jane.history.map((event) => event.stage)).toEqual(["sourced", "contacted", "screened"]);
+  });
+
+  it("never moves candidates backwards or out of rejected automatically", async () => {
+    const [candidate] = await recordCandidateActivities(workspaceDir, [
+      {
+        identity: { email: "sam@example.com" },
+        source: "interview",
+        stage: "interviewed",
+        summary: "Interview scheduled",
+      },
+    ]);
+    await recordCandidateActivities(workspaceDir, [
+      {
+        identity: { email: "sam@example.com" },
+        source: "linkedin",
+        stage: "sourced",
+        summary: "Found again",
+      },
+    ]);
+    expect((await listCandidates(workspaceDir))[0].stage).toBe("interviewed");
+
+    await moveCandidate(workspaceDir, { ref: candidate.id, stage: "rejected", reason: "No fit" });
+    await recordCandidateActivities(workspaceDir, [
+      {
+        identity: { email: "sam@example.com" },
+        source: "voice_call",
+        stage: "offer",
+        summary: "Call",
+      },
+    ]);
+    const [sam] = await listCandidates(workspaceDir);
+    expect(sam.stage).toBe("rejected");
+    expect(sam.history.at(-2)).toMatchObject({
+      source: "manual",
+      summary: "No fit",
+      fromStage: "interviewed",
+      stage: "rejected",
+    });
+  });
+
+  it("resolves candidates by name for manual moves and notes", async () => {
+    await addCandidate(workspaceDir, { identity: { name: "Alex Kim", email: "alex@example.com" } });
+    await addCandidate(workspaceDir, { identity: { name: "Alexandra Ray" } });
+
+    await expect(moveCandidate(workspaceDir, { ref: "alex", stage: "offer" })).rejects.toThrow(
+      /ambiguous/,
+    );
+
+    const moved = await moveCandidate(workspaceDir, { ref: "Alex Kim", stage: "offer" });
+    expect(moved.stage).toBe("offer");
+
+    const noted = await annotateCandidate(workspaceDir, {
+      ref: "alex@example.com",
+      note: "Wants a March start",
+      actor: "cli",
+    });
+    expect(noted.notes).toEqual([
+      expect.objectContaining({ text: "Wants a March start", actor: "cli" }),
+    ]);
+
+    await expect(annotateCandidate(workspaceDir, { ref: "nobody", note: "x" })).rejects.toThrow(
+      "Candidate not found: nobody",
+    );
+
+    const counts = summarizeCandidatePipeline(await readCandidatePipeline(workspaceDir));
+    expect(counts.offer).toBe(1);
+    expect(counts.sourced).toBe(1);
+  });
+
+  it("skips identity-less activity and swallows tracking errors", async () => {
+    await trackCandidateActivity(workspaceDir, {
+      identity: { name: "No Contact" },
+      source: "cv_analysis",
+      stage: "screened",
+      summary: "CV submitted",
+    });
+    expect(await listCandidates(workspaceDir)).toEqual([]);
+
+    await expect(
+      trackCandidateActivity("/dev/null/not-a-dir", {
+        identity: { email: "x@example.com" },
+        source: "cv_analysis",
+        summary: "CV submitted",
+      }),
+    ).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,464 @@
+/**
+ * Candidate Pipeline - JSON Storage
+ *
+ * Read/write the candidate pipeline to a workspace JSON file. Recruiting tools
+ * report activity here so the agent can answer "where is this candidate?".
+ */
+
+import { randomUUID } from "node:crypto";
+import path from "node:path";
+import { createAsyncLock, readJsonFile, writeJsonAtomic } from "../infra/json-files.js";
+import { createSubsystemLogger } from "../logging/subsystem.js";
+import {
+  CANDIDATE_STAGES,
+  type CandidateActivityInput,
+  type CandidateEvent,
+  type CandidateIdentity,
+  type CandidatePipelineStore,
+  type CandidateRecord,
+  type CandidateSource,
+  type CandidateStage,
+} from "./types.js";
+
+const STORE_FILENAME = "candidate-pipeline.json";
+
+/** Maximum history entries kept per candidate (oldest are dropped first). */
+const MAX_HISTORY_ENTRIES = 200;
+
+const log = createSubsystemLogger("candidate-pipeline");
+const withStoreLock = createAsyncLock();
+
+/**
+ * Get the pipeline file path for a workspace directory.
+ */
+export function getCandidatePipelinePath(workspaceDir: string): string {
+  return path.join(workspaceDir, STORE_FILENAME);
+}
+
+export function isCandidateStage(value: unknown): value is CandidateStage {
+  return typeof value === "string" && (CANDIDATE_STAGES as readonly string[]).includes(value);
+}
+
+export function normalizeCandidateStage(value: unknown): CandidateStage | undefined {
+  if (typeof value !== "string") {
+    return undefined;
+  }
+  const normalized = value.trim().toLowerCase();
+  return isCandidateStage(normalized) ? normalized : undefined;
+}
+
+function normalizeEmail(value: string | undefined): string | undefined {
+  const trimmed = value?.trim().toLowerCase();
+  return trimmed && trimmed.includes("@") ? trimmed : undefined;
+}
+
+function normalizePhone(value: string | undefined): string | undefined {
+  const trimmed = value?.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+  const digits = trimmed.replace(/[^\d]/g, "");
+  if (!digits) {
+    return undefined;
+  }
+  return trimmed.startsWith("+") ? `+${digits}` : digits;
+}
+
+function stageRank(stage: CandidateStage): number {
+  return CANDIDATE_STAGES.indexOf(stage);
+}
+
+/**
+ * Automatic activity only moves candidates forward and never out of a
+ * terminal stage; rejections and other regressions are manual decisions.
+ */
+function shouldAutoAdvance(current: CandidateStage, next: CandidateStage): boolean {
+  if (next === "rejected" || current === "rejected" || current === "hired") {
+    return false;
+  }
+  return stageRank(next) > stageRank(current);
+}
+
+function pushHistory(record: CandidateRecord, event: CandidateEvent) {
+  record.history.push(event);
+  if (record.history.length > MAX_HISTORY_ENTRIES) {
+    record.history.splice(0, record.history.length - MAX_HISTORY_ENTRIES);
+  }
+}
+
+/**
+ * Read the pipeline from disk.
+ * Returns an empty pipeline if the file doesn't exist or is invalid.
+ */
+export async function readCandidatePipeline(workspaceDir: string): Promise<CandidatePipelineStore> {
+  const parsed = await readJsonFile<Partial<CandidatePipelineStore>>(
+    getCandidatePipelinePath(workspaceDir),
+  );
+  const candidates =
+    parsed?.candidates && typeof parsed.candidates === "object" ? parsed.candidates : {};
+  return { version: 1, candidates };
+}
+
+async function writeCandidatePipeline(
+  workspaceDir: string,
+  store: CandidatePipelineStore,
+): Promise<void> {
+  await writeJsonAtomic(getCandidatePipelinePath(workspaceDir), store);
+}
+
+async function updateCandidatePipeline<T>(
+  workspaceDir: string,
+  mutate: (store: CandidatePipelineStore) => T,
+): Promise<T> {
+  return await withStoreLock(async () => {
+    const store = await readCandidatePipeline(workspaceDir);
+    const result = mutate(store);
+    await writeCandidatePipeline(workspaceDir, store);
+    return result;
+  });
+}
+
+// =============================================================================
+// Matching
+// =============================================================================
+
+/**
+ * Find the candidate an identity refers to (LinkedIn id, then email, then phone).
+ */
+export function findCandidateByIdentity(
+  store: CandidatePipelineStore,
+  identity: CandidateIdentity,
+): CandidateRecord | undefined {
+  const candidates = Object.values(store.candidates);
+  const providerId = identity.linkedin?.providerId?.trim();
+  const publicIdentifier = identity.linkedin?.publicIdentifier?.trim().toLowerCase();
+  if (providerId || publicIdentifier) {
+    const match = candidates.find(
+      (c) =>
+        (providerId && c.linkedin?.providerId === providerId) ||
+        (publicIdentifier && c.linkedin?.publicIdentifier?.toLowerCase() === publicIdentifier),
+    );
+    if (match) {
+      return match;
+    }
+  }
+  const email = normalizeEmail(identity.email);
+  if (email) {
+    const match = candidates.find((c) => c.emails.includes(email));
+    if (match) {
+      return match;
+    }
+  }
+  const phone = normalizePhone(identity.phone);
+  if (phone) {
+    return candidates.find((c) => c.phones.includes(phone));
+  }
+  return undefined;
+}
+
+function hasIdentity(identity: CandidateIdentity): boolean {
+  return Boolean(
+    identity.linkedin?.providerId?.trim() ||
+    identity.linkedin?.publicIdentifier?.trim() ||
+    normalizeEmail(identity.email) ||
+    normalizePhone(identity.phone),
+  );
+}
+
+function mergeIdentity(record: CandidateRecord, identity: CandidateIdentity) {
+  const name = identity.name?.trim();
+  if (name && !record.name) {
+    record.name = name;
+  }
+  const email = normalizeEmail(identity.email);
+  if (email && !record.emails.includes(email)) {
+    record.emails.push(email);
+  }
+  const phone = normalizePhone(identity.phone);
+  if (phone && !record.phones.includes(phone)) {
+    record.phones.push(phone);
+  }
+  if (identity.linkedin) {
+    const next = { ...record.linkedin };
+    for (const [key, value] of Object.entries(identity.linkedin)) {
+      const trimmed = typeof value === "string" ? value.trim() : "";
+      if (trimmed) {
+        next[key as keyof typeof next] = trimmed;
+      }
+    }
+    record.linkedin = next;
+  }
+}
+
+/**
+ * Case-insensitive lookup by id, name, email, phone or LinkedIn identifier.
+ */
+export function searchCandidates(store: CandidatePipelineStore, query: string): CandidateRecord[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) {
+    return Object.values(store.candidates);
+  }
+  const exact = store.candidates[query.trim()];
+  if (exact) {
+    return [exact];
+  }
+  const phone = normalizePhone(query);
+  return Object.values(store.candidates).filter(
+    (c) =>
+      c.name?.toLowerCase().includes(needle) ||
+      c.emails.some((email) => email.includes(needle)) ||
+      (phone !== undefined && phone.length >= 6 && c.phones.includes(phone)) ||
+      c.linkedin?.providerId?.toLowerCase() === needle ||
+      c.linkedin?.publicIdentifier?.toLowerCase() === needle,
+  );
+}
+
+/**
+ * Resolve a candidate reference to exactly one record or throw.
+ */
+export function resolveCandidateRef(store: CandidatePipelineStore, ref: string): CandidateRecord {
+  let matches = searchCandidates(store, ref);
+  if (matches.length > 1) {
+    // Prefer an exact name match over substring hits ("Alex" vs "Alexandra").
+    const needle = ref.trim().toLowerCase();
+    const exactName = matches.filter((c) => c.name?.toLowerCase() === needle);
+    if (exactName.length > 0) {
+      matches = exactName;
+    }
+  }
+  if (matches.length === 0 || !ref.trim()) {
+    throw new Error(`Candidate not found: ${ref}`);
+  }
+  if (matches.length > 1) {
+    const options = matches
+      .slice(0, 5)
+      .map((c) => `${c.id} (${c.name ?? c.emails[0] ?? c.phones[0] ?? "unnamed"})`)
+      .join(", ");
+    throw new Error(`Candidate reference "${ref}" is ambiguous: ${options}`);
+  }
+  return matches[0];
+}
+
+// =============================================================================
+// Mutations
+// =============================================================================
+
+function createCandidateRecord(identity: CandidateIdentity, now: string): CandidateRecord {
+  const record: CandidateRecord = {
+    id: `cand_${randomUUID().replace(/-/g, "").slice(0, 10)}`,
+    emails: [],
+    phones: [],
+    stage: "sourced",
+    createdAt: now,
+    updatedAt: now,
+    notes: [],
+    history: [],
+  };
+  mergeIdentity(record, identity);
+  return record;
+}
+
+function applyActivity(
+  store: CandidatePipelineStore,
+  input: CandidateActivityInput,
+  now: string,
+): CandidateRecord | undefined {
+  if (!hasIdentity(input.identity)) {
+    return undefined;
+  }
+  const existing = findCandidateByIdentity(store, input.identity);
+  const event: CandidateEvent = {
+    at: now,
+    source: input.source,
+    summary: input.summary,
+    ref: input.ref,
+  };
+  let record: CandidateRecord;
+  if (!existing) {
+    record = createCandidateRecord(input.identity, now);
+    record.stage = input.stage && input.stage !== "rejected" ? input.stage : "sourced";
+    event.stage = record.stage;
+    store.candidates[record.id] = record;
+  } else {
+    record = existing;
+    mergeIdentity(record, input.identity);
+    if (input.stage && shouldAutoAdvance(record.stage, input.stage)) {
+      event.fromStage = record.stage;
+      event.stage = input.stage;
+      record.stage = input.stage;
+    }
+  }
+  pushHistory(record, event);
+  record.updatedAt = now;
+  return record;
+}
+
+/**
+ * Record automatic activity for one or more candidates in a single write.
+ * Entries without any usable identity (LinkedIn id, email, phone) are skipped.
+ */
+export async function recordCandidateActivities(
+  workspaceDir: string,
+  inputs: CandidateActivityInput[],
+): Promise<CandidateRecord[]> {
+  if (inputs.length === 0) {
+    return [];
+  }
+  return await updateCandidatePipeline(workspaceDir, (store) => {
+    const now = new Date().toISOString();
+    const records: CandidateRecord[] = [];
+    for (const input of inputs) {
+      const record = applyActivity(store, input, now);
+      if (record) {
+        records.push(record);
+      }
+    }
+    return records;
+  });
+}
+
+/**
+ * Best-effort activity tracking for tool integrations.
+ * Never throws; pipeline bookkeeping must not break the calling tool.
+ */
+export async function trackCandidateActivity(
+  workspaceDir: string | undefined,
+  inputs: CandidateActivityInput | CandidateActivityInput[],
+): Promise<void> {
+  if (!workspaceDir) {
+    return;
+  }
+  try {
+    await recordCandidateActivities(workspaceDir, Array.isArray(inputs) ? inputs : [inputs]);
+  } catch (err) {
+    log.warn(`failed to record candidate activity: ${String(err)}`);
+  }
+}
+
+/**
+ * Manually move a candidate to any stage.
+ */
+export async function moveCandidate(
+  workspaceDir: string,
+  params: {
+    ref: string;
+    stage: CandidateStage;
+    reason?: string;
+    actor?: string;
+    source?: CandidateSource;
+  },
+): Promise<CandidateRecord> {
+  return await updateCandidatePipeline(workspaceDir, (store) => {
+    const record = resolveCandidateRef(store, params.ref);
+    const now = new Date().toISOString();
+    const reason = params.reason?.trim();
+    pushHistory(record, {
+      at: now,
+      source: params.source ?? "manual",
+      summary: reason || `Moved to ${params.stage}`,
+      fromStage: record.stage,
+      stage: params.stage,
+      actor: params.actor,
+    });
+    record.stage = params.stage;
+    record.updatedAt = now;
+    return record;
+  });
+}
+
+/**
+ * Attach a free-form note to a candidate.
+ */
+export async function annotateCandidate(
+  workspaceDir: string,
+  params: { ref: string; note: string; actor?: string },
+): Promise<CandidateRecord> {
+  const text = params.note.trim();
+  if (!text) {
+    throw new Error("note required");
+  }
+  return await updateCandidatePipeline(workspaceDir, (store) => {
+    const record = resolveCandidateRef(store, params.ref);
+    const now = new Date().toISOString();
+    record.notes.push({ at: now, text, actor: params.actor });
+    record.updatedAt = now;
+    return record;
+  });
+}
+
+/**
+ * Create a candidate manually (or return the existing match for the identity).
+ */
+export async function addCandidate(
+  workspaceDir: string,
+  params: { identity: CandidateIdentity; stage?: CandidateStage; actor?: string },
+): Promise<CandidateRecord> {
+  if (!hasIdentity(params.identity) && !params.identity.name?.trim()) {
+    throw new Error("name, email, phone or LinkedIn id required");
+  }
+  return await updateCandidatePipeline(workspaceDir, (store) => {
+    const now = new Date().toISOString();
+    const existing = hasIdentity(params.identity)
+      ? findCandidateByIdentity(store, params.identity)
+      : undefined;
+    if (existing) {
+      mergeIdentity(existing, params.identity);
+      existing.updatedAt = now;
+      return existing;
+    }
+    const record = createCandidateRecord(params.identity, now);
+    record.stage = params.stage ?? "sourced";
+    pushHistory(record, {
+      at: now,
+      source: "manual",
+      summary: "Added to pipeline",
+      stage: record.stage,
+      actor: params.actor,
+    });
+    store.candidates[record.id] = record;
+    return record;
+  });
+}
+
+// =============================================================================
+// Queries
+// =============================================================================
+
+/**
+ * List candidates with optional filters (most recently updated first).
+ */
+export async function listCandidates(
+  workspaceDir: string,
+  params?: { stage?: CandidateStage; query?: string; limit?: number },
+): Promise<CandidateRecord[]> {
+  const store = await readCandidatePipeline(workspaceDir);
+  let candidates = params?.query
+    ? searchCandidates(store, params.query)
+    : Object.values(store.candidates);
+  if (params?.stage) {
+    candidates = candidates.filter((c) => c.stage === params.stage);
+  }
+  candidates = candidates.toSorted((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  if (params?.limit && params.limit > 0) {
+    candidates = candidates.slice(0, params.limit);
+  }
+  return candidates;
+}
+
+/**
+ * Count candidates per stage.
+ */
+export function summarizeCandidatePipeline(
+  store: CandidatePipelineStore,
+): Record<CandidateStage, number> {
+  const counts = Object.fromEntries(CANDIDATE_STAGES.map((stage) => [stage, 0])) as Record<
+    CandidateStage,
+    number
+  >;
+  for (const candidate of Object.values(store.candidates)) {
+    if (isCandidateStage(candidate.stage)) {
+      counts[candidate.stage] += 1;
+    }
+  }
+  return counts;
+}
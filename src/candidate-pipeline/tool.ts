@@ -0,0 +1,204 @@
+/**
+ * Candidate Pipeline Tool
+ *
+ * Agent tool for listing, moving and annotating candidates in the workspace pipeline.
+ */
+
+import { Type } from "@sinclair/typebox";
+import { optionalStringEnum, stringEnum } from "../agents/schema/typebox.js";
+import type { AnyAgentTool } from "../agents/tools/common.js";
+import { jsonResult, readNumberParam, readStringParam } from "../agents/tools/common.js";
+import {
+  addCandidate,
+  annotateCandidate,
+  listCandidates,
+  moveCandidate,
+  readCandidatePipeline,
+  resolveCandidateRef,
+  summarizeCandidatePipeline,
+} from "./store.js";
+import { CANDIDATE_STAGES, type CandidateRecord } from "./types.js";
+
+// =============================================================================
+// Tool Schema
+// =============================================================================
+
+const CANDIDATE_PIPELINE_ACTIONS = ["list", "get", "summary", "add", "move", "note"] as const;
+
+const CandidatePipelineSchema = Type.Object({
+  action: stringEnum(CANDIDATE_PIPELINE_ACTIONS, {
+    description:
+      'Action to perform: "list", "get", "summary", "add", "move" (change stage), or "note" (annotate).',
+  }),
+  candidate_id: Type.Optional(
+    Type.String({
+      description:
+        "Candidate id, name, email, phone or LinkedIn identifier. Required for get, move and note.",
+    }),
+  ),
+  stage: optionalStringEnum(CANDIDATE_STAGES, {
+    description: "Target stage for move/add, or stage filter for list.",
+  }),
+  note: Type.Optional(
+    Type.String({
+      description: "Note text for note, or the reason recorded with move.",
+    }),
+  ),
+  query: Type.Optional(
+    Type.String({
+      description: "Free-text filter for list (name, email, phone).",
+    }),
+  ),
+  limit: Type.Optional(
+    Type.Number({
+      description: "Maximum candidates to return for list (default: 20)",
+      minimum: 1,
+      maximum: 200,
+    }),
+  ),
+  name: Type.Optional(Type.String({ description: "Candidate name (add)." })),
+  email: Type.Optional(Type.String({ description: "Candidate email (add)." })),
+  phone: Type.Optional(Type.String({ description: "Candidate phone number in E.164 (add)." })),
+  linkedin_id: Type.Optional(
+    Type.String({ description: "LinkedIn provider_id or public identifier (add)." }),
+  ),
+});
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function formatCandidateBrief(candidate: CandidateRecord) {
+  const last = candidate.history.at(-1);
+  return {
+    id: candidate.id,
+    name: candidate.name ?? null,
+    stage: candidate.stage,
+    email: candidate.emails[0] ?? null,
+    phone: candidate.phones[0] ?? null,
+    linkedin: candidate.linkedin?.profileUrl ?? candidate.linkedin?.publicIdentifier ?? null,
+    updated_at: candidate.updatedAt,
+    last_activity: last ? `${last.at} [${last.source}] ${last.summary}` : null,
+  };
+}
+
+// =============================================================================
+// Tool Factory
+// =============================================================================
+
+/**
+ * Create the candidate pipeline tool.
+ */
+export function createCandidatePipelineTool(options?: { workspaceDir?: string }): AnyAgentTool {
+  const workspaceDir = options?.workspaceDir ?? process.cwd();
+
+  return {
+    label: "Candidate Pipeline",
+    name: "candidate_pipeline",
+    description:
+      "Track where each candidate is in the recruiting process " +
+      `(${CANDIDATE_STAGES.join(" → ")}). LinkedIn search/outreach, CV analysis, interviews and ` +
+      "voice calls update the pipeline automatically. Actions: list, get (full history + notes), " +
+      "summary (counts per stage), add, move (change stage), note (annotate).",
+    parameters: CandidatePipelineSchema,
+    execute: async (_toolCallId, args) => {
+      const params = args as Record<string, unknown>;
+      const action = readStringParam(params, "action", { required: true });
+      const stageRaw = readStringParam(params, "stage");
+      const stage = CANDIDATE_STAGES.find((s) => s === stageRaw?.toLowerCase());
+      if (stageRaw && !stage) {
+        return jsonResult({
+          success: false,
+          error: `Unknown stage: ${stageRaw}. Valid stages: ${CANDIDATE_STAGES.join(", ")}`,
+        });
+      }
+
+      try {
+        switch (action) {
+          case "list": {
+            const candidates = await listCandidates(workspaceDir, {
+              stage,
+              query: readStringParam(params, "query"),
+              limit: readNumberParam(params, "limit", { integer: true }) ?? 20,
+            });
+            return jsonResult({
+              success: true,
+              count: candidates.length,
+              candidates: candidates.map(formatCandidateBrief),
+            });
+          }
+
+          case "get": {
+            const ref = readStringParam(params, "candidate_id", { required: true });
+            const store = await readCandidatePipeline(workspaceDir);
+            return jsonResult({ success: true, candidate: resolveCandidateRef(store, ref) });
+          }
+
+          case "summary": {
+            const store = await readCandidatePipeline(workspaceDir);
+            return jsonResult({
+              success: true,
+              total: Object.keys(store.candidates).length,
+              stages: summarizeCandidatePipeline(store),
+            });
+          }
+
+          case "add": {
+            const linkedinId = readStringParam(params, "linkedin_id");
+            const candidate = await addCandidate(workspaceDir, {
+              identity: {
+                name: readStringParam(params, "name"),
+                email: readStringParam(params, "email"),
+                phone: readStringParam(params, "phone"),
+                linkedin: linkedinId ? { providerId: linkedinId } : undefined,
+              },
+              stage,
+              actor: "agent",
+            });
+            return jsonResult({ success: true, candidate: formatCandidateBrief(candidate) });
+          }
+
+          case "move": {
+            const ref = readStringParam(params, "candidate_id", { required: true });
+            if (!stage) {
+              return jsonResult({ success: false, error: "stage is required for move" });
+            }
+            const candidate = await moveCandidate(workspaceDir, {
+              ref,
+              stage,
+              reason: readStringParam(params, "note"),
+              actor: "agent",
+            });
+            return jsonResult({ success: true, candidate: formatCandidateBrief(candidate) });
+          }
+
+          case "note": {
+            const ref = readStringParam(params, "candidate_id", { required: true });
+            const note = readStringParam(params, "note", { required: true });
+            const candidate = await annotateCandidate(workspaceDir, {
+              ref,
+              note,
+              actor: "agent",
+            });
+            return jsonResult({
+              success: true,
+              candidate: formatCandidateBrief(candidate),
+              notes: candidate.notes.length,
+            });
+          }
+
+          default:
+            return jsonResult({
+              success: false,
+              error: `Unknown action: ${action}. Valid actions: ${CANDIDATE_PIPELINE_ACTIONS.join(", ")}`,
+            });
+        }
+      } catch (err) {
+        return jsonResult({
+          success: false,
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+    },
+  };
+}
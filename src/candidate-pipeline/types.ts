@@ -0,0 +1,111 @@
+/**
+ * Candidate Pipeline - Types
+ *
+ * Workspace-level view of every candidate the recruiting tools have touched.
+ */
+
+// =============================================================================
+// Stages
+// =============================================================================
+
+/**
+ * Pipeline stages in funnel order. "rejected" is terminal and sits outside the
+ * forward progression.
+ */
+export const CANDIDATE_STAGES = [
+  "sourced",
+  "contacted",
+  "screened",
+  "interviewed",
+  "offer",
+  "hired",
+  "rejected",
+] as const;
+
+export type CandidateStage = (typeof CANDIDATE_STAGES)[number];
+
+/** Which integration produced a pipeline event. */
+export type CandidateSource =
+  | "linkedin"
+  | "cv_analysis"
+  | "interview"
+  | "voice_call"
+  | "outreach"
+  | "manual";
+
+// =============================================================================
+// Records
+// =============================================================================
+
+export type CandidateLinkedInIdentity = {
+  providerId?: string;
+  publicIdentifier?: string;
+  profileUrl?: string;
+  headline?: string;
+};
+
+/**
+ * Identity hints used to match an event to an existing candidate.
+ * Matching uses LinkedIn ids, then email, then phone number.
+ */
+export type CandidateIdentity = {
+  name?: string;
+  email?: string;
+  phone?: string;
+  linkedin?: CandidateLinkedInIdentity;
+};
+
+export type CandidateEvent = {
+  at: string;
+  source: CandidateSource;
+  summary: string;
+  /** Stage the candidate moved to (only set when the stage changed). */
+  stage?: CandidateStage;
+  fromStage?: CandidateStage;
+  /** External reference (conversation id, CV job id, chat id, meeting link, ...). */
+  ref?: string;
+  actor?: string;
+};
+
+export type CandidateNote = {
+  at: string;
+  text: string;
+  actor?: string;
+};
+
+export type CandidateRecord = {
+  id: string;
+  name?: string;
+  emails: string[];
+  phones: string[];
+  linkedin?: CandidateLinkedInIdentity;
+  stage: CandidateStage;
+  createdAt: string;
+  updatedAt: string;
+  notes: CandidateNote[];
+  history: CandidateEvent[];
+};
+
+/**
+ * Candidate pipeline file format.
+ */
+export type CandidatePipelineStore = {
+  version: 1;
+  candidates: Record<string, CandidateRecord>;
+};
+
+// =============================================================================
+// Store Inputs
+// =============================================================================
+
+/**
+ * Automatic activity reported by a recruiting tool.
+ * The stage only ever advances; manual moves use moveCandidate instead.
+ */
+export type CandidateActivityInput = {
+  identity: CandidateIdentity;
+  source: CandidateSource;
+  summary: string;
+  stage?: CandidateStage;
+  ref?: string;
+};
@@ -9,13 +9,23 @@ const trustedRequesterRequiredByChannel: Readonly<
   discord: new Set<ChannelMessageActionName>(["timeout", "kick", "ban"]),
 };
 
+/** Core actions on the outbound schedule; available regardless of channel. */
+export const SCHEDULED_MESSAGE_ACTIONS = [
+  "list-scheduled",
+  "cancel-scheduled",
+] as const satisfies readonly ChannelMessageActionName[];
+
 function requiresTrustedRequesterSender(ctx: ChannelMessageActionContext): boolean {
   const actions = trustedRequesterRequiredByChannel[ctx.channel];
   return Boolean(actions?.has(ctx.action) && ctx.toolContext);
 }
 
 export function listChannelMessageActions(cfg: OpenClawConfig): ChannelMessageActionName[] {
-  const actions = new Set<ChannelMessageActionName>(["send", "broadcast"]);
+  const actions = new Set<ChannelMessageActionName>([
+    "send",
+    "broadcast",
+    ...SCHEDULED_MESSAGE_ACTIONS,
+  ]);
   for (const plugin of listChannelPlugins()) {
     const list = plugin.actions?.listActions?.({ cfg });
     if (!list) {
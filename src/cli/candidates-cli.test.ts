@@ -0,0 +1,66 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { Command } from "commander";
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+const workspace = vi.hoisted(() => ({ dir: "" }));
+
+vi.mock("../config/config.js", () => ({
+  loadConfig: () => ({}),
+}));
+
+vi.mock("../agents/agent-scope.js", () => ({
+  resolveDefaultAgentId: () => "main",
+  resolveAgentWorkspaceDir: () => workspace.dir,
+}));
+
+let registerCandidatesCli: typeof import("./candidates-cli.js").registerCandidatesCli;
+let defaultRuntime: typeof import("../runtime.js").defaultRuntime;
+
+beforeAll(async () => {
+  ({ registerCandidatesCli } = await import("./candidates-cli.js"));
+  ({ defaultRuntime } = await import("../runtime.js"));
+});
+
+describe("candidates cli", () => {
+  beforeEach(async () => {
+    workspace.dir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-candidates-cli-"));
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(workspace.dir, { recursive: true, force: true });
+  });
+
+  async function runCli(args: string[]) {
+    const program = new Command();
+    program.name("test");
+    registerCandidatesCli(program);
+    await program.parseAsync(["candidates", ...args], { from: "user" });
+  }
+
+  it("adds and moves a candidate", async () => {
+    const log = vi.spyOn(defaultRuntime, "log").mockImplementation(() => {});
+
+    await runCli(["add", "--name", "Jane Doe", "--email", "jane@example.com"]);
+    await runCli(["move", "jane@example.com", "screened", "--reason", "Good CV"]);
+
+    expect(log).toHaveBeenLastCalledWith(expect.stringContaining("to screened."));
+  });
+
+  it("reports invalid input through the runtime with exit code 1", async () => {
+    const error = vi.spyOn(defaultRuntime, "error").mockImplementation(() => {});
+    const exit = vi.spyOn(defaultRuntime, "exit").mockImplementation(() => {});
+
+    await runCli(["list", "--stage", "hired-ish"]);
+    expect(error).toHaveBeenLastCalledWith(expect.stringContaining("Invalid stage: hired-ish"));
+
+    await runCli(["note", "nobody@example.com", "hello"]);
+    expect(error).toHaveBeenLastCalledWith(
+      expect.stringContaining("Candidate not found: nobody@example.com"),
+    );
+    expect(exit).toHaveBeenCalledTimes(2);
+    expect(exit).toHaveBeenCalledWith(1);
+  });
+});
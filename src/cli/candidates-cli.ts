@@ -0,0 +1,279 @@
+import type { Command } from "commander";
+import { resolveAgentWorkspaceDir, resolveDefaultAgentId } from "../agents/agent-scope.js";
+import {
+  addCandidate,
+  annotateCandidate,
+  listCandidates,
+  moveCandidate,
+  normalizeCandidateStage,
+  readCandidatePipeline,
+  resolveCandidateRef,
+  summarizeCandidatePipeline,
+} from "../candidate-pipeline/store.js";
+import { CANDIDATE_STAGES, type CandidateRecord } from "../candidate-pipeline/types.js";
+import { loadConfig } from "../config/config.js";
+import { defaultRuntime } from "../runtime.js";
+import { renderTable } from "../terminal/table.js";
+import { theme } from "../terminal/theme.js";
+import { runCommandWithRuntime } from "./cli-utils.js";
+import { formatHelpExamples } from "./help-format.js";
+
+type AgentOpts = { agent?: string };
+
+function runCandidatesCommand(action: () => Promise<void>) {
+  return runCommandWithRuntime(defaultRuntime, action);
+}
+
+function resolveWorkspace(opts: AgentOpts): string {
+  const cfg = loadConfig();
+  const agentId = opts.agent?.trim() || resolveDefaultAgentId(cfg);
+  return resolveAgentWorkspaceDir(cfg, agentId);
+}
+
+function parseStage(raw: string | undefined) {
+  if (!raw) {
+    return undefined;
+  }
+  const stage = normalizeCandidateStage(raw);
+  if (!stage) {
+    throw new Error(`Invalid stage: ${raw} (expected one of: ${CANDIDATE_STAGES.join(", ")})`);
+  }
+  return stage;
+}
+
+function parseLimit(raw: unknown): number | undefined {
+  if (typeof raw !== "string" || !raw.trim()) {
+    return undefined;
+  }
+  const parsed = Number.parseInt(raw, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+function contactLabel(candidate: CandidateRecord): string {
+  return (
+    candidate.emails[0] ??
+    candidate.phones[0] ??
+    candidate.linkedin?.profileUrl ??
+    candidate.linkedin?.publicIdentifier ??
+    ""
+  );
+}
+
+function printCandidate(candidate: CandidateRecord) {
+  defaultRuntime.log(
+    `${theme.heading(candidate.name ?? candidate.id)} ${theme.muted(`(${candidate.id})`)}`,
+  );
+  defaultRuntime.log(`${theme.muted("Stage:")} ${candidate.stage}`);
+  if (candidate.emails.length > 0) {
+    defaultRuntime.log(`${theme.muted("Email:")} ${candidate.emails.join(", ")}`);
+  }
+  if (candidate.phones.length > 0) {
+    defaultRuntime.log(`${theme.muted("Phone:")} ${candidate.phones.join(", ")}`);
+  }
+  if (candidate.linkedin) {
+    const linkedin =
+      candidate.linkedin.profileUrl ??
+      candidate.linkedin.publicIdentifier ??
+      candidate.linkedin.providerId;
+    defaultRuntime.log(`${theme.muted("LinkedIn:")} ${linkedin ?? ""}`);
+  }
+  if (candidate.history.length > 0) {
+    defaultRuntime.log("");
+    defaultRuntime.log(theme.heading("History"));
+    for (const event of candidate.history) {
+      const stage = event.stage ? ` → ${event.stage}` : "";
+      defaultRuntime.log(
+        `${theme.muted(event.at)} [${event.source}]${stage} ${event.summary}${
+          event.ref ? theme.muted(` (${event.ref})`) : ""
+        }`,
+      );
+    }
+  }
+  if (candidate.notes.length > 0) {
+    defaultRuntime.log("");
+    defaultRuntime.log(theme.heading("Notes"));
+    for (const note of candidate.notes) {
+      const actor = note.actor ? ` ${note.actor}:` : "";
+      defaultRuntime.log(`${theme.muted(note.at)}${actor} ${note.text}`);
+    }
+  }
+}
+
+export function registerCandidatesCli(program: Command) {
+  const candidates = program
+    .command("candidates")
+    .description("List, move and annotate candidates in the recruiting pipeline")
+    .addHelpText(
+      "after",
+      () =>
+        `\n${theme.heading("Examples:")}\n${formatHelpExamples([
+          ["openclaw candidates list --stage screened", "Show screened candidates."],
+          ["openclaw candidates show jane@example.com", "Show history and notes for a candidate."],
+          [
+            'openclaw candidates move "Jane Doe" interviewed --reason "Panel booked"',
+            "Move a candidate to another stage.",
+          ],
+          ['openclaw candidates note cand_1a2b3c "Prefers remote"', "Annotate a candidate."],
+        ])}\n`,
+    )
+    .action(() => {
+      candidates.help({ error: true });
+    });
+
+  candidates
+    .command("list")
+    .description("List candidates (most recently updated first)")
+    .option("--stage <stage>", `Filter by stage (${CANDIDATE_STAGES.join(", ")})`)
+    .option("--query <text>", "Filter by name, email or phone")
+    .option("--limit <n>", "Max candidates to show")
+    .option("--agent <id>", "Agent id (default: default agent)")
+    .option("--json", "Print JSON", false)
+    .action(async (opts) => {
+      await runCandidatesCommand(async () => {
+        const workspaceDir = resolveWorkspace(opts);
+        const stage = parseStage(opts.stage);
+        const rows = await listCandidates(workspaceDir, {
+          stage,
+          query: opts.query,
+          limit: parseLimit(opts.limit),
+        });
+        if (opts.json) {
+          defaultRuntime.log(JSON.stringify({ candidates: rows }, null, 2));
+          return;
+        }
+        if (rows.length === 0) {
+          defaultRuntime.log(theme.muted("No candidates found."));
+          return;
+        }
+        const tableWidth = Math.max(60, (process.stdout.columns ?? 120) - 1);
+        defaultRuntime.log(`${theme.heading("Candidates")} ${theme.muted(`(${rows.length})`)}`);
+        defaultRuntime.log(
+          renderTable({
+            width: tableWidth,
+            columns: [
+              { key: "ID", header: "ID", minWidth: 16 },
+              { key: "Name", header: "Name", minWidth: 14, flex: true },
+              { key: "Stage", header: "Stage", minWidth: 11 },
+              { key: "Contact", header: "Contact", minWidth: 16, flex: true },
+              { key: "Updated", header: "Updated", minWidth: 12 },
+            ],
+            rows: rows.map((candidate) => ({
+              ID: candidate.id,
+              Name: candidate.name ?? "",
+              Stage: candidate.stage,
+              Contact: contactLabel(candidate),
+              Updated: candidate.updatedAt,
+            })),
+          }).trimEnd(),
+        );
+      });
+    });
+
+  candidates
+    .command("summary")
+    .description("Show candidate counts per stage")
+    .option("--agent <id>", "Agent id (default: default agent)")
+    .option("--json", "Print JSON", false)
+    .action(async (opts) => {
+      await runCandidatesCommand(async () => {
+        const store = await readCandidatePipeline(resolveWorkspace(opts));
+        const counts = summarizeCandidatePipeline(store);
+        if (opts.json) {
+          defaultRuntime.log(JSON.stringify({ stages: counts }, null, 2));
+          return;
+        }
+        for (const stage of CANDIDATE_STAGES) {
+          defaultRuntime.log(`${stage.padEnd(12)} ${counts[stage]}`);
+        }
+      });
+    });
+
+  candidates
+    .command("show")
+    .description("Show a candidate's history and notes")
+    .argument("<candidate>", "Candidate id, name, email or phone")
+    .option("--agent <id>", "Agent id (default: default agent)")
+    .option("--json", "Print JSON", false)
+    .action(async (ref: string, opts) => {
+      await runCandidatesCommand(async () => {
+        const store = await readCandidatePipeline(resolveWorkspace(opts));
+        const candidate = resolveCandidateRef(store, ref);
+        if (opts.json) {
+          defaultRuntime.log(JSON.stringify(candidate, null, 2));
+          return;
+        }
+        printCandidate(candidate);
+      });
+    });
+
+  candidates
+    .command("add")
+    .description("Add a candidate manually")
+    .option("--name <name>", "Candidate name")
+    .option("--email <email>", "Candidate email")
+    .option("--phone <phone>", "Candidate phone (E.164)")
+    .option("--linkedin <id>", "LinkedIn provider id or public identifier")
+    .option("--stage <stage>", "Initial stage (default: sourced)")
+    .option("--agent <id>", "Agent id (default: default agent)")
+    .action(async (opts) => {
+      await runCandidatesCommand(async () => {
+        const candidate = await addCandidate(resolveWorkspace(opts), {
+          identity: {
+            name: opts.name,
+            email: opts.email,
+            phone: opts.phone,
+            linkedin: opts.linkedin ? { providerId: opts.linkedin } : undefined,
+          },
+          stage: parseStage(opts.stage),
+          actor: "cli",
+        });
+        defaultRuntime.log(
+          `${theme.success("Added")} ${theme.command(candidate.id)} ${theme.muted(`(${candidate.stage})`)}`,
+        );
+      });
+    });
+
+  candidates
+    .command("move")
+    .description("Move a candidate to another stage")
+    .argument("<candidate>", "Candidate id, name, email or phone")
+    .argument("<stage>", `Target stage (${CANDIDATE_STAGES.join(", ")})`)
+    .option("--reason <text>", "Reason recorded in the candidate history")
+    .option("--agent <id>", "Agent id (default: default agent)")
+    .action(async (ref: string, stageRaw: string, opts) => {
+      await runCandidatesCommand(async () => {
+        const stage = parseStage(stageRaw);
+        if (!stage) {
+          throw new Error("stage required");
+        }
+        const candidate = await moveCandidate(resolveWorkspace(opts), {
+          ref,
+          stage,
+          reason: opts.reason,
+          actor: "cli",
+        });
+        defaultRuntime.log(
+          `${theme.success("Moved")} ${theme.command(candidate.id)} to ${candidate.stage}.`,
+        );
+      });
+    });
+
+  candidates
+    .command("note")
+    .description("Annotate a candidate")
+    .argument("<candidate>", "Candidate id, name, email or phone")
+    .argument("<text>", "Note text")
+    .option("--agent <id>", "Agent id (default: default agent)")
+    .action(async (ref: string, text: string, opts) => {
+      await runCandidatesCommand(async () => {
+        const candidate = await annotateCandidate(resolveWorkspace(opts), {
+          ref,
+          note: text,
+          actor: "cli",
+        });
+        defaultRuntime.log(
+          `${theme.success("Noted")} ${theme.command(candidate.id)} ${theme.muted(`(${candidate.notes.length} notes)`)}`,
+        );
+      });
+    });
+}
@@ -78,6 +78,8 @@ export function registerCronAddCommand(cron: Command) {
       .option("--tz <iana>", "Timezone for cron expressions (IANA)", "")
       .option("--stagger <duration>", "Cron stagger window (e.g. 30s, 5m)")
       .option("--exact", "Disable cron staggering (set stagger to 0)", false)
+      .option("--on-success <jobId>", "Run after this job succeeds")
+      .option("--on-failure <jobId>", "Run after this job fails")
       .option("--system-event <text>", "System event payload (main session)")
       .option("--message <text>", "Agent message payload")
       .option("--thinking <level>", "Thinking level for agent jobs (off|minimal|low|medium|high)")
@@ -105,13 +107,27 @@ export function registerCronAddCommand(cron: Command) {
             const at = typeof opts.at === "string" ? opts.at : "";
             const every = typeof opts.every === "string" ? opts.every : "";
             const cronExpr = typeof opts.cron === "string" ? opts.cron : "";
-            const chosen = [Boolean(at), Boolean(every), Boolean(cronExpr)].filter(Boolean).length;
+            const onSuccess = typeof opts.onSuccess === "string" ? opts.onSuccess.trim() : "";
+            const onFailure = typeof opts.onFailure === "string" ? opts.onFailure.trim() : "";
+            const after = Boolean(onSuccess || onFailure);
+            const chosen = [Boolean(at), Boolean(every), Boolean(cronExpr), after].filter(
+              Boolean,
+            ).length;
             if (chosen !== 1) {
-              throw new Error("Choose exactly one schedule: --at, --every, or --cron");
+              throw new Error(
+                "Choose exactly one schedule: --at, --every, --cron, or --on-success/--on-failure",
+              );
             }
             if ((useExact || staggerRaw) && !cronExpr) {
               throw new Error("--stagger/--exact are only valid with --cron");
             }
+            if (after) {
+              return {
+                kind: "after" as const,
+                onSuccess: onSuccess || undefined,
+                onFailure: onFailure || undefined,
+              };
+            }
             if (at) {
               const atIso = parseAt(at);
               if (!atIso) {
@@ -44,6 +44,8 @@ export function registerCronEditCommand(cron: Command) {
       .option("--tz <iana>", "Timezone for cron expressions (IANA)")
       .option("--stagger <duration>", "Cron stagger window (e.g. 30s, 5m)")
       .option("--exact", "Disable cron staggering (set stagger to 0)")
+      .option("--on-success <jobId>", "Run after this job succeeds (replaces the schedule)")
+      .option("--on-failure <jobId>", "Run after this job fails (replaces the schedule)")
       .option("--system-event <text>", "Set systemEvent payload")
       .option("--message <text>", "Set agentTurn payload message")
       .option("--thinking <level>", "Thinking level for agent jobs")
@@ -134,17 +136,26 @@ export function registerCronEditCommand(cron: Command) {
             patch.agentId = null;
           }
 
-          const scheduleChosen = [opts.at, opts.every, opts.cron].filter(Boolean).length;
+          const onSuccess = typeof opts.onSuccess === "string" ? opts.onSuccess.trim() : "";
+          const onFailure = typeof opts.onFailure === "string" ? opts.onFailure.trim() : "";
+          const after = Boolean(onSuccess || onFailure);
+          const scheduleChosen = [opts.at, opts.every, opts.cron, after].filter(Boolean).length;
           if (scheduleChosen > 1) {
             throw new Error("Choose at most one schedule change");
           }
           if (
             (requestedStaggerMs !== undefined || typeof opts.tz === "string") &&
-            (opts.at || opts.every)
+            (opts.at || opts.every || after)
           ) {
             throw new Error("--stagger/--exact/--tz are only valid for cron schedules");
           }
-          if (opts.at) {
+          if (after) {
+            patch.schedule = {
+              kind: "after",
+              onSuccess: onSuccess || undefined,
+              onFailure: onFailure || undefined,
+            };
+          } else if (opts.at) {
             const atIso = parseAt(String(opts.at));
             if (!atIso) {
               throw new Error("Invalid --at");
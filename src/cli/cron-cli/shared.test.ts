@@ -1,7 +1,7 @@
 import { describe, expect, it } from "vitest";
 import type { CronJob } from "../../cron/types.js";
 import type { RuntimeEnv } from "../../runtime.js";
-import { printCronList } from "./shared.js";
+import { formatCronDependencyTree, printCronList } from "./shared.js";
 
 describe("printCronList", () => {
   it("handles job with undefined sessionTarget (#9649)", () => {
@@ -111,3 +111,42 @@ describe("printCronList", () => {
     expect(logs.some((line) => line.includes("(exact)"))).toBe(true);
   });
 });
+
+describe("formatCronDependencyTree", () => {
+  const makeJob = (id: string, name: string, schedule: CronJob["schedule"]): CronJob => ({
+    id,
+    name,
+    enabled: true,
+    createdAtMs: 0,
+    updatedAtMs: 0,
+    schedule,
+    sessionTarget: "main",
+    wakeMode: "next-heartbeat",
+    payload: { kind: "systemEvent", text: "tick" },
+    state: {},
+  });
+
+  it("renders after-chains under their timer-scheduled root", () => {
+    const lines = formatCronDependencyTree([
+      makeJob("fetch-00000", "Fetch", { kind: "every", everyMs: 60_000 }),
+      makeJob("report-0000", "Report", { kind: "after", onSuccess: "fetch-00000" }),
+      makeJob("alert-00000", "Alert", { kind: "after", onFailure: "fetch-00000" }),
+      makeJob("notify-0000", "Notify", { kind: "after", onSuccess: "report-0000" }),
+      makeJob("orphan-0000", "Orphan", { kind: "after", onSuccess: "gone-000000" }),
+    ]);
+    expect(lines).toEqual([
+      "Fetch (fetch-00)",
+      "├─ on success → Report (report-0)",
+      "│  └─ on success → Notify (notify-0)",
+      "└─ on failure → Alert (alert-00)",
+      "gone-000 (not listed)",
+      "└─ on success → Orphan (orphan-0)",
+    ]);
+  });
+
+  it("returns nothing when no job depends on another", () => {
+    expect(formatCronDependencyTree([makeJob("a", "A", { kind: "every", everyMs: 1 })])).toEqual(
+      [],
+    );
+  });
+});
@@ -138,6 +138,13 @@ const formatSchedule = (schedule: CronSchedule) => {
   if (schedule.kind === "every") {
     return `every ${formatDurationHuman(schedule.everyMs)}`;
   }
+  if (schedule.kind === "after") {
+    const parts = [
+      schedule.onSuccess ? `${schedule.onSuccess.slice(0, 8)} ok` : "",
+      schedule.onFailure ? `${schedule.onFailure.slice(0, 8)} error` : "",
+    ].filter(Boolean);
+    return `after ${parts.join(" | ")}`;
+  }
   const base = schedule.tz ? `cron ${schedule.expr} @ ${schedule.tz}` : `cron ${schedule.expr}`;
   const staggerMs = resolveCronStaggerMs(schedule);
   if (staggerMs <= 0) {
@@ -156,6 +163,62 @@ const formatStatus = (job: CronJob) => {
   return job.state.lastStatus ?? "idle";
 };
 
+type CronDependencyEdge = { job: CronJob; on: "success" | "failure" };
+
+/**
+ * Render jobs chained with `after` schedules as a tree, one line per job.
+ * Roots are timer-scheduled jobs (or upstream ids missing from the list).
+ */
+export function formatCronDependencyTree(jobs: CronJob[]): string[] {
+  const byId = new Map(jobs.map((job) => [job.id, job]));
+  const children = new Map<string, CronDependencyEdge[]>();
+  const addEdge = (upstreamId: string | undefined, edge: CronDependencyEdge) => {
+    if (!upstreamId) {
+      return;
+    }
+    const list = children.get(upstreamId) ?? [];
+    list.push(edge);
+    children.set(upstreamId, list);
+  };
+  for (const job of jobs) {
+    if (job.schedule.kind === "after") {
+      addEdge(job.schedule.onSuccess, { job, on: "success" });
+      addEdge(job.schedule.onFailure, { job, on: "failure" });
+    }
+  }
+  if (children.size === 0) {
+    return [];
+  }
+
+  const label = (id: string) => {
+    const job = byId.get(id);
+    return job ? `${job.name} (${id.slice(0, 8)})` : `${id.slice(0, 8)} (not listed)`;
+  };
+  const lines: string[] = [];
+  const walk = (id: string, prefix: string, path: Set<string>) => {
+    const edges = children.get(id) ?? [];
+    edges.forEach((edge, index) => {
+      const last = index === edges.length - 1;
+      const looped = path.has(edge.job.id);
+      lines.push(
+        `${prefix}${last ? "└─" : "├─"} on ${edge.on} → ${label(edge.job.id)}${looped ? " (cycle)" : ""}`,
+      );
+      if (!looped) {
+        walk(edge.job.id, `${prefix}${last ? "   " : "│  "}`, new Set([...path, edge.job.id]));
+      }
+    });
+  };
+  const roots = [...children.keys()].filter((id) => {
+    const job = byId.get(id);
+    return !job || job.schedule.kind !== "after";
+  });
+  for (const id of roots) {
+    lines.push(label(id));
+    walk(id, "", new Set([id]));
+  }
+  return lines;
+}
+
 export function printCronList(jobs: CronJob[], runtime = defaultRuntime) {
   if (jobs.length === 0) {
     runtime.log("No cron jobs.");
@@ -231,4 +294,13 @@ export function printCronList(jobs: CronJob[], runtime = defaultRuntime) {
 
     runtime.log(line.trimEnd());
   }
+
+  const dependencyLines = formatCronDependencyTree(jobs);
+  if (dependencyLines.length > 0) {
+    runtime.log("");
+    runtime.log(rich ? theme.heading("Dependencies") : "Dependencies");
+    for (const line of dependencyLines) {
+      runtime.log(line);
+    }
+  }
 }
@@ -0,0 +1,235 @@
+import type { Command } from "commander";
+import { danger } from "../globals.js";
+import { formatTimeAgo } from "../infra/format-time/format-relative.ts";
+import type { QueuedDelivery } from "../infra/outbound/delivery-queue.js";
+import { defaultRuntime } from "../runtime.js";
+import { renderTable } from "../terminal/table.js";
+import { theme } from "../terminal/theme.js";
+import { runCommandWithRuntime } from "./cli-utils.js";
+import { addGatewayClientOptions, callGatewayFromCli, type GatewayRpcOpts } from "./gateway-rpc.js";
+import { formatHelpExamples } from "./help-format.js";
+
+type DeliveriesListOpts = GatewayRpcOpts & {
+  pending?: boolean;
+  failed?: boolean;
+  channel?: string;
+  limit?: string;
+};
+
+type DeliveryRow = {
+  id: string;
+  state: "pending" | "failed";
+  channel: string;
+  to: string;
+  enqueuedAt: number;
+  retryCount: number;
+  lastError?: string;
+  payloadCount: number;
+  mediaCount: number;
+  preview?: string;
+};
+
+type DeliveriesListResult = {
+  summary: {
+    pending: number;
+    failed: number;
+    oldestPendingAt?: number;
+    channels: Array<{ channel: string; pending: number; failed: number }>;
+  };
+  failedAlertThreshold: number;
+  pending: DeliveryRow[];
+  failed: DeliveryRow[];
+};
+
+function runDeliveriesCommand(action: () => Promise<void>) {
+  return runCommandWithRuntime(defaultRuntime, action, (err) => {
+    defaultRuntime.error(danger(String(err)));
+    defaultRuntime.exit(1);
+  });
+}
+
+function renderRows(title: string, rows: DeliveryRow[]) {
+  defaultRuntime.log(`${theme.heading(title)} ${theme.muted(`(${rows.length})`)}`);
+  if (rows.length === 0) {
+    return;
+  }
+  const now = Date.now();
+  defaultRuntime.log(
+    renderTable({
+      width: Math.max(60, (process.stdout.columns ?? 120) - 1),
+      columns: [
+        { key: "Id", header: "Id", minWidth: 36 },
+        { key: "Target", header: "Target", minWidth: 16, flex: true },
+        { key: "Age", header: "Age", minWidth: 8 },
+        { key: "Retries", header: "Retries", minWidth: 7 },
+        { key: "Preview", header: "Preview / last error", minWidth: 20, flex: true },
+      ],
+      rows: rows.map((row) => ({
+        Id: row.id,
+        Target: `${row.channel}:${row.to}`,
+        Age: formatTimeAgo(now - row.enqueuedAt),
+        Retries: String(row.retryCount),
+        Preview:
+          row.lastError ??
+          row.preview ??
+          (row.mediaCount > 0 ? `${row.mediaCount} attachment(s)` : ""),
+      })),
+    }).trimEnd(),
+  );
+}
+
+export function registerDeliveriesCli(program: Command) {
+  const deliveries = program
+    .command("deliveries")
+    .description("Inspect, retry or discard queued outbound deliveries")
+    .addHelpText(
+      "after",
+      () =>
+        `\n${theme.heading("Examples:")}\n${formatHelpExamples([
+          ["openclaw deliveries list", "Counts per channel plus pending and failed entries."],
+          ["openclaw deliveries list --failed --channel telegram", "Dead letters for Telegram."],
+          ["openclaw deliveries show <id>", "Full payloads and retry state."],
+          ["openclaw deliveries retry <id>", "Send a pending or failed entry now."],
+          ["openclaw deliveries discard <id>", "Drop an entry for good."],
+        ])}`,
+    );
+
+  addGatewayClientOptions(
+    deliveries
+      .command("list")
+      .description("List pending and failed deliveries")
+      .option("--pending", "Only pending entries", false)
+      .option("--failed", "Only failed (dead-letter) entries", false)
+      .option("--channel <id>", "Filter by channel")
+      .option("--limit <n>", "Max entries per queue (default 200)")
+      .option("--json", "Output JSON", false)
+      .action(async (opts: DeliveriesListOpts) => {
+        await runDeliveriesCommand(async () => {
+          const state =
+            opts.pending && !opts.failed
+              ? "pending"
+              : opts.failed && !opts.pending
+                ? "failed"
+                : "all";
+          const limit = opts.limit ? Number.parseInt(opts.limit, 10) : undefined;
+          const res = (await callGatewayFromCli("deliveries.list", opts, {
+            state,
+            ...(opts.channel ? { channel: opts.channel } : {}),
+            ...(limit && limit > 0 ? { limit } : {}),
+          })) as DeliveriesListResult;
+          if (opts.json) {
+            defaultRuntime.log(JSON.stringify(res, null, 2));
+            return;
+          }
+          const { summary } = res;
+          const failedLabel =
+            res.failedAlertThreshold > 0 && summary.failed >= res.failedAlertThreshold
+              ? theme.error(`${summary.failed} failed`)
+              : `${summary.failed} failed`;
+          defaultRuntime.log(`${summary.pending} pending, ${failedLabel}`);
+          for (const channel of summary.channels) {
+            defaultRuntime.log(
+              theme.muted(
+                `  ${channel.channel}: ${channel.pending} pending, ${channel.failed} failed`,
+              ),
+            );
+          }
+          if (state !== "failed") {
+            defaultRuntime.log("");
+            renderRows("Pending", res.pending);
+          }
+          if (state !== "pending") {
+            defaultRuntime.log("");
+            renderRows("Failed", res.failed);
+          }
+        });
+      }),
+  );
+
+  addGatewayClientOptions(
+    deliveries
+      .command("show")
+      .description("Show a queued delivery with its payloads")
+      .argument("<id>", "Delivery id")
+      .option("--json", "Output JSON", false)
+      .action(async (id: string, opts: GatewayRpcOpts) => {
+        await runDeliveriesCommand(async () => {
+          const res = (await callGatewayFromCli("deliveries.get", opts, { id })) as {
+            state: "pending" | "failed";
+            entry: QueuedDelivery;
+          };
+          if (opts.json) {
+            defaultRuntime.log(JSON.stringify(res, null, 2));
+            return;
+          }
+          const { entry } = res;
+          defaultRuntime.log(`${theme.heading(entry.id)} ${theme.muted(`(${res.state})`)}`);
+          defaultRuntime.log(`${theme.muted("Target:")} ${entry.channel}:${entry.to}`);
+          if (entry.accountId) {
+            defaultRuntime.log(`${theme.muted("Account:")} ${entry.accountId}`);
+          }
+          if (entry.threadId != null) {
+            defaultRuntime.log(`${theme.muted("Thread:")} ${entry.threadId}`);
+          }
+          defaultRuntime.log(
+            `${theme.muted("Enqueued:")} ${new Date(entry.enqueuedAt).toISOString()}`,
+          );
+          defaultRuntime.log(`${theme.muted("Retries:")} ${entry.retryCount}`);
+          if (entry.lastError) {
+            defaultRuntime.log(`${theme.muted("Last error:")} ${theme.error(entry.lastError)}`);
+          }
+          defaultRuntime.log("");
+          defaultRuntime.log(JSON.stringify(entry.payloads, null, 2));
+        });
+      }),
+  );
+
+  addGatewayClientOptions(
+    deliveries
+      .command("retry")
+      .description("Send a pending or failed delivery now")
+      .argument("<id>", "Delivery id")
+      .option("--json", "Output JSON", false)
+      .action(async (id: string, opts: GatewayRpcOpts) => {
+        await runDeliveriesCommand(async () => {
+          const res = (await callGatewayFromCli("deliveries.retry", opts, { id })) as {
+            ok: boolean;
+            error?: string;
+          };
+          if (opts.json) {
+            defaultRuntime.log(JSON.stringify(res, null, 2));
+          } else if (res.ok) {
+            defaultRuntime.log(`${theme.success("Delivered")} ${theme.command(id)}`);
+          } else {
+            defaultRuntime.error(
+              `${theme.error("Retry failed")} ${theme.command(id)}: ${res.error ?? "unknown error"} (still pending)`,
+            );
+          }
+          if (!res.ok) {
+            defaultRuntime.exit(1);
+          }
+        });
+      }),
+  );
+
+  addGatewayClientOptions(
+    deliveries
+      .command("discard")
+      .alias("rm")
+      .description("Delete a pending or failed delivery without sending it")
+      .argument("<id>", "Delivery id")
+      .option("--json", "Output JSON", false)
+      .action(async (id: string, opts: GatewayRpcOpts) => {
+        await runDeliveriesCommand(async () => {
+          const res = (await callGatewayFromCli("deliveries.discard", opts, { id })) as {
+            state: "pending" | "failed";
+          };
+          if (opts.json) {
+            defaultRuntime.log(JSON.stringify(res, null, 2));
+            return;
+          }
+          defaultRuntime.log(`${theme.warn("Discarded")} ${theme.command(id)} (${res.state})`);
+        });
+      }),
+  );
+}
@@ -14,7 +14,8 @@ const callGatewayFromCli = vi.fn(async (method: string, _opts: unknown, params?:
   return { method, params };
 });
 
-const { runtimeErrors, defaultRuntime, resetRuntimeCapture } = createCliRuntimeCapture();
+const { runtimeLogs, runtimeErrors, defaultRuntime, resetRuntimeCapture } =
+  createCliRuntimeCapture();
 
 const localSnapshot = {
   path: "/tmp/local-exec-approvals.json",
@@ -45,6 +46,10 @@ vi.mock("../runtime.js", () => ({
   defaultRuntime,
 }));
 
+vi.mock("../config/config.js", () => ({
+  loadConfig: () => ({}),
+}));
+
 vi.mock("../infra/exec-approvals.js", async () => {
   const actual = await vi.importActual<typeof import("../infra/exec-approvals.js")>(
     "../infra/exec-approvals.js",
@@ -142,4 +147,84 @@ describe("exec approvals CLI", () => {
     );
     expect(runtimeErrors).toHaveLength(0);
   });
+
+  it("adds a time-boxed rule with conditions", async () => {
+    const saveExecApprovals = vi.mocked(execApprovals.saveExecApprovals);
+    saveExecApprovals.mockClear();
+
+    await runApprovalsCommand([
+      "approvals",
+      "rules",
+      "add",
+      "allow",
+      "--argv",
+      "/usr/local/bin/npm test **",
+      "--cwd",
+      "/repo/**",
+      "--host",
+      "gateway",
+      "--agent",
+      "main",
+      "--minutes",
+      "30",
+      "--uses",
+      "5",
+    ]);
+
+    expect(runtimeErrors).toHaveLength(0);
+    const saved = saveExecApprovals.mock.calls[0]?.[0];
+    expect(saved?.rules).toEqual([
+      expect.objectContaining({
+        action: "allow",
+        argv: ["/usr/local/bin/npm", "test", "**"],
+        cwd: "/repo/**",
+        hosts: ["gateway"],
+        agents: ["main"],
+        maxUses: 5,
+        expiresAt: expect.any(Number),
+        source: "manual",
+      }),
+    ]);
+  });
+
+  it("rejects allow rules whose executable cannot be resolved", async () => {
+    const saveExecApprovals = vi.mocked(execApprovals.saveExecApprovals);
+    saveExecApprovals.mockClear();
+
+    await runApprovalsCommand([
+      "approvals",
+      "rules",
+      "add",
+      "allow",
+      "--argv",
+      "openclaw-no-such-binary **",
+    ]).catch(() => {});
+
+    expect(saveExecApprovals).not.toHaveBeenCalled();
+    expect(runtimeErrors.join("\n")).toContain("use an absolute path");
+  });
+
+  it("explains decisions with approvals test", async () => {
+    localSnapshot.file = {
+      version: 1,
+      agents: {},
+      rules: [{ id: "deny-rm", action: "deny", argv: ["rm", "-rf", "**"] }],
+    } as typeof localSnapshot.file;
+
+    await runApprovalsCommand(["approvals", "test", "rm -rf /tmp/x", "--json"]);
+    expect(JSON.parse(runtimeLogs.at(-1) ?? "{}")).toMatchObject({
+      host: "gateway",
+      decision: "deny",
+      reason: "denied by rule deny-rm",
+      ruleDecision: "deny",
+    });
+
+    await runApprovalsCommand(["approvals", "test", "ls -la", "--json", "--env", "PATH=/none"]);
+    expect(JSON.parse(runtimeLogs.at(-1) ?? "{}")).toMatchObject({
+      decision: "ask",
+      reason: "allowlist miss (ask=on-miss)",
+      rules: [expect.objectContaining({ matched: false })],
+    });
+    expect(runtimeErrors).toHaveLength(0);
+  });
 });
@@ -1,12 +1,32 @@
+import crypto from "node:crypto";
 import fs from "node:fs/promises";
 import type { Command } from "commander";
 import JSON5 from "json5";
+import { resolveAgentConfig, resolveDefaultAgentId } from "../agents/agent-scope.js";
+import { normalizeExecAsk, normalizeExecSecurity } from "../agents/bash-tools.exec-runtime.js";
+import { loadConfig } from "../config/config.js";
 import {
+  analyzeExecPolicySegments,
+  describeExecPolicyRule,
+  evaluateExecPolicyRules,
+  evaluateShellAllowlist,
+  maxAsk,
+  minSecurity,
+  pruneExecPolicyRules,
   readExecApprovalsSnapshot,
+  requiresExecApproval,
+  resolveCommandResolutionFromArgv,
+  resolveExecApprovalsFromFile,
+  resolveSafeBins,
   saveExecApprovals,
   type ExecApprovalsAgent,
   type ExecApprovalsFile,
+  type ExecPolicyAction,
+  type ExecPolicyHost,
+  type ExecPolicyRule,
+  type ExecPolicyRuleTrace,
 } from "../infra/exec-approvals.js";
+import { getTrustedSafeBinDirs } from "../infra/exec-safe-bin-trust.js";
 import { formatTimeAgo } from "../infra/format-time/format-relative.ts";
 import { defaultRuntime } from "../runtime.js";
 import { formatDocsLink } from "../terminal/links.js";
@@ -16,6 +36,8 @@ import { describeUnknownError } from "./gateway-cli/shared.js";
 import { callGatewayFromCli } from "./gateway-rpc.js";
 import { nodesCallOpts, resolveNodeId } from "./nodes-cli/rpc.js";
 import type { NodesRpcOpts } from "./nodes-cli/types.js";
+import { parseEnvPairs } from "./nodes-run.js";
+import { collectOption } from "./program/helpers.js";
 
 type ExecApprovalsSnapshot = {
   path: string;
@@ -32,6 +54,27 @@ type ExecApprovalsCliOpts = NodesRpcOpts & {
   agent?: string;
 };
 
+type ExecRuleAddOpts = Omit<ExecApprovalsCliOpts, "agent"> & {
+  argv?: string;
+  command?: string;
+  cwd?: string;
+  env?: string[];
+  host?: string[];
+  agent?: string[];
+  minutes?: string;
+  uses?: string;
+  description?: string;
+};
+
+type ExecApprovalsTestOpts = ExecApprovalsCliOpts & {
+  host?: string;
+  cwd?: string;
+  env?: string[];
+};
+
+const EXEC_POLICY_ACTIONS: ExecPolicyAction[] = ["allow", "deny", "ask"];
+const EXEC_POLICY_HOSTS: ExecPolicyHost[] = ["sandbox", "gateway", "node"];
+
 async function readStdin(): Promise<string> {
   const chunks: Buffer[] = [];
   for await (const chunk of process.stdin) {
@@ -194,6 +237,7 @@ function renderApprovalsSnapshot(snapshot: ExecApprovalsSnapshot, targetLabel: s
     { Field: "Defaults", Value: defaultsParts.length > 0 ? defaultsParts.join(", ") : "none" },
     { Field: "Agents", Value: String(Object.keys(agents).length) },
     { Field: "Allowlist", Value: String(allowlistRows.length) },
+    { Field: "Rules", Value: String(file.rules?.length ?? 0) },
   ];
 
   defaultRuntime.log(heading("Approvals"));
@@ -208,6 +252,27 @@ function renderApprovalsSnapshot(snapshot: ExecApprovalsSnapshot, targetLabel: s
     }).trimEnd(),
   );
 
+  const rules = file.rules ?? [];
+  if (rules.length > 0) {
+    defaultRuntime.log("");
+    defaultRuntime.log(heading("Rules"));
+    defaultRuntime.log(
+      renderTable({
+        width: tableWidth,
+        columns: [
+          { key: "Id", header: "Id", minWidth: 8 },
+          { key: "Rule", header: "Rule", minWidth: 24, flex: true },
+          { key: "Source", header: "Source", minWidth: 8 },
+        ],
+        rows: rules.map((rule) => ({
+          Id: rule.id?.slice(0, 8) ?? muted("-"),
+          Rule: describeExecPolicyRule(rule, now),
+          Source: rule.source ?? "manual",
+        })),
+      }).trimEnd(),
+    );
+  }
+
   if (allowlistRows.length === 0) {
     defaultRuntime.log("");
     defaultRuntime.log(muted("No allowlist entries."));
@@ -322,6 +387,269 @@ async function runAllowlistMutation(
   }
 }
 
+function parsePositiveInt(value: string | undefined, flag: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const parsed = Number.parseInt(value, 10);
+  if (!Number.isFinite(parsed) || parsed <= 0 || String(parsed) !== value.trim()) {
+    exitWithError(`${flag} must be a positive integer.`);
+  }
+  return parsed;
+}
+
+function parseHosts(values: string[] | undefined): ExecPolicyHost[] | undefined {
+  if (!values?.length) {
+    return undefined;
+  }
+  return values.map((value) => {
+    const host = value.trim().toLowerCase() as ExecPolicyHost;
+    if (!EXEC_POLICY_HOSTS.includes(host)) {
+      exitWithError(`Invalid --host "${value}" (use ${EXEC_POLICY_HOSTS.join("|")}).`);
+    }
+    return host;
+  });
+}
+
+/**
+ * Allow rules match argv[0] against the resolved executable path only, so pin
+ * a bare command name to its absolute path here. Node PATHs can differ from
+ * this machine's, so node rules need an explicit path.
+ */
+function resolveAllowRuleExecutable(executable: string, opts: ExecRuleAddOpts): string {
+  if (/[/\\*?]/.test(executable) || executable.startsWith("~")) {
+    return executable;
+  }
+  if (opts.node) {
+    exitWithError(`Use an absolute path for "${executable}" in node allow rules.`);
+  }
+  const resolved = resolveCommandResolutionFromArgv([executable])?.resolvedPath;
+  if (!resolved) {
+    exitWithError(`Could not find "${executable}" on PATH; use an absolute path.`);
+  }
+  return resolved;
+}
+
+function buildRuleFromOpts(action: string, opts: ExecRuleAddOpts): ExecPolicyRule {
+  const normalizedAction = action.trim().toLowerCase() as ExecPolicyAction;
+  if (!EXEC_POLICY_ACTIONS.includes(normalizedAction)) {
+    exitWithError(`Invalid action "${action}" (use ${EXEC_POLICY_ACTIONS.join("|")}).`);
+  }
+  const argv = opts.argv?.trim() ? opts.argv.trim().split(/\s+/) : undefined;
+  if (argv && normalizedAction === "allow") {
+    argv[0] = resolveAllowRuleExecutable(argv[0], opts);
+  }
+  const command = opts.command?.trim() || undefined;
+  if (!argv && !command) {
+    exitWithError("Provide --argv or --command.");
+  }
+  const minutes = parsePositiveInt(opts.minutes, "--minutes");
+  const maxUses = parsePositiveInt(opts.uses, "--uses");
+  const now = Date.now();
+  const agents = (opts.agent ?? []).map((agent) => agent.trim()).filter(Boolean);
+  return {
+    id: crypto.randomUUID(),
+    action: normalizedAction,
+    ...(opts.description?.trim() ? { description: opts.description.trim() } : {}),
+    ...(argv ? { argv } : {}),
+    ...(command ? { command } : {}),
+    ...(opts.cwd?.trim() ? { cwd: opts.cwd.trim() } : {}),
+    ...(parseEnvPairs(opts.env) ? { env: parseEnvPairs(opts.env) } : {}),
+    ...(parseHosts(opts.host) ? { hosts: parseHosts(opts.host) } : {}),
+    ...(agents.length > 0 ? { agents } : {}),
+    ...(minutes ? { expiresAt: now + minutes * 60_000 } : {}),
+    ...(maxUses ? { maxUses } : {}),
+    createdAt: now,
+    source: "manual",
+  };
+}
+
+type ExecApprovalExplanation = {
+  host: ExecPolicyHost;
+  agentId: string;
+  security: string;
+  ask: string;
+  analysisOk: boolean;
+  segments: Array<{ argv: string[]; resolvedPath?: string }>;
+  allowlistMatches: string[];
+  allowlistSatisfied: boolean;
+  rules: ExecPolicyRuleTrace[];
+  ruleDecision: ExecPolicyAction | null;
+  decision: "allow" | "ask" | "deny";
+  reason: string;
+};
+
+/**
+ * Mirror the exec host checks (security, rules, allowlist, ask) for a command
+ * without running it. Paths resolve on this machine, so node targets are an
+ * approximation when the node's PATH differs.
+ */
+function explainExecApproval(params: {
+  file: ExecApprovalsFile;
+  command: string;
+  host: ExecPolicyHost;
+  agentId?: string;
+  cwd: string;
+  env?: Record<string, string>;
+}): ExecApprovalExplanation {
+  const cfg = loadConfig();
+  const agentId = params.agentId?.trim() || resolveDefaultAgentId(cfg);
+  const agentExec = resolveAgentConfig(cfg, agentId)?.tools?.exec;
+  const configuredSecurity =
+    normalizeExecSecurity(agentExec?.security ?? cfg.tools?.exec?.security) ?? "allowlist";
+  const configuredAsk = normalizeExecAsk(agentExec?.ask ?? cfg.tools?.exec?.ask) ?? "on-miss";
+  const approvals = resolveExecApprovalsFromFile({
+    file: params.file,
+    agentId,
+    overrides: { security: configuredSecurity, ask: configuredAsk },
+  });
+  const security =
+    params.host === "gateway"
+      ? minSecurity(configuredSecurity, approvals.agent.security)
+      : approvals.agent.security;
+  const ask =
+    params.host === "gateway" ? maxAsk(configuredAsk, approvals.agent.ask) : approvals.agent.ask;
+  const env = { ...process.env, ...params.env };
+  const allowlistEval = evaluateShellAllowlist({
+    command: params.command,
+    allowlist: approvals.allowlist,
+    safeBins: resolveSafeBins(agentExec?.safeBins ?? cfg.tools?.exec?.safeBins),
+    cwd: params.cwd,
+    env,
+    platform: process.platform,
+    trustedSafeBinDirs: getTrustedSafeBinDirs(),
+  });
+  const policySegments = analyzeExecPolicySegments({
+    command: params.command,
+    cwd: params.cwd,
+    env,
+    platform: process.platform,
+  });
+  const policy = evaluateExecPolicyRules({
+    rules: pruneExecPolicyRules(params.file.rules ?? []),
+    command: params.command,
+    segments: policySegments,
+    cwd: params.cwd,
+    env,
+    host: params.host,
+    agentId,
+  });
+  const ruleDecision = policy.decision;
+  const allowlistSatisfied =
+    security === "allowlist" && allowlistEval.analysisOk
+      ? allowlistEval.allowlistSatisfied || ruleDecision === "allow"
+      : false;
+  const base = {
+    host: params.host,
+    agentId,
+    security,
+    ask,
+    analysisOk: allowlistEval.analysisOk,
+    segments: (policySegments ?? allowlistEval.segments).map((segment) => ({
+      argv: segment.argv,
+      resolvedPath: segment.resolution?.resolvedPath,
+    })),
+    allowlistMatches: allowlistEval.allowlistMatches.map((entry) => entry.pattern),
+    allowlistSatisfied,
+    rules: policy.trace,
+    ruleDecision,
+  };
+  const ruleLabel = policy.rules.map((rule) => rule.id?.slice(0, 8) ?? "?").join(", ");
+  if (ruleDecision === "deny") {
+    return { ...base, decision: "deny", reason: `denied by rule ${ruleLabel}` };
+  }
+  if (params.host === "sandbox") {
+    if (!policySegments && policy.rules[0]?.action === "deny") {
+      return { ...base, decision: "deny", reason: `rule ${ruleLabel} could not be checked` };
+    }
+    return { ...base, decision: "allow", reason: "sandbox runs skip approvals" };
+  }
+  if (security === "deny") {
+    return { ...base, decision: "deny", reason: "security=deny" };
+  }
+  if (ruleDecision === "ask") {
+    return { ...base, decision: "ask", reason: `rule ${ruleLabel} requires approval` };
+  }
+  if (
+    requiresExecApproval({
+      ask,
+      security,
+      analysisOk: allowlistEval.analysisOk,
+      allowlistSatisfied,
+    })
+  ) {
+    return {
+      ...base,
+      decision: "ask",
+      reason: ask === "always" ? "ask=always" : "allowlist miss (ask=on-miss)",
+    };
+  }
+  if (security === "allowlist" && !allowlistSatisfied) {
+    return {
+      ...base,
+      decision: "deny",
+      reason: allowlistEval.analysisOk ? "allowlist miss" : "command could not be analyzed",
+    };
+  }
+  if (security === "full") {
+    return { ...base, decision: "allow", reason: "security=full" };
+  }
+  return {
+    ...base,
+    decision: "allow",
+    reason: ruleDecision === "allow" ? `allowed by rule ${ruleLabel}` : "allowlist match",
+  };
+}
+
+function renderExecApprovalExplanation(explanation: ExecApprovalExplanation) {
+  const rich = isRich();
+  const heading = (text: string) => (rich ? theme.heading(text) : text);
+  const muted = (text: string) => (rich ? theme.muted(text) : text);
+  const decisionColor =
+    explanation.decision === "allow"
+      ? theme.success
+      : explanation.decision === "deny"
+        ? theme.error
+        : theme.warn;
+  const now = Date.now();
+  defaultRuntime.log(
+    `${heading("Decision:")} ${rich ? decisionColor(explanation.decision) : explanation.decision} ${muted(`(${explanation.reason})`)}`,
+  );
+  defaultRuntime.log(
+    muted(
+      `host=${explanation.host} agent=${explanation.agentId} security=${explanation.security} ask=${explanation.ask}`,
+    ),
+  );
+  defaultRuntime.log("");
+  defaultRuntime.log(heading("Segments"));
+  if (!explanation.analysisOk) {
+    defaultRuntime.log(muted("Command could not be analyzed (unsupported shell syntax)."));
+  }
+  for (const segment of explanation.segments) {
+    defaultRuntime.log(
+      `- ${segment.argv.join(" ")} ${muted(`→ ${segment.resolvedPath ?? "unresolved"}`)}`,
+    );
+  }
+  defaultRuntime.log("");
+  defaultRuntime.log(heading("Rules"));
+  if (explanation.rules.length === 0) {
+    defaultRuntime.log(muted("No rules."));
+  }
+  for (const entry of explanation.rules) {
+    const mark = entry.matched ? "✓" : "·";
+    defaultRuntime.log(
+      `${mark} ${entry.rule.id?.slice(0, 8) ?? "-"} ${describeExecPolicyRule(entry.rule, now)} ${muted(`(${entry.reason})`)}`,
+    );
+  }
+  defaultRuntime.log("");
+  defaultRuntime.log(heading("Allowlist"));
+  defaultRuntime.log(
+    explanation.allowlistMatches.length > 0
+      ? explanation.allowlistMatches.map((pattern) => `✓ ${pattern}`).join("\n")
+      : muted("No allowlist match."),
+  );
+}
+
 export function registerExecApprovalsCli(program: Command) {
   const formatExample = (cmd: string, desc: string) =>
     `  ${theme.command(cmd)}\n    ${theme.muted(desc)}`;
@@ -475,4 +803,154 @@ export function registerExecApprovalsCli(program: Command) {
       );
     });
   nodesCallOpts(allowlistRemove);
+
+  const rules = approvals
+    .command("rules")
+    .description("Edit conditional exec rules and time-boxed grants")
+    .addHelpText(
+      "after",
+      () =>
+        `\n${theme.heading("Examples:")}\n${formatExample(
+          'openclaw approvals rules add allow --argv "git status **" --cwd "~/Projects/**"',
+          "Allow git status anywhere under ~/Projects.",
+        )}\n${formatExample(
+          'openclaw approvals rules add deny --argv "rm -rf **" --host gateway',
+          "Never run rm -rf on the gateway host.",
+        )}\n${formatExample(
+          'openclaw approvals rules add allow --argv "npm test **" --agent main --minutes 30 --uses 5',
+          "Grant npm test to the main agent for 30 minutes or 5 runs.",
+        )}\n${formatExample("openclaw approvals rules remove <id>", "Remove a rule by id or id prefix.")}\n\n${theme.muted("Docs:")} ${formatDocsLink("/cli/approvals", "docs.openclaw.ai/cli/approvals")}\n`,
+    );
+
+  const rulesList = rules
+    .command("list")
+    .description("List exec rules")
+    .option("--node <node>", "Target node id/name/IP")
+    .option("--gateway", "Force gateway approvals", false)
+    .action(async (opts: ExecApprovalsCliOpts) => {
+      try {
+        const { snapshot } = await loadSnapshotTarget(opts);
+        const list = snapshot.file?.rules ?? [];
+        if (opts.json) {
+          defaultRuntime.log(JSON.stringify(list));
+          return;
+        }
+        if (list.length === 0) {
+          defaultRuntime.log(theme.muted("No rules."));
+          return;
+        }
+        const now = Date.now();
+        for (const rule of list) {
+          defaultRuntime.log(`${rule.id ?? "-"}  ${describeExecPolicyRule(rule, now)}`);
+        }
+      } catch (err) {
+        defaultRuntime.error(formatCliError(err));
+        defaultRuntime.exit(1);
+      }
+    });
+  nodesCallOpts(rulesList);
+
+  const rulesAdd = rules
+    .command("add <action>")
+    .description("Add an allow, deny or ask rule")
+    .option("--node <node>", "Target node id/name/IP")
+    .option("--gateway", "Force gateway approvals", false)
+    .option("--argv <globs>", 'Space-separated argv globs (trailing "**" matches remaining args)')
+    .option("--command <glob>", "Glob on the full command text")
+    .option("--cwd <glob>", "Glob on the working directory")
+    .option("--env <key=glob>", "Require an env var (repeatable)", collectOption, [])
+    .option("--host <host>", "Limit to sandbox|gateway|node (repeatable)", collectOption, [])
+    .option("--agent <id>", "Limit to an agent (repeatable)", collectOption, [])
+    .option("--minutes <n>", "Expire the rule after n minutes")
+    .option("--uses <n>", "Expire the rule after n uses")
+    .option("--description <text>", "Note shown in listings")
+    .action(async (action: string, opts: ExecRuleAddOpts) => {
+      try {
+        const rule = buildRuleFromOpts(action, opts);
+        const targetOpts: ExecApprovalsCliOpts = { ...opts, agent: undefined };
+        const { snapshot, nodeId, source, targetLabel, baseHash } =
+          await loadWritableSnapshotTarget(targetOpts);
+        const file = snapshot.file ?? { version: 1 };
+        file.version = 1;
+        file.rules = [...pruneExecPolicyRules(file.rules ?? []), rule];
+        await saveSnapshotTargeted({
+          opts: targetOpts,
+          source,
+          nodeId,
+          file,
+          baseHash,
+          targetLabel,
+        });
+      } catch (err) {
+        defaultRuntime.error(formatCliError(err));
+        defaultRuntime.exit(1);
+      }
+    });
+  nodesCallOpts(rulesAdd);
+
+  const rulesRemove = rules
+    .command("remove <id>")
+    .description("Remove a rule by id (or unique id prefix)")
+    .option("--node <node>", "Target node id/name/IP")
+    .option("--gateway", "Force gateway approvals", false)
+    .action(async (id: string, opts: ExecApprovalsCliOpts) => {
+      try {
+        const ref = requireTrimmedNonEmpty(id, "Rule id required.");
+        const { snapshot, nodeId, source, targetLabel, baseHash } =
+          await loadWritableSnapshotTarget(opts);
+        const file = snapshot.file ?? { version: 1 };
+        file.version = 1;
+        const current = file.rules ?? [];
+        const matches = current.filter((rule) => rule.id === ref || rule.id?.startsWith(ref));
+        if (matches.length === 0) {
+          defaultRuntime.log("Rule not found.");
+          return;
+        }
+        if (matches.length > 1 && !matches.some((rule) => rule.id === ref)) {
+          exitWithError(`Rule id "${ref}" is ambiguous.`);
+        }
+        const target = matches.find((rule) => rule.id === ref) ?? matches[0];
+        const next = current.filter((rule) => rule !== target);
+        file.rules = next.length > 0 ? next : undefined;
+        await saveSnapshotTargeted({ opts, source, nodeId, file, baseHash, targetLabel });
+      } catch (err) {
+        defaultRuntime.error(formatCliError(err));
+        defaultRuntime.exit(1);
+      }
+    });
+  nodesCallOpts(rulesRemove);
+
+  const testCmd = approvals
+    .command("test <command>")
+    .description("Explain whether a command would run, ask or be denied")
+    .option("--node <node>", "Target node id/name/IP")
+    .option("--gateway", "Force gateway approvals", false)
+    .option("--agent <id>", "Agent id (defaults to the default agent)")
+    .option("--host <host>", "Exec host: sandbox|gateway|node (defaults from target)")
+    .option("--cwd <dir>", "Working directory (defaults to the current directory)")
+    .option("--env <key=value>", "Env var for the run (repeatable)", collectOption, [])
+    .action(async (command: string, opts: ExecApprovalsTestOpts) => {
+      try {
+        const trimmed = requireTrimmedNonEmpty(command, "Command required.");
+        const { snapshot, source } = await loadSnapshotTarget(opts);
+        const host = parseHosts(opts.host ? [opts.host] : [source === "node" ? "node" : "gateway"]);
+        const explanation = explainExecApproval({
+          file: snapshot.file ?? { version: 1 },
+          command: trimmed,
+          host: host?.[0] ?? "gateway",
+          agentId: opts.agent,
+          cwd: opts.cwd?.trim() || process.cwd(),
+          env: parseEnvPairs(opts.env),
+        });
+        if (opts.json) {
+          defaultRuntime.log(JSON.stringify(explanation));
+          return;
+        }
+        renderExecApprovalExplanation(explanation);
+      } catch (err) {
+        defaultRuntime.error(formatCliError(err));
+        defaultRuntime.exit(1);
+      }
+    });
+  nodesCallOpts(testCmd);
 }
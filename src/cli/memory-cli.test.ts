@@ -313,4 +313,22 @@ describe("memory cli", () => {
     expect(error).toHaveBeenCalledWith(expect.stringContaining("Memory search failed: boom"));
     expect(process.exitCode).toBe(1);
   });
+
+  it("fails eval when the golden query file is invalid", async () => {
+    const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "memory-cli-eval-"));
+    const suitePath = path.join(tmpDir, "memory-eval.json");
+    await fs.writeFile(suitePath, JSON.stringify({ queries: [{ query: "deploy" }] }), "utf-8");
+    const error = vi.spyOn(defaultRuntime, "error").mockImplementation(() => {});
+    try {
+      await runMemoryCli(["eval", "--file", suitePath]);
+    } finally {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    }
+
+    expect(error).toHaveBeenCalledWith(
+      expect.stringContaining("queries[0].expected must list at least one path"),
+    );
+    expect(getMemorySearchManager).not.toHaveBeenCalled();
+    expect(process.exitCode).toBe(1);
+  });
 });
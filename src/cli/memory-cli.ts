@@ -3,17 +3,27 @@ import fs from "node:fs/promises";
 import os from "node:os";
 import path from "node:path";
 import type { Command } from "commander";
-import { resolveDefaultAgentId } from "../agents/agent-scope.js";
+import { resolveAgentWorkspaceDir, resolveDefaultAgentId } from "../agents/agent-scope.js";
 import { loadConfig } from "../config/config.js";
+import { applyMergePatch } from "../config/merge-patch.js";
 import { resolveStateDir } from "../config/paths.js";
 import { resolveSessionTranscriptsDirForAgent } from "../config/sessions/paths.js";
 import { setVerbose } from "../globals.js";
+import {
+  DEFAULT_MEMORY_EVAL_FILE,
+  DEFAULT_MEMORY_EVAL_K,
+  diffMemoryEvalReports,
+  loadMemoryEvalSuite,
+  runMemoryEvalVariant,
+  type MemoryEvalReport,
+} from "../memory/eval.js";
 import { getMemorySearchManager, type MemorySearchManagerResult } from "../memory/index.js";
 import { listMemoryFiles, normalizeExtraMemoryPaths } from "../memory/internal.js";
+import { readMemoryAudit } from "../memory/memory-writes.js";
 import { defaultRuntime } from "../runtime.js";
 import { formatDocsLink } from "../terminal/links.js";
 import { colorize, isRich, theme } from "../terminal/theme.js";
-import { shortenHomeInString, shortenHomePath } from "../utils.js";
+import { resolveUserPath, shortenHomeInString, shortenHomePath } from "../utils.js";
 import { formatErrorMessage, withManager } from "./cli-utils.js";
 import { formatHelpExamples } from "./help-format.js";
 import { withProgress, withProgressTotals } from "./progress.js";
@@ -450,6 +460,13 @@ export async function runMemoryStatus(opts: MemoryCommandOptions) {
         lines.push(`  ${accent(entry.source)} ${muted("·")} ${muted(counts)}`);
       }
     }
+    if (status.namespaceCounts?.length) {
+      lines.push(label("By namespace"));
+      for (const entry of status.namespaceCounts) {
+        const counts = `${entry.files} files · ${entry.chunks} chunks`;
+        lines.push(`  ${accent(entry.namespace)} ${muted("·")} ${muted(counts)}`);
+      }
+    }
     if (status.fallback) {
       lines.push(`${label("Fallback")} ${warn(status.fallback.from)}`);
     }
@@ -535,6 +552,146 @@ export async function runMemoryStatus(opts: MemoryCommandOptions) {
   }
 }
 
+type MemoryEvalCommandOptions = MemoryCommandOptions & {
+  file?: string;
+  k?: number;
+  backend?: string;
+  compare?: string;
+  offline?: boolean;
+};
+
+function formatEvalRank(rank: number | null): string {
+  return rank === null ? "miss" : `#${rank}`;
+}
+
+function formatSigned(value: number, digits: number, suffix = ""): string {
+  return `${value >= 0 ? "+" : ""}${value.toFixed(digits)}${suffix}`;
+}
+
+function formatEvalReportLine(report: MemoryEvalReport, rich: boolean): string {
+  const { summary } = report;
+  const provider = report.model ? `${report.provider}/${report.model}` : report.provider;
+  return [
+    colorize(rich, theme.accent, report.label),
+    colorize(rich, theme.muted, `${report.backend} · ${provider}`),
+    `recall@${report.k} ${summary.recallAtK.toFixed(3)}`,
+    `MRR ${summary.mrr.toFixed(3)}`,
+    `hits ${summary.hits}/${summary.queries}`,
+    `p50 ${summary.latencyMs.p50.toFixed(1)}ms`,
+    `p95 ${summary.latencyMs.p95.toFixed(1)}ms`,
+  ].join("  ");
+}
+
+async function runMemoryEvalCommand(opts: MemoryEvalCommandOptions) {
+  setVerbose(Boolean(opts.verbose));
+  const loaded = loadConfig();
+  const agentId = resolveAgent(loaded, opts.agent);
+  const backend = opts.backend?.trim();
+  if (backend && backend !== "builtin" && backend !== "qmd") {
+    defaultRuntime.error(`Unknown memory backend: ${backend} (expected builtin or qmd)`);
+    process.exitCode = 1;
+    return;
+  }
+  const cfg = backend
+    ? (applyMergePatch(loaded, { memory: { backend } }) as typeof loaded)
+    : loaded;
+  const suitePath = opts.file
+    ? resolveUserPath(opts.file)
+    : path.join(resolveAgentWorkspaceDir(cfg, agentId), DEFAULT_MEMORY_EVAL_FILE);
+
+  let suite: Awaited<ReturnType<typeof loadMemoryEvalSuite>>;
+  let variants: Array<{ label: string; cfg: typeof cfg }>;
+  try {
+    suite = await loadMemoryEvalSuite(suitePath);
+    variants = [{ label: backend ?? "current", cfg }];
+    if (opts.compare) {
+      const comparePath = resolveUserPath(opts.compare);
+      const patch = JSON.parse(await fs.readFile(comparePath, "utf-8")) as unknown;
+      variants.push({
+        label: path.basename(comparePath, path.extname(comparePath)),
+        cfg: applyMergePatch(cfg, patch, { mergeObjectArraysById: true }) as typeof cfg,
+      });
+    }
+  } catch (err) {
+    defaultRuntime.error(`Memory eval setup failed: ${formatErrorMessage(err)}`);
+    process.exitCode = 1;
+    return;
+  }
+  const k =
+    typeof opts.k === "number" && Number.isFinite(opts.k) && opts.k > 0
+      ? Math.floor(opts.k)
+      : (suite.k ?? DEFAULT_MEMORY_EVAL_K);
+
+  const reports: MemoryEvalReport[] = [];
+  for (const variant of variants) {
+    try {
+      reports.push(
+        await withProgress(
+          { label: `Evaluating ${variant.label}…`, indeterminate: true, enabled: !opts.json },
+          async () =>
+            await runMemoryEvalVariant({
+              cfg: variant.cfg,
+              agentId,
+              suite,
+              k,
+              label: variant.label,
+              offline: opts.offline,
+            }),
+        ),
+      );
+    } catch (err) {
+      defaultRuntime.error(`Memory eval failed for ${variant.label}: ${formatErrorMessage(err)}`);
+      process.exitCode = 1;
+      return;
+    }
+  }
+  const diff = reports.length === 2 ? diffMemoryEvalReports(reports[0], reports[1]) : undefined;
+
+  if (opts.json) {
+    defaultRuntime.log(
+      JSON.stringify({ suite: suitePath, k, reports, ...(diff ? { diff } : {}) }, null, 2),
+    );
+    return;
+  }
+  const rich = isRich();
+  const lines = [
+    `${theme.heading("Memory eval")} ${colorize(
+      rich,
+      theme.muted,
+      `${shortenHomePath(suitePath)} · ${suite.queries.length} queries · k=${k}`,
+    )}`,
+    ...reports.map((report) => formatEvalReportLine(report, rich)),
+  ];
+  if (diff) {
+    lines.push(
+      `${colorize(rich, theme.muted, "Δ")}  recall@${k} ${formatSigned(diff.recallAtK, 3)}  MRR ${formatSigned(
+        diff.mrr,
+        3,
+      )}  p50 ${formatSigned(diff.latencyP50Ms, 1, "ms")}`,
+    );
+    if (diff.changed.length > 0) {
+      lines.push("", theme.heading("Changed ranks"));
+      for (const change of diff.changed) {
+        const improved =
+          change.candidate !== null && (change.base === null || change.candidate < change.base);
+        lines.push(
+          `  ${colorize(rich, improved ? theme.success : theme.warn, `${formatEvalRank(change.base)} → ${formatEvalRank(change.candidate)}`)} ${change.id}: ${change.query}`,
+        );
+      }
+    }
+  } else {
+    const misses = reports[0].results.filter((result) => result.rank === null);
+    if (misses.length > 0) {
+      lines.push("", theme.heading("Misses"));
+      for (const miss of misses) {
+        const detail = miss.error ?? `expected ${miss.expected.join(", ")}`;
+        lines.push(`  ${miss.id}: ${miss.query} ${colorize(rich, theme.muted, `(${detail})`)}`);
+      }
+    }
+  }
+  defaultRuntime.log(lines.join("\n"));
+}
+
 export function registerMemoryCli(program: Command) {
   const memory = program
     .command("memory")
@@ -547,6 +704,11 @@ export function registerMemoryCli(program: Command) {
           ["openclaw memory index --force", "Force a full reindex."],
           ['openclaw memory search --query "deployment notes"', "Search indexed memory entries."],
           ["openclaw memory status --json", "Output machine-readable JSON."],
+          ["openclaw memory audit --limit 20", "Review recent memory_write/forget decisions."],
+          [
+            "openclaw memory eval --offline --compare hybrid-off.json",
+            "Score golden queries and diff against a config patch.",
+          ],
         ])}\n\n${theme.muted("Docs:")} ${formatDocsLink("/cli/memory", "docs.openclaw.ai/cli/memory")}\n`,
     );
 
@@ -759,4 +921,55 @@ export function registerMemoryCli(program: Command) {
         });
       },
     );
+  memory
+    .command("audit")
+    .description("Show the audit trail of structured memory writes")
+    .option("--agent <id>", "Agent id (default: default agent)")
+    .option("--id <memoryId>", "Only entries for one fact id")
+    .option("--limit <n>", "Show the most recent n entries", (value: string) => Number(value))
+    .option("--json", "Print JSON")
+    .action(async (opts: MemoryCommandOptions & { id?: string; limit?: number }) => {
+      const cfg = loadConfig();
+      const agentId = resolveAgent(cfg, opts.agent);
+      const entries = await readMemoryAudit(resolveAgentWorkspaceDir(cfg, agentId), {
+        id: opts.id?.trim() || undefined,
+        limit: opts.limit,
+      });
+      if (opts.json) {
+        defaultRuntime.log(JSON.stringify({ entries }, null, 2));
+        return;
+      }
+      if (entries.length === 0) {
+        defaultRuntime.log("No memory writes recorded.");
+        return;
+      }
+      const rich = isRich();
+      const lines: string[] = [];
+      for (const entry of entries) {
+        const who = entry.actor.sessionKey ?? entry.actor.agentId;
+        const supersedes = entry.supersedes ? ` (supersedes ${entry.supersedes})` : "";
+        lines.push(
+          `${colorize(rich, theme.muted, entry.ts)} ${colorize(rich, theme.accent, entry.action)} ${entry.id}${supersedes} · ${who}`,
+        );
+        lines.push(`  ${entry.topic ? `[${entry.topic}] ` : ""}${entry.text ?? ""}`);
+        if (entry.reason) {
+          lines.push(colorize(rich, theme.muted, `  why: ${entry.reason}`));
+        }
+      }
+      defaultRuntime.log(lines.join("\n"));
+    });
+  memory
+    .command("eval")
+    .description("Score memory search against golden queries (recall@k, MRR, latency)")
+    .option("--agent <id>", "Agent id (default: default agent)")
+    .option("--file <path>", `Golden query file (default: <workspace>/${DEFAULT_MEMORY_EVAL_FILE})`)
+    .option("--k <n>", "Results considered per query", (value: string) => Number(value))
+    .option("--backend <name>", "Memory backend to evaluate (builtin|qmd)")
+    .option("--compare <path>", "JSON config patch for a second run to diff against")
+    .option("--offline", "Use deterministic local embeddings (no provider calls)", false)
+    .option("--json", "Print JSON")
+    .option("--verbose", "Verbose logging", false)
+    .action(async (opts: MemoryEvalCommandOptions) => {
+      await runMemoryEvalCommand(opts);
+    });
 }
@@ -193,7 +193,7 @@ export function registerNodesInvokeCommands(nodes: Command) {
           }
 
           let approvedByAsk = false;
-          let approvalDecision: "allow-once" | "allow-always" | null = null;
+          let approvalDecision: "allow-once" | "allow-always" | "allow-similar" | null = null;
           const configuredSecurity = normalizeExecSecurity(execDefaults?.security) ?? "allowlist";
           const requestedSecurity = normalizeExecSecurity(opts.security);
           if (opts.security && !requestedSecurity) {
@@ -288,6 +288,10 @@ export function registerNodesInvokeCommands(nodes: Command) {
               approvedByAsk = true;
               approvalDecision = "allow-always";
             }
+            if (decision === "allow-similar") {
+              approvedByAsk = true;
+              approvalDecision = "allow-similar";
+            }
           }
 
           const invokeParams: Record<string, unknown> = {
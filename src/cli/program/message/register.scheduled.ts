@@ -0,0 +1,23 @@
+import type { Command } from "commander";
+import type { MessageCliHelpers } from "./helpers.js";
+
+export function registerMessageScheduledCommands(message: Command, helpers: MessageCliHelpers) {
+  helpers
+    .withMessageBase(
+      message.command("scheduled").description("List messages scheduled with --send-at/--delay"),
+    )
+    .action(async (opts) => {
+      await helpers.runMessageAction("list-scheduled", opts);
+    });
+
+  helpers
+    .withMessageBase(
+      message
+        .command("cancel-scheduled")
+        .description("Cancel a scheduled message before it is sent"),
+    )
+    .requiredOption("--scheduled-id <id>", "Scheduled message id")
+    .action(async (opts) => {
+      await helpers.runMessageAction("cancel-scheduled", opts);
+    });
+}
@@ -28,7 +28,12 @@ export function registerMessageSendCommand(message: Command, helpers: MessageCli
           "--silent",
           "Send message silently without notification (Telegram + Discord)",
           false,
-        ),
+        )
+        .option(
+          "--send-at <time>",
+          "Schedule instead of sending now (ISO 8601 with offset, or epoch ms)",
+        )
+        .option("--delay <duration>", "Schedule after a delay (e.g. 90m, 2h, 1d)"),
     )
     .action(async (opts) => {
       await helpers.runMessageAction("send", opts);
@@ -18,6 +18,7 @@ import { registerMessagePinCommands } from "./message/register.pins.js";
 import { registerMessagePollCommand } from "./message/register.poll.js";
 import { registerMessageReactionsCommands } from "./message/register.reactions.js";
 import { registerMessageReadEditDeleteCommands } from "./message/register.read-edit-delete.js";
+import { registerMessageScheduledCommands } from "./message/register.scheduled.js";
 import { registerMessageSendCommand } from "./message/register.send.js";
 import { registerMessageThreadCommands } from "./message/register.thread.js";
 
@@ -36,6 +37,10 @@ ${formatHelpExamples([
     'openclaw message send --target +15555550123 --message "Hi" --media photo.jpg',
     "Send a message with media.",
   ],
+  [
+    'openclaw message send --target +15555550123 --message "Standup in 5" --send-at 2026-03-02T08:55:00+01:00',
+    "Schedule a message (see `message scheduled`).",
+  ],
   [
     'openclaw message poll --channel discord --target channel:123 --poll-question "Snack?" --poll-option Pizza --poll-option Sushi',
     "Create a Discord poll.",
@@ -54,6 +59,7 @@ ${theme.muted("Docs:")} ${formatDocsLink("/cli/message", "docs.openclaw.ai/cli/m
 
   const helpers = createMessageCliHelpers(message, ctx.messageChannelOptions);
   registerMessageSendCommand(message, helpers);
+  registerMessageScheduledCommands(message, helpers);
   registerMessageBroadcastCommand(message, helpers);
   registerMessagePollCommand(message, helpers);
   registerMessageReactionsCommands(message, helpers);
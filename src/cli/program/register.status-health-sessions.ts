@@ -1,5 +1,6 @@
 import type { Command } from "commander";
 import { healthCommand } from "../../commands/health.js";
+import { sessionsMigrateCommand } from "../../commands/sessions-migrate.js";
 import { sessionsCommand } from "../../commands/sessions.js";
 import { statusCommand } from "../../commands/status.js";
 import { setVerbose } from "../../globals.js";
@@ -108,7 +109,7 @@ export function registerStatusHealthSessionsCommands(program: Command) {
       });
     });
 
-  program
+  const sessions = program
     .command("sessions")
     .description("List stored conversation sessions")
     .option("--json", "Output as JSON", false)
@@ -143,4 +144,39 @@ export function registerStatusHealthSessionsCommands(program: Command) {
         defaultRuntime,
       );
     });
+
+  sessions
+    .command("migrate")
+    .description("Copy session stores to another backend (sqlite or json)")
+    .option("--to <backend>", "Target backend: sqlite | json", "sqlite")
+    .option("--force", "Overwrite an existing target store", false)
+    .addHelpText(
+      "after",
+      () =>
+        `\n${theme.heading("Examples:")}\n${formatHelpExamples([
+          ["openclaw sessions migrate", "Copy every agent's sessions.json into sessions.sqlite."],
+          ["openclaw sessions migrate --to json", "Go back to sessions.json."],
+          [
+            "openclaw sessions migrate --store ./tmp/sessions.json",
+            "Migrate a specific session store.",
+          ],
+        ])}\n\n${theme.muted(
+          "The source store is left untouched; point session.store at the new file to switch.",
+        )}`,
+    )
+    .action(async (_opts, command: Command) => {
+      // `--store` and `--json` are parsed by the parent `sessions` command.
+      const opts = command.optsWithGlobals();
+      await runCommandWithRuntime(defaultRuntime, async () => {
+        await sessionsMigrateCommand(
+          {
+            to: opts.to as string | undefined,
+            force: Boolean(opts.force),
+            store: opts.store as string | undefined,
+            json: Boolean(opts.json),
+          },
+          defaultRuntime,
+        );
+      });
+    });
 }
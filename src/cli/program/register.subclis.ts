@@ -153,6 +153,24 @@ const entries: SubCliEntry[] = [
       mod.registerCronCli(program);
     },
   },
+  {
+    name: "deliveries",
+    description: "Inspect, retry or discard queued outbound deliveries",
+    hasSubcommands: true,
+    register: async (program) => {
+      const mod = await import("../deliveries-cli.js");
+      mod.registerDeliveriesCli(program);
+    },
+  },
+  {
+    name: "candidates",
+    description: "List, move and annotate candidates in the recruiting pipeline",
+    hasSubcommands: true,
+    register: async (program) => {
+      const mod = await import("../candidates-cli.js");
+      mod.registerCandidatesCli(program);
+    },
+  },
   {
     name: "dns",
     description: "DNS helpers for wide-area discovery (Tailscale + CoreDNS)",
@@ -250,6 +268,15 @@ const entries: SubCliEntry[] = [
       mod.registerDirectoryCli(program);
     },
   },
+  {
+    name: "route",
+    description: "Inspect how inbound messages are routed to agents",
+    hasSubcommands: true,
+    register: async (program) => {
+      const mod = await import("../route-cli.js");
+      mod.registerRouteCli(program);
+    },
+  },
   {
     name: "security",
     description: "Security tools and local config audits",
@@ -20,6 +20,10 @@ describe("program routes", () => {
     await expect(route?.run(["node", "openclaw", "sessions", "--store"])).resolves.toBe(false);
   });
 
+  it("leaves sessions subcommands to commander", () => {
+    expect(findRoutedCommand(["sessions", "migrate"])).toBeNull();
+  });
+
   it("does not match unknown routes", () => {
     expect(findRoutedCommand(["definitely-not-real"])).toBeNull();
   });
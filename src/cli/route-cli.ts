@@ -0,0 +1,166 @@
+import type { Command } from "commander";
+import { normalizeChatType } from "../channels/chat-type.js";
+import { loadConfig } from "../config/config.js";
+import { explainAgentRoute, type RoutePeer } from "../routing/resolve-route.js";
+import { defaultRuntime } from "../runtime.js";
+import { formatDocsLink } from "../terminal/links.js";
+import { renderTable } from "../terminal/table.js";
+import { theme } from "../terminal/theme.js";
+import { formatHelpExamples } from "./help-format.js";
+
+type RouteExplainOptions = {
+  channel: string;
+  account?: string;
+  peer?: string;
+  parentPeer?: string;
+  guild?: string;
+  team?: string;
+  roles?: string;
+  text?: string;
+  attachment?: string[];
+  language?: string;
+  at?: string;
+  json?: boolean;
+};
+
+function parsePeer(raw: string | undefined, flag: string): RoutePeer | null {
+  if (!raw?.trim()) {
+    return null;
+  }
+  const separator = raw.indexOf(":");
+  const kind = normalizeChatType(separator > 0 ? raw.slice(0, separator) : undefined);
+  const id = separator > 0 ? raw.slice(separator + 1).trim() : "";
+  if (!kind || !id) {
+    throw new Error(`${flag} must look like direct:<id>, group:<id> or channel:<id>`);
+  }
+  return { kind, id };
+}
+
+function parseAt(raw: string | undefined): number | undefined {
+  if (!raw?.trim()) {
+    return undefined;
+  }
+  const parsed = Date.parse(raw);
+  if (!Number.isFinite(parsed)) {
+    throw new Error(`--at must be an ISO date/time (got ${raw})`);
+  }
+  return parsed;
+}
+
+function runRouteExplain(opts: RouteExplainOptions) {
+  let peer: RoutePeer | null;
+  let parentPeer: RoutePeer | null;
+  let timestamp: number | undefined;
+  try {
+    peer = parsePeer(opts.peer, "--peer");
+    parentPeer = parsePeer(opts.parentPeer, "--parent-peer");
+    timestamp = parseAt(opts.at);
+  } catch (err) {
+    defaultRuntime.error(String(err instanceof Error ? err.message : err));
+    defaultRuntime.exit(1);
+    return;
+  }
+  const explanation = explainAgentRoute({
+    cfg: loadConfig(),
+    channel: opts.channel,
+    accountId: opts.account,
+    peer,
+    parentPeer,
+    guildId: opts.guild,
+    teamId: opts.team,
+    memberRoleIds: opts.roles
+      ?.split(",")
+      .map((role) => role.trim())
+      .filter(Boolean),
+    message: {
+      text: opts.text ?? "",
+      attachments: opts.attachment ?? [],
+      senderLanguage: opts.language,
+      timestamp,
+    },
+  });
+  if (opts.json) {
+    defaultRuntime.log(JSON.stringify(explanation, null, 2));
+    return;
+  }
+  const { route, bindings } = explanation;
+  defaultRuntime.log(
+    `${theme.heading("Route")} ${theme.accent(route.agentId)} ${theme.muted(
+      `(${route.matchedBy}) · session ${route.sessionKey}`,
+    )}`,
+  );
+  if (bindings.length === 0) {
+    defaultRuntime.log(
+      theme.muted("No bindings configured; the default agent handles everything."),
+    );
+    return;
+  }
+  const statusColor = { won: theme.success, matched: theme.warn, skipped: theme.muted };
+  const tableWidth = Math.max(80, (process.stdout.columns ?? 120) - 1);
+  defaultRuntime.log(
+    renderTable({
+      width: tableWidth,
+      columns: [
+        { key: "Binding", header: "#", minWidth: 3 },
+        { key: "Status", header: "Status", minWidth: 8 },
+        { key: "Agent", header: "Agent", minWidth: 8 },
+        { key: "Tier", header: "Tier", minWidth: 14 },
+        { key: "Conditions", header: "Conditions", minWidth: 16, flex: true },
+        { key: "Why", header: "Why", minWidth: 20, flex: true },
+      ],
+      rows: bindings.map((entry) => ({
+        Binding: String(entry.index),
+        Status: statusColor[entry.status](entry.status),
+        Agent: entry.agentId,
+        Tier: entry.matchedBy ?? "",
+        Conditions: [entry.priority !== 0 ? `priority ${entry.priority}` : "", ...entry.conditions]
+          .filter(Boolean)
+          .join("; "),
+        Why: entry.reason,
+      })),
+    }).trimEnd(),
+  );
+}
+
+export function registerRouteCli(program: Command) {
+  const route = program
+    .command("route")
+    .description("Inspect how inbound messages are routed to agents")
+    .addHelpText(
+      "after",
+      () =>
+        `\n${theme.heading("Examples:")}\n${formatHelpExamples([
+          [
+            "openclaw route explain --channel telegram --peer direct:123456",
+            "Show which binding handles a Telegram DM.",
+          ],
+          [
+            'openclaw route explain --channel slack --team T01 --text "invoice overdue" --at 2026-03-14T19:30:00Z',
+            "Try keyword and business-hours rules with a sample message.",
+          ],
+        ])}\n\n${theme.muted("Docs:")} ${formatDocsLink("/cli/route", "docs.openclaw.ai/cli/route")}\n`,
+    );
+
+  route
+    .command("explain")
+    .description("Show which binding wins for a sample message and why")
+    .requiredOption("--channel <id>", "Channel id (telegram, discord, slack, whatsapp, …)")
+    .option("--account <id>", "Channel account id (default: default)")
+    .option("--peer <kind:id>", "Conversation peer (direct:<id>, group:<id>, channel:<id>)")
+    .option("--parent-peer <kind:id>", "Parent conversation for threads")
+    .option("--guild <id>", "Discord guild id")
+    .option("--team <id>", "Slack/Teams team id")
+    .option("--roles <ids>", "Comma-separated member role ids")
+    .option("--text <text>", "Message text")
+    .option(
+      "--attachment <type>",
+      "Attachment MIME type or kind (repeatable)",
+      (value: string, previous: string[] = []) => [...previous, value],
+    )
+    .option("--language <code>", "Sender language (e.g. de, pt-BR)")
+    .option("--at <time>", "Message time (ISO 8601; default: now)")
+    .option("--json", "Print JSON")
+    .action((opts: RouteExplainOptions) => {
+      runRouteExplain(opts);
+    });
+}
@@ -1,8 +1,14 @@
 import type { Command } from "commander";
 import { loadConfig } from "../config/config.js";
 import { defaultRuntime } from "../runtime.js";
+import { loadSecurityAuditMonitorState } from "../security/audit-monitor.js";
+import { applySecurityAuditSuppressions } from "../security/audit-suppressions.js";
 import { runSecurityAudit } from "../security/audit.js";
 import { fixSecurityFootguns } from "../security/fix.js";
+import {
+  listQuarantinedContent,
+  loadQuarantinedContent,
+} from "../security/injection-quarantine.js";
 import { formatDocsLink } from "../terminal/links.js";
 import { isRich, theme } from "../terminal/theme.js";
 import { shortenHomeInString, shortenHomePath } from "../utils.js";
@@ -15,6 +21,16 @@ type SecurityAuditOptions = {
   fix?: boolean;
 };
 
+type SecurityHistoryOptions = {
+  json?: boolean;
+  limit?: string;
+};
+
+type SecurityQuarantineOptions = {
+  json?: boolean;
+  limit?: string;
+};
+
 function formatSummary(summary: { critical: number; warn: number; info: number }): string {
   const rich = isRich();
   const c = summary.critical;
@@ -39,6 +55,8 @@ export function registerSecurityCli(program: Command) {
           ["openclaw security audit --deep", "Include best-effort live Gateway probe checks."],
           ["openclaw security audit --fix", "Apply safe remediations and file-permission fixes."],
           ["openclaw security audit --json", "Output machine-readable JSON."],
+          ["openclaw security history", "Show findings drift recorded by the gateway monitor."],
+          ["openclaw security quarantine", "List content withheld as likely prompt injection."],
         ])}\n\n${theme.muted("Docs:")} ${formatDocsLink("/cli/security", "docs.openclaw.ai/cli/security")}\n`,
     );
 
@@ -52,12 +70,22 @@ export function registerSecurityCli(program: Command) {
       const fixResult = opts.fix ? await fixSecurityFootguns().catch((_err) => null) : null;
 
       const cfg = loadConfig();
-      const report = await runSecurityAudit({
+      const rawReport = await runSecurityAudit({
         config: cfg,
         deep: Boolean(opts.deep),
         includeFilesystem: true,
         includeChannelSecurity: true,
       });
+      const { findings, summary, suppressed, expired } = applySecurityAuditSuppressions(
+        rawReport.findings,
+        cfg.security?.suppressions,
+      );
+      const report = {
+        ...rawReport,
+        summary,
+        findings,
+        suppressed: suppressed.map(({ finding, suppression }) => ({ ...finding, suppression })),
+      };
 
       if (opts.json) {
         defaultRuntime.log(
@@ -159,6 +187,124 @@ export function registerSecurityCli(program: Command) {
       render("warn");
       render("info");
 
+      if (suppressed.length > 0) {
+        lines.push("");
+        lines.push(heading(`SUPPRESSED (${suppressed.length})`));
+        for (const { finding, suppression } of suppressed) {
+          const until = suppression.until ? ` until ${suppression.until}` : "";
+          lines.push(muted(`${finding.checkId} ${finding.title} — ${suppression.reason}${until}`));
+        }
+      }
+      for (const suppression of expired) {
+        lines.push(
+          muted(`Expired suppression: ${suppression.checkId} (until ${suppression.until})`),
+        );
+      }
+
+      defaultRuntime.log(lines.join("\n"));
+    });
+
+  security
+    .command("history")
+    .description("Show security audit drift recorded by the gateway monitor")
+    .option("--limit <n>", "Number of changes to show", "20")
+    .option("--json", "Print JSON", false)
+    .action(async (opts: SecurityHistoryOptions) => {
+      const state = await loadSecurityAuditMonitorState();
+      const limit = Math.max(1, Number.parseInt(opts.limit ?? "20", 10) || 20);
+      const history = state.history.slice(-limit);
+      if (opts.json) {
+        defaultRuntime.log(JSON.stringify({ lastRun: state.lastRun ?? null, history }, null, 2));
+        return;
+      }
+
+      const rich = isRich();
+      const heading = (text: string) => (rich ? theme.heading(text) : text);
+      const muted = (text: string) => (rich ? theme.muted(text) : text);
+      const lines: string[] = [heading("OpenClaw security monitor")];
+      if (!state.lastRun) {
+        lines.push(muted("No audit runs recorded yet (the gateway runs one shortly after start)."));
+        defaultRuntime.log(lines.join("\n"));
+        return;
+      }
+      lines.push(
+        muted(
+          `Last run: ${new Date(state.lastRun.ts).toISOString()} (${state.lastRun.reason}) · ${formatSummary(state.lastRun.summary)}`,
+        ),
+      );
+      if (state.lastRun.suppressed.length > 0) {
+        lines.push(muted(`Suppressed: ${state.lastRun.suppressed.length}`));
+      }
+      if (history.length === 0) {
+        lines.push(muted("No changes recorded."));
+      }
+      for (const entry of history.toReversed()) {
+        lines.push("");
+        lines.push(`${new Date(entry.ts).toISOString()} ${muted(`(${entry.reason})`)}`);
+        for (const checkId of entry.added) {
+          lines.push(`  ${rich ? theme.error("+") : "+"} ${checkId}`);
+        }
+        for (const checkId of entry.resolved) {
+          lines.push(`  ${rich ? theme.success("-") : "-"} ${checkId}`);
+        }
+      }
+      defaultRuntime.log(lines.join("\n"));
+    });
+
+  security
+    .command("quarantine")
+    .description("List or show external content withheld as a likely prompt injection")
+    .argument("[id]", "Quarantine id to show in full")
+    .option("--limit <n>", "Number of entries to list", "20")
+    .option("--json", "Print JSON", false)
+    .action(async (id: string | undefined, opts: SecurityQuarantineOptions) => {
+      const rich = isRich();
+      const heading = (text: string) => (rich ? theme.heading(text) : text);
+      const muted = (text: string) => (rich ? theme.muted(text) : text);
+
+      if (id) {
+        const entry = await loadQuarantinedContent(id);
+        if (!entry) {
+          defaultRuntime.error(`No quarantined content with id "${id}".`);
+          defaultRuntime.exit(1);
+          return;
+        }
+        if (opts.json) {
+          defaultRuntime.log(JSON.stringify(entry, null, 2));
+          return;
+        }
+        const lines = [
+          heading(`Quarantined ${entry.id}`),
+          muted(
+            `${new Date(entry.ts).toISOString()} · ${entry.source} · score ${entry.score}` +
+              (entry.sessionKey ? ` · ${entry.sessionKey}` : ""),
+          ),
+          muted(`Rules: ${entry.ruleIds.join(", ")}`),
+        ];
+        for (const match of entry.matches) {
+          lines.push(`  ${rich ? theme.warn(match.ruleId) : match.ruleId}: ${match.excerpt}`);
+        }
+        lines.push("", entry.content);
+        defaultRuntime.log(lines.join("\n"));
+        return;
+      }
+
+      const limit = Math.max(1, Number.parseInt(opts.limit ?? "20", 10) || 20);
+      const entries = await listQuarantinedContent({ limit });
+      if (opts.json) {
+        defaultRuntime.log(JSON.stringify({ entries }, null, 2));
+        return;
+      }
+      const lines: string[] = [heading("Quarantined content")];
+      if (entries.length === 0) {
+        lines.push(muted("Nothing quarantined."));
+      }
+      for (const entry of entries) {
+        lines.push(
+          `${entry.id} ${muted(new Date(entry.ts).toISOString())} ${entry.source} ` +
+            muted(`score ${entry.score} · ${entry.ruleIds.join(", ")} · ${entry.size} chars`),
+        );
+      }
       defaultRuntime.log(lines.join("\n"));
     });
 }
@@ -36,6 +36,16 @@ function extractMessageId(payload: unknown): string | null {
   return null;
 }
 
+type ScheduledSummary = {
+  id: string;
+  sendAt: string;
+  channel: ChannelId;
+  to: string;
+  text?: string;
+  mediaCount?: number;
+  quietHours?: boolean;
+};
+
 export type MessageCliJsonEnvelope = {
   action: ChannelMessageActionName;
   channel: ChannelId;
@@ -302,6 +312,17 @@ export function formatMessageCliText(result: MessageActionRunResult): string[] {
   if (result.kind === "send") {
     if (result.handledBy === "core" && result.sendResult) {
       const send = result.sendResult;
+      if (send.via === "scheduled" && send.scheduled) {
+        const lines = [
+          ok(
+            `✅ Scheduled via ${resolveChannelLabel(result.channel)} for ${send.scheduled.sendAt}. ID: ${send.scheduled.id}`,
+          ),
+        ];
+        if (send.scheduled.quietHours) {
+          lines.push(muted("The recipient is in quiet hours then; it will be sent when they end."));
+        }
+        return lines;
+      }
       if (send.via === "direct") {
         const directResult = send.result as OutboundDeliveryResult | undefined;
         return [ok(formatOutboundDeliverySummary(send.channel, directResult))];
@@ -399,6 +420,43 @@ export function formatMessageCliText(result: MessageActionRunResult): string[] {
     }
   }
 
+  if (result.action === "list-scheduled") {
+    const entries = (payload as { scheduled?: ScheduledSummary[] }).scheduled ?? [];
+    if (entries.length === 0) {
+      return [muted("No scheduled messages.")];
+    }
+    lines.push(heading(`Scheduled messages (${entries.length})`));
+    lines.push(
+      renderTable({
+        width: opts.width,
+        columns: [
+          { key: "Id", header: "Id", minWidth: 36 },
+          { key: "SendAt", header: "Send at", minWidth: 20 },
+          { key: "Target", header: "Target", minWidth: 12, flex: true },
+          { key: "Text", header: "Text", minWidth: 20, flex: true },
+        ],
+        rows: entries.map((entry) => ({
+          Id: entry.id,
+          SendAt: `${entry.sendAt}${entry.quietHours ? " (quiet hours)" : ""}`,
+          Target: shortenText(
+            formatTargetDisplay({ channel: entry.channel, target: entry.to }),
+            36,
+          ),
+          Text: shortenText(
+            entry.text ?? (entry.mediaCount ? `${entry.mediaCount} attachment(s)` : ""),
+            64,
+          ),
+        })),
+      }).trimEnd(),
+    );
+    return lines;
+  }
+
+  if (result.action === "cancel-scheduled") {
+    const cancelled = (payload as { cancelled?: ScheduledSummary }).cancelled;
+    return [ok(`✅ Cancelled scheduled message${cancelled ? ` ${cancelled.id}` : ""}.`)];
+  }
+
   if (result.action === "search") {
     const results = (payload as { results?: unknown }).results;
     const list = extractDiscordSearchResultsMessages(results);
@@ -0,0 +1,109 @@
+import fs from "node:fs";
+import path from "node:path";
+import { listAgentIds } from "../agents/agent-scope.js";
+import { loadConfig } from "../config/config.js";
+import { resolveStateDir } from "../config/paths.js";
+import {
+  copySessionStore,
+  resolveSessionStoreBackendId,
+  resolveSessionStorePathForBackend,
+  resolveStorePath,
+  type SessionStoreBackendId,
+} from "../config/sessions.js";
+import { info } from "../globals.js";
+import type { RuntimeEnv } from "../runtime.js";
+import { shortenHomePath } from "../utils.js";
+
+export type SessionsMigrateOptions = {
+  to?: string;
+  store?: string;
+  force?: boolean;
+  json?: boolean;
+};
+
+type MigrationResult = {
+  from: string;
+  to: string;
+  status: "migrated" | "skipped";
+  entries?: number;
+  reason?: string;
+};
+
+function parseBackendId(raw: string | undefined): SessionStoreBackendId | null {
+  const value = (raw ?? "sqlite").trim().toLowerCase();
+  return value === "sqlite" || value === "json" ? value : null;
+}
+
+export async function sessionsMigrateCommand(opts: SessionsMigrateOptions, runtime: RuntimeEnv) {
+  const target = parseBackendId(opts.to);
+  if (!target) {
+    runtime.error('--to must be "sqlite" or "json"');
+    runtime.exit(1);
+    return;
+  }
+  const cfg = loadConfig();
+  const sources = opts.store
+    ? [resolveStorePath(opts.store)]
+    : [
+        ...new Set(
+          listAgentIds(cfg).map((agentId) => resolveStorePath(cfg.session?.store, { agentId })),
+        ),
+      ];
+
+  const results: MigrationResult[] = [];
+  let failed = false;
+  for (const from of sources) {
+    const to = resolveSessionStorePathForBackend(from, target);
+    if (resolveSessionStoreBackendId(from) === target) {
+      results.push({ from, to: from, status: "skipped", reason: `already ${target}` });
+      continue;
+    }
+    if (!fs.existsSync(from)) {
+      results.push({ from, to, status: "skipped", reason: "no session store" });
+      continue;
+    }
+    if (fs.existsSync(to) && !opts.force) {
+      results.push({ from, to, status: "skipped", reason: "target exists (use --force)" });
+      failed = true;
+      continue;
+    }
+    const entries = await copySessionStore({ fromPath: from, toPath: to });
+    results.push({ from, to, status: "migrated", entries });
+  }
+
+  const configured =
+    cfg.session?.store ??
+    path.join(resolveStateDir(), "agents", "{agentId}", "sessions", "sessions.json");
+  const nextStoreSetting = resolveSessionStorePathForBackend(configured, target);
+
+  if (opts.json) {
+    runtime.log(
+      JSON.stringify(
+        { backend: target, results, sessionStore: opts.store ? undefined : nextStoreSetting },
+        null,
+        2,
+      ),
+    );
+  } else {
+    for (const result of results) {
+      const from = shortenHomePath(result.from);
+      if (result.status === "migrated") {
+        runtime.log(
+          `Migrated ${result.entries ?? 0} session(s): ${from} → ${shortenHomePath(result.to)}`,
+        );
+      } else {
+        runtime.log(`Skipped ${from}: ${result.reason}`);
+      }
+    }
+    if (!opts.store && results.some((result) => result.status === "migrated")) {
+      runtime.log(
+        info(
+          `Set session.store to "${shortenHomePath(nextStoreSetting)}" and restart the gateway to use the ${target} store. The old file is left in place.`,
+        ),
+      );
+    }
+  }
+  if (failed) {
+    runtime.exit(1);
+  }
+}
@@ -15,6 +15,7 @@ import {
   type Tone,
 } from "../memory/status-format.js";
 import type { RuntimeEnv } from "../runtime.js";
+import { applySecurityAuditSuppressions } from "../security/audit-suppressions.js";
 import { runSecurityAudit } from "../security/audit.js";
 import { renderTable } from "../terminal/table.js";
 import { theme } from "../terminal/theme.js";
@@ -84,13 +85,19 @@ export async function statusCommand(
       indeterminate: true,
       enabled: opts.json !== true,
     },
-    async () =>
-      await runSecurityAudit({
+    async () => {
+      const report = await runSecurityAudit({
         config: cfg,
         deep: false,
         includeFilesystem: true,
         includeChannelSecurity: true,
-      }),
+      });
+      const { findings, summary } = applySecurityAuditSuppressions(
+        report.findings,
+        cfg.security?.suppressions,
+      );
+      return { ...report, findings, summary };
+    },
   );
 
   const usage = opts.usage
@@ -38,6 +38,12 @@ export const FIELD_HELP: Record<string, string> = {
     "DANGEROUS. Disable Control UI device identity checks (token/password only).",
   "gateway.http.endpoints.chatCompletions.enabled":
     "Enable the OpenAI-compatible `POST /v1/chat/completions` endpoint (default: false).",
+  "gateway.http.endpoints.models.enabled":
+    "Enable the OpenAI-compatible `GET /v1/models` endpoint listing agents and catalog models (default: on when chat completions or responses is enabled).",
+  "gateway.http.endpoints.embeddings.enabled":
+    "Enable the OpenAI-compatible `POST /v1/embeddings` endpoint, backed by the memory search embedding provider (default: false).",
+  "gateway.http.endpoints.embeddings.maxInputs":
+    "Max inputs per `/v1/embeddings` request (default: 256).",
   "gateway.reload.mode": 'Hot reload strategy for config changes ("hybrid" recommended).',
   "gateway.reload.debounceMs": "Debounce window (ms) before applying config changes.",
   "gateway.nodes.browser.mode":
@@ -180,6 +186,12 @@ export const FIELD_HELP: Record<string, string> = {
     'Sources to index for memory search (default: ["memory"]; add "sessions" to include session transcripts).',
   "agents.defaults.memorySearch.extraPaths":
     "Extra paths to include in memory search (directories or .md files; relative paths resolved from workspace).",
+  "agents.defaults.memorySearch.documents.enabled":
+    "Extract and index PDF, DOCX, HTML, and CSV files found in memory paths (default: true).",
+  "agents.defaults.memorySearch.documents.formats":
+    'Document formats to extract (default: all; e.g. ["pdf", "docx"]).',
+  "agents.defaults.memorySearch.documents.maxBytes":
+    "Per-format size limits in bytes; larger files are skipped (defaults: pdf 20MB, docx 10MB, html 5MB, csv 5MB).",
   "agents.defaults.memorySearch.experimental.sessionMemory":
     "Enable experimental session transcript indexing for memory search (default: false).",
   "agents.defaults.memorySearch.provider":
@@ -368,11 +380,43 @@ export const FIELD_HELP: Record<string, string> = {
     "Live stream preview mode for Slack replies (replace | status_final | append).",
   "session.agentToAgent.maxPingPongTurns":
     "Max reply-back turns between requester and target (0–5).",
+  "session.handoff.operator":
+    "Operator chat (channel + to) that receives handed-off conversations; replies there are relayed back to the user.",
+  "session.handoff.keywords":
+    'Inbound phrases that pause the agent and hand the conversation to the operator (e.g. "talk to a human").',
+  "session.handoff.notice": "Message sent to the user when a handoff starts.",
+  "security.monitor.enabled":
+    "Run the security audit from the gateway on a schedule and after config reloads (default: true).",
+  "security.monitor.intervalMinutes": "Minutes between scheduled audit runs (default: 360).",
+  "security.monitor.alertSeverity":
+    'Lowest severity that alerts when a new finding appears ("critical" or "warn"; default: critical).',
+  "security.monitor.target":
+    "Chat (channel + to) that receives drift alerts; omit to only log and persist audit results.",
+  "security.injection.enabled":
+    "Scan web pages, inbound emails, external channel messages and tool results for prompt-injection patterns (default: true).",
+  "security.injection.mode":
+    'What to do with high-risk content: "detect" only records it, "strip" removes the risky spans (default), "quarantine" withholds the content and keeps a copy for review.',
+  "security.injection.channels":
+    'Inbound channels whose messages are treated as external content (default: ["linkedin"]).',
+  "security.injection.tools":
+    'Tools whose results are scanned; "*" wildcards allowed (default: web_fetch, web_search, browser, linkedin_*).',
+  "security.injection.requireApproval":
+    "After a detection, require approval for dangerous tools (exec, apply_patch, sessions_spawn, ...) for the rest of the turn (default: true).",
+  "security.suppressions":
+    'Accepted findings: { checkId, reason, until?, match? }. checkId supports * wildcards; suppressed findings come back after "until".',
   "channels.telegram.customCommands":
     "Additional Telegram bot menu commands (merged with native; conflicts ignored).",
   "messages.suppressToolErrors":
     "When true, suppress ⚠️ tool-error warnings from being shown to the user. The agent already sees errors in context and can retry. Default: false.",
   "messages.ackReaction": "Emoji reaction used to acknowledge inbound messages (empty disables).",
+  "messages.deliveryQueue.failedAlertThreshold":
+    "Alert when this many outbound deliveries sit in the failed (dead-letter) queue (default: 10; 0 disables).",
+  "messages.deliveryQueue.alertTarget":
+    "Where to send failed-queue alerts: { channel, to, accountId?, threadId? }. Omit to only log.",
+  "messages.scheduled.quietHours":
+    'Hold due scheduled messages inside this local-time window for every recipient, e.g. { start: "22:00", end: "08:00" }.',
+  "messages.scheduled.recipients":
+    'Per-recipient quiet hours keyed by "<channel>:<target>"; set quietHours to false to always deliver on time.',
   "messages.ackReactionScope":
     'When to send ack reactions ("group-mentions", "group-all", "direct", "all").',
   "messages.inbound.debounceMs":
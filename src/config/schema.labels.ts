@@ -118,6 +118,9 @@ export const FIELD_LABELS: Record<string, string> = {
   "gateway.controlUi.allowInsecureAuth": "Allow Insecure Control UI Auth",
   "gateway.controlUi.dangerouslyDisableDeviceAuth": "Dangerously Disable Control UI Device Auth",
   "gateway.http.endpoints.chatCompletions.enabled": "OpenAI Chat Completions Endpoint",
+  "gateway.http.endpoints.models.enabled": "OpenAI Models Endpoint",
+  "gateway.http.endpoints.embeddings.enabled": "OpenAI Embeddings Endpoint",
+  "gateway.http.endpoints.embeddings.maxInputs": "Embeddings Max Inputs",
   "gateway.reload.mode": "Config Reload Mode",
   "gateway.reload.debounceMs": "Config Reload Debounce (ms)",
   "gateway.nodes.browser.mode": "Gateway Node Browser Mode",
@@ -139,6 +142,9 @@ export const FIELD_LABELS: Record<string, string> = {
   "agents.defaults.memorySearch.enabled": "Enable Memory Search",
   "agents.defaults.memorySearch.sources": "Memory Search Sources",
   "agents.defaults.memorySearch.extraPaths": "Extra Memory Paths",
+  "agents.defaults.memorySearch.documents.enabled": "Index Memory Documents",
+  "agents.defaults.memorySearch.documents.formats": "Memory Document Formats",
+  "agents.defaults.memorySearch.documents.maxBytes": "Memory Document Size Limits",
   "agents.defaults.memorySearch.experimental.sessionMemory":
     "Memory Search Session Index (Experimental)",
   "agents.defaults.memorySearch.provider": "Memory Search Provider",
@@ -239,8 +245,25 @@ export const FIELD_LABELS: Record<string, string> = {
   "browser.remoteCdpHandshakeTimeoutMs": "Remote CDP Handshake Timeout (ms)",
   "session.dmScope": "DM Session Scope",
   "session.agentToAgent.maxPingPongTurns": "Agent-to-Agent Ping-Pong Turns",
+  "session.handoff.operator": "Handoff Operator Chat",
+  "session.handoff.keywords": "Handoff Keywords",
+  "session.handoff.notice": "Handoff Notice",
+  "security.monitor.enabled": "Security Monitor Enabled",
+  "security.monitor.intervalMinutes": "Security Audit Interval (min)",
+  "security.monitor.alertSeverity": "Security Alert Severity",
+  "security.monitor.target": "Security Alert Target",
+  "security.injection.enabled": "Prompt Injection Detection",
+  "security.injection.mode": "Prompt Injection Mode",
+  "security.injection.channels": "Prompt Injection Channels",
+  "security.injection.tools": "Prompt Injection Scanned Tools",
+  "security.injection.requireApproval": "Prompt Injection Tool Approval",
+  "security.suppressions": "Security Audit Suppressions",
   "messages.suppressToolErrors": "Suppress Tool Error Warnings",
   "messages.ackReaction": "Ack Reaction Emoji",
+  "messages.deliveryQueue.failedAlertThreshold": "Failed Delivery Alert Threshold",
+  "messages.deliveryQueue.alertTarget": "Failed Delivery Alert Target",
+  "messages.scheduled.quietHours": "Scheduled Message Quiet Hours",
+  "messages.scheduled.recipients": "Scheduled Message Recipient Quiet Hours",
   "messages.ackReactionScope": "Ack Reaction Scope",
   "messages.inbound.debounceMs": "Inbound Message Debounce (ms)",
   "talk.apiKey": "Talk API Key",
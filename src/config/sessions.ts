@@ -1,3 +1,4 @@
+export * from "./sessions/fork.js";
 export * from "./sessions/group.js";
 export * from "./sessions/metadata.js";
 export * from "./sessions/main-session.js";
@@ -5,6 +6,7 @@ export * from "./sessions/paths.js";
 export * from "./sessions/reset.js";
 export * from "./sessions/session-key.js";
 export * from "./sessions/store.js";
+export * from "./sessions/store-backend.js";
 export * from "./sessions/types.js";
 export * from "./sessions/transcript.js";
 export * from "./sessions/delivery-info.js";
@@ -0,0 +1,131 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { CURRENT_SESSION_VERSION } from "@mariozechner/pi-coding-agent";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { forkSessionEntry } from "./fork.js";
+import { clearSessionStoreCacheForTest, loadSessionStore } from "./store.js";
+import type { SessionEntry } from "./types.js";
+
+const PARENT_KEY = "agent:main:telegram:direct:42";
+
+function writeTranscript(file: string, sessionId: string, texts: string[]) {
+  const lines = [
+    JSON.stringify({
+      type: "session",
+      version: CURRENT_SESSION_VERSION,
+      id: sessionId,
+      timestamp: "2026-10-19T10:00:00.000Z",
+      cwd: path.dirname(file),
+    }),
+  ];
+  texts.forEach((text, index) => {
+    lines.push(
+      JSON.stringify({
+        type: "message",
+        id: `m${index + 1}`,
+        parentId: index === 0 ? null : `m${index}`,
+        timestamp: "2026-10-19T10:00:00.000Z",
+        message: { role: index % 2 === 0 ? "user" : "assistant", content: text, timestamp: 0 },
+      }),
+    );
+  });
+  fs.writeFileSync(file, `${lines.join("\n")}\n`, "utf-8");
+}
+
+function readMessageTexts(file: string): string[] {
+  return fs
+    .readFileSync(file, "utf-8")
+    .split("\n")
+    .filter(Boolean)
+    .map((line) => JSON.parse(line) as { type: string; message?: { content: string } })
+    .filter((entry) => entry.type === "message")
+    .map((entry) => entry.message?.content ?? "");
+}
+
+describe("forkSessionEntry", () => {
+  let dir: string;
+  let storePath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "openclaw-fork-"));
+    storePath = path.join(dir, "sessions.json");
+    const sessionFile = path.join(dir, "parent.jsonl");
+    writeTranscript(sessionFile, "parent", ["hi", "hello", "plan a trip", "to Lisbon?"]);
+    const store: Record<string, SessionEntry> = {
+      [PARENT_KEY]: {
+        sessionId: "parent",
+        sessionFile,
+        updatedAt: 1,
+        thinkingLevel: "high",
+        modelOverride: "gpt-5",
+        lastChannel: "telegram",
+        lastTo: "42",
+        label: "trip",
+      },
+    };
+    fs.writeFileSync(storePath, JSON.stringify(store), "utf-8");
+    clearSessionStoreCacheForTest();
+  });
+
+  afterEach(() => {
+    clearSessionStoreCacheForTest();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("copies the transcript up to the chosen message and records lineage", async () => {
+    const result = await forkSessionEntry({
+      storePath,
+      parentKey: PARENT_KEY,
+      agentId: "main",
+      fromEntryId: "m2",
+      label: "alt",
+      now: 5,
+    });
+    if (!result.ok) {
+      throw new Error(result.error);
+    }
+    expect(result.key).toMatch(/^agent:main:fork:[0-9a-f-]{36}$/);
+    expect(result.entry).toMatchObject({
+      thinkingLevel: "high",
+      modelOverride: "gpt-5",
+      label: "alt",
+      forkedFrom: { sessionKey: PARENT_KEY, sessionId: "parent", entryId: "m2", forkedAt: 5 },
+    });
+    expect(result.entry.lastChannel).toBeUndefined();
+    expect(result.entry.sessionId).not.toBe("parent");
+    expect(readMessageTexts(result.entry.sessionFile ?? "")).toEqual(["hi", "hello"]);
+
+    const store = loadSessionStore(storePath, { skipCache: true });
+    expect(store[result.key]?.sessionId).toBe(result.entry.sessionId);
+    expect(readMessageTexts(store[PARENT_KEY]?.sessionFile ?? "")).toHaveLength(4);
+  });
+
+  it("forks from the latest message by default", async () => {
+    const result = await forkSessionEntry({ storePath, parentKey: PARENT_KEY, agentId: "main" });
+    expect(result.ok && readMessageTexts(result.entry.sessionFile ?? "")).toEqual([
+      "hi",
+      "hello",
+      "plan a trip",
+      "to Lisbon?",
+    ]);
+  });
+
+  it("rejects unknown sessions, unknown messages and duplicate labels", async () => {
+    expect(
+      await forkSessionEntry({ storePath, parentKey: "agent:main:nope", agentId: "main" }),
+    ).toEqual({ ok: false, error: "session not found: agent:main:nope" });
+    expect(
+      await forkSessionEntry({
+        storePath,
+        parentKey: PARENT_KEY,
+        agentId: "main",
+        fromEntryId: "missing",
+      }),
+    ).toMatchObject({ ok: false, error: expect.stringContaining("message missing not found") });
+    expect(
+      await forkSessionEntry({ storePath, parentKey: PARENT_KEY, agentId: "main", label: "trip" }),
+    ).toEqual({ ok: false, error: "label already in use: trip" });
+    expect(Object.keys(loadSessionStore(storePath, { skipCache: true }))).toEqual([PARENT_KEY]);
+  });
+});
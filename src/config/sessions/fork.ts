@@ -0,0 +1,144 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import { CURRENT_SESSION_VERSION, SessionManager } from "@mariozechner/pi-coding-agent";
+import { normalizeAgentId } from "../../routing/session-key.js";
+import { parseSessionLabel } from "../../sessions/session-label.js";
+import { resolveSessionFilePath } from "./paths.js";
+import { updateSessionStore } from "./store.js";
+import type { SessionEntry } from "./types.js";
+
+export type ForkedSessionTranscript = { sessionId: string; sessionFile: string };
+
+/**
+ * Copy the parent's transcript into a new session file, up to `fromEntryId`
+ * (inclusive) or the current leaf. Returns null when there is nothing to fork
+ * from (missing transcript) and throws when `fromEntryId` is not in it.
+ */
+export function forkSessionTranscript(params: {
+  parentEntry: SessionEntry;
+  agentId: string;
+  sessionsDir: string;
+  fromEntryId?: string;
+}): ForkedSessionTranscript | null {
+  const parentSessionFile = resolveSessionFilePath(
+    params.parentEntry.sessionId,
+    params.parentEntry,
+    { agentId: params.agentId, sessionsDir: params.sessionsDir },
+  );
+  if (!parentSessionFile || !fs.existsSync(parentSessionFile)) {
+    return null;
+  }
+  const manager = SessionManager.open(parentSessionFile);
+  if (params.fromEntryId && !manager.getEntry(params.fromEntryId)) {
+    throw new Error(`message ${params.fromEntryId} not found in session transcript`);
+  }
+  const leafId = params.fromEntryId ?? manager.getLeafId();
+  if (leafId) {
+    const sessionFile = manager.createBranchedSession(leafId) ?? manager.getSessionFile();
+    const sessionId = manager.getSessionId();
+    if (sessionFile && sessionId) {
+      return { sessionId, sessionFile };
+    }
+  }
+  const sessionId = crypto.randomUUID();
+  const timestamp = new Date().toISOString();
+  const fileTimestamp = timestamp.replace(/[:.]/g, "-");
+  const sessionFile = path.join(manager.getSessionDir(), `${fileTimestamp}_${sessionId}.jsonl`);
+  const header = {
+    type: "session",
+    version: CURRENT_SESSION_VERSION,
+    id: sessionId,
+    timestamp,
+    cwd: manager.getCwd(),
+    parentSession: parentSessionFile,
+  };
+  fs.writeFileSync(sessionFile, `${JSON.stringify(header)}\n`, "utf-8");
+  return { sessionId, sessionFile };
+}
+
+export function buildForkSessionKey(agentId: string): string {
+  return `agent:${normalizeAgentId(agentId)}:fork:${crypto.randomUUID()}`;
+}
+
+export type ForkSessionResult =
+  | { ok: true; key: string; entry: SessionEntry }
+  | { ok: false; error: string };
+
+/**
+ * Branch `parentKey` into a new session entry. The fork keeps the parent's
+ * per-session preferences (levels, model override, skills snapshot) but none
+ * of its delivery routing, so replies in the fork never leak into the
+ * original chat.
+ */
+export async function forkSessionEntry(params: {
+  storePath: string;
+  parentKey: string;
+  agentId: string;
+  fromEntryId?: string;
+  label?: string;
+  forkKey?: string;
+  now?: number;
+}): Promise<ForkSessionResult> {
+  let label: string | undefined;
+  if (params.label !== undefined) {
+    const parsed = parseSessionLabel(params.label);
+    if (!parsed.ok) {
+      return { ok: false, error: parsed.error };
+    }
+    label = parsed.label;
+  }
+  const forkKey = params.forkKey ?? buildForkSessionKey(params.agentId);
+  const sessionsDir = path.dirname(path.resolve(params.storePath));
+  return await updateSessionStore(params.storePath, (store): ForkSessionResult => {
+    const parent = store[params.parentKey];
+    if (!parent?.sessionId) {
+      return { ok: false, error: `session not found: ${params.parentKey}` };
+    }
+    if (store[forkKey]) {
+      return { ok: false, error: `session already exists: ${forkKey}` };
+    }
+    if (label && Object.values(store).some((entry) => entry?.label === label)) {
+      return { ok: false, error: `label already in use: ${label}` };
+    }
+    let forked: ForkedSessionTranscript | null;
+    try {
+      forked = forkSessionTranscript({
+        parentEntry: parent,
+        agentId: params.agentId,
+        sessionsDir,
+        fromEntryId: params.fromEntryId,
+      });
+    } catch (err) {
+      return { ok: false, error: err instanceof Error ? err.message : String(err) };
+    }
+    if (!forked) {
+      return { ok: false, error: `session ${params.parentKey} has no transcript to fork` };
+    }
+    const now = params.now ?? Date.now();
+    const entry: SessionEntry = {
+      sessionId: forked.sessionId,
+      sessionFile: forked.sessionFile,
+      updatedAt: now,
+      systemSent: parent.systemSent,
+      chatType: parent.chatType,
+      thinkingLevel: parent.thinkingLevel,
+      verboseLevel: parent.verboseLevel,
+      reasoningLevel: parent.reasoningLevel,
+      elevatedLevel: parent.elevatedLevel,
+      responseUsage: parent.responseUsage,
+      providerOverride: parent.providerOverride,
+      modelOverride: parent.modelOverride,
+      skillsSnapshot: parent.skillsSnapshot,
+      label,
+      forkedFrom: {
+        sessionKey: params.parentKey,
+        sessionId: parent.sessionId,
+        entryId: params.fromEntryId,
+        forkedAt: now,
+      },
+    };
+    store[forkKey] = entry;
+    return { ok: true, key: forkKey, entry };
+  });
+}
@@ -0,0 +1,117 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { requireNodeSqlite } from "../../memory/sqlite.js";
+import {
+  resolveSessionStoreBackendId,
+  resolveSessionStorePathForBackend,
+} from "./store-backend.js";
+import {
+  clearSessionStoreCacheForTest,
+  copySessionStore,
+  loadSessionStore,
+  saveSessionStore,
+  updateLastRoute,
+  updateSessionStoreEntry,
+} from "./store.js";
+import type { SessionEntry } from "./types.js";
+
+describe("session store backends", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "openclaw-store-backend-"));
+    clearSessionStoreCacheForTest();
+  });
+
+  afterEach(() => {
+    clearSessionStoreCacheForTest();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("selects the backend from the store path", () => {
+    expect(resolveSessionStoreBackendId("/x/sessions.json")).toBe("json");
+    expect(resolveSessionStoreBackendId("/x/sessions.sqlite")).toBe("sqlite");
+    expect(resolveSessionStoreBackendId("/x/sessions.DB")).toBe("sqlite");
+    expect(resolveSessionStorePathForBackend("/x/{agentId}/sessions.json", "sqlite")).toBe(
+      "/x/{agentId}/sessions.sqlite",
+    );
+    expect(resolveSessionStorePathForBackend("/x/sessions.sqlite", "json")).toBe(
+      "/x/sessions.json",
+    );
+  });
+
+  it("keeps update semantics on the sqlite backend with indexed columns", async () => {
+    const storePath = path.join(dir, "sessions.sqlite");
+    expect(loadSessionStore(storePath)).toEqual({});
+    expect(fs.existsSync(storePath)).toBe(false);
+
+    await saveSessionStore(storePath, {
+      "agent:work:telegram:group:7": { sessionId: "s1", updatedAt: 10 },
+      "agent:main:main": { sessionId: "s2", updatedAt: 20, thinkingLevel: "low" },
+    });
+
+    const routed = await updateLastRoute({
+      storePath,
+      sessionKey: "agent:work:telegram:group:7",
+      channel: "telegram",
+      to: "group:7",
+      threadId: 3,
+    });
+    expect(routed).toMatchObject({ lastChannel: "telegram", lastTo: "group:7", lastThreadId: 3 });
+
+    const updated = await updateSessionStoreEntry({
+      storePath,
+      sessionKey: "agent:main:main",
+      update: async (entry) => ({ thinkingLevel: entry.thinkingLevel === "low" ? "high" : "off" }),
+    });
+    expect(updated?.thinkingLevel).toBe("high");
+    expect(
+      await updateSessionStoreEntry({
+        storePath,
+        sessionKey: "agent:main:missing",
+        update: async () => ({ label: "x" }),
+      }),
+    ).toBeNull();
+
+    const store = loadSessionStore(storePath, { skipCache: true });
+    expect(store["agent:main:main"]).toMatchObject({ sessionId: "s2", thinkingLevel: "high" });
+    expect(store["agent:work:telegram:group:7"]?.deliveryContext).toEqual({
+      channel: "telegram",
+      to: "group:7",
+      threadId: 3,
+    });
+
+    const { DatabaseSync } = requireNodeSqlite();
+    const db = new DatabaseSync(storePath);
+    try {
+      expect(db.prepare("SELECT key, agent_id, channel FROM sessions ORDER BY key").all()).toEqual([
+        { key: "agent:main:main", agent_id: "main", channel: null },
+        { key: "agent:work:telegram:group:7", agent_id: "work", channel: "telegram" },
+      ]);
+    } finally {
+      db.close();
+    }
+  });
+
+  it("removes deleted keys and copies stores between backends", async () => {
+    const jsonPath = path.join(dir, "sessions.json");
+    const store: Record<string, SessionEntry> = {
+      a: { sessionId: "a", updatedAt: 1 },
+      b: { sessionId: "b", updatedAt: 2, label: "bee" },
+    };
+    fs.writeFileSync(jsonPath, JSON.stringify(store), "utf-8");
+
+    const sqlitePath = resolveSessionStorePathForBackend(jsonPath, "sqlite");
+    expect(await copySessionStore({ fromPath: jsonPath, toPath: sqlitePath })).toBe(2);
+    expect(loadSessionStore(sqlitePath, { skipCache: true })).toEqual(store);
+
+    await saveSessionStore(sqlitePath, { b: store.b }, { skipMaintenance: true });
+    expect(Object.keys(loadSessionStore(sqlitePath, { skipCache: true }))).toEqual(["b"]);
+
+    const backPath = path.join(dir, "restored.json");
+    expect(await copySessionStore({ fromPath: sqlitePath, toPath: backPath })).toBe(1);
+    expect(JSON.parse(fs.readFileSync(backPath, "utf-8"))).toEqual({ b: store.b });
+  });
+});
@@ -0,0 +1,188 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import { readSqliteSessionStore, writeSqliteSessionStore } from "./store-sqlite.js";
+import type { SessionEntry } from "./types.js";
+
+export type SessionStoreBackendId = "json" | "sqlite";
+
+/**
+ * Storage for one session store path. Locking, caching, legacy-field migration
+ * and maintenance live in `store.ts` and apply to every backend; a backend only
+ * reads and persists the full key → entry map.
+ */
+export type SessionStoreBackend = {
+  id: SessionStoreBackendId;
+  /** Missing or unreadable stores read as empty. */
+  read: (storePath: string) => Record<string, SessionEntry>;
+  write: (storePath: string, store: Record<string, SessionEntry>) => Promise<void>;
+  /** Whether size-based file rotation (`session.maintenance.rotateBytes`) applies. */
+  rotates: boolean;
+};
+
+const SQLITE_STORE_EXTENSIONS = new Set([".sqlite", ".sqlite3", ".db"]);
+
+function isSessionStoreRecord(value: unknown): value is Record<string, SessionEntry> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function readJsonSessionStore(storePath: string): Record<string, SessionEntry> {
+  // Retry up to 3 times when the file is empty or unparseable.  On Windows the
+  // temp-file + rename write is not fully atomic: a concurrent reader can briefly
+  // observe a 0-byte file (between truncate and write) or a stale/locked state.
+  // A short synchronous backoff (50 ms via `Atomics.wait`) is enough for the
+  // writer to finish.
+  let store: Record<string, SessionEntry> = {};
+  const maxReadAttempts = process.platform === "win32" ? 3 : 1;
+  const retryBuf = maxReadAttempts > 1 ? new Int32Array(new SharedArrayBuffer(4)) : undefined;
+  for (let attempt = 0; attempt < maxReadAttempts; attempt++) {
+    try {
+      const raw = fs.readFileSync(storePath, "utf-8");
+      if (raw.length === 0 && attempt < maxReadAttempts - 1) {
+        // File is empty — likely caught mid-write; retry after a brief pause.
+        Atomics.wait(retryBuf!, 0, 0, 50);
+        continue;
+      }
+      const parsed = JSON.parse(raw);
+      if (isSessionStoreRecord(parsed)) {
+        store = parsed;
+      }
+      break;
+    } catch {
+      // File missing, locked, or transiently corrupt — retry on Windows.
+      if (attempt < maxReadAttempts - 1) {
+        Atomics.wait(retryBuf!, 0, 0, 50);
+        continue;
+      }
+      // Final attempt failed; proceed with an empty store.
+    }
+  }
+  return store;
+}
+
+async function writeJsonSessionStore(
+  storePath: string,
+  store: Record<string, SessionEntry>,
+): Promise<void> {
+  await fs.promises.mkdir(path.dirname(storePath), { recursive: true });
+  const json = JSON.stringify(store, null, 2);
+
+  // Windows: use temp-file + rename for atomic writes, same as other platforms.
+  // Direct `writeFile` truncates the target to 0 bytes before writing, which
+  // allows concurrent `readFileSync` calls (from unlocked `loadSessionStore`)
+  // to observe an empty file and lose the session store contents.
+  if (process.platform === "win32") {
+    const tmp = `${storePath}.${process.pid}.${crypto.randomUUID()}.tmp`;
+    try {
+      await fs.promises.writeFile(tmp, json, "utf-8");
+      // Retry rename up to 5 times with increasing backoff — rename can fail
+      // on Windows when the target is locked by a concurrent reader.  We do
+      // NOT fall back to writeFile or copyFile because both use CREATE_ALWAYS
+      // on Windows, which truncates the target to 0 bytes before writing —
+      // reintroducing the exact race this fix addresses.  If all attempts
+      // fail, the temp file is cleaned up and the next save cycle (which is
+      // serialized by the write lock) will succeed.
+      for (let i = 0; i < 5; i++) {
+        try {
+          await fs.promises.rename(tmp, storePath);
+          break;
+        } catch {
+          if (i < 4) {
+            await new Promise((r) => setTimeout(r, 50 * (i + 1)));
+          }
+          // Final attempt failed — skip this save.  The write lock ensures
+          // the next save will retry with fresh data.  Log for diagnostics.
+          if (i === 4) {
+            console.warn(`[session-store] rename failed after 5 attempts: ${storePath}`);
+          }
+        }
+      }
+    } catch (err) {
+      const code =
+        err && typeof err === "object" && "code" in err
+          ? String((err as { code?: unknown }).code)
+          : null;
+      if (code === "ENOENT") {
+        return;
+      }
+      throw err;
+    } finally {
+      await fs.promises.rm(tmp, { force: true }).catch(() => undefined);
+    }
+    return;
+  }
+
+  const tmp = `${storePath}.${process.pid}.${crypto.randomUUID()}.tmp`;
+  try {
+    await fs.promises.writeFile(tmp, json, { mode: 0o600, encoding: "utf-8" });
+    await fs.promises.rename(tmp, storePath);
+    // Ensure permissions are set even if rename loses them
+    await fs.promises.chmod(storePath, 0o600);
+  } catch (err) {
+    const code =
+      err && typeof err === "object" && "code" in err
+        ? String((err as { code?: unknown }).code)
+        : null;
+
+    if (code === "ENOENT") {
+      // In tests the temp session-store directory may be deleted while writes are in-flight.
+      // Best-effort: try a direct write (recreating the parent dir), otherwise ignore.
+      try {
+        await fs.promises.mkdir(path.dirname(storePath), { recursive: true });
+        await fs.promises.writeFile(storePath, json, { mode: 0o600, encoding: "utf-8" });
+        await fs.promises.chmod(storePath, 0o600);
+      } catch (err2) {
+        const code2 =
+          err2 && typeof err2 === "object" && "code" in err2
+            ? String((err2 as { code?: unknown }).code)
+            : null;
+        if (code2 === "ENOENT") {
+          return;
+        }
+        throw err2;
+      }
+      return;
+    }
+
+    throw err;
+  } finally {
+    await fs.promises.rm(tmp, { force: true });
+  }
+}
+
+const JSON_BACKEND: SessionStoreBackend = {
+  id: "json",
+  read: readJsonSessionStore,
+  write: writeJsonSessionStore,
+  rotates: true,
+};
+
+const SQLITE_BACKEND: SessionStoreBackend = {
+  id: "sqlite",
+  read: readSqliteSessionStore,
+  write: writeSqliteSessionStore,
+  rotates: false,
+};
+
+/** The backend is chosen by the store file extension (`.sqlite`, `.sqlite3`, `.db` → SQLite). */
+export function resolveSessionStoreBackendId(storePath: string): SessionStoreBackendId {
+  return SQLITE_STORE_EXTENSIONS.has(path.extname(storePath).toLowerCase()) ? "sqlite" : "json";
+}
+
+/** Same store path with the extension swapped for `id` (`sessions.json` ↔ `sessions.sqlite`). */
+export function resolveSessionStorePathForBackend(
+  storePath: string,
+  id: SessionStoreBackendId,
+): string {
+  const ext = path.extname(storePath);
+  const base = ext ? storePath.slice(0, -ext.length) : storePath;
+  return `${base}${id === "sqlite" ? ".sqlite" : ".json"}`;
+}
+
+export function getSessionStoreBackend(id: SessionStoreBackendId): SessionStoreBackend {
+  return id === "sqlite" ? SQLITE_BACKEND : JSON_BACKEND;
+}
+
+export function resolveSessionStoreBackend(storePath: string): SessionStoreBackend {
+  return getSessionStoreBackend(resolveSessionStoreBackendId(storePath));
+}
@@ -0,0 +1,138 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { DatabaseSync } from "node:sqlite";
+import { requireNodeSqlite } from "../../memory/sqlite.js";
+import { parseAgentSessionKey } from "../../routing/session-key.js";
+import type { SessionEntry } from "./types.js";
+
+const SCHEMA_VERSION = 1;
+
+function openSessionDb(storePath: string): DatabaseSync {
+  const { DatabaseSync } = requireNodeSqlite();
+  const db = new DatabaseSync(storePath);
+  // Gateway and CLI processes share the file; the store lock serializes writers,
+  // the busy timeout covers readers racing a commit.
+  db.exec("PRAGMA busy_timeout = 5000");
+  const version = (db.prepare("PRAGMA user_version").get() as { user_version?: number })
+    ?.user_version;
+  if (version !== SCHEMA_VERSION) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS sessions (
+        key TEXT PRIMARY KEY,
+        agent_id TEXT,
+        channel TEXT,
+        updated_at INTEGER,
+        entry TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_sessions_agent ON sessions(agent_id);
+      CREATE INDEX IF NOT EXISTS idx_sessions_channel ON sessions(channel);
+      CREATE INDEX IF NOT EXISTS idx_sessions_updated_at ON sessions(updated_at);
+      PRAGMA user_version = ${SCHEMA_VERSION};
+    `);
+  }
+  return db;
+}
+
+function resolveEntryChannel(entry: SessionEntry): string | null {
+  return entry.channel ?? entry.lastChannel ?? entry.deliveryContext?.channel ?? null;
+}
+
+function parseEntry(raw: unknown): SessionEntry | undefined {
+  if (typeof raw !== "string") {
+    return undefined;
+  }
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed)
+      ? (parsed as SessionEntry)
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Read every row. A missing database reads as an empty store (and is not created). */
+export function readSqliteSessionStore(storePath: string): Record<string, SessionEntry> {
+  if (!fs.existsSync(storePath)) {
+    return {};
+  }
+  const db = openSessionDb(storePath);
+  try {
+    const rows = db.prepare("SELECT key, entry FROM sessions").all() as Array<{
+      key: string;
+      entry: string;
+    }>;
+    const store: Record<string, SessionEntry> = {};
+    for (const row of rows) {
+      const entry = parseEntry(row.entry);
+      if (entry) {
+        store[row.key] = entry;
+      }
+    }
+    return store;
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Make the table match `store`, touching only rows that changed. Unlike the JSON
+ * backend this never rewrites untouched sessions, which is the point on gateways
+ * with thousands of entries.
+ */
+export async function writeSqliteSessionStore(
+  storePath: string,
+  store: Record<string, SessionEntry>,
+): Promise<void> {
+  await fs.promises.mkdir(path.dirname(storePath), { recursive: true });
+  const db = openSessionDb(storePath);
+  try {
+    db.exec("BEGIN IMMEDIATE");
+    try {
+      const existing = new Map<string, string>();
+      for (const row of db.prepare("SELECT key, entry FROM sessions").all() as Array<{
+        key: string;
+        entry: string;
+      }>) {
+        existing.set(row.key, row.entry);
+      }
+      const upsert = db.prepare(
+        `INSERT INTO sessions (key, agent_id, channel, updated_at, entry) VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT(key) DO UPDATE SET
+           agent_id = excluded.agent_id,
+           channel = excluded.channel,
+           updated_at = excluded.updated_at,
+           entry = excluded.entry`,
+      );
+      for (const [key, entry] of Object.entries(store)) {
+        if (!entry) {
+          continue;
+        }
+        const json = JSON.stringify(entry);
+        const previous = existing.get(key);
+        existing.delete(key);
+        if (previous === json) {
+          continue;
+        }
+        upsert.run(
+          key,
+          parseAgentSessionKey(key)?.agentId ?? null,
+          resolveEntryChannel(entry),
+          typeof entry.updatedAt === "number" ? entry.updatedAt : null,
+          json,
+        );
+      }
+      const remove = db.prepare("DELETE FROM sessions WHERE key = ?");
+      for (const key of existing.keys()) {
+        remove.run(key);
+      }
+      db.exec("COMMIT");
+    } catch (err) {
+      db.exec("ROLLBACK");
+      throw err;
+    }
+  } finally {
+    db.close();
+  }
+  await fs.promises.chmod(storePath, 0o600).catch(() => undefined);
+}
@@ -22,6 +22,34 @@ export type SessionOrigin = {
   threadId?: string | number;
 };
 
+export type SessionHandoffMessage = {
+  from: "user" | "operator";
+  text: string;
+  at: number;
+};
+
+/** Active human handoff: the agent is paused and an operator answers instead. */
+export type SessionHandoff = {
+  /** Short id operators use to address the conversation (`#a1b2c3`). */
+  id: string;
+  startedAt: number;
+  trigger: "agent" | "keyword" | "operator";
+  reason?: string;
+  /** Conversation the operator's replies are relayed back to. */
+  origin: DeliveryContext;
+  /** Recent exchange while the human is in charge (bounded). */
+  transcript?: SessionHandoffMessage[];
+};
+
+/** Where a forked session branched off (`sessions.fork` / `/fork`). */
+export type SessionForkOrigin = {
+  sessionKey: string;
+  sessionId: string;
+  /** Transcript entry the fork was cut at; absent when forked from the latest message. */
+  entryId?: string;
+  forkedAt: number;
+};
+
 export type SessionEntry = {
   /**
    * Last delivered heartbeat payload (used to suppress duplicate heartbeat notifications).
@@ -37,6 +65,8 @@ export type SessionEntry = {
   spawnedBy?: string;
   /** Subagent spawn depth (0 = main, 1 = sub-agent, 2 = sub-sub-agent). */
   spawnDepth?: number;
+  /** Lineage for sessions created by forking another session. */
+  forkedFrom?: SessionForkOrigin;
   systemSent?: boolean;
   abortedLastRun?: boolean;
   chatType?: SessionChatType;
@@ -108,6 +138,7 @@ export type SessionEntry = {
   lastTo?: string;
   lastAccountId?: string;
   lastThreadId?: string | number;
+  handoff?: SessionHandoff;
   skillsSnapshot?: SessionSkillSnapshot;
   systemPromptReport?: SessionSystemPromptReport;
 };
@@ -70,8 +70,22 @@ export type AgentsConfig = {
   list?: AgentConfig[];
 };
 
+/** Local-time window for `bindings[].match.hours`. */
+export type AgentBindingHoursWindow = {
+  /** Days this window applies to ("mon".."sun", ranges like "mon-fri"). Default: every day. */
+  days?: string[];
+  /** Start time (24h, HH:MM). Inclusive. */
+  start: string;
+  /** End time (24h, HH:MM). Exclusive. Use "24:00" for end-of-day; may wrap past midnight. */
+  end: string;
+  /** Timezone ("user", "local", or IANA TZ id). Default: "user". */
+  timezone?: string;
+};
+
 export type AgentBinding = {
   agentId: string;
+  /** Higher wins among bindings of the same specificity (default: 0). */
+  priority?: number;
   match: {
     channel: string;
     accountId?: string;
@@ -80,5 +94,15 @@ export type AgentBinding = {
     teamId?: string;
     /** Discord role IDs used for role-based routing. */
     roles?: string[];
+    /** Only while the message time falls inside one of these windows. */
+    hours?: AgentBindingHoursWindow[];
+    /** Only when the message text contains one of these words or phrases (case-insensitive). */
+    keywords?: string[];
+    /** Only when the message text matches this regular expression (case-insensitive). */
+    pattern?: string;
+    /** Only when the message has an attachment of one of these kinds or MIME types ("image", "application/pdf", "audio/*", "any"). */
+    attachments?: string[];
+    /** Only when the channel reports one of these sender languages ("de", "pt-BR"). */
+    languages?: string[];
   };
 };
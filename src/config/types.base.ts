@@ -107,6 +107,22 @@ export type SessionConfig = {
   };
   /** Automatic session store maintenance (pruning, capping, file rotation). */
   maintenance?: SessionMaintenanceConfig;
+  /** Human handoff: pause the agent and let an operator answer. */
+  handoff?: SessionHandoffConfig;
+};
+
+export type SessionHandoffConfig = {
+  /** Operator chat that receives handed-off conversations and answers them. */
+  operator?: {
+    channel: string;
+    to: string;
+    accountId?: string;
+    threadId?: string | number;
+  };
+  /** Inbound phrases that hand the conversation to a human (e.g. "talk to a human"). */
+  keywords?: string[];
+  /** Message sent to the user when a handoff starts. */
+  notice?: string;
 };
 
 export type SessionMaintenanceMode = "enforce" | "warn";
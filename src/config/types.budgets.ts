@@ -0,0 +1,37 @@
+export type SpendBudgetExceededAction = "refuse" | "downgrade";
+
+export type SpendBudgetConfig = {
+  /** Hard limit for spend per calendar day (USD, gateway local time). */
+  dailyUsd?: number;
+  /** Hard limit for spend per calendar month (USD, gateway local time). */
+  monthlyUsd?: number;
+  /** Warn once per period when spend crosses this percentage of a limit. */
+  warnAtPercent?: number;
+  /** What to do once a hard limit is reached. */
+  onExceeded?: SpendBudgetExceededAction;
+  /** Cheaper model (provider/model) used when onExceeded is "downgrade". */
+  downgradeModel?: string;
+};
+
+export type BudgetsConfig = {
+  /** Enforce spend budgets before embedded agent runs. Default: true when any budget is set. */
+  enabled?: boolean;
+  /** Default soft-limit threshold (% of a hard limit). Default: 80. */
+  warnAtPercent?: number;
+  /** Default action once a hard limit is reached. Default: refuse. */
+  onExceeded?: SpendBudgetExceededAction;
+  /** Default cheaper model (provider/model) for onExceeded "downgrade". */
+  downgradeModel?: string;
+  /** Budgets keyed by agent id; "*" gives every agent its own budget. */
+  agents?: Record<string, SpendBudgetConfig>;
+  /**
+   * Budgets keyed by channel account ("telegram:default"), channel ("telegram"),
+   * or "*" (every account gets its own budget).
+   */
+  accounts?: Record<string, SpendBudgetConfig>;
+  /**
+   * Budgets keyed by sender ("whatsapp:+15551234567" or a bare sender id),
+   * or "*" (every sender gets its own budget).
+   */
+  senders?: Record<string, SpendBudgetConfig>;
+};
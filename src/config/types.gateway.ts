@@ -175,6 +175,27 @@ export type GatewayHttpChatCompletionsConfig = {
   enabled?: boolean;
 };
 
+export type GatewayHttpModelsConfig = {
+  /**
+   * If false, the Gateway will not serve `GET /v1/models`.
+   * Default: enabled whenever `/v1/chat/completions` or `/v1/responses` is enabled.
+   */
+  enabled?: boolean;
+};
+
+export type GatewayHttpEmbeddingsConfig = {
+  /**
+   * If false, the Gateway will not serve `POST /v1/embeddings`.
+   * Default: false when absent.
+   */
+  enabled?: boolean;
+  /**
+   * Max number of inputs per request.
+   * Default: 256.
+   */
+  maxInputs?: number;
+};
+
 export type GatewayHttpResponsesConfig = {
   /**
    * If false, the Gateway will not serve `POST /v1/responses` (OpenResponses API).
@@ -249,6 +270,8 @@ export type GatewayHttpResponsesImagesConfig = {
 export type GatewayHttpEndpointsConfig = {
   chatCompletions?: GatewayHttpChatCompletionsConfig;
   responses?: GatewayHttpResponsesConfig;
+  models?: GatewayHttpModelsConfig;
+  embeddings?: GatewayHttpEmbeddingsConfig;
 };
 
 export type GatewayHttpConfig = {
@@ -49,6 +49,40 @@ export type AudioConfig = {
   };
 };
 
+export type DeliveryQueueConfig = {
+  /** Alert when the failed (dead-letter) queue holds at least this many entries; 0 disables. Default: 10. */
+  failedAlertThreshold?: number;
+  /** Where to send the alert. Omit to only log a warning. */
+  alertTarget?: {
+    /** Channel id (e.g. "telegram", "slack"). */
+    channel: string;
+    /** Destination id (chat, channel or user id). */
+    to: string;
+    accountId?: string;
+    threadId?: string | number;
+  };
+};
+
+/** Local-time window (HH:MM, 24h) during which scheduled messages are held back. */
+export type QuietHoursConfig = {
+  /** Start of the quiet window. Inclusive. */
+  start: string;
+  /** End of the quiet window. Exclusive. May wrap past midnight (e.g. 22:00-08:00). */
+  end: string;
+  /** Timezone for the window ("user", "local", or IANA TZ id). Default: "user". */
+  timezone?: string;
+};
+
+export type ScheduledMessagesConfig = {
+  /** Hold due scheduled messages inside this window for every recipient. Default: none. */
+  quietHours?: QuietHoursConfig;
+  /**
+   * Per-recipient quiet hours keyed by "<channel>:<target>" (e.g. "telegram:123456789").
+   * `false` turns quiet hours off for that recipient.
+   */
+  recipients?: Record<string, { quietHours?: QuietHoursConfig | false }>;
+};
+
 export type MessagesConfig = {
   /** @deprecated Use `whatsapp.messagePrefix` (WhatsApp-only inbound prefix). */
   messagePrefix?: string;
@@ -86,6 +120,10 @@ export type MessagesConfig = {
   suppressToolErrors?: boolean;
   /** Text-to-speech settings for outbound replies. */
   tts?: TtsConfig;
+  /** Outbound delivery queue (crash-safe retries and the failed/ dead-letter folder). */
+  deliveryQueue?: DeliveryQueueConfig;
+  /** Messages scheduled with `sendAt`/`delay` (message tool and `openclaw message send`). */
+  scheduled?: ScheduledMessagesConfig;
 };
 
 export type NativeCommandsSetting = boolean | "auto";
@@ -0,0 +1,60 @@
+export type SecurityAuditSuppression = {
+  /** Finding checkId to silence; `*` wildcards allowed (e.g. "channels.*.dm.open"). */
+  checkId: string;
+  /** Why the finding is accepted (shown in audit output and alerts). */
+  reason: string;
+  /** Expiry (ISO date or date-time); the finding comes back after this. */
+  until?: string;
+  /** Only suppress findings whose title or detail contains this text. */
+  match?: string;
+};
+
+export type SecurityMonitorTarget = {
+  /** Channel id (e.g. "telegram", "slack"). */
+  channel: string;
+  /** Destination id (chat, channel or user id). */
+  to: string;
+  /** Optional account id for multi-account channels. */
+  accountId?: string;
+  /** Optional thread id to post inside a thread. */
+  threadId?: string | number;
+};
+
+export type SecurityMonitorConfig = {
+  /** Run the security audit from the gateway. Default: true. */
+  enabled?: boolean;
+  /** Minutes between audit runs (config reloads also trigger a run). Default: 360. */
+  intervalMinutes?: number;
+  /** Lowest severity that triggers an alert for a new finding. Default: critical. */
+  alertSeverity?: "critical" | "warn";
+  /** Where to send drift alerts. Omit to only log and persist results. */
+  target?: SecurityMonitorTarget;
+};
+
+export type PromptInjectionMode = "detect" | "strip" | "quarantine";
+
+export type PromptInjectionConfig = {
+  /** Scan external content for prompt-injection patterns. Default: true. */
+  enabled?: boolean;
+  /**
+   * What to do with high-risk content:
+   * - detect: log and record only
+   * - strip: remove high-risk spans before the model sees them (default)
+   * - quarantine: withhold the whole content and keep a copy for review
+   */
+  mode?: PromptInjectionMode;
+  /** Inbound channels whose messages count as external content. Default: ["linkedin"]. */
+  channels?: string[];
+  /** Tools whose results are scanned; `*` wildcards allowed. Default: web_fetch, web_search, browser, linkedin_*. */
+  tools?: string[];
+  /** Require approval for dangerous tools for the rest of a turn after a detection. Default: true. */
+  requireApproval?: boolean;
+};
+
+export type SecurityConfig = {
+  monitor?: SecurityMonitorConfig;
+  /** Prompt-injection detection for web pages, emails, inbound messages and tool results. */
+  injection?: PromptInjectionConfig;
+  /** Accepted findings, hidden from audit output and alerts until they expire. */
+  suppressions?: SecurityAuditSuppression[];
+};
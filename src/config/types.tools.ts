@@ -1,4 +1,10 @@
+import type { CalendarAvailabilityConfig } from "../calendar-availability/types.js";
 import type { ChatType } from "../channels/chat-type.js";
+import type {
+  CallCampaignDefaultsConfig,
+  PostCallPipelineConfig,
+} from "../elevenlabs-agents/types.js";
+import type { LinkedInOutreachConfig } from "../linkedin/types.js";
 import type { AgentElevatedAllowFromConfig, SessionSendPolicyAction } from "./types.base.js";
 
 export type MediaUnderstandingScopeMatch = {
@@ -267,6 +273,15 @@ export type MemorySearchConfig = {
   sources?: Array<"memory" | "sessions">;
   /** Extra paths to include in memory search (directories or .md files). */
   extraPaths?: string[];
+  /** Index non-markdown documents (PDF, DOCX, HTML, CSV) found in memory paths. */
+  documents?: {
+    /** Enable document extraction (default: true). */
+    enabled?: boolean;
+    /** Formats to extract (default: every registered extractor). */
+    formats?: string[];
+    /** Per-format size limits in bytes (e.g. { pdf: 20971520 }). */
+    maxBytes?: Record<string, number>;
+  };
   /** Experimental memory search settings. */
   experimental?: {
     /** Enable session transcript indexing (experimental, default: false). */
@@ -547,6 +562,8 @@ export type ToolsConfig = {
     accountId?: string;
     /** Request timeout in milliseconds. Default: 30000. */
     timeoutMs?: number;
+    /** Outreach sequence limits (daily send caps, quiet hours). */
+    outreach?: LinkedInOutreachConfig;
   };
   /** ElevenLabs Agents (Conversational AI) tool configuration. */
   elevenlabsAgents?: {
@@ -564,6 +581,10 @@ export type ToolsConfig = {
     baseUrl?: string;
     /** Request timeout in seconds. Default: 60. */
     timeoutSeconds?: number;
+    /** Post-call pipeline: outcome extraction and follow-up actions for completed calls. */
+    postCall?: PostCallPipelineConfig;
+    /** Defaults for batch calling campaigns (calling hours, concurrency, retries). */
+    campaigns?: CallCampaignDefaultsConfig;
   };
   /** Talently Agent tool configuration (for answering recruitment questions). */
   talentlyAgent?: {
@@ -584,6 +605,15 @@ export type ToolsConfig = {
     apiKey?: string;
     /** Request timeout in milliseconds. Default: 120000. */
     timeoutMs?: number;
+    /** Announce finished batch jobs to a channel target (in addition to the submitting session). */
+    announce?: {
+      /** Channel id (e.g. "slack", "telegram"). */
+      channel: string;
+      /** Channel target (user, chat or channel id). */
+      to: string;
+      /** Optional channel account id. */
+      accountId?: string;
+    };
   };
   /** Talently Interview tool configuration. */
   talentlyInterview?: {
@@ -597,5 +627,7 @@ export type ToolsConfig = {
     timeoutMs?: number;
     /** List of interviewer emails that can be used for scheduling interviews. */
     interviewerEmails?: string[];
+    /** Working hours, buffers and busy calendars used to propose interview slots. */
+    availability?: CalendarAvailabilityConfig;
   };
 };
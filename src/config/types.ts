@@ -5,6 +5,7 @@ export * from "./types.agents.js";
 export * from "./types.approvals.js";
 export * from "./types.auth.js";
 export * from "./types.base.js";
+export * from "./types.budgets.js";
 export * from "./types.browser.js";
 export * from "./types.channels.js";
 export * from "./types.openclaw.js";
@@ -22,6 +23,7 @@ export * from "./types.msteams.js";
 export * from "./types.plugins.js";
 export * from "./types.queue.js";
 export * from "./types.sandbox.js";
+export * from "./types.security.js";
 export * from "./types.signal.js";
 export * from "./types.skills.js";
 export * from "./types.slack.js";
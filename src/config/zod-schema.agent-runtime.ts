@@ -1,5 +1,6 @@
 import { z } from "zod";
 import { parseDurationMs } from "../cli/parse-duration.js";
+import { POST_CALL_ACTIONS, POST_CALL_OUTCOMES } from "../elevenlabs-agents/types.js";
 import { AgentModelSchema } from "./zod-schema.agent-model.js";
 import {
   GroupChatSchema,
@@ -377,6 +378,15 @@ const ToolFsSchema = z
   .strict()
   .optional();
 
+const CalendarWorkingHoursSchema = z
+  .object({
+    days: z.array(z.number().int().min(0).max(6)).optional(),
+    start: z.string().optional(),
+    end: z.string().optional(),
+  })
+  .strict()
+  .optional();
+
 const ToolLoopDetectionDetectorSchema = z
   .object({
     genericRepeat: z.boolean().optional(),
@@ -477,6 +487,14 @@ export const MemorySearchSchema = z
     enabled: z.boolean().optional(),
     sources: z.array(z.union([z.literal("memory"), z.literal("sessions")])).optional(),
     extraPaths: z.array(z.string()).optional(),
+    documents: z
+      .object({
+        enabled: z.boolean().optional(),
+        formats: z.array(z.string()).optional(),
+        maxBytes: z.record(z.string(), z.number().int().positive()).optional(),
+      })
+      .strict()
+      .optional(),
     experimental: z
       .object({
         sessionMemory: z.boolean().optional(),
@@ -716,6 +734,21 @@ export const ToolsSchema = z
         apiKey: z.string().optional(),
         accountId: z.string().optional(),
         timeoutMs: z.number().int().positive().optional(),
+        outreach: z
+          .object({
+            dailySendLimit: z.number().int().nonnegative().optional(),
+            accountDailySendLimits: z.record(z.string(), z.number().int().nonnegative()).optional(),
+            quietHours: z
+              .object({
+                start: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "use HH:MM (24h)"),
+                end: z.string().regex(/^(([01]\d|2[0-3]):[0-5]\d|24:00)$/, "use HH:MM (24h)"),
+                timezone: z.string().optional(),
+              })
+              .strict()
+              .optional(),
+          })
+          .strict()
+          .optional(),
       })
       .strict()
       .optional(),
@@ -730,6 +763,34 @@ export const ToolsSchema = z
         timeoutSeconds: z.number().int().positive().optional(),
         webhookSecret: z.string().optional(),
         webhookPath: z.string().optional(),
+        postCall: z
+          .object({
+            enabled: z.boolean().optional(),
+            agentTurn: z
+              .object({
+                enabled: z.boolean().optional(),
+                agentId: z.string().optional(),
+                model: z.string().optional(),
+                timeoutSeconds: z.number().int().positive().optional(),
+              })
+              .strict()
+              .optional(),
+            actions: z
+              .partialRecord(z.enum(POST_CALL_OUTCOMES), z.array(z.enum(POST_CALL_ACTIONS)))
+              .optional(),
+          })
+          .strict()
+          .optional(),
+        campaigns: z
+          .object({
+            maxConcurrentCalls: z.number().int().positive().optional(),
+            callingHours: CalendarWorkingHoursSchema,
+            timeZone: z.string().optional(),
+            maxAttempts: z.number().int().positive().optional(),
+            retryDelayMinutes: z.number().int().positive().optional(),
+          })
+          .strict()
+          .optional(),
       })
       .strict()
       .optional(),
@@ -747,6 +808,14 @@ export const ToolsSchema = z
         apiUrl: z.string().optional(),
         apiKey: z.string().optional(),
         timeoutMs: z.number().int().positive().optional(),
+        announce: z
+          .object({
+            channel: z.string(),
+            to: z.string(),
+            accountId: z.string().optional(),
+          })
+          .strict()
+          .optional(),
       })
       .strict()
       .optional(),
@@ -757,6 +826,30 @@ export const ToolsSchema = z
         apiKey: z.string().optional(),
         timeoutMs: z.number().int().positive().optional(),
         interviewerEmails: z.array(z.string().email()).optional(),
+        availability: z
+          .object({
+            timeZone: z.string().optional(),
+            workingHours: CalendarWorkingHoursSchema,
+            bufferMinutes: z.number().int().nonnegative().optional(),
+            slotStepMinutes: z.number().int().positive().optional(),
+            minNoticeMinutes: z.number().int().nonnegative().optional(),
+            horizonDays: z.number().int().positive().optional(),
+            icsPath: z.string().optional(),
+            interviewers: z
+              .record(
+                z.string(),
+                z
+                  .object({
+                    timeZone: z.string().optional(),
+                    workingHours: CalendarWorkingHoursSchema,
+                    icsPath: z.string().optional(),
+                  })
+                  .strict(),
+              )
+              .optional(),
+          })
+          .strict()
+          .optional(),
       })
       .strict()
       .optional(),
@@ -11,11 +11,34 @@ export const AgentsSchema = z
   .strict()
   .optional();
 
+const BindingTimeSchema = z
+  .string()
+  .regex(/^(?:([01]\d|2[0-3]):([0-5]\d)|24:00)$/, "Expected HH:MM (24h)");
+
+const BindingHoursWindowSchema = z
+  .object({
+    days: z
+      .array(
+        z
+          .string()
+          .regex(
+            /^(mon|tue|wed|thu|fri|sat|sun)(-(mon|tue|wed|thu|fri|sat|sun))?$/i,
+            'Expected a weekday ("mon") or range ("mon-fri")',
+          ),
+      )
+      .optional(),
+    start: BindingTimeSchema,
+    end: BindingTimeSchema,
+    timezone: z.string().optional(),
+  })
+  .strict();
+
 export const BindingsSchema = z
   .array(
     z
       .object({
         agentId: z.string(),
+        priority: z.number().int().optional(),
         match: z
           .object({
             channel: z.string(),
@@ -36,6 +59,26 @@ export const BindingsSchema = z
             guildId: z.string().optional(),
             teamId: z.string().optional(),
             roles: z.array(z.string()).optional(),
+            hours: z.array(BindingHoursWindowSchema).optional(),
+            keywords: z.array(z.string()).optional(),
+            pattern: z
+              .string()
+              .optional()
+              .superRefine((value, ctx) => {
+                if (value === undefined) {
+                  return;
+                }
+                try {
+                  new RegExp(value, "i");
+                } catch (err) {
+                  ctx.addIssue({
+                    code: z.ZodIssueCode.custom,
+                    message: `Invalid regular expression: ${String(err)}`,
+                  });
+                }
+              }),
+            attachments: z.array(z.string()).optional(),
+            languages: z.array(z.string()).optional(),
           })
           .strict(),
       })
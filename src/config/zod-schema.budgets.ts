@@ -0,0 +1,26 @@
+import { z } from "zod";
+
+const SpendBudgetExceededActionSchema = z.union([z.literal("refuse"), z.literal("downgrade")]);
+
+const SpendBudgetSchema = z
+  .object({
+    dailyUsd: z.number().nonnegative().optional(),
+    monthlyUsd: z.number().nonnegative().optional(),
+    warnAtPercent: z.number().positive().max(100).optional(),
+    onExceeded: SpendBudgetExceededActionSchema.optional(),
+    downgradeModel: z.string().min(1).optional(),
+  })
+  .strict();
+
+export const BudgetsSchema = z
+  .object({
+    enabled: z.boolean().optional(),
+    warnAtPercent: z.number().positive().max(100).optional(),
+    onExceeded: SpendBudgetExceededActionSchema.optional(),
+    downgradeModel: z.string().min(1).optional(),
+    agents: z.record(z.string(), SpendBudgetSchema).optional(),
+    accounts: z.record(z.string(), SpendBudgetSchema).optional(),
+    senders: z.record(z.string(), SpendBudgetSchema).optional(),
+  })
+  .strict()
+  .optional();
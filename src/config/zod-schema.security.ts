@@ -0,0 +1,52 @@
+import { z } from "zod";
+
+const SecurityAuditSuppressionSchema = z
+  .object({
+    checkId: z.string().min(1),
+    reason: z.string().min(1),
+    until: z
+      .string()
+      .refine((value) => !Number.isNaN(Date.parse(value)), {
+        message: "until must be an ISO date or date-time",
+      })
+      .optional(),
+    match: z.string().min(1).optional(),
+  })
+  .strict();
+
+const SecurityMonitorTargetSchema = z
+  .object({
+    channel: z.string().min(1),
+    to: z.string().min(1),
+    accountId: z.string().optional(),
+    threadId: z.union([z.string(), z.number()]).optional(),
+  })
+  .strict();
+
+export const SecuritySchema = z
+  .object({
+    monitor: z
+      .object({
+        enabled: z.boolean().optional(),
+        intervalMinutes: z.number().int().positive().optional(),
+        alertSeverity: z.union([z.literal("critical"), z.literal("warn")]).optional(),
+        target: SecurityMonitorTargetSchema.optional(),
+      })
+      .strict()
+      .optional(),
+    injection: z
+      .object({
+        enabled: z.boolean().optional(),
+        mode: z
+          .union([z.literal("detect"), z.literal("strip"), z.literal("quarantine")])
+          .optional(),
+        channels: z.array(z.string()).optional(),
+        tools: z.array(z.string()).optional(),
+        requireApproval: z.boolean().optional(),
+      })
+      .strict()
+      .optional(),
+    suppressions: z.array(SecurityAuditSuppressionSchema).optional(),
+  })
+  .strict()
+  .optional();
@@ -100,10 +100,34 @@ export const SessionSchema = z
         }
       })
       .optional(),
+    handoff: z
+      .object({
+        operator: z
+          .object({
+            channel: z.string().min(1),
+            to: z.string().min(1),
+            accountId: z.string().optional(),
+            threadId: z.union([z.string(), z.number()]).optional(),
+          })
+          .strict()
+          .optional(),
+        keywords: z.array(z.string()).optional(),
+        notice: z.string().optional(),
+      })
+      .strict()
+      .optional(),
   })
   .strict()
   .optional();
 
+const QuietHoursSchema = z
+  .object({
+    start: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "use HH:MM (24h)"),
+    end: z.string().regex(/^(([01]\d|2[0-3]):[0-5]\d|24:00)$/, "use HH:MM (24h)"),
+    timezone: z.string().optional(),
+  })
+  .strict();
+
 export const MessagesSchema = z
   .object({
     messagePrefix: z.string().optional(),
@@ -116,6 +140,35 @@ export const MessagesSchema = z
     removeAckAfterReply: z.boolean().optional(),
     suppressToolErrors: z.boolean().optional(),
     tts: TtsConfigSchema,
+    deliveryQueue: z
+      .object({
+        failedAlertThreshold: z.number().int().nonnegative().optional(),
+        alertTarget: z
+          .object({
+            channel: z.string().min(1),
+            to: z.string().min(1),
+            accountId: z.string().optional(),
+            threadId: z.union([z.string(), z.number()]).optional(),
+          })
+          .strict()
+          .optional(),
+      })
+      .strict()
+      .optional(),
+    scheduled: z
+      .object({
+        quietHours: QuietHoursSchema.optional(),
+        recipients: z
+          .record(
+            z.string(),
+            z
+              .object({ quietHours: z.union([QuietHoursSchema, z.literal(false)]).optional() })
+              .strict(),
+          )
+          .optional(),
+      })
+      .strict()
+      .optional(),
   })
   .strict()
   .optional();
@@ -2,10 +2,12 @@ import { z } from "zod";
 import { ToolsSchema } from "./zod-schema.agent-runtime.js";
 import { AgentsSchema, AudioSchema, BindingsSchema, BroadcastSchema } from "./zod-schema.agents.js";
 import { ApprovalsSchema } from "./zod-schema.approvals.js";
+import { BudgetsSchema } from "./zod-schema.budgets.js";
 import { HexColorSchema, ModelsConfigSchema } from "./zod-schema.core.js";
 import { HookMappingSchema, HooksGmailSchema, InternalHooksSchema } from "./zod-schema.hooks.js";
 import { InstallRecordShape } from "./zod-schema.installs.js";
 import { ChannelsSchema } from "./zod-schema.providers.js";
+import { SecuritySchema } from "./zod-schema.security.js";
 import { sensitive } from "./zod-schema.sensitive.js";
 import {
   CommandsSchema,
@@ -306,6 +308,8 @@ export const OpenClawSchema = z
     messages: MessagesSchema,
     commands: CommandsSchema,
     approvals: ApprovalsSchema,
+    budgets: BudgetsSchema,
+    security: SecuritySchema,
     session: SessionSchema,
     cron: z
       .object({
@@ -510,6 +514,19 @@ export const OpenClawSchema = z
                   })
                   .strict()
                   .optional(),
+                models: z
+                  .object({
+                    enabled: z.boolean().optional(),
+                  })
+                  .strict()
+                  .optional(),
+                embeddings: z
+                  .object({
+                    enabled: z.boolean().optional(),
+                    maxInputs: z.number().int().positive().optional(),
+                  })
+                  .strict()
+                  .optional(),
                 responses: z
                   .object({
                     enabled: z.boolean().optional(),
@@ -49,10 +49,14 @@ import { logWarn } from "../../logger.js";
 import { buildAgentMainSessionKey, normalizeAgentId } from "../../routing/session-key.js";
 import {
   buildSafeExternalPrompt,
-  detectSuspiciousPatterns,
   getHookType,
   isExternalHookSession,
 } from "../../security/external-content.js";
+import {
+  guardExternalContent,
+  resolvePromptInjectionSettings,
+  type PromptInjectionDetection,
+} from "../../security/prompt-injection.js";
 import { resolveCronDeliveryPlan } from "../delivery.js";
 import type { CronJob, CronRunOutcome, CronRunTelemetry } from "../types.js";
 import { resolveDeliveryTarget } from "./delivery-target.js";
@@ -378,14 +382,21 @@ export async function runCronIsolatedAgentTurn(params: {
   const shouldWrapExternal = isExternalHook && !allowUnsafeExternalContent;
   let commandBody: string;
 
-  if (isExternalHook) {
-    // Log suspicious patterns for security monitoring
-    const suspiciousPatterns = detectSuspiciousPatterns(params.message);
-    if (suspiciousPatterns.length > 0) {
-      logWarn(
-        `[security] Suspicious patterns detected in external hook content ` +
-          `(session=${baseSessionKey}, patterns=${suspiciousPatterns.length}): ${suspiciousPatterns.slice(0, 3).join(", ")}`,
-      );
+  // Scan external hook content for prompt injection; high-risk spans are stripped or the
+  // message is quarantined per security.injection (detect-only when unsafe content is allowed).
+  let externalMessage = params.message;
+  let injectionDetections: PromptInjectionDetection[] | undefined;
+  const injectionSettings = resolvePromptInjectionSettings(params.cfg);
+  if (isExternalHook && injectionSettings.enabled) {
+    const guarded = await guardExternalContent({
+      content: params.message,
+      source: getHookType(baseSessionKey),
+      mode: allowUnsafeExternalContent ? "detect" : injectionSettings.mode,
+      sessionKey: baseSessionKey,
+    });
+    externalMessage = guarded.content;
+    if (guarded.detection) {
+      injectionDetections = [guarded.detection];
     }
   }
 
@@ -393,7 +404,7 @@ export async function runCronIsolatedAgentTurn(params: {
     // Wrap external content with security boundaries
     const hookType = getHookType(baseSessionKey);
     const safeContent = buildSafeExternalPrompt({
-      content: params.message,
+      content: externalMessage,
       source: hookType,
       jobName: params.job.name,
       jobId: params.job.id,
@@ -492,6 +503,7 @@ export async function runCronIsolatedAgentTurn(params: {
           runId: cronSession.sessionEntry.sessionId,
           requireExplicitMessageTarget: true,
           disableMessageTool: deliveryRequested,
+          injectionDetections,
         });
       },
     });
@@ -41,6 +41,11 @@ export function computeNextRunAtMs(schedule: CronSchedule, nowMs: number): numbe
     return anchor + steps * everyMs;
   }
 
+  if (schedule.kind === "after") {
+    // Dependent jobs are queued by their upstream job, never by the clock.
+    return undefined;
+  }
+
   const expr = schedule.expr.trim();
   if (!expr) {
     return undefined;
@@ -0,0 +1,169 @@
+import { describe, expect, it, vi } from "vitest";
+import { CronService } from "./service.js";
+import {
+  createCronStoreHarness,
+  createFinishedBarrier,
+  createNoopLogger,
+  installCronTestHooks,
+} from "./service.test-harness.js";
+
+const logger = createNoopLogger();
+const { makeStorePath } = createCronStoreHarness({ prefix: "openclaw-cron-dependencies-" });
+installCronTestHooks({ logger });
+
+function createCronService(storePath: string) {
+  const enqueueSystemEvent = vi.fn();
+  const finished = createFinishedBarrier();
+  const runIsolatedAgentJob = vi.fn(async () => ({
+    status: "ok" as const,
+    summary: "3 new invoices",
+  }));
+  const cron = new CronService({
+    storePath,
+    cronEnabled: true,
+    log: logger,
+    enqueueSystemEvent,
+    requestHeartbeatNow: vi.fn(),
+    runIsolatedAgentJob,
+    onEvent: finished.onEvent,
+  });
+  return { cron, enqueueSystemEvent, finished, runIsolatedAgentJob };
+}
+
+describe("CronService job dependencies", () => {
+  it("runs onSuccess dependents with the upstream summary", async () => {
+    const store = await makeStorePath();
+    const { cron, enqueueSystemEvent, finished } = createCronService(store.storePath);
+    await cron.start();
+
+    try {
+      const fetch = await cron.add({
+        name: "fetch invoices",
+        enabled: true,
+        schedule: { kind: "every", everyMs: 3_600_000 },
+        sessionTarget: "isolated",
+        wakeMode: "next-heartbeat",
+        payload: { kind: "agentTurn", message: "fetch invoices" },
+        delivery: { mode: "none" },
+      });
+      const report = await cron.add({
+        name: "report",
+        enabled: true,
+        schedule: { kind: "after", onSuccess: fetch.id },
+        sessionTarget: "main",
+        wakeMode: "next-heartbeat",
+        payload: {
+          kind: "systemEvent",
+          text: "{{previous.jobName}} finished ({{previous.status}}): {{previous.summary}}",
+        },
+      });
+      const alert = await cron.add({
+        name: "alert",
+        enabled: true,
+        schedule: { kind: "after", onFailure: fetch.id },
+        sessionTarget: "main",
+        wakeMode: "next-heartbeat",
+        payload: { kind: "systemEvent", text: "fetch failed: {{previous.error}}" },
+      });
+      expect(report.state.nextRunAtMs).toBeUndefined();
+
+      await cron.run(fetch.id, "force");
+      await vi.runOnlyPendingTimersAsync();
+      await finished.waitForOk(report.id);
+
+      expect(enqueueSystemEvent).toHaveBeenCalledTimes(1);
+      expect(enqueueSystemEvent).toHaveBeenCalledWith(
+        "fetch invoices finished (ok): 3 new invoices",
+        expect.anything(),
+      );
+      const jobs = await cron.list({ includeDisabled: true });
+      const reportState = jobs.find((job) => job.id === report.id)?.state;
+      expect(reportState?.lastStatus).toBe("ok");
+      expect(reportState?.pendingTrigger).toBeUndefined();
+      expect(reportState?.nextRunAtMs).toBeUndefined();
+      expect(jobs.find((job) => job.id === alert.id)?.state.lastStatus).toBeUndefined();
+    } finally {
+      cron.stop();
+      await store.cleanup();
+    }
+  });
+
+  it("rejects unknown upstream jobs and dependency cycles", async () => {
+    const store = await makeStorePath();
+    const { cron } = createCronService(store.storePath);
+    await cron.start();
+
+    try {
+      const base = {
+        enabled: true,
+        sessionTarget: "main" as const,
+        wakeMode: "next-heartbeat" as const,
+        payload: { kind: "systemEvent" as const, text: "ping" },
+      };
+      await expect(
+        cron.add({ ...base, name: "orphan", schedule: { kind: "after", onSuccess: "missing" } }),
+      ).rejects.toThrow("unknown job id: missing");
+      await expect(
+        cron.add({ ...base, name: "empty", schedule: { kind: "after" } }),
+      ).rejects.toThrow("require onSuccess or onFailure");
+
+      const first = await cron.add({
+        ...base,
+        name: "first",
+        schedule: { kind: "every", everyMs: 60_000 },
+      });
+      const second = await cron.add({
+        ...base,
+        name: "second",
+        schedule: { kind: "after", onSuccess: first.id },
+      });
+      await expect(
+        cron.update(first.id, { schedule: { kind: "after", onFailure: second.id } }),
+      ).rejects.toThrow("cron dependency cycle: first would trigger itself");
+      expect(cron.getJob(first.id)?.schedule.kind).toBe("every");
+    } finally {
+      cron.stop();
+      await store.cleanup();
+    }
+  });
+
+  it("disables dependents when their upstream job is removed", async () => {
+    const store = await makeStorePath();
+    const { cron } = createCronService(store.storePath);
+    await cron.start();
+
+    try {
+      const base = {
+        enabled: true,
+        sessionTarget: "main" as const,
+        wakeMode: "next-heartbeat" as const,
+        payload: { kind: "systemEvent" as const, text: "ping" },
+      };
+      const upstream = await cron.add({
+        ...base,
+        name: "upstream",
+        schedule: { kind: "every", everyMs: 60_000 },
+      });
+      const dependent = await cron.add({
+        ...base,
+        name: "dependent",
+        schedule: { kind: "after", onSuccess: upstream.id },
+      });
+      logger.warn.mockClear();
+
+      await expect(cron.remove(upstream.id)).resolves.toEqual({ ok: true, removed: true });
+
+      expect(cron.getJob(dependent.id)?.enabled).toBe(false);
+      expect(logger.warn).toHaveBeenCalledWith(
+        { jobId: upstream.id, disabled: [dependent.id] },
+        "cron: disabled dependent jobs of removed job",
+      );
+      await expect(cron.update(dependent.id, { enabled: true })).rejects.toThrow(
+        `unknown job id: ${upstream.id}`,
+      );
+    } finally {
+      cron.stop();
+      await store.cleanup();
+    }
+  });
+});
@@ -0,0 +1,179 @@
+import type { CronJob, CronPayload, CronRunStatus, CronSchedule } from "../types.js";
+import type { CronServiceState } from "./state.js";
+
+type AfterSchedule = Extract<CronSchedule, { kind: "after" }>;
+
+const PREVIOUS_TEMPLATE_PATTERN = /{{\s*previous\.(\w+)\s*}}/g;
+
+function upstreamIds(schedule: AfterSchedule): string[] {
+  return [schedule.onSuccess, schedule.onFailure].filter((id): id is string => Boolean(id));
+}
+
+/**
+ * Ids of the jobs an `after` job waits on (empty for timer schedules).
+ */
+export function listUpstreamJobIds(job: Pick<CronJob, "schedule">): string[] {
+  return job.schedule.kind === "after" ? upstreamIds(job.schedule) : [];
+}
+
+/**
+ * Reject `after` schedules that point at unknown jobs or close a cycle.
+ * `jobs` is the store content including (or about to include) `job`.
+ */
+export function assertValidDependencies(jobs: CronJob[], job: CronJob) {
+  if (job.schedule.kind !== "after") {
+    return;
+  }
+  const upstream = upstreamIds(job.schedule);
+  if (upstream.length === 0) {
+    throw new Error('cron "after" schedules require onSuccess or onFailure');
+  }
+  const byId = new Map(jobs.map((entry) => [entry.id, entry]));
+  byId.set(job.id, job);
+  for (const id of upstream) {
+    if (!byId.has(id)) {
+      throw new Error(`cron dependency references unknown job id: ${id}`);
+    }
+  }
+  // Walk upstream from the job; reaching it again means the chain loops
+  const pending = [...upstream];
+  const visited = new Set<string>();
+  while (pending.length > 0) {
+    const id = pending.pop() as string;
+    if (id === job.id) {
+      throw new Error(`cron dependency cycle: ${job.name} would trigger itself`);
+    }
+    if (visited.has(id)) {
+      continue;
+    }
+    visited.add(id);
+    const upstreamJob = byId.get(id);
+    if (upstreamJob) {
+      pending.push(...listUpstreamJobIds(upstreamJob));
+    }
+  }
+}
+
+/**
+ * Disable enabled `after` jobs that wait on a job being removed, so they never sit
+ * armed behind a missing id. Callers persist the store and emit the updates.
+ */
+export function disableDependentJobs(
+  state: CronServiceState,
+  removedId: string,
+  nowMs: number,
+): CronJob[] {
+  const disabled: CronJob[] = [];
+  for (const job of state.store?.jobs ?? []) {
+    if (!job.enabled || !listUpstreamJobIds(job).includes(removedId)) {
+      continue;
+    }
+    job.enabled = false;
+    job.updatedAtMs = nowMs;
+    job.state.nextRunAtMs = undefined;
+    job.state.pendingTrigger = undefined;
+    disabled.push(job);
+  }
+  if (disabled.length > 0) {
+    state.deps.log.warn(
+      { jobId: removedId, disabled: disabled.map((job) => job.id) },
+      "cron: disabled dependent jobs of removed job",
+    );
+  }
+  return disabled;
+}
+
+/**
+ * Queue `after` jobs waiting on `upstream`. Each dependent becomes due
+ * immediately and remembers the upstream outcome for payload templating.
+ */
+export function triggerDependentJobs(
+  state: CronServiceState,
+  upstream: CronJob,
+  result: { status: CronRunStatus; summary?: string; error?: string; endedAt: number },
+): CronJob[] {
+  if (result.status === "skipped" || !state.store) {
+    return [];
+  }
+  const triggered: CronJob[] = [];
+  for (const job of state.store.jobs) {
+    if (!job.enabled || job.schedule.kind !== "after") {
+      continue;
+    }
+    const target = result.status === "ok" ? job.schedule.onSuccess : job.schedule.onFailure;
+    if (target !== upstream.id) {
+      continue;
+    }
+    job.state.pendingTrigger = {
+      jobId: upstream.id,
+      jobName: upstream.name,
+      status: result.status,
+      summary: result.summary,
+      error: result.error,
+      atMs: result.endedAt,
+    };
+    job.state.nextRunAtMs = result.endedAt;
+    triggered.push(job);
+  }
+  if (triggered.length > 0) {
+    state.deps.log.info(
+      { jobId: upstream.id, status: result.status, triggered: triggered.map((job) => job.id) },
+      "cron: triggered dependent jobs",
+    );
+  }
+  return triggered;
+}
+
+function renderPreviousTemplate(text: string, job: CronJob): string {
+  const trigger = job.state.pendingTrigger;
+  return text.replace(PREVIOUS_TEMPLATE_PATTERN, (_, key: string) => {
+    if (!trigger) {
+      return "";
+    }
+    switch (key) {
+      case "summary":
+        return trigger.summary ?? "";
+      case "status":
+        return trigger.status;
+      case "error":
+        return trigger.error ?? "";
+      case "jobId":
+        return trigger.jobId;
+      case "jobName":
+        return trigger.jobName;
+      default:
+        return "";
+    }
+  });
+}
+
+function renderParams(value: unknown, job: CronJob): unknown {
+  if (typeof value === "string") {
+    return renderPreviousTemplate(value, job);
+  }
+  if (Array.isArray(value)) {
+    return value.map((entry) => renderParams(entry, job));
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, renderParams(entry, job)]),
+    );
+  }
+  return value;
+}
+
+/**
+ * Fill `{{previous.summary}}`, `{{previous.status}}`, `{{previous.error}}`,
+ * `{{previous.jobId}}` and `{{previous.jobName}}` from the triggering run.
+ * Placeholders render empty when the job runs without a trigger (e.g. forced).
+ */
+export function renderDependentPayload(job: CronJob): CronPayload {
+  const payload = job.payload;
+  if (payload.kind === "systemEvent") {
+    return { ...payload, text: renderPreviousTemplate(payload.text, job) };
+  }
+  if (payload.kind === "agentTurn") {
+    return { ...payload, message: renderPreviousTemplate(payload.message, job) };
+  }
+  return { ...payload, params: renderParams(payload.params, job) as Record<string, unknown> };
+}
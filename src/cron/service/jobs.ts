@@ -122,6 +122,9 @@ export function computeJobNextRunAtMs(job: CronJob, nowMs: number): number | und
     });
     return computeNextRunAtMs({ ...job.schedule, anchorMs }, nowMs);
   }
+  if (job.schedule.kind === "after") {
+    return job.state.pendingTrigger?.atMs;
+  }
   if (job.schedule.kind === "at") {
     // One-shot jobs stay due until they successfully finish.
     if (job.state.lastStatus === "ok" && job.state.lastRunAtMs) {
@@ -400,6 +403,9 @@ export function applyJobPatch(job: CronJob, patch: CronJobPatch) {
     } else {
       job.schedule = patch.schedule;
     }
+    if (job.schedule.kind !== "after") {
+      job.state.pendingTrigger = undefined;
+    }
   }
   if (patch.sessionTarget) {
     job.sessionTarget = patch.sessionTarget;
@@ -1,4 +1,5 @@
 import type { CronJobCreate, CronJobPatch } from "../types.js";
+import { assertValidDependencies, disableDependentJobs } from "./dependencies.js";
 import {
   applyJobPatch,
   computeJobNextRunAtMs,
@@ -91,6 +92,7 @@ export async function add(state: CronServiceState, input: CronJobCreate) {
     warnIfDisabled(state, "add");
     await ensureLoaded(state);
     const job = createJob(state, input);
+    assertValidDependencies(state.store?.jobs ?? [], job);
     state.store?.jobs.push(job);
 
     // Defensive: recompute all next-run times to ensure consistency
@@ -126,6 +128,13 @@ export async function update(state: CronServiceState, id: string, patch: CronJob
     await ensureLoaded(state, { skipRecompute: true });
     const job = findJobOrThrow(state, id);
     const now = state.deps.nowMs();
+    if (patch.schedule || patch.enabled === true) {
+      // Validate before mutating so a rejected patch leaves the loaded store intact
+      assertValidDependencies(state.store?.jobs ?? [], {
+        ...job,
+        schedule: patch.schedule ?? job.schedule,
+      });
+    }
     applyJobPatch(job, patch);
     if (job.schedule.kind === "every") {
       const anchor = job.schedule.anchorMs;
@@ -184,11 +193,15 @@ export async function remove(state: CronServiceState, id: string) {
     }
     state.store.jobs = state.store.jobs.filter((j) => j.id !== id);
     const removed = (state.store.jobs.length ?? 0) !== before;
+    const disabled = removed ? disableDependentJobs(state, id, state.deps.nowMs()) : [];
     await persist(state);
     armTimer(state);
     if (removed) {
       emit(state, { jobId: id, action: "removed" });
     }
+    for (const job of disabled) {
+      emit(state, { jobId: job.id, action: "updated", nextRunAtMs: undefined });
+    }
     return { ok: true, removed } as const;
   });
 }
@@ -3,6 +3,7 @@ import { DEFAULT_AGENT_ID } from "../../routing/session-key.js";
 import { resolveCronDeliveryPlan } from "../delivery.js";
 import { sweepCronRunSessions } from "../session-reaper.js";
 import type { CronJob, CronRunOutcome, CronRunStatus, CronRunTelemetry } from "../types.js";
+import { renderDependentPayload, triggerDependentJobs } from "./dependencies.js";
 import {
   computeJobNextRunAtMs,
   nextWakeAtMs,
@@ -88,7 +89,14 @@ function applyJobResult(
     job.schedule.kind === "at" && job.deleteAfterRun === true && result.status === "ok";
 
   if (!shouldDelete) {
-    if (job.schedule.kind === "at") {
+    if (job.schedule.kind === "after") {
+      // Consume the trigger that started this run; a newer one queues the next run.
+      const trigger = job.state.pendingTrigger;
+      if (trigger && trigger.atMs <= result.startedAt) {
+        job.state.pendingTrigger = undefined;
+      }
+      job.state.nextRunAtMs = computeJobNextRunAtMs(job, result.endedAt);
+    } else if (job.schedule.kind === "at") {
       // One-shot jobs are always disabled after ANY terminal status
       // (ok, error, or skipped). This prevents tight-loop rescheduling
       // when computeJobNextRunAtMs returns the past atMs value (#11452).
@@ -308,6 +316,7 @@ export async function onTimer(state: CronServiceState) {
             startedAt: result.startedAt,
             endedAt: result.endedAt,
           });
+          triggerDependentJobs(state, job, result);
 
           emitJobFinished(state, job, result, result.startedAt);
 
@@ -454,8 +463,13 @@ export async function runDueJobs(state: CronServiceState) {
 
 async function executeJobCore(
   state: CronServiceState,
-  job: CronJob,
+  scheduledJob: CronJob,
 ): Promise<CronRunOutcome & CronRunTelemetry> {
+  // Dependent jobs see the triggering run through {{previous.*}} placeholders
+  const job: CronJob =
+    scheduledJob.schedule.kind === "after"
+      ? { ...scheduledJob, payload: renderDependentPayload(scheduledJob) }
+      : scheduledJob;
   if (job.sessionTarget === "main") {
     const text = resolveJobPayloadTextForMain(job);
     if (!text) {
@@ -640,6 +654,7 @@ export async function executeJob(
     startedAt,
     endedAt,
   });
+  triggerDependentJobs(state, job, { ...coreResult, endedAt });
 
   emitJobFinished(state, job, coreResult, startedAt);
 
@@ -9,6 +9,14 @@ export type CronSchedule =
       tz?: string;
       /** Optional deterministic stagger window in milliseconds (0 keeps exact schedule). */
       staggerMs?: number;
+    }
+  | {
+      /** Runs when another job finishes, instead of on a timer. */
+      kind: "after";
+      /** Run after this job id finishes with status "ok". */
+      onSuccess?: string;
+      /** Run after this job id finishes with status "error". */
+      onFailure?: string;
     };
 
 export type CronSessionTarget = "main" | "isolated" | "direct";
@@ -30,6 +38,7 @@ export type CronDeliveryPatch = Partial<CronDelivery>;
 /** Static enum of allowed direct call function names */
 export enum DirectCallFunctionName {
   ELEVENLABS_INITIATE_CALL = "elevenlabs.initiateCall",
+  LINKEDIN_RUN_SAVED_SEARCH = "linkedin.runSavedSearch",
 }
 export type CronRunStatus = "ok" | "error" | "skipped";
 
@@ -98,6 +107,16 @@ export type CronPayloadPatch =
       params?: Record<string, unknown>;
     };
 
+/** Upstream run that triggered an `after` job; fills `{{previous.*}}` payload templates. */
+export type CronJobTrigger = {
+  jobId: string;
+  jobName: string;
+  status: "ok" | "error";
+  summary?: string;
+  error?: string;
+  atMs: number;
+};
+
 export type CronJobState = {
   nextRunAtMs?: number;
   runningAtMs?: number;
@@ -109,6 +128,8 @@ export type CronJobState = {
   consecutiveErrors?: number;
   /** Number of consecutive schedule computation errors. Auto-disables job after threshold. */
   scheduleErrorCount?: number;
+  /** Set when an upstream job finished and this `after` job is waiting to run. */
+  pendingTrigger?: CronJobTrigger;
 };
 
 export type CronJob = {
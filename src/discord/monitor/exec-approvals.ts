@@ -87,7 +87,12 @@ export function parseExecApprovalData(
     return null;
   }
   const action = rawAction as ExecApprovalDecision;
-  if (action !== "allow-once" && action !== "allow-always" && action !== "deny") {
+  if (
+    action !== "allow-once" &&
+    action !== "allow-always" &&
+    action !== "allow-similar" &&
+    action !== "deny"
+  ) {
     return null;
   }
   return {
@@ -170,6 +175,12 @@ class ExecApprovalActionRow extends Row<Button> {
         label: "Always allow",
         style: ButtonStyle.Primary,
       }),
+      new ExecApprovalActionButton({
+        approvalId,
+        action: "allow-similar",
+        label: "Allow similar",
+        style: ButtonStyle.Secondary,
+      }),
       new ExecApprovalActionButton({
         approvalId,
         action: "deny",
@@ -263,7 +274,9 @@ function createResolvedContainer(params: {
       ? "Allowed (once)"
       : params.decision === "allow-always"
         ? "Allowed (always)"
-        : "Denied";
+        : params.decision === "allow-similar"
+          ? "Allowed (similar)"
+          : "Denied";
 
   const accentColor =
     params.decision === "deny"
@@ -777,7 +790,9 @@ export class ExecApprovalButton extends Button {
         ? "Allowed (once)"
         : parsed.action === "allow-always"
           ? "Allowed (always)"
-          : "Denied";
+          : parsed.action === "allow-similar"
+            ? "Allowed (similar)"
+            : "Denied";
 
     // Update the message immediately to show the decision
     try {
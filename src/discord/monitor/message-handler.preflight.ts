@@ -252,6 +252,14 @@ export async function preflightDiscordMessage(
     },
     // Pass parent peer for thread binding inheritance
     parentPeer: earlyThreadParentId ? { kind: "channel", id: earlyThreadParentId } : undefined,
+    message: {
+      text: baseText,
+      attachments:
+        message.attachments?.flatMap((att: { contentType?: string }) =>
+          att.contentType ? [att.contentType] : [],
+        ) ?? [],
+      timestamp: resolveTimestampMs(message.timestamp),
+    },
   });
   const mentionRegexes = buildMentionRegexes(params.cfg, route.agentId);
   const explicitlyMentioned = Boolean(
@@ -0,0 +1,171 @@
+/**
+ * ElevenLabs Agents - Campaign Storage
+ *
+ * Persist calling campaigns and the do-not-call list to workspace JSON files so
+ * the campaign runner can resume across gateway restarts.
+ */
+
+import path from "node:path";
+import { createAsyncLock, readJsonFile, writeJsonAtomic } from "../infra/json-files.js";
+import { normalizeE164 } from "../utils.js";
+import type { CallCampaign, CallCampaignStore, DoNotCallEntry, DoNotCallStore } from "./types.js";
+
+const CAMPAIGN_STORE_FILENAME = "elevenlabs-campaigns.json";
+const DO_NOT_CALL_FILENAME = "elevenlabs-do-not-call.json";
+
+// Finished campaigns are kept for a month so reports can still be pulled
+const RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+const withCampaignLock = createAsyncLock();
+const withDoNotCallLock = createAsyncLock();
+
+// =============================================================================
+// Campaigns
+// =============================================================================
+
+/**
+ * Get the campaign store path for a workspace directory.
+ */
+export function getCampaignStorePath(workspaceDir: string): string {
+  return path.join(workspaceDir, CAMPAIGN_STORE_FILENAME);
+}
+
+function cleanupOldCampaigns(store: CallCampaignStore, now: number): CallCampaignStore {
+  const campaigns: Record<string, CallCampaign> = {};
+  for (const [id, campaign] of Object.entries(store.campaigns)) {
+    const finishedAt = campaign.completed_at ? Date.parse(campaign.completed_at) : NaN;
+    if (Number.isFinite(finishedAt) && now - finishedAt > RETENTION_MS) {
+      continue;
+    }
+    campaigns[id] = campaign;
+  }
+  return { campaigns };
+}
+
+/**
+ * Read the campaign store for a workspace.
+ */
+export async function readCampaignStore(workspaceDir: string): Promise<CallCampaignStore> {
+  const raw = await readJsonFile<CallCampaignStore>(getCampaignStorePath(workspaceDir));
+  if (!raw || typeof raw !== "object" || !raw.campaigns || typeof raw.campaigns !== "object") {
+    return { campaigns: {} };
+  }
+  return { campaigns: raw.campaigns };
+}
+
+/**
+ * Get a single campaign.
+ */
+export async function getCallCampaign(
+  workspaceDir: string,
+  campaignId: string,
+): Promise<CallCampaign | undefined> {
+  const store = await readCampaignStore(workspaceDir);
+  return store.campaigns[campaignId];
+}
+
+/**
+ * List campaigns, newest first.
+ */
+export async function listCallCampaigns(workspaceDir: string): Promise<CallCampaign[]> {
+  const store = await readCampaignStore(workspaceDir);
+  return Object.values(store.campaigns).toSorted((a, b) =>
+    b.created_at.localeCompare(a.created_at),
+  );
+}
+
+/**
+ * Apply a mutation to a campaign under the store lock.
+ * Creates the campaign when `update` receives undefined and returns a value.
+ */
+export async function updateCallCampaign(
+  workspaceDir: string,
+  campaignId: string,
+  update: (campaign: CallCampaign | undefined) => CallCampaign | undefined,
+): Promise<CallCampaign | undefined> {
+  return await withCampaignLock(async () => {
+    const store = cleanupOldCampaigns(await readCampaignStore(workspaceDir), Date.now());
+    const next = update(store.campaigns[campaignId]);
+    if (!next) {
+      return store.campaigns[campaignId];
+    }
+    store.campaigns[campaignId] = { ...next, updated_at: new Date().toISOString() };
+    await writeJsonAtomic(getCampaignStorePath(workspaceDir), store);
+    return store.campaigns[campaignId];
+  });
+}
+
+// =============================================================================
+// Do-Not-Call List
+// =============================================================================
+
+export function getDoNotCallPath(workspaceDir: string): string {
+  return path.join(workspaceDir, DO_NOT_CALL_FILENAME);
+}
+
+/**
+ * Read the do-not-call list for a workspace.
+ */
+export async function readDoNotCallStore(workspaceDir: string): Promise<DoNotCallStore> {
+  const raw = await readJsonFile<DoNotCallStore>(getDoNotCallPath(workspaceDir));
+  if (!raw || typeof raw !== "object" || !raw.numbers || typeof raw.numbers !== "object") {
+    return { numbers: {} };
+  }
+  return { numbers: raw.numbers };
+}
+
+/**
+ * Check whether a number is on the do-not-call list.
+ */
+export async function isDoNotCall(workspaceDir: string, toNumber: string): Promise<boolean> {
+  const store = await readDoNotCallStore(workspaceDir);
+  return Boolean(store.numbers[normalizeE164(toNumber)]);
+}
+
+/**
+ * Add numbers to the do-not-call list. Returns the normalized numbers.
+ */
+export async function addDoNotCallNumbers(
+  workspaceDir: string,
+  numbers: string[],
+  reason?: string,
+): Promise<string[]> {
+  return await withDoNotCallLock(async () => {
+    const store = await readDoNotCallStore(workspaceDir);
+    const added: string[] = [];
+    const entry: DoNotCallEntry = { added_at: new Date().toISOString(), reason };
+    for (const number of numbers) {
+      const normalized = normalizeE164(number);
+      if (normalized.length > 1) {
+        store.numbers[normalized] = store.numbers[normalized] ?? entry;
+        added.push(normalized);
+      }
+    }
+    await writeJsonAtomic(getDoNotCallPath(workspaceDir), store);
+    return added;
+  });
+}
+
+/**
+ * Remove numbers from the do-not-call list. Returns the numbers that were listed.
+ */
+export async function removeDoNotCallNumbers(
+  workspaceDir: string,
+  numbers: string[],
+): Promise<string[]> {
+  return await withDoNotCallLock(async () => {
+    const store = await readDoNotCallStore(workspaceDir);
+    const removed: string[] = [];
+    for (const number of numbers) {
+      const normalized = normalizeE164(number);
+      if (store.numbers[normalized]) {
+        delete store.numbers[normalized];
+        removed.push(normalized);
+      }
+    }
+    if (removed.length > 0) {
+      await writeJsonAtomic(getDoNotCallPath(workspaceDir), store);
+    }
+    return removed;
+  });
+}
@@ -0,0 +1,285 @@
+import fs from "node:fs/promises";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { OpenClawConfig } from "../config/config.js";
+import { peekSystemEvents, resetSystemEventsForTest } from "../infra/system-events.js";
+import { makeTempWorkspace } from "../test-helpers/workspace.js";
+import { addDoNotCallNumbers, getCallCampaign, updateCallCampaign } from "./campaign-store.js";
+import {
+  advanceCallCampaign,
+  buildCampaignReport,
+  createCallCampaign,
+  parseCampaignCsv,
+  runCallCampaignsOnce,
+  type PlaceCampaignCall,
+} from "./campaigns.js";
+import { saveConversation } from "./store.js";
+
+const heartbeatMock = vi.hoisted(() => vi.fn());
+
+vi.mock("../infra/heartbeat-wake.js", () => ({ requestHeartbeatNow: heartbeatMock }));
+
+const cfg = {
+  agents: { defaults: { userTimezone: "Europe/London" } },
+  tools: { elevenlabsAgents: { campaigns: { maxAttempts: 2, retryDelayMinutes: 60 } } },
+} as unknown as OpenClawConfig;
+
+// Tuesday 14:00 in London, 10:00 in New York, 23:00 in Tokyo
+const TUESDAY_AFTERNOON = Date.parse("2026-03-10T14:00:00Z");
+
+describe("parseCampaignCsv", () => {
+  it("maps the phone and time zone columns and keeps the rest as variables", () => {
+    const { recipients, errors } = parseCampaignCsv(
+      [
+        "Phone,candidate_name,position,TZ",
+        '+44 7700 900001,"Lovelace, Ada",Engineer,Europe/London',
+        ",Missing Number,Engineer,",
+        '+1 (555) 010-0002,"Grace ""Amazing"" Hopper",,',
+      ].join("\r\n"),
+    );
+    expect(errors).toEqual(["row 2: missing phone number"]);
+    expect(recipients).toEqual([
+      {
+        to_number: "+44 7700 900001",
+        time_zone: "Europe/London",
+        dynamic_variables: { candidate_name: "Lovelace, Ada", position: "Engineer" },
+      },
+      {
+        to_number: "+1 (555) 010-0002",
+        time_zone: undefined,
+        dynamic_variables: { candidate_name: 'Grace "Amazing" Hopper' },
+      },
+    ]);
+  });
+});
+
+describe("call campaigns", () => {
+  let workspaceDir: string;
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(TUESDAY_AFTERNOON);
+    workspaceDir = await makeTempWorkspace("openclaw-campaigns-");
+    heartbeatMock.mockClear();
+    resetSystemEventsForTest();
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await fs.rm(workspaceDir, { recursive: true, force: true });
+  });
+
+  const recipient = (toNumber: string, name: string, timeZone?: string) => ({
+    to_number: toNumber,
+    time_zone: timeZone,
+    dynamic_variables: { candidate_name: name },
+  });
+
+  function createPlacer() {
+    const calls: string[] = [];
+    const placeCall: PlaceCampaignCall = async ({ toNumber, dynamicVariables }) => {
+      calls.push(`${toNumber} ${dynamicVariables.campaign_id}`);
+      return `conv-${calls.length}`;
+    };
+    return { calls, placeCall };
+  }
+
+  it("validates recipients and honours the do-not-call list", async () => {
+    await addDoNotCallNumbers(workspaceDir, ["+44 7700 900003"], "asked not to be called");
+    const { campaign, rejected } = await createCallCampaign({
+      cfg,
+      workspaceDir,
+      name: "Spring screening",
+      recipients: [
+        recipient("+447700900001", "Ada"),
+        recipient("+44 7700 900001", "Ada again"),
+        recipient("12", "Too short"),
+        { to_number: "+447700900002", dynamic_variables: {} },
+        recipient("+447700900004", "Bad zone", "Mars/Olympus"),
+        recipient("+447700900003", "Listed"),
+      ],
+    });
+    expect(rejected).toEqual([
+      "row 2: duplicate number +447700900001",
+      'row 3: invalid phone number "12"',
+      "row 4: candidate_name is required",
+      'row 5: invalid time zone "Mars/Olympus"',
+    ]);
+    expect(campaign.recipients.map((entry) => [entry.to_number, entry.status])).toEqual([
+      ["+447700900001", "queued"],
+      ["+447700900003", "do_not_call"],
+    ]);
+    expect(campaign.settings).toMatchObject({ max_attempts: 2, retry_delay_minutes: 60 });
+  });
+
+  it("limits concurrency, respects calling hours and retries unanswered calls", async () => {
+    const { campaign } = await createCallCampaign({
+      cfg,
+      workspaceDir,
+      name: "Batch",
+      maxConcurrentCalls: 2,
+      recipients: [
+        recipient("+81300000001", "Tokyo", "Asia/Tokyo"),
+        recipient("+447700900001", "Ada"),
+        recipient("+447700900002", "Grace"),
+        recipient("+12125550003", "Katherine", "America/New_York"),
+      ],
+    });
+    const { calls, placeCall } = createPlacer();
+
+    // Tokyo is outside calling hours; two calls max in flight
+    let result = await advanceCallCampaign({ workspaceDir, campaign, placeCall });
+    expect(calls).toEqual([
+      `+447700900001 ${campaign.campaign_id}`,
+      `+447700900002 ${campaign.campaign_id}`,
+    ]);
+    expect(result.callsPlaced).toBe(2);
+
+    // Ada answers, Grace does not pick up
+    await saveConversation(workspaceDir, "conv-1", {
+      initiated_at: new Date().toISOString(),
+      to_number: "+447700900001",
+      status: "done",
+      transcript: [
+        { role: "agent", message: "Hi Ada" },
+        { role: "user", message: "Hello!" },
+      ],
+    });
+    await saveConversation(workspaceDir, "conv-2", {
+      initiated_at: new Date().toISOString(),
+      to_number: "+447700900002",
+      status: "failed",
+    });
+    vi.setSystemTime(TUESDAY_AFTERNOON + 5 * 60_000);
+    result = await advanceCallCampaign({
+      workspaceDir,
+      campaign: result.campaign,
+      placeCall,
+    });
+    expect(calls.at(-1)).toBe(`+12125550003 ${campaign.campaign_id}`);
+    expect(result.campaign.recipients.map((entry) => entry.status)).toEqual([
+      "queued",
+      "completed",
+      "retry_wait",
+      "calling",
+    ]);
+
+    // Grace is retried after the delay; her second miss is final (max 2 attempts)
+    vi.setSystemTime(TUESDAY_AFTERNOON + 66 * 60_000);
+    result = await advanceCallCampaign({
+      workspaceDir,
+      campaign: result.campaign,
+      placeCall,
+    });
+    expect(calls.at(-1)).toBe(`+447700900002 ${campaign.campaign_id}`);
+    await saveConversation(workspaceDir, "conv-4", {
+      initiated_at: new Date().toISOString(),
+      to_number: "+447700900002",
+      status: "failed",
+    });
+    result = await advanceCallCampaign({
+      workspaceDir,
+      campaign: result.campaign,
+      placeCall,
+    });
+    const grace = result.campaign.recipients[2];
+    expect(grace).toMatchObject({
+      status: "no_answer",
+      attempts: 2,
+      conversation_ids: ["conv-2", "conv-4"],
+    });
+
+    const report = await buildCampaignReport(workspaceDir, result.campaign);
+    expect(report).toMatchObject({
+      total: 4,
+      calls_placed: 4,
+      by_status: { queued: 1, completed: 1, no_answer: 1, calling: 1 },
+    });
+  });
+
+  it("polls calls the webhook has not settled and merges rows into the stored campaign", async () => {
+    const { campaign } = await createCallCampaign({
+      cfg,
+      workspaceDir,
+      name: "Polled",
+      maxConcurrentCalls: 1,
+      recipients: [recipient("+447700900001", "Ada"), recipient("+447700900002", "Grace")],
+    });
+    const { placeCall } = createPlacer();
+    const refreshed: string[] = [];
+    const refreshCall = vi.fn(async ({ conversationId }: { conversationId: string }) => {
+      refreshed.push(conversationId);
+      const conversation = {
+        initiated_at: new Date().toISOString(),
+        to_number: "+447700900001",
+        status: "done" as const,
+        transcript: [{ role: "user" as const, message: "Hello!" }],
+      };
+      await saveConversation(workspaceDir, conversationId, conversation);
+      return conversation;
+    });
+
+    const first = await advanceCallCampaign({ workspaceDir, campaign, placeCall, refreshCall });
+    expect(refreshCall).not.toHaveBeenCalled();
+
+    // Grace opts out while the runner is working from its earlier snapshot
+    await updateCallCampaign(workspaceDir, campaign.campaign_id, (current) =>
+      current
+        ? {
+            ...current,
+            recipients: current.recipients.map((entry) =>
+              entry.row === 2 ? { ...entry, status: "do_not_call" as const } : entry,
+            ),
+          }
+        : undefined,
+    );
+    vi.setSystemTime(TUESDAY_AFTERNOON + 5 * 60_000);
+    const second = await advanceCallCampaign({
+      workspaceDir,
+      campaign: first.campaign,
+      refreshCall,
+    });
+
+    expect(refreshed).toEqual(["conv-1"]);
+    expect(second.campaign.recipients.map((entry) => entry.status)).toEqual([
+      "completed",
+      "do_not_call",
+    ]);
+    expect(second.campaign.status).toBe("completed");
+  });
+
+  it("completes finished campaigns and notifies the creating session once", async () => {
+    const { campaign } = await createCallCampaign({
+      cfg,
+      workspaceDir,
+      name: "Single",
+      sessionKey: "agent:main:slack:dm:u1",
+      recipients: [recipient("+447700900001", "Ada")],
+    });
+    const { placeCall } = createPlacer();
+    await runCallCampaignsOnce({ cfg, workspaceDirs: [workspaceDir], placeCall });
+    await saveConversation(workspaceDir, "conv-1", {
+      initiated_at: new Date().toISOString(),
+      to_number: "+447700900001",
+      status: "done",
+      transcript: [{ role: "user", message: "Not interested, thanks." }],
+      post_call: {
+        status: "done",
+        started_at: new Date().toISOString(),
+        extraction: { outcome: "not_interested", source: "data_collection" },
+        actions: [],
+      },
+    });
+
+    await runCallCampaignsOnce({ cfg, workspaceDirs: [workspaceDir], placeCall });
+    await runCallCampaignsOnce({ cfg, workspaceDirs: [workspaceDir], placeCall });
+
+    const stored = await getCallCampaign(workspaceDir, campaign.campaign_id);
+    expect(stored?.status).toBe("completed");
+    expect(stored?.notified_at).toBeDefined();
+    const events = peekSystemEvents("agent:main:slack:dm:u1");
+    expect(events).toHaveLength(1);
+    expect(events[0]).toContain('Call campaign "Single"');
+    expect(events[0]).toContain("Outcomes: not interested 1.");
+    expect(heartbeatMock).toHaveBeenCalledTimes(1);
+  });
+});
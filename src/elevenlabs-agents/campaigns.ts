@@ -0,0 +1,722 @@
+/**
+ * ElevenLabs Agents - Calling Campaigns
+ *
+ * Works through a list of recipients with per-row dynamic variables: limits
+ * concurrent calls, only dials inside calling hours in each recipient's time
+ * zone, retries unanswered calls, skips the do-not-call list, and reports
+ * progress from the stored conversations.
+ */
+
+import { randomUUID } from "node:crypto";
+import { listAgentIds, resolveAgentWorkspaceDir } from "../agents/agent-scope.js";
+import { isWithinWorkingHours } from "../calendar-availability/availability.js";
+import { isValidTimeZone } from "../calendar-availability/time-zone.js";
+import type { OpenClawConfig } from "../config/config.js";
+import { resolveMainSessionKey } from "../config/sessions/main-session.js";
+import { requestHeartbeatNow } from "../infra/heartbeat-wake.js";
+import { enqueueSystemEvent } from "../infra/system-events.js";
+import { createSubsystemLogger } from "../logging/subsystem.js";
+import { normalizeE164 } from "../utils.js";
+import { listCallCampaigns, readDoNotCallStore, updateCallCampaign } from "./campaign-store.js";
+import {
+  buildClientOptions,
+  classifyElevenLabsError,
+  getConversation,
+  initiateOutboundCall,
+} from "./client.js";
+import { isElevenLabsAgentsConfigured, resolveElevenLabsAgentsConfig } from "./config.js";
+import {
+  createInitialStoredConversation,
+  getPreviousCallSummary,
+  readStore,
+  saveConversation,
+  updateConversationFromApi,
+} from "./store.js";
+import { resolveAvailableSlotsVariable } from "./talently-interview.js";
+import type {
+  CallCampaign,
+  CampaignRecipient,
+  CampaignRecipientStatus,
+  CampaignReport,
+  CampaignReportRecipient,
+  StoredConversation,
+} from "./types.js";
+
+const log = createSubsystemLogger("elevenlabs-campaigns");
+
+const DEFAULT_TICK_MS = 30_000;
+
+/** Calls with no final status after this long count as unanswered. */
+const STALE_CALL_MS = 2 * 60 * 60 * 1000;
+
+const E164_PATTERN = /^\+\d{7,15}$/;
+
+const PHONE_COLUMNS = ["to_number", "phone", "phone_number", "number"];
+const TIME_ZONE_COLUMNS = new Set(["time_zone", "timezone", "tz"]);
+
+const TERMINAL_STATUSES: ReadonlySet<CampaignRecipientStatus> = new Set([
+  "completed",
+  "no_answer",
+  "failed",
+  "do_not_call",
+  "cancelled",
+]);
+
+export function isRecipientFinished(recipient: CampaignRecipient): boolean {
+  return TERMINAL_STATUSES.has(recipient.status);
+}
+
+// =============================================================================
+// Recipient Import
+// =============================================================================
+
+export type CampaignRecipientInput = {
+  to_number: string;
+  time_zone?: string;
+  dynamic_variables?: Record<string, string>;
+};
+
+/**
+ * Split CSV text into rows (RFC 4180 quoting, CRLF or LF line endings).
+ */
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i += 1) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") {
+        i += 1;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+}
+
+/**
+ * Parse a recipient list. The header row names the columns: a phone column
+ * (to_number, phone, phone_number or number), an optional time zone column
+ * (time_zone, timezone or tz); every other column becomes a dynamic variable.
+ */
+export function parseCampaignCsv(text: string): {
+  recipients: CampaignRecipientInput[];
+  errors: string[];
+} {
+  const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ""));
+  if (!header) {
+    return { recipients: [], errors: ["CSV is empty"] };
+  }
+  const columns = header.map((cell) => cell.trim().toLowerCase());
+  const phoneIndex = columns.findIndex((column) => PHONE_COLUMNS.includes(column));
+  if (phoneIndex < 0) {
+    return {
+      recipients: [],
+      errors: [`CSV needs a phone column (${PHONE_COLUMNS.join(", ")})`],
+    };
+  }
+  const timeZoneIndex = columns.findIndex((column) => TIME_ZONE_COLUMNS.has(column));
+
+  const recipients: CampaignRecipientInput[] = [];
+  const errors: string[] = [];
+  rows.forEach((cells, index) => {
+    const toNumber = cells[phoneIndex]?.trim();
+    if (!toNumber) {
+      errors.push(`row ${index + 1}: missing phone number`);
+      return;
+    }
+    const dynamicVariables: Record<string, string> = {};
+    columns.forEach((column, columnIndex) => {
+      const value = cells[columnIndex]?.trim();
+      if (column && value && columnIndex !== phoneIndex && columnIndex !== timeZoneIndex) {
+        dynamicVariables[column] = value;
+      }
+    });
+    recipients.push({
+      to_number: toNumber,
+      time_zone: timeZoneIndex >= 0 ? cells[timeZoneIndex]?.trim() || undefined : undefined,
+      dynamic_variables: dynamicVariables,
+    });
+  });
+  return { recipients, errors };
+}
+
+// =============================================================================
+// Campaign Creation
+// =============================================================================
+
+export type CreateCallCampaignResult = {
+  campaign: CallCampaign;
+  /** Rows that were not added, with the reason. */
+  rejected: string[];
+};
+
+/**
+ * Validate recipients and store a new active campaign.
+ */
+export async function createCallCampaign(params: {
+  cfg: OpenClawConfig;
+  workspaceDir: string;
+  name: string;
+  recipients: CampaignRecipientInput[];
+  sessionKey?: string;
+  maxConcurrentCalls?: number;
+  maxAttempts?: number;
+  retryDelayMinutes?: number;
+  timeZone?: string;
+  now?: number;
+}): Promise<CreateCallCampaignResult> {
+  const config = resolveElevenLabsAgentsConfig(params.cfg);
+  const defaults = config.campaigns;
+  const defaultTimeZone = params.timeZone?.trim() || defaults.timeZone;
+  if (!isValidTimeZone(defaultTimeZone)) {
+    throw new Error(`Invalid time zone: ${defaultTimeZone}`);
+  }
+  const doNotCall = await readDoNotCallStore(params.workspaceDir);
+
+  const recipients: CampaignRecipient[] = [];
+  const rejected: string[] = [];
+  const seen = new Set<string>();
+  params.recipients.forEach((input, index) => {
+    const row = index + 1;
+    const toNumber = normalizeE164(input.to_number ?? "");
+    if (!E164_PATTERN.test(toNumber)) {
+      rejected.push(`row ${row}: invalid phone number "${input.to_number}"`);
+      return;
+    }
+    if (seen.has(toNumber)) {
+      rejected.push(`row ${row}: duplicate number ${toNumber}`);
+      return;
+    }
+    const timeZone = input.time_zone?.trim() || defaultTimeZone;
+    if (!isValidTimeZone(timeZone)) {
+      rejected.push(`row ${row}: invalid time zone "${timeZone}"`);
+      return;
+    }
+    const dynamicVariables = input.dynamic_variables ?? {};
+    if (!(dynamicVariables.candidate_name ?? config.defaultDynamicVariables.candidate_name)) {
+      rejected.push(`row ${row}: candidate_name is required`);
+      return;
+    }
+    seen.add(toNumber);
+    recipients.push({
+      row,
+      to_number: toNumber,
+      dynamic_variables: dynamicVariables,
+      time_zone: timeZone,
+      status: doNotCall.numbers[toNumber] ? "do_not_call" : "queued",
+      attempts: 0,
+      conversation_ids: [],
+    });
+  });
+  if (recipients.length === 0) {
+    throw new Error(
+      `No valid recipients${rejected.length > 0 ? `: ${rejected.slice(0, 5).join("; ")}` : ""}`,
+    );
+  }
+
+  const createdAt = new Date(params.now ?? Date.now()).toISOString();
+  const campaignId = `camp_${randomUUID().slice(0, 8)}`;
+  const campaign: CallCampaign = {
+    campaign_id: campaignId,
+    name: params.name.trim() || campaignId,
+    status: "active",
+    created_at: createdAt,
+    updated_at: createdAt,
+    session_key: params.sessionKey,
+    settings: {
+      max_concurrent_calls: Math.max(1, params.maxConcurrentCalls ?? defaults.maxConcurrentCalls),
+      calling_hours: defaults.callingHours,
+      max_attempts: Math.max(1, params.maxAttempts ?? defaults.maxAttempts),
+      retry_delay_minutes: Math.max(1, params.retryDelayMinutes ?? defaults.retryDelayMinutes),
+    },
+    recipients,
+  };
+  const saved = await updateCallCampaign(params.workspaceDir, campaignId, () => campaign);
+  return { campaign: saved ?? campaign, rejected };
+}
+
+// =============================================================================
+// Call Placement
+// =============================================================================
+
+/**
+ * Place one call and return its conversation id. Throws on failure.
+ */
+export type PlaceCampaignCall = (params: {
+  workspaceDir: string;
+  toNumber: string;
+  dynamicVariables: Record<string, string>;
+}) => Promise<string>;
+
+/**
+ * Call placer backed by the ElevenLabs API (same variables as initiate_call).
+ * Returns undefined when ElevenLabs is not fully configured.
+ */
+export function createElevenLabsCallPlacer(cfg: OpenClawConfig): PlaceCampaignCall | undefined {
+  const config = resolveElevenLabsAgentsConfig(cfg);
+  const clientOpts = buildClientOptions(config);
+  const { agentId, phoneNumberId } = config;
+  if (!clientOpts || !agentId || !phoneNumberId) {
+    return undefined;
+  }
+  return async ({ workspaceDir, toNumber, dynamicVariables }) => {
+    const mergedVariables: Record<string, string> = {
+      ...config.defaultDynamicVariables,
+      ...dynamicVariables,
+    };
+    mergedVariables.previous_call_summary =
+      (await getPreviousCallSummary(workspaceDir, toNumber)) ||
+      "This is the first call to this number.";
+    if (!mergedVariables.available_slots) {
+      const availableSlots = await resolveAvailableSlotsVariable(cfg);
+      if (availableSlots) {
+        mergedVariables.available_slots = availableSlots;
+      }
+    }
+
+    const response = await initiateOutboundCall(clientOpts, {
+      agentId,
+      phoneNumberId,
+      toNumber,
+      dynamicVariables: mergedVariables,
+    });
+    if (!response.conversation_id) {
+      throw new Error(response.message || "Call initiation failed: no conversation ID returned");
+    }
+    await saveConversation(
+      workspaceDir,
+      response.conversation_id,
+      createInitialStoredConversation({ toNumber, dynamicVariables: mergedVariables }),
+    );
+    return response.conversation_id;
+  };
+}
+
+/**
+ * Fetch a placed call's latest state and store it. Throws on failure.
+ */
+export type RefreshCampaignCall = (params: {
+  workspaceDir: string;
+  conversationId: string;
+}) => Promise<StoredConversation>;
+
+/**
+ * Call refresher backed by the ElevenLabs API, so outcomes settle without the
+ * post-call webhook (which may be unconfigured or feed another workspace).
+ * Returns undefined when no API key is configured.
+ */
+export function createElevenLabsCallRefresher(
+  cfg: OpenClawConfig,
+): RefreshCampaignCall | undefined {
+  const clientOpts = buildClientOptions(resolveElevenLabsAgentsConfig(cfg));
+  if (!clientOpts) {
+    return undefined;
+  }
+  return async ({ workspaceDir, conversationId }) =>
+    updateConversationFromApi(workspaceDir, await getConversation(clientOpts, conversationId));
+}
+
+// =============================================================================
+// Campaign Runner
+// =============================================================================
+
+/**
+ * Resolve the latest attempt from its stored conversation.
+ */
+function resolveAttempt(
+  conversation: StoredConversation | undefined,
+  lastAttemptAt: number,
+  now: number,
+): "answered" | "no_answer" | "pending" {
+  const stale = now - lastAttemptAt > STALE_CALL_MS;
+  if (!conversation) {
+    return stale ? "no_answer" : "pending";
+  }
+  if (conversation.status === "done") {
+    const candidateSpoke = conversation.transcript?.some(
+      (entry) => entry.role === "user" && entry.message.trim(),
+    );
+    return candidateSpoke ? "answered" : "no_answer";
+  }
+  if (conversation.status === "failed") {
+    return "no_answer";
+  }
+  return stale ? "no_answer" : "pending";
+}
+
+function scheduleRetryOrFinish(
+  recipient: CampaignRecipient,
+  campaign: CallCampaign,
+  finalStatus: CampaignRecipientStatus,
+  now: number,
+): CampaignRecipient {
+  if (recipient.attempts < campaign.settings.max_attempts) {
+    return {
+      ...recipient,
+      status: "retry_wait",
+      next_attempt_at: new Date(now + campaign.settings.retry_delay_minutes * 60_000).toISOString(),
+    };
+  }
+  return { ...recipient, status: finalStatus, next_attempt_at: undefined };
+}
+
+function isConversationFinal(conversation: StoredConversation | undefined): boolean {
+  return conversation?.status === "done" || conversation?.status === "failed";
+}
+
+/**
+ * Work one campaign forward: settle finished calls, then dial eligible
+ * recipients up to the concurrency limit. Returns the number of calls placed.
+ */
+export async function advanceCallCampaign(params: {
+  workspaceDir: string;
+  campaign: CallCampaign;
+  placeCall?: PlaceCampaignCall;
+  refreshCall?: RefreshCampaignCall;
+  now?: number;
+}): Promise<{ campaign: CallCampaign; callsPlaced: number }> {
+  const { workspaceDir, campaign } = params;
+  const now = params.now ?? Date.now();
+  const conversations = (await readStore(workspaceDir)).conversations;
+  const doNotCall = (await readDoNotCallStore(workspaceDir)).numbers;
+
+  // Poll calls the webhook has not settled yet
+  if (params.refreshCall) {
+    for (const recipient of campaign.recipients) {
+      const conversationId = recipient.conversation_ids.at(-1);
+      if (
+        recipient.status !== "calling" ||
+        !conversationId ||
+        isConversationFinal(conversations[conversationId])
+      ) {
+        continue;
+      }
+      try {
+        conversations[conversationId] = await params.refreshCall({ workspaceDir, conversationId });
+      } catch (err) {
+        log.warn(
+          `campaign ${campaign.campaign_id}: could not refresh ${conversationId}: ${classifyElevenLabsError(err).userFriendlyMessage}`,
+        );
+      }
+    }
+  }
+
+  // Settle calls in flight
+  let recipients = campaign.recipients.map((recipient) => {
+    if (recipient.status !== "calling") {
+      return recipient;
+    }
+    const conversationId = recipient.conversation_ids.at(-1);
+    const attempt = resolveAttempt(
+      conversationId ? conversations[conversationId] : undefined,
+      Date.parse(recipient.last_attempt_at ?? campaign.created_at),
+      now,
+    );
+    if (attempt === "pending") {
+      return recipient;
+    }
+    if (attempt === "answered") {
+      return { ...recipient, status: "completed" as const };
+    }
+    return scheduleRetryOrFinish(recipient, campaign, "no_answer", now);
+  });
+
+  if (campaign.status === "cancelled") {
+    recipients = recipients.map((recipient) =>
+      recipient.status === "queued" || recipient.status === "retry_wait"
+        ? { ...recipient, status: "cancelled" as const, next_attempt_at: undefined }
+        : recipient,
+    );
+  }
+
+  // Dial eligible recipients
+  let callsPlaced = 0;
+  if (campaign.status === "active" && params.placeCall) {
+    let capacity =
+      campaign.settings.max_concurrent_calls -
+      recipients.filter((recipient) => recipient.status === "calling").length;
+    for (let index = 0; index < recipients.length && capacity > 0; index += 1) {
+      const recipient = recipients[index];
+      const due =
+        recipient.status === "queued" ||
+        (recipient.status === "retry_wait" && Date.parse(recipient.next_attempt_at ?? "") <= now);
+      if (!due) {
+        continue;
+      }
+      if (doNotCall[recipient.to_number]) {
+        recipients[index] = { ...recipient, status: "do_not_call", next_attempt_at: undefined };
+        continue;
+      }
+      if (!isWithinWorkingHours(now, recipient.time_zone, campaign.settings.calling_hours)) {
+        continue;
+      }
+      const attempt: CampaignRecipient = {
+        ...recipient,
+        attempts: recipient.attempts + 1,
+        last_attempt_at: new Date(now).toISOString(),
+        next_attempt_at: undefined,
+      };
+      try {
+        const conversationId = await params.placeCall({
+          workspaceDir,
+          toNumber: recipient.to_number,
+          dynamicVariables: {
+            ...recipient.dynamic_variables,
+            campaign_id: campaign.campaign_id,
+          },
+        });
+        recipients[index] = {
+          ...attempt,
+          status: "calling",
+          conversation_ids: [...recipient.conversation_ids, conversationId],
+          error: undefined,
+        };
+        callsPlaced += 1;
+        capacity -= 1;
+      } catch (err) {
+        const classified = classifyElevenLabsError(err);
+        const failed = { ...attempt, error: classified.userFriendlyMessage };
+        recipients[index] = classified.isTransient
+          ? scheduleRetryOrFinish(failed, campaign, "failed", now)
+          : { ...failed, status: "failed" };
+        log.warn(
+          `campaign ${campaign.campaign_id}: call to ${recipient.to_number} failed: ${classified.userFriendlyMessage}`,
+        );
+      }
+    }
+  }
+
+  // Merge only the rows this pass changed; the stored campaign may have moved on meanwhile
+  const changed = new Map<number, CampaignRecipient>();
+  recipients.forEach((recipient, index) => {
+    if (recipient !== campaign.recipients[index]) {
+      changed.set(recipient.row, recipient);
+    }
+  });
+  const updated =
+    (await updateCallCampaign(workspaceDir, campaign.campaign_id, (current) => {
+      if (!current) {
+        return undefined;
+      }
+      const merged = current.recipients.map((recipient) => changed.get(recipient.row) ?? recipient);
+      // Pause/cancel may have landed while calls were being placed; keep the newer status
+      const finished =
+        merged.every(isRecipientFinished) &&
+        (current.status === "active" || current.status === "cancelled");
+      return {
+        ...current,
+        recipients: merged,
+        status: finished && current.status === "active" ? "completed" : current.status,
+        completed_at: finished ? (current.completed_at ?? new Date(now).toISOString()) : undefined,
+      };
+    })) ?? campaign;
+  return { campaign: updated, callsPlaced };
+}
+
+function resolveWorkspaceDirs(cfg: OpenClawConfig): string[] {
+  return Array.from(new Set(listAgentIds(cfg).map((id) => resolveAgentWorkspaceDir(cfg, id))));
+}
+
+/**
+ * Report a finished campaign to the session that created it (once).
+ */
+async function notifyCampaignFinished(params: {
+  cfg: OpenClawConfig;
+  workspaceDir: string;
+  campaign: CallCampaign;
+}): Promise<void> {
+  const { cfg, workspaceDir, campaign } = params;
+  let claimed = false;
+  await updateCallCampaign(workspaceDir, campaign.campaign_id, (current) => {
+    if (!current || current.notified_at) {
+      return undefined;
+    }
+    claimed = true;
+    return { ...current, notified_at: new Date().toISOString() };
+  });
+  if (!claimed) {
+    return;
+  }
+  const report = await buildCampaignReport(workspaceDir, campaign);
+  const sessionKey = campaign.session_key ?? resolveMainSessionKey(cfg);
+  enqueueSystemEvent(formatCampaignReport(report), { sessionKey });
+  requestHeartbeatNow({ reason: "elevenlabs-campaign", sessionKey });
+}
+
+/**
+ * Advance every unfinished campaign once across all agent workspaces.
+ */
+export async function runCallCampaignsOnce(params: {
+  cfg: OpenClawConfig;
+  workspaceDirs?: string[];
+  placeCall?: PlaceCampaignCall;
+  refreshCall?: RefreshCampaignCall;
+  now?: number;
+}): Promise<{ advanced: number; callsPlaced: number }> {
+  const placeCall = params.placeCall ?? createElevenLabsCallPlacer(params.cfg);
+  const refreshCall = params.refreshCall ?? createElevenLabsCallRefresher(params.cfg);
+  let advanced = 0;
+  let callsPlaced = 0;
+  for (const workspaceDir of params.workspaceDirs ?? resolveWorkspaceDirs(params.cfg)) {
+    for (const campaign of await listCallCampaigns(workspaceDir)) {
+      let current = campaign;
+      if (!current.completed_at) {
+        advanced += 1;
+        const result = await advanceCallCampaign({
+          workspaceDir,
+          campaign: current,
+          placeCall,
+          refreshCall,
+          now: params.now,
+        });
+        current = result.campaign;
+        callsPlaced += result.callsPlaced;
+      }
+      if (current.completed_at && !current.notified_at) {
+        await notifyCampaignFinished({ cfg: params.cfg, workspaceDir, campaign: current });
+      }
+    }
+  }
+  return { advanced, callsPlaced };
+}
+
+export type CallCampaignRunner = {
+  stop: () => void;
+};
+
+/**
+ * Start the background campaign runner. Campaigns live on disk, so a
+ * restarted gateway resumes them.
+ */
+export function startCallCampaignRunner(params: {
+  cfg: OpenClawConfig;
+  tickMs?: number;
+}): CallCampaignRunner {
+  if (!isElevenLabsAgentsConfigured(resolveElevenLabsAgentsConfig(params.cfg))) {
+    return { stop: () => {} };
+  }
+  let stopped = false;
+  let inFlight = false;
+
+  const tick = async () => {
+    if (stopped || inFlight) {
+      return;
+    }
+    inFlight = true;
+    try {
+      await runCallCampaignsOnce({ cfg: params.cfg });
+    } catch (err) {
+      log.warn(`campaign run failed: ${String(err)}`);
+    } finally {
+      inFlight = false;
+    }
+  };
+
+  const timer = setInterval(() => void tick(), params.tickMs ?? DEFAULT_TICK_MS);
+  timer.unref?.();
+  void tick();
+
+  return {
+    stop: () => {
+      stopped = true;
+      clearInterval(timer);
+    },
+  };
+}
+
+// =============================================================================
+// Reporting
+// =============================================================================
+
+/**
+ * Build a campaign status report from recipients and stored conversations.
+ */
+export async function buildCampaignReport(
+  workspaceDir: string,
+  campaign: CallCampaign,
+  options?: { includeRecipients?: boolean },
+): Promise<CampaignReport> {
+  const conversations = (await readStore(workspaceDir)).conversations;
+  const report: CampaignReport = {
+    campaign_id: campaign.campaign_id,
+    name: campaign.name,
+    status: campaign.status,
+    total: campaign.recipients.length,
+    calls_placed: 0,
+    by_status: {},
+    by_outcome: {},
+  };
+  const rows: CampaignReportRecipient[] = [];
+  for (const recipient of campaign.recipients) {
+    report.calls_placed += recipient.conversation_ids.length;
+    report.by_status[recipient.status] = (report.by_status[recipient.status] ?? 0) + 1;
+    const lastConversationId = recipient.conversation_ids.at(-1);
+    const conversation = lastConversationId ? conversations[lastConversationId] : undefined;
+    const outcome =
+      recipient.status === "completed" ? conversation?.post_call?.extraction?.outcome : undefined;
+    if (outcome) {
+      report.by_outcome[outcome] = (report.by_outcome[outcome] ?? 0) + 1;
+    }
+    rows.push({
+      row: recipient.row,
+      to_number: recipient.to_number,
+      candidate_name: recipient.dynamic_variables.candidate_name,
+      status: recipient.status,
+      attempts: recipient.attempts,
+      outcome,
+      last_conversation_id: lastConversationId,
+      call_summary: conversation?.analysis?.call_summary_title,
+      error: recipient.error,
+    });
+  }
+  if (options?.includeRecipients) {
+    report.recipients = rows;
+  }
+  return report;
+}
+
+function formatCounts(counts: Record<string, number | undefined>): string {
+  return Object.entries(counts)
+    .map(([key, count]) => `${key.replace(/_/g, " ")} ${count}`)
+    .join(", ");
+}
+
+/**
+ * Short text summary of a campaign report.
+ */
+export function formatCampaignReport(report: CampaignReport): string {
+  const lines = [
+    `Call campaign "${report.name}" (${report.campaign_id}) ${report.status}: ${report.total} recipients, ${report.calls_placed} calls placed.`,
+    `Status: ${formatCounts(report.by_status)}.`,
+  ];
+  if (Object.keys(report.by_outcome).length > 0) {
+    lines.push(`Outcomes: ${formatCounts(report.by_outcome)}.`);
+  }
+  return lines.join("\n");
+}
@@ -4,12 +4,56 @@
  * Config resolution from openclaw.json with env var fallback.
  */
 
+import { resolveUserTimezone } from "../agents/date-time.js";
+import { resolveWorkingHours } from "../calendar-availability/config.js";
+import { isValidTimeZone } from "../calendar-availability/time-zone.js";
+import type { ResolvedWorkingHours } from "../calendar-availability/types.js";
 import type { OpenClawConfig } from "../config/config.js";
-import type { ElevenLabsAgentsConfig } from "./types.js";
+import type {
+  CallCampaignDefaultsConfig,
+  ElevenLabsAgentsConfig,
+  PostCallActionKind,
+  PostCallOutcome,
+  PostCallPipelineConfig,
+} from "./types.js";
 
 const DEFAULT_BASE_URL = "https://api.elevenlabs.io";
 const DEFAULT_TIMEOUT_SECONDS = 60;
 const DEFAULT_WEBHOOK_PATH = "/elevenlabs/webhook";
+const DEFAULT_POST_CALL_AGENT_TIMEOUT_SECONDS = 120;
+
+/** Default follow-ups per call outcome. */
+const DEFAULT_POST_CALL_ACTIONS: Record<PostCallOutcome, PostCallActionKind[]> = {
+  interested: ["send_follow_up"],
+  not_interested: [],
+  callback: ["schedule_callback"],
+  scheduled: ["create_interview"],
+  reschedule: ["send_reschedule"],
+  unknown: [],
+};
+
+const DEFAULT_CAMPAIGN_MAX_CONCURRENT_CALLS = 2;
+const DEFAULT_CAMPAIGN_MAX_ATTEMPTS = 3;
+const DEFAULT_CAMPAIGN_RETRY_DELAY_MINUTES = 120;
+
+export type ResolvedCampaignDefaults = {
+  maxConcurrentCalls: number;
+  callingHours: ResolvedWorkingHours;
+  timeZone: string;
+  maxAttempts: number;
+  retryDelayMinutes: number;
+};
+
+export type ResolvedPostCallConfig = {
+  enabled: boolean;
+  agentTurn: {
+    enabled: boolean;
+    agentId?: string;
+    model?: string;
+    timeoutSeconds: number;
+  };
+  actions: Record<PostCallOutcome, PostCallActionKind[]>;
+};
 
 export type ResolvedElevenLabsAgentsConfig = {
   enabled: boolean;
@@ -24,6 +68,8 @@ export type ResolvedElevenLabsAgentsConfig = {
   webhookPath: string;
   /** Google Calendar ID for scheduling interviews (default: "primary") */
   calendarId: string;
+  postCall: ResolvedPostCallConfig;
+  campaigns: ResolvedCampaignDefaults;
 };
 
 /**
@@ -54,6 +100,48 @@ function resolveApiKey(configApiKey?: string): {
   return { apiKey: undefined, source: "none" };
 }
 
+/**
+ * Resolve the post-call pipeline config, merging per-outcome actions over the defaults.
+ */
+export function resolvePostCallConfig(config?: PostCallPipelineConfig): ResolvedPostCallConfig {
+  return {
+    enabled: config?.enabled !== false,
+    agentTurn: {
+      enabled: config?.agentTurn?.enabled === true,
+      agentId: config?.agentTurn?.agentId?.trim() || undefined,
+      model: config?.agentTurn?.model?.trim() || undefined,
+      timeoutSeconds: config?.agentTurn?.timeoutSeconds ?? DEFAULT_POST_CALL_AGENT_TIMEOUT_SECONDS,
+    },
+    actions: { ...DEFAULT_POST_CALL_ACTIONS, ...config?.actions },
+  };
+}
+
+/**
+ * Resolve campaign defaults (calling hours, concurrency and retry policy).
+ */
+export function resolveCampaignDefaults(
+  cfg: OpenClawConfig,
+  config?: CallCampaignDefaultsConfig,
+): ResolvedCampaignDefaults {
+  const timeZone = config?.timeZone?.trim();
+  return {
+    maxConcurrentCalls: Math.max(
+      1,
+      config?.maxConcurrentCalls ?? DEFAULT_CAMPAIGN_MAX_CONCURRENT_CALLS,
+    ),
+    callingHours: resolveWorkingHours(undefined, config?.callingHours),
+    timeZone:
+      timeZone && isValidTimeZone(timeZone)
+        ? timeZone
+        : resolveUserTimezone(cfg.agents?.defaults?.userTimezone),
+    maxAttempts: Math.max(1, config?.maxAttempts ?? DEFAULT_CAMPAIGN_MAX_ATTEMPTS),
+    retryDelayMinutes: Math.max(
+      1,
+      config?.retryDelayMinutes ?? DEFAULT_CAMPAIGN_RETRY_DELAY_MINUTES,
+    ),
+  };
+}
+
 /**
  * Resolve full ElevenLabs Agents configuration.
  */
@@ -116,6 +204,8 @@ export function resolveElevenLabsAgentsConfig(cfg: OpenClawConfig): ResolvedElev
     webhookSecret,
     webhookPath,
     calendarId,
+    postCall: resolvePostCallConfig(config?.postCall),
+    campaigns: resolveCampaignDefaults(cfg, config?.campaigns),
   };
 }
 
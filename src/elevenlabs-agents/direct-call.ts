@@ -7,6 +7,7 @@
 import type { DirectCallContext, DirectCallResult } from "../cron/direct-call-registry.js";
 import { registerDirectCallHandler } from "../cron/direct-call-registry.js";
 import { DirectCallFunctionName } from "../cron/types.js";
+import { isDoNotCall } from "./campaign-store.js";
 import { buildClientOptions, initiateOutboundCall } from "./client.js";
 import { resolveElevenLabsAgentsConfig } from "./config.js";
 import {
@@ -14,6 +15,7 @@ import {
   getPreviousCallSummary,
   saveConversation,
 } from "./store.js";
+import { resolveAvailableSlotsVariable } from "./talently-interview.js";
 
 /**
  * Execute a direct ElevenLabs call (no agent involvement).
@@ -33,6 +35,10 @@ async function executeDirectElevenLabsCall(
     return { status: "error", error: "toNumber is required" };
   }
 
+  if (await isDoNotCall(workspaceDir, toNumber)) {
+    return { status: "ok", summary: `Callback skipped: ${toNumber} is on the do-not-call list` };
+  }
+
   // Resolve ElevenLabs config
   const resolvedConfig = resolveElevenLabsAgentsConfig(cfg);
   if (!resolvedConfig.agentId || !resolvedConfig.phoneNumberId || !resolvedConfig.apiKey) {
@@ -65,6 +71,12 @@ async function executeDirectElevenLabsCall(
       mergedVariables.previous_call_summary = "This is a scheduled callback.";
     }
 
+    // Offer fresh interview slots (the ones from the original call may be taken)
+    const availableSlots = await resolveAvailableSlotsVariable(cfg);
+    if (availableSlots) {
+      mergedVariables.available_slots = availableSlots;
+    }
+
     // Add reference to original conversation if provided
     if (originalConversationId) {
       mergedVariables.callback_for_conversation = originalConversationId;
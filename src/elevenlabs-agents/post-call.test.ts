@@ -0,0 +1,270 @@
+import fs from "node:fs/promises";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { OpenClawConfig } from "../config/config.js";
+import type { CronJobCreate } from "../cron/types.js";
+import { makeTempWorkspace } from "../test-helpers/workspace.js";
+import {
+  extractOutcomeFromAnalysis,
+  parseAgentExtraction,
+  runPostCallPipeline,
+  type PostCallPipelineDeps,
+} from "./post-call.js";
+import { getStoredConversation, saveConversation } from "./store.js";
+import { EmailTemplateType, type StoredConversation } from "./types.js";
+
+const log = { info: () => {}, warn: () => {} };
+
+function dataCollection(values: Record<string, unknown>) {
+  return Object.entries(values).map(([data_collection_id, value]) => ({
+    data_collection_id,
+    value,
+  }));
+}
+
+function doneConversation(values: Record<string, unknown>): StoredConversation {
+  return {
+    initiated_at: new Date().toISOString(),
+    to_number: "+15550001111",
+    dynamic_variables: { candidate_name: "Ada Lovelace" },
+    status: "done",
+    transcript: [
+      { role: "agent", message: "Would you like to book an interview?" },
+      { role: "user", message: "Yes, Tuesday at 10 works. My email is ada@example.com." },
+    ],
+    analysis: {
+      transcript_summary: "Candidate agreed to an interview.",
+      data_collection_results_list: dataCollection(values),
+    },
+  };
+}
+
+describe("extractOutcomeFromAnalysis", () => {
+  it("maps the voice agent's data collection fields to an outcome", () => {
+    expect(
+      extractOutcomeFromAnalysis(
+        doneConversation({
+          candidate_email: " ada@example.com ",
+          calendar_invite_timestamp_iso_8601: "2026-03-10T10:00:00Z",
+        }),
+      ),
+    ).toMatchObject({
+      outcome: "scheduled",
+      source: "data_collection",
+      candidate_email: "ada@example.com",
+      scheduled_slot: "2026-03-10T10:00:00Z",
+    });
+    expect(
+      extractOutcomeFromAnalysis(
+        doneConversation({ callback_timestamp_iso_8601: "2026-03-10T16:00:00Z" }),
+      ).outcome,
+    ).toBe("callback");
+    expect(extractOutcomeFromAnalysis(doneConversation({ email_type: "reschedule" })).outcome).toBe(
+      "reschedule",
+    );
+    expect(extractOutcomeFromAnalysis(doneConversation({ interested: "no" })).outcome).toBe(
+      "not_interested",
+    );
+    expect(
+      extractOutcomeFromAnalysis(doneConversation({ call_outcome: "Not interested" })).outcome,
+    ).toBe("not_interested");
+    expect(extractOutcomeFromAnalysis(doneConversation({})).outcome).toBe("unknown");
+  });
+
+  it("parses fenced agent replies and ignores invalid outcomes", () => {
+    expect(
+      parseAgentExtraction(
+        'Here you go:\n```json\n{"outcome":"callback","callback_time":"2026-03-10T16:00:00Z","candidate_email":"n/a"}\n```',
+      ),
+    ).toEqual({
+      outcome: "callback",
+      callback_time: "2026-03-10T16:00:00Z",
+      scheduled_slot: undefined,
+      candidate_email: undefined,
+      summary: undefined,
+    });
+    expect(parseAgentExtraction('{"outcome":"maybe"}')).toBeUndefined();
+    expect(parseAgentExtraction("no json here")).toBeUndefined();
+  });
+});
+
+describe("runPostCallPipeline", () => {
+  let workspaceDir: string;
+
+  beforeEach(async () => {
+    workspaceDir = await makeTempWorkspace("openclaw-post-call-");
+  });
+
+  afterEach(async () => {
+    await fs.rm(workspaceDir, { recursive: true, force: true });
+  });
+
+  const gogCfg = (postCall: Record<string, unknown> = {}) =>
+    ({
+      skills: { entries: { gog: { env: { GOG_ACCOUNT: "recruiter@example.com" } } } },
+      tools: { elevenlabsAgents: { postCall } },
+    }) as unknown as OpenClawConfig;
+
+  it("uses the agent outcome, runs its follow-ups once and stores the result", async () => {
+    await saveConversation(
+      workspaceDir,
+      "conv-1",
+      doneConversation({ callback_timestamp_iso_8601: "2026-03-10T16:00:00Z" }),
+    );
+    const sendInvite = vi.fn<NonNullable<PostCallPipelineDeps["sendInvite"]>>(async () => ({
+      ok: true,
+      emailSent: true,
+      calendarEventCreated: true,
+    }));
+    const runAgentTurn = vi.fn(async () =>
+      JSON.stringify({
+        outcome: "scheduled",
+        scheduled_slot: "2026-03-10T10:00:00Z",
+        candidate_email: "ada@example.com",
+      }),
+    );
+    const addCronJob = vi.fn(async () => undefined);
+    const deps: PostCallPipelineDeps = { runAgentTurn, sendInvite, addCronJob };
+    const cfg = gogCfg({ agentTurn: { enabled: true } });
+
+    const result = await runPostCallPipeline({
+      cfg,
+      workspaceDir,
+      conversationId: "conv-1",
+      log,
+      deps,
+    });
+
+    expect(runAgentTurn).toHaveBeenCalledWith(
+      expect.objectContaining({ conversationId: "conv-1", timeoutSeconds: 120 }),
+    );
+    expect(result?.extraction).toMatchObject({
+      outcome: "scheduled",
+      source: "agent",
+      // Fields the agent left out fall back to data collection
+      callback_time: "2026-03-10T16:00:00Z",
+    });
+    expect(sendInvite).toHaveBeenCalledWith(
+      expect.objectContaining({
+        candidateEmail: "ada@example.com",
+        interviewTimestamp: "2026-03-10T10:00:00Z",
+        templateType: EmailTemplateType.INTERVIEW_CONFIRMATION,
+        skipCalendar: false,
+      }),
+      { GOG_ACCOUNT: "recruiter@example.com" },
+      log,
+    );
+    // The collected callback time still schedules a callback on top of the outcome's actions
+    expect(addCronJob).toHaveBeenCalledTimes(1);
+    expect(result?.actions).toEqual([
+      expect.objectContaining({ action: "create_interview", ok: true }),
+      expect.objectContaining({ action: "schedule_callback", ok: true }),
+    ]);
+
+    const stored = await getStoredConversation(workspaceDir, "conv-1");
+    expect(stored?.post_call?.status).toBe("done");
+
+    // Webhook retries do not repeat the follow-ups
+    await expect(
+      runPostCallPipeline({ cfg, workspaceDir, conversationId: "conv-1", log, deps }),
+    ).resolves.toBeUndefined();
+    expect(sendInvite).toHaveBeenCalledTimes(1);
+  });
+
+  it("follows configured actions per outcome", async () => {
+    await saveConversation(
+      workspaceDir,
+      "conv-2",
+      doneConversation({
+        candidate_email: "ada@example.com",
+        callback_timestamp_iso_8601: "2026-03-10T16:00:00Z",
+      }),
+    );
+    const sendInvite = vi.fn<NonNullable<PostCallPipelineDeps["sendInvite"]>>(async () => ({
+      ok: true,
+      emailSent: true,
+    }));
+    const jobs: CronJobCreate[] = [];
+
+    const result = await runPostCallPipeline({
+      cfg: gogCfg({ actions: { callback: ["schedule_callback", "send_follow_up"] } }),
+      workspaceDir,
+      conversationId: "conv-2",
+      log,
+      deps: {
+        sendInvite,
+        addCronJob: async (job) => {
+          jobs.push(job);
+        },
+      },
+    });
+
+    expect(result?.actions.map((entry) => [entry.action, entry.ok])).toEqual([
+      ["schedule_callback", true],
+      ["send_follow_up", true],
+    ]);
+    expect(jobs[0]).toMatchObject({
+      name: "Callback: Ada Lovelace",
+      schedule: { kind: "at", at: "2026-03-10T16:00:00Z" },
+      payload: {
+        kind: "directCall",
+        params: { toNumber: "+15550001111", originalConversationId: "conv-2" },
+      },
+    });
+    expect(sendInvite).toHaveBeenCalledWith(
+      expect.objectContaining({ templateType: EmailTemplateType.FOLLOW_UP, skipCalendar: true }),
+      expect.anything(),
+      log,
+    );
+  });
+
+  it("runs the follow-ups implied by collected data whatever the outcome", async () => {
+    await saveConversation(
+      workspaceDir,
+      "conv-4",
+      doneConversation({ candidate_email: "ada@example.com" }),
+    );
+    await saveConversation(
+      workspaceDir,
+      "conv-5",
+      doneConversation({ candidate_email: "ada@example.com", interested: false }),
+    );
+    const sendInvite = vi.fn<NonNullable<PostCallPipelineDeps["sendInvite"]>>(async () => ({
+      ok: true,
+      emailSent: true,
+    }));
+
+    const unknown = await runPostCallPipeline({
+      cfg: gogCfg(),
+      workspaceDir,
+      conversationId: "conv-4",
+      log,
+      deps: { sendInvite },
+    });
+    expect(unknown?.extraction?.outcome).toBe("unknown");
+    expect(unknown?.actions.map((entry) => [entry.action, entry.ok])).toEqual([
+      ["send_follow_up", true],
+    ]);
+
+    // Candidates who declined get nothing beyond the configured actions
+    const declined = await runPostCallPipeline({
+      cfg: gogCfg(),
+      workspaceDir,
+      conversationId: "conv-5",
+      log,
+      deps: { sendInvite },
+    });
+    expect(declined?.extraction?.outcome).toBe("not_interested");
+    expect(declined?.actions).toEqual([]);
+    expect(sendInvite).toHaveBeenCalledTimes(1);
+  });
+
+  it("skips calls that have not finished", async () => {
+    await saveConversation(workspaceDir, "conv-3", {
+      ...doneConversation({}),
+      status: "pending",
+    });
+    await expect(
+      runPostCallPipeline({ cfg: gogCfg(), workspaceDir, conversationId: "conv-3", log }),
+    ).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,593 @@
+/**
+ * ElevenLabs Agents - Post-Call Pipeline
+ *
+ * Extracts a structured outcome from completed calls (ElevenLabs data collection,
+ * optionally refined by an agent turn over the transcript) and runs the configured
+ * follow-ups: template emails, Talently interviews and callback cron jobs.
+ */
+
+import { trackCandidateActivity } from "../candidate-pipeline/store.js";
+import type { OpenClawConfig } from "../config/config.js";
+import { DirectCallFunctionName, type CronJobCreate } from "../cron/types.js";
+import { resolveElevenLabsAgentsConfig } from "./config.js";
+import { parseEmailTemplateType, resolveGogEnv, sendInterviewInvite } from "./google-calendar.js";
+import {
+  getStoredConversation,
+  savePostCallResult,
+  type StoredConversationWithId,
+} from "./store.js";
+import { createTalentlyInterview, isTalentlyInterviewConfigured } from "./talently-interview.js";
+import {
+  EmailTemplateType,
+  POST_CALL_OUTCOMES,
+  type PostCallActionKind,
+  type PostCallActionResult,
+  type PostCallExtraction,
+  type PostCallOutcome,
+  type StoredPostCallResult,
+} from "./types.js";
+
+/** A run still marked "running" after this long is assumed dead and may be retried. */
+const STALE_RUN_MS = 15 * 60 * 1000;
+
+/** Transcript characters passed to the agent turn. */
+const MAX_TRANSCRIPT_CHARS = 20_000;
+
+type PostCallLogger = { info: (msg: string) => void; warn: (msg: string) => void };
+
+export type PostCallAgentTurnParams = {
+  conversationId: string;
+  prompt: string;
+  agentId?: string;
+  model?: string;
+  timeoutSeconds: number;
+};
+
+/**
+ * Side effects used by the pipeline (injectable for the gateway and tests).
+ */
+export type PostCallPipelineDeps = {
+  /** Run an isolated agent turn and return its final text. Required for agent extraction. */
+  runAgentTurn?: (params: PostCallAgentTurnParams) => Promise<string | undefined>;
+  /** Add a cron job. Required for scheduling callbacks. */
+  addCronJob?: (job: CronJobCreate) => Promise<unknown>;
+  sendInvite?: typeof sendInterviewInvite;
+  createInterview?: typeof createTalentlyInterview;
+};
+
+// =============================================================================
+// Outcome Extraction
+// =============================================================================
+
+/**
+ * Normalize an outcome value ("Not interested", "not-interested", ...).
+ */
+export function parsePostCallOutcome(value: unknown): PostCallOutcome | undefined {
+  if (typeof value !== "string") {
+    return undefined;
+  }
+  const normalized = value
+    .trim()
+    .toLowerCase()
+    .replace(/[\s-]+/g, "_");
+  return (POST_CALL_OUTCOMES as readonly string[]).includes(normalized)
+    ? (normalized as PostCallOutcome)
+    : undefined;
+}
+
+function readIsoTimestamp(value: unknown): string | undefined {
+  if (typeof value !== "string" || !value.trim()) {
+    return undefined;
+  }
+  return Number.isFinite(Date.parse(value.trim())) ? value.trim() : undefined;
+}
+
+function readEmail(value: unknown): string | undefined {
+  if (typeof value !== "string") {
+    return undefined;
+  }
+  const trimmed = value.trim();
+  return trimmed.includes("@") ? trimmed : undefined;
+}
+
+function readBoolean(value: unknown): boolean | undefined {
+  if (typeof value === "boolean") {
+    return value;
+  }
+  if (typeof value === "string") {
+    const normalized = value.trim().toLowerCase();
+    if (normalized === "true" || normalized === "yes") {
+      return true;
+    }
+    if (normalized === "false" || normalized === "no") {
+      return false;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Derive the outcome from ElevenLabs data collection results.
+ * Recognizes the existing collection ids (candidate_email, email_type,
+ * callback_timestamp_iso_8601, calendar_invite_timestamp_iso_8601) plus
+ * optional call_outcome and interested fields.
+ */
+export function extractOutcomeFromAnalysis(
+  conversation: Pick<StoredConversationWithId, "analysis" | "dynamic_variables">,
+): PostCallExtraction {
+  const collected = new Map<string, unknown>();
+  for (const item of conversation.analysis?.data_collection_results_list ?? []) {
+    collected.set(item.data_collection_id, item.value);
+  }
+
+  const callbackTime = readIsoTimestamp(collected.get("callback_timestamp_iso_8601"));
+  const scheduledSlot = readIsoTimestamp(collected.get("calendar_invite_timestamp_iso_8601"));
+  const templateType = parseEmailTemplateType(collected.get("email_type"));
+  const interested = readBoolean(collected.get("interested"));
+
+  let outcome = parsePostCallOutcome(collected.get("call_outcome"));
+  if (!outcome) {
+    if (templateType === EmailTemplateType.RESCHEDULE) {
+      outcome = "reschedule";
+    } else if (scheduledSlot) {
+      outcome = "scheduled";
+    } else if (callbackTime) {
+      outcome = "callback";
+    } else if (templateType === EmailTemplateType.FOLLOW_UP || interested === true) {
+      outcome = "interested";
+    } else if (interested === false) {
+      outcome = "not_interested";
+    } else {
+      outcome = "unknown";
+    }
+  }
+
+  return {
+    outcome,
+    source: "data_collection",
+    candidate_email:
+      readEmail(collected.get("candidate_email")) ??
+      readEmail(conversation.dynamic_variables?.candidate_email),
+    callback_time: callbackTime,
+    scheduled_slot: scheduledSlot,
+    summary: conversation.analysis?.transcript_summary,
+  };
+}
+
+/**
+ * Build the extraction prompt for the agent turn.
+ */
+export function buildPostCallPrompt(
+  conversation: StoredConversationWithId,
+  baseline: PostCallExtraction,
+): string {
+  const candidateName = conversation.dynamic_variables?.candidate_name;
+  let transcript = (conversation.transcript ?? [])
+    .map((entry) => `${entry.role === "agent" ? "Agent" : "Candidate"}: ${entry.message}`)
+    .join("\n");
+  if (transcript.length > MAX_TRANSCRIPT_CHARS) {
+    transcript = `${transcript.slice(0, MAX_TRANSCRIPT_CHARS)}\n[transcript truncated]`;
+  }
+
+  return [
+    `A recruiting screening call${candidateName ? ` with ${candidateName}` : ""} just ended (conversation ${conversation.conversation_id}).`,
+    "Read the transcript and reply with ONLY a JSON object with these fields:",
+    `- "outcome": one of ${POST_CALL_OUTCOMES.map((value) => `"${value}"`).join(", ")}`,
+    '- "callback_time": ISO 8601 time the candidate asked to be called back, if any',
+    '- "scheduled_slot": ISO 8601 start of the interview slot the candidate agreed to, if any',
+    '- "candidate_email": email address the candidate gave, if any',
+    '- "summary": one or two sentences summarizing the call',
+    "Do not take any other action.",
+    "",
+    `Data collected by the voice agent: ${JSON.stringify({
+      outcome: baseline.outcome,
+      callback_time: baseline.callback_time,
+      scheduled_slot: baseline.scheduled_slot,
+      candidate_email: baseline.candidate_email,
+    })}`,
+    "",
+    "Transcript:",
+    transcript || "(empty)",
+  ].join("\n");
+}
+
+/**
+ * Parse the agent's JSON reply (tolerates code fences and surrounding prose).
+ */
+export function parseAgentExtraction(
+  text: string | undefined,
+): Omit<PostCallExtraction, "source"> | undefined {
+  if (!text) {
+    return undefined;
+  }
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start < 0 || end <= start) {
+    return undefined;
+  }
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(text.slice(start, end + 1)) as Record<string, unknown>;
+  } catch {
+    return undefined;
+  }
+  const outcome = parsePostCallOutcome(parsed.outcome);
+  if (!outcome) {
+    return undefined;
+  }
+  return {
+    outcome,
+    callback_time: readIsoTimestamp(parsed.callback_time),
+    scheduled_slot: readIsoTimestamp(parsed.scheduled_slot),
+    candidate_email: readEmail(parsed.candidate_email),
+    summary:
+      typeof parsed.summary === "string" && parsed.summary.trim()
+        ? parsed.summary.trim()
+        : undefined,
+  };
+}
+
+/**
+ * Agent fields win; anything the agent left out falls back to data collection.
+ */
+function mergeExtraction(
+  baseline: PostCallExtraction,
+  agent: Omit<PostCallExtraction, "source">,
+): PostCallExtraction {
+  return {
+    outcome: agent.outcome,
+    source: "agent",
+    candidate_email: agent.candidate_email ?? baseline.candidate_email,
+    callback_time: agent.callback_time ?? baseline.callback_time,
+    scheduled_slot: agent.scheduled_slot ?? baseline.scheduled_slot,
+    summary: agent.summary ?? baseline.summary,
+  };
+}
+
+// =============================================================================
+// Follow-up Actions
+// =============================================================================
+
+type ActionContext = {
+  cfg: OpenClawConfig;
+  conversation: StoredConversationWithId;
+  extraction: PostCallExtraction;
+  calendarId: string;
+  deps: PostCallPipelineDeps;
+  log: PostCallLogger;
+};
+
+function resolveCandidateName(ctx: ActionContext): string {
+  return (
+    ctx.conversation.dynamic_variables?.candidate_name ||
+    ctx.extraction.candidate_email?.split("@")[0] ||
+    ctx.conversation.to_number
+  );
+}
+
+async function scheduleCallback(ctx: ActionContext): Promise<PostCallActionResult> {
+  const action: PostCallActionKind = "schedule_callback";
+  const { callback_time: callbackTime } = ctx.extraction;
+  if (!callbackTime) {
+    return { action, ok: false, error: "no callback time" };
+  }
+  if (!ctx.conversation.to_number) {
+    return { action, ok: false, error: "no phone number stored for the conversation" };
+  }
+  if (!ctx.deps.addCronJob) {
+    return { action, ok: false, error: "cron is not available" };
+  }
+  const candidateName = resolveCandidateName(ctx);
+  await ctx.deps.addCronJob({
+    name: `Callback: ${candidateName}`,
+    enabled: true,
+    schedule: { kind: "at", at: callbackTime },
+    sessionTarget: "direct",
+    wakeMode: "now",
+    payload: {
+      kind: "directCall",
+      functionName: DirectCallFunctionName.ELEVENLABS_INITIATE_CALL,
+      params: {
+        toNumber: ctx.conversation.to_number,
+        dynamicVariables: ctx.conversation.dynamic_variables,
+        originalConversationId: ctx.conversation.conversation_id,
+      },
+    },
+    delivery: { mode: "announce", channel: "last" },
+  });
+  return { action, ok: true, detail: `callback scheduled for ${callbackTime}` };
+}
+
+async function sendTemplateEmail(
+  ctx: ActionContext,
+  action: PostCallActionKind,
+  templateType: EmailTemplateType,
+): Promise<PostCallActionResult> {
+  const candidateEmail = ctx.extraction.candidate_email;
+  if (!candidateEmail) {
+    return { action, ok: false, error: "no candidate email" };
+  }
+  const gogEnv = resolveGogEnv(ctx.cfg);
+  if (!gogEnv) {
+    return { action, ok: false, error: "gog not configured (missing GOG_ACCOUNT)" };
+  }
+  const sendInvite = ctx.deps.sendInvite ?? sendInterviewInvite;
+  const result = await sendInvite(
+    {
+      candidateName: resolveCandidateName(ctx),
+      candidateEmail,
+      interviewTimestamp: ctx.extraction.scheduled_slot,
+      calendarId: ctx.calendarId,
+      conversationId: ctx.conversation.conversation_id,
+      templateType,
+      // Follow-up and reschedule emails never book time on the calendar
+      skipCalendar: true,
+    },
+    gogEnv,
+    ctx.log,
+  );
+  if (!result.ok || !result.emailSent) {
+    return { action, ok: false, error: result.error ?? "email not sent" };
+  }
+  return { action, ok: true, detail: `${templateType} email sent to ${candidateEmail}` };
+}
+
+/**
+ * Create the interview (Talently when configured, otherwise a gog calendar event)
+ * and send the confirmation email.
+ */
+async function createInterview(ctx: ActionContext): Promise<PostCallActionResult> {
+  const action: PostCallActionKind = "create_interview";
+  const { candidate_email: candidateEmail, scheduled_slot: scheduledSlot } = ctx.extraction;
+  if (!candidateEmail) {
+    return { action, ok: false, error: "no candidate email" };
+  }
+  if (!scheduledSlot) {
+    return { action, ok: false, error: "no scheduled slot" };
+  }
+  const candidateName = resolveCandidateName(ctx);
+  const details: string[] = [];
+
+  let meetingLink: string | undefined;
+  let meetingPasscode: string | undefined;
+  if (isTalentlyInterviewConfigured(ctx.cfg)) {
+    const create = ctx.deps.createInterview ?? createTalentlyInterview;
+    const created = await create(
+      ctx.cfg,
+      {
+        candidateName,
+        candidateEmail,
+        interviewTimestamp: scheduledSlot,
+        conversationId: ctx.conversation.conversation_id,
+      },
+      ctx.log,
+    );
+    if (created.ok) {
+      meetingLink = created.meetingLink;
+      meetingPasscode = created.meetingPasscode;
+      details.push(`Zoom meeting created: ${meetingLink}`);
+    } else {
+      ctx.log.warn(`post-call: Talently API failed: ${created.error}, falling back to gog`);
+    }
+  }
+
+  const gogEnv = resolveGogEnv(ctx.cfg);
+  if (!gogEnv) {
+    if (meetingLink) {
+      return { action, ok: true, detail: details.join("; ") };
+    }
+    return { action, ok: false, error: "gog not configured (missing GOG_ACCOUNT)" };
+  }
+  const sendInvite = ctx.deps.sendInvite ?? sendInterviewInvite;
+  const invite = await sendInvite(
+    {
+      candidateName,
+      candidateEmail,
+      interviewTimestamp: scheduledSlot,
+      calendarId: ctx.calendarId,
+      conversationId: ctx.conversation.conversation_id,
+      templateType: EmailTemplateType.INTERVIEW_CONFIRMATION,
+      meetingLink,
+      meetingPasscode,
+      skipCalendar: Boolean(meetingLink),
+    },
+    gogEnv,
+    ctx.log,
+  );
+  if (invite.calendarEventCreated) {
+    details.push(`calendar invite sent to ${candidateEmail} for ${scheduledSlot}`);
+  }
+  if (invite.emailSent) {
+    details.push(`email sent to ${candidateEmail}`);
+  }
+  if (!invite.ok && !meetingLink) {
+    return { action, ok: false, error: invite.error ?? "invite not sent" };
+  }
+  return { action, ok: true, detail: details.join("; ") };
+}
+
+/** Actions that email the candidate; at most one runs per call. */
+const EMAIL_ACTIONS: ReadonlySet<PostCallActionKind> = new Set([
+  "send_follow_up",
+  "send_reschedule",
+  "create_interview",
+]);
+
+/**
+ * Configured actions for the outcome, plus the follow-ups implied by the collected data:
+ * a callback time always schedules the callback and a candidate email always gets one
+ * email (the interview confirmation when a slot was agreed, otherwise a follow-up), so a
+ * call classified as "unknown" still runs them. Nothing is added for candidates who declined.
+ */
+export function resolvePostCallActions(
+  extraction: PostCallExtraction,
+  configured: readonly PostCallActionKind[],
+): PostCallActionKind[] {
+  const actions = [...configured];
+  if (extraction.outcome === "not_interested") {
+    return actions;
+  }
+  if (extraction.callback_time && !actions.includes("schedule_callback")) {
+    actions.push("schedule_callback");
+  }
+  if (extraction.candidate_email && !actions.some((action) => EMAIL_ACTIONS.has(action))) {
+    actions.push(extraction.scheduled_slot ? "create_interview" : "send_follow_up");
+  }
+  return actions;
+}
+
+async function runAction(
+  ctx: ActionContext,
+  action: PostCallActionKind,
+): Promise<PostCallActionResult> {
+  try {
+    switch (action) {
+      case "schedule_callback":
+        return await scheduleCallback(ctx);
+      case "create_interview":
+        return await createInterview(ctx);
+      case "send_follow_up":
+        return await sendTemplateEmail(ctx, action, EmailTemplateType.FOLLOW_UP);
+      case "send_reschedule":
+        return await sendTemplateEmail(ctx, action, EmailTemplateType.RESCHEDULE);
+      default:
+        return { action, ok: false, error: `unknown action: ${String(action)}` };
+    }
+  } catch (err) {
+    return { action, ok: false, error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+// =============================================================================
+// Pipeline
+// =============================================================================
+
+function isRunClaimed(existing: StoredPostCallResult | undefined, now: number): boolean {
+  if (!existing) {
+    return false;
+  }
+  if (existing.status === "done") {
+    return true;
+  }
+  return now - Date.parse(existing.started_at) < STALE_RUN_MS;
+}
+
+/**
+ * Run the post-call pipeline for a stored conversation.
+ * Returns undefined when the pipeline is disabled, the call has not finished,
+ * or the conversation was already processed (webhook retries).
+ */
+export async function runPostCallPipeline(params: {
+  cfg: OpenClawConfig;
+  workspaceDir: string;
+  conversationId: string;
+  log: PostCallLogger;
+  deps?: PostCallPipelineDeps;
+  now?: number;
+}): Promise<StoredPostCallResult | undefined> {
+  const { cfg, workspaceDir, conversationId, log } = params;
+  const deps = params.deps ?? {};
+  const config = resolveElevenLabsAgentsConfig(cfg);
+  if (!config.postCall.enabled) {
+    return undefined;
+  }
+
+  const conversation = await getStoredConversation(workspaceDir, conversationId);
+  const now = params.now ?? Date.now();
+  if (!conversation || conversation.status !== "done") {
+    return undefined;
+  }
+  if (isRunClaimed(conversation.post_call, now)) {
+    log.info(`post-call: ${conversationId} already processed, skipping`);
+    return undefined;
+  }
+
+  const result: StoredPostCallResult = {
+    status: "running",
+    started_at: new Date(now).toISOString(),
+    actions: [],
+  };
+  await savePostCallResult(workspaceDir, conversationId, result);
+
+  let extraction = extractOutcomeFromAnalysis(conversation);
+  if (config.postCall.agentTurn.enabled) {
+    if (!deps.runAgentTurn) {
+      log.warn(`post-call: agent turn enabled but no runner available`);
+    } else {
+      try {
+        const text = await deps.runAgentTurn({
+          conversationId,
+          prompt: buildPostCallPrompt(conversation, extraction),
+          agentId: config.postCall.agentTurn.agentId,
+          model: config.postCall.agentTurn.model,
+          timeoutSeconds: config.postCall.agentTurn.timeoutSeconds,
+        });
+        const agentExtraction = parseAgentExtraction(text);
+        if (agentExtraction) {
+          extraction = mergeExtraction(extraction, agentExtraction);
+        } else {
+          log.warn(`post-call: could not parse agent outcome for ${conversationId}`);
+        }
+      } catch (err) {
+        log.warn(`post-call: agent turn failed for ${conversationId}: ${String(err)}`);
+      }
+    }
+  }
+  result.extraction = extraction;
+
+  const ctx: ActionContext = {
+    cfg,
+    conversation,
+    extraction,
+    calendarId: config.calendarId,
+    deps,
+    log,
+  };
+  for (const action of resolvePostCallActions(
+    extraction,
+    config.postCall.actions[extraction.outcome],
+  )) {
+    const actionResult = await runAction(ctx, action);
+    if (actionResult.ok) {
+      log.info(`post-call: ${conversationId} ${action}: ${actionResult.detail ?? "ok"}`);
+    } else {
+      log.warn(`post-call: ${conversationId} ${action} failed: ${actionResult.error}`);
+    }
+    result.actions.push(actionResult);
+  }
+
+  if (extraction.outcome !== "unknown") {
+    await trackCandidateActivity(workspaceDir, {
+      identity: {
+        name: conversation.dynamic_variables?.candidate_name,
+        phone: conversation.to_number,
+        email: extraction.candidate_email,
+      },
+      source: "voice_call",
+      summary: `Call outcome: ${extraction.outcome.replace(/_/g, " ")}`,
+      ref: conversationId,
+    });
+  }
+
+  result.status = "done";
+  result.completed_at = new Date().toISOString();
+  await savePostCallResult(workspaceDir, conversationId, result);
+  return result;
+}
+
+/**
+ * One-line description of the pipeline result for agent notifications.
+ */
+export function formatPostCallResult(result: StoredPostCallResult): string {
+  const parts: string[] = [];
+  if (result.extraction) {
+    parts.push(`Outcome: ${result.extraction.outcome.replace(/_/g, " ")}.`);
+  }
+  const actions = result.actions.map((entry) =>
+    entry.ok ? (entry.detail ?? entry.action) : `${entry.action} failed (${entry.error})`,
+  );
+  if (actions.length > 0) {
+    parts.push(`Automated actions: ${actions.join("; ")}.`);
+  }
+  return parts.join(" ");
+}
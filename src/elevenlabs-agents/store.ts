@@ -6,6 +6,7 @@
 
 import fs from "node:fs/promises";
 import path from "node:path";
+import { trackCandidateActivity } from "../candidate-pipeline/store.js";
 import type {
   ConversationStore,
   StoredConversation,
@@ -13,6 +14,7 @@ import type {
   StoredTranscriptEntry,
   StoredAnalysis,
   StoredMetadata,
+  StoredPostCallResult,
 } from "./types.js";
 
 const STORE_FILENAME = "elevenlabs-conversations.json";
@@ -106,8 +108,46 @@ export async function saveConversation(
   conversation: StoredConversation,
 ): Promise<void> {
   const store = await readStore(workspaceDir);
+  const previousStatus = store.conversations[conversationId]?.status;
   store.conversations[conversationId] = conversation;
   await writeStore(workspaceDir, store);
+  if (previousStatus !== conversation.status) {
+    await trackConversationInPipeline(workspaceDir, conversationId, conversation);
+  }
+}
+
+/**
+ * Report a call status change to the candidate pipeline.
+ * Initiated calls count as contact; completed calls count as a screening.
+ */
+async function trackConversationInPipeline(
+  workspaceDir: string,
+  conversationId: string,
+  conversation: StoredConversation,
+): Promise<void> {
+  const completed = conversation.status === "done";
+  if (!completed && conversation.status !== "pending") {
+    return;
+  }
+  const collectedEmail = conversation.analysis?.data_collection_results_list?.find(
+    (item) => item.data_collection_id === "candidate_email",
+  )?.value;
+  await trackCandidateActivity(workspaceDir, {
+    identity: {
+      name: conversation.dynamic_variables?.candidate_name,
+      phone: conversation.to_number,
+      email:
+        typeof collectedEmail === "string"
+          ? collectedEmail
+          : conversation.dynamic_variables?.candidate_email,
+    },
+    source: "voice_call",
+    stage: completed ? "screened" : "contacted",
+    summary: completed
+      ? conversation.analysis?.call_summary_title || "Screening call completed"
+      : "Screening call initiated",
+    ref: conversationId,
+  });
 }
 
 /**
@@ -215,6 +255,7 @@ export function conversationDetailsToStored(
     transcript: simplifyTranscript(details.transcript),
     analysis: simplifyAnalysis(details.analysis),
     metadata: simplifyMetadata(details.metadata),
+    post_call: existingStored?.post_call,
   };
 }
 
@@ -246,6 +287,25 @@ export function createInitialStoredConversation(params: {
   };
 }
 
+/**
+ * Record post-call pipeline state on a stored conversation.
+ * Returns false when the conversation is not in the store.
+ */
+export async function savePostCallResult(
+  workspaceDir: string,
+  conversationId: string,
+  result: StoredPostCallResult,
+): Promise<boolean> {
+  const store = await readStore(workspaceDir);
+  const conv = store.conversations[conversationId];
+  if (!conv) {
+    return false;
+  }
+  conv.post_call = result;
+  await writeStore(workspaceDir, store);
+  return true;
+}
+
 /**
  * Delete a conversation from the store.
  */
@@ -340,6 +400,7 @@ export async function saveConversationFromWebhook(
     })),
     analysis: simplifyAnalysis(payload.analysis),
     metadata: simplifyMetadata(payload.metadata),
+    post_call: existing?.post_call,
   };
 
   await saveConversation(workspaceDir, payload.conversationId, updated);
@@ -5,7 +5,9 @@
  * with candidate email and interview time data.
  */
 
+import { formatAvailabilitySlot } from "../calendar-availability/availability.js";
 import type { OpenClawConfig } from "../config/config.js";
+import { proposeInterviewSlots } from "../talently-interview/availability.js";
 import { buildClientOptions, createQuickInterview } from "../talently-interview/client.js";
 import {
   resolveTalentlyInterviewConfig,
@@ -13,6 +15,12 @@ import {
 } from "../talently-interview/config.js";
 import type { QuickInterviewResponse } from "../talently-interview/types.js";
 
+/** Interviews booked from voice calls are 30 minutes. */
+const VOICE_INTERVIEW_DURATION_MINUTES = 30;
+
+/** Number of slots offered to the candidate during a call. */
+const VOICE_SLOT_COUNT = 3;
+
 export type CreateTalentlyInterviewParams = {
   candidateName: string;
   candidateEmail: string;
@@ -102,7 +110,7 @@ export async function createTalentlyInterview(
       candidate_email: params.candidateEmail,
       scheduled_at: params.interviewTimestamp,
       interview_title: title,
-      duration_minutes: 30,
+      duration_minutes: VOICE_INTERVIEW_DURATION_MINUTES,
     });
 
     log.info(`[talently-interview] Created: ${result.meeting_link}`);
@@ -124,3 +132,30 @@ export async function createTalentlyInterview(
     };
   }
 }
+
+/**
+ * Build the `available_slots` dynamic variable: a numbered list of free interview
+ * slots (local time plus ISO timestamp) the voice agent can offer the candidate.
+ * Returns undefined when no interviewers are configured or nothing is free.
+ */
+export async function resolveAvailableSlotsVariable(
+  cfg: OpenClawConfig,
+  log?: { warn: (msg: string) => void },
+): Promise<string | undefined> {
+  try {
+    const { slots } = await proposeInterviewSlots(cfg, {
+      durationMinutes: VOICE_INTERVIEW_DURATION_MINUTES,
+      count: VOICE_SLOT_COUNT,
+      maxPerDay: 2,
+    });
+    if (slots.length === 0) {
+      return undefined;
+    }
+    return slots
+      .map((slot, index) => `${index + 1}. ${formatAvailabilitySlot(slot)} — ${slot.start}`)
+      .join("\n");
+  } catch (err) {
+    log?.warn(`[talently-interview] Availability lookup failed: ${String(err)}`);
+    return undefined;
+  }
+}
@@ -4,10 +4,33 @@
  * Agent tool for making outbound calls via ElevenLabs Conversational AI.
  */
 
+import fs from "node:fs/promises";
+import path from "node:path";
 import { Type } from "@sinclair/typebox";
 import type { AnyAgentTool } from "../agents/tools/common.js";
+import {
+  jsonResult,
+  readNumberParam,
+  readStringArrayParam,
+  readStringParam,
+} from "../agents/tools/common.js";
 import type { OpenClawConfig } from "../config/config.js";
-import { jsonResult, readNumberParam, readStringParam } from "../agents/tools/common.js";
+import { resolveUserPath } from "../utils.js";
+import {
+  addDoNotCallNumbers,
+  getCallCampaign,
+  isDoNotCall,
+  listCallCampaigns,
+  readDoNotCallStore,
+  removeDoNotCallNumbers,
+  updateCallCampaign,
+} from "./campaign-store.js";
+import {
+  buildCampaignReport,
+  createCallCampaign,
+  parseCampaignCsv,
+  type CampaignRecipientInput,
+} from "./campaigns.js";
 import {
   buildClientOptions,
   initiateOutboundCall,
@@ -30,6 +53,7 @@ import {
   getPreviousCallSummary,
   type StoredConversationWithId,
 } from "./store.js";
+import { resolveAvailableSlotsVariable } from "./talently-interview.js";
 
 // =============================================================================
 // Tool Schema
@@ -38,7 +62,10 @@ import {
 // Using a single object with action field (avoiding Type.Union per codebase convention)
 const ElevenLabsAgentsSchema = Type.Object({
   action: Type.String({
-    description: 'Action to perform: "initiate_call", "get_conversation", or "list_conversations"',
+    description:
+      'Action to perform: "initiate_call", "get_conversation", "list_conversations", ' +
+      '"create_campaign", "campaign_status", "list_campaigns", "pause_campaign", "resume_campaign", ' +
+      '"cancel_campaign", "do_not_call_add", "do_not_call_remove", or "do_not_call_list"',
   }),
   // initiate_call params (required for initiate_call action)
   to_number: Type.Optional(
@@ -81,20 +108,96 @@ const ElevenLabsAgentsSchema = Type.Object({
       description: 'Filter by status (e.g., "done", "pending", "in-progress")',
     }),
   ),
+  // create_campaign params
+  name: Type.Optional(Type.String({ description: "Campaign name (create_campaign)" })),
+  recipients: Type.Optional(
+    Type.Array(
+      Type.Object(
+        {
+          to_number: Type.String({ description: "Phone number (E.164)" }),
+          time_zone: Type.Optional(
+            Type.String({ description: "Recipient IANA time zone for calling hours" }),
+          ),
+          dynamic_variables: Type.Optional(
+            Type.Object(
+              {},
+              {
+                additionalProperties: true,
+                description: "Per-recipient dynamic variables (candidate_name required)",
+              },
+            ),
+          ),
+        },
+        { additionalProperties: false },
+      ),
+      { description: "Recipients for create_campaign (or use csv_path)" },
+    ),
+  ),
+  csv_path: Type.Optional(
+    Type.String({
+      description:
+        "CSV file with a header row for create_campaign: a phone column (to_number/phone), " +
+        "optional time_zone column, other columns become dynamic variables",
+    }),
+  ),
+  max_concurrent_calls: Type.Optional(
+    Type.Number({ description: "Calls in flight at once (create_campaign)", minimum: 1 }),
+  ),
+  max_attempts: Type.Optional(
+    Type.Number({
+      description: "Call attempts per recipient including no-answer retries (create_campaign)",
+      minimum: 1,
+    }),
+  ),
+  retry_delay_minutes: Type.Optional(
+    Type.Number({ description: "Wait before retrying an unanswered call", minimum: 1 }),
+  ),
+  time_zone: Type.Optional(
+    Type.String({ description: "Default recipient time zone for calling hours" }),
+  ),
+  // campaign_status / pause / resume / cancel params
+  campaign_id: Type.Optional(Type.String({ description: "Campaign ID" })),
+  include_recipients: Type.Optional(
+    Type.Boolean({ description: "Include per-recipient rows in campaign_status" }),
+  ),
+  // do_not_call params
+  numbers: Type.Optional(
+    Type.Array(Type.String(), { description: "Phone numbers for do_not_call_add/remove" }),
+  ),
+  reason: Type.Optional(Type.String({ description: "Reason for do_not_call_add" })),
 });
 
 // =============================================================================
 // Action Handlers
 // =============================================================================
 
+/**
+ * Coerce a dynamic variables object to string values.
+ */
+function readDynamicVariables(raw: unknown): Record<string, string> | undefined {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return undefined;
+  }
+  const variables: Record<string, string> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    if (typeof value === "string") {
+      variables[key] = value;
+    } else if (value !== null && value !== undefined) {
+      variables[key] = String(value);
+    }
+  }
+  return variables;
+}
+
 async function handleInitiateCall(params: {
+  cfg: OpenClawConfig;
   clientOpts: ElevenLabsClientOptions;
   resolvedConfig: ResolvedElevenLabsAgentsConfig;
   workspaceDir: string;
   toNumber?: string;
   dynamicVariables?: Record<string, string>;
 }) {
-  const { clientOpts, resolvedConfig, workspaceDir, toNumber, dynamicVariables } = params;
+  const { cfg, clientOpts, resolvedConfig, workspaceDir, toNumber, dynamicVariables } = params;
 
   if (!toNumber) {
     return jsonResult({
@@ -111,6 +214,13 @@ async function handleInitiateCall(params: {
     });
   }
 
+  if (await isDoNotCall(workspaceDir, toNumber)) {
+    return jsonResult({
+      success: false,
+      error: `${toNumber} is on the do-not-call list`,
+    });
+  }
+
   try {
     // Merge default dynamic variables with provided ones
     const mergedVariables: Record<string, string> = {
@@ -134,6 +244,14 @@ async function handleInitiateCall(params: {
       mergedVariables.previous_call_summary = "This is the first call to this number.";
     }
 
+    // Offer free interview slots unless the caller provided their own
+    if (!mergedVariables.available_slots) {
+      const availableSlots = await resolveAvailableSlotsVariable(cfg);
+      if (availableSlots) {
+        mergedVariables.available_slots = availableSlots;
+      }
+    }
+
     const response = await initiateOutboundCall(clientOpts, {
       agentId: resolvedConfig.agentId,
       phoneNumberId: resolvedConfig.phoneNumberId,
@@ -251,6 +369,173 @@ async function handleListConversations(params: {
   }
 }
 
+async function readCampaignRecipients(
+  params: Record<string, unknown>,
+  workspaceDir: string,
+): Promise<{ recipients: CampaignRecipientInput[]; errors: string[] }> {
+  const csvPath = readStringParam(params, "csv_path");
+  if (csvPath) {
+    const resolved = path.resolve(workspaceDir, resolveUserPath(csvPath));
+    return parseCampaignCsv(await fs.readFile(resolved, "utf-8"));
+  }
+  const raw = Array.isArray(params.recipients) ? params.recipients : [];
+  const recipients: CampaignRecipientInput[] = [];
+  for (const entry of raw) {
+    if (!entry || typeof entry !== "object") {
+      continue;
+    }
+    const record = entry as Record<string, unknown>;
+    recipients.push({
+      to_number: typeof record.to_number === "string" ? record.to_number : "",
+      time_zone: typeof record.time_zone === "string" ? record.time_zone : undefined,
+      dynamic_variables: readDynamicVariables(record.dynamic_variables),
+    });
+  }
+  return { recipients, errors: [] };
+}
+
+async function handleCreateCampaign(params: {
+  cfg: OpenClawConfig;
+  workspaceDir: string;
+  sessionKey?: string;
+  args: Record<string, unknown>;
+}) {
+  const { cfg, workspaceDir, sessionKey, args } = params;
+  try {
+    const { recipients, errors } = await readCampaignRecipients(args, workspaceDir);
+    if (recipients.length === 0) {
+      return jsonResult({
+        success: false,
+        error: "recipients or csv_path is required for create_campaign action",
+        details: errors.length > 0 ? errors : undefined,
+      });
+    }
+    const { campaign, rejected } = await createCallCampaign({
+      cfg,
+      workspaceDir,
+      name: readStringParam(args, "name") ?? "",
+      recipients,
+      sessionKey,
+      maxConcurrentCalls: readNumberParam(args, "max_concurrent_calls", { integer: true }),
+      maxAttempts: readNumberParam(args, "max_attempts", { integer: true }),
+      retryDelayMinutes: readNumberParam(args, "retry_delay_minutes", { integer: true }),
+      timeZone: readStringParam(args, "time_zone"),
+    });
+    const report = await buildCampaignReport(workspaceDir, campaign);
+    return jsonResult({
+      success: true,
+      campaign_id: campaign.campaign_id,
+      report,
+      settings: campaign.settings,
+      rejected: [...errors, ...rejected],
+      message: `Campaign "${campaign.name}" queued ${campaign.recipients.length} recipients. Calls are placed in the background within calling hours; use campaign_status with campaign_id "${campaign.campaign_id}" to follow progress.`,
+    });
+  } catch (err) {
+    return jsonResult({
+      success: false,
+      error: `Failed to create campaign: ${err instanceof Error ? err.message : String(err)}`,
+    });
+  }
+}
+
+async function handleCampaignStatus(params: {
+  workspaceDir: string;
+  campaignId?: string;
+  includeRecipients: boolean;
+}) {
+  if (!params.campaignId) {
+    return jsonResult({
+      success: false,
+      error: "campaign_id is required for campaign_status action",
+    });
+  }
+  const campaign = await getCallCampaign(params.workspaceDir, params.campaignId);
+  if (!campaign) {
+    return jsonResult({ success: false, error: `Campaign not found: ${params.campaignId}` });
+  }
+  return jsonResult({
+    success: true,
+    report: await buildCampaignReport(params.workspaceDir, campaign, {
+      includeRecipients: params.includeRecipients,
+    }),
+  });
+}
+
+async function handleListCampaigns(params: { workspaceDir: string; limit?: number }) {
+  const campaigns = (await listCallCampaigns(params.workspaceDir)).slice(0, params.limit ?? 10);
+  const reports = await Promise.all(
+    campaigns.map((campaign) => buildCampaignReport(params.workspaceDir, campaign)),
+  );
+  return jsonResult({ success: true, campaigns: reports, count: reports.length });
+}
+
+const CAMPAIGN_STATUS_BY_ACTION = {
+  pause_campaign: "paused",
+  resume_campaign: "active",
+  cancel_campaign: "cancelled",
+} as const;
+
+async function handleSetCampaignStatus(params: {
+  workspaceDir: string;
+  campaignId?: string;
+  action: keyof typeof CAMPAIGN_STATUS_BY_ACTION;
+}) {
+  const { workspaceDir, campaignId, action } = params;
+  if (!campaignId) {
+    return jsonResult({ success: false, error: `campaign_id is required for ${action} action` });
+  }
+  let error: string | undefined;
+  const updated = await updateCallCampaign(workspaceDir, campaignId, (current) => {
+    if (!current) {
+      error = `Campaign not found: ${campaignId}`;
+      return undefined;
+    }
+    if (current.status === "completed" || current.status === "cancelled") {
+      error = `Campaign ${campaignId} is already ${current.status}`;
+      return undefined;
+    }
+    return { ...current, status: CAMPAIGN_STATUS_BY_ACTION[action] };
+  });
+  if (error || !updated) {
+    return jsonResult({ success: false, error: error ?? `Campaign not found: ${campaignId}` });
+  }
+  return jsonResult({
+    success: true,
+    campaign_id: campaignId,
+    status: updated.status,
+    note:
+      updated.status === "cancelled"
+        ? "Calls already in progress finish normally; no new calls are placed."
+        : undefined,
+  });
+}
+
+async function handleDoNotCall(params: {
+  workspaceDir: string;
+  action: "do_not_call_add" | "do_not_call_remove" | "do_not_call_list";
+  numbers?: string[];
+  reason?: string;
+}) {
+  const { workspaceDir, action, numbers, reason } = params;
+  if (action === "do_not_call_list") {
+    const store = await readDoNotCallStore(workspaceDir);
+    return jsonResult({
+      success: true,
+      numbers: store.numbers,
+      count: Object.keys(store.numbers).length,
+    });
+  }
+  if (!numbers || numbers.length === 0) {
+    return jsonResult({ success: false, error: `numbers is required for ${action} action` });
+  }
+  if (action === "do_not_call_add") {
+    const added = await addDoNotCallNumbers(workspaceDir, numbers, reason);
+    return jsonResult({ success: true, added });
+  }
+  const removed = await removeDoNotCallNumbers(workspaceDir, numbers);
+  return jsonResult({ success: true, removed });
+}
+
 // =============================================================================
 // Tool Factory
 // =============================================================================
@@ -261,6 +546,8 @@ async function handleListConversations(params: {
 export function createElevenLabsAgentsTool(options?: {
   config?: OpenClawConfig;
   workspaceDir?: string;
+  /** Session notified when campaigns finish. */
+  agentSessionKey?: string;
 }): AnyAgentTool | null {
   const cfg = options?.config;
   const resolvedConfig = resolveElevenLabsAgentsConfig(cfg ?? ({} as OpenClawConfig));
@@ -283,6 +570,10 @@ export function createElevenLabsAgentsTool(options?: {
       "Make outbound phone calls using ElevenLabs Conversational AI agents. " +
       "Actions: initiate_call (start a call, returns immediately), get_conversation (get call status/transcript), " +
       "list_conversations (list stored calls). " +
+      "Campaigns: create_campaign (batch calls from recipients or a CSV, with calling hours, " +
+      "concurrency and no-answer retries), campaign_status, list_campaigns, pause_campaign, " +
+      "resume_campaign, cancel_campaign. do_not_call_add/do_not_call_remove/do_not_call_list " +
+      "manage numbers that are never called. " +
       "Pass dynamic_variables to customize the agent's context (e.g., candidate_name, position).",
     parameters: ElevenLabsAgentsSchema,
     execute: async (_toolCallId, args) => {
@@ -302,22 +593,12 @@ export function createElevenLabsAgentsTool(options?: {
       }
 
       // Parse dynamic_variables
-      let dynamicVariables: Record<string, string> | undefined;
-      const rawDynVars = params.dynamic_variables;
-      if (rawDynVars && typeof rawDynVars === "object" && !Array.isArray(rawDynVars)) {
-        dynamicVariables = {};
-        for (const [key, value] of Object.entries(rawDynVars)) {
-          if (typeof value === "string") {
-            dynamicVariables[key] = value;
-          } else if (value !== null && value !== undefined) {
-            dynamicVariables[key] = String(value);
-          }
-        }
-      }
+      const dynamicVariables = readDynamicVariables(params.dynamic_variables);
 
       switch (action) {
         case "initiate_call":
           return handleInitiateCall({
+            cfg: cfg ?? ({} as OpenClawConfig),
             clientOpts,
             resolvedConfig,
             workspaceDir,
@@ -339,10 +620,50 @@ export function createElevenLabsAgentsTool(options?: {
             status: readStringParam(params, "status"),
           });
 
+        case "create_campaign":
+          return handleCreateCampaign({
+            cfg: cfg ?? ({} as OpenClawConfig),
+            workspaceDir,
+            sessionKey: options?.agentSessionKey,
+            args: params,
+          });
+
+        case "campaign_status":
+          return handleCampaignStatus({
+            workspaceDir,
+            campaignId: readStringParam(params, "campaign_id"),
+            includeRecipients: params.include_recipients === true,
+          });
+
+        case "list_campaigns":
+          return handleListCampaigns({
+            workspaceDir,
+            limit: readNumberParam(params, "limit", { integer: true }),
+          });
+
+        case "pause_campaign":
+        case "resume_campaign":
+        case "cancel_campaign":
+          return handleSetCampaignStatus({
+            workspaceDir,
+            campaignId: readStringParam(params, "campaign_id"),
+            action,
+          });
+
+        case "do_not_call_add":
+        case "do_not_call_remove":
+        case "do_not_call_list":
+          return handleDoNotCall({
+            workspaceDir,
+            action,
+            numbers: readStringArrayParam(params, "numbers"),
+            reason: readStringParam(params, "reason"),
+          });
+
         default:
           return jsonResult({
             success: false,
-            error: `Unknown action: ${action}. Valid actions: initiate_call, get_conversation, list_conversations`,
+            error: `Unknown action: ${action}. Valid actions: initiate_call, get_conversation, list_conversations, create_campaign, campaign_status, list_campaigns, pause_campaign, resume_campaign, cancel_campaign, do_not_call_add, do_not_call_remove, do_not_call_list`,
           });
       }
     },
@@ -4,6 +4,8 @@
  * TypeScript interfaces for the ElevenLabs Agents API.
  */
 
+import type { ResolvedWorkingHours, WorkingHoursConfig } from "../calendar-availability/types.js";
+
 // =============================================================================
 // Configuration Types
 // =============================================================================
@@ -22,6 +24,105 @@ export type ElevenLabsAgentsConfig = {
   webhookPath?: string;
   /** Google Calendar ID for scheduling interviews (default: "primary") */
   calendarId?: string;
+  /** Post-call pipeline (outcome extraction and follow-up actions) */
+  postCall?: PostCallPipelineConfig;
+  /** Defaults for batch calling campaigns */
+  campaigns?: CallCampaignDefaultsConfig;
+};
+
+export type CallCampaignDefaultsConfig = {
+  /** Calls in flight at once per campaign (default: 2) */
+  maxConcurrentCalls?: number;
+  /** Allowed calling hours in each recipient's local time (default: Mon-Fri 09:00-17:00) */
+  callingHours?: WorkingHoursConfig;
+  /** Time zone for recipients without one (default: user time zone) */
+  timeZone?: string;
+  /** Call attempts per recipient, including retries after no answer (default: 3) */
+  maxAttempts?: number;
+  /** Wait before retrying an unanswered call (default: 120) */
+  retryDelayMinutes?: number;
+};
+
+// =============================================================================
+// Post-Call Pipeline Types
+// =============================================================================
+
+/** Outcome of a completed call, as extracted from the transcript and analysis. */
+export const POST_CALL_OUTCOMES = [
+  "interested",
+  "not_interested",
+  "callback",
+  "scheduled",
+  "reschedule",
+  "unknown",
+] as const;
+
+export type PostCallOutcome = (typeof POST_CALL_OUTCOMES)[number];
+
+/** Follow-up actions the pipeline can trigger for an outcome. */
+export const POST_CALL_ACTIONS = [
+  "send_follow_up",
+  "send_reschedule",
+  "create_interview",
+  "schedule_callback",
+] as const;
+
+export type PostCallActionKind = (typeof POST_CALL_ACTIONS)[number];
+
+export type PostCallPipelineConfig = {
+  /** Run the pipeline for completed calls (default: true) */
+  enabled?: boolean;
+  /** Run an isolated agent turn over the transcript to extract the outcome */
+  agentTurn?: {
+    /** Default: false (outcome comes from ElevenLabs data collection only) */
+    enabled?: boolean;
+    /** Agent to run the turn as (default: the default agent) */
+    agentId?: string;
+    /** Model override (provider/model or alias) */
+    model?: string;
+    /** Timeout for the agent turn in seconds (default: 120) */
+    timeoutSeconds?: number;
+  };
+  /**
+   * Follow-up actions per outcome (replaces the default list for that outcome).
+   * Callbacks and candidate emails implied by the collected data run regardless,
+   * except for "not_interested".
+   */
+  actions?: Partial<Record<PostCallOutcome, PostCallActionKind[]>>;
+};
+
+/**
+ * Structured outcome fields extracted from a completed call.
+ */
+export type PostCallExtraction = {
+  outcome: PostCallOutcome;
+  /** Where the outcome came from */
+  source: "data_collection" | "agent";
+  candidate_email?: string;
+  /** ISO 8601 time the candidate asked to be called back */
+  callback_time?: string;
+  /** ISO 8601 interview slot the candidate agreed to */
+  scheduled_slot?: string;
+  /** Short summary of the call */
+  summary?: string;
+};
+
+export type PostCallActionResult = {
+  action: PostCallActionKind;
+  ok: boolean;
+  detail?: string;
+  error?: string;
+};
+
+/**
+ * Post-call pipeline state stored with the conversation (guards against webhook retries).
+ */
+export type StoredPostCallResult = {
+  status: "running" | "done";
+  started_at: string;
+  completed_at?: string;
+  extraction?: PostCallExtraction;
+  actions: PostCallActionResult[];
 };
 
 // =============================================================================
@@ -215,6 +316,7 @@ export type StoredConversation = {
   transcript?: StoredTranscriptEntry[];
   analysis?: StoredAnalysis;
   metadata?: StoredMetadata;
+  post_call?: StoredPostCallResult;
 };
 
 /**
@@ -224,6 +326,103 @@ export type ConversationStore = {
   conversations: Record<string, StoredConversation>;
 };
 
+// =============================================================================
+// Campaign Types
+// =============================================================================
+
+export type CallCampaignStatus = "active" | "paused" | "completed" | "cancelled";
+
+export type CampaignRecipientStatus =
+  | "queued"
+  | "calling"
+  | "retry_wait"
+  | "completed"
+  | "no_answer"
+  | "failed"
+  | "do_not_call"
+  | "cancelled";
+
+export type CampaignRecipient = {
+  /** 1-based row in the uploaded list */
+  row: number;
+  to_number: string;
+  dynamic_variables: Record<string, string>;
+  /** IANA time zone used for calling hours */
+  time_zone: string;
+  status: CampaignRecipientStatus;
+  attempts: number;
+  next_attempt_at?: string;
+  last_attempt_at?: string;
+  conversation_ids: string[];
+  error?: string;
+};
+
+export type CallCampaignSettings = {
+  max_concurrent_calls: number;
+  calling_hours: ResolvedWorkingHours;
+  max_attempts: number;
+  retry_delay_minutes: number;
+};
+
+/**
+ * Batch of outbound calls worked through by the campaign runner.
+ */
+export type CallCampaign = {
+  campaign_id: string;
+  name: string;
+  status: CallCampaignStatus;
+  created_at: string;
+  updated_at: string;
+  completed_at?: string;
+  notified_at?: string;
+  /** Session notified when the campaign finishes */
+  session_key?: string;
+  settings: CallCampaignSettings;
+  recipients: CampaignRecipient[];
+};
+
+export type CallCampaignStore = {
+  campaigns: Record<string, CallCampaign>;
+};
+
+export type DoNotCallEntry = {
+  added_at: string;
+  reason?: string;
+};
+
+/**
+ * Numbers (E.164) that must never be called.
+ */
+export type DoNotCallStore = {
+  numbers: Record<string, DoNotCallEntry>;
+};
+
+export type CampaignReportRecipient = {
+  row: number;
+  to_number: string;
+  candidate_name?: string;
+  status: CampaignRecipientStatus;
+  attempts: number;
+  outcome?: PostCallOutcome;
+  last_conversation_id?: string;
+  call_summary?: string;
+  error?: string;
+};
+
+/**
+ * Campaign progress built from recipients and their stored conversations.
+ */
+export type CampaignReport = {
+  campaign_id: string;
+  name: string;
+  status: CallCampaignStatus;
+  total: number;
+  calls_placed: number;
+  by_status: Partial<Record<CampaignRecipientStatus, number>>;
+  by_outcome: Partial<Record<PostCallOutcome, number>>;
+  recipients?: CampaignReportRecipient[];
+};
+
 // =============================================================================
 // Tool Result Types
 // =============================================================================
@@ -0,0 +1,72 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { PassThrough } from "node:stream";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { signWebhookFixture } from "../test-helpers/webhook-signing.js";
+import { handleElevenLabsWebhookRequest, registerElevenLabsWebhookHandler } from "./webhook.js";
+
+const SECRET = "wsec_test";
+
+function createRequest(rawBody: string, headers: IncomingMessage["headers"]): IncomingMessage {
+  const req = new PassThrough() as unknown as IncomingMessage;
+  Object.assign(req, { method: "POST", url: "/elevenlabs/webhook", headers });
+  (req as unknown as PassThrough).end(rawBody);
+  return req;
+}
+
+function createResponse() {
+  const res = {
+    statusCode: 0,
+    body: "",
+    setHeader: vi.fn(),
+    end: vi.fn((body?: string) => {
+      res.body = body ?? "";
+    }),
+  };
+  return res;
+}
+
+describe("handleElevenLabsWebhookRequest", () => {
+  let unregister: (() => void) | undefined;
+
+  afterEach(() => {
+    unregister?.();
+  });
+
+  it("processes a signed delivery once and acknowledges replays without processing", async () => {
+    const onWebhook = vi.fn();
+    unregister = registerElevenLabsWebhookHandler({
+      webhookSecret: SECRET,
+      webhookPath: "/elevenlabs/webhook",
+      onWebhook,
+    });
+    const fixture = signWebhookFixture({
+      provider: "elevenlabs",
+      secret: SECRET,
+      payload: { data: { conversation_id: "conv-1", status: "done" } },
+    });
+
+    const first = createResponse();
+    await handleElevenLabsWebhookRequest(
+      createRequest(fixture.rawBody, fixture.headers),
+      first as unknown as ServerResponse,
+    );
+    const replay = createResponse();
+    await handleElevenLabsWebhookRequest(
+      createRequest(fixture.rawBody, fixture.headers),
+      replay as unknown as ServerResponse,
+    );
+    const unsigned = createResponse();
+    await handleElevenLabsWebhookRequest(
+      createRequest(fixture.rawBody, {}),
+      unsigned as unknown as ServerResponse,
+    );
+    await vi.waitFor(() => expect(onWebhook).toHaveBeenCalledTimes(1));
+
+    expect(first.statusCode).toBe(200);
+    expect(JSON.parse(replay.body)).toEqual({ ok: true, duplicate: true });
+    expect(unsigned.statusCode).toBe(401);
+    expect(onWebhook).toHaveBeenCalledWith(
+      expect.objectContaining({ conversationId: "conv-1", status: "done" }),
+    );
+  });
+});
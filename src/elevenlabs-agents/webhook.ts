@@ -1,140 +1,20 @@
 /**
  * ElevenLabs Agents - Webhook Handler
  *
- * Handles post-call webhooks from ElevenLabs with HMAC signature verification.
+ * Handles post-call webhooks from ElevenLabs. Signatures, timestamps and replays
+ * are checked by the shared webhook verifier.
  */
 
 import type { IncomingMessage, ServerResponse } from "node:http";
-import crypto from "node:crypto";
-import type { ConversationDetails } from "./types.js";
+import { createSubsystemLogger } from "../logging/subsystem.js";
+import {
+  createWebhookVerifier,
+  readWebhookBody,
+  sendWebhookRejection,
+  type WebhookVerifier,
+} from "../security/webhook-verify.js";
 
-// =============================================================================
-// Signature Verification
-// =============================================================================
-
-/**
- * Parse the ElevenLabs-Signature header.
- * Tries multiple formats:
- * - t=<timestamp>,v1=<signature> (Stripe-style)
- * - timestamp=<timestamp>,signature=<signature>
- * - Just raw signature (no timestamp)
- */
-function parseSignatureHeader(
-  header: string,
-): { timestamp: string | null; signature: string } | null {
-  // Try format: t=<timestamp>,v1=<signature>
-  const parts: Record<string, string> = {};
-  for (const part of header.split(",")) {
-    const eqIndex = part.indexOf("=");
-    if (eqIndex > 0) {
-      const key = part.slice(0, eqIndex).trim();
-      const value = part.slice(eqIndex + 1).trim();
-      if (key && value) {
-        parts[key] = value;
-      }
-    }
-  }
-
-  // Try t/v0 format (ElevenLabs uses this)
-  if (parts.t && parts.v0) {
-    return { timestamp: parts.t, signature: parts.v0 };
-  }
-
-  // Try t/v1 format
-  if (parts.t && parts.v1) {
-    return { timestamp: parts.t, signature: parts.v1 };
-  }
-
-  // Try timestamp/signature format
-  if (parts.timestamp && parts.signature) {
-    return { timestamp: parts.timestamp, signature: parts.signature };
-  }
-
-  // Try v0/v1 without timestamp
-  if (parts.v1) {
-    return { timestamp: null, signature: parts.v1 };
-  }
-  if (parts.v0) {
-    return { timestamp: null, signature: parts.v0 };
-  }
-
-  // Maybe it's just a raw signature (hex string)
-  if (/^[a-f0-9]{64}$/i.test(header.trim())) {
-    return { timestamp: null, signature: header.trim() };
-  }
-
-  return null;
-}
-
-/**
- * Validate ElevenLabs webhook signature using HMAC-SHA256.
- */
-export function validateElevenLabsSignature(
-  rawBody: string,
-  signatureHeader: string,
-  secret: string,
-): { ok: true } | { ok: false; reason: string } {
-  console.log(`[elevenlabs-webhook] Parsing signature: "${signatureHeader}"`);
-
-  const parsed = parseSignatureHeader(signatureHeader);
-  if (!parsed) {
-    console.log(`[elevenlabs-webhook] Failed to parse signature header`);
-    return { ok: false, reason: "Invalid signature header format" };
-  }
-
-  const { timestamp, signature } = parsed;
-  console.log(
-    `[elevenlabs-webhook] Parsed - timestamp: ${timestamp}, signature: ${signature.slice(0, 16)}...`,
-  );
-
-  // If we have a timestamp, validate it and include it in the signed payload
-  if (timestamp) {
-    const timestampMs = parseInt(timestamp, 10) * 1000;
-    const now = Date.now();
-    const fiveMinutes = 5 * 60 * 1000;
-    if (isNaN(timestampMs) || Math.abs(now - timestampMs) > fiveMinutes) {
-      console.log(`[elevenlabs-webhook] Timestamp validation failed: ${timestamp}`);
-      return { ok: false, reason: "Timestamp too old or invalid" };
-    }
-
-    // Compute expected signature: HMAC-SHA256(timestamp.rawBody)
-    const signedPayload = `${timestamp}.${rawBody}`;
-    const expectedSignature = crypto
-      .createHmac("sha256", secret)
-      .update(signedPayload)
-      .digest("hex");
-
-    if (compareSignatures(expectedSignature, signature)) {
-      return { ok: true };
-    }
-    console.log(`[elevenlabs-webhook] Signature mismatch with timestamp`);
-  }
-
-  // Try without timestamp (just HMAC of body)
-  const expectedNoTimestamp = crypto.createHmac("sha256", secret).update(rawBody).digest("hex");
-  if (compareSignatures(expectedNoTimestamp, signature)) {
-    console.log(`[elevenlabs-webhook] Signature matched without timestamp`);
-    return { ok: true };
-  }
-
-  console.log(`[elevenlabs-webhook] Expected (no ts): ${expectedNoTimestamp.slice(0, 16)}...`);
-  console.log(`[elevenlabs-webhook] Got: ${signature.slice(0, 16)}...`);
-
-  return { ok: false, reason: "Signature mismatch" };
-}
-
-function compareSignatures(expected: string, actual: string): boolean {
-  try {
-    const expectedBuffer = Buffer.from(expected, "hex");
-    const actualBuffer = Buffer.from(actual, "hex");
-    if (expectedBuffer.length !== actualBuffer.length) {
-      return false;
-    }
-    return crypto.timingSafeEqual(expectedBuffer, actualBuffer);
-  } catch {
-    return false;
-  }
-}
+const log = createSubsystemLogger("elevenlabs-webhook");
 
 // =============================================================================
 // Webhook Payload Types
@@ -180,6 +60,8 @@ export type ElevenLabsWebhookPayload = {
 export type ElevenLabsWebhookHandlerOptions = {
   webhookSecret: string;
   webhookPath: string;
+  /** Accepted signature timestamp skew in seconds. Default: 300. */
+  toleranceSeconds?: number;
   onWebhook: (payload: {
     conversationId: string;
     status: string;
@@ -189,32 +71,6 @@ export type ElevenLabsWebhookHandlerOptions = {
   }) => void | Promise<void>;
 };
 
-/**
- * Read raw body from request.
- */
-async function readRawBody(req: IncomingMessage, maxBytes: number): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const chunks: Buffer[] = [];
-    let total = 0;
-
-    req.on("data", (chunk: Buffer) => {
-      total += chunk.length;
-      if (total > maxBytes) {
-        req.destroy();
-        reject(new Error("Payload too large"));
-        return;
-      }
-      chunks.push(chunk);
-    });
-
-    req.on("end", () => {
-      resolve(Buffer.concat(chunks).toString("utf-8"));
-    });
-
-    req.on("error", reject);
-  });
-}
-
 /**
  * Normalize webhook payload to consistent format.
  */
@@ -249,12 +105,24 @@ function normalizePayload(raw: ElevenLabsWebhookPayload): {
 
 type RegisteredHandler = {
   path: string;
-  secret: string;
+  verifier: WebhookVerifier;
   onWebhook: ElevenLabsWebhookHandlerOptions["onWebhook"];
 };
 
 let registeredHandler: RegisteredHandler | null = null;
 
+function toRegisteredHandler(opts: ElevenLabsWebhookHandlerOptions): RegisteredHandler {
+  return {
+    path: opts.webhookPath,
+    verifier: createWebhookVerifier({
+      provider: "elevenlabs",
+      secret: opts.webhookSecret,
+      toleranceSeconds: opts.toleranceSeconds,
+    }),
+    onWebhook: opts.onWebhook,
+  };
+}
+
 /**
  * Register the ElevenLabs webhook handler.
  * Returns a cleanup function to unregister.
@@ -262,121 +130,101 @@ let registeredHandler: RegisteredHandler | null = null;
 export function registerElevenLabsWebhookHandler(
   opts: ElevenLabsWebhookHandlerOptions,
 ): () => void {
-  registeredHandler = {
-    path: opts.webhookPath,
-    secret: opts.webhookSecret,
-    onWebhook: opts.onWebhook,
-  };
+  registeredHandler = toRegisteredHandler(opts);
   return () => {
     registeredHandler = null;
   };
 }
 
-/**
- * Handle ElevenLabs webhook HTTP request.
- * Returns true if the request was handled (path matched), false otherwise.
- */
-export async function handleElevenLabsWebhookRequest(
+function sendJson(res: ServerResponse, statusCode: number, body: unknown): void {
+  res.statusCode = statusCode;
+  res.setHeader("Content-Type", "application/json");
+  res.end(JSON.stringify(body));
+}
+
+async function processWebhookRequest(
+  handler: RegisteredHandler,
   req: IncomingMessage,
   res: ServerResponse,
 ): Promise<boolean> {
-  if (!registeredHandler) {
-    return false;
-  }
-
-  const { path: webhookPath, secret: webhookSecret, onWebhook } = registeredHandler;
-  const maxBodyBytes = 1024 * 1024; // 1MB
-
   // Check path
   const url = new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`);
-  if (url.pathname !== webhookPath) {
+  if (url.pathname !== handler.path) {
     return false;
   }
 
-  console.log(`[elevenlabs-webhook] Received`);
-
   // Only accept POST
   if (req.method !== "POST") {
-    console.log(`[elevenlabs-webhook] Rejected: Method ${req.method} not allowed`);
     res.statusCode = 405;
     res.setHeader("Allow", "POST");
     res.end("Method Not Allowed");
     return true;
   }
 
-  // Get signature header
-  const signatureHeader = req.headers["elevenlabs-signature"];
-  if (!signatureHeader || typeof signatureHeader !== "string") {
-    console.log("[elevenlabs-webhook] Rejected: Missing ElevenLabs-Signature header");
-    res.statusCode = 401;
-    res.setHeader("Content-Type", "application/json");
-    res.end(JSON.stringify({ error: "Missing ElevenLabs-Signature header" }));
-    return true;
-  }
-
-  // Read body
   let rawBody: string;
   try {
-    rawBody = await readRawBody(req, maxBodyBytes);
-  } catch (err) {
-    console.log("[elevenlabs-webhook] Rejected: Payload too large");
-    res.statusCode = 413;
-    res.setHeader("Content-Type", "application/json");
-    res.end(JSON.stringify({ error: "Payload too large" }));
+    rawBody = await readWebhookBody(req);
+  } catch {
+    log.warn("rejected: payload too large");
+    sendJson(res, 413, { error: "Payload too large" });
     return true;
   }
 
-  // Verify signature
-  const verification = validateElevenLabsSignature(rawBody, signatureHeader, webhookSecret);
+  const verification = handler.verifier.verify({
+    rawBody,
+    headers: req.headers,
+    path: url.pathname,
+  });
   if (!verification.ok) {
-    console.log(`[elevenlabs-webhook] Rejected: ${verification.reason}`);
-    res.statusCode = 401;
-    res.setHeader("Content-Type", "application/json");
-    res.end(JSON.stringify({ error: verification.reason }));
+    sendWebhookRejection(res, verification);
     return true;
   }
 
-  // Parse payload
   let payload: ElevenLabsWebhookPayload;
   try {
     payload = JSON.parse(rawBody) as ElevenLabsWebhookPayload;
   } catch {
-    console.log("[elevenlabs-webhook] Rejected: Invalid JSON");
-    res.statusCode = 400;
-    res.setHeader("Content-Type", "application/json");
-    res.end(JSON.stringify({ error: "Invalid JSON" }));
+    log.warn("rejected: invalid JSON");
+    sendJson(res, 400, { error: "Invalid JSON" });
     return true;
   }
 
-  // Normalize and validate
   const normalized = normalizePayload(payload);
   if (!normalized) {
-    console.log("[elevenlabs-webhook] Rejected: Missing conversation_id in payload");
-    res.statusCode = 400;
-    res.setHeader("Content-Type", "application/json");
-    res.end(JSON.stringify({ error: "Missing conversation_id" }));
+    log.warn("rejected: missing conversation_id");
+    sendJson(res, 400, { error: "Missing conversation_id" });
     return true;
   }
 
-  console.log(
-    `[elevenlabs-webhook] Valid webhook: ${normalized.conversationId} (${normalized.status})`,
-  );
+  log.info(`received ${normalized.conversationId} (${normalized.status})`);
 
   // Respond immediately (ElevenLabs expects quick 200)
-  res.statusCode = 200;
-  res.setHeader("Content-Type", "application/json");
-  res.end(JSON.stringify({ ok: true }));
+  sendJson(res, 200, { ok: true });
 
   // Process webhook asynchronously (response already sent)
   Promise.resolve()
-    .then(() => onWebhook(normalized))
+    .then(() => handler.onWebhook(normalized))
     .catch((err) => {
-      console.error("[elevenlabs-webhook] Handler error:", err);
+      log.error(`handler failed for ${normalized.conversationId}: ${String(err)}`);
     });
 
   return true;
 }
 
+/**
+ * Handle ElevenLabs webhook HTTP request.
+ * Returns true if the request was handled (path matched), false otherwise.
+ */
+export async function handleElevenLabsWebhookRequest(
+  req: IncomingMessage,
+  res: ServerResponse,
+): Promise<boolean> {
+  if (!registeredHandler) {
+    return false;
+  }
+  return await processWebhookRequest(registeredHandler, req, res);
+}
+
 /**
  * Create ElevenLabs webhook request handler for the gateway.
  * @deprecated Use registerElevenLabsWebhookHandler and handleElevenLabsWebhookRequest instead.
@@ -384,85 +232,6 @@ export async function handleElevenLabsWebhookRequest(
 export function createElevenLabsWebhookHandler(
   opts: ElevenLabsWebhookHandlerOptions,
 ): (req: IncomingMessage, res: ServerResponse) => Promise<boolean> {
-  const { webhookSecret, webhookPath, onWebhook } = opts;
-  const maxBodyBytes = 1024 * 1024; // 1MB
-
-  return async (req, res) => {
-    // Check path
-    const url = new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`);
-    if (url.pathname !== webhookPath) {
-      return false;
-    }
-
-    // Only accept POST
-    if (req.method !== "POST") {
-      res.statusCode = 405;
-      res.setHeader("Allow", "POST");
-      res.end("Method Not Allowed");
-      return true;
-    }
-
-    // Get signature header
-    const signatureHeader = req.headers["elevenlabs-signature"];
-    if (!signatureHeader || typeof signatureHeader !== "string") {
-      res.statusCode = 401;
-      res.setHeader("Content-Type", "application/json");
-      res.end(JSON.stringify({ error: "Missing ElevenLabs-Signature header" }));
-      return true;
-    }
-
-    // Read body
-    let rawBody: string;
-    try {
-      rawBody = await readRawBody(req, maxBodyBytes);
-    } catch (err) {
-      res.statusCode = 413;
-      res.setHeader("Content-Type", "application/json");
-      res.end(JSON.stringify({ error: "Payload too large" }));
-      return true;
-    }
-
-    // Verify signature
-    const verification = validateElevenLabsSignature(rawBody, signatureHeader, webhookSecret);
-    if (!verification.ok) {
-      res.statusCode = 401;
-      res.setHeader("Content-Type", "application/json");
-      res.end(JSON.stringify({ error: verification.reason }));
-      return true;
-    }
-
-    // Parse payload
-    let payload: ElevenLabsWebhookPayload;
-    try {
-      payload = JSON.parse(rawBody) as ElevenLabsWebhookPayload;
-    } catch {
-      res.statusCode = 400;
-      res.setHeader("Content-Type", "application/json");
-      res.end(JSON.stringify({ error: "Invalid JSON" }));
-      return true;
-    }
-
-    // Normalize and validate
-    const normalized = normalizePayload(payload);
-    if (!normalized) {
-      res.statusCode = 400;
-      res.setHeader("Content-Type", "application/json");
-      res.end(JSON.stringify({ error: "Missing conversation_id" }));
-      return true;
-    }
-
-    // Respond immediately (ElevenLabs expects quick 200)
-    res.statusCode = 200;
-    res.setHeader("Content-Type", "application/json");
-    res.end(JSON.stringify({ ok: true }));
-
-    // Process webhook asynchronously (response already sent)
-    Promise.resolve()
-      .then(() => onWebhook(normalized))
-      .catch((err) => {
-        console.error("[elevenlabs-webhook] Handler error:", err);
-      });
-
-    return true;
-  };
+  const handler = toRegisteredHandler(opts);
+  return async (req, res) => await processWebhookRequest(handler, req, res);
 }
@@ -62,6 +62,9 @@ const METHOD_SCOPE_GROUPS: Record<OperatorScope, readonly string[]> = {
     "cron.list",
     "cron.status",
     "cron.runs",
+    "deliveries.list",
+    "deliveries.get",
+    "send.scheduled.list",
     "system-presence",
     "last-heartbeat",
     "node.list",
@@ -74,6 +77,7 @@ const METHOD_SCOPE_GROUPS: Record<OperatorScope, readonly string[]> = {
   ],
   [WRITE_SCOPE]: [
     "send",
+    "send.scheduled.cancel",
     "poll",
     "agent",
     "agent.wait",
@@ -101,10 +105,13 @@ const METHOD_SCOPE_GROUPS: Record<OperatorScope, readonly string[]> = {
     "cron.update",
     "cron.remove",
     "cron.run",
+    "deliveries.retry",
+    "deliveries.discard",
     "sessions.patch",
     "sessions.reset",
     "sessions.delete",
     "sessions.compact",
+    "sessions.fork",
     "connect",
     "chat.inject",
     "web.login.start",
@@ -34,9 +34,11 @@ function normalizeString(value: unknown): string | null {
   return trimmed ? trimmed : null;
 }
 
-function normalizeApprovalDecision(value: unknown): "allow-once" | "allow-always" | null {
+function normalizeApprovalDecision(
+  value: unknown,
+): "allow-once" | "allow-always" | "allow-similar" | null {
   const s = normalizeString(value);
-  return s === "allow-once" || s === "allow-always" ? s : null;
+  return s === "allow-once" || s === "allow-always" || s === "allow-similar" ? s : null;
 }
 
 function clientHasApprovals(client: GatewayClient | null): boolean {
@@ -230,7 +232,11 @@ export function sanitizeSystemRunParamsForForwarding(opts: {
   }
 
   // Normal path: enforce the decision recorded by the gateway.
-  if (snapshot.decision === "allow-once" || snapshot.decision === "allow-always") {
+  if (
+    snapshot.decision === "allow-once" ||
+    snapshot.decision === "allow-always" ||
+    snapshot.decision === "allow-similar"
+  ) {
     next.approved = true;
     next.approvalDecision = snapshot.decision;
     return { ok: true, params: next };
@@ -0,0 +1,155 @@
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import type { EmbeddingProviderOptions, EmbeddingProviderResult } from "../memory/embeddings.js";
+
+let cfg: Record<string, unknown> = {};
+
+vi.mock("../config/config.js", () => ({
+  loadConfig: () => cfg,
+}));
+
+vi.mock("./auth.js", () => ({
+  authorizeGatewayConnect: async () => ({ ok: true }),
+}));
+
+vi.mock("../logger.js", () => ({
+  logWarn: () => {},
+}));
+
+const { __testing, handleOpenAiEmbeddingsHttpRequest } =
+  await import("./openai-embeddings-http.js");
+
+const createProvider = vi.fn(
+  async (options: EmbeddingProviderOptions): Promise<EmbeddingProviderResult> => ({
+    provider: {
+      id: options.provider === "auto" ? "openai" : options.provider,
+      model: options.model,
+      embedQuery: async () => [0.5],
+      embedBatch: async (texts) => texts.map((text) => [text.length, 0.25]),
+    },
+    requestedProvider: options.provider,
+  }),
+);
+
+let port = 0;
+let server: ReturnType<typeof createServer> | undefined;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    void handleOpenAiEmbeddingsHttpRequest(req, res, {
+      auth: { mode: "token", token: "t", allowTailscale: false },
+      maxInputs: 3,
+      createProvider,
+    }).then((handled) => {
+      if (!handled) {
+        res.statusCode = 404;
+        res.end("not found");
+      }
+    });
+  });
+  await new Promise<void>((resolve) => {
+    server?.listen(0, "127.0.0.1", () => {
+      port = (server?.address() as AddressInfo | null)?.port ?? 0;
+      resolve();
+    });
+  });
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server?.close(() => resolve()));
+});
+
+beforeEach(() => {
+  cfg = {
+    agents: {
+      defaults: {
+        memorySearch: { provider: "openai", model: "text-embedding-3-small" },
+      },
+    },
+  };
+  createProvider.mockClear();
+  __testing.resetProviderCache();
+});
+
+const embed = (body: unknown) =>
+  fetch(`http://127.0.0.1:${port}/v1/embeddings`, {
+    method: "POST",
+    headers: { authorization: "Bearer t", "content-type": "application/json" },
+    body: JSON.stringify(body),
+  });
+
+describe("OpenAI-compatible /v1/embeddings", () => {
+  it("embeds inputs with the agent's memory search provider", async () => {
+    const res = await embed({ model: "openclaw", input: ["hello", "hi"] });
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({
+      object: "list",
+      data: [
+        { object: "embedding", index: 0, embedding: [5, 0.25] },
+        { object: "embedding", index: 1, embedding: [2, 0.25] },
+      ],
+      model: "openai/text-embedding-3-small",
+      usage: { prompt_tokens: 3, total_tokens: 3 },
+    });
+
+    // Provider instances are reused across requests.
+    await embed({ input: "again" });
+    expect(createProvider).toHaveBeenCalledTimes(1);
+  });
+
+  it("honours provider-qualified models and base64 encoding", async () => {
+    const res = await embed({
+      model: "gemini/gemini-embedding-001",
+      input: "hello",
+      encoding_format: "base64",
+    });
+    const body = (await res.json()) as { model: string; data: Array<{ embedding: string }> };
+    expect(body.model).toBe("gemini/gemini-embedding-001");
+    const buffer = Buffer.from(body.data[0]?.embedding ?? "", "base64");
+    expect([buffer.readFloatLE(0), buffer.readFloatLE(4)]).toEqual([5, 0.25]);
+    expect(createProvider).toHaveBeenCalledWith(
+      expect.objectContaining({ provider: "gemini", fallback: "none", remote: undefined }),
+    );
+  });
+
+  it("rejects invalid input and disabled memory search", async () => {
+    expect((await embed({ input: [1, 2, 3] })).status).toBe(400);
+    expect((await embed({ input: ["a", "b", "c", "d"] })).status).toBe(400);
+    expect((await embed({ input: "a", encoding_format: "int8" })).status).toBe(400);
+
+    cfg = { agents: { defaults: { memorySearch: { enabled: false } } } };
+    const res = await embed({ input: "a" });
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({ error: { type: "invalid_request_error" } });
+    expect(createProvider).not.toHaveBeenCalled();
+  });
+
+  it("reports unavailable providers and upstream failures", async () => {
+    createProvider.mockResolvedValueOnce({
+      provider: null,
+      requestedProvider: "openai",
+      providerUnavailableReason: "No API key found for provider openai.",
+    });
+    const unavailable = await embed({ input: "a" });
+    expect(unavailable.status).toBe(503);
+    expect(await unavailable.json()).toMatchObject({
+      error: { message: "No API key found for provider openai." },
+    });
+
+    createProvider.mockResolvedValueOnce({
+      provider: {
+        id: "openai",
+        model: "text-embedding-3-small",
+        embedQuery: async () => [],
+        embedBatch: async () => {
+          throw new Error("rate limited");
+        },
+      },
+      requestedProvider: "openai",
+    });
+    const failed = await embed({ input: "a" });
+    expect(failed.status).toBe(502);
+    expect(await failed.json()).toMatchObject({ error: { type: "api_error" } });
+  });
+});
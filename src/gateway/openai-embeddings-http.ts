@@ -0,0 +1,243 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { resolveAgentDir } from "../agents/agent-scope.js";
+import { resolveMemorySearchConfig } from "../agents/memory-search.js";
+import { loadConfig, type OpenClawConfig } from "../config/config.js";
+import { logWarn } from "../logger.js";
+import {
+  createEmbeddingProvider,
+  type EmbeddingProviderId,
+  type EmbeddingProviderOptions,
+  type EmbeddingProviderResult,
+} from "../memory/embeddings.js";
+import type { AuthRateLimiter } from "./auth-rate-limit.js";
+import type { ResolvedGatewayAuth } from "./auth.js";
+import { sendInvalidRequest, sendJson } from "./http-common.js";
+import { handleGatewayPostJsonEndpoint } from "./http-endpoint-helpers.js";
+import { resolveAgentIdForRequest, resolveAgentIdFromModel } from "./http-utils.js";
+
+type OpenAiEmbeddingsHttpOptions = {
+  auth: ResolvedGatewayAuth;
+  maxInputs?: number;
+  maxBodyBytes?: number;
+  trustedProxies?: string[];
+  rateLimiter?: AuthRateLimiter;
+  createProvider?: typeof createEmbeddingProvider;
+};
+
+type OpenAiEmbeddingsRequest = {
+  input?: unknown;
+  model?: unknown;
+  encoding_format?: unknown;
+};
+
+const DEFAULT_MAX_INPUTS = 256;
+const MAX_CACHED_PROVIDERS = 16;
+const EMBEDDING_PROVIDER_IDS: EmbeddingProviderId[] = ["openai", "gemini", "voyage", "local"];
+
+const providerCache = new Map<string, Promise<EmbeddingProviderResult>>();
+
+type ResolvedEmbeddingRequest =
+  | { ok: true; options: EmbeddingProviderOptions }
+  | { ok: false; message: string };
+
+/**
+ * Map the request `model` onto memory search embedding settings:
+ * - `openclaw` / `openclaw:<agentId>` (or empty): the agent's configured provider + model
+ * - `<provider>/<model>` (openai, gemini, voyage, local): that provider and model
+ * - anything else: that model on the agent's configured provider
+ */
+export function resolveEmbeddingRequest(params: {
+  cfg: OpenClawConfig;
+  agentId: string;
+  model?: string;
+}): ResolvedEmbeddingRequest {
+  const settings = resolveMemorySearchConfig(params.cfg, params.agentId);
+  if (!settings) {
+    return {
+      ok: false,
+      message: `Embeddings use the memory search provider, which is disabled for agent "${params.agentId}".`,
+    };
+  }
+  const base: EmbeddingProviderOptions = {
+    config: params.cfg,
+    agentDir: resolveAgentDir(params.cfg, params.agentId),
+    provider: settings.provider,
+    remote: settings.remote,
+    model: settings.model,
+    fallback: settings.fallback,
+    local: settings.local,
+  };
+  const model = params.model?.trim();
+  if (!model || model === "openclaw" || resolveAgentIdFromModel(model)) {
+    return { ok: true, options: base };
+  }
+  const slash = model.indexOf("/");
+  const prefix = slash > 0 ? model.slice(0, slash).toLowerCase() : "";
+  const providerId = EMBEDDING_PROVIDER_IDS.find((id) => id === prefix);
+  if (providerId) {
+    const providerModel = model.slice(slash + 1).trim();
+    if (!providerModel) {
+      return { ok: false, message: `Missing model name in "${model}".` };
+    }
+    return {
+      ok: true,
+      options: {
+        ...base,
+        provider: providerId,
+        model: providerModel,
+        // Remote overrides (baseUrl/apiKey) belong to the configured provider only.
+        remote: providerId === settings.provider ? settings.remote : undefined,
+        fallback: "none",
+      },
+    };
+  }
+  return { ok: true, options: { ...base, model } };
+}
+
+function coerceInputs(input: unknown): string[] | null {
+  if (typeof input === "string") {
+    return [input];
+  }
+  if (Array.isArray(input) && input.length > 0 && input.every((item) => typeof item === "string")) {
+    return input;
+  }
+  return null;
+}
+
+function encodeBase64Embedding(values: number[]): string {
+  const buffer = Buffer.alloc(values.length * 4);
+  values.forEach((value, index) => buffer.writeFloatLE(value, index * 4));
+  return buffer.toString("base64");
+}
+
+// Rough count for `usage`; providers don't report tokens back through EmbeddingProvider.
+function estimateTokens(texts: string[]): number {
+  return texts.reduce((sum, text) => sum + Math.ceil(text.length / 4), 0);
+}
+
+async function getEmbeddingProvider(
+  options: EmbeddingProviderOptions,
+  create: typeof createEmbeddingProvider,
+): Promise<EmbeddingProviderResult> {
+  const { config: _config, ...keyed } = options;
+  const key = JSON.stringify(keyed);
+  const cached = providerCache.get(key);
+  if (cached) {
+    return await cached;
+  }
+  const pending = create(options);
+  providerCache.set(key, pending);
+  if (providerCache.size > MAX_CACHED_PROVIDERS) {
+    const oldest = providerCache.keys().next().value;
+    if (oldest) {
+      providerCache.delete(oldest);
+    }
+  }
+  try {
+    const result = await pending;
+    if (!result.provider) {
+      providerCache.delete(key);
+    }
+    return result;
+  } catch (err) {
+    providerCache.delete(key);
+    throw err;
+  }
+}
+
+export async function handleOpenAiEmbeddingsHttpRequest(
+  req: IncomingMessage,
+  res: ServerResponse,
+  opts: OpenAiEmbeddingsHttpOptions,
+): Promise<boolean> {
+  const handled = await handleGatewayPostJsonEndpoint(req, res, {
+    pathname: "/v1/embeddings",
+    auth: opts.auth,
+    trustedProxies: opts.trustedProxies,
+    rateLimiter: opts.rateLimiter,
+    maxBodyBytes: opts.maxBodyBytes ?? 4 * 1024 * 1024,
+  });
+  if (handled === false) {
+    return false;
+  }
+  if (!handled) {
+    return true;
+  }
+
+  const payload = (
+    handled.body && typeof handled.body === "object" ? handled.body : {}
+  ) as OpenAiEmbeddingsRequest;
+  const inputs = coerceInputs(payload.input);
+  if (!inputs) {
+    sendInvalidRequest(res, "`input` must be a non-empty string or array of strings.");
+    return true;
+  }
+  const maxInputs = opts.maxInputs ?? DEFAULT_MAX_INPUTS;
+  if (inputs.length > maxInputs) {
+    sendInvalidRequest(res, `Too many inputs (${inputs.length}); the limit is ${maxInputs}.`);
+    return true;
+  }
+  const encodingFormat = payload.encoding_format ?? "float";
+  if (encodingFormat !== "float" && encodingFormat !== "base64") {
+    sendInvalidRequest(res, '`encoding_format` must be "float" or "base64".');
+    return true;
+  }
+
+  const model = typeof payload.model === "string" ? payload.model : undefined;
+  const agentId = resolveAgentIdForRequest({ req, model });
+  const resolved = resolveEmbeddingRequest({ cfg: loadConfig(), agentId, model });
+  if (!resolved.ok) {
+    sendInvalidRequest(res, resolved.message);
+    return true;
+  }
+
+  let providerResult: EmbeddingProviderResult;
+  try {
+    providerResult = await getEmbeddingProvider(
+      resolved.options,
+      opts.createProvider ?? createEmbeddingProvider,
+    );
+  } catch (err) {
+    logWarn(`openai-compat: embedding provider setup failed: ${String(err)}`);
+    sendJson(res, 503, {
+      error: { message: `Embedding provider unavailable: ${String(err)}`, type: "api_error" },
+    });
+    return true;
+  }
+  const provider = providerResult.provider;
+  if (!provider) {
+    sendJson(res, 503, {
+      error: {
+        message: providerResult.providerUnavailableReason ?? "No embedding provider is available.",
+        type: "api_error",
+      },
+    });
+    return true;
+  }
+
+  let vectors: number[][];
+  try {
+    vectors = await provider.embedBatch(inputs);
+  } catch (err) {
+    logWarn(`openai-compat: embeddings failed (${provider.id}/${provider.model}): ${String(err)}`);
+    sendJson(res, 502, { error: { message: String(err), type: "api_error" } });
+    return true;
+  }
+
+  const promptTokens = estimateTokens(inputs);
+  sendJson(res, 200, {
+    object: "list",
+    data: vectors.map((embedding, index) => ({
+      object: "embedding",
+      index,
+      embedding: encodingFormat === "base64" ? encodeBase64Embedding(embedding) : embedding,
+    })),
+    model: `${provider.id}/${provider.model}`,
+    usage: { prompt_tokens: promptTokens, total_tokens: promptTokens },
+  });
+  return true;
+}
+
+export const __testing = {
+  resetProviderCache: () => providerCache.clear(),
+};
@@ -0,0 +1,110 @@
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+let cfg: Record<string, unknown> = {};
+let loadCatalog: () => Promise<Array<{ id: string; name: string; provider: string }>>;
+
+vi.mock("../config/config.js", () => ({
+  loadConfig: () => cfg,
+}));
+
+vi.mock("./auth.js", () => ({
+  authorizeGatewayConnect: async () => ({ ok: true }),
+}));
+
+vi.mock("../logger.js", () => ({
+  logWarn: () => {},
+}));
+
+const { buildOpenAiModelList, handleOpenAiModelsHttpRequest } =
+  await import("./openai-models-http.js");
+
+let port = 0;
+let server: ReturnType<typeof createServer> | undefined;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    void handleOpenAiModelsHttpRequest(req, res, {
+      auth: { mode: "token", token: "t", allowTailscale: false },
+      loadCatalog: () => loadCatalog(),
+    }).then((handled) => {
+      if (!handled) {
+        res.statusCode = 404;
+        res.end("not found");
+      }
+    });
+  });
+  await new Promise<void>((resolve) => {
+    server?.listen(0, "127.0.0.1", () => {
+      port = (server?.address() as AddressInfo | null)?.port ?? 0;
+      resolve();
+    });
+  });
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server?.close(() => resolve()));
+});
+
+beforeEach(() => {
+  cfg = { agents: { list: [{ id: "main", default: true }, { id: "work" }] } };
+  loadCatalog = async () => [
+    { id: "gpt-5", name: "GPT-5", provider: "openai" },
+    { id: "claude-opus-4-6", name: "Opus", provider: "anthropic" },
+  ];
+});
+
+const get = (path: string, method = "GET") =>
+  fetch(`http://127.0.0.1:${port}${path}`, {
+    method,
+    headers: { authorization: "Bearer t" },
+  });
+
+describe("OpenAI-compatible /v1/models", () => {
+  it("lists agents before catalog models and dedupes", () => {
+    const ids = buildOpenAiModelList({
+      agentIds: ["main", "main"],
+      catalog: [{ id: "gpt-5", name: "GPT-5", provider: "openai" }],
+    }).map((model) => model.id);
+    expect(ids).toEqual(["openclaw", "openclaw:main", "openai/gpt-5"]);
+  });
+
+  it("serves the model list and single models", async () => {
+    const res = await get("/v1/models");
+    expect(res.status).toBe(200);
+    const body = (await res.json()) as { object: string; data: Array<{ id: string }> };
+    expect(body.object).toBe("list");
+    expect(body.data.map((model) => model.id)).toEqual([
+      "openclaw",
+      "openclaw:main",
+      "openclaw:work",
+      "openai/gpt-5",
+      "anthropic/claude-opus-4-6",
+    ]);
+
+    const single = await get("/v1/models/openai%2Fgpt-5");
+    expect(await single.json()).toMatchObject({ id: "openai/gpt-5", owned_by: "openai" });
+
+    const missing = await get("/v1/models/nope");
+    expect(missing.status).toBe(404);
+    expect(await missing.json()).toMatchObject({ error: { code: "model_not_found" } });
+  });
+
+  it("still lists agents when the catalog fails and rejects non-GET", async () => {
+    loadCatalog = async () => {
+      throw new Error("catalog offline");
+    };
+    const res = await get("/v1/models");
+    const body = (await res.json()) as { data: Array<{ id: string }> };
+    expect(body.data.map((model) => model.id)).toEqual([
+      "openclaw",
+      "openclaw:main",
+      "openclaw:work",
+    ]);
+
+    const post = await get("/v1/models", "POST");
+    expect(post.status).toBe(405);
+    expect(post.headers.get("allow")).toBe("GET");
+  });
+});
@@ -0,0 +1,113 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { listAgentIds } from "../agents/agent-scope.js";
+import { loadConfig } from "../config/config.js";
+import { logWarn } from "../logger.js";
+import type { AuthRateLimiter } from "./auth-rate-limit.js";
+import type { ResolvedGatewayAuth } from "./auth.js";
+import { authorizeGatewayBearerRequestOrReply } from "./http-auth-helpers.js";
+import { sendJson, sendMethodNotAllowed } from "./http-common.js";
+import { loadGatewayModelCatalog, type GatewayModelChoice } from "./server-model-catalog.js";
+
+type OpenAiModelsHttpOptions = {
+  auth: ResolvedGatewayAuth;
+  trustedProxies?: string[];
+  rateLimiter?: AuthRateLimiter;
+  loadCatalog?: () => Promise<GatewayModelChoice[]>;
+};
+
+export type OpenAiModelObject = {
+  id: string;
+  object: "model";
+  created: number;
+  owned_by: string;
+};
+
+// OpenAI clients expect a unix timestamp; nothing here has a meaningful creation date.
+const MODEL_CREATED_AT = 0;
+
+/**
+ * Agents come first (`openclaw` plus `openclaw:<agentId>`, the ids chat completions
+ * routes on), then catalog models as `<provider>/<model>` for discovery.
+ */
+export function buildOpenAiModelList(params: {
+  agentIds: string[];
+  catalog: GatewayModelChoice[];
+}): OpenAiModelObject[] {
+  const seen = new Set<string>();
+  const models: OpenAiModelObject[] = [];
+  const push = (id: string, ownedBy: string) => {
+    if (seen.has(id)) {
+      return;
+    }
+    seen.add(id);
+    models.push({ id, object: "model", created: MODEL_CREATED_AT, owned_by: ownedBy });
+  };
+  push("openclaw", "openclaw");
+  for (const agentId of params.agentIds) {
+    push(`openclaw:${agentId}`, "openclaw");
+  }
+  for (const entry of params.catalog) {
+    push(`${entry.provider}/${entry.id}`, entry.provider);
+  }
+  return models;
+}
+
+export async function handleOpenAiModelsHttpRequest(
+  req: IncomingMessage,
+  res: ServerResponse,
+  opts: OpenAiModelsHttpOptions,
+): Promise<boolean> {
+  const url = new URL(req.url ?? "/", `http://${req.headers.host || "localhost"}`);
+  const isList = url.pathname === "/v1/models";
+  if (!isList && !url.pathname.startsWith("/v1/models/")) {
+    return false;
+  }
+  if (req.method !== "GET") {
+    sendMethodNotAllowed(res, "GET");
+    return true;
+  }
+  const authorized = await authorizeGatewayBearerRequestOrReply({
+    req,
+    res,
+    auth: opts.auth,
+    trustedProxies: opts.trustedProxies,
+    rateLimiter: opts.rateLimiter,
+  });
+  if (!authorized) {
+    return true;
+  }
+
+  let catalog: GatewayModelChoice[] = [];
+  try {
+    catalog = await (opts.loadCatalog ?? loadGatewayModelCatalog)();
+  } catch (err) {
+    // Agents are still routable without the catalog; don't fail discovery over it.
+    logWarn(`openai-compat: model catalog unavailable: ${String(err)}`);
+  }
+  const models = buildOpenAiModelList({ agentIds: listAgentIds(loadConfig()), catalog });
+
+  if (isList) {
+    sendJson(res, 200, { object: "list", data: models });
+    return true;
+  }
+  const rawId = url.pathname.slice("/v1/models/".length);
+  let id = rawId;
+  try {
+    id = decodeURIComponent(rawId);
+  } catch {
+    // Keep the raw segment; it just won't match anything.
+  }
+  const model = models.find((entry) => entry.id === id);
+  if (!model) {
+    sendJson(res, 404, {
+      error: {
+        message: `The model '${id}' does not exist`,
+        type: "invalid_request_error",
+        code: "model_not_found",
+      },
+    });
+    return true;
+  }
+  sendJson(res, 200, model);
+  return true;
+}
@@ -91,6 +91,14 @@ import {
   CronStatusParamsSchema,
   type CronUpdateParams,
   CronUpdateParamsSchema,
+  type DeliveriesDiscardParams,
+  DeliveriesDiscardParamsSchema,
+  type DeliveriesGetParams,
+  DeliveriesGetParamsSchema,
+  type DeliveriesListParams,
+  DeliveriesListParamsSchema,
+  type DeliveriesRetryParams,
+  DeliveriesRetryParamsSchema,
   type DevicePairApproveParams,
   DevicePairApproveParamsSchema,
   type DevicePairListParams,
@@ -168,10 +176,16 @@ import {
   type ResponseFrame,
   ResponseFrameSchema,
   SendParamsSchema,
+  type SendScheduledCancelParams,
+  SendScheduledCancelParamsSchema,
+  type SendScheduledListParams,
+  SendScheduledListParamsSchema,
   type SessionsCompactParams,
   SessionsCompactParamsSchema,
   type SessionsDeleteParams,
   SessionsDeleteParamsSchema,
+  type SessionsForkParams,
+  SessionsForkParamsSchema,
   type SessionsListParams,
   SessionsListParamsSchema,
   type SessionsPatchParams,
@@ -240,6 +254,12 @@ export const validateRequestFrame = ajv.compile<RequestFrame>(RequestFrameSchema
 export const validateResponseFrame = ajv.compile<ResponseFrame>(ResponseFrameSchema);
 export const validateEventFrame = ajv.compile<EventFrame>(EventFrameSchema);
 export const validateSendParams = ajv.compile(SendParamsSchema);
+export const validateSendScheduledListParams = ajv.compile<SendScheduledListParams>(
+  SendScheduledListParamsSchema,
+);
+export const validateSendScheduledCancelParams = ajv.compile<SendScheduledCancelParams>(
+  SendScheduledCancelParamsSchema,
+);
 export const validatePollParams = ajv.compile<PollParams>(PollParamsSchema);
 export const validateAgentParams = ajv.compile(AgentParamsSchema);
 export const validateAgentIdentityParams =
@@ -298,6 +318,7 @@ export const validateSessionsDeleteParams = ajv.compile<SessionsDeleteParams>(
 export const validateSessionsCompactParams = ajv.compile<SessionsCompactParams>(
   SessionsCompactParamsSchema,
 );
+export const validateSessionsForkParams = ajv.compile<SessionsForkParams>(SessionsForkParamsSchema);
 export const validateSessionsUsageParams =
   ajv.compile<SessionsUsageParams>(SessionsUsageParamsSchema);
 export const validateConfigGetParams = ajv.compile<ConfigGetParams>(ConfigGetParamsSchema);
@@ -330,6 +351,17 @@ export const validateCronUpdateParams = ajv.compile<CronUpdateParams>(CronUpdate
 export const validateCronRemoveParams = ajv.compile<CronRemoveParams>(CronRemoveParamsSchema);
 export const validateCronRunParams = ajv.compile<CronRunParams>(CronRunParamsSchema);
 export const validateCronRunsParams = ajv.compile<CronRunsParams>(CronRunsParamsSchema);
+export const validateDeliveriesListParams = ajv.compile<DeliveriesListParams>(
+  DeliveriesListParamsSchema,
+);
+export const validateDeliveriesGetParams =
+  ajv.compile<DeliveriesGetParams>(DeliveriesGetParamsSchema);
+export const validateDeliveriesRetryParams = ajv.compile<DeliveriesRetryParams>(
+  DeliveriesRetryParamsSchema,
+);
+export const validateDeliveriesDiscardParams = ajv.compile<DeliveriesDiscardParams>(
+  DeliveriesDiscardParamsSchema,
+);
 export const validateDevicePairListParams = ajv.compile<DevicePairListParams>(
   DevicePairListParamsSchema,
 );
@@ -427,6 +459,8 @@ export {
   AgentEventSchema,
   ChatEventSchema,
   SendParamsSchema,
+  SendScheduledListParamsSchema,
+  SendScheduledCancelParamsSchema,
   PollParamsSchema,
   AgentParamsSchema,
   AgentIdentityParamsSchema,
@@ -447,6 +481,7 @@ export {
   SessionsResetParamsSchema,
   SessionsDeleteParamsSchema,
   SessionsCompactParamsSchema,
+  SessionsForkParamsSchema,
   SessionsUsageParamsSchema,
   ConfigGetParamsSchema,
   ConfigSetParamsSchema,
@@ -497,6 +532,10 @@ export {
   CronRemoveParamsSchema,
   CronRunParamsSchema,
   CronRunsParamsSchema,
+  DeliveriesListParamsSchema,
+  DeliveriesGetParamsSchema,
+  DeliveriesRetryParamsSchema,
+  DeliveriesDiscardParamsSchema,
   LogsTailParamsSchema,
   LogsTailResultSchema,
   ChatHistoryParamsSchema,
@@ -593,6 +632,7 @@ export type {
   SessionsResetParams,
   SessionsDeleteParams,
   SessionsCompactParams,
+  SessionsForkParams,
   SessionsUsageParams,
   CronJob,
   CronListParams,
@@ -603,12 +643,18 @@ export type {
   CronRunParams,
   CronRunsParams,
   CronRunLogEntry,
+  DeliveriesListParams,
+  DeliveriesGetParams,
+  DeliveriesRetryParams,
+  DeliveriesDiscardParams,
   ExecApprovalsGetParams,
   ExecApprovalsSetParams,
   ExecApprovalsSnapshot,
   LogsTailParams,
   LogsTailResult,
   PollParams,
+  SendScheduledListParams,
+  SendScheduledCancelParams,
   UpdateRunParams,
   ChatInjectParams,
 };
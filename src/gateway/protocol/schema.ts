@@ -3,6 +3,7 @@ export * from "./schema/agents-models-skills.js";
 export * from "./schema/channels.js";
 export * from "./schema/config.js";
 export * from "./schema/cron.js";
+export * from "./schema/deliveries.js";
 export * from "./schema/error-codes.js";
 export * from "./schema/exec-approvals.js";
 export * from "./schema/devices.js";
@@ -26,11 +26,31 @@ export const SendParamsSchema = Type.Object(
     threadId: Type.Optional(Type.String()),
     /** Optional session key for mirroring delivered output back into the transcript. */
     sessionKey: Type.Optional(Type.String()),
+    /** Store the message on the gateway and send it at this time (epoch ms) instead of now. */
+    sendAt: Type.Optional(Type.Integer({ minimum: 0 })),
     idempotencyKey: NonEmptyString,
   },
   { additionalProperties: false },
 );
 
+export const SendScheduledListParamsSchema = Type.Object(
+  {
+    /** Only entries scheduled by this agent. */
+    agentId: Type.Optional(NonEmptyString),
+    channel: Type.Optional(NonEmptyString),
+  },
+  { additionalProperties: false },
+);
+
+export const SendScheduledCancelParamsSchema = Type.Object(
+  {
+    id: NonEmptyString,
+    /** Only cancel the entry when this agent scheduled it. */
+    agentId: Type.Optional(NonEmptyString),
+  },
+  { additionalProperties: false },
+);
+
 export const PollParamsSchema = Type.Object(
   {
     to: NonEmptyString,
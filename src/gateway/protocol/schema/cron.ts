@@ -73,6 +73,14 @@ export const CronScheduleSchema = Type.Union([
     },
     { additionalProperties: false },
   ),
+  Type.Object(
+    {
+      kind: Type.Literal("after"),
+      onSuccess: Type.Optional(NonEmptyString),
+      onFailure: Type.Optional(NonEmptyString),
+    },
+    { additionalProperties: false },
+  ),
 ]);
 
 export const CronPayloadSchema = Type.Union([
@@ -157,6 +165,19 @@ export const CronJobStateSchema = Type.Object(
     lastError: Type.Optional(Type.String()),
     lastDurationMs: Type.Optional(Type.Integer({ minimum: 0 })),
     consecutiveErrors: Type.Optional(Type.Integer({ minimum: 0 })),
+    pendingTrigger: Type.Optional(
+      Type.Object(
+        {
+          jobId: NonEmptyString,
+          jobName: Type.String(),
+          status: Type.Union([Type.Literal("ok"), Type.Literal("error")]),
+          summary: Type.Optional(Type.String()),
+          error: Type.Optional(Type.String()),
+          atMs: Type.Integer({ minimum: 0 }),
+        },
+        { additionalProperties: false },
+      ),
+    ),
   },
   { additionalProperties: false },
 );
@@ -33,6 +33,31 @@ export const ExecApprovalsAgentSchema = Type.Object(
   { additionalProperties: false },
 );
 
+export const ExecPolicyRuleSchema = Type.Object(
+  {
+    id: Type.Optional(NonEmptyString),
+    action: Type.Union([Type.Literal("allow"), Type.Literal("deny"), Type.Literal("ask")]),
+    description: Type.Optional(Type.String()),
+    argv: Type.Optional(Type.Array(Type.String())),
+    command: Type.Optional(Type.String()),
+    cwd: Type.Optional(Type.String()),
+    env: Type.Optional(Type.Record(Type.String(), Type.String())),
+    hosts: Type.Optional(
+      Type.Array(
+        Type.Union([Type.Literal("sandbox"), Type.Literal("gateway"), Type.Literal("node")]),
+      ),
+    ),
+    agents: Type.Optional(Type.Array(Type.String())),
+    expiresAt: Type.Optional(Type.Integer({ minimum: 0 })),
+    maxUses: Type.Optional(Type.Integer({ minimum: 1 })),
+    uses: Type.Optional(Type.Integer({ minimum: 0 })),
+    createdAt: Type.Optional(Type.Integer({ minimum: 0 })),
+    lastUsedAt: Type.Optional(Type.Integer({ minimum: 0 })),
+    source: Type.Optional(Type.Union([Type.Literal("manual"), Type.Literal("approve-similar")])),
+  },
+  { additionalProperties: false },
+);
+
 export const ExecApprovalsFileSchema = Type.Object(
   {
     version: Type.Literal(1),
@@ -47,6 +72,7 @@ export const ExecApprovalsFileSchema = Type.Object(
     ),
     defaults: Type.Optional(ExecApprovalsDefaultsSchema),
     agents: Type.Optional(Type.Record(Type.String(), ExecApprovalsAgentSchema)),
+    rules: Type.Optional(Type.Array(ExecPolicyRuleSchema)),
   },
   { additionalProperties: false },
 );
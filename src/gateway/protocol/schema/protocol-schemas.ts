@@ -7,6 +7,8 @@ import {
   AgentWaitParamsSchema,
   PollParamsSchema,
   SendParamsSchema,
+  SendScheduledCancelParamsSchema,
+  SendScheduledListParamsSchema,
   WakeParamsSchema,
 } from "./agent.js";
 import {
@@ -65,6 +67,12 @@ import {
   CronStatusParamsSchema,
   CronUpdateParamsSchema,
 } from "./cron.js";
+import {
+  DeliveriesDiscardParamsSchema,
+  DeliveriesGetParamsSchema,
+  DeliveriesListParamsSchema,
+  DeliveriesRetryParamsSchema,
+} from "./deliveries.js";
 import {
   DevicePairApproveParamsSchema,
   DevicePairListParamsSchema,
@@ -122,6 +130,7 @@ import { PushTestParamsSchema, PushTestResultSchema } from "./push.js";
 import {
   SessionsCompactParamsSchema,
   SessionsDeleteParamsSchema,
+  SessionsForkParamsSchema,
   SessionsListParamsSchema,
   SessionsPatchParamsSchema,
   SessionsPreviewParamsSchema,
@@ -154,6 +163,8 @@ export const ProtocolSchemas: Record<string, TSchema> = {
   ErrorShape: ErrorShapeSchema,
   AgentEvent: AgentEventSchema,
   SendParams: SendParamsSchema,
+  SendScheduledListParams: SendScheduledListParamsSchema,
+  SendScheduledCancelParams: SendScheduledCancelParamsSchema,
   PollParams: PollParamsSchema,
   AgentParams: AgentParamsSchema,
   AgentIdentityParams: AgentIdentityParamsSchema,
@@ -181,6 +192,7 @@ export const ProtocolSchemas: Record<string, TSchema> = {
   SessionsResetParams: SessionsResetParamsSchema,
   SessionsDeleteParams: SessionsDeleteParamsSchema,
   SessionsCompactParams: SessionsCompactParamsSchema,
+  SessionsForkParams: SessionsForkParamsSchema,
   SessionsUsageParams: SessionsUsageParamsSchema,
   ConfigGetParams: ConfigGetParamsSchema,
   ConfigSetParams: ConfigSetParamsSchema,
@@ -237,6 +249,10 @@ export const ProtocolSchemas: Record<string, TSchema> = {
   CronRunParams: CronRunParamsSchema,
   CronRunsParams: CronRunsParamsSchema,
   CronRunLogEntry: CronRunLogEntrySchema,
+  DeliveriesListParams: DeliveriesListParamsSchema,
+  DeliveriesGetParams: DeliveriesGetParamsSchema,
+  DeliveriesRetryParams: DeliveriesRetryParamsSchema,
+  DeliveriesDiscardParams: DeliveriesDiscardParamsSchema,
   LogsTailParams: LogsTailParamsSchema,
   LogsTailResult: LogsTailResultSchema,
   ExecApprovalsGetParams: ExecApprovalsGetParamsSchema,
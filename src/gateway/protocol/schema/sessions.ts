@@ -106,6 +106,16 @@ export const SessionsCompactParamsSchema = Type.Object(
   { additionalProperties: false },
 );
 
+export const SessionsForkParamsSchema = Type.Object(
+  {
+    key: NonEmptyString,
+    /** Transcript entry id (`__openclaw.id` in chat.history) to fork at; defaults to the latest. */
+    entryId: Type.Optional(NonEmptyString),
+    label: Type.Optional(NonEmptyString),
+  },
+  { additionalProperties: false },
+);
+
 export const SessionsUsageParamsSchema = Type.Object(
   {
     /** Specific session key to analyze; if omitted returns all sessions. */
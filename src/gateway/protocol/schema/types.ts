@@ -5,6 +5,8 @@ import type {
   AgentIdentityResultSchema,
   AgentWaitParamsSchema,
   PollParamsSchema,
+  SendScheduledCancelParamsSchema,
+  SendScheduledListParamsSchema,
   WakeParamsSchema,
 } from "./agent.js";
 import type {
@@ -63,6 +65,12 @@ import type {
   CronStatusParamsSchema,
   CronUpdateParamsSchema,
 } from "./cron.js";
+import type {
+  DeliveriesDiscardParamsSchema,
+  DeliveriesGetParamsSchema,
+  DeliveriesListParamsSchema,
+  DeliveriesRetryParamsSchema,
+} from "./deliveries.js";
 import type {
   DevicePairApproveParamsSchema,
   DevicePairListParamsSchema,
@@ -115,6 +123,7 @@ import type { PushTestParamsSchema, PushTestResultSchema } from "./push.js";
 import type {
   SessionsCompactParamsSchema,
   SessionsDeleteParamsSchema,
+  SessionsForkParamsSchema,
   SessionsListParamsSchema,
   SessionsPatchParamsSchema,
   SessionsPreviewParamsSchema,
@@ -148,6 +157,8 @@ export type AgentEvent = Static<typeof AgentEventSchema>;
 export type AgentIdentityParams = Static<typeof AgentIdentityParamsSchema>;
 export type AgentIdentityResult = Static<typeof AgentIdentityResultSchema>;
 export type PollParams = Static<typeof PollParamsSchema>;
+export type SendScheduledListParams = Static<typeof SendScheduledListParamsSchema>;
+export type SendScheduledCancelParams = Static<typeof SendScheduledCancelParamsSchema>;
 export type AgentWaitParams = Static<typeof AgentWaitParamsSchema>;
 export type WakeParams = Static<typeof WakeParamsSchema>;
 export type NodePairRequestParams = Static<typeof NodePairRequestParamsSchema>;
@@ -170,6 +181,7 @@ export type SessionsPatchParams = Static<typeof SessionsPatchParamsSchema>;
 export type SessionsResetParams = Static<typeof SessionsResetParamsSchema>;
 export type SessionsDeleteParams = Static<typeof SessionsDeleteParamsSchema>;
 export type SessionsCompactParams = Static<typeof SessionsCompactParamsSchema>;
+export type SessionsForkParams = Static<typeof SessionsForkParamsSchema>;
 export type SessionsUsageParams = Static<typeof SessionsUsageParamsSchema>;
 export type ConfigGetParams = Static<typeof ConfigGetParamsSchema>;
 export type ConfigSetParams = Static<typeof ConfigSetParamsSchema>;
@@ -226,6 +238,10 @@ export type CronRemoveParams = Static<typeof CronRemoveParamsSchema>;
 export type CronRunParams = Static<typeof CronRunParamsSchema>;
 export type CronRunsParams = Static<typeof CronRunsParamsSchema>;
 export type CronRunLogEntry = Static<typeof CronRunLogEntrySchema>;
+export type DeliveriesListParams = Static<typeof DeliveriesListParamsSchema>;
+export type DeliveriesGetParams = Static<typeof DeliveriesGetParamsSchema>;
+export type DeliveriesRetryParams = Static<typeof DeliveriesRetryParamsSchema>;
+export type DeliveriesDiscardParams = Static<typeof DeliveriesDiscardParamsSchema>;
 export type LogsTailParams = Static<typeof LogsTailParamsSchema>;
 export type LogsTailResult = Static<typeof LogsTailResultSchema>;
 export type ExecApprovalsGetParams = Static<typeof ExecApprovalsGetParamsSchema>;
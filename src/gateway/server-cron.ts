@@ -8,6 +8,7 @@ import {
 } from "../config/sessions.js";
 // Import to trigger handler registration
 import "../elevenlabs-agents/direct-call.js";
+import "../linkedin/saved-search.js";
 import { resolveStorePath } from "../config/sessions/paths.js";
 import { getDirectCallHandler } from "../cron/direct-call-registry.js";
 import { runCronIsolatedAgentTurn } from "../cron/isolated-agent.js";
@@ -52,7 +52,9 @@ import {
 } from "./hooks.js";
 import { sendGatewayAuthFailure, setDefaultSecurityHeaders } from "./http-common.js";
 import { getBearerToken } from "./http-utils.js";
+import { handleOpenAiEmbeddingsHttpRequest } from "./openai-embeddings-http.js";
 import { handleOpenAiHttpRequest } from "./openai-http.js";
+import { handleOpenAiModelsHttpRequest } from "./openai-models-http.js";
 import { handleOpenResponsesHttpRequest } from "./openresponses-http.js";
 import { GATEWAY_CLIENT_MODES, normalizeGatewayClientMode } from "./protocol/client-info.js";
 import type { GatewayWsClient } from "./server/ws-types.js";
@@ -458,6 +460,9 @@ export function createGatewayHttpServer(opts: {
   openAiChatCompletionsEnabled: boolean;
   openResponsesEnabled: boolean;
   openResponsesConfig?: import("../config/types.gateway.js").GatewayHttpResponsesConfig;
+  openAiModelsEnabled?: boolean;
+  openAiEmbeddingsEnabled?: boolean;
+  openAiEmbeddingsConfig?: import("../config/types.gateway.js").GatewayHttpEmbeddingsConfig;
   handleHooksRequest: HooksRequestHandler;
   handlePluginRequest?: HooksRequestHandler;
   resolvedAuth: ResolvedGatewayAuth;
@@ -474,6 +479,9 @@ export function createGatewayHttpServer(opts: {
     openAiChatCompletionsEnabled,
     openResponsesEnabled,
     openResponsesConfig,
+    openAiModelsEnabled,
+    openAiEmbeddingsEnabled,
+    openAiEmbeddingsConfig,
     handleHooksRequest,
     handlePluginRequest,
     resolvedAuth,
@@ -570,6 +578,29 @@ export function createGatewayHttpServer(opts: {
           return;
         }
       }
+      if (openAiModelsEnabled) {
+        if (
+          await handleOpenAiModelsHttpRequest(req, res, {
+            auth: resolvedAuth,
+            trustedProxies,
+            rateLimiter,
+          })
+        ) {
+          return;
+        }
+      }
+      if (openAiEmbeddingsEnabled) {
+        if (
+          await handleOpenAiEmbeddingsHttpRequest(req, res, {
+            auth: resolvedAuth,
+            maxInputs: openAiEmbeddingsConfig?.maxInputs,
+            trustedProxies,
+            rateLimiter,
+          })
+        ) {
+          return;
+        }
+      }
       if (canvasHost) {
         if (isCanvasPath(requestPath)) {
           const ok = await authorizeCanvasRequest({
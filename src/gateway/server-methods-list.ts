@@ -54,6 +54,7 @@ const BASE_METHODS = [
   "sessions.reset",
   "sessions.delete",
   "sessions.compact",
+  "sessions.fork",
   "last-heartbeat",
   "set-heartbeats",
   "wake",
@@ -81,9 +82,15 @@ const BASE_METHODS = [
   "cron.remove",
   "cron.run",
   "cron.runs",
+  "deliveries.list",
+  "deliveries.get",
+  "deliveries.retry",
+  "deliveries.discard",
   "system-presence",
   "system-event",
   "send",
+  "send.scheduled.list",
+  "send.scheduled.cancel",
   "agent",
   "agent.identity.get",
   "agent.wait",
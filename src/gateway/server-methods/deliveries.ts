@@ -0,0 +1,188 @@
+import { loadConfig } from "../../config/config.js";
+import { deliverOutboundPayloads } from "../../infra/outbound/deliver.js";
+import { resolveFailedAlertThreshold } from "../../infra/outbound/delivery-queue-monitor.js";
+import {
+  discardDelivery,
+  findQueuedDelivery,
+  isValidDeliveryId,
+  loadFailedDeliveries,
+  loadPendingDeliveries,
+  retryQueuedDelivery,
+  summarizeDeliveryQueue,
+  type QueuedDelivery,
+  type QueuedDeliveryState,
+} from "../../infra/outbound/delivery-queue.js";
+import { truncateUtf16Safe } from "../../utils.js";
+import {
+  ErrorCodes,
+  errorShape,
+  validateDeliveriesDiscardParams,
+  validateDeliveriesGetParams,
+  validateDeliveriesListParams,
+  validateDeliveriesRetryParams,
+} from "../protocol/index.js";
+import { respondInvalidParams, respondUnavailableOnThrow } from "./nodes.helpers.js";
+import type { GatewayRequestHandlers, RespondFn } from "./types.js";
+
+const DEFAULT_LIST_LIMIT = 200;
+const PREVIEW_CHARS = 120;
+
+export type DeliveryRow = {
+  id: string;
+  state: QueuedDeliveryState;
+  channel: string;
+  to: string;
+  accountId?: string;
+  enqueuedAt: number;
+  retryCount: number;
+  lastError?: string;
+  payloadCount: number;
+  mediaCount: number;
+  preview?: string;
+};
+
+function toDeliveryRow(entry: QueuedDelivery, state: QueuedDeliveryState): DeliveryRow {
+  const payloads = Array.isArray(entry.payloads) ? entry.payloads : [];
+  const text = payloads.find((payload) => payload.text?.trim())?.text?.trim();
+  const mediaCount = payloads.reduce(
+    (sum, payload) => sum + (payload.mediaUrls?.length ?? (payload.mediaUrl ? 1 : 0)),
+    0,
+  );
+  return {
+    id: entry.id,
+    state,
+    channel: entry.channel,
+    to: entry.to,
+    accountId: entry.accountId,
+    enqueuedAt: entry.enqueuedAt,
+    retryCount: entry.retryCount,
+    lastError: entry.lastError,
+    payloadCount: payloads.length,
+    mediaCount,
+    preview: text ? truncateUtf16Safe(text, PREVIEW_CHARS) : undefined,
+  };
+}
+
+function respondUnknownId(respond: RespondFn, id: string) {
+  respond(false, undefined, errorShape(ErrorCodes.INVALID_REQUEST, `delivery not found: ${id}`));
+}
+
+export const deliveriesHandlers: GatewayRequestHandlers = {
+  "deliveries.list": async ({ params, respond }) => {
+    if (!validateDeliveriesListParams(params)) {
+      respondInvalidParams({
+        respond,
+        method: "deliveries.list",
+        validator: validateDeliveriesListParams,
+      });
+      return;
+    }
+    await respondUnavailableOnThrow(respond, async () => {
+      const [pending, failed] = await Promise.all([
+        loadPendingDeliveries(),
+        loadFailedDeliveries(),
+      ]);
+      const state = params.state ?? "all";
+      const channel = params.channel?.trim().toLowerCase();
+      const limit = params.limit ?? DEFAULT_LIST_LIMIT;
+      const select = (entries: QueuedDelivery[], rowState: QueuedDeliveryState) =>
+        entries
+          .filter((entry) => !channel || entry.channel === channel)
+          .toSorted((a, b) => b.enqueuedAt - a.enqueuedAt)
+          .slice(0, limit)
+          .map((entry) => toDeliveryRow(entry, rowState));
+      respond(
+        true,
+        {
+          summary: summarizeDeliveryQueue({ pending, failed }),
+          failedAlertThreshold: resolveFailedAlertThreshold(loadConfig()),
+          pending: state === "failed" ? [] : select(pending, "pending"),
+          failed: state === "pending" ? [] : select(failed, "failed"),
+        },
+        undefined,
+      );
+    });
+  },
+  "deliveries.get": async ({ params, respond }) => {
+    if (!validateDeliveriesGetParams(params)) {
+      respondInvalidParams({
+        respond,
+        method: "deliveries.get",
+        validator: validateDeliveriesGetParams,
+      });
+      return;
+    }
+    const id = params.id.trim();
+    if (!isValidDeliveryId(id)) {
+      respondUnknownId(respond, id);
+      return;
+    }
+    await respondUnavailableOnThrow(respond, async () => {
+      const found = await findQueuedDelivery(id);
+      if (!found) {
+        respondUnknownId(respond, id);
+        return;
+      }
+      respond(true, { state: found.state, entry: found.entry }, undefined);
+    });
+  },
+  "deliveries.retry": async ({ params, respond }) => {
+    if (!validateDeliveriesRetryParams(params)) {
+      respondInvalidParams({
+        respond,
+        method: "deliveries.retry",
+        validator: validateDeliveriesRetryParams,
+      });
+      return;
+    }
+    const id = params.id.trim();
+    if (!isValidDeliveryId(id)) {
+      respondUnknownId(respond, id);
+      return;
+    }
+    await respondUnavailableOnThrow(respond, async () => {
+      const result = await retryQueuedDelivery({
+        id,
+        cfg: loadConfig(),
+        deliver: deliverOutboundPayloads,
+      });
+      if (!result.ok && result.notFound) {
+        respondUnknownId(respond, id);
+        return;
+      }
+      if (!result.ok && result.inFlight) {
+        respond(false, undefined, errorShape(ErrorCodes.INVALID_REQUEST, result.error));
+        return;
+      }
+      // A failed send is a normal outcome here: the entry stays pending with the error recorded.
+      respond(
+        true,
+        result.ok ? { ok: true, id } : { ok: false, id, error: result.error },
+        undefined,
+      );
+    });
+  },
+  "deliveries.discard": async ({ params, respond }) => {
+    if (!validateDeliveriesDiscardParams(params)) {
+      respondInvalidParams({
+        respond,
+        method: "deliveries.discard",
+        validator: validateDeliveriesDiscardParams,
+      });
+      return;
+    }
+    const id = params.id.trim();
+    if (!isValidDeliveryId(id)) {
+      respondUnknownId(respond, id);
+      return;
+    }
+    await respondUnavailableOnThrow(respond, async () => {
+      const state = await discardDelivery(id);
+      if (!state) {
+        respondUnknownId(respond, id);
+        return;
+      }
+      respond(true, { ok: true, id, state }, undefined);
+    });
+  },
+};
@@ -182,7 +182,12 @@ export function createExecApprovalHandlers(
       }
       const p = params as { id: string; decision: string };
       const decision = p.decision as ExecApprovalDecision;
-      if (decision !== "allow-once" && decision !== "allow-always" && decision !== "deny") {
+      if (
+        decision !== "allow-once" &&
+        decision !== "allow-always" &&
+        decision !== "allow-similar" &&
+        decision !== "deny"
+      ) {
         respond(false, undefined, errorShape(ErrorCodes.INVALID_REQUEST, "invalid decision"));
         return;
       }
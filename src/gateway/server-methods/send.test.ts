@@ -8,6 +8,9 @@ const mocks = vi.hoisted(() => ({
   appendAssistantMessageToSessionTranscript: vi.fn(async () => ({ ok: true, sessionFile: "x" })),
   recordSessionMetaFromInbound: vi.fn(async () => ({ ok: true })),
   resolveOutboundTarget: vi.fn(() => ({ ok: true, to: "resolved" })),
+  scheduleMessage: vi.fn(),
+  listScheduledMessages: vi.fn(),
+  cancelScheduledMessage: vi.fn(),
 }));
 
 vi.mock("../../config/config.js", async () => {
@@ -32,6 +35,18 @@ vi.mock("../../infra/outbound/deliver.js", () => ({
   deliverOutboundPayloads: mocks.deliverOutboundPayloads,
 }));
 
+vi.mock("../../infra/outbound/scheduled-messages.js", async () => {
+  const actual = await vi.importActual<typeof import("../../infra/outbound/scheduled-messages.js")>(
+    "../../infra/outbound/scheduled-messages.js",
+  );
+  return {
+    ...actual,
+    scheduleMessage: mocks.scheduleMessage,
+    listScheduledMessages: mocks.listScheduledMessages,
+    cancelScheduledMessage: mocks.cancelScheduledMessage,
+  };
+});
+
 vi.mock("../../config/sessions.js", async () => {
   const actual = await vi.importActual<typeof import("../../config/sessions.js")>(
     "../../config/sessions.js",
@@ -286,4 +301,131 @@ describe("gateway send mirroring", () => {
       }),
     );
   });
+
+  it("schedules the send on the gateway when sendAt is set", async () => {
+    const sendAt = Date.now() + 60 * 60_000;
+    mocks.scheduleMessage.mockImplementation(async (params: { sendAt: number }) => ({
+      ...params,
+      id: "sched-1",
+      createdAt: Date.now(),
+    }));
+
+    const { respond } = await runSend({
+      to: "channel:C1",
+      message: "later",
+      channel: "slack",
+      sessionKey: "agent:main:slack:channel:c1",
+      sendAt,
+      idempotencyKey: "idem-scheduled",
+    });
+
+    expect(mocks.deliverOutboundPayloads).not.toHaveBeenCalled();
+    expect(mocks.scheduleMessage).toHaveBeenCalledWith(
+      expect.objectContaining({
+        sendAt,
+        channel: "slack",
+        to: "resolved",
+        agentId: "main",
+        payloads: [expect.objectContaining({ text: "later" })],
+      }),
+    );
+    expect(respond).toHaveBeenCalledWith(
+      true,
+      expect.objectContaining({ scheduledId: "sched-1", sendAt: new Date(sendAt).toISOString() }),
+      undefined,
+      expect.anything(),
+    );
+  });
+
+  it("rejects sendAt values in the past", async () => {
+    const { respond } = await runSend({
+      to: "channel:C1",
+      message: "late",
+      channel: "slack",
+      sendAt: Date.now() - 60_000,
+      idempotencyKey: "idem-scheduled-past",
+    });
+
+    expect(mocks.scheduleMessage).not.toHaveBeenCalled();
+    expect(respond).toHaveBeenCalledWith(
+      false,
+      undefined,
+      expect.objectContaining({ message: expect.stringContaining("in the past") }),
+      expect.anything(),
+    );
+  });
+});
+
+describe("gateway scheduled sends", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  async function run(method: "send.scheduled.list" | "send.scheduled.cancel", params: unknown) {
+    const respond = vi.fn();
+    await sendHandlers[method]({
+      params: params as never,
+      respond,
+      context: makeContext(),
+      req: { type: "req", id: "1", method },
+      client: null,
+      isWebchatConnect: () => false,
+    });
+    return respond;
+  }
+
+  const entry = (id: string, extra: Record<string, unknown> = {}) => ({
+    id,
+    createdAt: 1,
+    sendAt: 2,
+    channel: "slack",
+    to: "channel:C1",
+    payloads: [{ text: "later" }],
+    ...extra,
+  });
+
+  it("lists the gateway's scheduled messages filtered by agent and channel", async () => {
+    mocks.listScheduledMessages.mockResolvedValue([
+      entry("a", { agentId: "main" }),
+      entry("b", { agentId: "ops" }),
+      entry("c", { agentId: "main", channel: "telegram" }),
+    ]);
+
+    const respond = await run("send.scheduled.list", { agentId: "main", channel: "Slack" });
+
+    expect(respond).toHaveBeenCalledWith(
+      true,
+      { scheduled: [expect.objectContaining({ id: "a" })] },
+      undefined,
+    );
+  });
+
+  it("cancels scheduled messages and reports ones already being sent", async () => {
+    mocks.cancelScheduledMessage.mockResolvedValueOnce(entry("a"));
+    let respond = await run("send.scheduled.cancel", { id: "a", agentId: "main" });
+    expect(mocks.cancelScheduledMessage).toHaveBeenCalledWith("a", { agentId: "main" });
+    expect(respond).toHaveBeenCalledWith(
+      true,
+      { ok: true, cancelled: expect.objectContaining({ id: "a" }) },
+      undefined,
+    );
+
+    mocks.cancelScheduledMessage.mockRejectedValueOnce(
+      new Error("Scheduled message b is already being sent"),
+    );
+    respond = await run("send.scheduled.cancel", { id: "b" });
+    expect(respond).toHaveBeenCalledWith(
+      false,
+      undefined,
+      expect.objectContaining({ message: "Scheduled message b is already being sent" }),
+    );
+
+    mocks.cancelScheduledMessage.mockResolvedValueOnce(null);
+    respond = await run("send.scheduled.cancel", { id: "c" });
+    expect(respond).toHaveBeenCalledWith(
+      false,
+      undefined,
+      expect.objectContaining({ message: "Scheduled message not found: c" }),
+    );
+  });
 });
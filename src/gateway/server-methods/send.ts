@@ -9,6 +9,14 @@ import {
   resolveOutboundSessionRoute,
 } from "../../infra/outbound/outbound-session.js";
 import { normalizeReplyPayloadsForDelivery } from "../../infra/outbound/payloads.js";
+import {
+  cancelScheduledMessage,
+  isRecipientInQuietHours,
+  listScheduledMessages,
+  resolveScheduledSendAt,
+  scheduleMessage,
+  type ScheduledMessage,
+} from "../../infra/outbound/scheduled-messages.js";
 import { resolveOutboundTarget } from "../../infra/outbound/targets.js";
 import { normalizePollInput } from "../../polls.js";
 import {
@@ -17,6 +25,8 @@ import {
   formatValidationErrors,
   validatePollParams,
   validateSendParams,
+  validateSendScheduledCancelParams,
+  validateSendScheduledListParams,
 } from "../protocol/index.js";
 import { formatForLog } from "../ws-log.js";
 import type { GatewayRequestContext, GatewayRequestHandlers } from "./types.js";
@@ -66,6 +76,7 @@ export const sendHandlers: GatewayRequestHandlers = {
       accountId?: string;
       threadId?: string;
       sessionKey?: string;
+      sendAt?: number;
       idempotencyKey: string;
     };
     const idem = request.idempotencyKey;
@@ -199,33 +210,70 @@ export const sendHandlers: GatewayRequestHandlers = {
             route: derivedRoute,
           });
         }
+        const agentId = providedSessionKey
+          ? resolveSessionAgentId({ sessionKey: providedSessionKey, config: cfg })
+          : derivedAgentId;
+        const mirror = providedSessionKey
+          ? {
+              sessionKey: providedSessionKey,
+              agentId,
+              text: mirrorText || message,
+              mediaUrls: mirrorMediaUrls.length > 0 ? mirrorMediaUrls : undefined,
+            }
+          : derivedRoute
+            ? {
+                sessionKey: derivedRoute.sessionKey,
+                agentId: derivedAgentId,
+                text: mirrorText || message,
+                mediaUrls: mirrorMediaUrls.length > 0 ? mirrorMediaUrls : undefined,
+              }
+            : undefined;
+
+        if (request.sendAt !== undefined) {
+          // Scheduled sends live in this gateway's state dir, where its runner sends them.
+          let sendAt: number | null;
+          try {
+            sendAt = resolveScheduledSendAt({ sendAt: request.sendAt });
+          } catch (err) {
+            return {
+              ok: false,
+              error: errorShape(ErrorCodes.INVALID_REQUEST, String(err)),
+              meta: { channel },
+            };
+          }
+          const entry = await scheduleMessage({
+            sendAt: sendAt ?? request.sendAt,
+            channel: outboundChannel,
+            to: resolved.to,
+            accountId,
+            payloads: mirrorPayloads,
+            threadId: threadId ?? null,
+            gifPlayback: request.gifPlayback,
+            agentId,
+            mirror,
+          });
+          const payload: Record<string, unknown> = {
+            runId: idem,
+            channel,
+            scheduledId: entry.id,
+            sendAt: new Date(entry.sendAt).toISOString(),
+            ...(isRecipientInQuietHours(cfg, entry, entry.sendAt) ? { quietHours: true } : {}),
+          };
+          context.dedupe.set(dedupeKey, { ts: Date.now(), ok: true, payload });
+          return { ok: true, payload, meta: { channel } };
+        }
+
         const results = await deliverOutboundPayloads({
           cfg,
           channel: outboundChannel,
           to: resolved.to,
           accountId,
           payloads: [{ text: message, mediaUrl, mediaUrls }],
-          agentId: providedSessionKey
-            ? resolveSessionAgentId({ sessionKey: providedSessionKey, config: cfg })
-            : derivedAgentId,
+          agentId,
           gifPlayback: request.gifPlayback,
           threadId: threadId ?? null,
           deps: outboundDeps,
-          mirror: providedSessionKey
-            ? {
-                sessionKey: providedSessionKey,
-                agentId: resolveSessionAgentId({ sessionKey: providedSessionKey, config: cfg }),
-                text: mirrorText || message,
-                mediaUrls: mirrorMediaUrls.length > 0 ? mirrorMediaUrls : undefined,
-              }
-            : derivedRoute
-              ? {
-                  sessionKey: derivedRoute.sessionKey,
-                  agentId: derivedAgentId,
-                  text: mirrorText || message,
-                  mediaUrls: mirrorMediaUrls.length > 0 ? mirrorMediaUrls : undefined,
-                }
-              : undefined,
+          mirror,
         });
 
         const result = results.at(-1);
@@ -278,6 +326,64 @@ export const sendHandlers: GatewayRequestHandlers = {
       inflightMap.delete(dedupeKey);
     }
   },
+  "send.scheduled.list": async ({ params, respond }) => {
+    if (!validateSendScheduledListParams(params)) {
+      respond(
+        false,
+        undefined,
+        errorShape(
+          ErrorCodes.INVALID_REQUEST,
+          `invalid send.scheduled.list params: ${formatValidationErrors(validateSendScheduledListParams.errors)}`,
+        ),
+      );
+      return;
+    }
+    try {
+      const channel = params.channel?.trim().toLowerCase();
+      const scheduled = (await listScheduledMessages()).filter(
+        (entry) =>
+          (!params.agentId || entry.agentId === params.agentId) &&
+          (!channel || entry.channel === channel),
+      );
+      respond(true, { scheduled }, undefined);
+    } catch (err) {
+      respond(false, undefined, errorShape(ErrorCodes.UNAVAILABLE, String(err)));
+    }
+  },
+  "send.scheduled.cancel": async ({ params, respond }) => {
+    if (!validateSendScheduledCancelParams(params)) {
+      respond(
+        false,
+        undefined,
+        errorShape(
+          ErrorCodes.INVALID_REQUEST,
+          `invalid send.scheduled.cancel params: ${formatValidationErrors(validateSendScheduledCancelParams.errors)}`,
+        ),
+      );
+      return;
+    }
+    let cancelled: ScheduledMessage | null;
+    try {
+      cancelled = await cancelScheduledMessage(params.id, { agentId: params.agentId });
+    } catch (err) {
+      // Claimed by the schedule runner: the message is already going out.
+      respond(
+        false,
+        undefined,
+        errorShape(ErrorCodes.INVALID_REQUEST, err instanceof Error ? err.message : String(err)),
+      );
+      return;
+    }
+    if (!cancelled) {
+      respond(
+        false,
+        undefined,
+        errorShape(ErrorCodes.INVALID_REQUEST, `Scheduled message not found: ${params.id}`),
+      );
+      return;
+    }
+    respond(true, { ok: true, cancelled }, undefined);
+  },
   poll: async ({ params, respond, context }) => {
     const p = params;
     if (!validatePollParams(p)) {
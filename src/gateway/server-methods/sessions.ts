@@ -6,6 +6,7 @@ import { stopSubagentsForRequester } from "../../auto-reply/reply/abort.js";
 import { clearSessionQueues } from "../../auto-reply/reply/queue.js";
 import { loadConfig } from "../../config/config.js";
 import {
+  forkSessionEntry,
   loadSessionStore,
   snapshotSessionOrigin,
   resolveMainSessionKey,
@@ -19,6 +20,7 @@ import {
   errorShape,
   validateSessionsCompactParams,
   validateSessionsDeleteParams,
+  validateSessionsForkParams,
   validateSessionsListParams,
   validateSessionsPatchParams,
   validateSessionsPreviewParams,
@@ -422,6 +424,33 @@ export const sessionsHandlers: GatewayRequestHandlers = {
 
     respond(true, { ok: true, key: target.canonicalKey, deleted: existed, archived }, undefined);
   },
+  "sessions.fork": async ({ params, respond }) => {
+    if (!assertValidParams(params, validateSessionsForkParams, "sessions.fork", respond)) {
+      return;
+    }
+    const p = params;
+    const key = requireSessionKey(p.key, respond);
+    if (!key) {
+      return;
+    }
+
+    const { cfg, target, storePath } = resolveGatewaySessionTargetFromKey(key);
+    await updateSessionStore(storePath, (store) => {
+      migrateAndPruneSessionStoreKey({ cfg, key, store });
+    });
+    const forked = await forkSessionEntry({
+      storePath,
+      parentKey: target.canonicalKey,
+      agentId: target.agentId,
+      fromEntryId: p.entryId,
+      label: p.label,
+    });
+    if (!forked.ok) {
+      respond(false, undefined, errorShape(ErrorCodes.INVALID_REQUEST, forked.error));
+      return;
+    }
+    respond(true, { ok: true, key: forked.key, entry: forked.entry }, undefined);
+  },
   "sessions.compact": async ({ params, respond }) => {
     if (!assertValidParams(params, validateSessionsCompactParams, "sessions.compact", respond)) {
       return;
@@ -5,18 +5,9 @@ import { CANVAS_HOST_PATH } from "../canvas-host/a2ui.js";
 import { type CanvasHostHandler, createCanvasHostHandler } from "../canvas-host/server.js";
 import type { CliDeps } from "../cli/deps.js";
 import { resolveMainSessionKeyFromConfig } from "../config/sessions.js";
-import { DirectCallFunctionName } from "../cron/types.js";
 import { resolveElevenLabsAgentsConfig } from "../elevenlabs-agents/config.js";
-import {
-  parseEmailTemplateType,
-  resolveGogEnv,
-  sendInterviewInvite,
-} from "../elevenlabs-agents/google-calendar.js";
-import { getStoredConversation, saveConversationFromWebhook } from "../elevenlabs-agents/store.js";
-import {
-  createTalentlyInterview,
-  isTalentlyInterviewConfigured,
-} from "../elevenlabs-agents/talently-interview.js";
+import { formatPostCallResult, runPostCallPipeline } from "../elevenlabs-agents/post-call.js";
+import { saveConversationFromWebhook } from "../elevenlabs-agents/store.js";
 import { registerElevenLabsWebhookHandler } from "../elevenlabs-agents/webhook.js";
 import { requestHeartbeatNow } from "../infra/heartbeat-wake.js";
 import { enqueueSystemEvent } from "../infra/system-events.js";
@@ -42,6 +33,7 @@ import {
 import { MAX_PAYLOAD_BYTES } from "./server-constants.js";
 import { attachGatewayUpgradeHandler, createGatewayHttpServer } from "./server-http.js";
 import type { DedupeEntry } from "./server-shared.js";
+import { runPostCallAgentTurn } from "./server/elevenlabs-post-call.js";
 import { createGatewayHooksRequestHandler } from "./server/hooks.js";
 import { listenGatewayHttpServer } from "./server/http-listen.js";
 import { createGatewayPluginRequestHandler } from "./server/plugins-http.js";
@@ -58,6 +50,9 @@ export async function createGatewayRuntimeState(params: {
   openAiChatCompletionsEnabled: boolean;
   openResponsesEnabled: boolean;
   openResponsesConfig?: import("../config/types.gateway.js").GatewayHttpResponsesConfig;
+  openAiModelsEnabled: boolean;
+  openAiEmbeddingsEnabled: boolean;
+  openAiEmbeddingsConfig?: import("../config/types.gateway.js").GatewayHttpEmbeddingsConfig;
   resolvedAuth: ResolvedGatewayAuth;
   /** Optional rate limiter for auth brute-force protection. */
   rateLimiter?: AuthRateLimiter;
@@ -156,164 +151,26 @@ export async function createGatewayRuntimeState(params: {
           | Array<{ data_collection_id: string; value: unknown }>
           | undefined;
 
-        // Track automated actions for agent notification
-        const automatedActions: string[] = [];
-
-        // Check for callback_time and schedule automatic callback
-        const callbackTimeItem = dataCollectionList?.find(
-          (item) => item.data_collection_id === "callback_timestamp_iso_8601",
-        );
-        const callbackTimeValue = callbackTimeItem?.value;
-        if (
-          callbackTimeValue &&
-          typeof callbackTimeValue === "string" &&
-          callbackTimeValue.trim()
-        ) {
-          try {
-            const cron = params.getCron?.();
-            if (cron) {
-              // Get stored conversation to retrieve to_number and dynamic_variables
-              const storedConv = await getStoredConversation(workspaceDir, payload.conversationId);
-              if (storedConv && storedConv.to_number) {
-                const candidateName =
-                  storedConv.dynamic_variables?.candidate_name || storedConv.to_number;
-                await cron.add({
-                  name: `Callback: ${candidateName}`,
-                  enabled: true,
-                  schedule: { kind: "at", at: callbackTimeValue },
-                  sessionTarget: "direct",
-                  wakeMode: "now",
-                  payload: {
-                    kind: "directCall",
-                    functionName: DirectCallFunctionName.ELEVENLABS_INITIATE_CALL,
-                    params: {
-                      toNumber: storedConv.to_number,
-                      dynamicVariables: storedConv.dynamic_variables,
-                      originalConversationId: payload.conversationId,
-                    },
-                  },
-                  delivery: { mode: "announce", channel: "last" },
-                });
-                params.log.info(
-                  `elevenlabs webhook: scheduled callback for ${candidateName} at ${callbackTimeValue}`,
-                );
-                automatedActions.push(`callback scheduled for ${callbackTimeValue}`);
-              }
-            }
-          } catch (err) {
-            params.log.warn(
-              `elevenlabs webhook: failed to schedule callback for ${payload.conversationId}: ${String(err)}`,
-            );
-          }
-        }
-
-        // Check for email/calendar invite data and send immediately
-        const candidateEmailItem = dataCollectionList?.find(
-          (item) => item.data_collection_id === "candidate_email",
-        );
-        const calendarInviteTimeItem = dataCollectionList?.find(
-          (item) => item.data_collection_id === "calendar_invite_timestamp_iso_8601",
-        );
-        const emailTemplateTypeItem = dataCollectionList?.find(
-          (item) => item.data_collection_id === "email_type",
-        );
-        const candidateEmail = candidateEmailItem?.value;
-        const calendarInviteTime = calendarInviteTimeItem?.value;
-        const templateType = parseEmailTemplateType(emailTemplateTypeItem?.value);
-
-        // Send email if candidate_email is present (calendar invite is optional)
-        if (candidateEmail && typeof candidateEmail === "string" && candidateEmail.trim()) {
-          try {
-            const gogEnv = resolveGogEnv(params.cfg);
-            if (gogEnv) {
-              // Get stored conversation to retrieve candidate name
-              const storedConv = await getStoredConversation(workspaceDir, payload.conversationId);
-              const candidateName =
-                storedConv?.dynamic_variables?.candidate_name || candidateEmail.split("@")[0];
-
-              // Only pass interviewTimestamp if it's a valid string
-              const interviewTimestamp =
-                calendarInviteTime && typeof calendarInviteTime === "string"
-                  ? calendarInviteTime.trim() || undefined
-                  : undefined;
-
-              // Try to use Talently Interview API to create Zoom meeting + calendar
-              let meetingLink: string | undefined;
-              let meetingPasscode: string | undefined;
-              let talentlyCreatedCalendar = false;
-
-              if (interviewTimestamp && isTalentlyInterviewConfigured(params.cfg)) {
-                params.log.info(
-                  `elevenlabs webhook: using Talently API to create interview meeting`,
-                );
-                const talentlyResult = await createTalentlyInterview(
-                  params.cfg,
-                  {
-                    candidateName,
-                    candidateEmail: candidateEmail.trim(),
-                    interviewTimestamp,
-                    conversationId: payload.conversationId,
-                  },
-                  params.log,
-                );
-
-                if (talentlyResult.ok) {
-                  meetingLink = talentlyResult.meetingLink;
-                  meetingPasscode = talentlyResult.meetingPasscode;
-                  talentlyCreatedCalendar = true;
-                  automatedActions.push(`Zoom meeting created: ${meetingLink}`);
-                  params.log.info(`elevenlabs webhook: Talently created meeting ${meetingLink}`);
-                } else {
-                  params.log.warn(
-                    `elevenlabs webhook: Talently API failed: ${talentlyResult.error}, falling back to gog`,
-                  );
-                }
-              }
-
-              // Send email (and create calendar if Talently didn't)
-              const inviteResult = await sendInterviewInvite(
-                {
-                  candidateName,
-                  candidateEmail: candidateEmail.trim(),
-                  interviewTimestamp,
-                  calendarId: elevenLabsConfig.calendarId,
-                  conversationId: payload.conversationId,
-                  templateType,
-                  meetingLink,
-                  meetingPasscode,
-                  skipCalendar: talentlyCreatedCalendar,
-                },
-                gogEnv,
-                params.log,
-              );
-
-              if (inviteResult.ok) {
-                params.log.info(
-                  `elevenlabs webhook: processed email/calendar for ${candidateEmail}`,
-                );
-                if (inviteResult.calendarEventCreated && interviewTimestamp) {
-                  automatedActions.push(
-                    `calendar invite sent to ${candidateEmail} for ${interviewTimestamp}`,
-                  );
-                }
-                if (inviteResult.emailSent) {
-                  automatedActions.push(`email sent to ${candidateEmail}`);
-                }
-              } else {
-                params.log.warn(
-                  `elevenlabs webhook: failed to send email/calendar: ${inviteResult.error}`,
-                );
-              }
-            } else {
-              params.log.warn(
-                `elevenlabs webhook: candidate email present but gog not configured (missing GOG_ACCOUNT)`,
-              );
-            }
-          } catch (err) {
-            params.log.warn(
-              `elevenlabs webhook: failed to send interview invite for ${payload.conversationId}: ${String(err)}`,
-            );
-          }
+        // Outcome extraction and follow-ups (emails, interview, callback)
+        let postCallText = "";
+        try {
+          const cron = params.getCron?.();
+          const postCall = await runPostCallPipeline({
+            cfg: params.cfg,
+            workspaceDir,
+            conversationId: payload.conversationId,
+            log: params.log,
+            deps: {
+              runAgentTurn: (turn) => runPostCallAgentTurn(params.cfg, params.deps, turn),
+              addCronJob: cron ? (job) => cron.add(job) : undefined,
+            },
+          });
+          const formatted = postCall ? formatPostCallResult(postCall) : "";
+          postCallText = formatted ? ` ${formatted}` : "";
+        } catch (err) {
+          params.log.warn(
+            `elevenlabs webhook: post-call pipeline failed for ${payload.conversationId}: ${String(err)}`,
+          );
         }
 
         // Notify agent with summary and data collection results
@@ -331,11 +188,7 @@ export async function createGatewayRuntimeState(params: {
           ? ` Summary: ${String(payload.analysis?.transcript_summary).slice(0, 500)}`
           : "";
 
-        // Add automated actions info
-        const actionsText =
-          automatedActions.length > 0 ? ` Automated actions: ${automatedActions.join("; ")}.` : "";
-
-        const message = `ElevenLabs call ${statusText}. Conversation ID: ${payload.conversationId}.${dataText}${summaryText}${actionsText}`;
+        const message = `ElevenLabs call ${statusText}. Conversation ID: ${payload.conversationId}.${dataText}${summaryText}${postCallText}`;
         enqueueSystemEvent(message, { sessionKey: mainSessionKey });
         requestHeartbeatNow({ reason: `elevenlabs:${payload.conversationId}` });
       },
@@ -361,6 +214,9 @@ export async function createGatewayRuntimeState(params: {
       openAiChatCompletionsEnabled: params.openAiChatCompletionsEnabled,
       openResponsesEnabled: params.openResponsesEnabled,
       openResponsesConfig: params.openResponsesConfig,
+      openAiModelsEnabled: params.openAiModelsEnabled,
+      openAiEmbeddingsEnabled: params.openAiEmbeddingsEnabled,
+      openAiEmbeddingsConfig: params.openAiEmbeddingsConfig,
       handleHooksRequest,
       handlePluginRequest,
       resolvedAuth: params.resolvedAuth,
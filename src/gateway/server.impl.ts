@@ -18,6 +18,7 @@ import {
   writeConfigFile,
 } from "../config/config.js";
 import { applyPluginAutoEnable } from "../config/plugin-auto-enable.js";
+import { startCallCampaignRunner } from "../elevenlabs-agents/campaigns.js";
 import { clearAgentRunContext, onAgentEvent } from "../infra/agent-events.js";
 import {
   ensureControlUiAssetsBuilt,
@@ -30,6 +31,8 @@ import { createExecApprovalForwarder } from "../infra/exec-approval-forwarder.js
 import { onHeartbeatEvent } from "../infra/heartbeat-events.js";
 import { startHeartbeatRunner, type HeartbeatRunner } from "../infra/heartbeat-runner.js";
 import { getMachineDisplayName } from "../infra/machine-name.js";
+import { startDeliveryQueueMonitor } from "../infra/outbound/delivery-queue-monitor.js";
+import { startScheduledMessageRunner } from "../infra/outbound/scheduled-messages.js";
 import { ensureOpenClawCliOnPath } from "../infra/path-env.js";
 import { setGatewaySigusr1RestartPolicy, setPreRestartDeferralCheck } from "../infra/restart.js";
 import {
@@ -38,6 +41,7 @@ import {
   setSkillsRemoteRegistry,
 } from "../infra/skills-remote.js";
 import { scheduleGatewayUpdateCheck } from "../infra/update-startup.js";
+import { startLinkedInOutreachRunner } from "../linkedin/outreach.js";
 import { startDiagnosticHeartbeat, stopDiagnosticHeartbeat } from "../logging/diagnostic.js";
 import { createSubsystemLogger, runtimeForLogger } from "../logging/subsystem.js";
 import { getGlobalHookRunner, runGlobalGatewayStopSafely } from "../plugins/hook-runner-global.js";
@@ -45,6 +49,8 @@ import { createEmptyPluginRegistry } from "../plugins/registry.js";
 import type { PluginServicesHandle } from "../plugins/services.js";
 import { getTotalQueueSize } from "../process/command-queue.js";
 import type { RuntimeEnv } from "../runtime.js";
+import { startSecurityAuditMonitor } from "../security/audit-monitor.js";
+import { startCVAnalysisJobTracker } from "../talently-cv-analysis/tracker.js";
 import { runOnboardingWizard } from "../wizard/onboarding.js";
 import { createAuthRateLimiter, type AuthRateLimiter } from "./auth-rate-limit.js";
 import { startChannelHealthMonitor } from "./channel-health-monitor.js";
@@ -301,6 +307,9 @@ export async function startGatewayServer(
     openAiChatCompletionsEnabled,
     openResponsesEnabled,
     openResponsesConfig,
+    openAiModelsEnabled,
+    openAiEmbeddingsEnabled,
+    openAiEmbeddingsConfig,
     controlUiBasePath,
     controlUiRoot: controlUiRootOverride,
     resolvedAuth,
@@ -385,6 +394,9 @@ export async function startGatewayServer(
     openAiChatCompletionsEnabled,
     openResponsesEnabled,
     openResponsesConfig,
+    openAiModelsEnabled,
+    openAiEmbeddingsEnabled,
+    openAiEmbeddingsConfig,
     resolvedAuth,
     rateLimiter: authRateLimiter,
     gatewayTls,
@@ -543,6 +555,29 @@ export async function startGatewayServer(
     void cron.start().catch((err) => logCron.error(`failed to start: ${String(err)}`));
   }
 
+  // Re-run the security audit periodically and alert on new findings.
+  const securityMonitor = minimalTestGateway
+    ? null
+    : startSecurityAuditMonitor({ cfg: cfgAtStart });
+
+  // Poll CV analysis batch jobs (persisted per workspace) until they finish.
+  const cvAnalysisJobTracker = minimalTestGateway ? null : startCVAnalysisJobTracker();
+
+  // Work through ElevenLabs calling campaigns (persisted per workspace).
+  const callCampaignRunner = minimalTestGateway
+    ? null
+    : startCallCampaignRunner({ cfg: cfgAtStart });
+
+  // Send due LinkedIn outreach steps and watch for replies (persisted per workspace).
+  const linkedInOutreachRunner = minimalTestGateway
+    ? null
+    : startLinkedInOutreachRunner({ cfg: cfgAtStart });
+
+  // Alert when the failed (dead-letter) delivery queue grows past its threshold.
+  const deliveryQueueMonitor = minimalTestGateway ? null : startDeliveryQueueMonitor();
+  // Send messages scheduled with sendAt/delay (including ones that fell due while stopped).
+  const scheduledMessageRunner = minimalTestGateway ? null : startScheduledMessageRunner();
+
   // Recover pending outbound deliveries from previous crash/restart.
   if (!minimalTestGateway) {
     void (async () => {
@@ -554,6 +589,9 @@ export async function startGatewayServer(
         log: logRecovery,
         cfg: cfgAtStart,
       });
+      // Recovery is what moves exhausted entries into failed/.
+      await deliveryQueueMonitor?.checkNow();
+      await scheduledMessageRunner?.runNow();
     })().catch((err) => log.error(`Delivery recovery failed: ${String(err)}`));
   }
 
@@ -691,6 +729,7 @@ export async function startGatewayServer(
             heartbeatRunner,
             cronState,
             browserControl,
+            securityMonitor,
           }),
           setState: (nextState) => {
             hooksConfig = nextState.hooksConfig;
@@ -766,6 +805,12 @@ export async function startGatewayServer(
       skillsChangeUnsub();
       authRateLimiter?.dispose();
       channelHealthMonitor?.stop();
+      securityMonitor?.stop();
+      deliveryQueueMonitor?.stop();
+      scheduledMessageRunner?.stop();
+      cvAnalysisJobTracker?.stop();
+      callCampaignRunner?.stop();
+      linkedInOutreachRunner?.stop();
       await close(opts);
     },
   };
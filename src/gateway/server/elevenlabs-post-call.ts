@@ -0,0 +1,50 @@
+import { randomUUID } from "node:crypto";
+import type { CliDeps } from "../../cli/deps.js";
+import type { OpenClawConfig } from "../../config/config.js";
+import { runCronIsolatedAgentTurn } from "../../cron/isolated-agent.js";
+import type { CronJob } from "../../cron/types.js";
+import type { PostCallAgentTurnParams } from "../../elevenlabs-agents/post-call.js";
+
+/**
+ * Run the post-call extraction as an isolated agent turn.
+ * The session key uses the hook prefix so the transcript is wrapped as external content.
+ */
+export async function runPostCallAgentTurn(
+  cfg: OpenClawConfig,
+  deps: CliDeps,
+  turn: PostCallAgentTurnParams,
+): Promise<string | undefined> {
+  const now = Date.now();
+  const job: CronJob = {
+    id: randomUUID(),
+    agentId: turn.agentId,
+    name: `ElevenLabs post-call ${turn.conversationId}`,
+    enabled: true,
+    createdAtMs: now,
+    updatedAtMs: now,
+    schedule: { kind: "at", at: new Date(now).toISOString() },
+    sessionTarget: "isolated",
+    wakeMode: "next-heartbeat",
+    payload: {
+      kind: "agentTurn",
+      message: turn.prompt,
+      model: turn.model,
+      timeoutSeconds: turn.timeoutSeconds,
+      deliver: false,
+    },
+    state: { nextRunAtMs: now },
+  };
+  const result = await runCronIsolatedAgentTurn({
+    cfg,
+    deps,
+    job,
+    message: turn.prompt,
+    sessionKey: `hook:elevenlabs:${turn.conversationId}`,
+    agentId: turn.agentId,
+    lane: "cron",
+  });
+  if (result.status !== "ok") {
+    throw new Error(result.error ?? `agent turn ${result.status}`);
+  }
+  return result.outputText;
+}
@@ -460,12 +460,17 @@ describe("readSessionMessages", () => {
         firstKeptEntryId: "x",
         tokensBefore: 123,
       }),
-      JSON.stringify({ message: { role: "assistant", content: "World" } }),
+      JSON.stringify({
+        type: "message",
+        id: "msg-2",
+        message: { role: "assistant", content: "World" },
+      }),
     ];
     fs.writeFileSync(transcriptPath, lines.join("\n"), "utf-8");
 
     const out = readSessionMessages(sessionId, storePath);
     expect(out).toHaveLength(3);
+    expect(out[2]).toEqual({ role: "assistant", content: "World", __openclaw: { id: "msg-2" } });
     const marker = out[1] as {
       role: string;
       content?: Array<{ text?: string }>;
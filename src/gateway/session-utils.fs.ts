@@ -87,7 +87,12 @@ export function readSessionMessages(
     try {
       const parsed = JSON.parse(line);
       if (parsed?.message) {
-        messages.push(parsed.message);
+        // Expose the transcript entry id so clients can target a message (e.g. sessions.fork).
+        messages.push(
+          typeof parsed.id === "string"
+            ? { ...parsed.message, __openclaw: { ...parsed.message.__openclaw, id: parsed.id } }
+            : parsed.message,
+        );
         continue;
       }
 
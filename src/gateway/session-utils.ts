@@ -800,6 +800,7 @@ export function listSessionsFromStore(params: {
         space,
         chatType: entry?.chatType,
         origin,
+        forkedFrom: entry?.forkedFrom,
         updatedAt,
         sessionId: entry?.sessionId,
         systemSent: entry?.systemSent,
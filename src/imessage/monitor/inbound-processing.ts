@@ -213,6 +213,14 @@ export function resolveIMessageInboundDecision(params: {
       kind: isGroup ? "group" : "direct",
       id: isGroup ? String(chatId ?? "unknown") : senderNormalized,
     },
+    message: {
+      text: params.messageText,
+      attachments:
+        params.message.attachments?.flatMap((attachment) =>
+          attachment?.mime_type ? [attachment.mime_type] : [],
+        ) ?? [],
+      timestamp: params.message.created_at ? Date.parse(params.message.created_at) : undefined,
+    },
   });
   const mentionRegexes = buildMentionRegexes(params.cfg, route.agentId);
   const messageText = params.messageText.trim();
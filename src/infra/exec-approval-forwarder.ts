@@ -142,7 +142,7 @@ function buildRequestMessage(request: ExecApprovalRequest, nowMs: number) {
   }
   const expiresIn = Math.max(0, Math.round((request.expiresAtMs - nowMs) / 1000));
   lines.push(`Expires in: ${expiresIn}s`);
-  lines.push("Reply with: /approve <id> allow-once|allow-always|deny");
+  lines.push("Reply with: /approve <id> allow-once|allow-always|allow-similar|deny");
   return lines.join("\n");
 }
 
@@ -153,6 +153,9 @@ function decisionLabel(decision: ExecApprovalDecision): string {
   if (decision === "allow-always") {
     return "allowed always";
   }
+  if (decision === "allow-similar") {
+    return "allowed similar";
+  }
   return "denied";
 }
 
@@ -0,0 +1,473 @@
+import crypto from "node:crypto";
+import path from "node:path";
+import { analyzeShellCommand, type ExecCommandSegment } from "./exec-approvals-analysis.js";
+import { expandHomePrefix } from "./home-dir.js";
+
+export type ExecPolicyHost = "sandbox" | "gateway" | "node";
+export type ExecPolicyAction = "allow" | "deny" | "ask";
+
+/**
+ * Conditional exec rule. Every condition that is set must hold; unset
+ * conditions match anything. Rules with `expiresAt`/`maxUses` are grants and
+ * disappear once they run out.
+ */
+export type ExecPolicyRule = {
+  id?: string;
+  action: ExecPolicyAction;
+  description?: string;
+  /**
+   * Glob per argv position; a trailing `**` matches any remaining args. For
+   * allow rules argv[0] is matched against the resolved executable path only,
+   * so it should be absolute; deny/ask rules also match the bare name.
+   */
+  argv?: string[];
+  /** Glob on the full command text. */
+  command?: string;
+  /** Glob on the working directory (`dir/**` also matches `dir`). */
+  cwd?: string;
+  /** Env var globs; `*` only requires the variable to be set. */
+  env?: Record<string, string>;
+  hosts?: ExecPolicyHost[];
+  agents?: string[];
+  /** Grant expiry (ms since epoch). */
+  expiresAt?: number;
+  /** Grant use budget; the rule is removed once `uses` reaches it. */
+  maxUses?: number;
+  uses?: number;
+  createdAt?: number;
+  lastUsedAt?: number;
+  source?: "manual" | "approve-similar";
+};
+
+export type ExecPolicyRuleTrace = {
+  rule: ExecPolicyRule;
+  matched: boolean;
+  reason: string;
+};
+
+export type ExecPolicyEvaluation = {
+  /** Null when no rule decides; the security/allowlist settings apply. */
+  decision: ExecPolicyAction | null;
+  /** Rules that produced the decision (allow can need one rule per segment). */
+  rules: ExecPolicyRule[];
+  trace: ExecPolicyRuleTrace[];
+};
+
+export const DEFAULT_SIMILAR_GRANT_MINUTES = 60;
+
+const ACTIONS = new Set<ExecPolicyAction>(["allow", "deny", "ask"]);
+const HOSTS = new Set<ExecPolicyHost>(["sandbox", "gateway", "node"]);
+
+// Tool -> subcommands whose further args only choose what to read or print, so "approve similar"
+// can widen them to any args. Every other command (interpreters, script and build runners,
+// find, sed, xargs...) keeps its exact argv.
+const SIMILAR_WIDENABLE_SUBCOMMANDS: Record<string, ReadonlySet<string>> = {
+  git: new Set(["status", "ls-files", "rev-parse", "describe", "blame"]),
+  docker: new Set(["ps", "images", "logs", "inspect", "version"]),
+  npm: new Set(["ls", "list", "outdated", "view", "why"]),
+  pnpm: new Set(["ls", "list", "outdated", "view", "why"]),
+  yarn: new Set(["list", "outdated", "info", "why"]),
+};
+
+function tokenGlobToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split(/(\*+|\?)/)
+    .map((part) =>
+      part.startsWith("*")
+        ? ".*"
+        : part === "?"
+          ? "."
+          : part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"),
+    )
+    .join("");
+  return new RegExp(`^${source}$`, "i");
+}
+
+function pathGlobToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split(/(\*\*|\*|\?)/)
+    .map((part) =>
+      part === "**"
+        ? ".*"
+        : part === "*"
+          ? "[^/]*"
+          : part === "?"
+            ? "[^/]"
+            : part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"),
+    )
+    .join("");
+  return new RegExp(`^${source}$`, process.platform === "win32" ? "i" : "");
+}
+
+function normalizePathForMatch(value: string): string {
+  const normalized = path.resolve(expandHomePrefix(value)).replace(/\\/g, "/");
+  return normalized.length > 1 ? normalized.replace(/\/+$/, "") : normalized;
+}
+
+function matchesCwd(pattern: string, cwd: string | undefined): boolean {
+  if (!cwd) {
+    return false;
+  }
+  const trimmed = pattern.trim();
+  const expanded = trimmed.startsWith("~") ? expandHomePrefix(trimmed) : trimmed;
+  const target = normalizePathForMatch(cwd);
+  if (expanded.endsWith("/**") && normalizePathForMatch(expanded.slice(0, -3)) === target) {
+    return true;
+  }
+  return pathGlobToRegExp(expanded.replace(/\\/g, "/")).test(target);
+}
+
+function matchesExecutable(
+  pattern: string,
+  segment: ExecCommandSegment,
+  action: ExecPolicyAction,
+): boolean {
+  const resolved = segment.resolution?.resolvedPath;
+  // Allow rules only trust the resolved path: a bare or relative argv[0] like
+  // `./git` can point at any binary in the working directory.
+  if (action === "allow") {
+    if (!resolved) {
+      return false;
+    }
+    const expanded = pattern.startsWith("~") ? expandHomePrefix(pattern) : pattern;
+    return pathGlobToRegExp(expanded.replace(/\\/g, "/")).test(resolved.replace(/\\/g, "/"));
+  }
+  const token = segment.argv[0] ?? "";
+  const candidates = [
+    token,
+    path.basename(token),
+    resolved ?? "",
+    resolved ? path.basename(resolved) : "",
+  ];
+  const regex = pattern.includes("/") ? pathGlobToRegExp(pattern) : tokenGlobToRegExp(pattern);
+  return candidates.some((candidate) => candidate && regex.test(candidate));
+}
+
+function matchesArgv(
+  patterns: string[],
+  segment: ExecCommandSegment,
+  action: ExecPolicyAction,
+): boolean {
+  const argv = segment.argv;
+  for (let i = 0; i < patterns.length; i += 1) {
+    const pattern = patterns[i];
+    if (pattern === "**" && i === patterns.length - 1) {
+      return true;
+    }
+    const token = argv[i];
+    if (token === undefined) {
+      return false;
+    }
+    if (i === 0) {
+      if (!matchesExecutable(pattern, segment, action)) {
+        return false;
+      }
+      continue;
+    }
+    if (!tokenGlobToRegExp(pattern).test(token)) {
+      return false;
+    }
+  }
+  return argv.length === patterns.length;
+}
+
+function describeArgv(patterns: string[]): string {
+  return patterns.join(" ");
+}
+
+/** Drop invalid rules and fill in ids; returns undefined for an empty list. */
+export function normalizeExecPolicyRules(raw: unknown): ExecPolicyRule[] | undefined {
+  if (!Array.isArray(raw)) {
+    return undefined;
+  }
+  const rules: ExecPolicyRule[] = [];
+  for (const item of raw) {
+    if (!item || typeof item !== "object" || Array.isArray(item)) {
+      continue;
+    }
+    const rule = item as ExecPolicyRule;
+    if (!ACTIONS.has(rule.action)) {
+      continue;
+    }
+    const hosts = Array.isArray(rule.hosts)
+      ? rule.hosts.filter((host) => HOSTS.has(host))
+      : undefined;
+    rules.push({
+      ...rule,
+      id: rule.id?.trim() || crypto.randomUUID(),
+      ...(hosts ? { hosts } : {}),
+    });
+  }
+  return rules.length > 0 ? rules : undefined;
+}
+
+function ruleExhaustedReason(rule: ExecPolicyRule, now: number): string | null {
+  if (typeof rule.expiresAt === "number" && rule.expiresAt <= now) {
+    return "expired";
+  }
+  if (typeof rule.maxUses === "number" && (rule.uses ?? 0) >= rule.maxUses) {
+    return "no uses left";
+  }
+  return null;
+}
+
+/** Remove grants that expired or used up their budget. */
+export function pruneExecPolicyRules(rules: ExecPolicyRule[], now = Date.now()): ExecPolicyRule[] {
+  return rules.filter((rule) => !ruleExhaustedReason(rule, now));
+}
+
+function checkRuleContext(
+  rule: ExecPolicyRule,
+  params: {
+    cwd?: string;
+    env?: Record<string, string | undefined>;
+    host: ExecPolicyHost;
+    agentId?: string;
+  },
+): string | null {
+  if (rule.hosts?.length && !rule.hosts.includes(params.host)) {
+    return `host ${params.host} not in ${rule.hosts.join(",")}`;
+  }
+  if (rule.agents?.length) {
+    const agentId = (params.agentId ?? "main").toLowerCase();
+    if (!rule.agents.some((agent) => agent === "*" || agent.toLowerCase() === agentId)) {
+      return `agent ${agentId} not listed`;
+    }
+  }
+  if (rule.cwd && !matchesCwd(rule.cwd, params.cwd)) {
+    return `cwd ${params.cwd ?? "(unknown)"} does not match ${rule.cwd}`;
+  }
+  for (const [name, pattern] of Object.entries(rule.env ?? {})) {
+    const value = params.env?.[name];
+    if (value === undefined) {
+      return `env ${name} not set`;
+    }
+    if (pattern !== "*" && !tokenGlobToRegExp(pattern).test(value)) {
+      return `env ${name} does not match ${pattern}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Segments of every part of a shell command (`&&`/`||`/`;` chains and pipelines)
+ * for rule evaluation, or null when the shell syntax cannot be analyzed. Unlike
+ * the allowlist analysis this never stops at the first part the allowlist
+ * rejects, so deny rules see the whole chain.
+ */
+export function analyzeExecPolicySegments(params: {
+  command: string;
+  cwd?: string;
+  env?: NodeJS.ProcessEnv;
+  platform?: string | null;
+}): ExecCommandSegment[] | null {
+  const analysis = analyzeShellCommand(params);
+  return analysis.ok ? analysis.segments : null;
+}
+
+/**
+ * Evaluate rules for a command. Any matching deny wins, then ask; allow needs
+ * every command segment (pipelines, `&&` chains) to be covered by an allow rule.
+ * Allow rules without argv only cover single-segment commands, since a
+ * `command` glob like `git status*` also matches `git status && rm -rf x`.
+ *
+ * `segments: null` means the command could not be analyzed: argv conditions
+ * cannot be checked, so a deny or ask rule with argv that may apply yields
+ * "ask" rather than letting the command through unchecked.
+ */
+export function evaluateExecPolicyRules(params: {
+  rules: ExecPolicyRule[];
+  command: string;
+  segments: ExecCommandSegment[] | null;
+  cwd?: string;
+  env?: Record<string, string | undefined>;
+  host: ExecPolicyHost;
+  agentId?: string;
+  now?: number;
+}): ExecPolicyEvaluation {
+  const now = params.now ?? Date.now();
+  const trace: ExecPolicyRuleTrace[] = [];
+  const matched: Array<{ rule: ExecPolicyRule; segments: Set<number> }> = [];
+  const unchecked: ExecPolicyRule[] = [];
+  for (const rule of params.rules) {
+    const exhausted = ruleExhaustedReason(rule, now);
+    if (exhausted) {
+      trace.push({ rule, matched: false, reason: exhausted });
+      continue;
+    }
+    const contextMiss = checkRuleContext(rule, params);
+    if (contextMiss) {
+      trace.push({ rule, matched: false, reason: contextMiss });
+      continue;
+    }
+    if (rule.command && !tokenGlobToRegExp(rule.command.trim()).test(params.command.trim())) {
+      trace.push({ rule, matched: false, reason: `command does not match ${rule.command}` });
+      continue;
+    }
+    if (!params.segments) {
+      if (rule.action === "allow") {
+        trace.push({ rule, matched: false, reason: "command could not be analyzed" });
+      } else if (rule.argv?.length) {
+        unchecked.push(rule);
+        trace.push({ rule, matched: true, reason: "command could not be analyzed" });
+      } else {
+        matched.push({ rule, segments: new Set() });
+        trace.push({ rule, matched: true, reason: "matches" });
+      }
+      continue;
+    }
+    if (rule.action === "allow" && !rule.argv?.length && params.segments.length > 1) {
+      trace.push({ rule, matched: false, reason: "allow rules without argv cover one command" });
+      continue;
+    }
+    const segments = new Set<number>();
+    params.segments.forEach((segment, index) => {
+      if (!rule.argv?.length || matchesArgv(rule.argv, segment, rule.action)) {
+        segments.add(index);
+      }
+    });
+    if (segments.size === 0) {
+      trace.push({
+        rule,
+        matched: false,
+        reason: `argv does not match ${describeArgv(rule.argv ?? [])}`,
+      });
+      continue;
+    }
+    matched.push({ rule, segments });
+    trace.push({
+      rule,
+      matched: true,
+      reason:
+        params.segments.length > 1
+          ? `matches ${segments.size}/${params.segments.length} segments`
+          : "matches",
+    });
+  }
+
+  for (const action of ["deny", "ask"] as const) {
+    const hit = matched.find((entry) => entry.rule.action === action);
+    if (hit) {
+      return { decision: action, rules: [hit.rule], trace };
+    }
+  }
+  const analyzed = params.segments;
+  if (!analyzed) {
+    const hit = unchecked.find((rule) => rule.action === "deny") ?? unchecked[0];
+    return hit ? { decision: "ask", rules: [hit], trace } : { decision: null, rules: [], trace };
+  }
+  const allows = matched.filter((entry) => entry.rule.action === "allow");
+  if (allows.length > 0 && analyzed.length > 0) {
+    const used: ExecPolicyRule[] = [];
+    const covered = analyzed.every((_segment, index) => {
+      const entry = allows.find((candidate) => candidate.segments.has(index));
+      if (entry && !used.includes(entry.rule)) {
+        used.push(entry.rule);
+      }
+      return Boolean(entry);
+    });
+    if (covered) {
+      return { decision: "allow", rules: used, trace };
+    }
+  }
+  return { decision: null, rules: [], trace };
+}
+
+function isWidenableSubcommand(executable: string, subcommand: string | undefined): boolean {
+  const name = path
+    .basename(executable)
+    .toLowerCase()
+    .replace(/\.(exe|cmd)$/, "");
+  return Boolean(subcommand && SIMILAR_WIDENABLE_SUBCOMMANDS[name]?.has(subcommand));
+}
+
+/**
+ * Build the scoped grant behind "approve similar": same working tree, host
+ * and agent, for a limited time. Read-only subcommands of known tools
+ * (`git status`) allow any further args; everything else keeps its exact argv,
+ * and segments that cannot be pinned down get no rule.
+ */
+export function buildSimilarExecPolicyRules(params: {
+  command: string;
+  segments: ExecCommandSegment[];
+  cwd?: string;
+  host: ExecPolicyHost;
+  agentId?: string;
+  minutes?: number;
+  now?: number;
+}): ExecPolicyRule[] {
+  const now = params.now ?? Date.now();
+  const minutes = params.minutes ?? DEFAULT_SIMILAR_GRANT_MINUTES;
+  const seen = new Set<string>();
+  const rules: ExecPolicyRule[] = [];
+  for (const segment of params.segments) {
+    const executable = segment.resolution?.resolvedPath;
+    if (!executable) {
+      continue;
+    }
+    const args = segment.argv.slice(1);
+    let argv: string[];
+    if (isWidenableSubcommand(executable, args[0])) {
+      argv = [executable, args[0], "**"];
+    } else {
+      // Exact match only; args with glob characters cannot be expressed literally.
+      if (args.some((arg) => /[*?]/.test(arg))) {
+        continue;
+      }
+      argv = [executable, ...args];
+    }
+    const key = argv.join("\u0000");
+    if (seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+    rules.push({
+      id: crypto.randomUUID(),
+      action: "allow",
+      description: `similar to: ${params.command}`,
+      argv,
+      ...(params.cwd ? { cwd: `${normalizePathForMatch(params.cwd)}/**` } : {}),
+      hosts: [params.host],
+      ...(params.agentId ? { agents: [params.agentId] } : {}),
+      expiresAt: now + minutes * 60_000,
+      createdAt: now,
+      source: "approve-similar",
+    });
+  }
+  return rules;
+}
+
+/** Short human-readable rule summary for CLI output and approval prompts. */
+export function describeExecPolicyRule(rule: ExecPolicyRule, now = Date.now()): string {
+  const parts: string[] = [rule.action];
+  if (rule.argv?.length) {
+    parts.push(`argv "${describeArgv(rule.argv)}"`);
+  }
+  if (rule.command) {
+    parts.push(`command "${rule.command}"`);
+  }
+  if (rule.cwd) {
+    parts.push(`cwd ${rule.cwd}`);
+  }
+  if (rule.env && Object.keys(rule.env).length > 0) {
+    parts.push(
+      `env ${Object.entries(rule.env)
+        .map(([key, value]) => `${key}=${value}`)
+        .join(",")}`,
+    );
+  }
+  if (rule.hosts?.length) {
+    parts.push(`host ${rule.hosts.join(",")}`);
+  }
+  if (rule.agents?.length) {
+    parts.push(`agent ${rule.agents.join(",")}`);
+  }
+  if (typeof rule.expiresAt === "number") {
+    const minutes = Math.max(0, Math.round((rule.expiresAt - now) / 60_000));
+    parts.push(rule.expiresAt > now ? `expires in ${minutes}m` : "expired");
+  }
+  if (typeof rule.maxUses === "number") {
+    parts.push(`${Math.max(0, rule.maxUses - (rule.uses ?? 0))}/${rule.maxUses} uses left`);
+  }
+  return parts.join(" · ");
+}
@@ -2,10 +2,16 @@ import crypto from "node:crypto";
 import fs from "node:fs";
 import path from "node:path";
 import { DEFAULT_AGENT_ID } from "../routing/session-key.js";
+import {
+  type ExecPolicyRule,
+  normalizeExecPolicyRules,
+  pruneExecPolicyRules,
+} from "./exec-approvals-rules.js";
 import { expandHomePrefix } from "./home-dir.js";
 import { requestJsonlSocket } from "./jsonl-socket.js";
 export * from "./exec-approvals-analysis.js";
 export * from "./exec-approvals-allowlist.js";
+export * from "./exec-approvals-rules.js";
 
 export type ExecHost = "sandbox" | "gateway" | "node";
 export type ExecSecurity = "deny" | "allowlist" | "full";
@@ -61,6 +67,8 @@ export type ExecApprovalsFile = {
   };
   defaults?: ExecApprovalsDefaults;
   agents?: Record<string, ExecApprovalsAgent>;
+  /** Conditional rules and time-boxed grants, evaluated before the allowlist. */
+  rules?: ExecPolicyRule[];
 };
 
 export type ExecApprovalsSnapshot = {
@@ -78,6 +86,8 @@ export type ExecApprovalsResolved = {
   defaults: Required<ExecApprovalsDefaults>;
   agent: Required<ExecApprovalsDefaults>;
   allowlist: ExecAllowlistEntry[];
+  /** Live rules (expired and used-up grants are left out). */
+  rules: ExecPolicyRule[];
   file: ExecApprovalsFile;
 };
 
@@ -224,6 +234,7 @@ export function normalizeExecApprovals(file: ExecApprovalsFile): ExecApprovalsFi
       autoAllowSkills: file.defaults?.autoAllowSkills,
     },
     agents,
+    rules: normalizeExecPolicyRules(file.rules),
   };
   return normalized;
 }
@@ -415,6 +426,7 @@ export function resolveExecApprovalsFromFile(params: {
     defaults: resolvedDefaults,
     agent: resolvedAgent,
     allowlist,
+    rules: pruneExecPolicyRules(file.rules ?? []),
     file,
   };
 }
@@ -482,6 +494,42 @@ export function addAllowlistEntry(
   saveExecApprovals(approvals);
 }
 
+export function addExecPolicyRules(approvals: ExecApprovalsFile, rules: ExecPolicyRule[]) {
+  if (rules.length === 0) {
+    return;
+  }
+  approvals.rules = [...pruneExecPolicyRules(approvals.rules ?? []), ...rules];
+  saveExecApprovals(approvals);
+}
+
+export function removeExecPolicyRule(approvals: ExecApprovalsFile, id: string): boolean {
+  const rules = approvals.rules ?? [];
+  const next = rules.filter((rule) => rule.id !== id);
+  if (next.length === rules.length) {
+    return false;
+  }
+  approvals.rules = next.length > 0 ? next : undefined;
+  saveExecApprovals(approvals);
+  return true;
+}
+
+/** Count a use of the given rules; grants that run out are dropped. */
+export function recordExecPolicyRuleUse(approvals: ExecApprovalsFile, rules: ExecPolicyRule[]) {
+  const ids = new Set(rules.map((rule) => rule.id).filter(Boolean));
+  if (ids.size === 0) {
+    return;
+  }
+  const now = Date.now();
+  const next = pruneExecPolicyRules(
+    (approvals.rules ?? []).map((rule) =>
+      rule.id && ids.has(rule.id) ? { ...rule, uses: (rule.uses ?? 0) + 1, lastUsedAt: now } : rule,
+    ),
+    now,
+  );
+  approvals.rules = next.length > 0 ? next : undefined;
+  saveExecApprovals(approvals);
+}
+
 export function minSecurity(a: ExecSecurity, b: ExecSecurity): ExecSecurity {
   const order: Record<ExecSecurity, number> = { deny: 0, allowlist: 1, full: 2 };
   return order[a] <= order[b] ? a : b;
@@ -492,7 +540,8 @@ export function maxAsk(a: ExecAsk, b: ExecAsk): ExecAsk {
   return order[a] >= order[b] ? a : b;
 }
 
-export type ExecApprovalDecision = "allow-once" | "allow-always" | "deny";
+/** `allow-similar` runs the command and adds a time-boxed grant for similar ones. */
+export type ExecApprovalDecision = "allow-once" | "allow-always" | "allow-similar" | "deny";
 
 export async function requestExecApprovalViaSocket(params: {
   socketPath: string;
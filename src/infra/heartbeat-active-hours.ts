@@ -4,9 +4,12 @@ import type { AgentDefaultsConfig } from "../config/types.agent-defaults.js";
 
 type HeartbeatConfig = AgentDefaultsConfig["heartbeat"];
 
+/** Local-time window in the heartbeat activeHours format. */
+export type HoursWindow = NonNullable<NonNullable<HeartbeatConfig>["activeHours"]>;
+
 const ACTIVE_HOURS_TIME_PATTERN = /^(?:([01]\d|2[0-3]):([0-5]\d)|24:00)$/;
 
-function resolveActiveHoursTimezone(cfg: OpenClawConfig, raw?: string): string {
+export function resolveActiveHoursTimezone(cfg: OpenClawConfig, raw?: string): string {
   const trimmed = raw?.trim();
   if (!trimmed || trimmed === "user") {
     return resolveUserTimezone(cfg.agents?.defaults?.userTimezone);
@@ -76,9 +79,20 @@ export function isWithinActiveHours(
   if (!active) {
     return true;
   }
+  return isWithinHoursWindow(cfg, active, nowMs);
+}
 
-  const startMin = parseActiveHoursTime({ allow24: false }, active.start);
-  const endMin = parseActiveHoursTime({ allow24: true }, active.end);
+/**
+ * Whether `nowMs` falls inside a local-time window. Windows may wrap past
+ * midnight; unparseable windows count as always inside.
+ */
+export function isWithinHoursWindow(
+  cfg: OpenClawConfig,
+  window: HoursWindow,
+  nowMs?: number,
+): boolean {
+  const startMin = parseActiveHoursTime({ allow24: false }, window.start);
+  const endMin = parseActiveHoursTime({ allow24: true }, window.end);
   if (startMin === null || endMin === null) {
     return true;
   }
@@ -86,7 +100,7 @@ export function isWithinActiveHours(
     return false;
   }
 
-  const timeZone = resolveActiveHoursTimezone(cfg, active.timezone);
+  const timeZone = resolveActiveHoursTimezone(cfg, window.timezone);
   const currentMin = resolveMinutesInTimeZone(nowMs ?? Date.now(), timeZone);
   if (currentMin === null) {
     return true;
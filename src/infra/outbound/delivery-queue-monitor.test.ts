@@ -0,0 +1,74 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { OpenClawConfig } from "../../config/config.js";
+import { startDeliveryQueueMonitor } from "./delivery-queue-monitor.js";
+import { discardDelivery, enqueueDelivery, moveToFailed } from "./delivery-queue.js";
+
+describe("startDeliveryQueueMonitor", () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "openclaw-dq-monitor-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  const addFailed = async (count: number) => {
+    const ids: string[] = [];
+    for (let i = 0; i < count; i += 1) {
+      const id = await enqueueDelivery(
+        { channel: "telegram", to: String(i), payloads: [{ text: "x" }] },
+        tmpDir,
+      );
+      await moveToFailed(id, tmpDir);
+      ids.push(id);
+    }
+    return ids;
+  };
+
+  it("alerts once per threshold crossing and re-arms below it", async () => {
+    const cfg = {
+      messages: {
+        deliveryQueue: { failedAlertThreshold: 2, alertTarget: { channel: "slack", to: "#ops" } },
+      },
+    } as OpenClawConfig;
+    const deliver = vi.fn().mockResolvedValue([]);
+    const monitor = startDeliveryQueueMonitor({
+      stateDir: tmpDir,
+      intervalMs: 60_000,
+      loadConfig: () => cfg,
+      deliver,
+    });
+    try {
+      const ids = await addFailed(1);
+      expect(await monitor.checkNow()).toEqual({ failed: 1, alerted: false });
+
+      ids.push(...(await addFailed(1)));
+      expect(await monitor.checkNow()).toEqual({ failed: 2, alerted: true });
+      expect(deliver).toHaveBeenCalledWith(
+        expect.objectContaining({
+          channel: "slack",
+          to: "#ops",
+          skipQueue: true,
+          payloads: [{ text: expect.stringContaining("2 failed deliveries (threshold 2)") }],
+        }),
+      );
+
+      await addFailed(1);
+      expect(await monitor.checkNow()).toEqual({ failed: 3, alerted: false });
+
+      await discardDelivery(ids[0], tmpDir);
+      await discardDelivery(ids[1], tmpDir);
+      expect(await monitor.checkNow()).toEqual({ failed: 1, alerted: false });
+      await addFailed(1);
+      expect(await monitor.checkNow()).toEqual({ failed: 2, alerted: true });
+      expect(deliver).toHaveBeenCalledTimes(2);
+    } finally {
+      monitor.stop();
+    }
+  });
+});
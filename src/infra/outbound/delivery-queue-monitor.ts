@@ -0,0 +1,118 @@
+import { loadConfig, type OpenClawConfig } from "../../config/config.js";
+import { createSubsystemLogger } from "../../logging/subsystem.js";
+import {
+  isDeliverableMessageChannel,
+  normalizeMessageChannel,
+} from "../../utils/message-channel.js";
+import { deliverOutboundPayloads } from "./deliver.js";
+import { loadFailedDeliveries, summarizeDeliveryQueue } from "./delivery-queue.js";
+
+const log = createSubsystemLogger("gateway/delivery-queue");
+
+export const DEFAULT_FAILED_ALERT_THRESHOLD = 10;
+const DEFAULT_CHECK_INTERVAL_MS = 5 * 60_000;
+
+export function resolveFailedAlertThreshold(cfg: OpenClawConfig): number {
+  return cfg.messages?.deliveryQueue?.failedAlertThreshold ?? DEFAULT_FAILED_ALERT_THRESHOLD;
+}
+
+export function formatFailedQueueAlert(params: {
+  failed: number;
+  threshold: number;
+  channels: Array<{ channel: string; failed: number }>;
+}): string {
+  const perChannel = params.channels
+    .filter((entry) => entry.failed > 0)
+    .map((entry) => `${entry.channel}: ${entry.failed}`)
+    .join(", ");
+  return [
+    `⚠️ Outbound delivery queue: ${params.failed} failed deliveries (threshold ${params.threshold}).`,
+    ...(perChannel ? [`By channel: ${perChannel}`] : []),
+    'Run "openclaw deliveries list --failed" to inspect, retry or discard them.',
+  ].join("\n");
+}
+
+export type DeliveryQueueMonitor = {
+  /** Re-count failed/ and alert when it crossed the threshold since the last check. */
+  checkNow: () => Promise<{ failed: number; alerted: boolean }>;
+  stop: () => void;
+};
+
+/**
+ * Watch the failed/ dead-letter folder and alert once each time it grows past
+ * `messages.deliveryQueue.failedAlertThreshold`; the alert re-arms after the
+ * count drops back below the threshold.
+ */
+export function startDeliveryQueueMonitor(
+  opts: {
+    stateDir?: string;
+    intervalMs?: number;
+    loadConfig?: () => OpenClawConfig;
+    deliver?: typeof deliverOutboundPayloads;
+  } = {},
+): DeliveryQueueMonitor {
+  const readConfig = opts.loadConfig ?? loadConfig;
+  let armed = true;
+  let stopped = false;
+
+  const sendAlert = async (cfg: OpenClawConfig, text: string): Promise<boolean> => {
+    const target = cfg.messages?.deliveryQueue?.alertTarget;
+    if (!target) {
+      return false;
+    }
+    const channel = normalizeMessageChannel(target.channel) ?? target.channel;
+    if (!isDeliverableMessageChannel(channel)) {
+      log.warn(`alert target channel is not deliverable: ${target.channel}`);
+      return false;
+    }
+    try {
+      // skipQueue: an alert about the queue must not end up in it.
+      await (opts.deliver ?? deliverOutboundPayloads)({
+        cfg,
+        channel,
+        to: target.to,
+        accountId: target.accountId,
+        threadId: target.threadId,
+        payloads: [{ text }],
+        skipQueue: true,
+      });
+      return true;
+    } catch (err) {
+      log.error(`failed to deliver alert to ${channel}:${target.to}: ${String(err)}`);
+      return false;
+    }
+  };
+
+  const checkNow = async () => {
+    const cfg = readConfig();
+    const threshold = resolveFailedAlertThreshold(cfg);
+    const failedEntries = await loadFailedDeliveries(opts.stateDir);
+    const failed = failedEntries.length;
+    if (stopped || threshold <= 0 || failed < threshold) {
+      armed = true;
+      return { failed, alerted: false };
+    }
+    if (!armed) {
+      return { failed, alerted: false };
+    }
+    armed = false;
+    const { channels } = summarizeDeliveryQueue({ pending: [], failed: failedEntries });
+    const text = formatFailedQueueAlert({ failed, threshold, channels });
+    log.warn(`failed delivery queue reached ${failed} entries (threshold ${threshold})`);
+    const alerted = await sendAlert(cfg, text);
+    return { failed, alerted };
+  };
+
+  const timer = setInterval(() => {
+    void checkNow().catch((err) => log.error(`failed queue check failed: ${String(err)}`));
+  }, opts.intervalMs ?? DEFAULT_CHECK_INTERVAL_MS);
+  timer.unref?.();
+
+  return {
+    checkNow,
+    stop: () => {
+      stopped = true;
+      clearInterval(timer);
+    },
+  };
+}
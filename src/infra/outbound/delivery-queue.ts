@@ -10,6 +10,18 @@ const QUEUE_DIRNAME = "delivery-queue";
 const FAILED_DIRNAME = "failed";
 const MAX_RETRIES = 5;
 
+/** An entry is renamed to `<id>.sending` while a retry or recovery delivers it. */
+const CLAIM_SUFFIX = ".sending";
+
+// Claims held by this process; startup recovery must not hand these back.
+const activeClaims = new Set<string>();
+
+/**
+ * Pending entries younger than this may still be mid-send (the original attempt or startup
+ * recovery), so a manual retry could deliver them twice.
+ */
+export const DELIVERY_IN_FLIGHT_MS = 5 * 60_000;
+
 /** Backoff delays in milliseconds indexed by retry count (1-based). */
 const BACKOFF_MS: readonly number[] = [
   5_000, // retry 1: 5s
@@ -56,6 +68,41 @@ function resolveFailedDir(stateDir?: string): string {
   return path.join(resolveQueueDir(stateDir), FAILED_DIRNAME);
 }
 
+export type QueuedDeliveryState = "pending" | "failed";
+
+// Entry ids are UUIDs; anything else could point outside the queue directory.
+const DELIVERY_ID_RE = /^[A-Za-z0-9-]{1,64}$/;
+
+export function isValidDeliveryId(id: string): boolean {
+  return DELIVERY_ID_RE.test(id);
+}
+
+function resolveEntryPath(id: string, state: QueuedDeliveryState, stateDir?: string): string {
+  if (!isValidDeliveryId(id)) {
+    throw new Error(`invalid delivery id: ${id}`);
+  }
+  const dir = state === "failed" ? resolveFailedDir(stateDir) : resolveQueueDir(stateDir);
+  return path.join(dir, `${id}.json`);
+}
+
+function isNotFoundError(err: unknown): boolean {
+  return (
+    !!err &&
+    typeof err === "object" &&
+    "code" in err &&
+    String((err as { code?: unknown }).code) === "ENOENT"
+  );
+}
+
+async function writeEntryAtomic(filePath: string, entry: QueuedDelivery): Promise<void> {
+  const tmp = `${filePath}.${process.pid}.tmp`;
+  await fs.promises.writeFile(tmp, JSON.stringify(entry, null, 2), {
+    encoding: "utf-8",
+    mode: 0o600,
+  });
+  await fs.promises.rename(tmp, filePath);
+}
+
 /** Ensure the queue directory (and failed/ subdirectory) exist. */
 export async function ensureQueueDir(stateDir?: string): Promise<string> {
   const queueDir = resolveQueueDir(stateDir);
@@ -131,26 +178,15 @@ export async function failDelivery(id: string, error: string, stateDir?: string)
   const entry: QueuedDelivery = JSON.parse(raw);
   entry.retryCount += 1;
   entry.lastError = error;
-  const tmp = `${filePath}.${process.pid}.tmp`;
-  await fs.promises.writeFile(tmp, JSON.stringify(entry, null, 2), {
-    encoding: "utf-8",
-    mode: 0o600,
-  });
-  await fs.promises.rename(tmp, filePath);
+  await writeEntryAtomic(filePath, entry);
 }
 
-/** Load all pending delivery entries from the queue directory. */
-export async function loadPendingDeliveries(stateDir?: string): Promise<QueuedDelivery[]> {
-  const queueDir = resolveQueueDir(stateDir);
+async function readQueueEntries(dir: string): Promise<QueuedDelivery[]> {
   let files: string[];
   try {
-    files = await fs.promises.readdir(queueDir);
+    files = await fs.promises.readdir(dir);
   } catch (err) {
-    const code =
-      err && typeof err === "object" && "code" in err
-        ? String((err as { code?: unknown }).code)
-        : null;
-    if (code === "ENOENT") {
+    if (isNotFoundError(err)) {
       return [];
     }
     throw err;
@@ -160,7 +196,7 @@ export async function loadPendingDeliveries(stateDir?: string): Promise<QueuedDe
     if (!file.endsWith(".json")) {
       continue;
     }
-    const filePath = path.join(queueDir, file);
+    const filePath = path.join(dir, file);
     try {
       const stat = await fs.promises.stat(filePath);
       if (!stat.isFile()) {
@@ -175,6 +211,133 @@ export async function loadPendingDeliveries(stateDir?: string): Promise<QueuedDe
   return entries;
 }
 
+/** Load all pending delivery entries from the queue directory. */
+export async function loadPendingDeliveries(stateDir?: string): Promise<QueuedDelivery[]> {
+  return await readQueueEntries(resolveQueueDir(stateDir));
+}
+
+/** Load entries that exhausted their retries (the failed/ dead-letter folder). */
+export async function loadFailedDeliveries(stateDir?: string): Promise<QueuedDelivery[]> {
+  return await readQueueEntries(resolveFailedDir(stateDir));
+}
+
+/** Find an entry by id in the pending queue or failed/. */
+export async function findQueuedDelivery(
+  id: string,
+  stateDir?: string,
+): Promise<{ entry: QueuedDelivery; state: QueuedDeliveryState } | null> {
+  for (const state of ["pending", "failed"] as const) {
+    try {
+      const raw = await fs.promises.readFile(resolveEntryPath(id, state, stateDir), "utf-8");
+      return { entry: JSON.parse(raw) as QueuedDelivery, state };
+    } catch (err) {
+      if (!isNotFoundError(err)) {
+        throw err;
+      }
+    }
+  }
+  return null;
+}
+
+/** Delete an entry from the pending queue or failed/. Returns where it was, or null. */
+export async function discardDelivery(
+  id: string,
+  stateDir?: string,
+): Promise<QueuedDeliveryState | null> {
+  for (const state of ["pending", "failed"] as const) {
+    try {
+      await fs.promises.unlink(resolveEntryPath(id, state, stateDir));
+      return state;
+    } catch (err) {
+      if (!isNotFoundError(err)) {
+        throw err;
+      }
+    }
+  }
+  return null;
+}
+
+function resolveClaimPath(id: string, stateDir?: string): string {
+  return path.join(resolveQueueDir(stateDir), `${id}${CLAIM_SUFFIX}`);
+}
+
+async function isDeliveryClaimed(id: string, stateDir?: string): Promise<boolean> {
+  try {
+    await fs.promises.access(resolveClaimPath(id, stateDir));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Take an entry out of the queue for sending by renaming it to its claim path.
+ * Returns null when the entry is gone, e.g. because another caller claimed it first.
+ */
+async function claimQueuedDelivery(
+  id: string,
+  state: QueuedDeliveryState,
+  stateDir?: string,
+): Promise<{ claimPath: string; entry: QueuedDelivery } | null> {
+  const claimPath = resolveClaimPath(id, stateDir);
+  try {
+    await fs.promises.rename(resolveEntryPath(id, state, stateDir), claimPath);
+  } catch (err) {
+    if (isNotFoundError(err)) {
+      return null;
+    }
+    throw err;
+  }
+  activeClaims.add(claimPath);
+  try {
+    const raw = await fs.promises.readFile(claimPath, "utf-8");
+    return { claimPath, entry: JSON.parse(raw) as QueuedDelivery };
+  } catch (err) {
+    activeClaims.delete(claimPath);
+    throw err;
+  }
+}
+
+/** Drop a claim after sending; a failed attempt goes back to the pending queue as `update`. */
+async function releaseClaim(claimPath: string, update?: QueuedDelivery): Promise<void> {
+  try {
+    if (update) {
+      await writeEntryAtomic(claimPath.slice(0, -CLAIM_SUFFIX.length) + ".json", update);
+    }
+    await fs.promises.unlink(claimPath).catch(() => undefined);
+  } finally {
+    activeClaims.delete(claimPath);
+  }
+}
+
+/**
+ * Put entries left claimed by an interrupted send back in the pending queue.
+ * The send may already have gone out, so this trades a possible duplicate for
+ * never silently dropping a message.
+ */
+async function restoreStaleClaims(stateDir?: string): Promise<number> {
+  const queueDir = resolveQueueDir(stateDir);
+  let files: string[];
+  try {
+    files = await fs.promises.readdir(queueDir);
+  } catch (err) {
+    if (isNotFoundError(err)) {
+      return 0;
+    }
+    throw err;
+  }
+  let restored = 0;
+  for (const file of files) {
+    const claimPath = path.join(queueDir, file);
+    if (!file.endsWith(CLAIM_SUFFIX) || activeClaims.has(claimPath)) {
+      continue;
+    }
+    await fs.promises.rename(claimPath, claimPath.slice(0, -CLAIM_SUFFIX.length) + ".json");
+    restored += 1;
+  }
+  return restored;
+}
+
 /** Move a queue entry to the failed/ subdirectory. */
 export async function moveToFailed(id: string, stateDir?: string): Promise<void> {
   const queueDir = resolveQueueDir(stateDir);
@@ -207,6 +370,125 @@ export interface RecoveryLogger {
   error(msg: string): void;
 }
 
+async function deliverQueuedEntry(
+  entry: QueuedDelivery,
+  cfg: OpenClawConfig,
+  deliver: DeliverFn,
+): Promise<void> {
+  await deliver({
+    cfg,
+    channel: entry.channel,
+    to: entry.to,
+    accountId: entry.accountId,
+    payloads: entry.payloads,
+    threadId: entry.threadId,
+    replyToId: entry.replyToId,
+    bestEffort: entry.bestEffort,
+    gifPlayback: entry.gifPlayback,
+    silent: entry.silent,
+    mirror: entry.mirror,
+    skipQueue: true, // Prevent re-enqueueing during recovery
+  });
+}
+
+export type RetryQueuedDeliveryResult =
+  | { ok: true; entry: QueuedDelivery }
+  | { ok: false; error: string; notFound?: boolean; inFlight?: boolean };
+
+/**
+ * Send one queued entry now instead of waiting for the next restart. Pending
+ * entries are only retried once they are older than DELIVERY_IN_FLIGHT_MS, and
+ * the entry is claimed first so a concurrent retry or startup recovery reports
+ * it as in flight instead of sending it again. On success the entry is removed;
+ * otherwise it goes back to the pending queue with the error recorded (failed
+ * entries get a fresh retry budget).
+ */
+export async function retryQueuedDelivery(params: {
+  id: string;
+  cfg: OpenClawConfig;
+  deliver: DeliverFn;
+  stateDir?: string;
+  now?: number;
+}): Promise<RetryQueuedDeliveryResult> {
+  const inProgress = {
+    ok: false as const,
+    error: `delivery ${params.id} is already in progress`,
+    inFlight: true,
+  };
+  const found = await findQueuedDelivery(params.id, params.stateDir);
+  if (!found) {
+    if (await isDeliveryClaimed(params.id, params.stateDir)) {
+      return inProgress;
+    }
+    return { ok: false, error: `delivery not found: ${params.id}`, notFound: true };
+  }
+  if (
+    found.state === "pending" &&
+    (params.now ?? Date.now()) - found.entry.enqueuedAt < DELIVERY_IN_FLIGHT_MS
+  ) {
+    return {
+      ok: false,
+      error: `delivery ${params.id} may still be in flight; retry it after ${DELIVERY_IN_FLIGHT_MS / 60_000} minutes`,
+      inFlight: true,
+    };
+  }
+  const claim = await claimQueuedDelivery(params.id, found.state, params.stateDir);
+  if (!claim) {
+    return inProgress;
+  }
+  const { claimPath, entry } = claim;
+  try {
+    await deliverQueuedEntry(entry, params.cfg, params.deliver);
+  } catch (err) {
+    const error = err instanceof Error ? err.message : String(err);
+    const retryCount = found.state === "failed" ? 0 : entry.retryCount;
+    await releaseClaim(claimPath, { ...entry, retryCount: retryCount + 1, lastError: error });
+    return { ok: false, error };
+  }
+  await releaseClaim(claimPath);
+  return { ok: true, entry };
+}
+
+export type DeliveryQueueChannelCounts = { channel: string; pending: number; failed: number };
+
+export type DeliveryQueueSummary = {
+  pending: number;
+  failed: number;
+  oldestPendingAt?: number;
+  /** Per-channel counts, busiest first. */
+  channels: DeliveryQueueChannelCounts[];
+};
+
+export function summarizeDeliveryQueue(params: {
+  pending: QueuedDelivery[];
+  failed: QueuedDelivery[];
+}): DeliveryQueueSummary {
+  const byChannel = new Map<string, DeliveryQueueChannelCounts>();
+  const bump = (channel: string, key: "pending" | "failed") => {
+    const counts = byChannel.get(channel) ?? { channel, pending: 0, failed: 0 };
+    counts[key] += 1;
+    byChannel.set(channel, counts);
+  };
+  let oldestPendingAt: number | undefined;
+  for (const entry of params.pending) {
+    bump(entry.channel, "pending");
+    if (oldestPendingAt === undefined || entry.enqueuedAt < oldestPendingAt) {
+      oldestPendingAt = entry.enqueuedAt;
+    }
+  }
+  for (const entry of params.failed) {
+    bump(entry.channel, "failed");
+  }
+  return {
+    pending: params.pending.length,
+    failed: params.failed.length,
+    ...(oldestPendingAt !== undefined ? { oldestPendingAt } : {}),
+    channels: [...byChannel.values()].toSorted(
+      (a, b) => b.pending + b.failed - (a.pending + a.failed) || a.channel.localeCompare(b.channel),
+    ),
+  };
+}
+
 /**
  * On gateway startup, scan the delivery queue and retry any pending entries.
  * Uses exponential backoff and moves entries that exceed MAX_RETRIES to failed/.
@@ -221,6 +503,10 @@ export async function recoverPendingDeliveries(opts: {
   /** Maximum wall-clock time for recovery in ms. Remaining entries are deferred to next restart. Default: 60 000. */
   maxRecoveryMs?: number;
 }): Promise<{ recovered: number; failed: number; skipped: number }> {
+  const restored = await restoreStaleClaims(opts.stateDir);
+  if (restored > 0) {
+    opts.log.warn(`Restored ${restored} delivery entries left mid-send by a previous run`);
+  }
   const pending = await loadPendingDeliveries(opts.stateDir);
   if (pending.length === 0) {
     return { recovered: 0, failed: 0, skipped: 0 };
@@ -271,31 +557,24 @@ export async function recoverPendingDeliveries(opts: {
       await delayFn(backoff);
     }
 
+    // A manual retry may have taken (or finished) this entry since the scan.
+    const claim = await claimQueuedDelivery(entry.id, "pending", opts.stateDir);
+    if (!claim) {
+      opts.log.info(`Delivery ${entry.id} is already being retried — skipping`);
+      continue;
+    }
     try {
-      await opts.deliver({
-        cfg: opts.cfg,
-        channel: entry.channel,
-        to: entry.to,
-        accountId: entry.accountId,
-        payloads: entry.payloads,
-        threadId: entry.threadId,
-        replyToId: entry.replyToId,
-        bestEffort: entry.bestEffort,
-        gifPlayback: entry.gifPlayback,
-        silent: entry.silent,
-        mirror: entry.mirror,
-        skipQueue: true, // Prevent re-enqueueing during recovery
-      });
-      await ackDelivery(entry.id, opts.stateDir);
+      await deliverQueuedEntry(claim.entry, opts.cfg, opts.deliver);
+      await releaseClaim(claim.claimPath);
       recovered += 1;
       opts.log.info(`Recovered delivery ${entry.id} to ${entry.channel}:${entry.to}`);
     } catch (err) {
       try {
-        await failDelivery(
-          entry.id,
-          err instanceof Error ? err.message : String(err),
-          opts.stateDir,
-        );
+        await releaseClaim(claim.claimPath, {
+          ...claim.entry,
+          retryCount: claim.entry.retryCount + 1,
+          lastError: err instanceof Error ? err.message : String(err),
+        });
       } catch {
         // Best-effort update.
       }
@@ -3,6 +3,7 @@ import { resolveSessionAgentId } from "../../agents/agent-scope.js";
 import {
   readNumberParam,
   readStringArrayParam,
+  readStringOrNumberParam,
   readStringParam,
 } from "../../agents/tools/common.js";
 import { parseReplyDirectives } from "../../auto-reply/reply/reply-directives.js";
@@ -39,7 +40,12 @@ import {
   resolveTelegramAutoThreadId,
 } from "./message-action-params.js";
 import { actionHasTarget, actionRequiresTarget } from "./message-action-spec.js";
-import type { MessagePollResult, MessageSendResult } from "./message.js";
+import {
+  cancelScheduledOutboundMessage,
+  listScheduledOutboundMessages,
+  type MessagePollResult,
+  type MessageSendResult,
+} from "./message.js";
 import {
   applyCrossContextDecoration,
   buildCrossContextDecoration,
@@ -49,6 +55,11 @@ import {
 } from "./outbound-policy.js";
 import { executePollAction, executeSendAction } from "./outbound-send-service.js";
 import { ensureOutboundSessionEntry, resolveOutboundSessionRoute } from "./outbound-session.js";
+import {
+  isRecipientInQuietHours,
+  resolveScheduledSendAt,
+  type ScheduledMessage,
+} from "./scheduled-messages.js";
 import { resolveChannelTarget, type ResolvedMessagingTarget } from "./target-resolver.js";
 import { extractToolPayload } from "./tool-payload.js";
 
@@ -147,7 +158,7 @@ export type MessageActionRunResult =
       kind: "action";
       channel: ChannelId;
       action: Exclude<ChannelMessageActionName, "send" | "poll">;
-      handledBy: "plugin" | "dry-run";
+      handledBy: "plugin" | "core" | "dry-run";
       payload: unknown;
       toolResult?: AgentToolResult<unknown>;
       dryRun: boolean;
@@ -375,6 +386,77 @@ async function handleBroadcastAction(
   };
 }
 
+function summarizeScheduledMessage(cfg: OpenClawConfig, entry: ScheduledMessage) {
+  const text = entry.payloads.find((payload) => payload.text?.trim())?.text?.trim();
+  const mediaCount = entry.payloads.reduce(
+    (sum, payload) => sum + (payload.mediaUrls?.length ?? (payload.mediaUrl ? 1 : 0)),
+    0,
+  );
+  return {
+    id: entry.id,
+    sendAt: new Date(entry.sendAt).toISOString(),
+    channel: entry.channel,
+    to: entry.to,
+    ...(entry.accountId ? { accountId: entry.accountId } : {}),
+    ...(text ? { text: text.length > 200 ? `${text.slice(0, 199)}…` : text } : {}),
+    ...(mediaCount > 0 ? { mediaCount } : {}),
+    ...(entry.agentId ? { agentId: entry.agentId } : {}),
+    // Due but outside the recipient's allowed hours: sent when quiet hours end.
+    ...(entry.heldForQuietHours || isRecipientInQuietHours(cfg, entry, entry.sendAt)
+      ? { quietHours: true }
+      : {}),
+  };
+}
+
+async function handleScheduledAction(
+  input: RunMessageActionParams,
+  params: Record<string, unknown>,
+  agentId: string | undefined,
+): Promise<MessageActionRunResult> {
+  throwIfAborted(input.abortSignal);
+  const channelFilter = normalizeMessageChannel(readStringParam(params, "channel"));
+  const dryRun = Boolean(input.dryRun ?? readBooleanParam(params, "dryRun"));
+  const gateway = resolveGateway(input);
+  if (input.action === "cancel-scheduled") {
+    const id = readStringParam(params, "scheduledId", { required: true });
+    // Agents can only cancel what they scheduled; the CLI (no agent) can cancel anything.
+    const cancelled = dryRun
+      ? ((await listScheduledOutboundMessages({ cfg: input.cfg, agentId, gateway })).find(
+          (entry) => entry.id === id.trim(),
+        ) ?? null)
+      : await cancelScheduledOutboundMessage({ cfg: input.cfg, id, agentId, gateway });
+    if (!cancelled) {
+      throw new Error(`Scheduled message not found: ${id}`);
+    }
+    const summary = summarizeScheduledMessage(input.cfg, cancelled);
+    return {
+      kind: "action",
+      channel: cancelled.channel,
+      action: "cancel-scheduled",
+      handledBy: dryRun ? "dry-run" : "core",
+      payload: dryRun
+        ? { ok: true, dryRun: true, scheduled: summary }
+        : { ok: true, cancelled: summary },
+      dryRun,
+    };
+  }
+  // Agents only see what they scheduled; the CLI (no agent) sees everything.
+  const entries = await listScheduledOutboundMessages({
+    cfg: input.cfg,
+    agentId,
+    channel: channelFilter,
+    gateway,
+  });
+  return {
+    kind: "action",
+    channel: channelFilter ?? "all",
+    action: "list-scheduled",
+    handledBy: "core",
+    payload: { scheduled: entries.map((entry) => summarizeScheduledMessage(input.cfg, entry)) },
+    dryRun,
+  };
+}
+
 async function handleSendAction(ctx: ResolvedActionContext): Promise<MessageActionRunResult> {
   const {
     cfg,
@@ -474,6 +556,15 @@ async function handleSendAction(ctx: ResolvedActionContext): Promise<MessageActi
   const gifPlayback = readBooleanParam(params, "gifPlayback") ?? false;
   const bestEffort = readBooleanParam(params, "bestEffort");
   const silent = readBooleanParam(params, "silent");
+  const sendAt = resolveScheduledSendAt({
+    sendAt: readStringOrNumberParam(params, "sendAt"),
+    delay: readStringOrNumberParam(params, "delay"),
+  });
+  if (sendAt !== null && (hasCard || hasComponents || params.buttons != null)) {
+    throw new Error(
+      "Scheduled messages support text and media only (no buttons, cards or components).",
+    );
+  }
 
   const replyToId = readStringParam(params, "replyTo");
   const resolvedThreadId = resolveAndApplyOutboundThreadId(params, {
@@ -544,6 +635,7 @@ async function handleSendAction(ctx: ResolvedActionContext): Promise<MessageActi
     bestEffort: bestEffort ?? undefined,
     replyToId: replyToId ?? undefined,
     threadId: resolvedThreadId ?? undefined,
+    sendAt: sendAt ?? undefined,
   });
 
   return {
@@ -706,6 +798,9 @@ export async function runMessageAction(
   if (action === "broadcast") {
     return handleBroadcastAction(input, params);
   }
+  if (action === "list-scheduled" || action === "cancel-scheduled") {
+    return handleScheduledAction(input, params, resolvedAgentId);
+  }
 
   const explicitTarget = typeof params.target === "string" ? params.target.trim() : "";
   const hasLegacyTarget =
@@ -4,6 +4,8 @@ const mocks = vi.hoisted(() => ({
   getChannelPlugin: vi.fn(),
   resolveOutboundTarget: vi.fn(),
   deliverOutboundPayloads: vi.fn(),
+  callGatewayLeastPrivilege: vi.fn(),
+  scheduleMessage: vi.fn(),
 }));
 
 vi.mock("../../channels/plugins/index.js", () => ({
@@ -19,6 +21,17 @@ vi.mock("./deliver.js", () => ({
   deliverOutboundPayloads: mocks.deliverOutboundPayloads,
 }));
 
+vi.mock("../../gateway/call.js", () => ({
+  callGatewayLeastPrivilege: mocks.callGatewayLeastPrivilege,
+  randomIdempotencyKey: () => "idem-1",
+}));
+
+vi.mock("./scheduled-messages.js", async () => {
+  const actual =
+    await vi.importActual<typeof import("./scheduled-messages.js")>("./scheduled-messages.js");
+  return { ...actual, scheduleMessage: mocks.scheduleMessage };
+});
+
 import { sendMessage } from "./message.js";
 
 describe("sendMessage", () => {
@@ -26,6 +39,8 @@ describe("sendMessage", () => {
     mocks.getChannelPlugin.mockReset();
     mocks.resolveOutboundTarget.mockReset();
     mocks.deliverOutboundPayloads.mockReset();
+    mocks.callGatewayLeastPrivilege.mockReset();
+    mocks.scheduleMessage.mockReset();
 
     mocks.getChannelPlugin.mockReturnValue({
       outbound: { deliveryMode: "direct" },
@@ -51,4 +66,58 @@ describe("sendMessage", () => {
       }),
     );
   });
+
+  it("stores scheduled sends locally for direct channels on a local gateway", async () => {
+    const sendAt = Date.now() + 60_000;
+    mocks.scheduleMessage.mockResolvedValue({ id: "sched-1", sendAt });
+
+    const result = await sendMessage({
+      cfg: {},
+      channel: "mattermost",
+      to: "channel:town-square",
+      content: "later",
+      sendAt,
+    });
+
+    expect(mocks.scheduleMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ sendAt, channel: "mattermost", to: "channel:town-square" }),
+    );
+    expect(mocks.callGatewayLeastPrivilege).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ via: "scheduled", scheduled: { id: "sched-1" } });
+  });
+
+  it("schedules through the gateway for gateway-mode channels and remote gateways", async () => {
+    const sendAt = Date.now() + 60_000;
+    mocks.callGatewayLeastPrivilege.mockResolvedValue({
+      scheduledId: "sched-2",
+      sendAt: new Date(sendAt).toISOString(),
+    });
+
+    mocks.getChannelPlugin.mockReturnValue({ outbound: { deliveryMode: "gateway" } });
+    const result = await sendMessage({
+      cfg: {},
+      channel: "whatsapp",
+      to: "+15555550123",
+      content: "later",
+      sendAt,
+    });
+    mocks.getChannelPlugin.mockReturnValue({ outbound: { deliveryMode: "direct" } });
+    await sendMessage({
+      cfg: { gateway: { mode: "remote" } },
+      channel: "mattermost",
+      to: "channel:town-square",
+      content: "later",
+      sendAt,
+    });
+
+    expect(mocks.scheduleMessage).not.toHaveBeenCalled();
+    expect(mocks.callGatewayLeastPrivilege).toHaveBeenCalledTimes(2);
+    expect(mocks.callGatewayLeastPrivilege).toHaveBeenCalledWith(
+      expect.objectContaining({
+        method: "send",
+        params: expect.objectContaining({ channel: "whatsapp", sendAt }),
+      }),
+    );
+    expect(result).toMatchObject({ via: "scheduled", scheduled: { id: "sched-2" } });
+  });
 });
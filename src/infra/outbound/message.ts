@@ -17,6 +17,13 @@ import {
   type OutboundSendDeps,
 } from "./deliver.js";
 import { normalizeReplyPayloadsForDelivery } from "./payloads.js";
+import {
+  cancelScheduledMessage,
+  isRecipientInQuietHours,
+  listScheduledMessages,
+  scheduleMessage,
+  type ScheduledMessage,
+} from "./scheduled-messages.js";
 import { resolveOutboundTarget } from "./targets.js";
 
 export type MessageGatewayOptions = {
@@ -54,15 +61,22 @@ type MessageSendParams = {
   };
   abortSignal?: AbortSignal;
   silent?: boolean;
+  /** Store the message and send it at this time (epoch ms) instead of now. */
+  sendAt?: number;
 };
 
 export type MessageSendResult = {
   channel: string;
   to: string;
-  via: "direct" | "gateway";
+  via: "direct" | "gateway" | "scheduled";
   mediaUrl: string | null;
   mediaUrls?: string[];
   result?: OutboundDeliveryResult | { messageId: string };
+  /**
+   * Set when the message was stored for later instead of sent. `quietHours`
+   * means the send time falls in the recipient's quiet hours and it will wait.
+   */
+  scheduled?: { id: string; sendAt: string; quietHours?: boolean };
   dryRun?: boolean;
 };
 
@@ -163,6 +177,79 @@ async function callMessageGateway<T>(params: {
   });
 }
 
+/**
+ * Gateway-mode channels and remote gateways send from another process (or
+ * machine), so scheduled sends have to be stored by that gateway.
+ */
+function sendsThroughGateway(params: {
+  cfg: OpenClawConfig;
+  deliveryMode: string;
+  gateway?: MessageGatewayOptions;
+}): boolean {
+  return (
+    params.deliveryMode === "gateway" ||
+    params.cfg.gateway?.mode === "remote" ||
+    Boolean(resolveGatewayOptions(params.gateway).url)
+  );
+}
+
+type ScheduledMessagesParams = {
+  cfg?: OpenClawConfig;
+  /** Only entries this agent scheduled. */
+  agentId?: string;
+  gateway?: MessageGatewayOptions;
+};
+
+/** Gateway-mode channels keep their scheduled entries on the gateway (see sendMessage). */
+async function scheduledDeliveryMode(cfg: OpenClawConfig, channel?: string): Promise<string> {
+  if (!channel) {
+    return "direct";
+  }
+  const resolved = await resolveRequiredChannel({ cfg, channel });
+  return resolveRequiredPlugin(resolved).outbound?.deliveryMode ?? "direct";
+}
+
+/** Pending scheduled messages, soonest first, from the gateway that will send them. */
+export async function listScheduledOutboundMessages(
+  params: ScheduledMessagesParams & { channel?: string },
+): Promise<ScheduledMessage[]> {
+  const cfg = params.cfg ?? loadConfig();
+  const deliveryMode = await scheduledDeliveryMode(cfg, params.channel);
+  if (sendsThroughGateway({ cfg, deliveryMode, gateway: params.gateway })) {
+    const result = await callMessageGateway<{ scheduled: ScheduledMessage[] }>({
+      gateway: params.gateway,
+      method: "send.scheduled.list",
+      params: { agentId: params.agentId, channel: params.channel },
+    });
+    return result.scheduled;
+  }
+  const channel = params.channel?.trim().toLowerCase();
+  return (await listScheduledMessages()).filter(
+    (entry) =>
+      (!params.agentId || entry.agentId === params.agentId) &&
+      (!channel || entry.channel === channel),
+  );
+}
+
+/**
+ * Cancel a scheduled message on the gateway that will send it. Returns the
+ * removed entry, or null when it does not exist (or belongs to another agent).
+ */
+export async function cancelScheduledOutboundMessage(
+  params: ScheduledMessagesParams & { id: string },
+): Promise<ScheduledMessage | null> {
+  const cfg = params.cfg ?? loadConfig();
+  if (sendsThroughGateway({ cfg, deliveryMode: "direct", gateway: params.gateway })) {
+    const result = await callMessageGateway<{ cancelled: ScheduledMessage }>({
+      gateway: params.gateway,
+      method: "send.scheduled.cancel",
+      params: { id: params.id, agentId: params.agentId },
+    });
+    return result.cancelled;
+  }
+  return await cancelScheduledMessage(params.id, { agentId: params.agentId });
+}
+
 export async function sendMessage(params: MessageSendParams): Promise<MessageSendResult> {
   const cfg = params.cfg ?? loadConfig();
   const channel = await resolveRequiredChannel({ cfg, channel: params.channel });
@@ -195,6 +282,93 @@ export async function sendMessage(params: MessageSendParams): Promise<MessageSen
     };
   }
 
+  if (
+    params.sendAt !== undefined &&
+    sendsThroughGateway({ cfg, deliveryMode, gateway: params.gateway })
+  ) {
+    // The schedule must land in the state dir of the gateway that will send it.
+    const result = await callMessageGateway<{
+      scheduledId: string;
+      sendAt: string;
+      quietHours?: boolean;
+    }>({
+      gateway: params.gateway,
+      method: "send",
+      params: {
+        to: params.to,
+        message: params.content,
+        mediaUrl: params.mediaUrl,
+        mediaUrls: mirrorMediaUrls.length ? mirrorMediaUrls : params.mediaUrls,
+        gifPlayback: params.gifPlayback,
+        accountId: params.accountId,
+        channel,
+        threadId: params.threadId != null ? String(params.threadId) : undefined,
+        sessionKey: params.mirror?.sessionKey,
+        sendAt: params.sendAt,
+        idempotencyKey: params.idempotencyKey ?? randomIdempotencyKey(),
+      },
+    });
+    return {
+      channel,
+      to: params.to,
+      via: "scheduled",
+      mediaUrl: primaryMediaUrl,
+      mediaUrls: mirrorMediaUrls.length ? mirrorMediaUrls : undefined,
+      scheduled: {
+        id: result.scheduledId,
+        sendAt: result.sendAt,
+        ...(result.quietHours ? { quietHours: true } : {}),
+      },
+    };
+  }
+
+  if (params.sendAt !== undefined) {
+    // Local gateway: store the entry in the shared state dir for its schedule
+    // runner, which sends through deliverOutboundPayloads.
+    const resolvedTarget = resolveOutboundTarget({
+      channel,
+      to: params.to,
+      cfg,
+      accountId: params.accountId,
+      mode: "explicit",
+    });
+    if (!resolvedTarget.ok) {
+      throw resolvedTarget.error;
+    }
+    const entry = await scheduleMessage({
+      sendAt: params.sendAt,
+      channel,
+      to: resolvedTarget.to,
+      accountId: params.accountId,
+      payloads: normalizedPayloads,
+      replyToId: params.replyToId,
+      threadId: params.threadId,
+      gifPlayback: params.gifPlayback,
+      bestEffort: params.bestEffort,
+      silent: params.silent,
+      agentId: params.agentId,
+      mirror: params.mirror
+        ? {
+            ...params.mirror,
+            text: mirrorText || params.content,
+            mediaUrls: mirrorMediaUrls.length ? mirrorMediaUrls : undefined,
+          }
+        : undefined,
+    });
+    return {
+      channel,
+      to: params.to,
+      via: "scheduled",
+      mediaUrl: primaryMediaUrl,
+      mediaUrls: mirrorMediaUrls.length ? mirrorMediaUrls : undefined,
+      scheduled: {
+        id: entry.id,
+        sendAt: new Date(entry.sendAt).toISOString(),
+        ...(isRecipientInQuietHours(cfg, entry, entry.sendAt) ? { quietHours: true } : {}),
+      },
+    };
+  }
+
   if (deliveryMode !== "gateway") {
     const outboundChannel = channel;
     const resolvedTarget = resolveOutboundTarget({
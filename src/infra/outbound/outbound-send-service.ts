@@ -85,6 +85,8 @@ export async function executeSendAction(params: {
   bestEffort?: boolean;
   replyToId?: string;
   threadId?: string | number;
+  /** Schedule instead of sending now; scheduled sends always take the core path. */
+  sendAt?: number;
 }): Promise<{
   handledBy: "plugin" | "core";
   payload: unknown;
@@ -92,26 +94,29 @@ export async function executeSendAction(params: {
   sendResult?: MessageSendResult;
 }> {
   throwIfAborted(params.ctx.abortSignal);
-  const pluginHandled = await tryHandleWithPluginAction({
-    ctx: params.ctx,
-    action: "send",
-    onHandled: async () => {
-      if (!params.ctx.mirror) {
-        return;
-      }
-      const mirrorText = params.ctx.mirror.text ?? params.message;
-      const mirrorMediaUrls =
-        params.ctx.mirror.mediaUrls ??
-        params.mediaUrls ??
-        (params.mediaUrl ? [params.mediaUrl] : undefined);
-      await appendAssistantMessageToSessionTranscript({
-        agentId: params.ctx.mirror.agentId,
-        sessionKey: params.ctx.mirror.sessionKey,
-        text: mirrorText,
-        mediaUrls: mirrorMediaUrls,
-      });
-    },
-  });
+  const pluginHandled =
+    params.sendAt === undefined
+      ? await tryHandleWithPluginAction({
+          ctx: params.ctx,
+          action: "send",
+          onHandled: async () => {
+            if (!params.ctx.mirror) {
+              return;
+            }
+            const mirrorText = params.ctx.mirror.text ?? params.message;
+            const mirrorMediaUrls =
+              params.ctx.mirror.mediaUrls ??
+              params.mediaUrls ??
+              (params.mediaUrl ? [params.mediaUrl] : undefined);
+            await appendAssistantMessageToSessionTranscript({
+              agentId: params.ctx.mirror.agentId,
+              sessionKey: params.ctx.mirror.sessionKey,
+              text: mirrorText,
+              mediaUrls: mirrorMediaUrls,
+            });
+          },
+        })
+      : null;
   if (pluginHandled) {
     return pluginHandled;
   }
@@ -136,6 +141,7 @@ export async function executeSendAction(params: {
     mirror: params.ctx.mirror,
     abortSignal: params.ctx.abortSignal,
     silent: params.ctx.silent,
+    sendAt: params.sendAt,
   });
 
   return {
@@ -11,12 +11,18 @@ import {
   ackDelivery,
   computeBackoffMs,
   type DeliverFn,
+  DELIVERY_IN_FLIGHT_MS,
+  discardDelivery,
   enqueueDelivery,
   failDelivery,
+  findQueuedDelivery,
+  loadFailedDeliveries,
   loadPendingDeliveries,
   MAX_RETRIES,
   moveToFailed,
   recoverPendingDeliveries,
+  retryQueuedDelivery,
+  summarizeDeliveryQueue,
 } from "./delivery-queue.js";
 import { DirectoryCache } from "./directory-cache.js";
 import { buildOutboundResultEnvelope } from "./envelope.js";
@@ -362,6 +368,130 @@ describe("delivery-queue", () => {
       expect(deliver).not.toHaveBeenCalled();
     });
   });
+
+  describe("queue management", () => {
+    it("finds, summarizes and discards pending and failed entries", async () => {
+      const pendingId = await enqueueDelivery(
+        { channel: "telegram", to: "1", payloads: [{ text: "a" }] },
+        tmpDir,
+      );
+      const failedId = await enqueueDelivery(
+        { channel: "telegram", to: "2", payloads: [{ text: "b" }] },
+        tmpDir,
+      );
+      await enqueueDelivery({ channel: "slack", to: "#c", payloads: [{ text: "c" }] }, tmpDir);
+      await moveToFailed(failedId, tmpDir);
+
+      expect((await findQueuedDelivery(failedId, tmpDir))?.state).toBe("failed");
+      expect(await findQueuedDelivery("00000000-0000-0000-0000-000000000000", tmpDir)).toBeNull();
+      await expect(findQueuedDelivery("../secrets", tmpDir)).rejects.toThrow("invalid delivery id");
+
+      const summary = summarizeDeliveryQueue({
+        pending: await loadPendingDeliveries(tmpDir),
+        failed: await loadFailedDeliveries(tmpDir),
+      });
+      expect(summary).toMatchObject({
+        pending: 2,
+        failed: 1,
+        channels: [
+          { channel: "telegram", pending: 1, failed: 1 },
+          { channel: "slack", pending: 1, failed: 0 },
+        ],
+      });
+
+      expect(await discardDelivery(pendingId, tmpDir)).toBe("pending");
+      expect(await discardDelivery(failedId, tmpDir)).toBe("failed");
+      expect(await discardDelivery(failedId, tmpDir)).toBeNull();
+      expect(await loadFailedDeliveries(tmpDir)).toHaveLength(0);
+    });
+
+    it("retries a failed entry with a fresh retry budget but not an in-flight one", async () => {
+      const id = await enqueueDelivery(
+        { channel: "whatsapp", to: "+1", payloads: [{ text: "a" }] },
+        tmpDir,
+      );
+      await failDelivery(id, "boom", tmpDir);
+      await moveToFailed(id, tmpDir);
+      const cfg = {} as OpenClawConfig;
+
+      const failing = vi.fn().mockRejectedValue(new Error("still down"));
+      expect(await retryQueuedDelivery({ id, cfg, deliver: failing, stateDir: tmpDir })).toEqual({
+        ok: false,
+        error: "still down",
+      });
+      const [pending] = await loadPendingDeliveries(tmpDir);
+      expect(pending).toMatchObject({ id, retryCount: 1, lastError: "still down" });
+      expect(await loadFailedDeliveries(tmpDir)).toHaveLength(0);
+
+      // Now pending again: a fresh pending entry may still be mid-send, so it is refused
+      const deliver = vi.fn().mockResolvedValue([]);
+      expect(await retryQueuedDelivery({ id, cfg, deliver, stateDir: tmpDir })).toMatchObject({
+        ok: false,
+        inFlight: true,
+      });
+      expect(deliver).not.toHaveBeenCalled();
+
+      const result = await retryQueuedDelivery({
+        id,
+        cfg,
+        deliver,
+        stateDir: tmpDir,
+        now: Date.now() + DELIVERY_IN_FLIGHT_MS,
+      });
+      expect(result.ok).toBe(true);
+      expect(deliver).toHaveBeenCalledWith(
+        expect.objectContaining({ channel: "whatsapp", to: "+1", skipQueue: true }),
+      );
+      expect(await loadPendingDeliveries(tmpDir)).toHaveLength(0);
+      expect(await retryQueuedDelivery({ id, cfg, deliver, stateDir: tmpDir })).toMatchObject({
+        ok: false,
+        notFound: true,
+      });
+    });
+
+    it("claims an entry so concurrent retries and recovery send it once", async () => {
+      const id = await enqueueDelivery(
+        { channel: "whatsapp", to: "+1", payloads: [{ text: "a" }] },
+        tmpDir,
+      );
+      await moveToFailed(id, tmpDir);
+      const cfg = {} as OpenClawConfig;
+      const log = { info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+      const delay = async () => {};
+      let finishSend = () => {};
+      const deliver = vi.fn(
+        () => new Promise<unknown>((resolve) => (finishSend = () => resolve([]))),
+      );
+
+      const first = retryQueuedDelivery({ id, cfg, deliver, stateDir: tmpDir });
+      await vi.waitFor(() => expect(deliver).toHaveBeenCalledTimes(1));
+      expect(await retryQueuedDelivery({ id, cfg, deliver, stateDir: tmpDir })).toEqual({
+        ok: false,
+        error: `delivery ${id} is already in progress`,
+        inFlight: true,
+      });
+      expect(
+        await recoverPendingDeliveries({ deliver, log, cfg, stateDir: tmpDir, delay }),
+      ).toMatchObject({ recovered: 0 });
+      finishSend();
+      expect(await first).toMatchObject({ ok: true });
+      expect(deliver).toHaveBeenCalledTimes(1);
+
+      // A claim left behind by a crashed process goes back to the queue on recovery
+      const stale = await enqueueDelivery(
+        { channel: "telegram", to: "2", payloads: [{ text: "b" }] },
+        tmpDir,
+      );
+      const queueDir = path.join(tmpDir, "delivery-queue");
+      fs.renameSync(path.join(queueDir, `${stale}.json`), path.join(queueDir, `${stale}.sending`));
+      const resend = vi.fn().mockResolvedValue([]);
+      expect(
+        await recoverPendingDeliveries({ deliver: resend, log, cfg, stateDir: tmpDir, delay }),
+      ).toMatchObject({ recovered: 1 });
+      expect(resend).toHaveBeenCalledWith(expect.objectContaining({ channel: "telegram" }));
+      expect(fs.readdirSync(queueDir)).toEqual(["failed"]);
+    });
+  });
 });
 
 describe("DirectoryCache", () => {
@@ -0,0 +1,214 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { OpenClawConfig } from "../../config/config.js";
+import { MAX_RETRIES } from "./delivery-queue.js";
+import {
+  cancelScheduledMessage,
+  listScheduledMessages,
+  recoverClaimedScheduledMessages,
+  resolveRecipientQuietHours,
+  resolveScheduledSendAt,
+  runDueScheduledMessages,
+  scheduleMessage,
+} from "./scheduled-messages.js";
+
+const NOW = Date.parse("2026-03-02T12:00:00Z");
+
+describe("resolveScheduledSendAt", () => {
+  it("returns null when neither sendAt nor delay is set", () => {
+    expect(resolveScheduledSendAt({ now: NOW })).toBeNull();
+  });
+
+  it("parses ISO timestamps and durations", () => {
+    expect(resolveScheduledSendAt({ sendAt: "2026-03-02T14:00:00+01:00", now: NOW })).toBe(
+      Date.parse("2026-03-02T13:00:00Z"),
+    );
+    expect(resolveScheduledSendAt({ delay: "2h", now: NOW })).toBe(NOW + 2 * 60 * 60_000);
+    expect(resolveScheduledSendAt({ delay: "30", now: NOW })).toBe(NOW + 30 * 60_000);
+  });
+
+  it("rejects past, too-distant, invalid and conflicting inputs", () => {
+    expect(() => resolveScheduledSendAt({ sendAt: "2026-03-01T00:00:00Z", now: NOW })).toThrow(
+      /in the past/,
+    );
+    expect(() => resolveScheduledSendAt({ delay: "400d", now: NOW })).toThrow(/one year/);
+    expect(() => resolveScheduledSendAt({ sendAt: "tomorrow-ish", now: NOW })).toThrow(
+      /Invalid sendAt/,
+    );
+    expect(() => resolveScheduledSendAt({ sendAt: "2026-03-03", delay: "1h", now: NOW })).toThrow(
+      /not both/,
+    );
+  });
+});
+
+describe("resolveRecipientQuietHours", () => {
+  const cfg = {
+    messages: {
+      scheduled: {
+        quietHours: { start: "22:00", end: "07:00", timezone: "UTC" },
+        recipients: {
+          "Telegram:123": { quietHours: false },
+          "slack:#ops": { quietHours: { start: "18:00", end: "09:00" } },
+        },
+      },
+    },
+  } as OpenClawConfig;
+
+  it("prefers per-recipient overrides over the global window", () => {
+    expect(resolveRecipientQuietHours(cfg, { channel: "telegram", to: "123" })).toBeNull();
+    expect(resolveRecipientQuietHours(cfg, { channel: "slack", to: "#ops" })).toEqual({
+      start: "18:00",
+      end: "09:00",
+    });
+    expect(resolveRecipientQuietHours(cfg, { channel: "telegram", to: "456" })).toEqual({
+      start: "22:00",
+      end: "07:00",
+      timezone: "UTC",
+    });
+    expect(resolveRecipientQuietHours({}, { channel: "telegram", to: "456" })).toBeNull();
+  });
+});
+
+describe("scheduled message store", () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "openclaw-scheduled-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  const schedule = (sendAt: number, extra: { to?: string; agentId?: string } = {}) =>
+    scheduleMessage(
+      {
+        sendAt,
+        channel: "telegram",
+        to: extra.to ?? "123",
+        payloads: [{ text: "hello" }],
+        agentId: extra.agentId,
+      },
+      tmpDir,
+    );
+
+  it("lists entries soonest first and cancels only the owner's entries", async () => {
+    const later = await schedule(NOW + 60_000, { agentId: "main" });
+    const sooner = await schedule(NOW + 1_000, { agentId: "ops" });
+
+    expect((await listScheduledMessages(tmpDir)).map((entry) => entry.id)).toEqual([
+      sooner.id,
+      later.id,
+    ]);
+    expect(await cancelScheduledMessage(later.id, { agentId: "ops", stateDir: tmpDir })).toBeNull();
+    const unowned = await schedule(NOW + 30_000);
+    expect(
+      await cancelScheduledMessage(unowned.id, { agentId: "ops", stateDir: tmpDir }),
+    ).toBeNull();
+    expect((await cancelScheduledMessage(unowned.id, { stateDir: tmpDir }))?.id).toBe(unowned.id);
+    expect(
+      await cancelScheduledMessage("../outside", { agentId: "ops", stateDir: tmpDir }),
+    ).toBeNull();
+    expect(
+      (await cancelScheduledMessage(later.id, { agentId: "main", stateDir: tmpDir }))?.id,
+    ).toBe(later.id);
+    expect((await listScheduledMessages(tmpDir)).map((entry) => entry.id)).toEqual([sooner.id]);
+  });
+
+  it("sends due messages and holds ones inside the recipient's quiet hours", async () => {
+    const cfg = {
+      messages: {
+        scheduled: {
+          recipients: {
+            "telegram:quiet": { quietHours: { start: "11:00", end: "13:00", timezone: "UTC" } },
+          },
+        },
+      },
+    } as OpenClawConfig;
+    const due = await schedule(NOW - 1_000);
+    const held = await schedule(NOW - 500, { to: "quiet" });
+    const future = await schedule(NOW + 2 * 60 * 60_000);
+    const deliver = vi.fn().mockResolvedValue([]);
+
+    expect(await runDueScheduledMessages({ cfg, deliver, stateDir: tmpDir, now: NOW })).toEqual({
+      sent: 1,
+      held: 1,
+      failed: 0,
+    });
+    expect(deliver).toHaveBeenCalledTimes(1);
+    expect(deliver).toHaveBeenCalledWith(
+      expect.objectContaining({ channel: "telegram", to: "123", payloads: [{ text: "hello" }] }),
+    );
+
+    const remaining = await listScheduledMessages(tmpDir);
+    expect(remaining.map((entry) => entry.id)).toEqual([held.id, future.id]);
+    expect(remaining[0]?.heldForQuietHours).toBe(true);
+    expect(remaining.some((entry) => entry.id === due.id)).toBe(false);
+
+    // Quiet hours over: the held message goes out.
+    const afterQuiet = Date.parse("2026-03-02T13:30:00Z");
+    expect(
+      await runDueScheduledMessages({ cfg, deliver, stateDir: tmpDir, now: afterQuiet }),
+    ).toEqual({ sent: 1, held: 0, failed: 0 });
+    expect(deliver).toHaveBeenLastCalledWith(expect.objectContaining({ to: "quiet" }));
+  });
+
+  it("claims due entries so a cancel cannot race the send", async () => {
+    const entry = await schedule(NOW - 1_000);
+    let cancelDuringSend: Promise<unknown> | undefined;
+    const deliver = vi.fn(async () => {
+      cancelDuringSend = cancelScheduledMessage(entry.id, { stateDir: tmpDir });
+      await cancelDuringSend.catch(() => {});
+      return [];
+    });
+
+    expect(await runDueScheduledMessages({ cfg: {}, deliver, stateDir: tmpDir, now: NOW })).toEqual(
+      { sent: 1, held: 0, failed: 0 },
+    );
+    await expect(cancelDuringSend).rejects.toThrow(/already being sent/);
+    expect(fs.readdirSync(path.join(tmpDir, "outbound-schedule"))).toEqual([]);
+  });
+
+  it("puts entries claimed by an interrupted pass back in the schedule", async () => {
+    const entry = await schedule(NOW - 1_000);
+    const dir = path.join(tmpDir, "outbound-schedule");
+    fs.renameSync(path.join(dir, `${entry.id}.json`), path.join(dir, `${entry.id}.sending`));
+    expect(await listScheduledMessages(tmpDir)).toEqual([]);
+
+    expect(await recoverClaimedScheduledMessages(tmpDir)).toBe(1);
+    expect((await listScheduledMessages(tmpDir)).map((item) => item.id)).toEqual([entry.id]);
+  });
+
+  it("retries failed sends with backoff and gives up after MAX_RETRIES", async () => {
+    const entry = await schedule(NOW - 1_000);
+    const deliver = vi.fn().mockRejectedValue(new Error("boom"));
+
+    expect(await runDueScheduledMessages({ cfg: {}, deliver, stateDir: tmpDir, now: NOW })).toEqual(
+      { sent: 0, held: 0, failed: 1 },
+    );
+    const [pending] = await listScheduledMessages(tmpDir);
+    expect(pending).toMatchObject({ id: entry.id, attempts: 1, lastError: "boom" });
+    expect(pending?.nextAttemptAt).toBeGreaterThan(NOW);
+
+    // Still backing off: nothing is attempted.
+    expect(
+      await runDueScheduledMessages({ cfg: {}, deliver, stateDir: tmpDir, now: NOW + 1 }),
+    ).toEqual({ sent: 0, held: 0, failed: 0 });
+
+    let now = NOW;
+    for (let attempt = 2; attempt <= MAX_RETRIES; attempt += 1) {
+      now += 60 * 60_000;
+      await runDueScheduledMessages({ cfg: {}, deliver, stateDir: tmpDir, now });
+    }
+    expect(deliver).toHaveBeenCalledTimes(MAX_RETRIES);
+    expect(deliver).toHaveBeenCalledWith(expect.objectContaining({ skipQueue: true }));
+    expect(await listScheduledMessages(tmpDir)).toEqual([]);
+    expect(fs.readdirSync(path.join(tmpDir, "outbound-schedule"))).toEqual(["failed"]);
+    const failedPath = path.join(tmpDir, "outbound-schedule", "failed", `${entry.id}.json`);
+    expect(JSON.parse(fs.readFileSync(failedPath, "utf-8"))).toMatchObject({
+      attempts: MAX_RETRIES,
+    });
+  });
+});
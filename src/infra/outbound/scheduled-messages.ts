@@ -0,0 +1,453 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import type { ReplyPayload } from "../../auto-reply/types.js";
+import { parseDurationMs } from "../../cli/parse-duration.js";
+import { loadConfig, type OpenClawConfig } from "../../config/config.js";
+import { resolveStateDir } from "../../config/paths.js";
+import type { QuietHoursConfig } from "../../config/types.messages.js";
+import { parseAbsoluteTimeMs } from "../../cron/parse.js";
+import { createSubsystemLogger } from "../../logging/subsystem.js";
+import { isWithinHoursWindow } from "../heartbeat-active-hours.js";
+import { deliverOutboundPayloads } from "./deliver.js";
+import { computeBackoffMs, MAX_RETRIES } from "./delivery-queue.js";
+import type { OutboundChannel } from "./targets.js";
+
+const SCHEDULE_DIRNAME = "outbound-schedule";
+const FAILED_DIRNAME = "failed";
+/** A due entry is renamed to `<id>.sending` while the runner sends it. */
+const CLAIM_SUFFIX = ".sending";
+const MAX_SCHEDULE_AHEAD_MS = 366 * 24 * 60 * 60_000;
+const DEFAULT_RUNNER_INTERVAL_MS = 30_000;
+
+const log = createSubsystemLogger("outbound/scheduled");
+
+type ScheduledMirrorPayload = {
+  sessionKey: string;
+  agentId?: string;
+  text?: string;
+  mediaUrls?: string[];
+};
+
+export interface ScheduledMessage {
+  id: string;
+  createdAt: number;
+  /** Earliest send time (epoch ms); recipient quiet hours may hold it longer. */
+  sendAt: number;
+  channel: Exclude<OutboundChannel, "none">;
+  to: string;
+  accountId?: string;
+  payloads: ReplyPayload[];
+  threadId?: string | number | null;
+  replyToId?: string | null;
+  bestEffort?: boolean;
+  gifPlayback?: boolean;
+  silent?: boolean;
+  /** Agent that scheduled the message; agents only see and cancel their own entries. */
+  agentId?: string;
+  mirror?: ScheduledMirrorPayload;
+  /** Set once the message is due but held back by the recipient's quiet hours. */
+  heldForQuietHours?: boolean;
+  /** Failed send attempts so far; the entry moves to failed/ after MAX_RETRIES. */
+  attempts?: number;
+  /** Earliest retry time (epoch ms) after a failed attempt. */
+  nextAttemptAt?: number;
+  lastError?: string;
+}
+
+export type ScheduleMessageParams = Omit<
+  ScheduledMessage,
+  "id" | "createdAt" | "heldForQuietHours" | "attempts" | "nextAttemptAt" | "lastError"
+>;
+
+// Entry ids are UUIDs; anything else could point outside the schedule directory.
+const SCHEDULED_ID_RE = /^[A-Za-z0-9-]{1,64}$/;
+
+function resolveScheduleDir(stateDir?: string): string {
+  return path.join(stateDir ?? resolveStateDir(), SCHEDULE_DIRNAME);
+}
+
+function resolveEntryPath(id: string, stateDir?: string): string | null {
+  return SCHEDULED_ID_RE.test(id) ? path.join(resolveScheduleDir(stateDir), `${id}.json`) : null;
+}
+
+function resolveClaimPath(entryPath: string): string {
+  return entryPath.replace(/\.json$/, CLAIM_SUFFIX);
+}
+
+async function moveEntryToFailed(
+  entry: ScheduledMessage,
+  claimPath: string,
+  stateDir?: string,
+): Promise<void> {
+  const failedDir = path.join(resolveScheduleDir(stateDir), FAILED_DIRNAME);
+  await fs.promises.mkdir(failedDir, { recursive: true, mode: 0o700 });
+  await writeEntryAtomic(path.join(failedDir, `${entry.id}.json`), entry);
+  await fs.promises.unlink(claimPath);
+}
+
+function isNotFoundError(err: unknown): boolean {
+  return (
+    !!err &&
+    typeof err === "object" &&
+    "code" in err &&
+    String((err as { code?: unknown }).code) === "ENOENT"
+  );
+}
+
+async function writeEntryAtomic(filePath: string, entry: ScheduledMessage): Promise<void> {
+  const tmp = `${filePath}.${process.pid}.tmp`;
+  await fs.promises.writeFile(tmp, JSON.stringify(entry, null, 2), {
+    encoding: "utf-8",
+    mode: 0o600,
+  });
+  await fs.promises.rename(tmp, filePath);
+}
+
+/**
+ * Resolve `sendAt` (ISO 8601 or epoch ms; no offset means UTC) or `delay`
+ * (duration like "90m", "2h", "1d") to an epoch-ms send time. Returns null
+ * when neither is set.
+ */
+export function resolveScheduledSendAt(params: {
+  sendAt?: string | number;
+  delay?: string | number;
+  now?: number;
+}): number | null {
+  const now = params.now ?? Date.now();
+  const rawSendAt = typeof params.sendAt === "number" ? String(params.sendAt) : params.sendAt;
+  const rawDelay = typeof params.delay === "number" ? `${params.delay}ms` : params.delay;
+  if (rawSendAt?.trim() && rawDelay?.trim()) {
+    throw new Error("Use either sendAt or delay, not both.");
+  }
+  let sendAt: number | null = null;
+  if (rawSendAt?.trim()) {
+    sendAt = parseAbsoluteTimeMs(rawSendAt);
+    if (sendAt === null) {
+      throw new Error(
+        `Invalid sendAt: ${rawSendAt} (use ISO 8601, e.g. 2026-03-02T09:00:00+01:00)`,
+      );
+    }
+    if (sendAt <= now) {
+      throw new Error(`sendAt is in the past: ${new Date(sendAt).toISOString()}`);
+    }
+  } else if (rawDelay?.trim()) {
+    const delayMs = parseDurationMs(rawDelay, { defaultUnit: "m" });
+    if (delayMs <= 0) {
+      throw new Error("delay must be greater than zero.");
+    }
+    sendAt = now + delayMs;
+  }
+  if (sendAt !== null && sendAt - now > MAX_SCHEDULE_AHEAD_MS) {
+    throw new Error("Messages can be scheduled at most one year ahead.");
+  }
+  return sendAt;
+}
+
+/** Persist a message for later delivery. The gateway sends it once `sendAt` passes. */
+export async function scheduleMessage(
+  params: ScheduleMessageParams,
+  stateDir?: string,
+): Promise<ScheduledMessage> {
+  const dir = resolveScheduleDir(stateDir);
+  await fs.promises.mkdir(dir, { recursive: true, mode: 0o700 });
+  const entry: ScheduledMessage = {
+    id: crypto.randomUUID(),
+    createdAt: Date.now(),
+    sendAt: params.sendAt,
+    channel: params.channel,
+    to: params.to,
+    accountId: params.accountId,
+    payloads: params.payloads,
+    threadId: params.threadId,
+    replyToId: params.replyToId,
+    bestEffort: params.bestEffort,
+    gifPlayback: params.gifPlayback,
+    silent: params.silent,
+    agentId: params.agentId,
+    mirror: params.mirror,
+  };
+  await writeEntryAtomic(path.join(dir, `${entry.id}.json`), entry);
+  return entry;
+}
+
+/** All scheduled messages, soonest first. */
+export async function listScheduledMessages(stateDir?: string): Promise<ScheduledMessage[]> {
+  const dir = resolveScheduleDir(stateDir);
+  let files: string[];
+  try {
+    files = await fs.promises.readdir(dir);
+  } catch (err) {
+    if (isNotFoundError(err)) {
+      return [];
+    }
+    throw err;
+  }
+  const entries: ScheduledMessage[] = [];
+  for (const file of files) {
+    if (!file.endsWith(".json")) {
+      continue;
+    }
+    try {
+      const raw = await fs.promises.readFile(path.join(dir, file), "utf-8");
+      entries.push(JSON.parse(raw) as ScheduledMessage);
+    } catch {
+      // Skip malformed or vanished entries.
+    }
+  }
+  return entries.toSorted((a, b) => a.sendAt - b.sendAt);
+}
+
+function throwIfClaimed(id: string, filePath: string): void {
+  if (fs.existsSync(resolveClaimPath(filePath))) {
+    throw new Error(`Scheduled message ${id} is already being sent`);
+  }
+}
+
+/**
+ * Delete a scheduled message before it is sent. Returns the removed entry, or
+ * null. Agent callers can only cancel entries they scheduled themselves.
+ * Throws when the runner has already claimed the entry for sending.
+ */
+export async function cancelScheduledMessage(
+  id: string,
+  opts: { agentId?: string; stateDir?: string } = {},
+): Promise<ScheduledMessage | null> {
+  const trimmed = id.trim();
+  const filePath = resolveEntryPath(trimmed, opts.stateDir);
+  if (!filePath) {
+    return null;
+  }
+  let entry: ScheduledMessage;
+  try {
+    entry = JSON.parse(await fs.promises.readFile(filePath, "utf-8")) as ScheduledMessage;
+  } catch (err) {
+    if (isNotFoundError(err)) {
+      throwIfClaimed(trimmed, filePath);
+      return null;
+    }
+    throw err;
+  }
+  if (opts.agentId && entry.agentId !== opts.agentId) {
+    return null;
+  }
+  try {
+    await fs.promises.unlink(filePath);
+  } catch (err) {
+    if (isNotFoundError(err)) {
+      throwIfClaimed(trimmed, filePath);
+      return null;
+    }
+    throw err;
+  }
+  return entry;
+}
+
+/**
+ * Put entries left claimed by an interrupted pass back in the schedule. The
+ * send may already have gone out, so this trades a possible duplicate for
+ * never silently dropping a message.
+ */
+export async function recoverClaimedScheduledMessages(stateDir?: string): Promise<number> {
+  const dir = resolveScheduleDir(stateDir);
+  let files: string[];
+  try {
+    files = await fs.promises.readdir(dir);
+  } catch (err) {
+    if (isNotFoundError(err)) {
+      return 0;
+    }
+    throw err;
+  }
+  let recovered = 0;
+  for (const file of files) {
+    if (!file.endsWith(CLAIM_SUFFIX)) {
+      continue;
+    }
+    const claimPath = path.join(dir, file);
+    await fs.promises.rename(claimPath, claimPath.slice(0, -CLAIM_SUFFIX.length) + ".json");
+    recovered += 1;
+  }
+  if (recovered > 0) {
+    log.warn(`recovered ${recovered} scheduled message(s) from an interrupted send`);
+  }
+  return recovered;
+}
+
+/**
+ * Quiet hours for one recipient: `messages.scheduled.recipients["<channel>:<to>"]`
+ * wins over the global `messages.scheduled.quietHours`.
+ */
+export function resolveRecipientQuietHours(
+  cfg: OpenClawConfig,
+  recipient: { channel: string; to: string },
+): QuietHoursConfig | null {
+  const scheduled = cfg.messages?.scheduled;
+  const wanted = `${recipient.channel}:${recipient.to}`.toLowerCase();
+  const override = Object.entries(scheduled?.recipients ?? {}).find(
+    ([key]) => key.trim().toLowerCase() === wanted,
+  )?.[1];
+  if (override?.quietHours !== undefined) {
+    return override.quietHours || null;
+  }
+  return scheduled?.quietHours ?? null;
+}
+
+export function isRecipientInQuietHours(
+  cfg: OpenClawConfig,
+  recipient: { channel: string; to: string },
+  nowMs?: number,
+): boolean {
+  const quietHours = resolveRecipientQuietHours(cfg, recipient);
+  return quietHours ? isWithinHoursWindow(cfg, quietHours, nowMs) : false;
+}
+
+export type ScheduledDeliverFn = (
+  params: {
+    cfg: OpenClawConfig;
+    skipQueue?: boolean;
+  } & Omit<ScheduleMessageParams, "sendAt">,
+) => Promise<unknown>;
+
+/**
+ * Send every due message that is outside its recipient's quiet hours. Each
+ * entry is claimed (renamed to `<id>.sending`) before sending, so a cancel
+ * cannot race the send, and only removed once the send succeeds; failed sends
+ * are retried with the delivery-queue backoff and move to `failed/` after
+ * MAX_RETRIES attempts.
+ */
+export async function runDueScheduledMessages(opts: {
+  cfg: OpenClawConfig;
+  deliver: ScheduledDeliverFn;
+  stateDir?: string;
+  now?: number;
+}): Promise<{ sent: number; held: number; failed: number }> {
+  const now = opts.now ?? Date.now();
+  const result = { sent: 0, held: 0, failed: 0 };
+  for (const entry of await listScheduledMessages(opts.stateDir)) {
+    if (entry.sendAt > now) {
+      break;
+    }
+    if (entry.nextAttemptAt && entry.nextAttemptAt > now) {
+      continue;
+    }
+    const filePath = resolveEntryPath(entry.id, opts.stateDir);
+    if (!filePath) {
+      continue;
+    }
+    if (isRecipientInQuietHours(opts.cfg, entry, now)) {
+      result.held += 1;
+      if (!entry.heldForQuietHours) {
+        await writeEntryAtomic(filePath, { ...entry, heldForQuietHours: true }).catch(() => {});
+      }
+      continue;
+    }
+    const claimPath = resolveClaimPath(filePath);
+    try {
+      await fs.promises.rename(filePath, claimPath);
+    } catch (err) {
+      if (isNotFoundError(err)) {
+        // Cancelled since the listing.
+        continue;
+      }
+      throw err;
+    }
+    try {
+      // The schedule entry is the write-ahead record, so skip the delivery queue
+      // to avoid a second, independent retry of the same message.
+      await opts.deliver({
+        cfg: opts.cfg,
+        skipQueue: true,
+        channel: entry.channel,
+        to: entry.to,
+        accountId: entry.accountId,
+        payloads: entry.payloads,
+        threadId: entry.threadId,
+        replyToId: entry.replyToId,
+        bestEffort: entry.bestEffort,
+        gifPlayback: entry.gifPlayback,
+        silent: entry.silent,
+        agentId: entry.agentId,
+        mirror: entry.mirror,
+      });
+      result.sent += 1;
+      log.info(`sent scheduled message ${entry.id} to ${entry.channel}:${entry.to}`);
+    } catch (err) {
+      result.failed += 1;
+      const attempts = (entry.attempts ?? 0) + 1;
+      const failed: ScheduledMessage = {
+        ...entry,
+        attempts,
+        lastError: err instanceof Error ? err.message : String(err),
+      };
+      if (attempts >= MAX_RETRIES) {
+        log.error(
+          `scheduled message ${entry.id} to ${entry.channel}:${entry.to} failed ${attempts} times; moving to failed/: ${String(err)}`,
+        );
+        await moveEntryToFailed(failed, claimPath, opts.stateDir).catch(() => {});
+      } else {
+        log.warn(
+          `scheduled message ${entry.id} to ${entry.channel}:${entry.to} failed (attempt ${attempts}/${MAX_RETRIES}); retrying later: ${String(err)}`,
+        );
+        await writeEntryAtomic(filePath, {
+          ...failed,
+          nextAttemptAt: now + computeBackoffMs(attempts),
+        })
+          .then(() => fs.promises.unlink(claimPath))
+          .catch(() => {});
+      }
+      continue;
+    }
+    await fs.promises.unlink(claimPath).catch(() => {});
+  }
+  return result;
+}
+
+export type ScheduledMessageRunner = {
+  runNow: () => Promise<{ sent: number; held: number; failed: number }>;
+  stop: () => void;
+};
+
+/** Poll the outbound schedule from the gateway and send due messages. */
+export function startScheduledMessageRunner(
+  opts: {
+    stateDir?: string;
+    intervalMs?: number;
+    loadConfig?: () => OpenClawConfig;
+    deliver?: ScheduledDeliverFn;
+  } = {},
+): ScheduledMessageRunner {
+  const readConfig = opts.loadConfig ?? loadConfig;
+  let running: Promise<{ sent: number; held: number; failed: number }> | null = null;
+  // Claims only outlive a pass when the process died mid-send.
+  let recovering: Promise<unknown> | null = null;
+
+  const runNow = async () => {
+    recovering ??= recoverClaimedScheduledMessages(opts.stateDir).catch((err) =>
+      log.error(`scheduled message recovery failed: ${String(err)}`),
+    );
+    // One pass at a time so a slow send is never picked up twice.
+    running ??= recovering
+      .then(() =>
+        runDueScheduledMessages({
+          cfg: readConfig(),
+          deliver: opts.deliver ?? deliverOutboundPayloads,
+          stateDir: opts.stateDir,
+        }),
+      )
+      .finally(() => {
+        running = null;
+      });
+    return await running;
+  };
+
+  const timer = setInterval(() => {
+    void runNow().catch((err) => log.error(`scheduled message pass failed: ${String(err)}`));
+  }, opts.intervalMs ?? DEFAULT_RUNNER_INTERVAL_MS);
+  timer.unref?.();
+
+  return {
+    runNow,
+    stop: () => clearInterval(timer),
+  };
+}
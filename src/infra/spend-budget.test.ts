@@ -0,0 +1,122 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { OpenClawConfig } from "../config/config.js";
+import {
+  checkSpendBudget,
+  formatSpendBudgetStatus,
+  loadSpendBudgetStatuses,
+  recordSpend,
+  resolveSpendBudgets,
+} from "./spend-budget.js";
+
+const NOW = new Date(2026, 2, 14, 12, 0, 0);
+const TOMORROW = new Date(2026, 2, 15, 9, 0, 0);
+
+describe("spend budgets", () => {
+  let baseDir: string;
+
+  beforeEach(async () => {
+    baseDir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-spend-budget-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(baseDir, { recursive: true, force: true });
+  });
+
+  it("resolves budgets from the most specific config key", () => {
+    const cfg = {
+      budgets: {
+        agents: { "*": { monthlyUsd: 100 } },
+        accounts: { telegram: { dailyUsd: 5 }, "telegram:work": { dailyUsd: 20 } },
+        senders: { "*": { dailyUsd: 1 }, "telegram:42": { dailyUsd: 3 } },
+      },
+    } as OpenClawConfig;
+
+    const budgets = resolveSpendBudgets(cfg, {
+      agentId: "Main",
+      channel: "Telegram",
+      accountId: "work",
+      senderId: "42",
+    });
+    expect(budgets.map((budget) => [budget.key, budget.dailyUsd, budget.monthlyUsd])).toEqual([
+      ["agent:main", undefined, 100],
+      ["account:telegram:work", 20, undefined],
+      ["sender:telegram:42", 3, undefined],
+    ]);
+    expect(
+      resolveSpendBudgets(cfg, { channel: "telegram", senderId: "7" }).map((budget) => [
+        budget.key,
+        budget.dailyUsd,
+      ]),
+    ).toEqual([
+      ["account:telegram:default", 5],
+      ["sender:telegram:7", 1],
+    ]);
+    expect(
+      resolveSpendBudgets({ budgets: { ...cfg.budgets, enabled: false } }, { agentId: "main" }),
+    ).toEqual([]);
+  });
+
+  it("warns once at the soft limit and refuses at the hard limit", async () => {
+    const cfg = { budgets: { senders: { "*": { dailyUsd: 10 } } } } as OpenClawConfig;
+    const subject = { channel: "whatsapp", senderId: "+15550001111" };
+
+    await recordSpend({ cfg, subject, costUsd: 8.5, now: NOW, baseDir });
+    const warned = await checkSpendBudget({ cfg, subject, now: NOW, baseDir });
+    expect(warned.action).toBe("allow");
+    expect(warned.notices).toEqual([
+      '⚠️ Spend budget: sender "whatsapp:+15550001111" has used $8.50 of its $10.00 daily budget (85%).',
+    ]);
+    expect((await checkSpendBudget({ cfg, subject, now: NOW, baseDir })).notices).toEqual([]);
+
+    await recordSpend({ cfg, subject, costUsd: 2, now: NOW, baseDir });
+    const refused = await checkSpendBudget({ cfg, subject, now: NOW, baseDir });
+    expect(refused.action).toBe("refuse");
+    expect(refused.refusal).toContain("$10.50 of its $10.00 daily budget");
+    expect(refused.refusal).toContain("Try again tomorrow");
+
+    // Other senders and the next day start from zero
+    expect(
+      (
+        await checkSpendBudget({
+          cfg,
+          subject: { ...subject, senderId: "+1999" },
+          now: NOW,
+          baseDir,
+        })
+      ).action,
+    ).toBe("allow");
+    expect((await checkSpendBudget({ cfg, subject, now: TOMORROW, baseDir })).action).toBe("allow");
+  });
+
+  it("downgrades to the cheaper model when every exceeded budget allows it", async () => {
+    const cfg = {
+      budgets: {
+        onExceeded: "downgrade",
+        downgradeModel: "openai/gpt-4o-mini",
+        agents: { main: { monthlyUsd: 50 } },
+        accounts: { slack: { monthlyUsd: 500, onExceeded: "refuse" } },
+      },
+    } as OpenClawConfig;
+    const subject = { agentId: "main", channel: "slack", accountId: "default" };
+
+    await recordSpend({ cfg, subject, costUsd: 60, now: NOW, baseDir });
+    const check = await checkSpendBudget({ cfg, subject, now: NOW, baseDir });
+    expect(check.action).toBe("downgrade");
+    expect(check.downgradeModel).toBe("openai/gpt-4o-mini");
+    expect(check.notices).toEqual([
+      '⚠️ Spend budget reached: agent "main" has used $60.00 of its $50.00 monthly budget. Switching to openai/gpt-4o-mini until it resets.',
+    ]);
+
+    const statuses = await loadSpendBudgetStatuses({ cfg, subject, now: NOW, baseDir });
+    expect(statuses.map((status) => formatSpendBudgetStatus(status))).toEqual([
+      '🚫 agent "main" monthly: $60.00 / $50.00 (120%) · using openai/gpt-4o-mini',
+      '✅ account "slack:default" monthly: $60.00 / $500.00 (12%)',
+    ]);
+
+    await recordSpend({ cfg, subject, costUsd: 450, now: NOW, baseDir });
+    expect((await checkSpendBudget({ cfg, subject, now: NOW, baseDir })).action).toBe("refuse");
+  });
+});
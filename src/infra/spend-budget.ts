@@ -0,0 +1,381 @@
+import path from "node:path";
+import type { OpenClawConfig } from "../config/config.js";
+import { resolveStateDir } from "../config/paths.js";
+import type { SpendBudgetConfig, SpendBudgetExceededAction } from "../config/types.budgets.js";
+import { formatUsd } from "../utils/usage-format.js";
+import { createAsyncLock, readJsonFile, writeJsonAtomic } from "./json-files.js";
+
+const SPEND_LEDGER_FILENAME = "spend-budgets.json";
+const DEFAULT_WARN_AT_PERCENT = 80;
+
+export type SpendBudgetScope = "agent" | "account" | "sender";
+export type SpendBudgetPeriod = "daily" | "monthly";
+
+/** Who a run is billed to: every matching budget is checked and charged. */
+export type SpendBudgetSubject = {
+  agentId?: string;
+  channel?: string;
+  accountId?: string;
+  senderId?: string;
+};
+
+export type ResolvedSpendBudget = {
+  scope: SpendBudgetScope;
+  /** Ledger key, e.g. `sender:whatsapp:+15551234567`. */
+  key: string;
+  label: string;
+  dailyUsd?: number;
+  monthlyUsd?: number;
+  warnAtPercent: number;
+  onExceeded: SpendBudgetExceededAction;
+  downgradeModel?: string;
+};
+
+export type SpendBudgetStatus = {
+  budget: ResolvedSpendBudget;
+  period: SpendBudgetPeriod;
+  spentUsd: number;
+  limitUsd: number;
+  percent: number;
+  state: "ok" | "warn" | "exceeded";
+};
+
+export type SpendBudgetCheck = {
+  action: "allow" | "refuse" | "downgrade";
+  statuses: SpendBudgetStatus[];
+  /** Model to switch to when action is "downgrade" (provider/model). */
+  downgradeModel?: string;
+  /** Refusal text when action is "refuse". */
+  refusal?: string;
+  /** Soft-limit and downgrade notices to show the user (once per period). */
+  notices: string[];
+};
+
+type SpendLedgerEntry = {
+  day: string;
+  dayUsd: number;
+  month: string;
+  monthUsd: number;
+  /** `<period key>:<kind>` markers so notices are sent once per period. */
+  notified?: string[];
+};
+
+type SpendLedger = {
+  version: 1;
+  entries: Record<string, SpendLedgerEntry>;
+};
+
+const withLedgerLock = createAsyncLock();
+
+function resolveLedgerPath(baseDir?: string): string {
+  return path.join(baseDir ?? resolveStateDir(), SPEND_LEDGER_FILENAME);
+}
+
+function formatDayKey(date: Date): string {
+  return date.toLocaleDateString("en-CA", {
+    timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  });
+}
+
+function periodKeys(now: Date) {
+  const day = formatDayKey(now);
+  return { day, month: day.slice(0, 7) };
+}
+
+async function loadLedger(baseDir?: string): Promise<SpendLedger> {
+  const raw = await readJsonFile<SpendLedger>(resolveLedgerPath(baseDir));
+  if (!raw || typeof raw !== "object" || !raw.entries || typeof raw.entries !== "object") {
+    return { version: 1, entries: {} };
+  }
+  return { version: 1, entries: raw.entries };
+}
+
+function currentEntry(entry: SpendLedgerEntry | undefined, now: Date): SpendLedgerEntry {
+  const { day, month } = periodKeys(now);
+  if (!entry) {
+    return { day, dayUsd: 0, month, monthUsd: 0 };
+  }
+  const sameMonth = entry.month === month;
+  const sameDay = sameMonth && entry.day === day;
+  return {
+    day,
+    dayUsd: sameDay ? entry.dayUsd : 0,
+    month,
+    monthUsd: sameMonth ? entry.monthUsd : 0,
+    notified: (entry.notified ?? []).filter(
+      (marker) => marker.startsWith(`${day}:`) || marker.startsWith(`${month}:`),
+    ),
+  };
+}
+
+export function isSpendBudgetEnabled(cfg?: OpenClawConfig): boolean {
+  const budgets = cfg?.budgets;
+  if (!budgets || budgets.enabled === false) {
+    return false;
+  }
+  return [budgets.agents, budgets.accounts, budgets.senders].some(
+    (entries) => entries && Object.keys(entries).length > 0,
+  );
+}
+
+function resolveBudget(
+  cfg: OpenClawConfig,
+  scope: SpendBudgetScope,
+  entity: string,
+  entry: SpendBudgetConfig | undefined,
+): ResolvedSpendBudget | undefined {
+  if (!entry || (entry.dailyUsd === undefined && entry.monthlyUsd === undefined)) {
+    return undefined;
+  }
+  const defaults = cfg.budgets;
+  return {
+    scope,
+    key: `${scope}:${entity}`,
+    label: `${scope} "${entity}"`,
+    dailyUsd: entry.dailyUsd,
+    monthlyUsd: entry.monthlyUsd,
+    warnAtPercent: entry.warnAtPercent ?? defaults?.warnAtPercent ?? DEFAULT_WARN_AT_PERCENT,
+    onExceeded: entry.onExceeded ?? defaults?.onExceeded ?? "refuse",
+    downgradeModel: entry.downgradeModel ?? defaults?.downgradeModel,
+  };
+}
+
+/**
+ * Budgets that apply to a run. Config keys pick the limit (exact entity first,
+ * then channel, then "*"); spend is always tracked per individual entity.
+ */
+export function resolveSpendBudgets(
+  cfg: OpenClawConfig | undefined,
+  subject: SpendBudgetSubject,
+): ResolvedSpendBudget[] {
+  if (!cfg || !isSpendBudgetEnabled(cfg)) {
+    return [];
+  }
+  const budgets = cfg.budgets ?? {};
+  const resolved: ResolvedSpendBudget[] = [];
+  const agentId = subject.agentId?.trim().toLowerCase();
+  const channel = subject.channel?.trim().toLowerCase();
+  const senderId = subject.senderId?.trim();
+
+  if (agentId) {
+    const agentBudget = resolveBudget(
+      cfg,
+      "agent",
+      agentId,
+      budgets.agents?.[agentId] ?? budgets.agents?.["*"],
+    );
+    if (agentBudget) {
+      resolved.push(agentBudget);
+    }
+  }
+  if (channel) {
+    const account = `${channel}:${subject.accountId?.trim() || "default"}`;
+    const accountBudget = resolveBudget(
+      cfg,
+      "account",
+      account,
+      budgets.accounts?.[account] ?? budgets.accounts?.[channel] ?? budgets.accounts?.["*"],
+    );
+    if (accountBudget) {
+      resolved.push(accountBudget);
+    }
+  }
+  if (senderId) {
+    const sender = channel ? `${channel}:${senderId}` : senderId;
+    const senderBudget = resolveBudget(
+      cfg,
+      "sender",
+      sender,
+      budgets.senders?.[sender] ?? budgets.senders?.[senderId] ?? budgets.senders?.["*"],
+    );
+    if (senderBudget) {
+      resolved.push(senderBudget);
+    }
+  }
+  return resolved;
+}
+
+function buildStatuses(budget: ResolvedSpendBudget, entry: SpendLedgerEntry): SpendBudgetStatus[] {
+  const statuses: SpendBudgetStatus[] = [];
+  const limits: Array<[SpendBudgetPeriod, number | undefined, number]> = [
+    ["daily", budget.dailyUsd, entry.dayUsd],
+    ["monthly", budget.monthlyUsd, entry.monthUsd],
+  ];
+  for (const [period, limitUsd, spentUsd] of limits) {
+    if (limitUsd === undefined) {
+      continue;
+    }
+    const percent = limitUsd > 0 ? (spentUsd / limitUsd) * 100 : 100;
+    const state =
+      spentUsd >= limitUsd ? "exceeded" : percent >= budget.warnAtPercent ? "warn" : "ok";
+    statuses.push({ budget, period, spentUsd, limitUsd, percent, state });
+  }
+  return statuses;
+}
+
+function describeStatus(status: SpendBudgetStatus): string {
+  const spent = formatUsd(status.spentUsd) ?? "$0.00";
+  const limit = formatUsd(status.limitUsd) ?? "$0.00";
+  return `${status.budget.label} has used ${spent} of its ${limit} ${status.period} budget`;
+}
+
+function formatRefusal(status: SpendBudgetStatus): string {
+  const reset = status.period === "daily" ? "tomorrow" : "next month";
+  return `🚫 Spend budget reached: ${describeStatus(status)}. Try again ${reset} or ask an admin to raise the limit.`;
+}
+
+/**
+ * Check the budgets for a run before it starts. Hard limits refuse the run or
+ * switch it to a cheaper model; soft limits produce a one-time notice.
+ */
+export async function checkSpendBudget(params: {
+  cfg?: OpenClawConfig;
+  subject: SpendBudgetSubject;
+  now?: Date;
+  baseDir?: string;
+}): Promise<SpendBudgetCheck> {
+  const budgets = resolveSpendBudgets(params.cfg, params.subject);
+  if (budgets.length === 0) {
+    return { action: "allow", statuses: [], notices: [] };
+  }
+  const now = params.now ?? new Date();
+  const { day, month } = periodKeys(now);
+  return await withLedgerLock(async () => {
+    const ledger = await loadLedger(params.baseDir);
+    const statuses: SpendBudgetStatus[] = [];
+    const notices: string[] = [];
+    let dirty = false;
+    const notifyOnce = (status: SpendBudgetStatus, kind: string, text: string) => {
+      const entry = currentEntry(ledger.entries[status.budget.key], now);
+      const marker = `${status.period === "daily" ? day : month}:${kind}`;
+      if (entry.notified?.includes(marker)) {
+        return;
+      }
+      entry.notified = [...(entry.notified ?? []), marker];
+      ledger.entries[status.budget.key] = entry;
+      notices.push(text);
+      dirty = true;
+    };
+
+    for (const budget of budgets) {
+      statuses.push(...buildStatuses(budget, currentEntry(ledger.entries[budget.key], now)));
+    }
+    const exceeded = statuses.filter((status) => status.state === "exceeded");
+    const downgradeModel = exceeded[0]?.budget.downgradeModel;
+    const canDowngrade =
+      exceeded.length > 0 &&
+      Boolean(downgradeModel) &&
+      exceeded.every(
+        (status) =>
+          status.budget.onExceeded === "downgrade" &&
+          status.budget.downgradeModel === downgradeModel,
+      );
+
+    let action: SpendBudgetCheck["action"] = "allow";
+    let refusal: string | undefined;
+    if (exceeded.length > 0 && !canDowngrade) {
+      action = "refuse";
+      refusal = formatRefusal(
+        exceeded.find((status) => status.budget.onExceeded === "refuse") ?? exceeded[0],
+      );
+    } else if (canDowngrade) {
+      action = "downgrade";
+      for (const status of exceeded) {
+        notifyOnce(
+          status,
+          "downgrade",
+          `⚠️ Spend budget reached: ${describeStatus(status)}. Switching to ${downgradeModel} until it resets.`,
+        );
+      }
+    }
+    if (action !== "refuse") {
+      for (const status of statuses.filter((entry) => entry.state === "warn")) {
+        notifyOnce(
+          status,
+          "warn",
+          `⚠️ Spend budget: ${describeStatus(status)} (${Math.floor(status.percent)}%).`,
+        );
+      }
+    }
+    if (dirty) {
+      await writeJsonAtomic(resolveLedgerPath(params.baseDir), ledger);
+    }
+    return {
+      action,
+      statuses,
+      downgradeModel: action === "downgrade" ? downgradeModel : undefined,
+      refusal,
+      notices,
+    };
+  });
+}
+
+/**
+ * Charge a finished run to every budget that applies to it.
+ */
+export async function recordSpend(params: {
+  cfg?: OpenClawConfig;
+  subject: SpendBudgetSubject;
+  costUsd: number;
+  now?: Date;
+  baseDir?: string;
+}): Promise<void> {
+  if (!Number.isFinite(params.costUsd) || params.costUsd <= 0) {
+    return;
+  }
+  const budgets = resolveSpendBudgets(params.cfg, params.subject);
+  if (budgets.length === 0) {
+    return;
+  }
+  const now = params.now ?? new Date();
+  const { month } = periodKeys(now);
+  await withLedgerLock(async () => {
+    const ledger = await loadLedger(params.baseDir);
+    for (const budget of budgets) {
+      const entry = currentEntry(ledger.entries[budget.key], now);
+      entry.dayUsd += params.costUsd;
+      entry.monthUsd += params.costUsd;
+      ledger.entries[budget.key] = entry;
+    }
+    // Entries from earlier months no longer count toward any limit
+    for (const [key, entry] of Object.entries(ledger.entries)) {
+      if (entry.month !== month) {
+        delete ledger.entries[key];
+      }
+    }
+    await writeJsonAtomic(resolveLedgerPath(params.baseDir), ledger);
+  });
+}
+
+/**
+ * Current spend against every budget that applies to a subject (no notices).
+ */
+export async function loadSpendBudgetStatuses(params: {
+  cfg?: OpenClawConfig;
+  subject: SpendBudgetSubject;
+  now?: Date;
+  baseDir?: string;
+}): Promise<SpendBudgetStatus[]> {
+  const budgets = resolveSpendBudgets(params.cfg, params.subject);
+  if (budgets.length === 0) {
+    return [];
+  }
+  const now = params.now ?? new Date();
+  const ledger = await loadLedger(params.baseDir);
+  return budgets.flatMap((budget) =>
+    buildStatuses(budget, currentEntry(ledger.entries[budget.key], now)),
+  );
+}
+
+export function formatSpendBudgetStatus(status: SpendBudgetStatus): string {
+  const spent = formatUsd(status.spentUsd) ?? "$0.00";
+  const limit = formatUsd(status.limitUsd) ?? "$0.00";
+  const marker = status.state === "exceeded" ? "🚫" : status.state === "warn" ? "⚠️" : "✅";
+  const action =
+    status.state === "exceeded"
+      ? status.budget.onExceeded === "downgrade" && status.budget.downgradeModel
+        ? ` · using ${status.budget.downgradeModel}`
+        : " · refusing runs"
+      : "";
+  return `${marker} ${status.budget.label} ${status.period}: ${spent} / ${limit} (${Math.floor(status.percent)}%)${action}`;
+}
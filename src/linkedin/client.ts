@@ -5,6 +5,7 @@
  */
 
 import { resolveFetch } from "../infra/fetch.js";
+import { WEBHOOK_SIGNING_SCHEMES } from "../security/webhook-verify.js";
 import type {
   LinkedInApiError,
   LinkedInClientOptions,
@@ -559,14 +560,29 @@ export async function startChat(
 /**
  * Create a webhook for messaging events.
  * POST /api/v1/webhooks
+ *
+ * When `webhookSecret` is set, Unipile is asked to send it back in the header the
+ * shared webhook verifier checks for LinkedIn deliveries.
  */
 export async function createWebhook(
   opts: LinkedInClientOptions,
-  request: Omit<LinkedInCreateWebhookRequest, "source" | "account_ids" | "enabled" | "events">,
+  request: Omit<LinkedInCreateWebhookRequest, "source" | "account_ids" | "enabled" | "events"> & {
+    webhookSecret?: string;
+  },
 ): Promise<LinkedInCreateWebhookResponse> {
   const path = `/api/v1/webhooks`;
+  const { webhookSecret, ...rest } = request;
+  const headers = webhookSecret
+    ? [
+        ...(rest.headers ?? []).filter(
+          (header) => header.key.toLowerCase() !== WEBHOOK_SIGNING_SCHEMES.linkedin.header,
+        ),
+        { key: WEBHOOK_SIGNING_SCHEMES.linkedin.header, value: webhookSecret },
+      ]
+    : rest.headers;
   return linkedInRequest<LinkedInCreateWebhookResponse>("POST", path, opts, {
-    ...request,
+    ...rest,
+    headers,
     source: "messaging",
     account_ids: [opts.accountId],
     enabled: true,
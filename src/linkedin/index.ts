@@ -46,6 +46,13 @@ export type {
   LinkedInUserProfile,
   LinkedInUserActivityItem,
   LinkedInUserActivityResponse,
+  // Types - Outreach
+  LinkedInOutreachConfig,
+  LinkedInOutreachSequence,
+  LinkedInOutreachEnrollment,
+  // Types - Saved searches
+  LinkedInSavedSearch,
+  LinkedInSavedSearchAnnounceTarget,
 } from "./types.js";
 
 // Client functions - Talent Search
@@ -94,6 +101,27 @@ export type { TalentSearchParams, TalentSearchResult, FormattedCandidate } from
 
 export { searchTalent, lookupSearchParameter, formatSearchResultsText } from "./search.js";
 
+// Outreach sequences
+export {
+  createOutreachSequence,
+  enrollOutreachCandidates,
+  runOutreachOnce,
+  startLinkedInOutreachRunner,
+  buildOutreachStatus,
+  formatOutreachStatus,
+  type OutreachMessenger,
+  type OutreachStatusView,
+} from "./outreach.js";
+
+// Saved searches
+export {
+  saveLinkedInSearch,
+  runSavedSearch,
+  formatSavedSearchAlert,
+  formatSavedSearchRunSummary,
+  type SavedSearchRunResult,
+} from "./saved-search.js";
+
 // Agent tools
 export {
   createLinkedInTalentSearchTool,
@@ -102,6 +130,8 @@ export {
   createLinkedInInMailCandidateTool,
   createLinkedInListConversationsTool,
   createLinkedInGetConversationMessagesTool,
+  createLinkedInOutreachTool,
+  createLinkedInSavedSearchTool,
   isLinkedInTalentSearchAvailable,
   getLinkedInTalentSearchStatus,
 } from "./tool.js";
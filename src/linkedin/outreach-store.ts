@@ -0,0 +1,94 @@
+/**
+ * LinkedIn Outreach Storage
+ *
+ * Persist outreach sequences and their enrollments to a workspace JSON file so
+ * the outreach runner can resume across gateway restarts.
+ */
+
+import path from "node:path";
+import { createAsyncLock, readJsonFile, writeJsonAtomic } from "../infra/json-files.js";
+import type { LinkedInOutreachSequence, LinkedInOutreachStore } from "./types.js";
+
+const OUTREACH_STORE_FILENAME = "linkedin-outreach.json";
+
+// Archived sequences are kept for a month so their status can still be reviewed
+const RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+const withOutreachLock = createAsyncLock();
+
+/**
+ * Get the outreach store path for a workspace directory.
+ */
+export function getOutreachStorePath(workspaceDir: string): string {
+  return path.join(workspaceDir, OUTREACH_STORE_FILENAME);
+}
+
+function cleanupArchivedSequences(
+  store: LinkedInOutreachStore,
+  now: number,
+): LinkedInOutreachStore {
+  const sequences: Record<string, LinkedInOutreachSequence> = {};
+  for (const [id, sequence] of Object.entries(store.sequences)) {
+    const updatedAt = Date.parse(sequence.updated_at);
+    if (sequence.status === "archived" && now - updatedAt > RETENTION_MS) {
+      continue;
+    }
+    sequences[id] = sequence;
+  }
+  return { sequences };
+}
+
+/**
+ * Read the outreach store for a workspace.
+ */
+export async function readOutreachStore(workspaceDir: string): Promise<LinkedInOutreachStore> {
+  const raw = await readJsonFile<LinkedInOutreachStore>(getOutreachStorePath(workspaceDir));
+  if (!raw || typeof raw !== "object" || !raw.sequences || typeof raw.sequences !== "object") {
+    return { sequences: {} };
+  }
+  return { sequences: raw.sequences };
+}
+
+/**
+ * Get a single sequence.
+ */
+export async function getOutreachSequence(
+  workspaceDir: string,
+  sequenceId: string,
+): Promise<LinkedInOutreachSequence | undefined> {
+  const store = await readOutreachStore(workspaceDir);
+  return store.sequences[sequenceId];
+}
+
+/**
+ * List sequences, newest first.
+ */
+export async function listOutreachSequences(
+  workspaceDir: string,
+): Promise<LinkedInOutreachSequence[]> {
+  const store = await readOutreachStore(workspaceDir);
+  return Object.values(store.sequences).toSorted((a, b) =>
+    b.created_at.localeCompare(a.created_at),
+  );
+}
+
+/**
+ * Apply a mutation to a sequence under the store lock.
+ * Creates the sequence when `update` receives undefined and returns a value.
+ */
+export async function updateOutreachSequence(
+  workspaceDir: string,
+  sequenceId: string,
+  update: (sequence: LinkedInOutreachSequence | undefined) => LinkedInOutreachSequence | undefined,
+): Promise<LinkedInOutreachSequence | undefined> {
+  return await withOutreachLock(async () => {
+    const store = cleanupArchivedSequences(await readOutreachStore(workspaceDir), Date.now());
+    const next = update(store.sequences[sequenceId]);
+    if (!next) {
+      return store.sequences[sequenceId];
+    }
+    store.sequences[sequenceId] = { ...next, updated_at: new Date().toISOString() };
+    await writeJsonAtomic(getOutreachStorePath(workspaceDir), store);
+    return store.sequences[sequenceId];
+  });
+}
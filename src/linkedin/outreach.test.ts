@@ -0,0 +1,183 @@
+import fs from "node:fs/promises";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { OpenClawConfig } from "../config/config.js";
+import { peekSystemEvents, resetSystemEventsForTest } from "../infra/system-events.js";
+import { makeTempWorkspace } from "../test-helpers/workspace.js";
+import { getOutreachSequence } from "./outreach-store.js";
+import {
+  buildOutreachStatus,
+  createOutreachSequence,
+  enrollOutreachCandidates,
+  renderOutreachTemplate,
+  runOutreachOnce,
+  type OutreachMessenger,
+} from "./outreach.js";
+
+const heartbeatMock = vi.hoisted(() => vi.fn());
+
+vi.mock("../infra/heartbeat-wake.js", () => ({ requestHeartbeatNow: heartbeatMock }));
+
+const cfg = {
+  tools: {
+    linkedin: {
+      baseUrl: "https://api.example.com",
+      apiKey: "key",
+      accountId: "acc-1",
+      outreach: {
+        dailySendLimit: 2,
+        quietHours: { start: "20:00", end: "08:00", timezone: "UTC" },
+      },
+    },
+  },
+} as OpenClawConfig;
+
+const SESSION_KEY = "agent:main:slack:dm:u1";
+
+function createMessenger(repliedChats: Set<string>) {
+  const sent: string[] = [];
+  const messenger: OutreachMessenger = {
+    fetchProfile: async (identifier) => ({
+      object: "UserProfile",
+      provider: "LINKEDIN",
+      provider_id: identifier,
+      public_identifier: identifier,
+      first_name: identifier.toUpperCase(),
+      last_name: "Doe",
+      headline: "Engineer",
+    }),
+    startChat: async (identifier, text) => {
+      sent.push(`start ${identifier}: ${text}`);
+      return { chatId: `chat-${identifier}`, messageId: `m-${sent.length}` };
+    },
+    sendMessage: async (chatId, text) => {
+      sent.push(`send ${chatId}: ${text}`);
+      return { messageId: `m-${sent.length}` };
+    },
+    hasReply: async (chatId) => repliedChats.has(chatId),
+  };
+  return { sent, messenger };
+}
+
+describe("renderOutreachTemplate", () => {
+  it("fills variables and reports missing ones", () => {
+    expect(
+      renderOutreachTemplate("Hi {{ first_name }}, the {{role}} role fits your {{headline}}.", {
+        first_name: "Ada",
+        role: "Staff",
+        headline: "Engineer",
+      }),
+    ).toEqual({ ok: true, text: "Hi Ada, the Staff role fits your Engineer." });
+    expect(
+      renderOutreachTemplate("Hi {{first_name}} at {{company}}", { first_name: "Ada" }),
+    ).toEqual({ ok: false, missing: ["company"] });
+  });
+});
+
+describe("runOutreachOnce", () => {
+  let workspaceDir: string;
+
+  beforeEach(async () => {
+    workspaceDir = await makeTempWorkspace("openclaw-outreach-");
+    heartbeatMock.mockClear();
+    resetSystemEventsForTest();
+  });
+
+  afterEach(async () => {
+    await fs.rm(workspaceDir, { recursive: true, force: true });
+  });
+
+  it("caps daily sends, holds quiet hours, follows up and stops on reply", async () => {
+    const sequence = await createOutreachSequence({
+      cfg,
+      workspaceDir,
+      name: "Platform engineers",
+      sessionKey: SESSION_KEY,
+      steps: [
+        { template: "Hi {{first_name}}, are you open to a {{role}} role?", delay_days: 0 },
+        { template: "Following up, {{first_name}}.", delay_days: 3 },
+      ],
+    });
+    await enrollOutreachCandidates({
+      workspaceDir,
+      sequenceId: sequence.sequence_id,
+      candidates: ["a", "b", "c"].map((identifier) => ({
+        identifier,
+        variables: { role: "platform" },
+      })),
+    });
+    const replied = new Set<string>();
+    const { sent, messenger } = createMessenger(replied);
+    const run = (iso: string) =>
+      runOutreachOnce({
+        cfg,
+        workspaceDirs: [workspaceDir],
+        messengerFor: () => messenger,
+        now: Date.parse(iso),
+      });
+
+    // Daily cap of two, and the cap holds for the rest of the day
+    await run("2026-03-10T12:00:00Z");
+    await run("2026-03-10T15:00:00Z");
+    expect(sent).toEqual([
+      "start a: Hi A, are you open to a platform role?",
+      "start b: Hi B, are you open to a platform role?",
+    ]);
+
+    // Quiet hours hold the next day's first message until the morning
+    await run("2026-03-10T21:00:00Z");
+    expect(sent).toHaveLength(2);
+    await run("2026-03-11T09:00:00Z");
+    expect(sent.at(-1)).toBe("start c: Hi C, are you open to a platform role?");
+
+    // A replies; only B gets the follow-up
+    replied.add("chat-a");
+    await run("2026-03-13T12:00:00Z");
+    expect(sent.at(-1)).toBe("send chat-b: Following up, B.");
+    expect(sent).toHaveLength(4);
+
+    const stored = await getOutreachSequence(workspaceDir, sequence.sequence_id);
+    const status = buildOutreachStatus(stored!, { includeEnrollments: true });
+    expect(status.by_status).toEqual({ replied: 1, waiting: 2 });
+    expect(status.waiting_by_step).toEqual({ after_step_1: 1, after_step_2: 1 });
+    expect(status.enrollments?.map((entry) => [entry.identifier, entry.step])).toEqual([
+      ["a", "1/2"],
+      ["b", "2/2"],
+      ["c", "1/2"],
+    ]);
+    expect(stored?.enrollments[0].name).toBe("A Doe");
+
+    const events = peekSystemEvents(SESSION_KEY);
+    expect(events).toHaveLength(1);
+    expect(events[0]).toContain("A Doe replied");
+    expect(heartbeatMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("fails enrollments whose templates cannot be filled", async () => {
+    const sequence = await createOutreachSequence({
+      cfg,
+      workspaceDir,
+      name: "Missing vars",
+      steps: [{ template: "Hi {{first_name}} from {{company}}", delay_days: 0 }],
+    });
+    await enrollOutreachCandidates({
+      workspaceDir,
+      sequenceId: sequence.sequence_id,
+      candidates: [{ identifier: "a" }, { identifier: "a" }],
+    }).then((result) => expect(result.skipped).toEqual(["a"]));
+    const { sent, messenger } = createMessenger(new Set());
+
+    await runOutreachOnce({
+      cfg,
+      workspaceDirs: [workspaceDir],
+      messengerFor: () => messenger,
+      now: Date.parse("2026-03-10T12:00:00Z"),
+    });
+
+    expect(sent).toEqual([]);
+    const stored = await getOutreachSequence(workspaceDir, sequence.sequence_id);
+    expect(stored?.enrollments[0]).toMatchObject({
+      status: "failed",
+      error: "Missing template variables: company",
+    });
+  });
+});
@@ -0,0 +1,752 @@
+/**
+ * LinkedIn Outreach Sequences
+ *
+ * Multi-step outreach: an initial message, then follow-ups after N days while
+ * the candidate has not replied. Sends respect a daily per-account cap and
+ * quiet hours; templates are filled from the candidate's LinkedIn profile.
+ */
+
+import { randomUUID } from "node:crypto";
+import { listAgentIds, resolveAgentWorkspaceDir } from "../agents/agent-scope.js";
+import { getZonedDateTime } from "../calendar-availability/time-zone.js";
+import { trackCandidateActivity } from "../candidate-pipeline/store.js";
+import type { OpenClawConfig } from "../config/config.js";
+import { resolveMainSessionKey } from "../config/sessions/main-session.js";
+import {
+  isWithinHoursWindow,
+  resolveActiveHoursTimezone,
+  type HoursWindow,
+} from "../infra/heartbeat-active-hours.js";
+import { requestHeartbeatNow } from "../infra/heartbeat-wake.js";
+import { enqueueSystemEvent } from "../infra/system-events.js";
+import { createSubsystemLogger } from "../logging/subsystem.js";
+import { DEFAULT_ACCOUNT_ID, normalizeAccountId } from "../routing/session-key.js";
+import {
+  buildClientOptions,
+  listEnabledLinkedInAccounts,
+  resolveLinkedInAccount,
+} from "./accounts.js";
+import {
+  classifyLinkedInError,
+  getMessages,
+  getUserProfile,
+  sendMessage,
+  startChat,
+} from "./client.js";
+import { listOutreachSequences, updateOutreachSequence } from "./outreach-store.js";
+import type {
+  LinkedInOutreachEnrollment,
+  LinkedInOutreachEnrollmentStatus,
+  LinkedInOutreachSequence,
+  LinkedInOutreachStep,
+  LinkedInUserProfile,
+} from "./types.js";
+
+const log = createSubsystemLogger("linkedin-outreach");
+
+const DEFAULT_TICK_MS = 5 * 60_000;
+const DEFAULT_DAILY_SEND_LIMIT = 25;
+const DEFAULT_QUIET_HOURS: HoursWindow = { start: "20:00", end: "08:00" };
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_STEPS = 10;
+
+/** Waiting enrollments are checked for replies at most this often. */
+const REPLY_CHECK_INTERVAL_MS = 60 * 60_000;
+
+/** After the last step, keep watching for a reply this long before completing. */
+const FINAL_REPLY_WINDOW_DAYS = 7;
+
+const TEMPLATE_VARIABLE_PATTERN = /\{\{\s*([a-z0-9_]+)\s*\}\}/gi;
+
+// =============================================================================
+// Settings
+// =============================================================================
+
+export type ResolvedOutreachSettings = {
+  dailySendLimit: number;
+  accountDailySendLimits: Record<string, number>;
+  quietHours: HoursWindow;
+};
+
+export function resolveOutreachSettings(cfg: OpenClawConfig): ResolvedOutreachSettings {
+  const outreach = cfg.tools?.linkedin?.outreach;
+  return {
+    dailySendLimit: outreach?.dailySendLimit ?? DEFAULT_DAILY_SEND_LIMIT,
+    accountDailySendLimits: outreach?.accountDailySendLimits ?? {},
+    quietHours: outreach?.quietHours ?? DEFAULT_QUIET_HOURS,
+  };
+}
+
+function resolveDailyLimit(settings: ResolvedOutreachSettings, accountId: string): number {
+  return settings.accountDailySendLimits[accountId] ?? settings.dailySendLimit;
+}
+
+// =============================================================================
+// Templates
+// =============================================================================
+
+/**
+ * Variables referenced by a template, in order of first use.
+ */
+export function listTemplateVariables(template: string): string[] {
+  const names = new Set<string>();
+  for (const match of template.matchAll(TEMPLATE_VARIABLE_PATTERN)) {
+    names.add(match[1].toLowerCase());
+  }
+  return Array.from(names);
+}
+
+/**
+ * Fill `{{variable}}` placeholders. Returns the missing variable names instead
+ * of sending a message with blanks in it.
+ */
+export function renderOutreachTemplate(
+  template: string,
+  variables: Record<string, string>,
+): { ok: true; text: string } | { ok: false; missing: string[] } {
+  const missing = listTemplateVariables(template).filter((name) => !variables[name]?.trim());
+  if (missing.length > 0) {
+    return { ok: false, missing };
+  }
+  const text = template.replace(TEMPLATE_VARIABLE_PATTERN, (_match, name: string) =>
+    variables[name.toLowerCase()].trim(),
+  );
+  return { ok: true, text: text.trim() };
+}
+
+/**
+ * Template variables derived from a LinkedIn profile.
+ */
+export function profileTemplateVariables(profile: LinkedInUserProfile): Record<string, string> {
+  const name =
+    profile.full_name ?? [profile.first_name, profile.last_name].filter(Boolean).join(" ");
+  const entries: Array<[string, string | null | undefined]> = [
+    ["first_name", profile.first_name],
+    ["last_name", profile.last_name],
+    ["name", name],
+    ["headline", profile.headline],
+    ["location", profile.location],
+    ["industry", profile.industry],
+  ];
+  const variables: Record<string, string> = {};
+  for (const [key, value] of entries) {
+    if (value?.trim()) {
+      variables[key] = value.trim();
+    }
+  }
+  return variables;
+}
+
+// =============================================================================
+// Creation
+// =============================================================================
+
+export async function createOutreachSequence(params: {
+  cfg: OpenClawConfig;
+  workspaceDir: string;
+  name: string;
+  steps: LinkedInOutreachStep[];
+  accountId?: string;
+  sessionKey?: string;
+  now?: number;
+}): Promise<LinkedInOutreachSequence> {
+  const name = params.name.trim();
+  if (!name) {
+    throw new Error("Sequence name is required");
+  }
+  if (params.steps.length === 0 || params.steps.length > MAX_STEPS) {
+    throw new Error(`A sequence needs 1-${MAX_STEPS} steps`);
+  }
+  const steps = params.steps.map((step, index) => {
+    if (!step.template.trim()) {
+      throw new Error(`Step ${index + 1} has an empty template`);
+    }
+    if (!Number.isFinite(step.delay_days) || step.delay_days < 0) {
+      throw new Error(`Step ${index + 1} needs a delay_days of 0 or more`);
+    }
+    return { template: step.template.trim(), delay_days: index === 0 ? 0 : step.delay_days };
+  });
+  const accountId = normalizeAccountId(params.accountId ?? DEFAULT_ACCOUNT_ID);
+  if (!buildClientOptions(resolveLinkedInAccount({ cfg: params.cfg, accountId }))) {
+    throw new Error(`LinkedIn account "${accountId}" is not configured`);
+  }
+
+  const createdAt = new Date(params.now ?? Date.now()).toISOString();
+  const sequence: LinkedInOutreachSequence = {
+    sequence_id: `seq_${randomUUID().slice(0, 8)}`,
+    name,
+    account_id: accountId,
+    status: "active",
+    steps,
+    created_at: createdAt,
+    updated_at: createdAt,
+    session_key: params.sessionKey,
+    enrollments: [],
+  };
+  await updateOutreachSequence(params.workspaceDir, sequence.sequence_id, () => sequence);
+  return sequence;
+}
+
+export type OutreachCandidateInput = {
+  identifier: string;
+  name?: string;
+  variables?: Record<string, string>;
+};
+
+/**
+ * Add candidates to a sequence. Candidates already enrolled are skipped.
+ */
+export async function enrollOutreachCandidates(params: {
+  workspaceDir: string;
+  sequenceId: string;
+  candidates: OutreachCandidateInput[];
+  now?: number;
+}): Promise<{ sequence: LinkedInOutreachSequence; added: number; skipped: string[] }> {
+  const enrolledAt = new Date(params.now ?? Date.now()).toISOString();
+  let added = 0;
+  const skipped: string[] = [];
+  let missing = false;
+  const sequence = await updateOutreachSequence(
+    params.workspaceDir,
+    params.sequenceId,
+    (current) => {
+      if (!current || current.status === "archived") {
+        missing = true;
+        return undefined;
+      }
+      const seen = new Set(current.enrollments.map((entry) => entry.identifier));
+      const enrollments = [...current.enrollments];
+      for (const candidate of params.candidates) {
+        const identifier = candidate.identifier.trim();
+        if (!identifier || seen.has(identifier)) {
+          skipped.push(identifier || "(empty identifier)");
+          continue;
+        }
+        seen.add(identifier);
+        enrollments.push({
+          identifier,
+          name: candidate.name?.trim() || undefined,
+          status: "pending",
+          next_step: 0,
+          variables: candidate.variables ?? {},
+          sends: [],
+          enrolled_at: enrolledAt,
+        });
+        added += 1;
+      }
+      return { ...current, enrollments };
+    },
+  );
+  if (!sequence || missing) {
+    throw new Error(`Sequence not found or archived: ${params.sequenceId}`);
+  }
+  return { sequence, added, skipped };
+}
+
+// =============================================================================
+// Messaging
+// =============================================================================
+
+/**
+ * LinkedIn calls the runner needs, injectable for tests.
+ */
+export type OutreachMessenger = {
+  fetchProfile: (identifier: string) => Promise<LinkedInUserProfile>;
+  startChat: (identifier: string, text: string) => Promise<{ chatId?: string; messageId?: string }>;
+  sendMessage: (chatId: string, text: string) => Promise<{ messageId?: string }>;
+  /** Whether the candidate wrote in the chat after `sinceIso`. */
+  hasReply: (chatId: string, sinceIso: string) => Promise<boolean>;
+};
+
+export function createOutreachMessenger(
+  cfg: OpenClawConfig,
+  accountId: string,
+): OutreachMessenger | undefined {
+  const opts = buildClientOptions(resolveLinkedInAccount({ cfg, accountId }));
+  if (!opts) {
+    return undefined;
+  }
+  return {
+    fetchProfile: async (identifier) => await getUserProfile(opts, identifier),
+    startChat: async (identifier, text) => {
+      const response = await startChat(opts, { attendees_ids: [identifier], text });
+      return {
+        chatId: response.chat_id ?? undefined,
+        messageId: response.message_id ?? undefined,
+      };
+    },
+    sendMessage: async (chatId, text) => {
+      const response = await sendMessage(opts, chatId, { text });
+      return { messageId: response.message_id ?? undefined };
+    },
+    hasReply: async (chatId, sinceIso) => {
+      const response = await getMessages(opts, chatId, { limit: 20, after: sinceIso });
+      return response.items.some(
+        (message) => message.is_sender === 0 && !message.is_event && !message.deleted,
+      );
+    },
+  };
+}
+
+// =============================================================================
+// Runner
+// =============================================================================
+
+/** Remaining sends for one LinkedIn account today, shared across sequences. */
+export type OutreachSendBudget = { remaining: number };
+
+function isEnrollmentFinished(status: LinkedInOutreachEnrollmentStatus): boolean {
+  return status !== "pending" && status !== "waiting";
+}
+
+function nextActionAt(sequence: LinkedInOutreachSequence, nextStep: number, now: number): string {
+  const delayDays = sequence.steps[nextStep]?.delay_days ?? FINAL_REPLY_WINDOW_DAYS;
+  return new Date(now + delayDays * DAY_MS).toISOString();
+}
+
+async function resolveVariables(
+  enrollment: LinkedInOutreachEnrollment,
+  messenger: OutreachMessenger,
+): Promise<Record<string, string>> {
+  // Profile fields are fetched once, at the first send, and kept with the enrollment
+  if (enrollment.sends.length > 0) {
+    return enrollment.variables;
+  }
+  const profile = await messenger.fetchProfile(enrollment.identifier);
+  return { ...profileTemplateVariables(profile), ...enrollment.variables };
+}
+
+async function sendNextStep(params: {
+  sequence: LinkedInOutreachSequence;
+  enrollment: LinkedInOutreachEnrollment;
+  messenger: OutreachMessenger;
+  now: number;
+}): Promise<LinkedInOutreachEnrollment> {
+  const { sequence, enrollment, messenger, now } = params;
+  const variables = await resolveVariables(enrollment, messenger);
+  const step = sequence.steps[enrollment.next_step];
+  const rendered = renderOutreachTemplate(step.template, variables);
+  if (!rendered.ok) {
+    return {
+      ...enrollment,
+      variables,
+      status: "failed",
+      error: `Missing template variables: ${rendered.missing.join(", ")}`,
+    };
+  }
+
+  let chatId = enrollment.chat_id;
+  let messageId: string | undefined;
+  if (chatId) {
+    messageId = (await messenger.sendMessage(chatId, rendered.text)).messageId;
+  } else {
+    const started = await messenger.startChat(enrollment.identifier, rendered.text);
+    chatId = started.chatId;
+    messageId = started.messageId;
+  }
+  const sentAt = new Date(now).toISOString();
+  const nextStep = enrollment.next_step + 1;
+  return {
+    ...enrollment,
+    name: enrollment.name ?? variables.name,
+    variables,
+    chat_id: chatId,
+    status: chatId ? "waiting" : "completed",
+    next_step: nextStep,
+    next_action_at: chatId ? nextActionAt(sequence, nextStep, now) : undefined,
+    sends: [
+      ...enrollment.sends,
+      { step: enrollment.next_step, sent_at: sentAt, message_id: messageId },
+    ],
+    error: chatId ? undefined : "LinkedIn did not return a chat id; follow-ups are not possible",
+  };
+}
+
+/**
+ * Work one sequence forward: detect replies, then send steps that are due
+ * while the account has budget left and it is not quiet hours.
+ */
+export async function advanceOutreachSequence(params: {
+  workspaceDir: string;
+  sequence: LinkedInOutreachSequence;
+  messenger: OutreachMessenger;
+  budget: OutreachSendBudget;
+  quiet: boolean;
+  now?: number;
+}): Promise<{
+  sequence: LinkedInOutreachSequence;
+  sent: number;
+  replied: LinkedInOutreachEnrollment[];
+}> {
+  const { workspaceDir, sequence, messenger, budget, quiet } = params;
+  const now = params.now ?? Date.now();
+  const changes = new Map<string, LinkedInOutreachEnrollment>();
+  const replied: LinkedInOutreachEnrollment[] = [];
+  let sent = 0;
+
+  for (const original of sequence.enrollments) {
+    let enrollment = original;
+
+    if (enrollment.status === "waiting" && enrollment.chat_id) {
+      const due = Date.parse(enrollment.next_action_at ?? "") <= now;
+      const lastCheck = Date.parse(enrollment.reply_checked_at ?? "");
+      if (due || !(now - lastCheck < REPLY_CHECK_INTERVAL_MS)) {
+        try {
+          const hasReply = await messenger.hasReply(
+            enrollment.chat_id,
+            enrollment.sends[0]?.sent_at ?? enrollment.enrolled_at,
+          );
+          const checkedAt = new Date(now).toISOString();
+          enrollment = hasReply
+            ? {
+                ...enrollment,
+                status: "replied",
+                replied_at: checkedAt,
+                reply_checked_at: checkedAt,
+                next_action_at: undefined,
+              }
+            : { ...enrollment, reply_checked_at: checkedAt };
+          if (hasReply) {
+            replied.push(enrollment);
+          }
+        } catch (err) {
+          log.warn(
+            `sequence ${sequence.sequence_id}: reply check for ${enrollment.identifier} failed: ${String(err)}`,
+          );
+          continue;
+        }
+      }
+      if (enrollment.status === "waiting" && due && enrollment.next_step >= sequence.steps.length) {
+        enrollment = { ...enrollment, status: "completed", next_action_at: undefined };
+      }
+    }
+
+    const sendDue =
+      enrollment.status === "pending" ||
+      (enrollment.status === "waiting" &&
+        enrollment.next_step < sequence.steps.length &&
+        Date.parse(enrollment.next_action_at ?? "") <= now);
+    if (sendDue && sequence.status === "active" && !quiet && budget.remaining > 0) {
+      try {
+        enrollment = await sendNextStep({ sequence, enrollment, messenger, now });
+        if (enrollment.sends.length > original.sends.length) {
+          budget.remaining -= 1;
+          sent += 1;
+          if (original.sends.length === 0) {
+            await trackCandidateActivity(workspaceDir, {
+              identity: {
+                name: enrollment.name,
+                linkedin: { providerId: enrollment.identifier },
+              },
+              source: "outreach",
+              stage: "contacted",
+              summary: `LinkedIn outreach started: ${sequence.name}`,
+              ref: enrollment.chat_id,
+            });
+          }
+        }
+      } catch (err) {
+        const classified = classifyLinkedInError(err);
+        enrollment = classified.isTransient
+          ? { ...enrollment, error: classified.userFriendlyMessage }
+          : { ...enrollment, status: "failed", error: classified.userFriendlyMessage };
+        log.warn(
+          `sequence ${sequence.sequence_id}: send to ${enrollment.identifier} failed: ${classified.userFriendlyMessage}`,
+        );
+      }
+    }
+
+    if (enrollment !== original) {
+      changes.set(original.identifier, enrollment);
+    }
+  }
+
+  for (const enrollment of replied) {
+    await trackCandidateActivity(workspaceDir, {
+      identity: { name: enrollment.name, linkedin: { providerId: enrollment.identifier } },
+      source: "outreach",
+      summary: `Replied to LinkedIn outreach: ${sequence.name}`,
+      ref: enrollment.chat_id,
+    });
+  }
+
+  if (changes.size === 0) {
+    return { sequence, sent, replied };
+  }
+  const updated =
+    (await updateOutreachSequence(workspaceDir, sequence.sequence_id, (current) => {
+      if (!current) {
+        return undefined;
+      }
+      // Enrollments may have been added or stopped while messages were going out
+      const enrollments = current.enrollments.map((entry) => {
+        const change = changes.get(entry.identifier);
+        if (!change) {
+          return entry;
+        }
+        return entry.status === "stopped"
+          ? { ...change, status: "stopped" as const, next_action_at: undefined }
+          : change;
+      });
+      return { ...current, enrollments };
+    })) ?? sequence;
+  return { sequence: updated, sent, replied };
+}
+
+function resolveWorkspaceDirs(cfg: OpenClawConfig): string[] {
+  return Array.from(new Set(listAgentIds(cfg).map((id) => resolveAgentWorkspaceDir(cfg, id))));
+}
+
+function dayKey(ms: number, timeZone: string): string {
+  const { year, month, day } = getZonedDateTime(ms, timeZone);
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+/**
+ * Count outreach messages already sent today per LinkedIn account.
+ */
+export function countSendsToday(
+  sequences: LinkedInOutreachSequence[],
+  now: number,
+  timeZone: string,
+): Map<string, number> {
+  const today = dayKey(now, timeZone);
+  const counts = new Map<string, number>();
+  for (const sequence of sequences) {
+    for (const enrollment of sequence.enrollments) {
+      for (const send of enrollment.sends) {
+        if (dayKey(Date.parse(send.sent_at), timeZone) === today) {
+          counts.set(sequence.account_id, (counts.get(sequence.account_id) ?? 0) + 1);
+        }
+      }
+    }
+  }
+  return counts;
+}
+
+function notifyReplies(
+  cfg: OpenClawConfig,
+  sequence: LinkedInOutreachSequence,
+  replied: LinkedInOutreachEnrollment[],
+): void {
+  const names = replied.map((enrollment) => enrollment.name ?? enrollment.identifier);
+  const sessionKey = sequence.session_key ?? resolveMainSessionKey(cfg);
+  enqueueSystemEvent(
+    `LinkedIn outreach "${sequence.name}" (${sequence.sequence_id}): ${names.join(", ")} replied. Follow-ups for them are stopped.`,
+    { sessionKey },
+  );
+  requestHeartbeatNow({ reason: "linkedin-outreach", sessionKey });
+}
+
+/**
+ * Advance every sequence once across all agent workspaces. The daily cap is
+ * per LinkedIn account, so it is shared by all sequences and workspaces.
+ */
+export async function runOutreachOnce(params: {
+  cfg: OpenClawConfig;
+  workspaceDirs?: string[];
+  messengerFor?: (accountId: string) => OutreachMessenger | undefined;
+  now?: number;
+}): Promise<{ sent: number; replied: number }> {
+  const { cfg } = params;
+  const now = params.now ?? Date.now();
+  const settings = resolveOutreachSettings(cfg);
+  const quiet = isWithinHoursWindow(cfg, settings.quietHours, now);
+  const timeZone = resolveActiveHoursTimezone(cfg, settings.quietHours.timezone);
+  const messengerFor =
+    params.messengerFor ?? ((accountId: string) => createOutreachMessenger(cfg, accountId));
+
+  const workspaces: Array<{ workspaceDir: string; sequences: LinkedInOutreachSequence[] }> = [];
+  for (const workspaceDir of params.workspaceDirs ?? resolveWorkspaceDirs(cfg)) {
+    workspaces.push({ workspaceDir, sequences: await listOutreachSequences(workspaceDir) });
+  }
+  const sentToday = countSendsToday(
+    workspaces.flatMap((workspace) => workspace.sequences),
+    now,
+    timeZone,
+  );
+  const budgets = new Map<string, OutreachSendBudget>();
+  const messengers = new Map<string, OutreachMessenger | undefined>();
+
+  let sent = 0;
+  let replied = 0;
+  for (const { workspaceDir, sequences } of workspaces) {
+    for (const sequence of sequences) {
+      if (
+        sequence.status === "archived" ||
+        sequence.enrollments.every((enrollment) => isEnrollmentFinished(enrollment.status))
+      ) {
+        continue;
+      }
+      const accountId = sequence.account_id;
+      if (!messengers.has(accountId)) {
+        messengers.set(accountId, messengerFor(accountId));
+      }
+      const messenger = messengers.get(accountId);
+      if (!messenger) {
+        log.warn(
+          `sequence ${sequence.sequence_id}: LinkedIn account "${accountId}" is not configured`,
+        );
+        continue;
+      }
+      let budget = budgets.get(accountId);
+      if (!budget) {
+        budget = {
+          remaining: Math.max(
+            0,
+            resolveDailyLimit(settings, accountId) - (sentToday.get(accountId) ?? 0),
+          ),
+        };
+        budgets.set(accountId, budget);
+      }
+      const result = await advanceOutreachSequence({
+        workspaceDir,
+        sequence,
+        messenger,
+        budget,
+        quiet,
+        now,
+      });
+      sent += result.sent;
+      replied += result.replied.length;
+      if (result.replied.length > 0) {
+        notifyReplies(cfg, result.sequence, result.replied);
+      }
+    }
+  }
+  return { sent, replied };
+}
+
+export type LinkedInOutreachRunner = {
+  stop: () => void;
+};
+
+/**
+ * Start the background outreach runner. Sequences live on disk, so a
+ * restarted gateway resumes them.
+ */
+export function startLinkedInOutreachRunner(params: {
+  cfg: OpenClawConfig;
+  tickMs?: number;
+}): LinkedInOutreachRunner {
+  if (!listEnabledLinkedInAccounts(params.cfg).some((account) => buildClientOptions(account))) {
+    return { stop: () => {} };
+  }
+  let stopped = false;
+  let inFlight = false;
+
+  const tick = async () => {
+    if (stopped || inFlight) {
+      return;
+    }
+    inFlight = true;
+    try {
+      await runOutreachOnce({ cfg: params.cfg });
+    } catch (err) {
+      log.warn(`outreach run failed: ${String(err)}`);
+    } finally {
+      inFlight = false;
+    }
+  };
+
+  const timer = setInterval(() => void tick(), params.tickMs ?? DEFAULT_TICK_MS);
+  timer.unref?.();
+  void tick();
+
+  return {
+    stop: () => {
+      stopped = true;
+      clearInterval(timer);
+    },
+  };
+}
+
+// =============================================================================
+// Status
+// =============================================================================
+
+export type OutreachEnrollmentView = {
+  identifier: string;
+  name?: string;
+  status: LinkedInOutreachEnrollmentStatus;
+  /** Messages sent so far, out of the sequence length. */
+  step: string;
+  last_sent_at?: string;
+  next_action_at?: string;
+  replied_at?: string;
+  error?: string;
+};
+
+export type OutreachStatusView = {
+  sequence_id: string;
+  name: string;
+  status: LinkedInOutreachSequence["status"];
+  account_id: string;
+  steps: number;
+  total: number;
+  by_status: Partial<Record<LinkedInOutreachEnrollmentStatus, number>>;
+  /** Candidates waiting after each step (key: messages sent). */
+  waiting_by_step: Record<string, number>;
+  enrollments?: OutreachEnrollmentView[];
+};
+
+/**
+ * Who is in which step of a sequence.
+ */
+export function buildOutreachStatus(
+  sequence: LinkedInOutreachSequence,
+  options?: { includeEnrollments?: boolean },
+): OutreachStatusView {
+  const view: OutreachStatusView = {
+    sequence_id: sequence.sequence_id,
+    name: sequence.name,
+    status: sequence.status,
+    account_id: sequence.account_id,
+    steps: sequence.steps.length,
+    total: sequence.enrollments.length,
+    by_status: {},
+    waiting_by_step: {},
+  };
+  for (const enrollment of sequence.enrollments) {
+    view.by_status[enrollment.status] = (view.by_status[enrollment.status] ?? 0) + 1;
+    if (enrollment.status === "waiting") {
+      const key = `after_step_${enrollment.sends.length}`;
+      view.waiting_by_step[key] = (view.waiting_by_step[key] ?? 0) + 1;
+    }
+  }
+  if (options?.includeEnrollments) {
+    view.enrollments = sequence.enrollments.map((enrollment) => ({
+      identifier: enrollment.identifier,
+      name: enrollment.name,
+      status: enrollment.status,
+      step: `${enrollment.sends.length}/${sequence.steps.length}`,
+      last_sent_at: enrollment.sends.at(-1)?.sent_at,
+      next_action_at: enrollment.next_action_at,
+      replied_at: enrollment.replied_at,
+      error: enrollment.error,
+    }));
+  }
+  return view;
+}
+
+/**
+ * Short text summary of a sequence status view.
+ */
+export function formatOutreachStatus(view: OutreachStatusView): string {
+  const counts = Object.entries(view.by_status)
+    .map(([status, count]) => `${status} ${count}`)
+    .join(", ");
+  const lines = [
+    `LinkedIn outreach "${view.name}" (${view.sequence_id}) ${view.status}: ${view.total} candidates, ${view.steps} steps.`,
+  ];
+  if (counts) {
+    lines.push(`Status: ${counts}.`);
+  }
+  for (const enrollment of view.enrollments ?? []) {
+    const next = enrollment.next_action_at ? `, next ${enrollment.next_action_at}` : "";
+    lines.push(
+      `- ${enrollment.name ?? enrollment.identifier}: ${enrollment.status} (sent ${enrollment.step}${next})`,
+    );
+  }
+  return lines.join("\n");
+}
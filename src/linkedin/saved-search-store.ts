@@ -0,0 +1,91 @@
+/**
+ * LinkedIn Saved Search Storage
+ *
+ * Persist named talent searches and the profile ids they already reported to a
+ * workspace JSON file, so scheduled reruns only surface new matches.
+ */
+
+import path from "node:path";
+import { createAsyncLock, readJsonFile, writeJsonAtomic } from "../infra/json-files.js";
+import type { LinkedInSavedSearch, LinkedInSavedSearchStore } from "./types.js";
+
+const SAVED_SEARCH_STORE_FILENAME = "linkedin-saved-searches.json";
+
+// Bound the seen list so long-running searches do not grow the file forever
+const MAX_SEEN_IDS = 5000;
+
+const withSavedSearchLock = createAsyncLock();
+
+/**
+ * Get the saved search store path for a workspace directory.
+ */
+export function getSavedSearchStorePath(workspaceDir: string): string {
+  return path.join(workspaceDir, SAVED_SEARCH_STORE_FILENAME);
+}
+
+/**
+ * Read the saved search store for a workspace.
+ */
+export async function readSavedSearchStore(
+  workspaceDir: string,
+): Promise<LinkedInSavedSearchStore> {
+  const raw = await readJsonFile<LinkedInSavedSearchStore>(getSavedSearchStorePath(workspaceDir));
+  if (!raw || typeof raw !== "object" || !raw.searches || typeof raw.searches !== "object") {
+    return { searches: {} };
+  }
+  return { searches: raw.searches };
+}
+
+/**
+ * Find a saved search by id or (case-insensitive) name.
+ */
+export async function findSavedSearch(
+  workspaceDir: string,
+  idOrName: string,
+): Promise<LinkedInSavedSearch | undefined> {
+  const store = await readSavedSearchStore(workspaceDir);
+  const byId = store.searches[idOrName];
+  if (byId) {
+    return byId;
+  }
+  const name = idOrName.trim().toLowerCase();
+  return Object.values(store.searches).find((search) => search.name.toLowerCase() === name);
+}
+
+/**
+ * List saved searches, oldest first.
+ */
+export async function listSavedSearches(workspaceDir: string): Promise<LinkedInSavedSearch[]> {
+  const store = await readSavedSearchStore(workspaceDir);
+  return Object.values(store.searches).toSorted((a, b) => a.created_at.localeCompare(b.created_at));
+}
+
+/**
+ * Apply a mutation to a saved search under the store lock.
+ * Return undefined from `update` to leave the store untouched, or null to delete.
+ */
+export async function updateSavedSearch(
+  workspaceDir: string,
+  searchId: string,
+  update: (search: LinkedInSavedSearch | undefined) => LinkedInSavedSearch | null | undefined,
+): Promise<LinkedInSavedSearch | undefined> {
+  return await withSavedSearchLock(async () => {
+    const store = await readSavedSearchStore(workspaceDir);
+    const next = update(store.searches[searchId]);
+    if (next === undefined) {
+      return store.searches[searchId];
+    }
+    if (next === null) {
+      delete store.searches[searchId];
+      await writeJsonAtomic(getSavedSearchStorePath(workspaceDir), store);
+      return undefined;
+    }
+    store.searches[searchId] = {
+      ...next,
+      seen_ids: next.seen_ids.slice(-MAX_SEEN_IDS),
+      updated_at: new Date().toISOString(),
+    };
+    await writeJsonAtomic(getSavedSearchStorePath(workspaceDir), store);
+    return store.searches[searchId];
+  });
+}
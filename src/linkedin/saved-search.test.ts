@@ -0,0 +1,187 @@
+import fs from "node:fs/promises";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { OpenClawConfig } from "../config/config.js";
+import { peekSystemEvents, resetSystemEventsForTest } from "../infra/system-events.js";
+import { makeTempWorkspace } from "../test-helpers/workspace.js";
+import { findSavedSearch } from "./saved-search-store.js";
+import { runSavedSearch, saveLinkedInSearch, type SavedSearchDeps } from "./saved-search.js";
+import type { FormattedCandidate, TalentSearchParams, TalentSearchResult } from "./search.js";
+
+vi.mock("../infra/heartbeat-wake.js", () => ({ requestHeartbeatNow: vi.fn() }));
+
+const cfg = {
+  tools: {
+    linkedin: {
+      baseUrl: "https://api.example.com",
+      apiKey: "key",
+      accounts: {
+        recruiter: { accountId: "u-recruiter" },
+        sourcing: { accountId: "u-sourcing" },
+        paused: { accountId: "u-paused", enabled: false },
+      },
+    },
+  },
+} as OpenClawConfig;
+
+const SESSION_KEY = "agent:main:slack:dm:u1";
+
+function candidate(id: string): FormattedCandidate {
+  return {
+    provider_id: `ACo${id}`,
+    public_identifier: id,
+    public_profile_url: `https://linkedin.com/in/${id}`,
+    profile_url: null,
+    name: id.toUpperCase(),
+    headline: "Engineer",
+    location: null,
+    network_distance: "2nd",
+    network_distance_raw: "DISTANCE_2",
+    skills: [],
+  };
+}
+
+function createSearchMock(resultsByAccount: Record<string, string[] | Error>) {
+  return vi.fn(async (params: TalentSearchParams): Promise<TalentSearchResult> => {
+    const results = resultsByAccount[params.accountId ?? ""];
+    if (results instanceof Error) {
+      return {
+        success: false,
+        candidates: [],
+        total_count: 0,
+        page_count: 0,
+        error: results.message,
+      };
+    }
+    const candidates = (results ?? []).map(candidate);
+    return { success: true, candidates, total_count: candidates.length, page_count: 1 };
+  });
+}
+
+describe("saved LinkedIn searches", () => {
+  let workspaceDir: string;
+
+  beforeEach(async () => {
+    workspaceDir = await makeTempWorkspace("openclaw-saved-search-");
+    resetSystemEventsForTest();
+  });
+
+  afterEach(async () => {
+    await fs.rm(workspaceDir, { recursive: true, force: true });
+  });
+
+  it("validates filters, accounts and unique names", async () => {
+    await expect(
+      saveLinkedInSearch({ cfg, workspaceDir, name: "Empty", search: { api: "classic" } }),
+    ).rejects.toThrow("At least one search parameter");
+    await expect(
+      saveLinkedInSearch({
+        cfg,
+        workspaceDir,
+        name: "Paused",
+        search: { keywords: "rust" },
+        accountIds: ["paused"],
+      }),
+    ).rejects.toThrow('LinkedIn account "paused" is not configured');
+
+    const saved = await saveLinkedInSearch({
+      cfg,
+      workspaceDir,
+      name: "Rust engineers",
+      search: { keywords: "rust", cursor: "c1", accountId: "recruiter" },
+    });
+    expect(saved.params).toEqual({ keywords: "rust" });
+    await expect(
+      saveLinkedInSearch({ cfg, workspaceDir, name: "rust ENGINEERS", search: { keywords: "x" } }),
+    ).rejects.toThrow("already exists");
+    expect((await findSavedSearch(workspaceDir, "RUST engineers"))?.search_id).toBe(
+      saved.search_id,
+    );
+  });
+
+  it("announces only unseen profiles, deduped across enabled accounts", async () => {
+    const saved = await saveLinkedInSearch({
+      cfg,
+      workspaceDir,
+      name: "Rust engineers",
+      search: { keywords: "rust" },
+      announce: { channel: "slack", to: "C123" },
+    });
+    const announce = vi.fn<NonNullable<SavedSearchDeps["announce"]>>(async () => {});
+
+    // First run is the baseline: everything is recorded, nothing is announced
+    const baselineSearch = createSearchMock({ recruiter: ["ada", "bob"], sourcing: ["bob"] });
+    const baseline = await runSavedSearch({
+      cfg,
+      workspaceDir,
+      search: saved,
+      deps: { searchTalent: baselineSearch, announce },
+    });
+    expect(baselineSearch.mock.calls.map(([params]) => params.accountId)).toEqual([
+      "recruiter",
+      "sourcing",
+    ]);
+    expect(baseline).toMatchObject({ baseline: true, totalMatches: 2 });
+    expect(announce).not.toHaveBeenCalled();
+
+    const nextSearch = createSearchMock({
+      recruiter: ["ada", "cyd"],
+      sourcing: ["cyd", "dee", "bob"],
+    });
+    const next = await runSavedSearch({
+      cfg,
+      workspaceDir,
+      search: baseline.search,
+      deps: { searchTalent: nextSearch, announce },
+    });
+    expect(next.newCandidates.map((entry) => entry.public_identifier)).toEqual(["cyd", "dee"]);
+    expect(announce).toHaveBeenCalledTimes(1);
+    const [, target, text] = announce.mock.calls[0];
+    expect(target).toEqual({ channel: "slack", to: "C123" });
+    expect(text).toContain('Saved search "Rust engineers": 2 new matches');
+    expect(text).toContain("- CYD — Engineer (https://linkedin.com/in/cyd)");
+    expect(text).not.toContain("ADA");
+
+    // A failing account still lets the other account's matches through
+    const partialSearch = createSearchMock({
+      recruiter: new Error("rate limited"),
+      sourcing: ["dee", "eve"],
+    });
+    const partial = await runSavedSearch({
+      cfg,
+      workspaceDir,
+      search: next.search,
+      deps: { searchTalent: partialSearch, announce },
+    });
+    expect(partial.newCandidates.map((entry) => entry.public_identifier)).toEqual(["eve"]);
+    expect(partial.errors).toEqual(["recruiter: rate limited"]);
+    expect(partial.search.last_error).toBe("recruiter: rate limited");
+    expect(partial.search.seen_ids).toContain("eve");
+  });
+
+  it("notifies the saving session when no channel is set", async () => {
+    const saved = await saveLinkedInSearch({
+      cfg,
+      workspaceDir,
+      name: "Go engineers",
+      search: { keywords: "go" },
+      accountIds: ["sourcing"],
+      sessionKey: SESSION_KEY,
+    });
+    const first = await runSavedSearch({
+      cfg,
+      workspaceDir,
+      search: saved,
+      deps: { searchTalent: createSearchMock({ sourcing: [] }) },
+    });
+    await runSavedSearch({
+      cfg,
+      workspaceDir,
+      search: first.search,
+      deps: { searchTalent: createSearchMock({ sourcing: ["ada"] }) },
+    });
+
+    const events = peekSystemEvents(SESSION_KEY);
+    expect(events).toHaveLength(1);
+    expect(events[0]).toContain('Saved search "Go engineers": 1 new match');
+  });
+});
@@ -0,0 +1,384 @@
+/**
+ * LinkedIn Saved Searches
+ *
+ * Named talent searches that cron reruns. Each run searches every selected
+ * account, dedupes profiles across accounts, and announces only profiles the
+ * search has not reported before.
+ */
+
+import { randomUUID } from "node:crypto";
+import { trackCandidateActivity } from "../candidate-pipeline/store.js";
+import { normalizeChannelId } from "../channels/plugins/index.js";
+import type { OpenClawConfig } from "../config/config.js";
+import { resolveMainSessionKey } from "../config/sessions/main-session.js";
+import type { DirectCallContext, DirectCallResult } from "../cron/direct-call-registry.js";
+import { registerDirectCallHandler } from "../cron/direct-call-registry.js";
+import { DirectCallFunctionName } from "../cron/types.js";
+import { requestHeartbeatNow } from "../infra/heartbeat-wake.js";
+import { deliverOutboundPayloads } from "../infra/outbound/deliver.js";
+import { enqueueSystemEvent } from "../infra/system-events.js";
+import { createSubsystemLogger } from "../logging/subsystem.js";
+import { normalizeAccountId } from "../routing/session-key.js";
+import {
+  buildClientOptions,
+  listEnabledLinkedInAccounts,
+  resolveLinkedInAccount,
+  type ResolvedLinkedInAccount,
+} from "./accounts.js";
+import { findSavedSearch, listSavedSearches, updateSavedSearch } from "./saved-search-store.js";
+import {
+  searchTalent,
+  type FormattedCandidate,
+  type TalentSearchParams,
+  type TalentSearchResult,
+} from "./search.js";
+import type { LinkedInSavedSearch, LinkedInSavedSearchAnnounceTarget } from "./types.js";
+
+const log = createSubsystemLogger("linkedin-saved-search");
+
+const ALERT_TOP_N = 10;
+
+// =============================================================================
+// Saving
+// =============================================================================
+
+function hasSearchFilter(params: LinkedInSavedSearch["params"]): boolean {
+  return Boolean(
+    params.keywords ||
+    params.role?.length ||
+    params.skills?.length ||
+    params.company?.length ||
+    params.location ||
+    params.industry,
+  );
+}
+
+/**
+ * Save a named search. Names are unique per workspace (case-insensitive).
+ */
+export async function saveLinkedInSearch(params: {
+  cfg: OpenClawConfig;
+  workspaceDir: string;
+  name: string;
+  search: TalentSearchParams;
+  accountIds?: string[];
+  announce?: LinkedInSavedSearchAnnounceTarget;
+  sessionKey?: string;
+  now?: number;
+}): Promise<LinkedInSavedSearch> {
+  const name = params.name.trim();
+  if (!name) {
+    throw new Error("Saved search name is required");
+  }
+  const { cursor: _cursor, accountId: _accountId, ...filters } = params.search;
+  if (!hasSearchFilter(filters)) {
+    throw new Error(
+      "At least one search parameter is required (keywords, role, skills, company, location, or industry).",
+    );
+  }
+  const accountIds = [...new Set((params.accountIds ?? []).map(normalizeAccountId))];
+  for (const accountId of accountIds) {
+    const account = resolveLinkedInAccount({ cfg: params.cfg, accountId });
+    if (!account.enabled || !buildClientOptions(account)) {
+      throw new Error(`LinkedIn account "${accountId}" is not configured`);
+    }
+  }
+  if (params.announce && !normalizeChannelId(params.announce.channel)) {
+    throw new Error(`Unknown announce channel: ${params.announce.channel}`);
+  }
+  if (await findSavedSearch(params.workspaceDir, name)) {
+    throw new Error(`A saved search named "${name}" already exists`);
+  }
+
+  const createdAt = new Date(params.now ?? Date.now()).toISOString();
+  const search: LinkedInSavedSearch = {
+    search_id: `ss_${randomUUID().slice(0, 8)}`,
+    name,
+    params: filters,
+    account_ids: accountIds,
+    announce: params.announce,
+    session_key: params.sessionKey,
+    seen_ids: [],
+    created_at: createdAt,
+    updated_at: createdAt,
+  };
+  await updateSavedSearch(params.workspaceDir, search.search_id, () => search);
+  return search;
+}
+
+// =============================================================================
+// Running
+// =============================================================================
+
+export type SavedSearchRunResult = {
+  search: LinkedInSavedSearch;
+  /** Profiles not reported by earlier runs, deduped across accounts. */
+  newCandidates: FormattedCandidate[];
+  /** Distinct profiles matched by this run. */
+  totalMatches: number;
+  /** First run: matches are recorded as seen but not announced. */
+  baseline: boolean;
+  /** Accounts whose search succeeded. Zero means nothing was recorded. */
+  accountsSearched: number;
+  errors: string[];
+};
+
+export type SavedSearchDeps = {
+  searchTalent?: (params: TalentSearchParams, cfg: OpenClawConfig) => Promise<TalentSearchResult>;
+  announce?: (
+    cfg: OpenClawConfig,
+    target: LinkedInSavedSearchAnnounceTarget,
+    text: string,
+  ) => Promise<void>;
+};
+
+function candidateKeys(candidate: FormattedCandidate): string[] {
+  return [candidate.provider_id, candidate.public_identifier].filter((key): key is string =>
+    Boolean(key),
+  );
+}
+
+function resolveSearchAccounts(
+  cfg: OpenClawConfig,
+  search: LinkedInSavedSearch,
+): ResolvedLinkedInAccount[] {
+  const accounts =
+    search.account_ids.length > 0
+      ? search.account_ids.map((accountId) => resolveLinkedInAccount({ cfg, accountId }))
+      : listEnabledLinkedInAccounts(cfg);
+  return accounts.filter((account) => account.enabled && buildClientOptions(account));
+}
+
+function candidateLine(candidate: FormattedCandidate): string {
+  const headline = candidate.headline ? ` — ${candidate.headline}` : "";
+  const url = candidate.public_profile_url ?? candidate.profile_url;
+  return `- ${candidate.name}${headline}${url ? ` (${url})` : ""}`;
+}
+
+/**
+ * Format the alert for new matches.
+ */
+export function formatSavedSearchAlert(
+  search: LinkedInSavedSearch,
+  candidates: FormattedCandidate[],
+): string {
+  const lines = [
+    `Saved search "${search.name}": ${candidates.length} new match${candidates.length === 1 ? "" : "es"}`,
+    ...candidates.slice(0, ALERT_TOP_N).map(candidateLine),
+  ];
+  if (candidates.length > ALERT_TOP_N) {
+    lines.push(`…and ${candidates.length - ALERT_TOP_N} more.`);
+  }
+  return lines.join("\n");
+}
+
+async function announceToChannel(
+  cfg: OpenClawConfig,
+  target: LinkedInSavedSearchAnnounceTarget,
+  text: string,
+): Promise<void> {
+  const channel = normalizeChannelId(target.channel);
+  if (!channel) {
+    log.warn(`announce channel not recognized: ${target.channel}`);
+    return;
+  }
+  await deliverOutboundPayloads({
+    cfg,
+    channel,
+    to: target.to,
+    accountId: target.accountId,
+    payloads: [{ text }],
+    bestEffort: true,
+  });
+}
+
+/**
+ * Rerun a saved search and report profiles it has not seen before.
+ */
+export async function runSavedSearch(params: {
+  cfg: OpenClawConfig;
+  workspaceDir: string;
+  search: LinkedInSavedSearch;
+  deps?: SavedSearchDeps;
+  now?: number;
+}): Promise<SavedSearchRunResult> {
+  const { cfg, workspaceDir, search } = params;
+  const runSearch = params.deps?.searchTalent ?? searchTalent;
+  const accounts = resolveSearchAccounts(cfg, search);
+  const errors: string[] = [];
+  if (accounts.length === 0) {
+    errors.push("No configured LinkedIn accounts to search");
+  }
+
+  const matches: FormattedCandidate[] = [];
+  const matchedKeys = new Set<string>();
+  let succeeded = 0;
+  for (const account of accounts) {
+    try {
+      const result = await runSearch({ ...search.params, accountId: account.accountId }, cfg);
+      if (!result.success) {
+        errors.push(`${account.accountId}: ${result.error ?? "search failed"}`);
+        continue;
+      }
+      succeeded += 1;
+      for (const candidate of result.candidates) {
+        const keys = candidateKeys(candidate);
+        // The same profile often shows up in several accounts' results
+        if (keys.some((key) => matchedKeys.has(key))) {
+          continue;
+        }
+        keys.forEach((key) => matchedKeys.add(key));
+        matches.push(candidate);
+      }
+    } catch (err) {
+      errors.push(`${account.accountId}: ${String(err)}`);
+    }
+  }
+
+  const seen = new Set(search.seen_ids);
+  const newCandidates = matches.filter(
+    (candidate) => !candidateKeys(candidate).some((key) => seen.has(key)),
+  );
+  const baseline = !search.last_run_at;
+  const runAt = new Date(params.now ?? Date.now()).toISOString();
+  const lastError = errors.length > 0 ? errors.join("; ") : undefined;
+
+  const updated =
+    (await updateSavedSearch(workspaceDir, search.search_id, (current) => {
+      if (!current) {
+        return undefined;
+      }
+      if (succeeded === 0) {
+        return { ...current, last_error: lastError };
+      }
+      const currentSeen = new Set(current.seen_ids);
+      const added = newCandidates.flatMap(candidateKeys).filter((key) => !currentSeen.has(key));
+      return {
+        ...current,
+        seen_ids: [...current.seen_ids, ...added],
+        last_run_at: runAt,
+        last_new_count: newCandidates.length,
+        last_error: lastError,
+      };
+    })) ?? search;
+
+  if (succeeded === 0) {
+    return {
+      search: updated,
+      newCandidates: [],
+      totalMatches: 0,
+      baseline,
+      accountsSearched: 0,
+      errors,
+    };
+  }
+
+  await trackCandidateActivity(
+    workspaceDir,
+    newCandidates.map((candidate) => ({
+      identity: {
+        name: candidate.name,
+        linkedin: {
+          providerId: candidate.provider_id,
+          publicIdentifier: candidate.public_identifier ?? undefined,
+          profileUrl: candidate.profile_url ?? undefined,
+          headline: candidate.headline || undefined,
+        },
+      },
+      source: "linkedin" as const,
+      stage: "sourced" as const,
+      summary: `New match for saved search "${search.name}"`,
+      ref: search.search_id,
+    })),
+  );
+
+  if (!baseline && newCandidates.length > 0) {
+    const text = formatSavedSearchAlert(updated, newCandidates);
+    if (updated.announce) {
+      try {
+        await (params.deps?.announce ?? announceToChannel)(cfg, updated.announce, text);
+      } catch (err) {
+        log.warn(`announce failed for ${search.search_id}: ${String(err)}`);
+      }
+    } else {
+      const sessionKey = updated.session_key ?? resolveMainSessionKey(cfg);
+      enqueueSystemEvent(text, { sessionKey });
+      requestHeartbeatNow({ reason: "linkedin-saved-search", sessionKey });
+    }
+  }
+
+  return {
+    search: updated,
+    newCandidates,
+    totalMatches: matches.length,
+    baseline,
+    accountsSearched: succeeded,
+    errors,
+  };
+}
+
+/**
+ * Short run summary for tool and cron results.
+ */
+export function formatSavedSearchRunSummary(result: SavedSearchRunResult): string {
+  const { search, newCandidates, totalMatches, baseline, errors } = result;
+  const parts = [
+    baseline
+      ? `Saved search "${search.name}": recorded ${totalMatches} existing matches as the baseline`
+      : `Saved search "${search.name}": ${newCandidates.length} new of ${totalMatches} matches`,
+  ];
+  if (errors.length > 0) {
+    parts.push(`errors: ${errors.join("; ")}`);
+  }
+  return parts.join(" — ");
+}
+
+// =============================================================================
+// Cron
+// =============================================================================
+
+/**
+ * Cron direct call: rerun a saved search by id or name.
+ * Params: `{ search: "<search_id or name>" }`, or omit to run every saved search.
+ */
+async function executeSavedSearchDirectCall(
+  params: Record<string, unknown>,
+  context: DirectCallContext,
+): Promise<DirectCallResult> {
+  const { cfg, workspaceDir } = context;
+  const ref = typeof params.search === "string" ? params.search.trim() : "";
+  let searches: LinkedInSavedSearch[];
+  if (ref) {
+    const search = await findSavedSearch(workspaceDir, ref);
+    if (!search) {
+      return { status: "error", error: `Saved search not found: ${ref}` };
+    }
+    searches = [search];
+  } else {
+    searches = await listSavedSearches(workspaceDir);
+  }
+
+  const summaries: string[] = [];
+  let failed = 0;
+  let newCount = 0;
+  for (const search of searches) {
+    const result = await runSavedSearch({ cfg, workspaceDir, search });
+    summaries.push(formatSavedSearchRunSummary(result));
+    newCount += result.newCandidates.length;
+    if (result.accountsSearched === 0) {
+      failed += 1;
+    }
+  }
+  const allFailed = searches.length > 0 && failed === searches.length;
+  return {
+    status: allFailed ? "error" : "ok",
+    error: allFailed ? summaries.join("\n") : undefined,
+    summary: summaries.join("\n") || "No saved searches",
+    data: { searches: searches.length, new_matches: newCount },
+  };
+}
+
+registerDirectCallHandler(
+  DirectCallFunctionName.LINKEDIN_RUN_SAVED_SEARCH,
+  executeSavedSearchDirectCall,
+);
@@ -13,6 +13,7 @@ import {
   readStringArrayParam,
   readStringParam,
 } from "../agents/tools/common.js";
+import { trackCandidateActivity } from "../candidate-pipeline/store.js";
 import type { OpenClawConfig } from "../config/config.js";
 import { resolveLinkedInAccount, buildClientOptions, getMissingCredentials } from "./accounts.js";
 import {
@@ -29,8 +30,28 @@ import {
   getChatAttendees,
   type LinkedInConnection,
 } from "./client.js";
-import { searchTalent, formatSearchResultsText } from "./search.js";
-import type { LinkedInCompanyScope, LinkedInPriority, LinkedInRoleScope } from "./types.js";
+import {
+  getOutreachSequence,
+  listOutreachSequences,
+  updateOutreachSequence,
+} from "./outreach-store.js";
+import {
+  buildOutreachStatus,
+  createOutreachSequence,
+  enrollOutreachCandidates,
+  formatOutreachStatus,
+  type OutreachCandidateInput,
+} from "./outreach.js";
+import { findSavedSearch, listSavedSearches, updateSavedSearch } from "./saved-search-store.js";
+import { formatSavedSearchRunSummary, runSavedSearch, saveLinkedInSearch } from "./saved-search.js";
+import { searchTalent, formatSearchResultsText, type TalentSearchParams } from "./search.js";
+import type {
+  LinkedInCompanyScope,
+  LinkedInOutreachStep,
+  LinkedInPriority,
+  LinkedInRoleScope,
+  LinkedInSavedSearch,
+} from "./types.js";
 
 const LINKEDIN_API_VALUES = ["classic", "recruiter", "sales_navigator"] as const;
 const LINKEDIN_PRIORITY_VALUES = ["MUST_HAVE", "CAN_HAVE", "DOESNT_HAVE"] as const;
@@ -514,11 +535,105 @@ function collectEvidenceUrls(input: {
   return Array.from(urls);
 }
 
+/**
+ * Read talent search filters from tool params (shared by search and saved searches).
+ */
+function readTalentSearchParams(params: Record<string, unknown>): TalentSearchParams {
+  const api = parseLinkedInApi(params.api);
+  const keywords = readStringParam(params, "keywords");
+  const location = readStringParam(params, "location");
+  const industry = readStringParam(params, "industry");
+  const limit = readNumberParam(params, "limit", { integer: true });
+  const pageSize = readNumberParam(params, "page_size", { integer: true });
+  const maxPages = readNumberParam(params, "max_pages", { integer: true });
+  const cursor = readStringParam(params, "cursor");
+  const useRecruiter = params.use_recruiter === true;
+  const accountId = readStringParam(params, "account_id");
+
+  const role = parseRoleArray(params.role);
+  const skills = parseSkillsArray(params.skills);
+  const company = parseCompanyArray(params.company);
+  const network_distance = parseNetworkDistance(params.network_distance);
+  const spotlights = parseNumberArray(params.spotlights, LINKEDIN_SPOTLIGHT_VALUES);
+  const seniorityInclude = parseNumberArray(params.seniority_include, LINKEDIN_SENIORITY_VALUES);
+  const seniorityExclude = parseNumberArray(params.seniority_exclude, LINKEDIN_SENIORITY_VALUES);
+  const tenureMin = readNumberParam(params, "tenure_min", { integer: true });
+  const tenureMax = readNumberParam(params, "tenure_max", { integer: true });
+
+  return {
+    api,
+    keywords,
+    role,
+    skills,
+    company,
+    location,
+    industry,
+    network_distance,
+    spotlights: spotlights as
+      | Array<
+          | "OPEN_TO_WORK"
+          | "ACTIVE_TALENT"
+          | "REDISCOVERED_CANDIDATES"
+          | "INTERNAL_CANDIDATES"
+          | "INTERESTED_IN_YOUR_COMPANY"
+          | "HAVE_COMPANY_CONNECTIONS"
+        >
+      | undefined,
+    seniority:
+      seniorityInclude || seniorityExclude
+        ? {
+            include: seniorityInclude as
+              | Array<
+                  | "owner"
+                  | "partner"
+                  | "cxo"
+                  | "vp"
+                  | "director"
+                  | "manager"
+                  | "senior"
+                  | "entry"
+                  | "training"
+                  | "unpaid"
+                >
+              | undefined,
+            exclude: seniorityExclude as
+              | Array<
+                  | "owner"
+                  | "partner"
+                  | "cxo"
+                  | "vp"
+                  | "director"
+                  | "manager"
+                  | "senior"
+                  | "entry"
+                  | "training"
+                  | "unpaid"
+                >
+              | undefined,
+          }
+        : undefined,
+    tenure:
+      tenureMin !== undefined || tenureMax !== undefined
+        ? {
+            min: tenureMin ?? undefined,
+            max: tenureMax ?? undefined,
+          }
+        : undefined,
+    limit,
+    page_size: pageSize,
+    max_pages: maxPages,
+    cursor,
+    useRecruiter,
+    accountId,
+  };
+}
+
 /**
  * Create the LinkedIn talent search tool.
  */
 export function createLinkedInTalentSearchTool(options?: {
   config?: OpenClawConfig;
+  workspaceDir?: string;
 }): AnyAgentTool | null {
   const cfg = options?.config;
 
@@ -537,40 +652,15 @@ export function createLinkedInTalentSearchTool(options?: {
     execute: async (_toolCallId, args) => {
       const params = args as Record<string, unknown>;
 
-      const api = parseLinkedInApi(params.api);
-      const keywords = readStringParam(params, "keywords");
-      const location = readStringParam(params, "location");
-      const industry = readStringParam(params, "industry");
-      const limit = readNumberParam(params, "limit", { integer: true });
-      const pageSize = readNumberParam(params, "page_size", { integer: true });
-      const maxPages = readNumberParam(params, "max_pages", { integer: true });
-      const cursor = readStringParam(params, "cursor");
-      const useRecruiter = params.use_recruiter === true;
-      const accountId = readStringParam(params, "account_id");
-
-      const role = parseRoleArray(params.role);
-      const skills = parseSkillsArray(params.skills);
-      const company = parseCompanyArray(params.company);
-      const network_distance = parseNetworkDistance(params.network_distance);
-      const spotlights = parseNumberArray(params.spotlights, LINKEDIN_SPOTLIGHT_VALUES);
-      const seniorityInclude = parseNumberArray(
-        params.seniority_include,
-        LINKEDIN_SENIORITY_VALUES,
-      );
-      const seniorityExclude = parseNumberArray(
-        params.seniority_exclude,
-        LINKEDIN_SENIORITY_VALUES,
-      );
-      const tenureMin = readNumberParam(params, "tenure_min", { integer: true });
-      const tenureMax = readNumberParam(params, "tenure_max", { integer: true });
+      const search = readTalentSearchParams(params);
 
       if (
-        !keywords &&
-        !role?.length &&
-        !skills?.length &&
-        !location &&
-        !industry &&
-        !company?.length
+        !search.keywords &&
+        !search.role?.length &&
+        !search.skills?.length &&
+        !search.location &&
+        !search.industry &&
+        !search.company?.length
       ) {
         return jsonResult({
           success: false,
@@ -580,75 +670,27 @@ export function createLinkedInTalentSearchTool(options?: {
         });
       }
 
-      const result = await searchTalent(
-        {
-          api,
-          keywords,
-          role,
-          skills,
-          company,
-          location,
-          industry,
-          network_distance,
-          spotlights: spotlights as
-            | Array<
-                | "OPEN_TO_WORK"
-                | "ACTIVE_TALENT"
-                | "REDISCOVERED_CANDIDATES"
-                | "INTERNAL_CANDIDATES"
-                | "INTERESTED_IN_YOUR_COMPANY"
-                | "HAVE_COMPANY_CONNECTIONS"
-              >
-            | undefined,
-          seniority:
-            seniorityInclude || seniorityExclude
-              ? {
-                  include: seniorityInclude as
-                    | Array<
-                        | "owner"
-                        | "partner"
-                        | "cxo"
-                        | "vp"
-                        | "director"
-                        | "manager"
-                        | "senior"
-                        | "entry"
-                        | "training"
-                        | "unpaid"
-                      >
-                    | undefined,
-                  exclude: seniorityExclude as
-                    | Array<
-                        | "owner"
-                        | "partner"
-                        | "cxo"
-                        | "vp"
-                        | "director"
-                        | "manager"
-                        | "senior"
-                        | "entry"
-                        | "training"
-                        | "unpaid"
-                      >
-                    | undefined,
-                }
-              : undefined,
-          tenure:
-            tenureMin !== undefined || tenureMax !== undefined
-              ? {
-                  min: tenureMin ?? undefined,
-                  max: tenureMax ?? undefined,
-                }
-              : undefined,
-          limit,
-          page_size: pageSize,
-          max_pages: maxPages,
-          cursor,
-          useRecruiter,
-          accountId,
-        },
-        cfg ?? ({} as OpenClawConfig),
-      );
+      const result = await searchTalent(search, cfg ?? ({} as OpenClawConfig));
+
+      if (result.success) {
+        await trackCandidateActivity(
+          options?.workspaceDir,
+          result.candidates.map((candidate) => ({
+            identity: {
+              name: candidate.name,
+              linkedin: {
+                providerId: candidate.provider_id,
+                publicIdentifier: candidate.public_identifier ?? undefined,
+                profileUrl: candidate.profile_url ?? undefined,
+                headline: candidate.headline || undefined,
+              },
+            },
+            source: "linkedin" as const,
+            stage: "sourced" as const,
+            summary: `Found via LinkedIn search${search.keywords ? ` "${search.keywords}"` : ""}`,
+          })),
+        );
+      }
 
       return jsonResult({
         ...result,
@@ -870,6 +912,7 @@ function formatConnection(conn: LinkedInConnection, index: number): string {
  */
 export function createLinkedInMessageConnectionTool(options?: {
   config?: OpenClawConfig;
+  workspaceDir?: string;
 }): AnyAgentTool | null {
   const cfg = options?.config;
 
@@ -953,6 +996,20 @@ export function createLinkedInMessageConnectionTool(options?: {
             attendees_ids: [confirmed.member_id],
             text: message,
           });
+          await trackCandidateActivity(options?.workspaceDir, {
+            identity: {
+              name: `${confirmed.first_name} ${confirmed.last_name}`,
+              linkedin: {
+                providerId: confirmed.member_id,
+                profileUrl: confirmed.public_profile_url || undefined,
+                headline: confirmed.headline || undefined,
+              },
+            },
+            source: "linkedin",
+            stage: "contacted",
+            summary: "Messaged on LinkedIn",
+            ref: chatResponse.chat_id ?? undefined,
+          });
 
           return jsonResult({
             success: true,
@@ -975,6 +1032,20 @@ export function createLinkedInMessageConnectionTool(options?: {
             attendees_ids: [recipient.member_id],
             text: message,
           });
+          await trackCandidateActivity(options?.workspaceDir, {
+            identity: {
+              name: `${recipient.first_name} ${recipient.last_name}`,
+              linkedin: {
+                providerId: recipient.member_id,
+                profileUrl: recipient.public_profile_url || undefined,
+                headline: recipient.headline || undefined,
+              },
+            },
+            source: "linkedin",
+            stage: "contacted",
+            summary: "Messaged on LinkedIn",
+            ref: chatResponse.chat_id ?? undefined,
+          });
 
           return jsonResult({
             success: true,
@@ -1109,6 +1180,7 @@ const LinkedInInMailCandidateSchema = Type.Object({
  */
 export function createLinkedInInMailCandidateTool(options?: {
   config?: OpenClawConfig;
+  workspaceDir?: string;
 }): AnyAgentTool | null {
   const cfg = options?.config;
 
@@ -1198,6 +1270,13 @@ export function createLinkedInInMailCandidateTool(options?: {
           subject,
           linkedin: linkedinOptions,
         });
+        await trackCandidateActivity(options?.workspaceDir, {
+          identity: { linkedin: { providerId: identifier } },
+          source: "linkedin",
+          stage: "contacted",
+          summary: subject ? `InMail sent: ${subject}` : "InMail sent",
+          ref: chatResponse.chat_id ?? undefined,
+        });
 
         return jsonResult({
           success: true,
@@ -1647,3 +1726,418 @@ export function createLinkedInGetConversationMessagesTool(options?: {
     },
   };
 }
+
+// =============================================================================
+// LinkedIn Outreach Tool
+// =============================================================================
+
+const OUTREACH_ACTIONS = [
+  "create_sequence",
+  "enroll",
+  "status",
+  "list",
+  "pause",
+  "resume",
+  "archive",
+  "stop",
+] as const;
+
+const LinkedInOutreachSchema = Type.Object({
+  action: stringEnum(OUTREACH_ACTIONS, {
+    description:
+      "create_sequence: define the messages; enroll: add candidates; status: who is in which step; " +
+      "list: all sequences; pause/resume/archive: change a sequence; stop: stop follow-ups for candidates.",
+  }),
+  sequence_id: Type.Optional(
+    Type.String({ description: "Sequence ID (all actions but create/list)." }),
+  ),
+  name: Type.Optional(Type.String({ description: "Sequence name (create_sequence)." })),
+  steps: Type.Optional(
+    Type.Array(
+      Type.Object({
+        template: Type.String({
+          description:
+            "Message text. Variables: {{first_name}}, {{last_name}}, {{name}}, {{headline}}, " +
+            "{{location}}, {{industry}} from the profile, plus any enrollment variables.",
+        }),
+        delay_days: Type.Optional(
+          Type.Number({
+            description: "Days to wait for a reply after the previous step (ignored for step 1).",
+          }),
+        ),
+      }),
+      { description: "Initial message followed by follow-ups (create_sequence)." },
+    ),
+  ),
+  candidates: Type.Optional(
+    Type.Array(
+      Type.Object({
+        identifier: Type.String({
+          description: "LinkedIn provider_id or public identifier from search results.",
+        }),
+        name: Type.Optional(Type.String()),
+        variables: Type.Optional(
+          Type.Object(
+            {},
+            {
+              additionalProperties: true,
+              description: 'Extra template variables, e.g. {"role": "Staff Engineer"}.',
+            },
+          ),
+        ),
+      }),
+      { description: "Candidates to enroll (enroll)." },
+    ),
+  ),
+  identifiers: Type.Optional(
+    Type.Array(Type.String(), { description: "Candidate identifiers to stop (stop)." }),
+  ),
+  include_candidates: Type.Optional(
+    Type.Boolean({ description: "Include per-candidate rows in status. Default: true." }),
+  ),
+  account_id: Type.Optional(
+    Type.String({
+      description: "Account ID for multi-account setups (create_sequence).",
+    }),
+  ),
+});
+
+function readOutreachSteps(raw: unknown): LinkedInOutreachStep[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+  return raw.map((entry) => {
+    const record = (entry ?? {}) as Record<string, unknown>;
+    return {
+      template: typeof record.template === "string" ? record.template : "",
+      delay_days: typeof record.delay_days === "number" ? record.delay_days : 3,
+    };
+  });
+}
+
+function readOutreachCandidates(raw: unknown): OutreachCandidateInput[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+  return raw.map((entry) => {
+    const record = (entry ?? {}) as Record<string, unknown>;
+    const variables: Record<string, string> = {};
+    if (record.variables && typeof record.variables === "object") {
+      for (const [key, value] of Object.entries(record.variables)) {
+        if (value !== null && value !== undefined) {
+          variables[key.toLowerCase()] = String(value);
+        }
+      }
+    }
+    return {
+      identifier: typeof record.identifier === "string" ? record.identifier : "",
+      name: typeof record.name === "string" ? record.name : undefined,
+      variables,
+    };
+  });
+}
+
+/**
+ * Create the LinkedIn outreach sequence tool.
+ * Sequences are stored in the workspace and worked by the gateway's outreach runner.
+ */
+export function createLinkedInOutreachTool(options?: {
+  config?: OpenClawConfig;
+  workspaceDir?: string;
+  agentSessionKey?: string;
+}): AnyAgentTool | null {
+  const cfg = options?.config ?? ({} as OpenClawConfig);
+  const workspaceDir = options?.workspaceDir;
+  const account = resolveLinkedInAccount({ cfg });
+  if (!account.enabled || !workspaceDir) {
+    return null;
+  }
+
+  return {
+    label: "LinkedIn Outreach",
+    name: "linkedin_outreach",
+    description:
+      "Run multi-step LinkedIn outreach sequences: an initial message, then follow-ups after N days " +
+      "if the candidate has not replied. Sending stops as soon as a candidate replies. The gateway " +
+      "sends within a daily per-account cap and outside quiet hours, so messages may go out later.",
+    parameters: LinkedInOutreachSchema,
+    execute: async (_toolCallId, args) => {
+      const params = args as Record<string, unknown>;
+      const action = readStringParam(params, "action", { required: true });
+      const sequenceId = readStringParam(params, "sequence_id");
+
+      try {
+        if (action === "create_sequence") {
+          const sequence = await createOutreachSequence({
+            cfg,
+            workspaceDir,
+            name: readStringParam(params, "name") ?? "",
+            steps: readOutreachSteps(params.steps),
+            accountId: readStringParam(params, "account_id"),
+            sessionKey: options?.agentSessionKey,
+          });
+          return jsonResult({
+            success: true,
+            sequence_id: sequence.sequence_id,
+            steps: sequence.steps,
+            next: "Enroll candidates with action=enroll.",
+          });
+        }
+
+        if (action === "list") {
+          const sequences = await listOutreachSequences(workspaceDir);
+          return jsonResult({
+            success: true,
+            sequences: sequences.map((sequence) => buildOutreachStatus(sequence)),
+          });
+        }
+
+        if (!sequenceId) {
+          return jsonResult({ success: false, error: "sequence_id is required" });
+        }
+
+        if (action === "enroll") {
+          const result = await enrollOutreachCandidates({
+            workspaceDir,
+            sequenceId,
+            candidates: readOutreachCandidates(params.candidates),
+          });
+          return jsonResult({
+            success: true,
+            added: result.added,
+            skipped: result.skipped,
+            status: buildOutreachStatus(result.sequence),
+          });
+        }
+
+        if (
+          action === "pause" ||
+          action === "resume" ||
+          action === "archive" ||
+          action === "stop"
+        ) {
+          const identifiers = new Set(readStringArrayParam(params, "identifiers") ?? []);
+          if (action === "stop" && identifiers.size === 0) {
+            return jsonResult({ success: false, error: "identifiers are required for stop" });
+          }
+          const updated = await updateOutreachSequence(workspaceDir, sequenceId, (current) => {
+            if (!current) {
+              return undefined;
+            }
+            if (action === "stop") {
+              return {
+                ...current,
+                enrollments: current.enrollments.map((enrollment) =>
+                  identifiers.has(enrollment.identifier) &&
+                  (enrollment.status === "pending" || enrollment.status === "waiting")
+                    ? { ...enrollment, status: "stopped" as const, next_action_at: undefined }
+                    : enrollment,
+                ),
+              };
+            }
+            const status =
+              action === "pause" ? "paused" : action === "resume" ? "active" : "archived";
+            return { ...current, status };
+          });
+          if (!updated) {
+            return jsonResult({ success: false, error: `Sequence not found: ${sequenceId}` });
+          }
+          return jsonResult({ success: true, status: buildOutreachStatus(updated) });
+        }
+
+        if (action === "status") {
+          const sequence = await getOutreachSequence(workspaceDir, sequenceId);
+          if (!sequence) {
+            return jsonResult({ success: false, error: `Sequence not found: ${sequenceId}` });
+          }
+          const view = buildOutreachStatus(sequence, {
+            includeEnrollments: params.include_candidates !== false,
+          });
+          return jsonResult({ success: true, ...view, formatted: formatOutreachStatus(view) });
+        }
+
+        return jsonResult({
+          success: false,
+          error: `Unknown action: ${action}. Use ${OUTREACH_ACTIONS.join(", ")}.`,
+        });
+      } catch (err) {
+        return jsonResult({
+          success: false,
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+    },
+  };
+}
+
+// =============================================================================
+// Saved Searches
+// =============================================================================
+
+const SAVED_SEARCH_ACTIONS = ["save", "list", "get", "run", "delete"] as const;
+
+const LinkedInSavedSearchSchema = Type.Object({
+  action: stringEnum(SAVED_SEARCH_ACTIONS, {
+    description:
+      "save: store filters under a name; run: rerun and report only new matches; " +
+      "list/get: show saved searches; delete: remove one.",
+  }),
+  search: Type.Optional(
+    Type.String({ description: "Saved search ID or name (get, run, delete)." }),
+  ),
+  name: Type.Optional(Type.String({ description: "Name for the saved search (save)." })),
+  ...Type.Omit(LinkedInTalentSearchSchema, ["cursor", "account_id"]).properties,
+  account_ids: Type.Optional(
+    Type.Array(Type.String(), {
+      description: "LinkedIn accounts to search (save). Default: every enabled account.",
+    }),
+  ),
+  announce_channel: Type.Optional(
+    Type.String({
+      description:
+        "Channel that receives new-match alerts, e.g. slack (save). Default: this session.",
+    }),
+  ),
+  announce_to: Type.Optional(
+    Type.String({ description: "Channel target for alerts, e.g. a channel ID (save)." }),
+  ),
+  announce_account_id: Type.Optional(
+    Type.String({ description: "Channel account for alerts in multi-account setups (save)." }),
+  ),
+});
+
+/**
+ * Create the LinkedIn saved search tool.
+ * Saved searches live in the workspace; cron reruns them to surface new matches.
+ */
+export function createLinkedInSavedSearchTool(options?: {
+  config?: OpenClawConfig;
+  workspaceDir?: string;
+  agentSessionKey?: string;
+}): AnyAgentTool | null {
+  const cfg = options?.config ?? ({} as OpenClawConfig);
+  const workspaceDir = options?.workspaceDir;
+  const account = resolveLinkedInAccount({ cfg });
+  if (!account.enabled || !workspaceDir) {
+    return null;
+  }
+
+  return {
+    label: "LinkedIn Saved Search",
+    name: "linkedin_saved_search",
+    description:
+      "Save LinkedIn talent searches by name and rerun them to find profiles that were not " +
+      "reported before. Runs search every selected account, drop duplicate profiles, and post " +
+      "new matches to the chosen channel. Schedule reruns with the cron tool.",
+    parameters: LinkedInSavedSearchSchema,
+    execute: async (_toolCallId, args) => {
+      const params = args as Record<string, unknown>;
+      const action = readStringParam(params, "action", { required: true });
+      const ref = readStringParam(params, "search");
+
+      try {
+        if (action === "save") {
+          const announceChannel = readStringParam(params, "announce_channel");
+          const announceTo = readStringParam(params, "announce_to");
+          if (Boolean(announceChannel) !== Boolean(announceTo)) {
+            return jsonResult({
+              success: false,
+              error: "announce_channel and announce_to must be set together",
+            });
+          }
+          const saved = await saveLinkedInSearch({
+            cfg,
+            workspaceDir,
+            name: readStringParam(params, "name") ?? "",
+            search: readTalentSearchParams(params),
+            accountIds: readStringArrayParam(params, "account_ids"),
+            announce:
+              announceChannel && announceTo
+                ? {
+                    channel: announceChannel,
+                    to: announceTo,
+                    accountId: readStringParam(params, "announce_account_id"),
+                  }
+                : undefined,
+            sessionKey: options?.agentSessionKey,
+          });
+          return jsonResult({
+            success: true,
+            search_id: saved.search_id,
+            name: saved.name,
+            next:
+              "The first run records current matches as a baseline; later runs report only new " +
+              "profiles. To schedule reruns, add this cron job (the run posts its own alerts).",
+            cron_job: {
+              name: `LinkedIn saved search: ${saved.name}`,
+              schedule: { kind: "cron", expr: "0 9 * * *" },
+              sessionTarget: "isolated",
+              payload: {
+                kind: "agentTurn",
+                message: `Run linkedin_saved_search with action=run and search=${saved.search_id}.`,
+              },
+              delivery: { mode: "none" },
+            },
+          });
+        }
+
+        if (action === "list") {
+          const searches = await listSavedSearches(workspaceDir);
+          return jsonResult({ success: true, searches: searches.map(describeSavedSearch) });
+        }
+
+        if (!ref) {
+          return jsonResult({ success: false, error: "search is required" });
+        }
+        const saved = await findSavedSearch(workspaceDir, ref);
+        if (!saved) {
+          return jsonResult({ success: false, error: `Saved search not found: ${ref}` });
+        }
+
+        if (action === "get") {
+          return jsonResult({ success: true, ...describeSavedSearch(saved), params: saved.params });
+        }
+
+        if (action === "delete") {
+          await updateSavedSearch(workspaceDir, saved.search_id, () => null);
+          return jsonResult({ success: true, deleted: saved.search_id });
+        }
+
+        if (action === "run") {
+          const result = await runSavedSearch({ cfg, workspaceDir, search: saved });
+          return jsonResult({
+            success: result.accountsSearched > 0,
+            baseline: result.baseline,
+            total_matches: result.totalMatches,
+            new_candidates: result.newCandidates,
+            errors: result.errors.length > 0 ? result.errors : undefined,
+            formatted: formatSavedSearchRunSummary(result),
+          });
+        }
+
+        return jsonResult({
+          success: false,
+          error: `Unknown action: ${action}. Use ${SAVED_SEARCH_ACTIONS.join(", ")}.`,
+        });
+      } catch (err) {
+        return jsonResult({
+          success: false,
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+    },
+  };
+}
+
+function describeSavedSearch(search: LinkedInSavedSearch) {
+  return {
+    search_id: search.search_id,
+    name: search.name,
+    account_ids: search.account_ids.length > 0 ? search.account_ids : "all",
+    announce: search.announce,
+    seen: search.seen_ids.length,
+    last_run_at: search.last_run_at,
+    last_new_count: search.last_new_count,
+    last_error: search.last_error,
+  };
+}
@@ -4,6 +4,8 @@
  * Types for the Unipile-based LinkedIn search integration.
  */
 
+import type { TalentSearchParams } from "./search.js";
+
 // Forward declare messaging config (defined below)
 export type LinkedInMessagingConfig = {
   /** Enable LinkedIn messaging channel. Default: false. */
@@ -648,3 +650,121 @@ export type LinkedInWebhookPayload = {
   is_group?: boolean;
   folder?: string[];
 };
+
+// =============================================================================
+// Outreach Sequences
+// =============================================================================
+
+/** Local-time window (HH:MM, 24h) during which outreach messages are held back. */
+export type LinkedInQuietHoursConfig = {
+  /** Start of the quiet window. Inclusive. */
+  start: string;
+  /** End of the quiet window. Exclusive. May wrap past midnight (e.g. 20:00-08:00). */
+  end: string;
+  /** Timezone for the window ("user", "local", or IANA TZ id). Default: "user". */
+  timezone?: string;
+};
+
+/** Outreach defaults under tools.linkedin.outreach. */
+export type LinkedInOutreachConfig = {
+  /** Maximum outreach messages per LinkedIn account per day. Default: 25. */
+  dailySendLimit?: number;
+  /** Per-account overrides of dailySendLimit, keyed by LinkedIn account id. */
+  accountDailySendLimits?: Record<string, number>;
+  /** Hold outreach messages inside this window. Default: 20:00-08:00 user time. */
+  quietHours?: LinkedInQuietHoursConfig;
+};
+
+export type LinkedInOutreachSequenceStatus = "active" | "paused" | "archived";
+
+export type LinkedInOutreachStep = {
+  /** Message template; `{{first_name}}`-style variables come from the profile and enrollment. */
+  template: string;
+  /** Days to wait after the previous step without a reply. Ignored for the first step. */
+  delay_days: number;
+};
+
+export type LinkedInOutreachEnrollmentStatus =
+  | "pending"
+  | "waiting"
+  | "replied"
+  | "completed"
+  | "stopped"
+  | "failed";
+
+export type LinkedInOutreachSend = {
+  step: number;
+  sent_at: string;
+  message_id?: string;
+};
+
+export type LinkedInOutreachEnrollment = {
+  /** LinkedIn provider_id or public identifier of the candidate. */
+  identifier: string;
+  name?: string;
+  status: LinkedInOutreachEnrollmentStatus;
+  /** Index of the next step to send (equals steps.length once all were sent). */
+  next_step: number;
+  /** Earliest time the next step (or the final reply check) is due. */
+  next_action_at?: string;
+  chat_id?: string;
+  /** Template variables supplied at enrollment; profile fields fill in the rest. */
+  variables: Record<string, string>;
+  sends: LinkedInOutreachSend[];
+  enrolled_at: string;
+  replied_at?: string;
+  reply_checked_at?: string;
+  error?: string;
+};
+
+export type LinkedInOutreachSequence = {
+  sequence_id: string;
+  name: string;
+  /** OpenClaw LinkedIn account id used for sending. */
+  account_id: string;
+  status: LinkedInOutreachSequenceStatus;
+  steps: LinkedInOutreachStep[];
+  created_at: string;
+  updated_at: string;
+  /** Session notified when candidates reply. */
+  session_key?: string;
+  enrollments: LinkedInOutreachEnrollment[];
+};
+
+export type LinkedInOutreachStore = {
+  sequences: Record<string, LinkedInOutreachSequence>;
+};
+
+// =============================================================================
+// Saved Searches
+// =============================================================================
+
+/** Channel target that receives new-match alerts for a saved search. */
+export type LinkedInSavedSearchAnnounceTarget = {
+  channel: string;
+  to: string;
+  accountId?: string;
+};
+
+export type LinkedInSavedSearch = {
+  search_id: string;
+  name: string;
+  /** Search filters; `cursor` and `accountId` are never stored. */
+  params: Omit<TalentSearchParams, "cursor" | "accountId">;
+  /** OpenClaw LinkedIn account ids to search. Empty means every enabled account. */
+  account_ids: string[];
+  announce?: LinkedInSavedSearchAnnounceTarget;
+  /** Session notified when no announce target is set. */
+  session_key?: string;
+  /** Profile ids (provider ids and public identifiers) already reported. */
+  seen_ids: string[];
+  created_at: string;
+  updated_at: string;
+  last_run_at?: string;
+  last_new_count?: number;
+  last_error?: string;
+};
+
+export type LinkedInSavedSearchStore = {
+  searches: Record<string, LinkedInSavedSearch>;
+};
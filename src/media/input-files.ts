@@ -23,7 +23,7 @@ async function loadCanvasModule(): Promise<CanvasModule> {
   return canvasModulePromise;
 }
 
-async function loadPdfJsModule(): Promise<PdfJsModule> {
+export async function loadPdfJsModule(): Promise<PdfJsModule> {
   if (!pdfJsModulePromise) {
     pdfJsModulePromise = import("pdfjs-dist/legacy/build/pdf.mjs").catch((err) => {
       pdfJsModulePromise = null;
@@ -0,0 +1,93 @@
+import JSZip from "jszip";
+import { describe, expect, it } from "vitest";
+import {
+  formatMemoryDocumentLocation,
+  resolveMemoryDocumentExtensions,
+  resolveMemoryDocumentExtractor,
+} from "./document-extractors.js";
+import { chunkMarkdown, remapChunkLines } from "./internal.js";
+
+async function buildDocx(paragraphs: Array<{ text: string; style?: string }>): Promise<Buffer> {
+  const body = paragraphs
+    .map(({ text, style }) => {
+      const props = style
+        ? `<w:pPr><w:pStyle w:val="${style}"/><w:tabs><w:tab w:val="left" w:pos="720"/></w:tabs></w:pPr>`
+        : "";
+      return `<w:p>${props}<w:r><w:t xml:space="preserve">${text}</w:t></w:r></w:p>`;
+    })
+    .join("");
+  const zip = new JSZip();
+  zip.file(
+    "word/document.xml",
+    `<?xml version="1.0"?><w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${body}</w:body></w:document>`,
+  );
+  return await zip.generateAsync({ type: "nodebuffer" });
+}
+
+describe("memory document extractors", () => {
+  it("resolves extractors by extension and enabled formats", () => {
+    expect(resolveMemoryDocumentExtractor("memory/cv.DOCX")?.format).toBe("docx");
+    expect(resolveMemoryDocumentExtractor("memory/page.htm")?.format).toBe("html");
+    expect(resolveMemoryDocumentExtractor("memory/notes.md")).toBeUndefined();
+    expect(resolveMemoryDocumentExtractor("memory/cv.docx", ["pdf"])).toBeUndefined();
+    expect(resolveMemoryDocumentExtensions(["pdf", "html"])).toEqual([".pdf", ".html", ".htm"]);
+  });
+
+  it("maps DOCX paragraphs to heading sections", async () => {
+    const extractor = resolveMemoryDocumentExtractor("cv.docx");
+    const extracted = await extractor!.extract(
+      await buildDocx([
+        { text: "Dana Smith" },
+        { text: "Experience", style: "Heading1" },
+        { text: "Led payments &amp; billing" },
+        { text: "Education", style: "Heading1" },
+        { text: "BSc Computer Science" },
+      ]),
+    );
+    expect(extracted.text).toBe(
+      "Dana Smith\nExperience\nLed payments & billing\nEducation\nBSc Computer Science",
+    );
+    expect(extracted.lineMap).toEqual([1, 2, 2, 3, 3]);
+
+    const chunks = chunkMarkdown(extracted.text, { tokens: 8, overlap: 0 });
+    remapChunkLines(chunks, extracted.lineMap);
+    const billing = chunks.find((chunk) => chunk.text.includes("billing"));
+    expect(formatMemoryDocumentLocation("cv.docx", billing!.startLine, billing!.endLine)).toBe(
+      "§2",
+    );
+  });
+
+  it("maps HTML headings to sections", async () => {
+    const extracted = await resolveMemoryDocumentExtractor("policy.html")!.extract(
+      Buffer.from(
+        "<html><body><h1>Leave policy</h1><p>25 days.</p><h2>Carry over</h2><p>Up to 5 days.</p></body></html>",
+      ),
+    );
+    const lines = extracted.text.split("\n");
+    expect(extracted.lineMap[lines.indexOf("25 days.")]).toBe(1);
+    expect(extracted.lineMap[lines.indexOf("Up to 5 days.")]).toBe(2);
+  });
+
+  it("renders CSV rows with their headers and source lines", async () => {
+    const extracted = await resolveMemoryDocumentExtractor("roster.csv")!.extract(
+      Buffer.from(
+        'name,role,notes\r\nSam,Infra lead,"Owns on-call,\nand budgets"\r\n,,\r\nDana,,PM\r\n',
+      ),
+    );
+    expect(extracted.text).toBe(
+      [
+        "Columns: name, role, notes",
+        "name: Sam; role: Infra lead; notes: Owns on-call, and budgets",
+        "name: Dana; notes: PM",
+      ].join("\n"),
+    );
+    expect(extracted.lineMap).toEqual([1, 2, 5]);
+  });
+
+  it("formats page and section citations", () => {
+    expect(formatMemoryDocumentLocation("docs/policy.pdf", 3, 3)).toBe("p.3");
+    expect(formatMemoryDocumentLocation("docs/policy.pdf", 3, 4)).toBe("pp.3-4");
+    expect(formatMemoryDocumentLocation("memory/roster.csv", 2, 5)).toBeUndefined();
+    expect(formatMemoryDocumentLocation("memory/notes.md", 1, 2)).toBeUndefined();
+  });
+});
@@ -0,0 +1,287 @@
+import path from "node:path";
+import JSZip from "jszip";
+import { htmlToMarkdown } from "../agents/tools/web-fetch-utils.js";
+import { loadPdfJsModule } from "../media/input-files.js";
+
+/**
+ * Where a line of extracted text came from. Chunk line numbers of extracted
+ * documents are remapped to these locations so citations read "file.pdf p.3".
+ */
+export type MemoryDocumentLocationUnit = "page" | "section" | "line";
+
+export type MemoryDocumentText = {
+  text: string;
+  /** Location (page, section, or source line) for each 0-indexed text line. */
+  lineMap: number[];
+};
+
+export type MemoryDocumentExtractor = {
+  /** Format id used by `memorySearch.documents.formats` / `maxBytes`. */
+  format: string;
+  /** Lowercase file extensions including the dot. */
+  extensions: string[];
+  unit: MemoryDocumentLocationUnit;
+  /** Files larger than this are skipped unless `memorySearch.documents.maxBytes` overrides it. */
+  maxBytes: number;
+  extract: (buffer: Buffer) => Promise<MemoryDocumentText>;
+};
+
+const MB = 1024 * 1024;
+
+const extractors = new Map<string, MemoryDocumentExtractor>();
+
+export function registerMemoryDocumentExtractor(extractor: MemoryDocumentExtractor): void {
+  extractors.set(extractor.format, {
+    ...extractor,
+    extensions: extractor.extensions.map((ext) => ext.toLowerCase()),
+  });
+}
+
+export function listMemoryDocumentExtractors(formats?: string[]): MemoryDocumentExtractor[] {
+  const all = Array.from(extractors.values());
+  return formats ? all.filter((extractor) => formats.includes(extractor.format)) : all;
+}
+
+export function resolveMemoryDocumentExtractor(
+  filePath: string,
+  formats?: string[],
+): MemoryDocumentExtractor | undefined {
+  const ext = path.extname(filePath).toLowerCase();
+  if (!ext || ext === ".md") {
+    return undefined;
+  }
+  return listMemoryDocumentExtractors(formats).find((extractor) =>
+    extractor.extensions.includes(ext),
+  );
+}
+
+export function resolveMemoryDocumentExtensions(formats?: string[]): string[] {
+  return Array.from(
+    new Set(listMemoryDocumentExtractors(formats).flatMap((extractor) => extractor.extensions)),
+  );
+}
+
+export function resolveMemoryDocumentMaxBytes(
+  extractor: MemoryDocumentExtractor,
+  overrides?: Record<string, number>,
+): number {
+  const override = overrides?.[extractor.format];
+  return typeof override === "number" && override > 0 ? override : extractor.maxBytes;
+}
+
+/**
+ * Format the location part of a citation for extracted documents, or undefined
+ * when the path is a plain text file cited by line.
+ */
+export function formatMemoryDocumentLocation(
+  filePath: string,
+  startLine: number,
+  endLine: number,
+): string | undefined {
+  const unit = resolveMemoryDocumentExtractor(filePath)?.unit;
+  if (unit === "page") {
+    return startLine === endLine ? `p.${startLine}` : `pp.${startLine}-${endLine}`;
+  }
+  if (unit === "section") {
+    return startLine === endLine ? `§${startLine}` : `§${startLine}-${endLine}`;
+  }
+  return undefined;
+}
+
+/** Number sections so every heading after some content starts a new one. */
+function numberSections(lines: Array<{ text: string; heading: boolean }>): MemoryDocumentText {
+  const text: string[] = [];
+  const lineMap: number[] = [];
+  let section = 1;
+  let seenContent = false;
+  for (const line of lines) {
+    if (line.heading && seenContent) {
+      section += 1;
+    }
+    if (line.text.trim()) {
+      seenContent = true;
+    }
+    text.push(line.text);
+    lineMap.push(section);
+  }
+  return { text: text.join("\n"), lineMap };
+}
+
+async function extractPdf(buffer: Buffer): Promise<MemoryDocumentText> {
+  const { getDocument } = await loadPdfJsModule();
+  const pdf = await getDocument({
+    data: new Uint8Array(buffer),
+    disableWorker: true,
+  }).promise;
+  const text: string[] = [];
+  const lineMap: number[] = [];
+  const pushLine = (line: string, pageNum: number) => {
+    const trimmed = line.replace(/\s+/g, " ").trim();
+    if (trimmed) {
+      text.push(trimmed);
+      lineMap.push(pageNum);
+    }
+  };
+  for (let pageNum = 1; pageNum <= pdf.numPages; pageNum += 1) {
+    const page = await pdf.getPage(pageNum);
+    const textContent = await page.getTextContent();
+    let current = "";
+    for (const item of textContent.items) {
+      if (!("str" in item)) {
+        continue;
+      }
+      current += item.str;
+      if (item.hasEOL) {
+        pushLine(current, pageNum);
+        current = "";
+      }
+    }
+    pushLine(current, pageNum);
+  }
+  return { text: text.join("\n"), lineMap };
+}
+
+function decodeXmlEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (_, entity: string) => {
+    const lower = entity.toLowerCase();
+    if (lower.startsWith("#x")) {
+      return String.fromCodePoint(Number.parseInt(lower.slice(2), 16));
+    }
+    if (lower.startsWith("#")) {
+      return String.fromCodePoint(Number.parseInt(lower.slice(1), 10));
+    }
+    return { lt: "<", gt: ">", amp: "&", quot: '"', apos: "'" }[lower] ?? "";
+  });
+}
+
+async function extractDocx(buffer: Buffer): Promise<MemoryDocumentText> {
+  const zip = await JSZip.loadAsync(buffer);
+  const xml = await zip.file("word/document.xml")?.async("string");
+  if (!xml) {
+    throw new Error("DOCX is missing word/document.xml");
+  }
+  const lines: Array<{ text: string; heading: boolean }> = [];
+  for (const paragraph of xml.match(/<w:p[\s>][\s\S]*?<\/w:p>/g) ?? []) {
+    const heading = /<w:pStyle\s+w:val="(?:Heading\d*|Title)"/i.test(paragraph);
+    // Paragraph properties hold tab stop definitions that would read as tabs.
+    const body = paragraph.replace(/<w:pPr>[\s\S]*?<\/w:pPr>/g, "");
+    let text = "";
+    for (const match of body.matchAll(
+      /<w:t(?:\s[^>]*)?>([\s\S]*?)<\/w:t>|<w:(tab|br|cr)\b[^>]*\/>/g,
+    )) {
+      if (match[2]) {
+        text += match[2] === "tab" ? "\t" : "\n";
+      } else {
+        text += decodeXmlEntities(match[1] ?? "");
+      }
+    }
+    for (const line of text.split("\n")) {
+      lines.push({ text: line.trimEnd(), heading });
+    }
+  }
+  return numberSections(lines);
+}
+
+async function extractHtml(buffer: Buffer): Promise<MemoryDocumentText> {
+  const { text } = htmlToMarkdown(buffer.toString("utf-8"));
+  return numberSections(
+    text.split("\n").map((line) => ({ text: line, heading: /^#{1,6}\s/.test(line) })),
+  );
+}
+
+function parseCsvRecords(content: string): Array<{ line: number; cells: string[] }> {
+  const records: Array<{ line: number; cells: string[] }> = [];
+  let cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+  for (let i = 0; i < content.length; i += 1) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === "\n") {
+          line += 1;
+        }
+        cell += char;
+      }
+      continue;
+    }
+    if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      cells.push(cell);
+      cell = "";
+    } else if (char === "\n") {
+      cells.push(cell);
+      records.push({ line: recordLine, cells });
+      cells = [];
+      cell = "";
+      line += 1;
+      recordLine = line;
+    } else if (char !== "\r") {
+      cell += char;
+    }
+  }
+  if (cell || cells.length > 0) {
+    cells.push(cell);
+    records.push({ line: recordLine, cells });
+  }
+  return records;
+}
+
+/** Render rows as "column: value" pairs so each chunk keeps its header context. */
+async function extractCsv(buffer: Buffer): Promise<MemoryDocumentText> {
+  const [header, ...rows] = parseCsvRecords(buffer.toString("utf-8").replace(/^\uFEFF/, ""));
+  if (!header) {
+    return { text: "", lineMap: [] };
+  }
+  const columns = header.cells.map((name, index) => name.trim() || `column ${index + 1}`);
+  const text = [`Columns: ${columns.join(", ")}`];
+  const lineMap = [header.line];
+  for (const row of rows) {
+    const pairs = row.cells
+      .map((value, index) => [columns[index] ?? `column ${index + 1}`, value.trim()] as const)
+      .filter(([, value]) => value)
+      .map(([name, value]) => `${name}: ${value.replace(/\s+/g, " ")}`);
+    if (pairs.length > 0) {
+      text.push(pairs.join("; "));
+      lineMap.push(row.line);
+    }
+  }
+  return { text: text.join("\n"), lineMap };
+}
+
+registerMemoryDocumentExtractor({
+  format: "pdf",
+  extensions: [".pdf"],
+  unit: "page",
+  maxBytes: 20 * MB,
+  extract: extractPdf,
+});
+registerMemoryDocumentExtractor({
+  format: "docx",
+  extensions: [".docx"],
+  unit: "section",
+  maxBytes: 10 * MB,
+  extract: extractDocx,
+});
+registerMemoryDocumentExtractor({
+  format: "html",
+  extensions: [".html", ".htm"],
+  unit: "section",
+  maxBytes: 5 * MB,
+  extract: extractHtml,
+});
+registerMemoryDocumentExtractor({
+  format: "csv",
+  extensions: [".csv"],
+  unit: "line",
+  maxBytes: 5 * MB,
+  extract: extractCsv,
+});
@@ -0,0 +1,47 @@
+import type { EmbeddingProvider } from "./embeddings.js";
+
+const DEFAULT_DIMS = 256;
+
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i += 1) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+/**
+ * Offline embedding provider that hashes words and word pairs into a fixed
+ * number of buckets. Same text, same vector: no network, no model download.
+ * Good enough to compare retrieval settings reproducibly, not to judge a
+ * real embedding model.
+ */
+export function createDeterministicEmbeddingProvider(
+  options: { dims?: number } = {},
+): EmbeddingProvider {
+  const dims = Math.max(8, Math.floor(options.dims ?? DEFAULT_DIMS));
+  const embed = (text: string): number[] => {
+    const vec: number[] = Array.from({ length: dims }, () => 0);
+    const tokens = tokenize(text);
+    const features = tokens.concat(
+      tokens.slice(1).map((token, index) => `${tokens[index]} ${token}`),
+    );
+    for (const feature of features) {
+      const hash = fnv1a(feature);
+      vec[hash % dims] += hash & 0x80000000 ? -1 : 1;
+    }
+    const magnitude = Math.sqrt(vec.reduce((sum, value) => sum + value * value, 0));
+    return magnitude > 0 ? vec.map((value) => value / magnitude) : vec;
+  };
+  return {
+    id: "deterministic",
+    model: `hash-${dims}`,
+    embedQuery: async (text) => embed(text),
+    embedBatch: async (texts) => texts.map(embed),
+  };
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import { createDeterministicEmbeddingProvider } from "./embeddings-deterministic.js";
+import { diffMemoryEvalReports, parseMemoryEvalSuite, runMemoryEval } from "./eval.js";
+import type { MemorySearchManager, MemorySearchResult } from "./types.js";
+
+function fakeManager(resultsByQuery: Record<string, string[]>): MemorySearchManager {
+  return {
+    search: async (query) =>
+      (resultsByQuery[query] ?? []).map(
+        (path): MemorySearchResult => ({
+          path,
+          startLine: 1,
+          endLine: 1,
+          score: 1,
+          snippet: "",
+          source: "memory",
+        }),
+      ),
+    readFile: async ({ relPath }) => ({ text: "", path: relPath }),
+    status: () => ({ backend: "builtin", provider: "deterministic", model: "hash-256" }),
+    probeEmbeddingAvailability: async () => ({ ok: true }),
+    probeVectorAvailability: async () => true,
+  };
+}
+
+function fakeClock(stepMs: number) {
+  let t = 0;
+  return () => (t += stepMs);
+}
+
+describe("memory eval", () => {
+  it("parses suites and rejects queries without expected paths", () => {
+    expect(
+      parseMemoryEvalSuite([
+        { query: " deploy ", expected: "memory/ops.md" },
+        { query: "x", expected: ["a.md"], id: "x" },
+      ]),
+    ).toEqual({
+      queries: [
+        { id: "q1", query: "deploy", expected: ["memory/ops.md"] },
+        { id: "x", query: "x", expected: ["a.md"] },
+      ],
+    });
+    expect(() => parseMemoryEvalSuite({ queries: [{ query: "deploy" }] })).toThrow(
+      "queries[0].expected must list at least one path",
+    );
+    expect(() => parseMemoryEvalSuite({ queries: [] })).toThrow("no queries");
+  });
+
+  it("scores recall@k, MRR and latency and diffs two runs", async () => {
+    const suite = parseMemoryEvalSuite({
+      queries: [
+        { id: "deploy", query: "deploy", expected: ["memory/ops.md", "memory/runbooks/"] },
+        { id: "milk", query: "milk", expected: "MEMORY.md" },
+        { id: "tea", query: "tea", expected: "memory/peers/x/tea.md" },
+      ],
+    });
+    const base = await runMemoryEval({
+      manager: fakeManager({
+        deploy: ["memory/a.md", "memory/ops.md", "memory/ops.md", "memory/runbooks/deploy.md"],
+        milk: ["MEMORY.md"],
+      }),
+      suite,
+      k: 3,
+      label: "base",
+      now: fakeClock(2),
+    });
+    expect(base.results.map((result) => [result.rank, result.recall])).toEqual([
+      [2, 1],
+      [1, 1],
+      [null, 0],
+    ]);
+    expect(base.results[0].paths).toEqual([
+      "memory/a.md",
+      "memory/ops.md",
+      "memory/runbooks/deploy.md",
+    ]);
+    expect(base.summary).toMatchObject({ queries: 3, hits: 2, recallAtK: 2 / 3, mrr: 0.5 });
+    expect(base.summary.latencyMs.p50).toBe(2);
+
+    const candidate = await runMemoryEval({
+      manager: fakeManager({
+        deploy: ["memory/ops.md"],
+        milk: ["MEMORY.md"],
+        tea: ["memory/peers/x/tea.md"],
+      }),
+      suite,
+      k: 3,
+      label: "candidate",
+      now: fakeClock(1),
+    });
+    const diff = diffMemoryEvalReports(base, candidate);
+    expect(diff.mrr).toBeCloseTo(0.5);
+    expect(diff.latencyP50Ms).toBe(-1);
+    expect(diff.changed).toEqual([
+      { id: "deploy", query: "deploy", base: 2, candidate: 1 },
+      { id: "tea", query: "tea", base: null, candidate: 1 },
+    ]);
+  });
+
+  it("embeds deterministically offline", async () => {
+    const provider = createDeterministicEmbeddingProvider({ dims: 64 });
+    const [a, b, c] = await provider.embedBatch([
+      "Deploy the gateway with docker compose",
+      "Deploy the gateway with docker compose",
+      "Sam prefers oat milk",
+    ]);
+    const query = await provider.embedQuery("how do we deploy the gateway");
+    const dot = (x: number[], y: number[]) => x.reduce((sum, value, i) => sum + value * y[i], 0);
+    expect(a).toHaveLength(64);
+    expect(a).toEqual(b);
+    expect(dot(query, a)).toBeGreaterThan(dot(query, c));
+  });
+});
@@ -0,0 +1,331 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { resolveAgentConfig } from "../agents/agent-scope.js";
+import type { OpenClawConfig } from "../config/config.js";
+import { applyMergePatch } from "../config/merge-patch.js";
+import { isPlainObject } from "../utils.js";
+import { resolveMemoryBackendConfig } from "./backend-config.js";
+import { createDeterministicEmbeddingProvider } from "./embeddings-deterministic.js";
+import { normalizeRelPath } from "./internal.js";
+import { getMemorySearchManager } from "./search-manager.js";
+import type { MemorySearchManager } from "./types.js";
+
+/**
+ * Golden-query evaluation for memory search. A workspace-local suite lists
+ * queries with the paths that should come back; each run reports recall@k,
+ * MRR and latency so retrieval settings can be compared with data.
+ */
+
+export const DEFAULT_MEMORY_EVAL_FILE = "memory-eval.json";
+export const DEFAULT_MEMORY_EVAL_K = 5;
+
+export type MemoryEvalQuery = {
+  id: string;
+  query: string;
+  /** Workspace-relative paths; a trailing `/` matches anything under that directory. */
+  expected: string[];
+  /** Search as this session (applies memory namespaces). */
+  sessionKey?: string;
+};
+
+export type MemoryEvalSuite = {
+  k?: number;
+  queries: MemoryEvalQuery[];
+};
+
+export type MemoryEvalQueryResult = {
+  id: string;
+  query: string;
+  expected: string[];
+  /** Distinct result paths in rank order (at most k). */
+  paths: string[];
+  /** 1-based rank of the first expected path, or null when none was returned. */
+  rank: number | null;
+  recall: number;
+  reciprocalRank: number;
+  latencyMs: number;
+  error?: string;
+};
+
+export type MemoryEvalSummary = {
+  queries: number;
+  recallAtK: number;
+  mrr: number;
+  hits: number;
+  errors: number;
+  latencyMs: { mean: number; p50: number; p95: number };
+};
+
+export type MemoryEvalReport = {
+  label: string;
+  backend: string;
+  provider: string;
+  model?: string;
+  k: number;
+  summary: MemoryEvalSummary;
+  results: MemoryEvalQueryResult[];
+};
+
+export type MemoryEvalDiff = {
+  base: string;
+  candidate: string;
+  recallAtK: number;
+  mrr: number;
+  latencyP50Ms: number;
+  /** Queries whose first relevant rank changed. */
+  changed: Array<{ id: string; query: string; base: number | null; candidate: number | null }>;
+};
+
+function parseEvalQuery(raw: unknown, index: number): MemoryEvalQuery {
+  if (!isPlainObject(raw)) {
+    throw new Error(`queries[${index}] must be an object`);
+  }
+  const query = typeof raw.query === "string" ? raw.query.trim() : "";
+  if (!query) {
+    throw new Error(`queries[${index}].query is required`);
+  }
+  const rawExpected = typeof raw.expected === "string" ? [raw.expected] : raw.expected;
+  const expected = Array.isArray(rawExpected)
+    ? rawExpected
+        .filter((entry): entry is string => typeof entry === "string")
+        .map((entry) => entry.trim())
+        .filter(Boolean)
+    : [];
+  if (expected.length === 0) {
+    throw new Error(`queries[${index}].expected must list at least one path`);
+  }
+  const id = typeof raw.id === "string" && raw.id.trim() ? raw.id.trim() : `q${index + 1}`;
+  const sessionKey =
+    typeof raw.sessionKey === "string" && raw.sessionKey.trim() ? raw.sessionKey.trim() : undefined;
+  return { id, query, expected, ...(sessionKey ? { sessionKey } : {}) };
+}
+
+/** Parse a suite: `{ k?, queries: [...] }` or a bare array of queries. */
+export function parseMemoryEvalSuite(raw: unknown): MemoryEvalSuite {
+  const body = Array.isArray(raw) ? { queries: raw } : raw;
+  if (!isPlainObject(body) || !Array.isArray(body.queries)) {
+    throw new Error("memory eval suite must have a queries array");
+  }
+  if (body.queries.length === 0) {
+    throw new Error("memory eval suite has no queries");
+  }
+  const k =
+    typeof body.k === "number" && Number.isFinite(body.k) && body.k > 0
+      ? Math.floor(body.k)
+      : undefined;
+  return { ...(k ? { k } : {}), queries: body.queries.map(parseEvalQuery) };
+}
+
+export async function loadMemoryEvalSuite(filePath: string): Promise<MemoryEvalSuite> {
+  const raw = await fs.readFile(filePath, "utf-8");
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (err) {
+    throw new Error(`${filePath}: invalid JSON (${String(err)})`, { cause: err });
+  }
+  try {
+    return parseMemoryEvalSuite(parsed);
+  } catch (err) {
+    throw new Error(`${filePath}: ${err instanceof Error ? err.message : String(err)}`, {
+      cause: err,
+    });
+  }
+}
+
+function matchesExpected(resultPath: string, expected: string): boolean {
+  const target = normalizeRelPath(expected);
+  const actual = normalizeRelPath(resultPath);
+  return target.endsWith("/") ? actual.startsWith(target) : actual === target;
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) {
+    return 0;
+  }
+  const index = Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1);
+  return sorted[Math.max(0, index)];
+}
+
+export function scoreMemoryEvalQuery(params: {
+  query: MemoryEvalQuery;
+  paths: string[];
+  k: number;
+  latencyMs: number;
+}): MemoryEvalQueryResult {
+  const paths = Array.from(new Set(params.paths)).slice(0, params.k);
+  const firstHit = paths.findIndex((entry) =>
+    params.query.expected.some((expected) => matchesExpected(entry, expected)),
+  );
+  const found = params.query.expected.filter((expected) =>
+    paths.some((entry) => matchesExpected(entry, expected)),
+  ).length;
+  return {
+    id: params.query.id,
+    query: params.query.query,
+    expected: params.query.expected,
+    paths,
+    rank: firstHit >= 0 ? firstHit + 1 : null,
+    recall: found / params.query.expected.length,
+    reciprocalRank: firstHit >= 0 ? 1 / (firstHit + 1) : 0,
+    latencyMs: params.latencyMs,
+  };
+}
+
+export function summarizeMemoryEval(results: MemoryEvalQueryResult[]): MemoryEvalSummary {
+  const count = results.length;
+  const mean = (values: number[]) =>
+    values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+  const latencies = results.map((result) => result.latencyMs).toSorted((a, b) => a - b);
+  return {
+    queries: count,
+    recallAtK: mean(results.map((result) => result.recall)),
+    mrr: mean(results.map((result) => result.reciprocalRank)),
+    hits: results.filter((result) => result.rank !== null).length,
+    errors: results.filter((result) => result.error).length,
+    latencyMs: {
+      mean: mean(latencies),
+      p50: percentile(latencies, 50),
+      p95: percentile(latencies, 95),
+    },
+  };
+}
+
+/** Run every suite query against an already-synced manager. */
+export async function runMemoryEval(params: {
+  manager: MemorySearchManager;
+  suite: MemoryEvalSuite;
+  k: number;
+  label: string;
+  now?: () => number;
+}): Promise<MemoryEvalReport> {
+  const now = params.now ?? (() => performance.now());
+  const results: MemoryEvalQueryResult[] = [];
+  for (const query of params.suite.queries) {
+    const started = now();
+    try {
+      const hits = await params.manager.search(query.query, {
+        maxResults: params.k,
+        sessionKey: query.sessionKey,
+      });
+      results.push(
+        scoreMemoryEvalQuery({
+          query,
+          paths: hits.map((hit) => hit.path),
+          k: params.k,
+          latencyMs: now() - started,
+        }),
+      );
+    } catch (err) {
+      results.push({
+        ...scoreMemoryEvalQuery({ query, paths: [], k: params.k, latencyMs: now() - started }),
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+  const status = params.manager.status();
+  return {
+    label: params.label,
+    backend: status.backend,
+    provider: status.provider,
+    ...(status.model ? { model: status.model } : {}),
+    k: params.k,
+    summary: summarizeMemoryEval(results),
+    results,
+  };
+}
+
+export function diffMemoryEvalReports(
+  base: MemoryEvalReport,
+  candidate: MemoryEvalReport,
+): MemoryEvalDiff {
+  const candidateById = new Map(candidate.results.map((result) => [result.id, result]));
+  const changed: MemoryEvalDiff["changed"] = [];
+  for (const result of base.results) {
+    const other = candidateById.get(result.id);
+    if (other && other.rank !== result.rank) {
+      changed.push({
+        id: result.id,
+        query: result.query,
+        base: result.rank,
+        candidate: other.rank,
+      });
+    }
+  }
+  return {
+    base: base.label,
+    candidate: candidate.label,
+    recallAtK: candidate.summary.recallAtK - base.summary.recallAtK,
+    mrr: candidate.summary.mrr - base.summary.mrr,
+    latencyP50Ms: candidate.summary.latencyMs.p50 - base.summary.latencyMs.p50,
+    changed,
+  };
+}
+
+/**
+ * Point the builtin index at a throwaway store and turn off background sync so
+ * an eval run never touches the agent's real index.
+ */
+function withEvalStore(cfg: OpenClawConfig, agentId: string, storePath: string): OpenClawConfig {
+  const memorySearch = {
+    store: { path: storePath },
+    sync: { watch: false, onSessionStart: false, onSearch: false, intervalMinutes: 0 },
+  };
+  const agentOverride = resolveAgentConfig(cfg, agentId)?.memorySearch;
+  const list = agentOverride
+    ? cfg.agents?.list?.map((entry) =>
+        entry.memorySearch === agentOverride ? applyMergePatch(entry, { memorySearch }) : entry,
+      )
+    : undefined;
+  return applyMergePatch(cfg, {
+    agents: { defaults: { memorySearch }, ...(list ? { list } : {}) },
+  }) as OpenClawConfig;
+}
+
+/**
+ * Index the workspace with one configuration and run the suite against it.
+ * The builtin backend indexes into a temporary store; `offline` swaps in the
+ * deterministic embedding provider. QMD runs against its own index.
+ */
+export async function runMemoryEvalVariant(params: {
+  cfg: OpenClawConfig;
+  agentId: string;
+  suite: MemoryEvalSuite;
+  k: number;
+  label: string;
+  offline?: boolean;
+}): Promise<MemoryEvalReport> {
+  const storeDir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-memory-eval-"));
+  const cfg = withEvalStore(params.cfg, params.agentId, path.join(storeDir, "index.sqlite"));
+  let manager: MemorySearchManager | null = null;
+  try {
+    if (resolveMemoryBackendConfig({ cfg, agentId: params.agentId }).backend === "qmd") {
+      const result = await getMemorySearchManager({ cfg, agentId: params.agentId });
+      manager = result.manager;
+      if (!manager) {
+        throw new Error(result.error ?? "memory search is disabled");
+      }
+    } else {
+      const { MemoryIndexManager } = await import("./manager.js");
+      manager = await MemoryIndexManager.get({
+        cfg,
+        agentId: params.agentId,
+        embeddingProvider: params.offline ? createDeterministicEmbeddingProvider() : undefined,
+      });
+      if (!manager) {
+        throw new Error("memory search is disabled");
+      }
+    }
+    await manager.sync?.({ reason: "eval", force: true });
+    return await runMemoryEval({
+      manager,
+      suite: params.suite,
+      k: params.k,
+      label: params.label,
+    });
+  } finally {
+    await manager?.close?.();
+    await fs.rm(storeDir, { recursive: true, force: true });
+  }
+}
@@ -52,6 +52,21 @@ describe("listMemoryFiles", () => {
     expect(files.some((file) => file.endsWith("ignore.txt"))).toBe(false);
   });
 
+  it("includes document formats only when their extensions are enabled", async () => {
+    const memoryDir = path.join(tmpDir, "memory");
+    await fs.mkdir(memoryDir, { recursive: true });
+    await fs.writeFile(path.join(memoryDir, "notes.md"), "# Notes");
+    await fs.writeFile(path.join(memoryDir, "Policy.PDF"), "%PDF-1.4");
+    await fs.writeFile(path.join(memoryDir, "roster.csv"), "name\nSam");
+
+    expect((await listMemoryFiles(tmpDir)).map((file) => path.basename(file))).toEqual([
+      "notes.md",
+    ]);
+    expect(
+      (await listMemoryFiles(tmpDir, [], [".pdf"])).map((file) => path.basename(file)).toSorted(),
+    ).toEqual(["Policy.PDF", "notes.md"]);
+  });
+
   it("includes files from additional paths (single file)", async () => {
     await fs.writeFile(path.join(tmpDir, "MEMORY.md"), "# Default memory");
     const singleFile = path.join(tmpDir, "standalone.md");
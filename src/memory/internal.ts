@@ -11,6 +11,8 @@ export type MemoryFileEntry = {
   mtimeMs: number;
   size: number;
   hash: string;
+  /** Memory namespace (see namespaces.ts); defaults to shared. */
+  namespace?: string;
 };
 
 export type MemoryChunk = {
@@ -56,7 +58,15 @@ export function isMemoryPath(relPath: string): boolean {
   return normalized.startsWith("memory/");
 }
 
-async function walkDir(dir: string, files: string[]) {
+function isIndexableMemoryFile(name: string, documentExtensions: string[]): boolean {
+  if (name.endsWith(".md")) {
+    return true;
+  }
+  const lower = name.toLowerCase();
+  return documentExtensions.some((ext) => lower.endsWith(ext));
+}
+
+async function walkDir(dir: string, files: string[], documentExtensions: string[]) {
   const entries = await fs.readdir(dir, { withFileTypes: true });
   for (const entry of entries) {
     const full = path.join(dir, entry.name);
@@ -64,22 +74,27 @@ async function walkDir(dir: string, files: string[]) {
       continue;
     }
     if (entry.isDirectory()) {
-      await walkDir(full, files);
+      await walkDir(full, files, documentExtensions);
       continue;
     }
     if (!entry.isFile()) {
       continue;
     }
-    if (!entry.name.endsWith(".md")) {
+    if (!isIndexableMemoryFile(entry.name, documentExtensions)) {
       continue;
     }
     files.push(full);
   }
 }
 
+/**
+ * List indexable memory files. Markdown is always included; `documentExtensions`
+ * (e.g. ".pdf") adds extracted document formats from memory/ and extra paths.
+ */
 export async function listMemoryFiles(
   workspaceDir: string,
   extraPaths?: string[],
+  documentExtensions: string[] = [],
 ): Promise<string[]> {
   const result: string[] = [];
   const memoryFile = path.join(workspaceDir, "MEMORY.md");
@@ -104,7 +119,7 @@ export async function listMemoryFiles(
   try {
     const dirStat = await fs.lstat(memoryDir);
     if (!dirStat.isSymbolicLink() && dirStat.isDirectory()) {
-      await walkDir(memoryDir, result);
+      await walkDir(memoryDir, result, documentExtensions);
     }
   } catch {}
 
@@ -117,10 +132,10 @@ export async function listMemoryFiles(
           continue;
         }
         if (stat.isDirectory()) {
-          await walkDir(inputPath, result);
+          await walkDir(inputPath, result, documentExtensions);
           continue;
         }
-        if (stat.isFile() && inputPath.endsWith(".md")) {
+        if (stat.isFile() && isIndexableMemoryFile(inputPath, documentExtensions)) {
           result.push(inputPath);
         }
       } catch {}
@@ -145,7 +160,7 @@ export async function listMemoryFiles(
   return deduped;
 }
 
-export function hashText(value: string): string {
+export function hashText(value: string | Buffer): string {
   return crypto.createHash("sha256").update(value).digest("hex");
 }
 
@@ -162,9 +177,12 @@ export async function buildFileEntry(
     }
     throw err;
   }
-  let content: string;
+  let content: string | Buffer;
   try {
-    content = await fs.readFile(absPath, "utf-8");
+    // Extracted documents (PDF, DOCX, ...) are hashed as raw bytes.
+    content = absPath.endsWith(".md")
+      ? await fs.readFile(absPath, "utf-8")
+      : await fs.readFile(absPath);
   } catch (err) {
     if (isFileMissingError(err)) {
       return null;
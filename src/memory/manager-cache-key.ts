@@ -13,6 +13,7 @@ export function computeMemoryManagerCacheKey(params: {
       enabled: settings.enabled,
       sources: [...settings.sources].toSorted((a, b) => a.localeCompare(b)),
       extraPaths: [...settings.extraPaths].toSorted((a, b) => a.localeCompare(b)),
+      documents: settings.documents,
       provider: settings.provider,
       model: settings.model,
       fallback: settings.fallback,
@@ -18,6 +18,7 @@ import {
   type MemoryFileEntry,
 } from "./internal.js";
 import { MemoryManagerSyncOps } from "./manager-sync-ops.js";
+import { MEMORY_SHARED_NAMESPACE } from "./namespaces.js";
 import type { SessionFileEntry } from "./session-files.js";
 import type { MemorySource } from "./types.js";
 
@@ -703,7 +704,12 @@ export abstract class MemoryManagerEmbeddingOps extends MemoryManagerSyncOps {
       return;
     }
 
-    const content = options.content ?? (await fs.readFile(entry.absPath, "utf-8"));
+    const document =
+      options.source === "memory" && options.content === undefined
+        ? await this.extractDocument(entry.absPath)
+        : undefined;
+    const content =
+      options.content ?? document?.text ?? (await fs.readFile(entry.absPath, "utf-8"));
     const chunks = enforceEmbeddingMaxInputTokens(
       this.provider,
       chunkMarkdown(content, this.settings.chunking).filter(
@@ -713,9 +719,14 @@ export abstract class MemoryManagerEmbeddingOps extends MemoryManagerSyncOps {
     if (options.source === "sessions" && "lineMap" in entry) {
       remapChunkLines(chunks, entry.lineMap);
     }
+    if (document) {
+      // Document chunks point at pages/sections instead of extracted text lines.
+      remapChunkLines(chunks, document.lineMap);
+    }
     const embeddings = this.batch.enabled
       ? await this.embedChunksWithBatch(chunks, entry, options.source)
       : await this.embedChunksInBatches(chunks);
+    const namespace = entry.namespace ?? MEMORY_SHARED_NAMESPACE;
     const sample = embeddings.find((embedding) => embedding.length > 0);
     const vectorReady = sample ? await this.ensureVectorReady(sample.length) : false;
     const now = Date.now();
@@ -746,9 +757,10 @@ export abstract class MemoryManagerEmbeddingOps extends MemoryManagerSyncOps {
       );
       this.db
         .prepare(
-          `INSERT INTO chunks (id, path, source, start_line, end_line, hash, model, text, embedding, updated_at)
-           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          `INSERT INTO chunks (id, path, source, namespace, start_line, end_line, hash, model, text, embedding, updated_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
            ON CONFLICT(id) DO UPDATE SET
+             namespace=excluded.namespace,
              hash=excluded.hash,
              model=excluded.model,
              text=excluded.text,
@@ -759,6 +771,7 @@ export abstract class MemoryManagerEmbeddingOps extends MemoryManagerSyncOps {
           id,
           entry.path,
           options.source,
+          namespace,
           chunk.startLine,
           chunk.endLine,
           chunk.hash,
@@ -794,13 +807,14 @@ export abstract class MemoryManagerEmbeddingOps extends MemoryManagerSyncOps {
     }
     this.db
       .prepare(
-        `INSERT INTO files (path, source, hash, mtime, size) VALUES (?, ?, ?, ?, ?)
+        `INSERT INTO files (path, source, namespace, hash, mtime, size) VALUES (?, ?, ?, ?, ?, ?)
          ON CONFLICT(path) DO UPDATE SET
            source=excluded.source,
+           namespace=excluded.namespace,
            hash=excluded.hash,
            mtime=excluded.mtime,
            size=excluded.size`,
       )
-      .run(entry.path, options.source, entry.hash, entry.mtimeMs, entry.size);
+      .run(entry.path, options.source, namespace, entry.hash, entry.mtimeMs, entry.size);
   }
 }
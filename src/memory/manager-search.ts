@@ -7,6 +7,26 @@ const vectorToBlob = (embedding: number[]): Buffer =>
 
 export type SearchSource = string;
 
+/**
+ * Restrict results to memory namespaces. Undefined means no restriction (operator
+ * tooling); session searches always pass the namespaces they may see.
+ */
+export function buildNamespaceFilter(
+  namespaces: string[] | undefined,
+  column: string,
+): { sql: string; params: string[] } {
+  if (!namespaces) {
+    return { sql: "", params: [] };
+  }
+  if (namespaces.length === 0) {
+    return { sql: " AND 0", params: [] };
+  }
+  return {
+    sql: ` AND ${column} IN (${namespaces.map(() => "?").join(", ")})`,
+    params: namespaces,
+  };
+}
+
 export type SearchRowResult = {
   id: string;
   path: string;
@@ -27,11 +47,13 @@ export async function searchVector(params: {
   ensureVectorReady: (dimensions: number) => Promise<boolean>;
   sourceFilterVec: { sql: string; params: SearchSource[] };
   sourceFilterChunks: { sql: string; params: SearchSource[] };
+  namespaces?: string[];
 }): Promise<SearchRowResult[]> {
   if (params.queryVec.length === 0 || params.limit <= 0) {
     return [];
   }
   if (await params.ensureVectorReady(params.queryVec.length)) {
+    const namespaceFilter = buildNamespaceFilter(params.namespaces, "c.namespace");
     const rows = params.db
       .prepare(
         `SELECT c.id, c.path, c.start_line, c.end_line, c.text,\n` +
@@ -39,7 +61,7 @@ export async function searchVector(params: {
           `       vec_distance_cosine(v.embedding, ?) AS dist\n` +
           `  FROM ${params.vectorTable} v\n` +
           `  JOIN chunks c ON c.id = v.id\n` +
-          ` WHERE c.model = ?${params.sourceFilterVec.sql}\n` +
+          ` WHERE c.model = ?${params.sourceFilterVec.sql}${namespaceFilter.sql}\n` +
           ` ORDER BY dist ASC\n` +
           ` LIMIT ?`,
       )
@@ -47,6 +69,7 @@ export async function searchVector(params: {
         vectorToBlob(params.queryVec),
         params.providerModel,
         ...params.sourceFilterVec.params,
+        ...namespaceFilter.params,
         params.limit,
       ) as Array<{
       id: string;
@@ -72,6 +95,7 @@ export async function searchVector(params: {
     db: params.db,
     providerModel: params.providerModel,
     sourceFilter: params.sourceFilterChunks,
+    namespaces: params.namespaces,
   });
   const scored = candidates
     .map((chunk) => ({
@@ -97,6 +121,7 @@ export function listChunks(params: {
   db: DatabaseSync;
   providerModel: string;
   sourceFilter: { sql: string; params: SearchSource[] };
+  namespaces?: string[];
 }): Array<{
   id: string;
   path: string;
@@ -106,13 +131,15 @@ export function listChunks(params: {
   embedding: number[];
   source: SearchSource;
 }> {
+  const namespaceFilter = buildNamespaceFilter(params.namespaces, "namespace");
   const rows = params.db
     .prepare(
       `SELECT id, path, start_line, end_line, text, embedding, source\n` +
         `  FROM chunks\n` +
-        ` WHERE model = ?${params.sourceFilter.sql}`,
+        ` WHERE model = ?${params.sourceFilter.sql}${namespaceFilter.sql}\n` +
+        ` ORDER BY path, start_line, id`,
     )
-    .all(params.providerModel, ...params.sourceFilter.params) as Array<{
+    .all(params.providerModel, ...params.sourceFilter.params, ...namespaceFilter.params) as Array<{
     id: string;
     path: string;
     start_line: number;
@@ -141,6 +168,7 @@ export async function searchKeyword(params: {
   limit: number;
   snippetMaxChars: number;
   sourceFilter: { sql: string; params: SearchSource[] };
+  namespaces?: string[];
   buildFtsQuery: (raw: string) => string | null;
   bm25RankToScore: (rank: number) => number;
 }): Promise<Array<SearchRowResult & { textScore: number }>> {
@@ -155,17 +183,28 @@ export async function searchKeyword(params: {
   // When providerModel is undefined (FTS-only mode), search all models
   const modelClause = params.providerModel ? " AND model = ?" : "";
   const modelParams = params.providerModel ? [params.providerModel] : [];
+  // The FTS table has no namespace column; filter through the chunks table.
+  const namespaceFilter = buildNamespaceFilter(params.namespaces, "namespace");
+  const namespaceClause = params.namespaces
+    ? ` AND id IN (SELECT id FROM chunks WHERE 1=1${namespaceFilter.sql})`
+    : "";
 
   const rows = params.db
     .prepare(
       `SELECT id, path, source, start_line, end_line, text,\n` +
         `       bm25(${params.ftsTable}) AS rank\n` +
         `  FROM ${params.ftsTable}\n` +
-        ` WHERE ${params.ftsTable} MATCH ?${modelClause}${params.sourceFilter.sql}\n` +
+        ` WHERE ${params.ftsTable} MATCH ?${modelClause}${params.sourceFilter.sql}${namespaceClause}\n` +
         ` ORDER BY rank ASC\n` +
         ` LIMIT ?`,
     )
-    .all(ftsQuery, ...modelParams, ...params.sourceFilter.params, params.limit) as Array<{
+    .all(
+      ftsQuery,
+      ...modelParams,
+      ...params.sourceFilter.params,
+      ...namespaceFilter.params,
+      params.limit,
+    ) as Array<{
     id: string;
     path: string;
     source: SearchSource;
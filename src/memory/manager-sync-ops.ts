@@ -7,10 +7,20 @@ import chokidar, { FSWatcher } from "chokidar";
 import { resolveAgentDir } from "../agents/agent-scope.js";
 import { ResolvedMemorySearchConfig } from "../agents/memory-search.js";
 import { type OpenClawConfig } from "../config/config.js";
-import { resolveSessionTranscriptsDirForAgent } from "../config/sessions/paths.js";
+import {
+  resolveSessionTranscriptsDirForAgent,
+  resolveStorePath,
+} from "../config/sessions/paths.js";
+import { loadSessionStore } from "../config/sessions/store.js";
 import { createSubsystemLogger } from "../logging/subsystem.js";
 import { onSessionTranscriptUpdate } from "../sessions/transcript-events.js";
 import { resolveUserPath } from "../utils.js";
+import {
+  type MemoryDocumentText,
+  resolveMemoryDocumentExtensions,
+  resolveMemoryDocumentExtractor,
+  resolveMemoryDocumentMaxBytes,
+} from "./document-extractors.js";
 import { DEFAULT_GEMINI_EMBEDDING_MODEL } from "./embeddings-gemini.js";
 import { DEFAULT_OPENAI_EMBEDDING_MODEL } from "./embeddings-openai.js";
 import { DEFAULT_VOYAGE_EMBEDDING_MODEL } from "./embeddings-voyage.js";
@@ -31,6 +41,11 @@ import {
 } from "./internal.js";
 import { type MemoryFileEntry } from "./internal.js";
 import { ensureMemoryIndexSchema } from "./memory-schema.js";
+import {
+  MEMORY_UNMAPPED_NAMESPACE,
+  resolveMemoryFileNamespace,
+  resolveSessionMemoryNamespace,
+} from "./namespaces.js";
 import type { SessionFileEntry } from "./session-files.js";
 import {
   buildSessionEntry,
@@ -48,6 +63,8 @@ type MemoryIndexMeta = {
   chunkTokens: number;
   chunkOverlap: number;
   vectorDims?: number;
+  /** Rows carry a namespace; older indexes are rebuilt once to backfill it. */
+  namespaces?: boolean;
 };
 
 type MemorySyncProgressState = {
@@ -349,14 +366,61 @@ export abstract class MemoryManagerSyncOps {
     }
   }
 
+  protected resolveDocumentExtensions(): string[] {
+    const documents = this.settings.documents;
+    return documents.enabled ? resolveMemoryDocumentExtensions(documents.formats) : [];
+  }
+
+  private isWithinDocumentSizeLimit(entry: MemoryFileEntry): boolean {
+    const extractor = resolveMemoryDocumentExtractor(entry.path, this.settings.documents.formats);
+    if (!extractor) {
+      return true;
+    }
+    const maxBytes = resolveMemoryDocumentMaxBytes(extractor, this.settings.documents.maxBytes);
+    if (entry.size <= maxBytes) {
+      return true;
+    }
+    log.debug("memory sync: skipping oversized document", {
+      path: entry.path,
+      size: entry.size,
+      maxBytes,
+    });
+    return false;
+  }
+
+  /**
+   * Extract text from a non-markdown memory document, or undefined when the
+   * path is not an enabled document format. Extraction failures index as empty
+   * so the file is retried only after it changes.
+   */
+  protected async extractDocument(absPath: string): Promise<MemoryDocumentText | undefined> {
+    if (!this.settings.documents.enabled) {
+      return undefined;
+    }
+    const extractor = resolveMemoryDocumentExtractor(absPath, this.settings.documents.formats);
+    if (!extractor) {
+      return undefined;
+    }
+    try {
+      return await extractor.extract(await fs.readFile(absPath));
+    } catch (err) {
+      if (isFileMissingError(err)) {
+        throw err;
+      }
+      log.warn(`memory: ${extractor.format} extraction failed for ${absPath}: ${String(err)}`);
+      return { text: "", lineMap: [] };
+    }
+  }
+
   protected ensureWatcher() {
     if (!this.sources.has("memory") || !this.settings.sync.watch || this.watcher) {
       return;
     }
+    const fileGlobs = ["*.md", ...this.resolveDocumentExtensions().map((ext) => `*${ext}`)];
     const watchPaths = new Set<string>([
       path.join(this.workspaceDir, "MEMORY.md"),
       path.join(this.workspaceDir, "memory.md"),
-      path.join(this.workspaceDir, "memory", "**", "*.md"),
+      ...fileGlobs.map((glob) => path.join(this.workspaceDir, "memory", "**", glob)),
     ]);
     const additionalPaths = normalizeExtraMemoryPaths(this.workspaceDir, this.settings.extraPaths);
     for (const entry of additionalPaths) {
@@ -366,10 +430,15 @@ export abstract class MemoryManagerSyncOps {
           continue;
         }
         if (stat.isDirectory()) {
-          watchPaths.add(path.join(entry, "**", "*.md"));
+          for (const glob of fileGlobs) {
+            watchPaths.add(path.join(entry, "**", glob));
+          }
           continue;
         }
-        if (stat.isFile() && entry.toLowerCase().endsWith(".md")) {
+        if (
+          stat.isFile() &&
+          fileGlobs.some((glob) => entry.toLowerCase().endsWith(glob.slice(1)))
+        ) {
           watchPaths.add(entry);
         }
       } catch {
@@ -588,6 +657,22 @@ export abstract class MemoryManagerSyncOps {
     }, ms);
   }
 
+  /**
+   * Reindex memory files right after a structured write (memory_write /
+   * memory_forget) instead of waiting for the watcher debounce.
+   */
+  async syncMemoryWrites(): Promise<void> {
+    if (!this.sources.has("memory")) {
+      return;
+    }
+    if (this.watchTimer) {
+      clearTimeout(this.watchTimer);
+      this.watchTimer = null;
+    }
+    this.dirty = true;
+    await this.sync({ reason: "memory-write" });
+  }
+
   private scheduleWatchSync() {
     if (!this.sources.has("memory") || !this.settings.sync.watch) {
       return;
@@ -633,10 +718,19 @@ export abstract class MemoryManagerSyncOps {
       return;
     }
 
-    const files = await listMemoryFiles(this.workspaceDir, this.settings.extraPaths);
+    const files = await listMemoryFiles(
+      this.workspaceDir,
+      this.settings.extraPaths,
+      this.resolveDocumentExtensions(),
+    );
     const fileEntries = (
       await Promise.all(files.map(async (file) => buildFileEntry(file, this.workspaceDir)))
-    ).filter((entry): entry is MemoryFileEntry => entry !== null);
+    ).filter(
+      (entry): entry is MemoryFileEntry => entry !== null && this.isWithinDocumentSizeLimit(entry),
+    );
+    for (const entry of fileEntries) {
+      entry.namespace = resolveMemoryFileNamespace(entry.path);
+    }
     log.debug("memory sync: indexing memory files", {
       files: fileEntries.length,
       needsFullReindex: params.needsFullReindex,
@@ -704,6 +798,28 @@ export abstract class MemoryManagerSyncOps {
     }
   }
 
+  /** Map transcript file names to the namespace of the session that owns them. */
+  private resolveSessionFileNamespaces(): Map<string, string> {
+    const namespaces = new Map<string, string>();
+    const store = loadSessionStore(
+      resolveStorePath(this.cfg.session?.store, { agentId: this.agentId }),
+    );
+    for (const [sessionKey, entry] of Object.entries(store)) {
+      const fileName = entry.sessionFile
+        ? path.basename(entry.sessionFile)
+        : entry.sessionId
+          ? `${entry.sessionId}.jsonl`
+          : undefined;
+      if (fileName) {
+        namespaces.set(
+          fileName,
+          resolveSessionMemoryNamespace({ agentId: this.agentId, sessionKey }),
+        );
+      }
+    }
+    return namespaces;
+  }
+
   private async syncSessionFiles(params: {
     needsFullReindex: boolean;
     progress?: MemorySyncProgressState;
@@ -715,6 +831,7 @@ export abstract class MemoryManagerSyncOps {
     }
 
     const files = await listSessionFilesForAgent(this.agentId);
+    const sessionNamespaces = this.resolveSessionFileNamespaces();
     const activePaths = new Set(files.map((file) => sessionPathForFile(file)));
     const indexAll = params.needsFullReindex || this.sessionsDirtyFiles.size === 0;
     log.debug("memory sync: indexing session files", {
@@ -755,10 +872,16 @@ export abstract class MemoryManagerSyncOps {
         }
         return;
       }
+      // Transcripts we cannot attribute to a session could belong to any peer.
+      entry.namespace = sessionNamespaces.get(path.basename(absPath)) ?? MEMORY_UNMAPPED_NAMESPACE;
       const record = this.db
-        .prepare(`SELECT hash FROM files WHERE path = ? AND source = ?`)
-        .get(entry.path, "sessions") as { hash: string } | undefined;
-      if (!params.needsFullReindex && record?.hash === entry.hash) {
+        .prepare(`SELECT hash, namespace FROM files WHERE path = ? AND source = ?`)
+        .get(entry.path, "sessions") as { hash: string; namespace: string } | undefined;
+      if (
+        !params.needsFullReindex &&
+        record?.hash === entry.hash &&
+        record.namespace === entry.namespace
+      ) {
         if (params.progress) {
           params.progress.completed += 1;
           params.progress.report({
@@ -859,6 +982,7 @@ export abstract class MemoryManagerSyncOps {
       meta.providerKey !== this.providerKey ||
       meta.chunkTokens !== this.settings.chunking.tokens ||
       meta.chunkOverlap !== this.settings.chunking.overlap ||
+      !meta.namespaces ||
       (vectorReady && !meta?.vectorDims);
     try {
       if (needsFullReindex) {
@@ -1058,6 +1182,7 @@ export abstract class MemoryManagerSyncOps {
         providerKey: this.providerKey!,
         chunkTokens: this.settings.chunking.tokens,
         chunkOverlap: this.settings.chunking.overlap,
+        namespaces: true,
       };
       if (!nextMeta) {
         throw new Error("Failed to compute memory index metadata for reindexing.");
@@ -1128,6 +1253,7 @@ export abstract class MemoryManagerSyncOps {
       providerKey: this.providerKey!,
       chunkTokens: this.settings.chunking.tokens,
       chunkOverlap: this.settings.chunking.overlap,
+      namespaces: true,
     };
     if (this.vector.available && this.vector.dims) {
       nextMeta.vectorDims = this.vector.dims;
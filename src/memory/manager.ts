@@ -7,6 +7,7 @@ import type { ResolvedMemorySearchConfig } from "../agents/memory-search.js";
 import { resolveMemorySearchConfig } from "../agents/memory-search.js";
 import type { OpenClawConfig } from "../config/config.js";
 import { createSubsystemLogger } from "../logging/subsystem.js";
+import { resolveMemoryDocumentExtractor } from "./document-extractors.js";
 import {
   createEmbeddingProvider,
   type EmbeddingProvider,
@@ -20,6 +21,7 @@ import { bm25RankToScore, buildFtsQuery, mergeHybridResults } from "./hybrid.js"
 import { isMemoryPath, normalizeExtraMemoryPaths } from "./internal.js";
 import { MemoryManagerEmbeddingOps } from "./manager-embedding-ops.js";
 import { searchKeyword, searchVector } from "./manager-search.js";
+import { resolveAllowedMemoryNamespaces } from "./namespaces.js";
 import { extractKeywords } from "./query-expansion.js";
 import type {
   MemoryEmbeddingProbeResult,
@@ -102,6 +104,8 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
     cfg: OpenClawConfig;
     agentId: string;
     purpose?: "default" | "status";
+    /** Use this provider instead of resolving one from config (offline evaluation). */
+    embeddingProvider?: EmbeddingProvider;
   }): Promise<MemoryIndexManager | null> {
     const { cfg, agentId } = params;
     const settings = resolveMemorySearchConfig(cfg, agentId);
@@ -109,20 +113,25 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
       return null;
     }
     const workspaceDir = resolveAgentWorkspaceDir(cfg, agentId);
-    const key = `${agentId}:${workspaceDir}:${JSON.stringify(settings)}`;
+    const providerOverride = params.embeddingProvider
+      ? `:${params.embeddingProvider.id}:${params.embeddingProvider.model}`
+      : "";
+    const key = `${agentId}:${workspaceDir}:${JSON.stringify(settings)}${providerOverride}`;
     const existing = INDEX_CACHE.get(key);
     if (existing) {
       return existing;
     }
-    const providerResult = await createEmbeddingProvider({
-      config: cfg,
-      agentDir: resolveAgentDir(cfg, agentId),
-      provider: settings.provider,
-      remote: settings.remote,
-      model: settings.model,
-      fallback: settings.fallback,
-      local: settings.local,
-    });
+    const providerResult: EmbeddingProviderResult = params.embeddingProvider
+      ? { provider: params.embeddingProvider, requestedProvider: settings.provider }
+      : await createEmbeddingProvider({
+          config: cfg,
+          agentDir: resolveAgentDir(cfg, agentId),
+          provider: settings.provider,
+          remote: settings.remote,
+          model: settings.model,
+          fallback: settings.fallback,
+          local: settings.local,
+        });
     const manager = new MemoryIndexManager({
       cacheKey: key,
       cfg,
@@ -219,6 +228,10 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
     if (!cleaned) {
       return [];
     }
+    const namespaces = resolveAllowedMemoryNamespaces({
+      agentId: this.agentId,
+      sessionKey: opts?.sessionKey,
+    });
     const minScore = opts?.minScore ?? this.settings.query.minScore;
     const maxResults = opts?.maxResults ?? this.settings.query.maxResults;
     const hybrid = this.settings.query.hybrid;
@@ -241,7 +254,7 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
 
       // Search with each keyword and merge results
       const resultSets = await Promise.all(
-        searchTerms.map((term) => this.searchKeyword(term, candidates).catch(() => [])),
+        searchTerms.map((term) => this.searchKeyword(term, candidates, namespaces).catch(() => [])),
       );
 
       // Merge and deduplicate results, keeping highest score for each chunk
@@ -264,13 +277,13 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
     }
 
     const keywordResults = hybrid.enabled
-      ? await this.searchKeyword(cleaned, candidates).catch(() => [])
+      ? await this.searchKeyword(cleaned, candidates, namespaces).catch(() => [])
       : [];
 
     const queryVec = await this.embedQueryWithTimeout(cleaned);
     const hasVector = queryVec.some((v) => v !== 0);
     const vectorResults = hasVector
-      ? await this.searchVector(queryVec, candidates).catch(() => [])
+      ? await this.searchVector(queryVec, candidates, namespaces).catch(() => [])
       : [];
 
     if (!hybrid.enabled) {
@@ -292,6 +305,7 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
   private async searchVector(
     queryVec: number[],
     limit: number,
+    namespaces: string[],
   ): Promise<Array<MemorySearchResult & { id: string }>> {
     // This method should never be called without a provider
     if (!this.provider) {
@@ -307,6 +321,7 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
       ensureVectorReady: async (dimensions) => await this.ensureVectorReady(dimensions),
       sourceFilterVec: this.buildSourceFilter("c"),
       sourceFilterChunks: this.buildSourceFilter(),
+      namespaces,
     });
     return results.map((entry) => entry as MemorySearchResult & { id: string });
   }
@@ -318,6 +333,7 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
   private async searchKeyword(
     query: string,
     limit: number,
+    namespaces: string[],
   ): Promise<Array<MemorySearchResult & { id: string; textScore: number }>> {
     if (!this.fts.enabled || !this.fts.available) {
       return [];
@@ -333,6 +349,7 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
       limit,
       snippetMaxChars: SNIPPET_MAX_CHARS,
       sourceFilter,
+      namespaces,
       buildFtsQuery: (raw) => this.buildFtsQuery(raw),
       bm25RankToScore,
     });
@@ -404,6 +421,9 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
     const inWorkspace =
       relPath.length > 0 && !relPath.startsWith("..") && !path.isAbsolute(relPath);
     const allowedWorkspace = inWorkspace && isMemoryPath(relPath);
+    const document =
+      this.settings.documents.enabled &&
+      Boolean(resolveMemoryDocumentExtractor(absPath, this.settings.documents.formats));
     let allowedAdditional = false;
     if (!allowedWorkspace && this.settings.extraPaths.length > 0) {
       const additionalPaths = normalizeExtraMemoryPaths(
@@ -424,7 +444,7 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
             continue;
           }
           if (stat.isFile()) {
-            if (absPath === additionalPath && absPath.endsWith(".md")) {
+            if (absPath === additionalPath && (absPath.endsWith(".md") || document)) {
               allowedAdditional = true;
               break;
             }
@@ -435,13 +455,16 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
     if (!allowedWorkspace && !allowedAdditional) {
       throw new Error("path required");
     }
-    if (!absPath.endsWith(".md")) {
+    if (!absPath.endsWith(".md") && !document) {
       throw new Error("path required");
     }
     const statResult = await statRegularFile(absPath);
     if (statResult.missing) {
       return { text: "", path: relPath };
     }
+    if (document) {
+      return { text: await this.readDocument(absPath, params), path: relPath };
+    }
     let content: string;
     try {
       content = await fs.readFile(absPath, "utf-8");
@@ -461,6 +484,26 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
     return { text: slice.join("\n"), path: relPath };
   }
 
+  /** Read extracted document text; `from`/`lines` select pages or sections. */
+  private async readDocument(
+    absPath: string,
+    params: { from?: number; lines?: number },
+  ): Promise<string> {
+    const extracted = await this.extractDocument(absPath);
+    if (!extracted || (!params.from && !params.lines)) {
+      return extracted?.text ?? "";
+    }
+    const start = Math.max(1, params.from ?? 1);
+    const end = params.lines ? start + Math.max(1, params.lines) - 1 : Number.POSITIVE_INFINITY;
+    return extracted.text
+      .split("\n")
+      .filter((_, index) => {
+        const location = extracted.lineMap[index] ?? index + 1;
+        return location >= start && location <= end;
+      })
+      .join("\n");
+  }
+
   status(): MemoryProviderStatus {
     const sourceFilter = this.buildSourceFilter();
     const files = this.db
@@ -504,6 +547,30 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
       }
       return sources.map((source) => Object.assign({ source }, bySource.get(source)!));
     })();
+    const namespaceCounts = (() => {
+      const byNamespace = new Map<string, { files: number; chunks: number }>();
+      const fileRows = this.db
+        .prepare(
+          `SELECT namespace, COUNT(*) as c FROM files WHERE 1=1${sourceFilter.sql} GROUP BY namespace`,
+        )
+        .all(...sourceFilter.params) as Array<{ namespace: string; c: number }>;
+      for (const row of fileRows) {
+        byNamespace.set(row.namespace, { files: row.c ?? 0, chunks: 0 });
+      }
+      const chunkRows = this.db
+        .prepare(
+          `SELECT namespace, COUNT(*) as c FROM chunks WHERE 1=1${sourceFilter.sql} GROUP BY namespace`,
+        )
+        .all(...sourceFilter.params) as Array<{ namespace: string; c: number }>;
+      for (const row of chunkRows) {
+        const entry = byNamespace.get(row.namespace) ?? { files: 0, chunks: 0 };
+        entry.chunks = row.c ?? 0;
+        byNamespace.set(row.namespace, entry);
+      }
+      return Array.from(byNamespace.entries())
+        .map(([namespace, counts]) => ({ namespace, ...counts }))
+        .toSorted((a, b) => a.namespace.localeCompare(b.namespace));
+    })();
 
     // Determine search mode: "fts-only" if no provider, "hybrid" otherwise
     const searchMode = this.provider ? "hybrid" : "fts-only";
@@ -524,6 +591,7 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
       sources: Array.from(this.sources),
       extraPaths: this.settings.extraPaths,
       sourceCounts,
+      namespaceCounts,
       cache: this.cache.enabled
         ? {
             enabled: true,
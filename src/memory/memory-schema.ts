@@ -16,6 +16,7 @@ export function ensureMemoryIndexSchema(params: {
     CREATE TABLE IF NOT EXISTS files (
       path TEXT PRIMARY KEY,
       source TEXT NOT NULL DEFAULT 'memory',
+      namespace TEXT NOT NULL DEFAULT 'shared',
       hash TEXT NOT NULL,
       mtime INTEGER NOT NULL,
       size INTEGER NOT NULL
@@ -26,6 +27,7 @@ export function ensureMemoryIndexSchema(params: {
       id TEXT PRIMARY KEY,
       path TEXT NOT NULL,
       source TEXT NOT NULL DEFAULT 'memory',
+      namespace TEXT NOT NULL DEFAULT 'shared',
       start_line INTEGER NOT NULL,
       end_line INTEGER NOT NULL,
       hash TEXT NOT NULL,
@@ -76,8 +78,11 @@ export function ensureMemoryIndexSchema(params: {
 
   ensureColumn(params.db, "files", "source", "TEXT NOT NULL DEFAULT 'memory'");
   ensureColumn(params.db, "chunks", "source", "TEXT NOT NULL DEFAULT 'memory'");
+  ensureColumn(params.db, "files", "namespace", "TEXT NOT NULL DEFAULT 'shared'");
+  ensureColumn(params.db, "chunks", "namespace", "TEXT NOT NULL DEFAULT 'shared'");
   params.db.exec(`CREATE INDEX IF NOT EXISTS idx_chunks_path ON chunks(path);`);
   params.db.exec(`CREATE INDEX IF NOT EXISTS idx_chunks_source ON chunks(source);`);
+  params.db.exec(`CREATE INDEX IF NOT EXISTS idx_chunks_namespace ON chunks(namespace);`);
 
   return { ftsAvailable, ...(ftsError ? { ftsError } : {}) };
 }
@@ -0,0 +1,155 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { makeTempWorkspace } from "../test-helpers/workspace.js";
+import {
+  findMemoryFact,
+  forgetMemoryFact,
+  readMemoryAudit,
+  writeMemoryFact,
+} from "./memory-writes.js";
+
+const actor = { agentId: "main", sessionKey: "agent:main:telegram:dm:42" };
+const NOW = new Date("2026-03-14T12:00:00Z");
+
+describe("structured memory writes", () => {
+  let workspaceDir: string;
+
+  beforeEach(async () => {
+    workspaceDir = await makeTempWorkspace("openclaw-memory-writes-");
+  });
+
+  afterEach(async () => {
+    await fs.rm(workspaceDir, { recursive: true, force: true });
+  });
+
+  const readDaily = () => fs.readFile(path.join(workspaceDir, "memory", "2026-03-14.md"), "utf8");
+
+  it("files facts under topics in the dated memory file", async () => {
+    await fs.mkdir(path.join(workspaceDir, "memory"), { recursive: true });
+    await fs.writeFile(
+      path.join(workspaceDir, "memory", "2026-03-14.md"),
+      "# Notes\n\nfree text\n",
+    );
+
+    const coffee = await writeMemoryFact({
+      workspaceDir,
+      topic: "Preferences",
+      text: "Prefers  oat milk\nin coffee",
+      actor,
+      now: NOW,
+      timezone: "UTC",
+    });
+    const billing = await writeMemoryFact({
+      workspaceDir,
+      topic: "Projects",
+      text: "Owns the billing migration",
+      actor,
+      now: NOW,
+      timezone: "UTC",
+    });
+    const tea = await writeMemoryFact({
+      workspaceDir,
+      topic: "preferences",
+      text: "Drinks green tea after 3pm",
+      actor,
+      now: NOW,
+      timezone: "UTC",
+    });
+
+    expect(coffee.fact).toMatchObject({
+      path: "memory/2026-03-14.md",
+      topic: "Preferences",
+      text: "Prefers oat milk in coffee",
+    });
+    expect(await readDaily()).toBe(
+      [
+        "# Notes",
+        "",
+        "free text",
+        "",
+        "## Preferences",
+        "",
+        `- Prefers oat milk in coffee <!-- memory:${coffee.fact.id} -->`,
+        `- Drinks green tea after 3pm <!-- memory:${tea.fact.id} -->`,
+        "",
+        "## Projects",
+        "",
+        `- Owns the billing migration <!-- memory:${billing.fact.id} -->`,
+        "",
+      ].join("\n"),
+    );
+    expect((await findMemoryFact(workspaceDir, tea.fact.id))?.line).toBe(8);
+  });
+
+  it("files peer facts under the namespace directory and hides them from other peers", async () => {
+    const { fact } = await writeMemoryFact({
+      workspaceDir,
+      topic: "Preferences",
+      text: "Prefers calls after 5pm",
+      namespace: "peer:telegram-direct-42",
+      actor,
+      now: NOW,
+      timezone: "UTC",
+    });
+    expect(fact.path).toBe("memory/peers/telegram-direct-42/2026-03-14.md");
+
+    const otherPeer = ["shared", "agent:main", "peer:telegram-direct-7"];
+    expect(await findMemoryFact(workspaceDir, fact.id, otherPeer)).toBeUndefined();
+    await expect(
+      forgetMemoryFact({ workspaceDir, id: fact.id, reason: "nope", namespaces: otherPeer, actor }),
+    ).rejects.toThrow(`Unknown memory id: ${fact.id}`);
+    expect(
+      (await findMemoryFact(workspaceDir, fact.id, ["shared", "peer:telegram-direct-42"]))?.line,
+    ).toBe(3);
+  });
+
+  it("supersedes and forgets facts by id with an audit trail", async () => {
+    const old = await writeMemoryFact({
+      workspaceDir,
+      topic: "Team",
+      text: "Dana leads infra",
+      actor,
+      now: NOW,
+      timezone: "UTC",
+    });
+    const replacement = await writeMemoryFact({
+      workspaceDir,
+      topic: "Team",
+      text: "Sam leads infra since March",
+      supersedes: old.fact.id,
+      reason: "Org change announced in #general",
+      actor,
+      now: NOW,
+      timezone: "UTC",
+    });
+    expect(replacement.superseded?.id).toBe(old.fact.id);
+    expect(await findMemoryFact(workspaceDir, old.fact.id)).toBeUndefined();
+    expect(await readDaily()).toBe(
+      `## Team\n\n- Sam leads infra since March <!-- memory:${replacement.fact.id} supersedes=${old.fact.id} -->\n`,
+    );
+
+    await expect(
+      forgetMemoryFact({ workspaceDir, id: "mem_missing", reason: "typo", actor }),
+    ).rejects.toThrow("Unknown memory id: mem_missing");
+    await forgetMemoryFact({
+      workspaceDir,
+      id: replacement.fact.id,
+      reason: "User asked to forget team details",
+      actor,
+      now: NOW,
+    });
+    await expect(readDaily()).rejects.toThrow();
+
+    const audit = await readMemoryAudit(workspaceDir);
+    expect(audit.map((entry) => [entry.action, entry.id, entry.reason])).toEqual([
+      ["write", old.fact.id, undefined],
+      ["supersede", replacement.fact.id, "Org change announced in #general"],
+      ["forget", replacement.fact.id, "User asked to forget team details"],
+    ]);
+    expect(audit[2]).toMatchObject({ text: "Sam leads infra since March", topic: "Team", actor });
+    expect(
+      (await readMemoryAudit(workspaceDir, { id: old.fact.id })).map((entry) => entry.action),
+    ).toEqual(["write", "supersede"]);
+  });
+});
@@ -0,0 +1,333 @@
+import { randomBytes } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { createAsyncLock } from "../infra/json-files.js";
+import { listMemoryFiles } from "./internal.js";
+import {
+  MEMORY_SHARED_NAMESPACE,
+  resolveMemoryFileNamespace,
+  resolveMemoryNamespaceDir,
+} from "./namespaces.js";
+
+/**
+ * Structured memory writes. Facts land as tagged bullets under a topic heading
+ * in dated `memory/YYYY-MM-DD.md` files (or the namespace directory, e.g.
+ * `memory/peers/<key>/`) so they stay searchable like any other memory note;
+ * the tag lets a later write supersede or forget them by id.
+ * Every change is appended to `memory/audit.jsonl` for human review.
+ */
+
+const AUDIT_FILENAME = "audit.jsonl";
+const FACT_MARKER_PATTERN =
+  /\s*<!-- memory:(mem_[a-z0-9]+)(?: supersedes=(mem_[a-z0-9]+))? -->\s*$/;
+const HEADING_PATTERN = /^##\s+(.+?)\s*$/;
+
+export type MemoryAuditAction = "write" | "supersede" | "forget";
+
+export type MemoryActor = {
+  agentId: string;
+  sessionKey?: string;
+};
+
+export type MemoryAuditEntry = {
+  ts: string;
+  action: MemoryAuditAction;
+  id: string;
+  path: string;
+  topic?: string;
+  text?: string;
+  supersedes?: string;
+  reason?: string;
+  actor: MemoryActor;
+};
+
+export type MemoryFact = {
+  id: string;
+  topic?: string;
+  text: string;
+  /** Workspace-relative path of the file holding the fact. */
+  path: string;
+  /** 1-based line number. */
+  line: number;
+  supersedes?: string;
+};
+
+const withMemoryWriteLock = createAsyncLock();
+
+function toSingleLine(value: string): string {
+  return value.replace(/\s+/g, " ").trim();
+}
+
+function formatDateStamp(now: Date, timezone?: string): string {
+  return now.toLocaleDateString("en-CA", timezone ? { timeZone: timezone } : undefined);
+}
+
+function createFactId(): string {
+  return `mem_${randomBytes(5).toString("hex")}`;
+}
+
+function relativePath(workspaceDir: string, absPath: string): string {
+  return path.relative(workspaceDir, absPath).replace(/\\/g, "/");
+}
+
+export function resolveMemoryAuditPath(workspaceDir: string): string {
+  return path.join(workspaceDir, "memory", AUDIT_FILENAME);
+}
+
+async function appendAudit(workspaceDir: string, entry: MemoryAuditEntry): Promise<void> {
+  const auditPath = resolveMemoryAuditPath(workspaceDir);
+  await fs.mkdir(path.dirname(auditPath), { recursive: true });
+  await fs.appendFile(auditPath, `${JSON.stringify(entry)}\n`, "utf8");
+}
+
+function parseFactLine(line: string): { id: string; text: string; supersedes?: string } | null {
+  if (!line.startsWith("- ")) {
+    return null;
+  }
+  const match = line.match(FACT_MARKER_PATTERN);
+  if (!match) {
+    return null;
+  }
+  return {
+    id: match[1],
+    text: line.slice(2, match.index).trim(),
+    supersedes: match[2],
+  };
+}
+
+function parseFacts(workspaceDir: string, absPath: string, content: string): MemoryFact[] {
+  const facts: MemoryFact[] = [];
+  let topic: string | undefined;
+  content.split("\n").forEach((line, index) => {
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      topic = heading[1];
+      return;
+    }
+    const fact = parseFactLine(line);
+    if (fact) {
+      facts.push({ ...fact, topic, path: relativePath(workspaceDir, absPath), line: index + 1 });
+    }
+  });
+  return facts;
+}
+
+/**
+ * Find a structured fact by id across MEMORY.md and memory/*.md. When
+ * `namespaces` is set, facts in other namespaces are treated as missing.
+ */
+export async function findMemoryFact(
+  workspaceDir: string,
+  id: string,
+  namespaces?: string[],
+): Promise<MemoryFact | undefined> {
+  const wanted = id.trim();
+  for (const absPath of await listMemoryFiles(workspaceDir)) {
+    const namespace = resolveMemoryFileNamespace(relativePath(workspaceDir, absPath));
+    if (namespaces && !namespaces.includes(namespace)) {
+      continue;
+    }
+    const content = await fs.readFile(absPath, "utf8").catch(() => "");
+    if (!content.includes(`memory:${wanted}`)) {
+      continue;
+    }
+    const fact = parseFacts(workspaceDir, absPath, content).find((entry) => entry.id === wanted);
+    if (fact) {
+      return fact;
+    }
+  }
+  return undefined;
+}
+
+/** Insert a bullet at the end of the topic section, creating the section if needed. */
+function insertUnderTopic(content: string, topic: string, bullet: string): string {
+  const lines = content ? content.replace(/\n+$/, "").split("\n") : [];
+  const headingIndex = lines.findIndex(
+    (line) => line.match(HEADING_PATTERN)?.[1].toLowerCase() === topic.toLowerCase(),
+  );
+  if (headingIndex === -1) {
+    const prefix = lines.length > 0 ? [...lines, ""] : [];
+    return `${[...prefix, `## ${topic}`, "", bullet].join("\n")}\n`;
+  }
+  let insertAt = headingIndex + 1;
+  for (let index = headingIndex + 1; index < lines.length; index += 1) {
+    if (HEADING_PATTERN.test(lines[index])) {
+      break;
+    }
+    if (lines[index].trim()) {
+      insertAt = index + 1;
+    }
+  }
+  if (insertAt === headingIndex + 1) {
+    lines.splice(insertAt, 0, "", bullet);
+  } else {
+    lines.splice(insertAt, 0, bullet);
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+/** Remove a fact line; drop its heading too when the section is left empty. */
+function removeFactLine(content: string, line: number): string {
+  const lines = content.split("\n");
+  lines.splice(line - 1, 1);
+  let start = line - 2;
+  while (start >= 0 && !HEADING_PATTERN.test(lines[start])) {
+    start -= 1;
+  }
+  if (start >= 0) {
+    let end = start + 1;
+    while (end < lines.length && !HEADING_PATTERN.test(lines[end])) {
+      end += 1;
+    }
+    if (!lines.slice(start + 1, end).some((entry) => entry.trim())) {
+      lines.splice(start, end - start);
+    }
+  }
+  const next = lines
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .replace(/^\n+/, "");
+  return next.trim() ? next : "";
+}
+
+async function writeOrRemove(absPath: string, content: string): Promise<void> {
+  if (content) {
+    await fs.writeFile(absPath, content, "utf8");
+  } else {
+    await fs.rm(absPath, { force: true });
+  }
+}
+
+/**
+ * Append a fact under `topic` in today's memory file. When `supersedes` is set
+ * the old fact is removed from its file and the new one references it.
+ */
+export async function writeMemoryFact(params: {
+  workspaceDir: string;
+  topic: string;
+  text: string;
+  actor: MemoryActor;
+  supersedes?: string;
+  reason?: string;
+  /** Namespace to file the fact under (default: shared). */
+  namespace?: string;
+  /** Namespaces the writer may supersede facts in (default: any). */
+  namespaces?: string[];
+  now?: Date;
+  timezone?: string;
+}): Promise<{ fact: MemoryFact; superseded?: MemoryFact }> {
+  const topic = toSingleLine(params.topic).replace(/^#+\s*/, "");
+  const text = toSingleLine(params.text);
+  if (!topic) {
+    throw new Error("topic required");
+  }
+  if (!text) {
+    throw new Error("text required");
+  }
+  if (text.includes("<!--")) {
+    throw new Error("text must not contain HTML comments");
+  }
+  const now = params.now ?? new Date();
+  return await withMemoryWriteLock(async () => {
+    let superseded: MemoryFact | undefined;
+    if (params.supersedes) {
+      superseded = await findMemoryFact(params.workspaceDir, params.supersedes, params.namespaces);
+      if (!superseded) {
+        throw new Error(`Unknown memory id: ${params.supersedes}`);
+      }
+      const oldPath = path.join(params.workspaceDir, superseded.path);
+      const oldContent = await fs.readFile(oldPath, "utf8");
+      await writeOrRemove(oldPath, removeFactLine(oldContent, superseded.line));
+    }
+
+    const id = createFactId();
+    const marker = superseded
+      ? `<!-- memory:${id} supersedes=${superseded.id} -->`
+      : `<!-- memory:${id} -->`;
+    const absPath = path.join(
+      params.workspaceDir,
+      resolveMemoryNamespaceDir(params.namespace ?? MEMORY_SHARED_NAMESPACE),
+      `${formatDateStamp(now, params.timezone)}.md`,
+    );
+    await fs.mkdir(path.dirname(absPath), { recursive: true });
+    const existing = await fs.readFile(absPath, "utf8").catch(() => "");
+    const nextContent = insertUnderTopic(existing, topic, `- ${text} ${marker}`);
+    await fs.writeFile(absPath, nextContent, "utf8");
+    const fact = parseFacts(params.workspaceDir, absPath, nextContent).find(
+      (entry) => entry.id === id,
+    ) as MemoryFact;
+
+    await appendAudit(params.workspaceDir, {
+      ts: now.toISOString(),
+      action: superseded ? "supersede" : "write",
+      id,
+      path: fact.path,
+      topic,
+      text,
+      supersedes: superseded?.id,
+      reason: params.reason?.trim() || undefined,
+      actor: params.actor,
+    });
+    return { fact, superseded };
+  });
+}
+
+/**
+ * Remove a fact by id. The audit log keeps the forgotten text for review.
+ */
+export async function forgetMemoryFact(params: {
+  workspaceDir: string;
+  id: string;
+  actor: MemoryActor;
+  reason?: string;
+  /** Namespaces the caller may forget facts in (default: any). */
+  namespaces?: string[];
+  now?: Date;
+}): Promise<MemoryFact> {
+  const now = params.now ?? new Date();
+  return await withMemoryWriteLock(async () => {
+    const fact = await findMemoryFact(params.workspaceDir, params.id, params.namespaces);
+    if (!fact) {
+      throw new Error(`Unknown memory id: ${params.id}`);
+    }
+    const absPath = path.join(params.workspaceDir, fact.path);
+    const content = await fs.readFile(absPath, "utf8");
+    await writeOrRemove(absPath, removeFactLine(content, fact.line));
+    await appendAudit(params.workspaceDir, {
+      ts: now.toISOString(),
+      action: "forget",
+      id: fact.id,
+      path: fact.path,
+      topic: fact.topic,
+      text: fact.text,
+      reason: params.reason?.trim() || undefined,
+      actor: params.actor,
+    });
+    return fact;
+  });
+}
+
+/**
+ * Read audit entries, newest last. `limit` keeps the most recent entries.
+ */
+export async function readMemoryAudit(
+  workspaceDir: string,
+  opts?: { limit?: number; id?: string },
+): Promise<MemoryAuditEntry[]> {
+  const raw = await fs.readFile(resolveMemoryAuditPath(workspaceDir), "utf8").catch(() => "");
+  const entries: MemoryAuditEntry[] = [];
+  for (const line of raw.split("\n")) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      const entry = JSON.parse(line) as MemoryAuditEntry;
+      if (!opts?.id || entry.id === opts.id || entry.supersedes === opts.id) {
+        entries.push(entry);
+      }
+    } catch {
+      // Skip partial lines from interrupted writes.
+    }
+  }
+  return opts?.limit && opts.limit > 0 ? entries.slice(-opts.limit) : entries;
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { listChunks, searchKeyword } from "./manager-search.js";
+import { ensureMemoryIndexSchema } from "./memory-schema.js";
+import {
+  MEMORY_UNMAPPED_NAMESPACE,
+  resolveAllowedMemoryNamespaces,
+  resolveMemoryFileNamespace,
+  resolveMemoryPeerKey,
+  resolveSessionMemoryNamespace,
+} from "./namespaces.js";
+import { requireNodeSqlite } from "./sqlite.js";
+
+describe("memory namespaces", () => {
+  it("derives peer keys from routing session keys", () => {
+    expect(resolveMemoryPeerKey("agent:main:telegram:direct:42")).toBe("telegram-direct-42");
+    expect(resolveMemoryPeerKey("agent:main:direct:+15550001111")).toBe("direct-+15550001111");
+    expect(resolveMemoryPeerKey("agent:main:slack:channel:C1:thread:17")).toBe("slack-channel-c1");
+    expect(resolveMemoryPeerKey("agent:main:main")).toBeUndefined();
+    expect(resolveMemoryPeerKey("agent:main:cron:daily:run:1")).toBeUndefined();
+    expect(resolveMemoryPeerKey(undefined)).toBeUndefined();
+
+    expect(
+      resolveAllowedMemoryNamespaces({
+        agentId: "Main",
+        sessionKey: "agent:main:whatsapp:direct:+1555",
+      }),
+    ).toEqual(["shared", "agent:main", "peer:whatsapp-direct-+1555"]);
+    expect(resolveSessionMemoryNamespace({ agentId: "main", sessionKey: "agent:main:main" })).toBe(
+      "agent:main",
+    );
+  });
+
+  it("maps memory file paths to namespaces", () => {
+    expect(resolveMemoryFileNamespace("MEMORY.md")).toBe("shared");
+    expect(resolveMemoryFileNamespace("memory/2026-03-14.md")).toBe("shared");
+    expect(resolveMemoryFileNamespace("memory/agents/Ops/notes.md")).toBe("agent:ops");
+    expect(resolveMemoryFileNamespace("memory/peers/telegram-direct-42/2026-03-14.md")).toBe(
+      "peer:telegram-direct-42",
+    );
+  });
+
+  it("filters vector candidates and keyword hits by namespace", async () => {
+    const { DatabaseSync } = requireNodeSqlite();
+    const db = new DatabaseSync(":memory:");
+    const { ftsAvailable } = ensureMemoryIndexSchema({
+      db,
+      embeddingCacheTable: "embedding_cache",
+      ftsTable: "chunks_fts",
+      ftsEnabled: true,
+    });
+    const rows = [
+      ["a", "memory/team.md", "shared", "Sam prefers oat milk"],
+      ["b", "memory/peers/telegram-direct-42/x.md", "peer:telegram-direct-42", "Dana prefers tea"],
+      ["c", "memory/peers/telegram-direct-7/x.md", "peer:telegram-direct-7", "Alex prefers milk"],
+      ["d", "sessions/orphan.jsonl", MEMORY_UNMAPPED_NAMESPACE, "Lee prefers coffee"],
+    ];
+    for (const [id, path, namespace, text] of rows) {
+      db.prepare(
+        `INSERT INTO chunks (id, path, source, namespace, start_line, end_line, hash, model, text, embedding, updated_at)
+         VALUES (?, ?, 'memory', ?, 1, 1, ?, 'm', ?, '[1,0]', 0)`,
+      ).run(id, path, namespace, id, text);
+      if (ftsAvailable) {
+        db.prepare(
+          `INSERT INTO chunks_fts (text, id, path, source, model, start_line, end_line) VALUES (?, ?, ?, 'memory', 'm', 1, 1)`,
+        ).run(text, id, path);
+      }
+    }
+    const namespaces = resolveAllowedMemoryNamespaces({
+      agentId: "main",
+      sessionKey: "agent:main:telegram:direct:42",
+    });
+    const noSourceFilter = { sql: "", params: [] };
+
+    // Candidates come back ordered by path, then start line.
+    expect(
+      listChunks({ db, providerModel: "m", sourceFilter: noSourceFilter, namespaces }).map(
+        (chunk) => chunk.id,
+      ),
+    ).toEqual(["b", "a"]);
+    expect(
+      listChunks({ db, providerModel: "m", sourceFilter: noSourceFilter }).map((chunk) => chunk.id),
+    ).toEqual(["b", "c", "a", "d"]);
+
+    if (ftsAvailable) {
+      const hits = await searchKeyword({
+        db,
+        ftsTable: "chunks_fts",
+        providerModel: "m",
+        query: "prefers",
+        limit: 10,
+        snippetMaxChars: 100,
+        sourceFilter: noSourceFilter,
+        namespaces,
+        buildFtsQuery: (raw) => raw,
+        bm25RankToScore: () => 1,
+      });
+      expect(hits.map((hit) => hit.id).toSorted()).toEqual(["a", "b"]);
+    }
+    db.close();
+  });
+});
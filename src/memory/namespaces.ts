@@ -0,0 +1,94 @@
+import { normalizeAgentId } from "../routing/session-key.js";
+import {
+  parseAgentSessionKey,
+  resolveThreadParentSessionKey,
+} from "../sessions/session-key-utils.js";
+import { normalizeRelPath } from "./internal.js";
+
+/**
+ * Memory namespaces isolate indexed memory between agents and the people they
+ * talk to:
+ * - `shared`: MEMORY.md, memory/*.md and extra paths (every session sees these)
+ * - `agent:<id>`: memory/agents/<id>/ and the agent's own main/cron transcripts
+ * - `peer:<key>`: memory/peers/<key>/ and transcripts of that DM/group session
+ * - `unmapped`: transcripts with no session store entry (no session searches these)
+ *
+ * Peer keys come from the routing session key, so a sender's memory follows the
+ * configured `session.dmScope`.
+ */
+
+export const MEMORY_SHARED_NAMESPACE = "shared";
+
+/** Never in a session's allowed set, so unowned transcripts stay unsearchable. */
+export const MEMORY_UNMAPPED_NAMESPACE = "unmapped";
+
+const PEER_SESSION_PATTERN = /(?:^|:)(?:direct|dm|group|channel):/;
+
+function sanitizeNamespaceSegment(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/:/g, "-")
+    .replace(/[^a-z0-9+@._-]+/g, "_");
+}
+
+/**
+ * Derive the peer key for a DM/group session (e.g. `telegram-direct-42`).
+ * Main, cron and subagent sessions have no peer.
+ */
+export function resolveMemoryPeerKey(sessionKey?: string): string | undefined {
+  const parentKey = resolveThreadParentSessionKey(sessionKey) ?? sessionKey;
+  const parsed = parseAgentSessionKey(parentKey);
+  if (!parsed || !PEER_SESSION_PATTERN.test(parsed.rest.toLowerCase())) {
+    return undefined;
+  }
+  return sanitizeNamespaceSegment(parsed.rest) || undefined;
+}
+
+export function resolveAgentMemoryNamespace(agentId: string): string {
+  return `agent:${normalizeAgentId(agentId)}`;
+}
+
+/** Namespace for memory written or recorded by a session. */
+export function resolveSessionMemoryNamespace(params: {
+  agentId: string;
+  sessionKey?: string;
+}): string {
+  const peerKey = resolveMemoryPeerKey(params.sessionKey);
+  return peerKey ? `peer:${peerKey}` : resolveAgentMemoryNamespace(params.agentId);
+}
+
+/** Namespaces a session may search: shared, its agent, and its own peer. */
+export function resolveAllowedMemoryNamespaces(params: {
+  agentId: string;
+  sessionKey?: string;
+}): string[] {
+  const namespaces = [MEMORY_SHARED_NAMESPACE, resolveAgentMemoryNamespace(params.agentId)];
+  const peerKey = resolveMemoryPeerKey(params.sessionKey);
+  if (peerKey) {
+    namespaces.push(`peer:${peerKey}`);
+  }
+  return namespaces;
+}
+
+/** Namespace of a memory file from its workspace-relative path. */
+export function resolveMemoryFileNamespace(relPath: string): string {
+  const match = normalizeRelPath(relPath).match(/^memory\/(agents|peers)\/([^/]+)\//);
+  if (!match) {
+    return MEMORY_SHARED_NAMESPACE;
+  }
+  return match[1] === "agents"
+    ? resolveAgentMemoryNamespace(match[2])
+    : `peer:${sanitizeNamespaceSegment(match[2])}`;
+}
+
+/** Workspace-relative directory that holds files for a namespace. */
+export function resolveMemoryNamespaceDir(namespace: string): string {
+  if (namespace.startsWith("agent:")) {
+    return `memory/agents/${namespace.slice("agent:".length)}`;
+  }
+  if (namespace.startsWith("peer:")) {
+    return `memory/peers/${namespace.slice("peer:".length)}`;
+  }
+  return "memory";
+}
@@ -162,6 +162,15 @@ class FallbackMemoryManager implements MemorySearchManager {
     await fallback?.sync?.(params);
   }
 
+  async syncMemoryWrites() {
+    const manager = this.primaryFailed ? await this.ensureFallback() : this.deps.primary;
+    if (manager?.syncMemoryWrites) {
+      await manager.syncMemoryWrites();
+      return;
+    }
+    await manager?.sync?.({ reason: "memory-write" });
+  }
+
   async probeEmbeddingAvailability(): Promise<MemoryEmbeddingProbeResult> {
     if (!this.primaryFailed) {
       return await this.deps.primary.probeEmbeddingAvailability();
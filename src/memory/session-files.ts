@@ -16,6 +16,8 @@ export type SessionFileEntry = {
   content: string;
   /** Maps each content line (0-indexed) to its 1-indexed JSONL source line. */
   lineMap: number[];
+  /** Memory namespace of the owning session (see namespaces.ts). */
+  namespace?: string;
 };
 
 export async function listSessionFilesForAgent(agentId: string): Promise<string[]> {
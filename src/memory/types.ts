@@ -34,6 +34,8 @@ export type MemoryProviderStatus = {
   extraPaths?: string[];
   sources?: MemorySource[];
   sourceCounts?: Array<{ source: MemorySource; files: number; chunks: number }>;
+  /** Indexed files/chunks per memory namespace (shared, agent:<id>, peer:<key>). */
+  namespaceCounts?: Array<{ namespace: string; files: number; chunks: number }>;
   cache?: { enabled: boolean; entries?: number; maxEntries?: number };
   fts?: { enabled: boolean; available: boolean; error?: string };
   fallback?: { from: string; reason?: string };
@@ -74,6 +76,8 @@ export interface MemorySearchManager {
     force?: boolean;
     progress?: (update: MemorySyncProgressUpdate) => void;
   }): Promise<void>;
+  /** Reindex memory files now after a structured memory write. */
+  syncMemoryWrites?(): Promise<void>;
   probeEmbeddingAvailability(): Promise<MemoryEmbeddingProbeResult>;
   probeVectorAvailability(): Promise<boolean>;
   close?(): Promise<void>;
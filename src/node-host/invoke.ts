@@ -7,13 +7,18 @@ import { loadConfig } from "../config/config.js";
 import { GatewayClient } from "../gateway/client.js";
 import {
   addAllowlistEntry,
+  addExecPolicyRules,
   analyzeArgvCommand,
+  analyzeExecPolicySegments,
+  buildSimilarExecPolicyRules,
   evaluateExecAllowlist,
+  evaluateExecPolicyRules,
   evaluateShellAllowlist,
   requiresExecApproval,
   normalizeExecApprovals,
   mergeExecApprovalsSocketDefaults,
   recordAllowlistUse,
+  recordExecPolicyRuleUse,
   resolveExecApprovals,
   resolveSafeBins,
   ensureExecApprovals,
@@ -553,6 +558,7 @@ export async function handleInvoke(
   let allowlistMatches: ExecAllowlistEntry[] = [];
   let allowlistSatisfied = false;
   let segments: ExecCommandSegment[] = [];
+  let policySegments: ExecCommandSegment[] | null = null;
   if (shellCommand) {
     const allowlistEval = evaluateShellAllowlist({
       command: shellCommand,
@@ -570,6 +576,12 @@ export async function handleInvoke(
     allowlistSatisfied =
       security === "allowlist" && analysisOk ? allowlistEval.allowlistSatisfied : false;
     segments = allowlistEval.segments;
+    policySegments = analyzeExecPolicySegments({
+      command: shellCommand,
+      cwd: params.cwd ?? undefined,
+      env,
+      platform: process.platform,
+    });
   } else {
     const analysis = analyzeArgvCommand({ argv, cwd: params.cwd ?? undefined, env });
     const allowlistEval = evaluateExecAllowlist({
@@ -586,6 +598,7 @@ export async function handleInvoke(
     allowlistSatisfied =
       security === "allowlist" && analysisOk ? allowlistEval.allowlistSatisfied : false;
     segments = analysis.segments;
+    policySegments = analysis.ok ? analysis.segments : null;
   }
   const isWindows = process.platform === "win32";
   const cmdInvocation = shellCommand
@@ -594,14 +607,52 @@ export async function handleInvoke(
   if (security === "allowlist" && isWindows && cmdInvocation) {
     analysisOk = false;
     allowlistSatisfied = false;
+    policySegments = null;
+  }
+  const policy = evaluateExecPolicyRules({
+    rules: approvals.rules,
+    command: cmdText,
+    segments: policySegments,
+    cwd: params.cwd ?? undefined,
+    env: params.env ?? undefined,
+    host: "node",
+    agentId,
+  });
+  if (policy.decision === "deny") {
+    await sendNodeEvent(
+      client,
+      "exec.denied",
+      buildExecEventPayload({
+        sessionKey,
+        runId,
+        host: "node",
+        command: cmdText,
+        reason: "rule-deny",
+      }),
+    );
+    await sendInvokeResult(client, frame, {
+      ok: false,
+      error: {
+        code: "UNAVAILABLE",
+        message: `SYSTEM_RUN_DENIED: rule ${policy.rules[0]?.id ?? "?"}`,
+      },
+    });
+    return;
+  }
+  const allowedByRule = security === "allowlist" && policy.decision === "allow";
+  if (allowedByRule) {
+    allowlistSatisfied = true;
   }
 
   const useMacAppExec = process.platform === "darwin";
   if (useMacAppExec) {
+    // The companion app has no rule store; a similar-grant runs like allow-once there.
     const approvalDecision =
-      params.approvalDecision === "allow-once" || params.approvalDecision === "allow-always"
-        ? params.approvalDecision
-        : null;
+      params.approvalDecision === "allow-once" || params.approvalDecision === "allow-similar"
+        ? "allow-once"
+        : params.approvalDecision === "allow-always"
+          ? params.approvalDecision
+          : null;
     const execRequest: ExecHostRequest = {
       command: argv,
       rawCommand: rawCommand || shellCommand || null,
@@ -684,15 +735,19 @@ export async function handleInvoke(
     return;
   }
 
-  const requiresAsk = requiresExecApproval({
-    ask,
-    security,
-    analysisOk,
-    allowlistSatisfied,
-  });
+  const requiresAsk =
+    policy.decision === "ask" ||
+    requiresExecApproval({
+      ask,
+      security,
+      analysisOk,
+      allowlistSatisfied,
+    });
 
   const approvalDecision =
-    params.approvalDecision === "allow-once" || params.approvalDecision === "allow-always"
+    params.approvalDecision === "allow-once" ||
+    params.approvalDecision === "allow-always" ||
+    params.approvalDecision === "allow-similar"
       ? params.approvalDecision
       : null;
   const approvedByAsk = approvalDecision !== null || params.approved === true;
@@ -724,6 +779,18 @@ export async function handleInvoke(
       }
     }
   }
+  if (approvalDecision === "allow-similar" && policySegments) {
+    addExecPolicyRules(
+      approvals.file,
+      buildSimilarExecPolicyRules({
+        command: cmdText,
+        segments: policySegments,
+        cwd: params.cwd ?? undefined,
+        host: "node",
+        agentId,
+      }),
+    );
+  }
 
   if (security === "allowlist" && (!analysisOk || !allowlistSatisfied) && !approvedByAsk) {
     await sendNodeEvent(
@@ -760,6 +827,9 @@ export async function handleInvoke(
       );
     }
   }
+  if (allowedByRule) {
+    recordExecPolicyRuleUse(approvals.file, policy.rules);
+  }
 
   if (params.needsScreenRecording === true) {
     await sendNodeEvent(
@@ -0,0 +1,224 @@
+import type { OpenClawConfig } from "../config/config.js";
+import type { AgentBinding, AgentBindingHoursWindow } from "../config/types.agents.js";
+import {
+  isWithinHoursWindow,
+  resolveActiveHoursTimezone,
+} from "../infra/heartbeat-active-hours.js";
+
+/** Inbound message facts used by conditional bindings (hours, keywords, attachments, language). */
+export type RouteMessage = {
+  text?: string;
+  /** MIME types or kinds ("image", "audio", "video", "document") of attached media. */
+  attachments?: string[];
+  /** Sender language as reported by the channel (BCP 47, e.g. "de" or "pt-BR"). */
+  senderLanguage?: string;
+  /** Message time (ms since epoch). Defaults to now. */
+  timestamp?: number;
+};
+
+type HoursCondition = { window: AgentBindingHoursWindow; days: Set<number> | null };
+
+export type NormalizedBindingConditions = {
+  hours: HoursCondition[] | null;
+  keywords: Array<{ keyword: string; regex: RegExp }> | null;
+  pattern: { source: string; regex: RegExp | null } | null;
+  attachments: string[] | null;
+  languages: string[] | null;
+};
+
+const WEEKDAYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+function parseDays(days: string[] | undefined): Set<number> | null {
+  if (!Array.isArray(days) || days.length === 0) {
+    return null;
+  }
+  const set = new Set<number>();
+  for (const entry of days) {
+    const [from, to] = entry.trim().toLowerCase().split("-");
+    const start = WEEKDAYS.indexOf(from);
+    const end = to === undefined ? start : WEEKDAYS.indexOf(to);
+    if (start < 0 || end < 0) {
+      continue;
+    }
+    for (let day = start; ; day = (day + 1) % 7) {
+      set.add(day);
+      if (day === end) {
+        break;
+      }
+    }
+  }
+  return set;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function normalizeList(values: string[] | undefined): string[] | null {
+  const list = (Array.isArray(values) ? values : [])
+    .map((value) => (typeof value === "string" ? value.trim().toLowerCase() : ""))
+    .filter(Boolean);
+  return list.length > 0 ? list : null;
+}
+
+export function normalizeBindingConditions(
+  match: AgentBinding["match"] | undefined,
+): NormalizedBindingConditions {
+  const hours = Array.isArray(match?.hours)
+    ? match.hours.map((window) => ({ window, days: parseDays(window.days) }))
+    : [];
+  const keywords = (normalizeList(match?.keywords) ?? []).map((keyword) => ({
+    keyword,
+    // Whole words/phrases only, so "bill" does not fire on "billion".
+    regex: new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(keyword)}(?![\\p{L}\\p{N}])`, "iu"),
+  }));
+  const source = typeof match?.pattern === "string" ? match.pattern : "";
+  let pattern: NormalizedBindingConditions["pattern"] = null;
+  if (source) {
+    try {
+      pattern = { source, regex: new RegExp(source, "i") };
+    } catch {
+      pattern = { source, regex: null };
+    }
+  }
+  return {
+    hours: hours.length > 0 ? hours : null,
+    keywords: keywords.length > 0 ? keywords : null,
+    pattern,
+    attachments: normalizeList(match?.attachments),
+    languages: normalizeList(match?.languages),
+  };
+}
+
+export function hasBindingConditions(conditions: NormalizedBindingConditions): boolean {
+  return Boolean(
+    conditions.hours ||
+    conditions.keywords ||
+    conditions.pattern ||
+    conditions.attachments ||
+    conditions.languages,
+  );
+}
+
+function resolveWeekday(nowMs: number, timeZone: string): number | null {
+  try {
+    const short = new Intl.DateTimeFormat("en-US", { timeZone, weekday: "short" })
+      .format(new Date(nowMs))
+      .toLowerCase();
+    const day = WEEKDAYS.indexOf(short);
+    return day >= 0 ? day : null;
+  } catch {
+    return null;
+  }
+}
+
+function matchesHours(cfg: OpenClawConfig, condition: HoursCondition, nowMs: number): boolean {
+  if (condition.days) {
+    const timeZone = resolveActiveHoursTimezone(cfg, condition.window.timezone);
+    const day = resolveWeekday(nowMs, timeZone);
+    if (day === null || !condition.days.has(day)) {
+      return false;
+    }
+  }
+  return isWithinHoursWindow(cfg, condition.window, nowMs);
+}
+
+function attachmentKind(value: string): string {
+  const lower = value.trim().toLowerCase();
+  if (!lower.includes("/")) {
+    return lower;
+  }
+  const major = lower.split("/")[0];
+  return major === "image" || major === "audio" || major === "video" ? major : "document";
+}
+
+function matchesAttachment(pattern: string, attachment: string): boolean {
+  const value = attachment.trim().toLowerCase();
+  if (pattern === "any") {
+    return true;
+  }
+  if (pattern.endsWith("/*")) {
+    return value.startsWith(pattern.slice(0, -1)) || attachmentKind(value) === pattern.slice(0, -2);
+  }
+  return pattern.includes("/") ? value === pattern : attachmentKind(value) === pattern;
+}
+
+function matchesLanguage(pattern: string, language: string): boolean {
+  const value = language.trim().toLowerCase().replace(/_/g, "-");
+  return pattern.includes("-") ? value === pattern : value.split("-")[0] === pattern;
+}
+
+/**
+ * Check a binding's message conditions. Returns null when every condition
+ * holds, otherwise a short reason for `openclaw route explain`.
+ */
+export function checkBindingConditions(
+  cfg: OpenClawConfig,
+  conditions: NormalizedBindingConditions,
+  message?: RouteMessage | null,
+): string | null {
+  if (conditions.hours) {
+    const nowMs = message?.timestamp ?? Date.now();
+    if (!conditions.hours.some((condition) => matchesHours(cfg, condition, nowMs))) {
+      return "outside hours";
+    }
+  }
+  const text = message?.text ?? "";
+  if (conditions.keywords && !conditions.keywords.some(({ regex }) => regex.test(text))) {
+    return "no keyword in text";
+  }
+  if (conditions.pattern) {
+    if (!conditions.pattern.regex) {
+      return "invalid pattern";
+    }
+    if (!conditions.pattern.regex.test(text)) {
+      return "pattern did not match";
+    }
+  }
+  if (conditions.attachments) {
+    const attachments = message?.attachments ?? [];
+    const allowed = conditions.attachments;
+    if (!attachments.some((attachment) => allowed.some((p) => matchesAttachment(p, attachment)))) {
+      return attachments.length > 0 ? "attachment type not listed" : "no attachment";
+    }
+  }
+  if (conditions.languages) {
+    const language = message?.senderLanguage;
+    if (!language) {
+      return "sender language unknown";
+    }
+    if (!conditions.languages.some((pattern) => matchesLanguage(pattern, language))) {
+      return `sender language ${language} not listed`;
+    }
+  }
+  return null;
+}
+
+/** Human-readable summary of a binding's conditions (route explain output). */
+export function describeBindingConditions(conditions: NormalizedBindingConditions): string[] {
+  const parts: string[] = [];
+  if (conditions.hours) {
+    parts.push(
+      `hours ${conditions.hours
+        .map(({ window }) =>
+          [window.days?.join(",") ?? "", `${window.start}-${window.end}`, window.timezone ?? ""]
+            .filter(Boolean)
+            .join(" "),
+        )
+        .join(" | ")}`,
+    );
+  }
+  if (conditions.keywords) {
+    parts.push(`keywords ${conditions.keywords.map(({ keyword }) => keyword).join(", ")}`);
+  }
+  if (conditions.pattern) {
+    parts.push(`pattern /${conditions.pattern.source}/i`);
+  }
+  if (conditions.attachments) {
+    parts.push(`attachments ${conditions.attachments.join(", ")}`);
+  }
+  if (conditions.languages) {
+    parts.push(`languages ${conditions.languages.join(", ")}`);
+  }
+  return parts;
+}
@@ -1,7 +1,7 @@
 import { describe, expect, test } from "vitest";
 import type { ChatType } from "../channels/chat-type.js";
 import type { OpenClawConfig } from "../config/config.js";
-import { resolveAgentRoute } from "./resolve-route.js";
+import { explainAgentRoute, resolveAgentRoute } from "./resolve-route.js";
 
 describe("resolveAgentRoute", () => {
   test("defaults to main/default when no bindings exist", () => {
@@ -670,3 +670,72 @@ describe("role-based agent routing", () => {
     });
   });
 });
+
+describe("conditional bindings", () => {
+  // Saturday 2026-03-14 10:30 in Berlin (UTC+1).
+  const SATURDAY_MORNING = Date.parse("2026-03-14T09:30:00Z");
+  // Monday 2026-03-16 10:30 in Berlin.
+  const MONDAY_MORNING = Date.parse("2026-03-16T09:30:00Z");
+
+  const cfg: OpenClawConfig = {
+    agents: {
+      list: [{ id: "support", default: true }, { id: "billing" }, { id: "weekend" }, { id: "de" }],
+    },
+    bindings: [
+      { agentId: "support", match: { channel: "whatsapp", accountId: "*" } },
+      { agentId: "billing", match: { channel: "whatsapp", accountId: "*", keywords: ["invoice"] } },
+      {
+        agentId: "billing",
+        match: { channel: "whatsapp", accountId: "*", attachments: ["application/pdf"] },
+      },
+      {
+        agentId: "weekend",
+        priority: 5,
+        match: {
+          channel: "whatsapp",
+          accountId: "*",
+          hours: [{ days: ["sat-sun"], start: "00:00", end: "24:00", timezone: "Europe/Berlin" }],
+        },
+      },
+      { agentId: "de", match: { channel: "telegram", accountId: "*", languages: ["de"] } },
+    ],
+  };
+
+  const route = (
+    message: Parameters<typeof resolveAgentRoute>[0]["message"],
+    channel = "whatsapp",
+  ) => resolveAgentRoute({ cfg, channel, peer: { kind: "direct", id: "+1555" }, message });
+
+  test("routes by keyword, attachment type, hours and language", () => {
+    expect(route({ text: "hello", timestamp: MONDAY_MORNING }).agentId).toBe("support");
+    expect(route({ text: "Invoice #42?", timestamp: MONDAY_MORNING }).agentId).toBe("billing");
+    expect(route({ text: "invoices", timestamp: MONDAY_MORNING }).agentId).toBe("support");
+    expect(
+      route({ text: "", attachments: ["application/pdf"], timestamp: MONDAY_MORNING }).agentId,
+    ).toBe("billing");
+    expect(route({ text: "invoice", timestamp: SATURDAY_MORNING }).agentId).toBe("weekend");
+    expect(route({ senderLanguage: "de-AT" }, "telegram").agentId).toBe("de");
+    expect(route({ senderLanguage: "en" }, "telegram").matchedBy).toBe("default");
+  });
+
+  test("conditional bindings never match without message facts", () => {
+    expect(resolveAgentRoute({ cfg, channel: "telegram" }).matchedBy).toBe("default");
+  });
+
+  test("explains the winner and why the rest lost", () => {
+    const { route: explained, bindings } = explainAgentRoute({
+      cfg,
+      channel: "whatsapp",
+      peer: { kind: "direct", id: "+1555" },
+      message: { text: "invoice", timestamp: MONDAY_MORNING },
+    });
+    expect(explained.agentId).toBe("billing");
+    expect(bindings.map((entry) => [entry.index, entry.status, entry.reason])).toEqual([
+      [0, "matched", "conditional binding #1 takes precedence"],
+      [1, "won", "most specific match (binding.channel), conditions met"],
+      [2, "skipped", "no attachment"],
+      [3, "skipped", "outside hours"],
+      [4, "skipped", "channel telegram (message is whatsapp)"],
+    ]);
+  });
+});
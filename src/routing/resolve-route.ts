@@ -4,6 +4,14 @@ import { normalizeChatType } from "../channels/chat-type.js";
 import type { OpenClawConfig } from "../config/config.js";
 import { shouldLogVerbose } from "../globals.js";
 import { logDebug } from "../logger.js";
+import {
+  checkBindingConditions,
+  describeBindingConditions,
+  hasBindingConditions,
+  normalizeBindingConditions,
+  type NormalizedBindingConditions,
+  type RouteMessage,
+} from "./binding-conditions.js";
 import { listBindings } from "./bindings.js";
 import {
   buildAgentMainSessionKey,
@@ -17,6 +25,8 @@ import {
 /** @deprecated Use ChatType from channels/chat-type.js */
 export type RoutePeerKind = ChatType;
 
+export type { RouteMessage } from "./binding-conditions.js";
+
 export type RoutePeer = {
   kind: ChatType;
   id: string;
@@ -33,6 +43,8 @@ export type ResolveAgentRouteInput = {
   teamId?: string | null;
   /** Discord member role IDs — used for role-based agent routing. */
   memberRoleIds?: string[];
+  /** Inbound message facts for conditional bindings; without it, those bindings never match. */
+  message?: RouteMessage | null;
 };
 
 export type ResolvedAgentRoute = {
@@ -159,6 +171,11 @@ type NormalizedBindingMatch = {
 type EvaluatedBinding = {
   binding: ReturnType<typeof listBindings>[number];
   match: NormalizedBindingMatch;
+  conditions: NormalizedBindingConditions;
+  conditional: boolean;
+  priority: number;
+  /** Position in `cfg.bindings`. */
+  index: number;
 };
 
 type BindingScope = {
@@ -197,18 +214,20 @@ function getEvaluatedBindingsForChannelAccount(
     return hit;
   }
 
-  const evaluated: EvaluatedBinding[] = listBindings(cfg).flatMap((binding) => {
-    if (!binding || typeof binding !== "object") {
-      return [];
-    }
-    if (!matchesChannel(binding.match, channel)) {
-      return [];
-    }
-    if (!matchesAccountId(binding.match?.accountId, accountId)) {
-      return [];
-    }
-    return [{ binding, match: normalizeBindingMatch(binding.match) }];
-  });
+  const evaluated: EvaluatedBinding[] = sortBindingsByPrecedence(
+    listBindings(cfg).flatMap((binding, index) => {
+      if (!binding || typeof binding !== "object") {
+        return [];
+      }
+      if (!matchesChannel(binding.match, channel)) {
+        return [];
+      }
+      if (!matchesAccountId(binding.match?.accountId, accountId)) {
+        return [];
+      }
+      return [evaluateBinding(binding, index)];
+    }),
+  );
 
   cache.byChannelAccount.set(cacheKey, evaluated);
   if (cache.byChannelAccount.size > MAX_EVALUATED_BINDINGS_CACHE_KEYS) {
@@ -219,6 +238,35 @@ function getEvaluatedBindingsForChannelAccount(
   return evaluated;
 }
 
+function evaluateBinding(
+  binding: ReturnType<typeof listBindings>[number],
+  index: number,
+): EvaluatedBinding {
+  const conditions = normalizeBindingConditions(binding.match);
+  return {
+    binding,
+    match: normalizeBindingMatch(binding.match),
+    conditions,
+    conditional: hasBindingConditions(conditions),
+    priority:
+      typeof binding.priority === "number" && Number.isFinite(binding.priority)
+        ? binding.priority
+        : 0,
+    index,
+  };
+}
+
+/**
+ * Within a tier: higher priority first, then bindings with message conditions
+ * before unconditional ones, then config order.
+ */
+function sortBindingsByPrecedence(bindings: EvaluatedBinding[]): EvaluatedBinding[] {
+  return bindings.toSorted(
+    (a, b) =>
+      b.priority - a.priority || Number(b.conditional) - Number(a.conditional) || a.index - b.index,
+  );
+}
+
 function normalizePeerConstraint(
   peer: { kind?: string; id?: string } | undefined,
 ): NormalizedPeerConstraint {
@@ -292,83 +340,34 @@ function matchesBindingScope(match: NormalizedBindingMatch, scope: BindingScope)
   return true;
 }
 
-export function resolveAgentRoute(input: ResolveAgentRouteInput): ResolvedAgentRoute {
+type RouteTier = {
+  matchedBy: Exclude<ResolvedAgentRoute["matchedBy"], "default">;
+  enabled: boolean;
+  scopePeer: RoutePeer | null;
+  predicate: (candidate: EvaluatedBinding) => boolean;
+};
+
+type RouteContext = {
+  channel: string;
+  accountId: string;
+  peer: RoutePeer | null;
+  baseScope: Omit<BindingScope, "peer">;
+  tiers: RouteTier[];
+};
+
+function buildRouteContext(input: ResolveAgentRouteInput): RouteContext {
   const channel = normalizeToken(input.channel);
   const accountId = normalizeAccountId(input.accountId);
   const peer = input.peer ? { kind: input.peer.kind, id: normalizeId(input.peer.id) } : null;
   const guildId = normalizeId(input.guildId);
   const teamId = normalizeId(input.teamId);
   const memberRoleIds = input.memberRoleIds ?? [];
-  const memberRoleIdSet = new Set(memberRoleIds);
-
-  const bindings = getEvaluatedBindingsForChannelAccount(input.cfg, channel, accountId);
-
-  const dmScope = input.cfg.session?.dmScope ?? "main";
-  const identityLinks = input.cfg.session?.identityLinks;
-
-  const choose = (agentId: string, matchedBy: ResolvedAgentRoute["matchedBy"]) => {
-    const resolvedAgentId = pickFirstExistingAgentId(input.cfg, agentId);
-    const sessionKey = buildAgentSessionKey({
-      agentId: resolvedAgentId,
-      channel,
-      accountId,
-      peer,
-      dmScope,
-      identityLinks,
-    }).toLowerCase();
-    const mainSessionKey = buildAgentMainSessionKey({
-      agentId: resolvedAgentId,
-      mainKey: DEFAULT_MAIN_KEY,
-    }).toLowerCase();
-    return {
-      agentId: resolvedAgentId,
-      channel,
-      accountId,
-      sessionKey,
-      mainSessionKey,
-      matchedBy,
-    };
-  };
-
-  const shouldLogDebug = shouldLogVerbose();
-  const formatPeer = (value?: RoutePeer | null) =>
-    value?.kind && value?.id ? `${value.kind}:${value.id}` : "none";
-  const formatNormalizedPeer = (value: NormalizedPeerConstraint) => {
-    if (value.state === "none") {
-      return "none";
-    }
-    if (value.state === "invalid") {
-      return "invalid";
-    }
-    return `${value.kind}:${value.id}`;
-  };
-
-  if (shouldLogDebug) {
-    logDebug(
-      `[routing] resolveAgentRoute: channel=${channel} accountId=${accountId} peer=${formatPeer(peer)} guildId=${guildId || "none"} teamId=${teamId || "none"} bindings=${bindings.length}`,
-    );
-    for (const entry of bindings) {
-      logDebug(
-        `[routing] binding: agentId=${entry.binding.agentId} accountPattern=${entry.match.accountPattern || "default"} peer=${formatNormalizedPeer(entry.match.peer)} guildId=${entry.match.guildId ?? "none"} teamId=${entry.match.teamId ?? "none"} roles=${entry.match.roles?.length ?? 0}`,
-      );
-    }
-  }
   // Thread parent inheritance: if peer (thread) didn't match, check parent peer binding
   const parentPeer = input.parentPeer
     ? { kind: input.parentPeer.kind, id: normalizeId(input.parentPeer.id) }
     : null;
-  const baseScope = {
-    guildId,
-    teamId,
-    memberRoleIds: memberRoleIdSet,
-  };
 
-  const tiers: Array<{
-    matchedBy: Exclude<ResolvedAgentRoute["matchedBy"], "default">;
-    enabled: boolean;
-    scopePeer: RoutePeer | null;
-    predicate: (candidate: EvaluatedBinding) => boolean;
-  }> = [
+  const tiers: RouteTier[] = [
     {
       matchedBy: "binding.peer",
       enabled: Boolean(peer),
@@ -415,7 +414,62 @@ export function resolveAgentRoute(input: ResolveAgentRouteInput): ResolvedAgentR
     },
   ];
 
-  for (const tier of tiers) {
+  return {
+    channel,
+    accountId,
+    peer,
+    baseScope: { guildId, teamId, memberRoleIds: new Set(memberRoleIds) },
+    tiers,
+  };
+}
+
+/** First tier whose scope this binding satisfies, ignoring message conditions. */
+function resolveBindingTier(context: RouteContext, candidate: EvaluatedBinding): RouteTier | null {
+  return (
+    context.tiers.find(
+      (tier) =>
+        tier.enabled &&
+        tier.predicate(candidate) &&
+        matchesBindingScope(candidate.match, { ...context.baseScope, peer: tier.scopePeer }),
+    ) ?? null
+  );
+}
+
+function buildRoute(
+  input: ResolveAgentRouteInput,
+  context: RouteContext,
+  agentId: string,
+  matchedBy: ResolvedAgentRoute["matchedBy"],
+): ResolvedAgentRoute {
+  const resolvedAgentId = pickFirstExistingAgentId(input.cfg, agentId);
+  const sessionKey = buildAgentSessionKey({
+    agentId: resolvedAgentId,
+    channel: context.channel,
+    accountId: context.accountId,
+    peer: context.peer,
+    dmScope: input.cfg.session?.dmScope ?? "main",
+    identityLinks: input.cfg.session?.identityLinks,
+  }).toLowerCase();
+  const mainSessionKey = buildAgentMainSessionKey({
+    agentId: resolvedAgentId,
+    mainKey: DEFAULT_MAIN_KEY,
+  }).toLowerCase();
+  return {
+    agentId: resolvedAgentId,
+    channel: context.channel,
+    accountId: context.accountId,
+    sessionKey,
+    mainSessionKey,
+    matchedBy,
+  };
+}
+
+function resolveRouteWinner(
+  input: ResolveAgentRouteInput,
+  context: RouteContext,
+  bindings: EvaluatedBinding[],
+): { binding: EvaluatedBinding; tier: RouteTier } | null {
+  for (const tier of context.tiers) {
     if (!tier.enabled) {
       continue;
     }
@@ -423,17 +477,188 @@ export function resolveAgentRoute(input: ResolveAgentRouteInput): ResolvedAgentR
       (candidate) =>
         tier.predicate(candidate) &&
         matchesBindingScope(candidate.match, {
-          ...baseScope,
+          ...context.baseScope,
           peer: tier.scopePeer,
-        }),
+        }) &&
+        (!candidate.conditional ||
+          checkBindingConditions(input.cfg, candidate.conditions, input.message) === null),
     );
     if (matched) {
-      if (shouldLogDebug) {
-        logDebug(`[routing] match: matchedBy=${tier.matchedBy} agentId=${matched.binding.agentId}`);
-      }
-      return choose(matched.binding.agentId, tier.matchedBy);
+      return { binding: matched, tier };
     }
   }
+  return null;
+}
+
+export function resolveAgentRoute(input: ResolveAgentRouteInput): ResolvedAgentRoute {
+  const context = buildRouteContext(input);
+  const { channel, accountId, peer, baseScope } = context;
+  const bindings = getEvaluatedBindingsForChannelAccount(input.cfg, channel, accountId);
+
+  const shouldLogDebug = shouldLogVerbose();
+  const formatPeer = (value?: RoutePeer | null) =>
+    value?.kind && value?.id ? `${value.kind}:${value.id}` : "none";
+  const formatNormalizedPeer = (value: NormalizedPeerConstraint) => {
+    if (value.state === "none") {
+      return "none";
+    }
+    if (value.state === "invalid") {
+      return "invalid";
+    }
+    return `${value.kind}:${value.id}`;
+  };
+
+  if (shouldLogDebug) {
+    logDebug(
+      `[routing] resolveAgentRoute: channel=${channel} accountId=${accountId} peer=${formatPeer(peer)} guildId=${baseScope.guildId || "none"} teamId=${baseScope.teamId || "none"} bindings=${bindings.length}`,
+    );
+    for (const entry of bindings) {
+      logDebug(
+        `[routing] binding: agentId=${entry.binding.agentId} accountPattern=${entry.match.accountPattern || "default"} peer=${formatNormalizedPeer(entry.match.peer)} guildId=${entry.match.guildId ?? "none"} teamId=${entry.match.teamId ?? "none"} roles=${entry.match.roles?.length ?? 0} priority=${entry.priority} conditional=${entry.conditional}`,
+      );
+    }
+  }
+
+  const winner = resolveRouteWinner(input, context, bindings);
+  if (winner) {
+    if (shouldLogDebug) {
+      logDebug(
+        `[routing] match: matchedBy=${winner.tier.matchedBy} agentId=${winner.binding.binding.agentId}`,
+      );
+    }
+    return buildRoute(input, context, winner.binding.binding.agentId, winner.tier.matchedBy);
+  }
+
+  return buildRoute(input, context, resolveDefaultAgentId(input.cfg), "default");
+}
+
+export type AgentRouteBindingExplanation = {
+  /** Position in `cfg.bindings`. */
+  index: number;
+  agentId: string;
+  priority: number;
+  conditions: string[];
+  /** `won`: chose the route; `matched`: eligible but outranked; `skipped`: did not apply. */
+  status: "won" | "matched" | "skipped";
+  /** Tier the binding would match in, when its scope applies. */
+  matchedBy?: Exclude<ResolvedAgentRoute["matchedBy"], "default">;
+  reason: string;
+};
+
+export type AgentRouteExplanation = {
+  route: ResolvedAgentRoute;
+  bindings: AgentRouteBindingExplanation[];
+};
+
+function describeScopeMismatch(
+  match: NormalizedBindingMatch,
+  context: RouteContext,
+): string | null {
+  const { peer, baseScope } = context;
+  if (match.peer.state === "invalid") {
+    return "invalid peer";
+  }
+  if (match.peer.state === "valid") {
+    const wanted = `${match.peer.kind}:${match.peer.id}`;
+    if (!peer) {
+      return `peer ${wanted} (message has no peer)`;
+    }
+    if (peer.kind !== match.peer.kind || peer.id !== match.peer.id) {
+      return `peer ${wanted} (message is ${peer.kind}:${peer.id})`;
+    }
+  }
+  if (match.guildId && match.guildId !== baseScope.guildId) {
+    return `guild ${match.guildId} (message is ${baseScope.guildId || "none"})`;
+  }
+  if (match.teamId && match.teamId !== baseScope.teamId) {
+    return `team ${match.teamId} (message is ${baseScope.teamId || "none"})`;
+  }
+  if (match.roles && !match.roles.some((role) => baseScope.memberRoleIds.has(role))) {
+    return `roles ${match.roles.join(", ")} (sender has none of them)`;
+  }
+  return null;
+}
+
+/**
+ * Resolve a route and report, for every configured binding, whether it won,
+ * was outranked, or did not apply (and why). Backs `openclaw route explain`.
+ */
+export function explainAgentRoute(input: ResolveAgentRouteInput): AgentRouteExplanation {
+  const context = buildRouteContext(input);
+  const candidates = getEvaluatedBindingsForChannelAccount(
+    input.cfg,
+    context.channel,
+    context.accountId,
+  );
+  const winner = resolveRouteWinner(input, context, candidates);
+  const route = winner
+    ? buildRoute(input, context, winner.binding.binding.agentId, winner.tier.matchedBy)
+    : buildRoute(input, context, resolveDefaultAgentId(input.cfg), "default");
+  const winnerTierRank = winner ? context.tiers.indexOf(winner.tier) : -1;
+
+  const bindings = listBindings(input.cfg).flatMap(
+    (binding, index): AgentRouteBindingExplanation[] => {
+      if (!binding || typeof binding !== "object") {
+        return [];
+      }
+      const entry = evaluateBinding(binding, index);
+      const base = {
+        index,
+        agentId: binding.agentId,
+        priority: entry.priority,
+        conditions: describeBindingConditions(entry.conditions),
+      };
+      const skip = (reason: string): AgentRouteBindingExplanation => ({
+        ...base,
+        status: "skipped",
+        reason,
+      });
+      if (!matchesChannel(binding.match, context.channel)) {
+        return [
+          skip(`channel ${binding.match?.channel ?? "(none)"} (message is ${context.channel})`),
+        ];
+      }
+      if (!matchesAccountId(binding.match?.accountId, context.accountId)) {
+        return [
+          skip(
+            `account ${binding.match?.accountId?.trim() || DEFAULT_ACCOUNT_ID} (message is ${context.accountId})`,
+          ),
+        ];
+      }
+      const tier = resolveBindingTier(context, entry);
+      if (!tier) {
+        return [skip(describeScopeMismatch(entry.match, context) ?? "scope does not apply")];
+      }
+      const conditionFailure = entry.conditional
+        ? checkBindingConditions(input.cfg, entry.conditions, input.message)
+        : null;
+      if (conditionFailure) {
+        return [{ ...skip(conditionFailure), matchedBy: tier.matchedBy }];
+      }
+      if (winner && winner.binding.index === index) {
+        const why = [`most specific match (${tier.matchedBy})`];
+        if (entry.priority !== 0) {
+          why.push(`priority ${entry.priority}`);
+        }
+        if (entry.conditional) {
+          why.push("conditions met");
+        }
+        return [{ ...base, status: "won", matchedBy: tier.matchedBy, reason: why.join(", ") }];
+      }
+      const rival = winner?.binding;
+      let reason = "outranked";
+      if (rival && context.tiers.indexOf(tier) > winnerTierRank) {
+        reason = `less specific than ${winner.tier.matchedBy}`;
+      } else if (rival && rival.priority > entry.priority) {
+        reason = `lower priority than binding #${rival.index} (${entry.priority} < ${rival.priority})`;
+      } else if (rival && rival.conditional && !entry.conditional) {
+        reason = `conditional binding #${rival.index} takes precedence`;
+      } else if (rival) {
+        reason = `binding #${rival.index} is listed first`;
+      }
+      return [{ ...base, status: "matched", matchedBy: tier.matchedBy, reason }];
+    },
+  );
 
-  return choose(resolveDefaultAgentId(input.cfg), "default");
+  return { route, bindings };
 }
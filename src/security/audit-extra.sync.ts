@@ -546,12 +546,17 @@ export function collectGatewayHttpNoAuthFindings(
     return findings;
   }
 
-  const chatCompletionsEnabled = cfg.gateway?.http?.endpoints?.chatCompletions?.enabled === true;
-  const responsesEnabled = cfg.gateway?.http?.endpoints?.responses?.enabled === true;
+  const endpoints = cfg.gateway?.http?.endpoints;
+  const chatCompletionsEnabled = endpoints?.chatCompletions?.enabled === true;
+  const responsesEnabled = endpoints?.responses?.enabled === true;
+  const modelsEnabled = endpoints?.models?.enabled ?? (chatCompletionsEnabled || responsesEnabled);
+  const embeddingsEnabled = endpoints?.embeddings?.enabled === true;
   const enabledEndpoints = [
     "/tools/invoke",
     chatCompletionsEnabled ? "/v1/chat/completions" : null,
     responsesEnabled ? "/v1/responses" : null,
+    modelsEnabled ? "/v1/models" : null,
+    embeddingsEnabled ? "/v1/embeddings" : null,
   ].filter((entry): entry is string => Boolean(entry));
 
   const remoteExposure = isGatewayRemotelyExposed(cfg);
@@ -0,0 +1,158 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { OpenClawConfig } from "../config/config.js";
+import { loadSecurityAuditMonitorState, runSecurityAuditMonitorPass } from "./audit-monitor.js";
+import { applySecurityAuditSuppressions } from "./audit-suppressions.js";
+import type { SecurityAuditFinding, SecurityAuditReport } from "./audit.js";
+
+const NOW = Date.parse("2026-10-19T12:00:00Z");
+
+const dmOpen: SecurityAuditFinding = {
+  checkId: "channels.telegram.dm.open",
+  severity: "critical",
+  title: "Telegram DMs are open",
+  detail: 'channels.telegram.dmPolicy="open" allows anyone to DM the bot.',
+  remediation: 'Use dmPolicy="pairing".',
+};
+const redactOff: SecurityAuditFinding = {
+  checkId: "logging.redact_off",
+  severity: "warn",
+  title: "Tool summary redaction is disabled",
+  detail: "logging.redactSensitive is off.",
+};
+
+function auditReturning(findings: SecurityAuditFinding[]) {
+  return vi.fn(
+    async (): Promise<SecurityAuditReport> => ({
+      ts: NOW,
+      summary: { critical: 0, warn: 0, info: 0 },
+      findings,
+    }),
+  );
+}
+
+describe("security audit monitor", () => {
+  let tmpDir: string;
+  let statePath: string;
+  const deliver = vi.fn(async () => []);
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-security-monitor-"));
+    statePath = path.join(tmpDir, "audit-monitor.json");
+    deliver.mockClear();
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  const cfg = (security?: OpenClawConfig["security"]): OpenClawConfig => ({
+    security: {
+      monitor: { target: { channel: "telegram", to: "-100200" } },
+      ...security,
+    },
+  });
+
+  it("alerts on new critical findings and records drift between runs", async () => {
+    const first = await runSecurityAuditMonitorPass({
+      cfg: cfg(),
+      reason: "startup",
+      statePath,
+      audit: auditReturning([redactOff]),
+      deliver,
+      now: NOW,
+    });
+    expect(first).toMatchObject({ alerts: [], alerted: false });
+    expect(deliver).not.toHaveBeenCalled();
+
+    const second = await runSecurityAuditMonitorPass({
+      cfg: cfg(),
+      reason: "config-reload",
+      statePath,
+      audit: auditReturning([redactOff, dmOpen]),
+      deliver,
+      now: NOW + 1000,
+    });
+    expect(second.drift).toMatchObject({ added: [dmOpen.checkId], resolved: [] });
+    expect(second.alerted).toBe(true);
+    expect(deliver).toHaveBeenCalledWith(
+      expect.objectContaining({
+        channel: "telegram",
+        to: "-100200",
+        payloads: [{ text: expect.stringContaining("[critical] channels.telegram.dm.open") }],
+      }),
+    );
+
+    // Same findings again: nothing new, no alert, no history entry.
+    deliver.mockClear();
+    await runSecurityAuditMonitorPass({
+      cfg: cfg(),
+      reason: "interval",
+      statePath,
+      audit: auditReturning([redactOff, dmOpen]),
+      deliver,
+      now: NOW + 2000,
+    });
+    expect(deliver).not.toHaveBeenCalled();
+
+    await runSecurityAuditMonitorPass({
+      cfg: cfg(),
+      reason: "interval",
+      statePath,
+      audit: auditReturning([dmOpen]),
+      deliver,
+      now: NOW + 3000,
+    });
+    const state = await loadSecurityAuditMonitorState(statePath);
+    expect(state.lastRun).toMatchObject({ reason: "interval", summary: { critical: 1, warn: 0 } });
+    expect(state.history.map((entry) => [entry.added, entry.resolved])).toEqual([
+      [[redactOff.checkId], []],
+      [[dmOpen.checkId], []],
+      [[], [redactOff.checkId]],
+    ]);
+  });
+
+  it("respects alertSeverity and suppressions until they expire", async () => {
+    const suppressed = cfg({
+      monitor: { alertSeverity: "warn", target: { channel: "telegram", to: "-100200" } },
+      suppressions: [
+        { checkId: "channels.*.dm.open", reason: "public support bot", until: "2026-11-01" },
+      ],
+    });
+    const result = await runSecurityAuditMonitorPass({
+      cfg: suppressed,
+      reason: "startup",
+      statePath,
+      audit: auditReturning([redactOff, dmOpen]),
+      deliver,
+      now: NOW,
+    });
+    expect(result.alerts.map((finding) => finding.checkId)).toEqual([redactOff.checkId]);
+    expect((await loadSecurityAuditMonitorState(statePath)).lastRun?.suppressed).toEqual([
+      { checkId: dmOpen.checkId, reason: "public support bot", until: "2026-11-01" },
+    ]);
+
+    const afterExpiry = await runSecurityAuditMonitorPass({
+      cfg: suppressed,
+      reason: "interval",
+      statePath,
+      audit: auditReturning([redactOff, dmOpen]),
+      deliver,
+      now: Date.parse("2026-11-02T00:00:00Z"),
+    });
+    expect(afterExpiry.alerts.map((finding) => finding.checkId)).toEqual([dmOpen.checkId]);
+  });
+
+  it("only suppresses findings matching the optional text filter", () => {
+    const result = applySecurityAuditSuppressions(
+      [dmOpen, { ...dmOpen, checkId: "channels.discord.dm.open", title: "Discord DMs are open" }],
+      [{ checkId: "channels.*.dm.open", reason: "accepted", match: "discord" }],
+      NOW,
+    );
+    expect(result.findings.map((finding) => finding.checkId)).toEqual([dmOpen.checkId]);
+    expect(result.suppressed).toHaveLength(1);
+    expect(result.summary).toEqual({ critical: 1, warn: 0, info: 0 });
+  });
+});
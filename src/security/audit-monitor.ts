@@ -0,0 +1,325 @@
+import path from "node:path";
+import type { OpenClawConfig } from "../config/config.js";
+import { resolveStateDir } from "../config/paths.js";
+import type { SecurityMonitorTarget } from "../config/types.security.js";
+import { createAsyncLock, readJsonFile, writeJsonAtomic } from "../infra/json-files.js";
+import { deliverOutboundPayloads } from "../infra/outbound/deliver.js";
+import { createSubsystemLogger } from "../logging/subsystem.js";
+import { isDeliverableMessageChannel, normalizeMessageChannel } from "../utils/message-channel.js";
+import { applySecurityAuditSuppressions } from "./audit-suppressions.js";
+import {
+  runSecurityAudit,
+  type SecurityAuditFinding,
+  type SecurityAuditSeverity,
+  type SecurityAuditSummary,
+} from "./audit.js";
+
+const log = createSubsystemLogger("gateway/security-monitor");
+
+const DEFAULT_INTERVAL_MINUTES = 360;
+const DEFAULT_STARTUP_DELAY_MS = 30_000;
+const MAX_HISTORY = 50;
+const MAX_ALERT_FINDINGS = 10;
+
+export type SecurityAuditRunReason = "startup" | "interval" | "config-reload" | "manual";
+
+export type SecurityAuditDrift = {
+  ts: number;
+  reason: SecurityAuditRunReason;
+  summary: SecurityAuditSummary;
+  /** checkIds that appeared since the previous run. */
+  added: string[];
+  /** checkIds that went away since the previous run. */
+  resolved: string[];
+};
+
+export type SecurityAuditMonitorState = {
+  version: 1;
+  lastRun?: {
+    ts: number;
+    reason: SecurityAuditRunReason;
+    summary: SecurityAuditSummary;
+    /** Active (unsuppressed) findings. */
+    findings: SecurityAuditFinding[];
+    suppressed: Array<{ checkId: string; reason: string; until?: string }>;
+  };
+  /** Runs that changed the set of findings, newest last. */
+  history: SecurityAuditDrift[];
+};
+
+export type SecurityAuditMonitorResult = {
+  drift: SecurityAuditDrift;
+  /** New findings at or above the alert severity. */
+  alerts: SecurityAuditFinding[];
+  alerted: boolean;
+};
+
+export function resolveSecurityAuditStatePath(stateDir = resolveStateDir()): string {
+  return path.join(stateDir, "security", "audit-monitor.json");
+}
+
+export async function loadSecurityAuditMonitorState(
+  statePath = resolveSecurityAuditStatePath(),
+): Promise<SecurityAuditMonitorState> {
+  const raw = await readJsonFile<SecurityAuditMonitorState>(statePath);
+  if (!raw || raw.version !== 1) {
+    return { version: 1, history: [] };
+  }
+  return { ...raw, history: Array.isArray(raw.history) ? raw.history : [] };
+}
+
+const SEVERITY_RANK: Record<SecurityAuditSeverity, number> = { info: 0, warn: 1, critical: 2 };
+
+/** Compare two finding sets by checkId. */
+export function diffSecurityAuditFindings(
+  previous: SecurityAuditFinding[],
+  next: SecurityAuditFinding[],
+): { added: SecurityAuditFinding[]; resolved: string[] } {
+  const before = new Set(previous.map((finding) => finding.checkId));
+  const after = new Set(next.map((finding) => finding.checkId));
+  const seen = new Set<string>();
+  const added = next.filter((finding) => {
+    if (before.has(finding.checkId) || seen.has(finding.checkId)) {
+      return false;
+    }
+    seen.add(finding.checkId);
+    return true;
+  });
+  const resolved = [...before].filter((checkId) => !after.has(checkId));
+  return { added, resolved };
+}
+
+export function formatSecurityAuditAlert(params: {
+  findings: SecurityAuditFinding[];
+  reason: SecurityAuditRunReason;
+}): string {
+  const count = params.findings.length;
+  const lines = [
+    `🚨 Security audit: ${count} new finding${count === 1 ? "" : "s"} (${params.reason})`,
+  ];
+  for (const finding of params.findings.slice(0, MAX_ALERT_FINDINGS)) {
+    lines.push(`- [${finding.severity}] ${finding.checkId}: ${finding.title}`);
+    lines.push(`  ${finding.detail.split("\n")[0]}`);
+    if (finding.remediation?.trim()) {
+      lines.push(`  Fix: ${finding.remediation.trim().split("\n")[0]}`);
+    }
+  }
+  if (count > MAX_ALERT_FINDINGS) {
+    lines.push(`…and ${count - MAX_ALERT_FINDINGS} more.`);
+  }
+  lines.push(
+    'Run "openclaw security audit" for details, or add a security.suppressions entry to accept a finding.',
+  );
+  return lines.join("\n");
+}
+
+async function sendSecurityAlert(params: {
+  cfg: OpenClawConfig;
+  target: SecurityMonitorTarget;
+  text: string;
+  deliver: typeof deliverOutboundPayloads;
+}): Promise<boolean> {
+  const channel = normalizeMessageChannel(params.target.channel) ?? params.target.channel;
+  if (!isDeliverableMessageChannel(channel)) {
+    log.warn(`alert target channel is not deliverable: ${params.target.channel}`);
+    return false;
+  }
+  try {
+    await params.deliver({
+      cfg: params.cfg,
+      channel,
+      to: params.target.to,
+      accountId: params.target.accountId,
+      threadId: params.target.threadId,
+      payloads: [{ text: params.text }],
+    });
+    return true;
+  } catch (err) {
+    log.error(`failed to deliver alert to ${channel}:${params.target.to}: ${String(err)}`);
+    return false;
+  }
+}
+
+const withStateLock = createAsyncLock();
+
+/**
+ * Run the audit once, persist the result, record drift against the previous
+ * run and alert on new findings at or above the configured severity.
+ */
+export async function runSecurityAuditMonitorPass(params: {
+  cfg: OpenClawConfig;
+  reason: SecurityAuditRunReason;
+  statePath?: string;
+  audit?: typeof runSecurityAudit;
+  deliver?: typeof deliverOutboundPayloads;
+  now?: number;
+}): Promise<SecurityAuditMonitorResult> {
+  const audit = params.audit ?? runSecurityAudit;
+  const report = await audit({
+    config: params.cfg,
+    deep: false,
+    includeFilesystem: true,
+    includeChannelSecurity: true,
+  });
+  const statePath = params.statePath ?? resolveSecurityAuditStatePath();
+  const now = params.now ?? Date.now();
+  const monitorCfg = params.cfg.security?.monitor;
+  const { findings, summary, suppressed } = applySecurityAuditSuppressions(
+    report.findings,
+    params.cfg.security?.suppressions,
+    now,
+  );
+
+  return await withStateLock(async () => {
+    const state = await loadSecurityAuditMonitorState(statePath);
+    const { added, resolved } = diffSecurityAuditFindings(state.lastRun?.findings ?? [], findings);
+    const drift: SecurityAuditDrift = {
+      ts: now,
+      reason: params.reason,
+      summary,
+      added: added.map((finding) => finding.checkId),
+      resolved,
+    };
+    const threshold = SEVERITY_RANK[monitorCfg?.alertSeverity ?? "critical"];
+    const alerts = added.filter((finding) => SEVERITY_RANK[finding.severity] >= threshold);
+
+    state.lastRun = {
+      ts: now,
+      reason: params.reason,
+      summary: drift.summary,
+      findings,
+      suppressed: suppressed.map(({ finding, suppression }) => ({
+        checkId: finding.checkId,
+        reason: suppression.reason,
+        ...(suppression.until ? { until: suppression.until } : {}),
+      })),
+    };
+    if (drift.added.length > 0 || drift.resolved.length > 0) {
+      state.history = [...state.history, drift].slice(-MAX_HISTORY);
+    }
+    await writeJsonAtomic(statePath, state);
+
+    let alerted = false;
+    if (alerts.length > 0) {
+      log.warn(
+        `new security findings (${params.reason}): ${alerts.map((finding) => finding.checkId).join(", ")}`,
+      );
+      if (monitorCfg?.target) {
+        alerted = await sendSecurityAlert({
+          cfg: params.cfg,
+          target: monitorCfg.target,
+          text: formatSecurityAuditAlert({ findings: alerts, reason: params.reason }),
+          deliver: params.deliver ?? deliverOutboundPayloads,
+        });
+      }
+    }
+    return { drift, alerts, alerted };
+  });
+}
+
+export type SecurityAuditMonitor = {
+  /** Swap in a reloaded config and audit it. */
+  updateConfig: (cfg: OpenClawConfig) => void;
+  runNow: (reason: SecurityAuditRunReason) => Promise<SecurityAuditMonitorResult | null>;
+  stop: () => void;
+};
+
+export function startSecurityAuditMonitor(opts: {
+  cfg: OpenClawConfig;
+  startupDelayMs?: number;
+  statePath?: string;
+  audit?: typeof runSecurityAudit;
+  deliver?: typeof deliverOutboundPayloads;
+}): SecurityAuditMonitor {
+  let cfg = opts.cfg;
+  let stopped = false;
+  let inFlight: Promise<SecurityAuditMonitorResult | null> | null = null;
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let startupTimer: ReturnType<typeof setTimeout> | null = null;
+  let intervalMs = 0;
+
+  const isEnabled = () => cfg.security?.monitor?.enabled !== false;
+
+  const runNow = async (reason: SecurityAuditRunReason) => {
+    if (stopped || !isEnabled()) {
+      return null;
+    }
+    if (inFlight) {
+      await inFlight.catch(() => null);
+    }
+    const run = runSecurityAuditMonitorPass({
+      cfg,
+      reason,
+      statePath: opts.statePath,
+      audit: opts.audit,
+      deliver: opts.deliver,
+    }).catch((err) => {
+      log.error(`audit run failed (${reason}): ${String(err)}`);
+      return null;
+    });
+    inFlight = run;
+    try {
+      return await run;
+    } finally {
+      if (inFlight === run) {
+        inFlight = null;
+      }
+    }
+  };
+
+  const schedule = () => {
+    const nextIntervalMs =
+      (cfg.security?.monitor?.intervalMinutes ?? DEFAULT_INTERVAL_MINUTES) * 60_000;
+    if (!isEnabled()) {
+      if (timer) {
+        clearInterval(timer);
+        timer = null;
+      }
+      return;
+    }
+    if (timer && nextIntervalMs === intervalMs) {
+      return;
+    }
+    if (timer) {
+      clearInterval(timer);
+    }
+    intervalMs = nextIntervalMs;
+    timer = setInterval(() => void runNow("interval"), intervalMs);
+    timer.unref?.();
+  };
+
+  const stop = () => {
+    stopped = true;
+    if (timer) {
+      clearInterval(timer);
+      timer = null;
+    }
+    if (startupTimer) {
+      clearTimeout(startupTimer);
+      startupTimer = null;
+    }
+  };
+
+  schedule();
+  if (isEnabled()) {
+    startupTimer = setTimeout(() => {
+      startupTimer = null;
+      void runNow("startup");
+    }, opts.startupDelayMs ?? DEFAULT_STARTUP_DELAY_MS);
+    startupTimer.unref?.();
+    log.info(`started (interval: ${Math.round(intervalMs / 60_000)}m)`);
+  }
+
+  return {
+    updateConfig: (next) => {
+      if (stopped) {
+        return;
+      }
+      cfg = next;
+      schedule();
+      void runNow("config-reload");
+    },
+    runNow,
+    stop,
+  };
+}
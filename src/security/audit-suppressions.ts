@@ -0,0 +1,81 @@
+import type { SecurityAuditSuppression } from "../config/types.security.js";
+import type { SecurityAuditFinding, SecurityAuditSummary } from "./audit.js";
+
+export type SuppressedSecurityAuditFinding = {
+  finding: SecurityAuditFinding;
+  suppression: SecurityAuditSuppression;
+};
+
+export type SecurityAuditSuppressionResult = {
+  findings: SecurityAuditFinding[];
+  /** Severity counts for the active findings. */
+  summary: SecurityAuditSummary;
+  suppressed: SuppressedSecurityAuditFinding[];
+  /** Suppressions whose `until` has passed (their findings are active again). */
+  expired: SecurityAuditSuppression[];
+};
+
+function checkIdPatternToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .trim()
+    .split("*")
+    .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${source}$`, "i");
+}
+
+export function isSecurityAuditSuppressionExpired(
+  suppression: SecurityAuditSuppression,
+  now = Date.now(),
+): boolean {
+  if (!suppression.until) {
+    return false;
+  }
+  const until = Date.parse(suppression.until);
+  return Number.isFinite(until) && until <= now;
+}
+
+function matchesSuppression(
+  suppression: SecurityAuditSuppression,
+  finding: SecurityAuditFinding,
+): boolean {
+  if (!checkIdPatternToRegExp(suppression.checkId).test(finding.checkId)) {
+    return false;
+  }
+  const match = suppression.match?.trim().toLowerCase();
+  if (!match) {
+    return true;
+  }
+  return (
+    finding.title.toLowerCase().includes(match) || finding.detail.toLowerCase().includes(match)
+  );
+}
+
+/** Split findings into active and suppressed ones; expired suppressions no longer apply. */
+export function applySecurityAuditSuppressions(
+  findings: SecurityAuditFinding[],
+  suppressions: SecurityAuditSuppression[] | undefined,
+  now = Date.now(),
+): SecurityAuditSuppressionResult {
+  const live: SecurityAuditSuppression[] = [];
+  const expired: SecurityAuditSuppression[] = [];
+  for (const suppression of suppressions ?? []) {
+    if (!suppression?.checkId?.trim()) {
+      continue;
+    }
+    (isSecurityAuditSuppressionExpired(suppression, now) ? expired : live).push(suppression);
+  }
+  const active: SecurityAuditFinding[] = [];
+  const suppressed: SuppressedSecurityAuditFinding[] = [];
+  const summary: SecurityAuditSummary = { critical: 0, warn: 0, info: 0 };
+  for (const finding of findings) {
+    const suppression = live.find((entry) => matchesSuppression(entry, finding));
+    if (suppression) {
+      suppressed.push({ finding, suppression });
+    } else {
+      active.push(finding);
+      summary[finding.severity] += 1;
+    }
+  }
+  return { findings: active, summary, suppressed, expired };
+}
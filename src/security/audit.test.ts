@@ -1342,6 +1342,8 @@ describe("security audit", () => {
     const finding = res.findings.find((entry) => entry.checkId === "gateway.http.no_auth");
     expect(finding?.detail).toContain("/tools/invoke");
     expect(finding?.detail).toContain("/v1/chat/completions");
+    expect(finding?.detail).toContain("/v1/models");
+    expect(finding?.detail).not.toContain("/v1/embeddings");
   });
 
   it("flags gateway HTTP APIs with auth.mode=none as critical when remotely exposed", async () => {
@@ -0,0 +1,98 @@
+import { randomUUID } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { resolveStateDir } from "../config/paths.js";
+import { readJsonFile, writeJsonAtomic } from "../infra/json-files.js";
+import type { PromptInjectionScan } from "./prompt-injection.js";
+
+export type QuarantinedContentSummary = {
+  id: string;
+  ts: number;
+  source: string;
+  sessionKey?: string;
+  score: number;
+  ruleIds: string[];
+  size: number;
+};
+
+export type QuarantinedContent = QuarantinedContentSummary & {
+  version: 1;
+  matches: PromptInjectionScan["matches"];
+  content: string;
+};
+
+export function resolveInjectionQuarantineDir(stateDir = resolveStateDir()): string {
+  return path.join(stateDir, "security", "quarantine");
+}
+
+function isValidQuarantineId(id: string): boolean {
+  return /^[a-z0-9-]{6,64}$/i.test(id);
+}
+
+/** Persist withheld content so an operator can review it later. Returns the quarantine id. */
+export async function quarantineExternalContent(params: {
+  content: string;
+  source: string;
+  scan: PromptInjectionScan;
+  sessionKey?: string;
+  dir?: string;
+  now?: number;
+}): Promise<string> {
+  const id = randomUUID().slice(0, 8);
+  const entry: QuarantinedContent = {
+    version: 1,
+    id,
+    ts: params.now ?? Date.now(),
+    source: params.source,
+    ...(params.sessionKey ? { sessionKey: params.sessionKey } : {}),
+    score: params.scan.score,
+    ruleIds: [...new Set(params.scan.matches.map((match) => match.ruleId))],
+    size: params.content.length,
+    matches: params.scan.matches,
+    content: params.content,
+  };
+  await writeJsonAtomic(
+    path.join(params.dir ?? resolveInjectionQuarantineDir(), `${id}.json`),
+    entry,
+  );
+  return id;
+}
+
+export async function loadQuarantinedContent(
+  id: string,
+  dir = resolveInjectionQuarantineDir(),
+): Promise<QuarantinedContent | null> {
+  const trimmed = id.trim();
+  if (!isValidQuarantineId(trimmed)) {
+    return null;
+  }
+  const entry = await readJsonFile<QuarantinedContent>(path.join(dir, `${trimmed}.json`));
+  return entry?.version === 1 ? entry : null;
+}
+
+/** Newest first. */
+export async function listQuarantinedContent(params?: {
+  dir?: string;
+  limit?: number;
+}): Promise<QuarantinedContentSummary[]> {
+  const dir = params?.dir ?? resolveInjectionQuarantineDir();
+  let names: string[];
+  try {
+    names = await fs.readdir(dir);
+  } catch {
+    return [];
+  }
+  const entries: QuarantinedContentSummary[] = [];
+  for (const name of names) {
+    if (!name.endsWith(".json")) {
+      continue;
+    }
+    const entry = await loadQuarantinedContent(name.slice(0, -".json".length), dir);
+    if (entry) {
+      const { version: _version, matches: _matches, content: _content, ...summary } = entry;
+      entries.push(summary);
+    }
+  }
+  entries.sort((a, b) => b.ts - a.ts);
+  return typeof params?.limit === "number" ? entries.slice(0, params.limit) : entries;
+}
@@ -0,0 +1,111 @@
+import crypto from "node:crypto";
+import { describe, expect, it } from "vitest";
+import { signWebhookFixture } from "../test-helpers/webhook-signing.js";
+import { createWebhookVerifier } from "./webhook-verify.js";
+
+const SECRET = "wsec_test";
+const NOW_MS = Date.parse("2026-03-10T12:00:00Z");
+const NOW_S = NOW_MS / 1000;
+
+describe("createWebhookVerifier", () => {
+  describe("elevenlabs", () => {
+    const create = () =>
+      createWebhookVerifier({ provider: "elevenlabs", secret: SECRET, now: () => NOW_MS });
+
+    it("accepts provider-signed payloads once", () => {
+      const verifier = create();
+      const { rawBody, headers } = signWebhookFixture({
+        provider: "elevenlabs",
+        secret: SECRET,
+        payload: { type: "post_call_transcription", data: { conversation_id: "conv-1" } },
+        timestamp: NOW_S - 30,
+      });
+      // Independently computed, so the fixture signer cannot drift from the provider format
+      const expected = crypto
+        .createHmac("sha256", SECRET)
+        .update(`${NOW_S - 30}.${rawBody}`)
+        .digest("hex");
+      expect(headers["elevenlabs-signature"]).toBe(`t=${NOW_S - 30},v0=${expected}`);
+
+      expect(verifier.verify({ rawBody, headers })).toEqual({ ok: true, timestamp: NOW_S - 30 });
+      expect(verifier.verify({ rawBody, headers })).toMatchObject({
+        ok: false,
+        reason: "replayed",
+      });
+    });
+
+    it("rejects missing, malformed, tampered and stale signatures", () => {
+      const verifier = create();
+      const signed = signWebhookFixture({
+        provider: "elevenlabs",
+        secret: SECRET,
+        payload: { conversation_id: "conv-2" },
+        timestamp: NOW_S,
+      });
+      const reasonFor = (rawBody: string, headers: Record<string, string>) => {
+        const result = verifier.verify({ rawBody, headers });
+        return result.ok ? "ok" : result.reason;
+      };
+
+      expect(reasonFor(signed.rawBody, {})).toBe("missing_signature");
+      // Bare digests without a timestamp are no longer accepted
+      expect(
+        reasonFor(signed.rawBody, {
+          "elevenlabs-signature": crypto
+            .createHmac("sha256", SECRET)
+            .update(signed.rawBody)
+            .digest("hex"),
+        }),
+      ).toBe("malformed_signature");
+      expect(
+        reasonFor(
+          signed.rawBody.replace("conv-2", "conv-3"),
+          signed.headers as Record<string, string>,
+        ),
+      ).toBe("signature_mismatch");
+
+      const stale = signWebhookFixture({
+        provider: "elevenlabs",
+        secret: SECRET,
+        payload: { conversation_id: "conv-2" },
+        timestamp: NOW_S - 301,
+      });
+      expect(reasonFor(stale.rawBody, stale.headers as Record<string, string>)).toBe(
+        "stale_timestamp",
+      );
+    });
+
+    it("honours a custom tolerance", () => {
+      const verifier = createWebhookVerifier({
+        provider: "elevenlabs",
+        secret: SECRET,
+        toleranceSeconds: 30 * 60,
+        now: () => NOW_MS,
+      });
+      const { rawBody, headers } = signWebhookFixture({
+        provider: "elevenlabs",
+        secret: SECRET,
+        payload: {},
+        timestamp: NOW_S - 20 * 60,
+      });
+      expect(verifier.verify({ rawBody, headers }).ok).toBe(true);
+    });
+  });
+
+  describe("linkedin", () => {
+    it("checks the shared secret header and drops duplicate deliveries", () => {
+      const verifier = createWebhookVerifier({ provider: "linkedin", secret: SECRET });
+      const { rawBody, headers } = signWebhookFixture({
+        provider: "linkedin",
+        secret: SECRET,
+        payload: { message_id: "msg-1", chat_id: "chat-1", message: "Hi" },
+      });
+
+      expect(verifier.verify({ rawBody, headers }).ok).toBe(true);
+      expect(verifier.verify({ rawBody, headers })).toMatchObject({ reason: "replayed" });
+      expect(
+        verifier.verify({ rawBody: "{}", headers: { "x-webhook-secret": "wrong" } }),
+      ).toMatchObject({ ok: false, reason: "signature_mismatch" });
+    });
+  });
+});
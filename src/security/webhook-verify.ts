@@ -0,0 +1,251 @@
+/**
+ * Webhook verification for inbound provider callbacks.
+ *
+ * Each provider gets a signing scheme (where the signature lives and what it
+ * covers). Verifiers add timestamp tolerance, a replay cache and structured
+ * rejection logging on top, so HTTP handlers only map the result to a response.
+ */
+
+import crypto from "node:crypto";
+import type { IncomingHttpHeaders, IncomingMessage, ServerResponse } from "node:http";
+import { createDedupeCache, type DedupeCache } from "../infra/dedupe.js";
+import { createSubsystemLogger } from "../logging/subsystem.js";
+import { safeEqualSecret } from "./secret-equal.js";
+
+const log = createSubsystemLogger("webhooks");
+
+const DEFAULT_TOLERANCE_SECONDS = 5 * 60;
+const DEFAULT_MAX_BODY_BYTES = 1024 * 1024;
+const REPLAY_CACHE_MAX_SIZE = 5000;
+// Untimestamped schemes cannot bound a replay window, so remember deliveries for a day
+const UNTIMESTAMPED_REPLAY_TTL_MS = 24 * 60 * 60 * 1000;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type WebhookProvider = "elevenlabs" | "linkedin";
+
+export type WebhookRejectionReason =
+  | "missing_signature"
+  | "malformed_signature"
+  | "stale_timestamp"
+  | "signature_mismatch"
+  | "replayed";
+
+export type WebhookVerificationResult =
+  | { ok: true; timestamp?: number }
+  | { ok: false; reason: WebhookRejectionReason; message: string };
+
+type SchemeCheck =
+  | { ok: true; timestamp?: number; nonce: string }
+  | { ok: false; reason: WebhookRejectionReason; message: string };
+
+export type WebhookSigningScheme = {
+  /** Request header carrying the signature (lower-case). */
+  header: string;
+  /** Whether the signature covers a delivery timestamp. */
+  timestamped: boolean;
+  /** Produce the header value for a payload (used when registering and in tests). */
+  sign: (params: { rawBody: string; secret: string; timestamp: number }) => string;
+  /** Check a header value against the payload. */
+  check: (params: { rawBody: string; headerValue: string; secret: string }) => SchemeCheck;
+};
+
+// =============================================================================
+// Schemes
+// =============================================================================
+
+function hmacSha256Hex(secret: string, payload: string): string {
+  return crypto.createHmac("sha256", secret).update(payload).digest("hex");
+}
+
+function hexEqual(expected: string, actual: string): boolean {
+  if (!/^[a-f0-9]+$/i.test(actual)) {
+    return false;
+  }
+  const expectedBuffer = Buffer.from(expected, "hex");
+  const actualBuffer = Buffer.from(actual, "hex");
+  return (
+    expectedBuffer.length === actualBuffer.length &&
+    crypto.timingSafeEqual(expectedBuffer, actualBuffer)
+  );
+}
+
+function parseHeaderParts(header: string): Record<string, string> {
+  const parts: Record<string, string> = {};
+  for (const part of header.split(",")) {
+    const eqIndex = part.indexOf("=");
+    if (eqIndex > 0) {
+      parts[part.slice(0, eqIndex).trim()] = part.slice(eqIndex + 1).trim();
+    }
+  }
+  return parts;
+}
+
+/**
+ * ElevenLabs: `ElevenLabs-Signature: t=<unix seconds>,v0=<hex HMAC-SHA256 of "t.body">`.
+ */
+const elevenLabsScheme: WebhookSigningScheme = {
+  header: "elevenlabs-signature",
+  timestamped: true,
+  sign: ({ rawBody, secret, timestamp }) =>
+    `t=${timestamp},v0=${hmacSha256Hex(secret, `${timestamp}.${rawBody}`)}`,
+  check: ({ rawBody, headerValue, secret }) => {
+    const parts = parseHeaderParts(headerValue);
+    const timestamp = Number(parts.t);
+    if (!parts.t || !parts.v0 || !Number.isInteger(timestamp)) {
+      return { ok: false, reason: "malformed_signature", message: "Expected t=<ts>,v0=<hmac>" };
+    }
+    if (!hexEqual(hmacSha256Hex(secret, `${parts.t}.${rawBody}`), parts.v0)) {
+      return { ok: false, reason: "signature_mismatch", message: "Signature mismatch" };
+    }
+    return { ok: true, timestamp, nonce: `${parts.t}:${parts.v0}` };
+  },
+};
+
+/**
+ * LinkedIn (Unipile): the shared secret is sent verbatim in a custom header that
+ * we register with the webhook. There is no timestamp, so replays are keyed on
+ * the body digest.
+ */
+const linkedInScheme: WebhookSigningScheme = {
+  header: "x-webhook-secret",
+  timestamped: false,
+  sign: ({ secret }) => secret,
+  check: ({ rawBody, headerValue, secret }) => {
+    if (!safeEqualSecret(headerValue, secret)) {
+      return { ok: false, reason: "signature_mismatch", message: "Invalid webhook secret" };
+    }
+    return { ok: true, nonce: crypto.createHash("sha256").update(rawBody).digest("hex") };
+  },
+};
+
+export const WEBHOOK_SIGNING_SCHEMES: Record<WebhookProvider, WebhookSigningScheme> = {
+  elevenlabs: elevenLabsScheme,
+  linkedin: linkedInScheme,
+};
+
+// =============================================================================
+// Verifier
+// =============================================================================
+
+export type WebhookVerifierOptions = {
+  provider: WebhookProvider;
+  secret: string;
+  /** Accepted clock skew for timestamped schemes. Default: 300 seconds. */
+  toleranceSeconds?: number;
+  /** Clock override for tests. */
+  now?: () => number;
+};
+
+export type WebhookVerifier = {
+  provider: WebhookProvider;
+  verify: (params: {
+    rawBody: string;
+    headers: IncomingHttpHeaders;
+    /** Request path, included in rejection logs. */
+    path?: string;
+  }) => WebhookVerificationResult;
+};
+
+function readHeader(headers: IncomingHttpHeaders, name: string): string | undefined {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Create a verifier for one provider/secret pair. Each verifier owns its replay
+ * cache, so create it once per registered handler rather than per request.
+ */
+export function createWebhookVerifier(opts: WebhookVerifierOptions): WebhookVerifier {
+  const scheme = WEBHOOK_SIGNING_SCHEMES[opts.provider];
+  const toleranceMs = (opts.toleranceSeconds ?? DEFAULT_TOLERANCE_SECONDS) * 1000;
+  const now = opts.now ?? Date.now;
+  const replayCache: DedupeCache = createDedupeCache({
+    // A delivery can arrive up to the tolerance early or late
+    ttlMs: scheme.timestamped ? toleranceMs * 2 : UNTIMESTAMPED_REPLAY_TTL_MS,
+    maxSize: REPLAY_CACHE_MAX_SIZE,
+  });
+
+  const reject = (
+    reason: WebhookRejectionReason,
+    message: string,
+    path: string | undefined,
+  ): WebhookVerificationResult => {
+    log.warn(`${opts.provider} webhook rejected: ${reason}`, {
+      provider: opts.provider,
+      reason,
+      path,
+    });
+    return { ok: false, reason, message };
+  };
+
+  return {
+    provider: opts.provider,
+    verify: ({ rawBody, headers, path }) => {
+      const headerValue = readHeader(headers, scheme.header)?.trim();
+      if (!headerValue) {
+        return reject("missing_signature", `Missing ${scheme.header} header`, path);
+      }
+      const check = scheme.check({ rawBody, headerValue, secret: opts.secret });
+      if (!check.ok) {
+        return reject(check.reason, check.message, path);
+      }
+      const nowMs = now();
+      if (check.timestamp !== undefined && Math.abs(nowMs - check.timestamp * 1000) > toleranceMs) {
+        return reject("stale_timestamp", "Timestamp outside tolerance", path);
+      }
+      if (replayCache.check(check.nonce, nowMs)) {
+        return reject("replayed", "Webhook already received", path);
+      }
+      return { ok: true, timestamp: check.timestamp };
+    },
+  };
+}
+
+// =============================================================================
+// HTTP Helpers
+// =============================================================================
+
+/**
+ * Read the raw request body, rejecting payloads over `maxBytes`.
+ */
+export async function readWebhookBody(
+  req: IncomingMessage,
+  maxBytes = DEFAULT_MAX_BODY_BYTES,
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let total = 0;
+    req.on("data", (chunk: Buffer) => {
+      total += chunk.length;
+      if (total > maxBytes) {
+        req.destroy();
+        reject(new Error("Payload too large"));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf-8")));
+    req.on("error", reject);
+  });
+}
+
+/**
+ * Write the response for a rejected webhook. Replays get a 200 so providers stop
+ * retrying a delivery we already processed; everything else is a 401.
+ */
+export function sendWebhookRejection(
+  res: ServerResponse,
+  result: Extract<WebhookVerificationResult, { ok: false }>,
+): void {
+  res.setHeader("Content-Type", "application/json");
+  if (result.reason === "replayed") {
+    res.statusCode = 200;
+    res.end(JSON.stringify({ ok: true, duplicate: true }));
+    return;
+  }
+  res.statusCode = 401;
+  res.end(JSON.stringify({ error: result.message }));
+}
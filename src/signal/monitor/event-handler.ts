@@ -533,6 +533,14 @@ export function createSignalEventHandler(deps: SignalEventHandlerDeps) {
         kind: isGroup ? "group" : "direct",
         id: isGroup ? (groupId ?? "unknown") : senderPeerId,
       },
+      message: {
+        text: messageText,
+        attachments:
+          dataMessage.attachments?.flatMap((attachment) =>
+            attachment.contentType ? [attachment.contentType] : [],
+          ) ?? [],
+        timestamp: envelope.timestamp ?? undefined,
+      },
     });
     const mentionRegexes = buildMentionRegexes(deps.cfg, route.agentId);
     const wasMentioned = isGroup && matchesMentionPatterns(messageText, mentionRegexes);
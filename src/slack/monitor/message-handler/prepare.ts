@@ -196,6 +196,11 @@ export async function prepareSlackMessage(params: {
       kind: isDirectMessage ? "direct" : isRoom ? "channel" : "group",
       id: isDirectMessage ? (message.user ?? "unknown") : message.channel,
     },
+    message: {
+      text: message.text ?? "",
+      attachments: message.files?.flatMap((file) => (file.mimetype ? [file.mimetype] : [])) ?? [],
+      timestamp: message.ts ? Math.round(Number(message.ts) * 1000) : undefined,
+    },
   });
 
   const baseSessionKey = route.sessionKey;
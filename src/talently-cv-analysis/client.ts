@@ -7,7 +7,13 @@
 import fs from "node:fs/promises";
 import path from "node:path";
 import type { ResolvedTalentlyCVAnalysisConfig } from "./config.js";
-import type { BatchJobCreateResponse } from "./types.js";
+import type {
+  BatchJobCreateResponse,
+  BatchJobResultsResponse,
+  BatchJobStatus,
+  BatchJobStatusResponse,
+  CandidateScore,
+} from "./types.js";
 
 // =============================================================================
 // Client Options
@@ -101,3 +107,91 @@ export async function submitCVsForAnalysis(
     clearTimeout(timeoutId);
   }
 }
+
+/**
+ * Map the API's job status vocabulary onto the normalized statuses.
+ */
+export function normalizeBatchJobStatus(raw: string | undefined): BatchJobStatus {
+  switch (raw?.trim().toLowerCase()) {
+    case "completed":
+    case "complete":
+    case "done":
+    case "success":
+    case "succeeded":
+      return "completed";
+    case "failed":
+    case "error":
+    case "cancelled":
+    case "canceled":
+      return "failed";
+    case "processing":
+    case "running":
+    case "in_progress":
+      return "processing";
+    default:
+      return "pending";
+  }
+}
+
+async function getJson<T>(opts: TalentlyCVAnalysisClientOptions, url: string): Promise<T> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), opts.timeoutMs);
+
+  try {
+    const headers: Record<string, string> = { Accept: "application/json" };
+    if (opts.apiKey) {
+      headers["X-API-Key"] = opts.apiKey;
+    }
+
+    const response = await fetch(url, {
+      method: "GET",
+      headers,
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => "Unknown error");
+      throw new Error(`Talently CV Analysis API error (${response.status}): ${errorText}`);
+    }
+
+    return (await response.json()) as T;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+function jobUrl(opts: TalentlyCVAnalysisClientOptions, jobId: string, suffix = ""): string {
+  return `${opts.apiUrl.replace(/\/+$/, "")}/${encodeURIComponent(jobId)}${suffix}`;
+}
+
+/**
+ * Get the status of a batch job.
+ *
+ * GET /{job_id}
+ */
+export async function getBatchJobStatus(
+  opts: TalentlyCVAnalysisClientOptions,
+  jobId: string,
+): Promise<BatchJobStatusResponse> {
+  return await getJson<BatchJobStatusResponse>(opts, jobUrl(opts, jobId));
+}
+
+/**
+ * Get the per-CV scores of a finished batch job.
+ *
+ * GET /{job_id}/results
+ */
+export async function getBatchJobResults(
+  opts: TalentlyCVAnalysisClientOptions,
+  jobId: string,
+): Promise<BatchJobResultsResponse> {
+  const raw = await getJson<Partial<BatchJobResultsResponse> | CandidateScore[]>(
+    opts,
+    jobUrl(opts, jobId, "/results"),
+  );
+  const results = Array.isArray(raw) ? raw : Array.isArray(raw.results) ? raw.results : [];
+  return {
+    job_id: jobId,
+    results: results.filter((row) => typeof row?.score === "number"),
+  };
+}
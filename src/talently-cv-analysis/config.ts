@@ -5,7 +5,7 @@
  */
 
 import type { OpenClawConfig } from "../config/config.js";
-import type { TalentlyCVAnalysisConfig } from "./types.js";
+import type { CVAnalysisAnnounceTarget, TalentlyCVAnalysisConfig } from "./types.js";
 
 const DEFAULT_TIMEOUT_MS = 120_000; // 2 minutes for file uploads
 
@@ -14,6 +14,7 @@ export type ResolvedTalentlyCVAnalysisConfig = {
   apiUrl?: string;
   apiKey?: string;
   timeoutMs: number;
+  announce?: CVAnalysisAnnounceTarget;
 };
 
 /**
@@ -48,11 +49,16 @@ export function resolveTalentlyCVAnalysisConfig(
   // Resolve timeout
   const timeoutMs = config?.timeoutMs ?? DEFAULT_TIMEOUT_MS;
 
+  // Resolve announce target (both channel and recipient are required)
+  const announce =
+    config?.announce?.channel?.trim() && config.announce.to?.trim() ? config.announce : undefined;
+
   return {
     enabled,
     apiUrl,
     apiKey,
     timeoutMs,
+    announce,
   };
 }
 
@@ -0,0 +1,123 @@
+/**
+ * Talently CV Analysis Tool - Job Storage
+ *
+ * Persist submitted batch jobs to a workspace JSON file so the tracker can
+ * keep polling them across gateway restarts.
+ */
+
+import path from "node:path";
+import { createAsyncLock, readJsonFile, writeJsonAtomic } from "../infra/json-files.js";
+import type { BatchJobStore, TrackedBatchJob } from "./types.js";
+
+const STORE_FILENAME = "talently-cv-jobs.json";
+
+// Finished jobs are kept for a week so results can still be fetched
+const RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+const withStoreLock = createAsyncLock();
+
+/**
+ * Get the job store path for a workspace directory.
+ */
+export function getBatchJobStorePath(workspaceDir: string): string {
+  return path.join(workspaceDir, STORE_FILENAME);
+}
+
+/**
+ * Drop finished jobs older than the retention period.
+ */
+function cleanupOldJobs(store: BatchJobStore, now: number): BatchJobStore {
+  const jobs: Record<string, TrackedBatchJob> = {};
+  for (const [id, job] of Object.entries(store.jobs)) {
+    const finishedAt = job.completed_at ? Date.parse(job.completed_at) : NaN;
+    if (Number.isFinite(finishedAt) && now - finishedAt > RETENTION_MS) {
+      continue;
+    }
+    jobs[id] = job;
+  }
+  return { jobs };
+}
+
+/**
+ * Read the job store for a workspace.
+ */
+export async function readBatchJobStore(workspaceDir: string): Promise<BatchJobStore> {
+  const raw = await readJsonFile<BatchJobStore>(getBatchJobStorePath(workspaceDir));
+  if (!raw || typeof raw !== "object" || !raw.jobs || typeof raw.jobs !== "object") {
+    return { jobs: {} };
+  }
+  return { jobs: raw.jobs };
+}
+
+/**
+ * Get a single tracked job.
+ */
+export async function getTrackedBatchJob(
+  workspaceDir: string,
+  jobId: string,
+): Promise<TrackedBatchJob | undefined> {
+  const store = await readBatchJobStore(workspaceDir);
+  return store.jobs[jobId];
+}
+
+/**
+ * List tracked jobs, newest submission first.
+ */
+export async function listTrackedBatchJobs(workspaceDir: string): Promise<TrackedBatchJob[]> {
+  const store = await readBatchJobStore(workspaceDir);
+  return Object.values(store.jobs).toSorted((a, b) => b.submitted_at.localeCompare(a.submitted_at));
+}
+
+/**
+ * Apply a mutation to a tracked job under the store lock.
+ * Creates the job when `update` receives undefined and returns a value.
+ */
+export async function updateTrackedBatchJob(
+  workspaceDir: string,
+  jobId: string,
+  update: (job: TrackedBatchJob | undefined) => TrackedBatchJob | undefined,
+): Promise<TrackedBatchJob | undefined> {
+  return await withStoreLock(async () => {
+    const store = cleanupOldJobs(await readBatchJobStore(workspaceDir), Date.now());
+    const next = update(store.jobs[jobId]);
+    if (!next) {
+      return store.jobs[jobId];
+    }
+    store.jobs[jobId] = next;
+    await writeJsonAtomic(getBatchJobStorePath(workspaceDir), store);
+    return next;
+  });
+}
+
+/**
+ * Start tracking a newly submitted batch job.
+ */
+export async function saveSubmittedBatchJob(
+  workspaceDir: string,
+  params: {
+    jobId: string;
+    total: number;
+    cvFiles: string[];
+    candidateEmails?: Record<string, string>;
+    sessionKey?: string;
+    now?: number;
+  },
+): Promise<TrackedBatchJob> {
+  const now = params.now ?? Date.now();
+  const job: TrackedBatchJob = {
+    job_id: params.jobId,
+    submitted_at: new Date(now).toISOString(),
+    total: params.total,
+    status: "pending",
+    cv_files: params.cvFiles,
+    candidate_emails:
+      params.candidateEmails && Object.keys(params.candidateEmails).length > 0
+        ? params.candidateEmails
+        : undefined,
+    session_key: params.sessionKey,
+    poll_attempts: 0,
+    next_poll_at: new Date(now).toISOString(),
+  };
+  await updateTrackedBatchJob(workspaceDir, params.jobId, () => job);
+  return job;
+}
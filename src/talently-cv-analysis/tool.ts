@@ -4,25 +4,50 @@
  * Agent tool for submitting CVs for batch analysis.
  */
 
+import path from "node:path";
 import { Type } from "@sinclair/typebox";
 import type { AnyAgentTool } from "../agents/tools/common.js";
 import type { OpenClawConfig } from "../config/config.js";
-import { jsonResult, readStringArrayParam, readNumberParam } from "../agents/tools/common.js";
+import type { TrackedBatchJob } from "./types.js";
+import { optionalStringEnum } from "../agents/schema/typebox.js";
+import {
+  jsonResult,
+  readStringArrayParam,
+  readNumberParam,
+  readStringParam,
+} from "../agents/tools/common.js";
+import { trackCandidateActivity } from "../candidate-pipeline/store.js";
 import { buildClientOptions, submitCVsForAnalysis } from "./client.js";
 import { resolveTalentlyCVAnalysisConfig, getMissingCredentials } from "./config.js";
+import { getTrackedBatchJob, listTrackedBatchJobs, saveSubmittedBatchJob } from "./store.js";
+import { isBatchJobFinished, notifyBatchJobFinished, refreshBatchJob } from "./tracker.js";
 
 // =============================================================================
 // Tool Schema
 // =============================================================================
 
+const CV_ANALYSIS_ACTIONS = ["submit", "status", "results", "list"] as const;
+
 const TalentlyCVAnalysisSchema = Type.Object({
-  cv_paths: Type.Array(
+  action: optionalStringEnum(CV_ANALYSIS_ACTIONS, {
+    description:
+      'Action to perform: "submit" (default) uploads CVs, "status" checks a job, ' +
+      '"results" returns ranked scores of a finished job, "list" shows tracked jobs.',
+  }),
+  cv_paths: Type.Optional(
+    Type.Array(
+      Type.String({
+        description: "Absolute path to a CV PDF file",
+      }),
+      {
+        description: "Array of absolute paths to CV PDF files to analyze (submit)",
+      },
+    ),
+  ),
+  job_id: Type.Optional(
     Type.String({
-      description: "Absolute path to a CV PDF file",
+      description: "Batch job ID returned by submit (status, results)",
     }),
-    {
-      description: "Array of absolute paths to CV PDF files to analyze",
-    },
   ),
   target_level: Type.Optional(
     Type.Number({
@@ -36,8 +61,32 @@ const TalentlyCVAnalysisSchema = Type.Object({
       description: "Whether evaluating for a manager role",
     }),
   ),
+  candidate_emails: Type.Optional(
+    Type.Array(Type.String(), {
+      description:
+        "Optional candidate emails in the same order as cv_paths. " +
+        "Links each CV to the candidate pipeline.",
+    }),
+  ),
 });
 
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function formatJobStatus(job: TrackedBatchJob) {
+  return {
+    job_id: job.job_id,
+    status: job.status,
+    total: job.total,
+    processed: job.processed ?? null,
+    submitted_at: job.submitted_at,
+    completed_at: job.completed_at ?? null,
+    next_poll_at: isBatchJobFinished(job) ? null : job.next_poll_at,
+    error: job.error ?? null,
+  };
+}
+
 // =============================================================================
 // Tool Factory
 // =============================================================================
@@ -49,6 +98,8 @@ const TalentlyCVAnalysisSchema = Type.Object({
  */
 export function createTalentlyCVAnalysisTool(options?: {
   config?: OpenClawConfig;
+  workspaceDir?: string;
+  agentSessionKey?: string;
 }): AnyAgentTool | null {
   const cfg = options?.config;
   const resolvedConfig = resolveTalentlyCVAnalysisConfig(cfg ?? ({} as OpenClawConfig));
@@ -58,6 +109,12 @@ export function createTalentlyCVAnalysisTool(options?: {
     return null;
   }
 
+  // Jobs and candidate activity are stored per agent workspace
+  const workspaceDir = options?.workspaceDir;
+  if (!workspaceDir) {
+    return null;
+  }
+
   // Build client options (may be undefined if missing credentials)
   const clientOpts = buildClientOptions(resolvedConfig);
 
@@ -66,8 +123,9 @@ export function createTalentlyCVAnalysisTool(options?: {
     name: "talently_cv_analysis",
     description:
       "Submit CV files for batch analysis. Uploads CVs to the Talently analysis service and returns " +
-      "a job ID. The candidates will be processed and added to the system. " +
-      "Provide absolute paths to PDF files.",
+      "a job ID. The job is tracked in the background and you are notified with ranked scores " +
+      "when it finishes. Provide absolute paths to PDF files. " +
+      "Use action=status or action=results with job_id to check a job, action=list to see tracked jobs.",
     parameters: TalentlyCVAnalysisSchema,
     execute: async (_toolCallId, args) => {
       const params = args as Record<string, unknown>;
@@ -84,10 +142,58 @@ export function createTalentlyCVAnalysisTool(options?: {
         });
       }
 
+      const action = readStringParam(params, "action") ?? "submit";
+
+      if (action === "list") {
+        const jobs = await listTrackedBatchJobs(workspaceDir);
+        return jsonResult({ success: true, count: jobs.length, jobs: jobs.map(formatJobStatus) });
+      }
+
+      if (action === "status" || action === "results") {
+        const jobId = readStringParam(params, "job_id", { required: true });
+        let job = await getTrackedBatchJob(workspaceDir, jobId);
+        if (!job) {
+          return jsonResult({ success: false, error: `Unknown CV analysis job: ${jobId}` });
+        }
+        if (!isBatchJobFinished(job)) {
+          job = await refreshBatchJob(workspaceDir, clientOpts, job);
+          if (isBatchJobFinished(job) && cfg) {
+            await notifyBatchJobFinished({ cfg, workspaceDir, job });
+          }
+        }
+        if (action === "status") {
+          return jsonResult({ success: true, ...formatJobStatus(job) });
+        }
+        if (job.status !== "completed") {
+          return jsonResult({
+            success: false,
+            error:
+              job.status === "failed"
+                ? `Job ${jobId} failed: ${job.error ?? "unknown error"}`
+                : `Job ${jobId} is still ${job.status}; results are not available yet`,
+            status: job.status,
+          });
+        }
+        return jsonResult({
+          success: true,
+          job_id: job.job_id,
+          total: job.total,
+          results: job.results ?? [],
+        });
+      }
+
+      if (action !== "submit") {
+        return jsonResult({
+          success: false,
+          error: `Unknown action: ${action}. Valid actions: ${CV_ANALYSIS_ACTIONS.join(", ")}`,
+        });
+      }
+
       // Parse parameters
       const cvPaths = readStringArrayParam(params, "cv_paths", { required: true });
       const targetLevel = readNumberParam(params, "target_level", { integer: true });
       const isManager = typeof params.is_manager === "boolean" ? params.is_manager : undefined;
+      const candidateEmails = readStringArrayParam(params, "candidate_emails") ?? [];
 
       try {
         const result = await submitCVsForAnalysis(clientOpts, {
@@ -96,11 +202,42 @@ export function createTalentlyCVAnalysisTool(options?: {
           isManager,
         });
 
+        // Relative paths keep same-named CVs from different folders apart
+        const cvFiles = cvPaths.map((cvPath) =>
+          path.relative(workspaceDir, path.resolve(workspaceDir, cvPath)).split(path.sep).join("/"),
+        );
+        const emailsByFile: Record<string, string> = {};
+        cvFiles.forEach((file, index) => {
+          const email = candidateEmails[index]?.trim();
+          if (email) {
+            emailsByFile[file] = email;
+          }
+        });
+        await saveSubmittedBatchJob(workspaceDir, {
+          jobId: result.job_id,
+          total: result.total,
+          cvFiles,
+          candidateEmails: emailsByFile,
+          sessionKey: options?.agentSessionKey,
+        });
+
+        await trackCandidateActivity(
+          workspaceDir,
+          cvPaths.map((cvPath, index) => ({
+            identity: { email: candidateEmails[index] },
+            source: "cv_analysis" as const,
+            stage: "screened" as const,
+            summary: `CV submitted for analysis (${path.basename(cvPath)})`,
+            ref: result.job_id,
+          })),
+        );
+
         return jsonResult({
           success: true,
           job_id: result.job_id,
           total: result.total,
           message: result.message,
+          tracking: "You will be notified with ranked scores when the batch finishes.",
         });
       } catch (err) {
         const errorMessage = err instanceof Error ? err.message : String(err);
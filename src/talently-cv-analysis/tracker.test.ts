@@ -0,0 +1,188 @@
+import fs from "node:fs/promises";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { listCandidates } from "../candidate-pipeline/store.js";
+import type { OpenClawConfig } from "../config/config.js";
+import { peekSystemEvents, resetSystemEventsForTest } from "../infra/system-events.js";
+import { makeTempWorkspace } from "../test-helpers/workspace.js";
+import { getTrackedBatchJob, saveSubmittedBatchJob } from "./store.js";
+import { pollCVAnalysisJobsOnce } from "./tracker.js";
+
+const deliverMock = vi.hoisted(() => vi.fn(async () => []));
+const heartbeatMock = vi.hoisted(() => vi.fn());
+
+vi.mock("../infra/outbound/deliver.js", () => ({ deliverOutboundPayloads: deliverMock }));
+vi.mock("../infra/heartbeat-wake.js", () => ({ requestHeartbeatNow: heartbeatMock }));
+
+type StubJob = { status: string; results?: unknown[]; failStatus?: boolean };
+
+describe("CV analysis job tracker", () => {
+  let workspaceDir: string;
+  let server: Server;
+  let apiUrl: string;
+  const jobs = new Map<string, StubJob>();
+  const requests: string[] = [];
+
+  beforeEach(async () => {
+    workspaceDir = await makeTempWorkspace("openclaw-cv-jobs-");
+    jobs.clear();
+    requests.length = 0;
+    deliverMock.mockClear();
+    heartbeatMock.mockClear();
+    resetSystemEventsForTest();
+    server = createServer((req, res) => {
+      requests.push(`${req.method} ${req.url} ${String(req.headers["x-api-key"])}`);
+      const match = req.url?.match(/^\/api\/([^/]+)(\/results)?$/);
+      const job = match ? jobs.get(decodeURIComponent(match[1])) : undefined;
+      if (!match || !job || (job.failStatus && !match[2])) {
+        res.writeHead(job?.failStatus ? 503 : 404).end("nope");
+        return;
+      }
+      res.setHeader("content-type", "application/json");
+      res.end(
+        JSON.stringify(
+          match[2]
+            ? { job_id: match[1], results: job.results ?? [] }
+            : { job_id: match[1], status: job.status, total: 3 },
+        ),
+      );
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    apiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+  });
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    await fs.rm(workspaceDir, { recursive: true, force: true });
+  });
+
+  const makeConfig = (announce?: { channel: string; to: string }): OpenClawConfig =>
+    ({
+      tools: { talentlyCvAnalysis: { apiUrl, apiKey: "secret", timeoutMs: 5_000, announce } },
+    }) as unknown as OpenClawConfig;
+
+  it("polls with backoff until completion, then reports ranked scores once", async () => {
+    const start = Date.now();
+    jobs.set("job-1", { status: "queued" });
+    await saveSubmittedBatchJob(workspaceDir, {
+      jobId: "job-1",
+      total: 3,
+      cvFiles: ["ann.pdf", "bob.pdf", "cat.pdf"],
+      candidateEmails: { "bob.pdf": "bob@example.com" },
+      sessionKey: "agent:main:slack:dm:u1",
+      now: start,
+    });
+    const cfg = makeConfig({ channel: "slack", to: "C123" });
+
+    await pollCVAnalysisJobsOnce({ cfg, workspaceDirs: [workspaceDir], now: start });
+    const pending = await getTrackedBatchJob(workspaceDir, "job-1");
+    expect(pending).toMatchObject({ status: "pending", poll_attempts: 1 });
+    expect(Date.parse(pending!.next_poll_at) - start).toBeGreaterThanOrEqual(15_000);
+
+    // Not due yet: no request is made
+    const before = requests.length;
+    await pollCVAnalysisJobsOnce({ cfg, workspaceDirs: [workspaceDir], now: start + 1_000 });
+    expect(requests).toHaveLength(before);
+
+    jobs.set("job-1", {
+      status: "done",
+      results: [
+        { file_name: "ann.pdf", candidate_name: "Ann", score: 61 },
+        { file_name: "bob.pdf", candidate_name: "Bob", score: 88, level: 5 },
+        { file_name: "cat.pdf", score: 74 },
+      ],
+    });
+    const later = start + 60_000;
+    const outcome = await pollCVAnalysisJobsOnce({
+      cfg,
+      workspaceDirs: [workspaceDir],
+      now: later,
+    });
+    expect(outcome).toEqual({ polled: 1, finished: 1 });
+    expect(requests.every((line) => line.endsWith(" secret"))).toBe(true);
+
+    const done = await getTrackedBatchJob(workspaceDir, "job-1");
+    expect(done?.status).toBe("completed");
+    expect(done?.results?.map((row) => [row.rank, row.file_name])).toEqual([
+      [1, "bob.pdf"],
+      [2, "cat.pdf"],
+      [3, "ann.pdf"],
+    ]);
+    expect(done?.notified_at).toBeDefined();
+
+    const [event] = peekSystemEvents("agent:main:slack:dm:u1");
+    expect(event).toContain("3 of 3 CVs scored");
+    expect(event).toContain("1. Bob — score 88, level 5");
+    expect(heartbeatMock).toHaveBeenCalledWith(
+      expect.objectContaining({ sessionKey: "agent:main:slack:dm:u1" }),
+    );
+    expect(deliverMock).toHaveBeenCalledWith(
+      expect.objectContaining({ channel: "slack", to: "C123" }),
+    );
+
+    const [bob] = await listCandidates(workspaceDir);
+    expect(bob).toMatchObject({ name: "Bob", emails: ["bob@example.com"], stage: "screened" });
+
+    // Finished and notified jobs are left alone
+    await pollCVAnalysisJobsOnce({ cfg, workspaceDirs: [workspaceDir], now: later + 3_600_000 });
+    expect(peekSystemEvents("agent:main:slack:dm:u1")).toHaveLength(1);
+    expect(deliverMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("only attributes emails to bare file names that match a single submitted CV", async () => {
+    const start = Date.now();
+    jobs.set("job-3", {
+      status: "done",
+      results: [
+        { file_name: "cv.pdf", candidate_name: "Dana", score: 70 },
+        { file_name: "eve.pdf", candidate_name: "Eve", score: 65 },
+      ],
+    });
+    await saveSubmittedBatchJob(workspaceDir, {
+      jobId: "job-3",
+      total: 3,
+      cvFiles: ["sales/cv.pdf", "support/cv.pdf", "support/eve.pdf"],
+      candidateEmails: {
+        "sales/cv.pdf": "dana@example.com",
+        "support/cv.pdf": "other@example.com",
+        "support/eve.pdf": "eve@example.com",
+      },
+      now: start,
+    });
+
+    await pollCVAnalysisJobsOnce({ cfg: makeConfig(), workspaceDirs: [workspaceDir], now: start });
+
+    const candidates = await listCandidates(workspaceDir);
+    expect(candidates.find((c) => c.name === "Eve")?.emails).toEqual(["eve@example.com"]);
+    expect(candidates.find((c) => c.name === "Dana")?.emails ?? []).toEqual([]);
+  });
+
+  it("survives API errors and gives up on jobs that never finish", async () => {
+    const start = Date.now();
+    jobs.set("job-2", { status: "running", failStatus: true });
+    await saveSubmittedBatchJob(workspaceDir, {
+      jobId: "job-2",
+      total: 1,
+      cvFiles: ["x.pdf"],
+      now: start,
+    });
+    const cfg = makeConfig();
+
+    await pollCVAnalysisJobsOnce({ cfg, workspaceDirs: [workspaceDir], now: start });
+    const retrying = await getTrackedBatchJob(workspaceDir, "job-2");
+    expect(retrying?.status).toBe("pending");
+    expect(retrying?.error).toContain("503");
+
+    await pollCVAnalysisJobsOnce({
+      cfg,
+      workspaceDirs: [workspaceDir],
+      now: start + 25 * 60 * 60 * 1000,
+    });
+    const failed = await getTrackedBatchJob(workspaceDir, "job-2");
+    expect(failed?.status).toBe("failed");
+    expect(failed?.error).toMatch(/^Gave up after 2 status checks/);
+    expect(peekSystemEvents("agent:main:main")[0]).toContain("CV analysis job job-2 failed");
+    expect(deliverMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,336 @@
+/**
+ * Talently CV Analysis Tool - Job Tracker
+ *
+ * Polls submitted batch jobs until they finish, stores the ranked scores and
+ * reports completion to the submitting session (and optionally a channel).
+ */
+
+import path from "node:path";
+import { listAgentIds, resolveAgentWorkspaceDir } from "../agents/agent-scope.js";
+import { trackCandidateActivity } from "../candidate-pipeline/store.js";
+import { normalizeChannelId } from "../channels/plugins/index.js";
+import { loadConfig, type OpenClawConfig } from "../config/config.js";
+import { resolveMainSessionKey } from "../config/sessions/main-session.js";
+import { computeBackoff, type BackoffPolicy } from "../infra/backoff.js";
+import { requestHeartbeatNow } from "../infra/heartbeat-wake.js";
+import { deliverOutboundPayloads } from "../infra/outbound/deliver.js";
+import { enqueueSystemEvent } from "../infra/system-events.js";
+import { createSubsystemLogger } from "../logging/subsystem.js";
+import type { TalentlyCVAnalysisClientOptions } from "./client.js";
+import {
+  buildClientOptions,
+  getBatchJobResults,
+  getBatchJobStatus,
+  normalizeBatchJobStatus,
+} from "./client.js";
+import { isTalentlyCVAnalysisConfigured, resolveTalentlyCVAnalysisConfig } from "./config.js";
+import { listTrackedBatchJobs, updateTrackedBatchJob } from "./store.js";
+import type { RankedCandidateScore, TrackedBatchJob } from "./types.js";
+
+const log = createSubsystemLogger("talently-cv-analysis");
+
+const DEFAULT_TICK_MS = 15_000;
+
+/** Give up on jobs that have not finished within a day. */
+const MAX_JOB_AGE_MS = 24 * 60 * 60 * 1000;
+
+/** Number of ranked candidates included in completion messages. */
+const SUMMARY_TOP_N = 5;
+
+const POLL_BACKOFF: BackoffPolicy = {
+  initialMs: 15_000,
+  maxMs: 10 * 60_000,
+  factor: 2,
+  jitter: 0.1,
+};
+
+// =============================================================================
+// Job Refresh
+// =============================================================================
+
+export function isBatchJobFinished(job: TrackedBatchJob): boolean {
+  return job.status === "completed" || job.status === "failed";
+}
+
+/**
+ * Rank results by score (highest first).
+ */
+export function rankCandidateScores(
+  results: Array<Omit<RankedCandidateScore, "rank">>,
+): RankedCandidateScore[] {
+  return results
+    .toSorted((a, b) => b.score - a.score)
+    .map((row, index) => Object.assign({}, row, { rank: index + 1 }));
+}
+
+/**
+ * Poll one job's status and fetch its results once it completes.
+ * Failures are recorded on the job and rescheduled with backoff.
+ */
+export async function refreshBatchJob(
+  workspaceDir: string,
+  clientOpts: TalentlyCVAnalysisClientOptions,
+  job: TrackedBatchJob,
+  now = Date.now(),
+): Promise<TrackedBatchJob> {
+  const attempts = job.poll_attempts + 1;
+  let patch: Partial<TrackedBatchJob>;
+
+  try {
+    const status = await getBatchJobStatus(clientOpts, job.job_id);
+    const normalized = normalizeBatchJobStatus(status.status);
+    if (normalized === "completed") {
+      const { results } = await getBatchJobResults(clientOpts, job.job_id);
+      patch = {
+        status: "completed",
+        processed: status.processed ?? results.length,
+        results: rankCandidateScores(results),
+        completed_at: new Date(now).toISOString(),
+        error: undefined,
+      };
+    } else if (normalized === "failed") {
+      patch = {
+        status: "failed",
+        processed: status.processed,
+        completed_at: new Date(now).toISOString(),
+        error: status.error ?? "Batch job failed",
+      };
+    } else {
+      patch = { status: normalized, processed: status.processed, error: undefined };
+    }
+  } catch (err) {
+    patch = { error: err instanceof Error ? err.message : String(err) };
+  }
+
+  const next: TrackedBatchJob = {
+    ...job,
+    ...patch,
+    poll_attempts: attempts,
+    last_polled_at: new Date(now).toISOString(),
+  };
+  if (!isBatchJobFinished(next)) {
+    if (now - Date.parse(job.submitted_at) > MAX_JOB_AGE_MS) {
+      next.status = "failed";
+      next.completed_at = new Date(now).toISOString();
+      next.error = `Gave up after ${attempts} status checks${next.error ? `: ${next.error}` : ""}`;
+    } else {
+      next.next_poll_at = new Date(now + computeBackoff(POLL_BACKOFF, attempts)).toISOString();
+    }
+  }
+
+  // Another poller (tool status check) may have finished the job meanwhile
+  return (
+    (await updateTrackedBatchJob(workspaceDir, job.job_id, (current) =>
+      current && isBatchJobFinished(current) ? undefined : next,
+    )) ?? next
+  );
+}
+
+// =============================================================================
+// Completion Reporting
+// =============================================================================
+
+function resolveCandidateEmail(
+  job: TrackedBatchJob,
+  row: RankedCandidateScore,
+): string | undefined {
+  if (row.email) {
+    return row.email;
+  }
+  const emails = job.candidate_emails ?? {};
+  if (!row.file_name) {
+    return undefined;
+  }
+  if (emails[row.file_name]) {
+    return emails[row.file_name];
+  }
+  // The service reports bare file names; only use one that matches a single submitted CV.
+  const matches = job.cv_files.filter((file) => path.posix.basename(file) === row.file_name);
+  return matches.length === 1 ? emails[matches[0]] : undefined;
+}
+
+function candidateLabel(row: RankedCandidateScore): string {
+  return row.candidate_name ?? row.file_name ?? row.email ?? `candidate #${row.rank}`;
+}
+
+/**
+ * Build the human-readable completion message for a finished job.
+ */
+export function formatBatchJobSummary(job: TrackedBatchJob): string {
+  if (job.status === "failed") {
+    return `CV analysis job ${job.job_id} failed: ${job.error ?? "unknown error"}`;
+  }
+  const results = job.results ?? [];
+  const lines = [
+    `CV analysis job ${job.job_id} finished: ${results.length} of ${job.total} CVs scored.`,
+  ];
+  for (const row of results.slice(0, SUMMARY_TOP_N)) {
+    const level = row.level !== undefined ? `, level ${row.level}` : "";
+    const tier = row.tier ? `, ${row.tier}` : "";
+    lines.push(`${row.rank}. ${candidateLabel(row)} — score ${row.score}${level}${tier}`);
+  }
+  if (results.length > SUMMARY_TOP_N) {
+    lines.push(
+      `…and ${results.length - SUMMARY_TOP_N} more (talently_cv_analysis action=results job_id=${job.job_id}).`,
+    );
+  }
+  return lines.join("\n");
+}
+
+async function announceToChannel(cfg: OpenClawConfig, message: string): Promise<void> {
+  const announce = resolveTalentlyCVAnalysisConfig(cfg).announce;
+  if (!announce) {
+    return;
+  }
+  const channel = normalizeChannelId(announce.channel);
+  if (!channel) {
+    log.warn(`announce channel not recognized: ${announce.channel}`);
+    return;
+  }
+  try {
+    await deliverOutboundPayloads({
+      cfg,
+      channel,
+      to: announce.to,
+      accountId: announce.accountId,
+      payloads: [{ text: message }],
+      bestEffort: true,
+    });
+  } catch (err) {
+    log.warn(`announce failed: ${String(err)}`);
+  }
+}
+
+/**
+ * Report a finished job: update the candidate pipeline, queue a system event
+ * for the submitting session, wake it, and announce to the configured channel.
+ */
+export async function notifyBatchJobFinished(params: {
+  cfg: OpenClawConfig;
+  workspaceDir: string;
+  job: TrackedBatchJob;
+  now?: number;
+}): Promise<void> {
+  const { cfg, workspaceDir, job } = params;
+  // Claim the notification first so concurrent pollers never report twice
+  let claimed = false;
+  await updateTrackedBatchJob(workspaceDir, job.job_id, (current) => {
+    if (!current || current.notified_at) {
+      return undefined;
+    }
+    claimed = true;
+    return { ...current, notified_at: new Date(params.now ?? Date.now()).toISOString() };
+  });
+  if (!claimed) {
+    return;
+  }
+
+  const results = job.results ?? [];
+  await trackCandidateActivity(
+    workspaceDir,
+    results.map((row) => ({
+      identity: { name: row.candidate_name, email: resolveCandidateEmail(job, row) },
+      source: "cv_analysis" as const,
+      stage: "screened" as const,
+      summary: `CV scored ${row.score} (rank ${row.rank}/${results.length})`,
+      ref: job.job_id,
+    })),
+  );
+
+  const message = formatBatchJobSummary(job);
+  const sessionKey = job.session_key ?? resolveMainSessionKey(cfg);
+  enqueueSystemEvent(message, { sessionKey });
+  requestHeartbeatNow({ reason: "cv-analysis", sessionKey });
+  await announceToChannel(cfg, message);
+}
+
+// =============================================================================
+// Poll Loop
+// =============================================================================
+
+function resolveWorkspaceDirs(cfg: OpenClawConfig): string[] {
+  return Array.from(new Set(listAgentIds(cfg).map((id) => resolveAgentWorkspaceDir(cfg, id))));
+}
+
+/**
+ * Poll every due job once across all agent workspaces.
+ */
+export async function pollCVAnalysisJobsOnce(params: {
+  cfg: OpenClawConfig;
+  workspaceDirs?: string[];
+  now?: number;
+}): Promise<{ polled: number; finished: number }> {
+  const clientOpts = buildClientOptions(resolveTalentlyCVAnalysisConfig(params.cfg));
+  if (!clientOpts) {
+    return { polled: 0, finished: 0 };
+  }
+  const now = params.now ?? Date.now();
+  let polled = 0;
+  let finished = 0;
+
+  for (const workspaceDir of params.workspaceDirs ?? resolveWorkspaceDirs(params.cfg)) {
+    for (const job of await listTrackedBatchJobs(workspaceDir)) {
+      let current = job;
+      if (!isBatchJobFinished(current)) {
+        if (Date.parse(current.next_poll_at) > now) {
+          continue;
+        }
+        polled += 1;
+        current = await refreshBatchJob(workspaceDir, clientOpts, current, now);
+      }
+      if (isBatchJobFinished(current) && !current.notified_at) {
+        finished += 1;
+        await notifyBatchJobFinished({ cfg: params.cfg, workspaceDir, job: current, now });
+      }
+    }
+  }
+  return { polled, finished };
+}
+
+export type CVAnalysisJobTracker = {
+  stop: () => void;
+};
+
+/**
+ * Start the background poller. Jobs live on disk, so a restarted gateway
+ * picks up where the previous one left off. The config is re-read on every
+ * tick, so credential or announce changes apply without a restart.
+ */
+export function startCVAnalysisJobTracker(
+  params: {
+    loadConfig?: () => OpenClawConfig;
+    tickMs?: number;
+  } = {},
+): CVAnalysisJobTracker {
+  const readConfig = params.loadConfig ?? loadConfig;
+  let stopped = false;
+  let inFlight = false;
+
+  const tick = async () => {
+    if (stopped || inFlight) {
+      return;
+    }
+    inFlight = true;
+    try {
+      const cfg = readConfig();
+      if (isTalentlyCVAnalysisConfigured(resolveTalentlyCVAnalysisConfig(cfg))) {
+        await pollCVAnalysisJobsOnce({ cfg });
+      }
+    } catch (err) {
+      log.warn(`job poll failed: ${String(err)}`);
+    } finally {
+      inFlight = false;
+    }
+  };
+
+  const timer = setInterval(() => void tick(), params.tickMs ?? DEFAULT_TICK_MS);
+  timer.unref?.();
+  void tick();
+
+  return {
+    stop: () => {
+      stopped = true;
+      clearInterval(timer);
+    },
+  };
+}
@@ -13,6 +13,14 @@ export type TalentlyCVAnalysisConfig = {
   apiUrl?: string;
   apiKey?: string;
   timeoutMs?: number;
+  /** Post a summary to this channel target when a tracked batch finishes. */
+  announce?: CVAnalysisAnnounceTarget;
+};
+
+export type CVAnalysisAnnounceTarget = {
+  channel: string;
+  to: string;
+  accountId?: string;
 };
 
 // =============================================================================
@@ -28,6 +36,85 @@ export type BatchJobCreateResponse = {
   message: string;
 };
 
+/**
+ * Normalized batch job status.
+ */
+export type BatchJobStatus = "pending" | "processing" | "completed" | "failed";
+
+/**
+ * Response from the job status endpoint.
+ * GET {apiUrl}/{job_id}
+ */
+export type BatchJobStatusResponse = {
+  job_id: string;
+  status: string;
+  total?: number;
+  processed?: number;
+  failed?: number;
+  error?: string;
+};
+
+/**
+ * Score for a single analyzed CV.
+ */
+export type CandidateScore = {
+  file_name?: string;
+  candidate_name?: string;
+  email?: string;
+  score: number;
+  level?: number;
+  tier?: string;
+  summary?: string;
+};
+
+/**
+ * Response from the job results endpoint.
+ * GET {apiUrl}/{job_id}/results
+ */
+export type BatchJobResultsResponse = {
+  job_id: string;
+  results: CandidateScore[];
+};
+
+// =============================================================================
+// Storage Types
+// =============================================================================
+
+export type RankedCandidateScore = CandidateScore & {
+  rank: number;
+};
+
+/**
+ * Batch job tracked until completion (persisted across gateway restarts).
+ */
+export type TrackedBatchJob = {
+  job_id: string;
+  submitted_at: string;
+  total: number;
+  status: BatchJobStatus;
+  processed?: number;
+  /** CV paths relative to the workspace, in submission order. */
+  cv_files: string[];
+  /** Candidate emails keyed by relative CV path (when provided at submission). */
+  candidate_emails?: Record<string, string>;
+  /** Session that submitted the batch; completion is reported there. */
+  session_key?: string;
+  poll_attempts: number;
+  next_poll_at: string;
+  last_polled_at?: string;
+  completed_at?: string;
+  error?: string;
+  results?: RankedCandidateScore[];
+  notified_at?: string;
+};
+
+/**
+ * Batch job store file format.
+ */
+export type BatchJobStore = {
+  jobs: Record<string, TrackedBatchJob>;
+};
+
 // =============================================================================
 // Tool Result Types
 // =============================================================================
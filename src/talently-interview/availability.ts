@@ -0,0 +1,119 @@
+/**
+ * Talently Interview Tool - Availability
+ *
+ * Proposes free interview slots from working hours, ICS calendars and interviews
+ * already booked through the Interview API.
+ */
+
+import { collectBusyBlocks, findAvailableSlots } from "../calendar-availability/availability.js";
+import { createIcsCalendarBackend } from "../calendar-availability/backends.js";
+import { resolveCalendarAvailabilityConfig } from "../calendar-availability/config.js";
+import type {
+  AvailabilitySlot,
+  CalendarBackend,
+  InterviewerAvailability,
+} from "../calendar-availability/types.js";
+import type { OpenClawConfig } from "../config/config.js";
+import {
+  buildClientOptions,
+  listInterviews,
+  type TalentlyInterviewClientOptions,
+} from "./client.js";
+import { resolveTalentlyInterviewConfig } from "./config.js";
+
+const DEFAULT_DURATION_MINUTES = 60;
+const DEFAULT_SLOT_COUNT = 5;
+
+/**
+ * Backend reporting interviews already booked for the interviewer via the Interview API.
+ */
+export function createInterviewApiCalendarBackend(
+  clientOpts: TalentlyInterviewClientOptions,
+): CalendarBackend {
+  return {
+    id: "talently-interview",
+    listBusyBlocks: async ({ interviewer, from, to }) => {
+      const { interviews } = await listInterviews(clientOpts, {
+        interviewer_email: interviewer.email,
+        from: new Date(from - 24 * 60 * 60_000).toISOString(),
+        to: new Date(to).toISOString(),
+      });
+      return interviews
+        .filter(
+          (interview) =>
+            interview.status !== "cancelled" &&
+            interview.interviewer_email?.toLowerCase() === interviewer.email.toLowerCase(),
+        )
+        .map((interview) => {
+          const start = Date.parse(interview.scheduled_at);
+          return {
+            start,
+            end: start + (interview.duration_minutes || DEFAULT_DURATION_MINUTES) * 60_000,
+            summary: interview.title,
+            source: "talently-interview",
+          };
+        })
+        .filter((block) => Number.isFinite(block.start));
+    },
+  };
+}
+
+export type ProposeInterviewSlotsResult = {
+  slots: AvailabilitySlot[];
+  interviewers: InterviewerAvailability[];
+};
+
+/**
+ * Propose interview slots for the given (or all configured) interviewers.
+ */
+export async function proposeInterviewSlots(
+  cfg: OpenClawConfig,
+  params: {
+    interviewerEmails?: string[];
+    durationMinutes?: number;
+    from?: number;
+    to?: number;
+    count?: number;
+    maxPerDay?: number;
+    now?: number;
+    /** Override the default backends (ICS files + Interview API). */
+    backends?: CalendarBackend[];
+  } = {},
+): Promise<ProposeInterviewSlotsResult> {
+  const availability = resolveCalendarAvailabilityConfig(cfg, params.interviewerEmails);
+  if (availability.interviewers.length === 0) {
+    return { slots: [], interviewers: [] };
+  }
+
+  const now = params.now ?? Date.now();
+  const from = Math.max(params.from ?? now, now + availability.minNoticeMinutes * 60_000);
+  const to = params.to ?? from + availability.horizonDays * 24 * 60 * 60_000;
+
+  let backends = params.backends;
+  if (!backends) {
+    backends = [createIcsCalendarBackend()];
+    const clientOpts = buildClientOptions(resolveTalentlyInterviewConfig(cfg));
+    if (clientOpts) {
+      backends.push(createInterviewApiCalendarBackend(clientOpts));
+    }
+  }
+
+  const busy = await collectBusyBlocks({
+    backends,
+    interviewers: availability.interviewers,
+    from,
+    to,
+  });
+  const slots = findAvailableSlots({
+    interviewers: availability.interviewers,
+    busy,
+    from,
+    to,
+    durationMinutes: params.durationMinutes ?? DEFAULT_DURATION_MINUTES,
+    bufferMinutes: availability.bufferMinutes,
+    stepMinutes: availability.slotStepMinutes,
+    count: params.count ?? DEFAULT_SLOT_COUNT,
+    maxPerDay: params.maxPerDay,
+  });
+  return { slots, interviewers: availability.interviewers };
+}
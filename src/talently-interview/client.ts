@@ -1,11 +1,22 @@
 /**
  * Talently Interview Tool - API Client
  *
- * HTTP client for the Quick Interview API.
+ * HTTP client for the Interview API.
  */
 
 import type { ResolvedTalentlyInterviewConfig } from "./config.js";
-import type { QuickInterviewRequest, QuickInterviewResponse } from "./types.js";
+import type {
+  CancelInterviewRequest,
+  CancelInterviewResponse,
+  InterviewFeedbackRequest,
+  InterviewFeedbackResponse,
+  InterviewSummary,
+  ListInterviewsQuery,
+  ListInterviewsResponse,
+  QuickInterviewRequest,
+  QuickInterviewResponse,
+  RescheduleInterviewRequest,
+} from "./types.js";
 
 export type TalentlyInterviewClientOptions = {
   apiUrl: string;
@@ -31,14 +42,12 @@ export function buildClientOptions(
   };
 }
 
-/**
- * Create a quick interview via the Talently API.
- * Creates Zoom meeting and Google Calendar event without DB storage.
- */
-export async function createQuickInterview(
+async function requestJson<T>(
   opts: TalentlyInterviewClientOptions,
-  data: QuickInterviewRequest,
-): Promise<QuickInterviewResponse> {
+  method: "GET" | "POST" | "PATCH",
+  pathname: string,
+  body?: unknown,
+): Promise<T> {
   const controller = new AbortController();
   const timeout = setTimeout(() => controller.abort(), opts.timeoutMs);
 
@@ -51,20 +60,104 @@ export async function createQuickInterview(
       headers["X-API-Key"] = opts.apiKey;
     }
 
-    const res = await fetch(`${opts.apiUrl}/interviews/quick`, {
-      method: "POST",
-      headers,
-      body: JSON.stringify(data),
-      signal: controller.signal,
-    });
+    const init: RequestInit = { method, headers, signal: controller.signal };
+    if (body !== undefined) {
+      init.body = JSON.stringify(body);
+    }
+
+    const res = await fetch(`${opts.apiUrl}${pathname}`, init);
 
     if (!res.ok) {
       const errorText = await res.text().catch(() => "Unknown error");
       throw new Error(`Interview API error (${res.status}): ${errorText}`);
     }
 
-    return (await res.json()) as QuickInterviewResponse;
+    return (await res.json()) as T;
   } finally {
     clearTimeout(timeout);
   }
 }
+
+/**
+ * Create a quick interview via the Talently API.
+ * Creates Zoom meeting and Google Calendar event without DB storage.
+ */
+export async function createQuickInterview(
+  opts: TalentlyInterviewClientOptions,
+  data: QuickInterviewRequest,
+): Promise<QuickInterviewResponse> {
+  return await requestJson<QuickInterviewResponse>(opts, "POST", "/interviews/quick", data);
+}
+
+/**
+ * Move an interview to a new time (updates the Zoom meeting and calendar event).
+ */
+export async function rescheduleInterview(
+  opts: TalentlyInterviewClientOptions,
+  interviewId: string,
+  data: RescheduleInterviewRequest,
+): Promise<InterviewSummary> {
+  return await requestJson<InterviewSummary>(
+    opts,
+    "PATCH",
+    `/interviews/${encodeURIComponent(interviewId)}`,
+    data,
+  );
+}
+
+/**
+ * Cancel an interview (removes the calendar event and notifies participants).
+ */
+export async function cancelInterview(
+  opts: TalentlyInterviewClientOptions,
+  interviewId: string,
+  data: CancelInterviewRequest = {},
+): Promise<CancelInterviewResponse> {
+  return await requestJson<CancelInterviewResponse>(
+    opts,
+    "POST",
+    `/interviews/${encodeURIComponent(interviewId)}/cancel`,
+    data,
+  );
+}
+
+/**
+ * List interviews booked for an interviewer.
+ */
+export async function listInterviews(
+  opts: TalentlyInterviewClientOptions,
+  query: ListInterviewsQuery,
+): Promise<ListInterviewsResponse> {
+  const search = new URLSearchParams({ interviewer_email: query.interviewer_email });
+  if (query.from) {
+    search.set("from", query.from);
+  }
+  if (query.to) {
+    search.set("to", query.to);
+  }
+  if (query.include_cancelled) {
+    search.set("include_cancelled", "true");
+  }
+  const result = await requestJson<Partial<ListInterviewsResponse>>(
+    opts,
+    "GET",
+    `/interviews?${search.toString()}`,
+  );
+  return { interviews: Array.isArray(result.interviews) ? result.interviews : [] };
+}
+
+/**
+ * Record post-interview feedback.
+ */
+export async function submitInterviewFeedback(
+  opts: TalentlyInterviewClientOptions,
+  interviewId: string,
+  data: InterviewFeedbackRequest,
+): Promise<InterviewFeedbackResponse> {
+  return await requestJson<InterviewFeedbackResponse>(
+    opts,
+    "POST",
+    `/interviews/${encodeURIComponent(interviewId)}/feedback`,
+    data,
+  );
+}
@@ -0,0 +1,94 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { checkInterviewerConflicts, findInterviewConflicts } from "./conflicts.js";
+import type { InterviewSummary } from "./types.js";
+
+function booking(overrides: Partial<InterviewSummary>): InterviewSummary {
+  return {
+    interview_id: "int_1",
+    title: "Interview - jane@example.com",
+    scheduled_at: "2026-03-10T14:00:00Z",
+    duration_minutes: 60,
+    status: "scheduled",
+    interviewer_email: "lead@example.com",
+    candidate_email: "jane@example.com",
+    ...overrides,
+  };
+}
+
+describe("findInterviewConflicts", () => {
+  const booked = [
+    booking({ interview_id: "a" }),
+    booking({ interview_id: "b", scheduled_at: "2026-03-10T16:00:00Z", status: "cancelled" }),
+  ];
+
+  it("flags overlapping slots but allows back-to-back bookings", () => {
+    expect(
+      findInterviewConflicts(booked, { scheduledAt: "2026-03-10T14:30:00Z" }).map(
+        (i) => i.interview_id,
+      ),
+    ).toEqual(["a"]);
+    expect(
+      findInterviewConflicts(booked, {
+        scheduledAt: "2026-03-10T13:00:00Z",
+        durationMinutes: 60,
+      }),
+    ).toEqual([]);
+    expect(findInterviewConflicts(booked, { scheduledAt: "2026-03-10T15:00:00Z" })).toEqual([]);
+  });
+
+  it("ignores cancelled interviews and the interview being rescheduled", () => {
+    expect(findInterviewConflicts(booked, { scheduledAt: "2026-03-10T16:15:00Z" })).toEqual([]);
+    expect(
+      findInterviewConflicts(booked, {
+        scheduledAt: "2026-03-10T14:15:00Z",
+        excludeInterviewId: "a",
+      }),
+    ).toEqual([]);
+  });
+
+  it("rejects invalid times", () => {
+    expect(() => findInterviewConflicts(booked, { scheduledAt: "tomorrow" })).toThrow(
+      "Invalid scheduled_at: tomorrow",
+    );
+  });
+});
+
+describe("checkInterviewerConflicts", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("queries the interviewer's bookings around the slot", async () => {
+    const fetchMock = vi.fn(
+      async () =>
+        new Response(
+          JSON.stringify({
+            interviews: [
+              booking({
+                interview_id: "long",
+                scheduled_at: "2026-03-10T10:00:00Z",
+                duration_minutes: 300,
+              }),
+              booking({ interview_id: "other", interviewer_email: "someone@example.com" }),
+              booking({ interview_id: "legacy", interviewer_email: undefined }),
+            ],
+          }),
+        ),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const conflicts = await checkInterviewerConflicts(
+      { apiUrl: "https://talently.test/api", apiKey: "k", timeoutMs: 1_000 },
+      { interviewerEmail: "Lead@example.com", scheduledAt: "2026-03-10T14:00:00Z" },
+    );
+
+    expect(conflicts.map((i) => i.interview_id)).toEqual(["long"]);
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    const parsed = new URL(url);
+    expect(parsed.pathname).toBe("/api/interviews");
+    expect(parsed.searchParams.get("interviewer_email")).toBe("Lead@example.com");
+    expect(parsed.searchParams.get("from")).toBe("2026-03-10T06:00:00.000Z");
+    expect(parsed.searchParams.get("to")).toBe("2026-03-10T15:00:00.000Z");
+    expect((init.headers as Record<string, string>)["X-API-Key"]).toBe("k");
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Talently Interview Tool - Conflict Detection
+ *
+ * Checks a proposed slot against interviews already booked for the same interviewer.
+ */
+
+import { listInterviews, type TalentlyInterviewClientOptions } from "./client.js";
+import type { InterviewSummary } from "./types.js";
+
+const DEFAULT_DURATION_MINUTES = 60;
+
+// Longest interview the tool allows; bounds how far back an overlapping booking can start
+const MAX_DURATION_MINUTES = 480;
+
+export type ProposedInterviewSlot = {
+  scheduledAt: string;
+  durationMinutes?: number;
+  /** Interview being rescheduled (never conflicts with itself). */
+  excludeInterviewId?: string;
+};
+
+function slotRange(scheduledAt: string, durationMinutes: number): [number, number] | null {
+  const start = Date.parse(scheduledAt);
+  if (!Number.isFinite(start)) {
+    return null;
+  }
+  return [start, start + durationMinutes * 60_000];
+}
+
+/**
+ * Return booked interviews that overlap the proposed slot.
+ * Cancelled interviews and back-to-back bookings do not conflict.
+ */
+export function findInterviewConflicts(
+  booked: InterviewSummary[],
+  slot: ProposedInterviewSlot,
+): InterviewSummary[] {
+  const range = slotRange(slot.scheduledAt, slot.durationMinutes ?? DEFAULT_DURATION_MINUTES);
+  if (!range) {
+    throw new Error(`Invalid scheduled_at: ${slot.scheduledAt}`);
+  }
+  const [start, end] = range;
+  return booked.filter((interview) => {
+    if (interview.status === "cancelled" || interview.interview_id === slot.excludeInterviewId) {
+      return false;
+    }
+    const other = slotRange(
+      interview.scheduled_at,
+      interview.duration_minutes || DEFAULT_DURATION_MINUTES,
+    );
+    return other !== null && other[0] < end && start < other[1];
+  });
+}
+
+/**
+ * Fetch the interviewer's bookings around the proposed slot and return overlaps.
+ */
+export async function checkInterviewerConflicts(
+  opts: TalentlyInterviewClientOptions,
+  params: ProposedInterviewSlot & { interviewerEmail: string },
+): Promise<InterviewSummary[]> {
+  const durationMinutes = params.durationMinutes ?? DEFAULT_DURATION_MINUTES;
+  const range = slotRange(params.scheduledAt, durationMinutes);
+  if (!range) {
+    throw new Error(`Invalid scheduled_at: ${params.scheduledAt}`);
+  }
+  const { interviews } = await listInterviews(opts, {
+    interviewer_email: params.interviewerEmail,
+    from: new Date(range[0] - MAX_DURATION_MINUTES * 60_000).toISOString(),
+    to: new Date(range[1]).toISOString(),
+  });
+  return findInterviewConflicts(
+    interviews.filter(
+      (interview) =>
+        interview.interviewer_email?.toLowerCase() === params.interviewerEmail.toLowerCase(),
+    ),
+    { ...params, durationMinutes },
+  );
+}
@@ -0,0 +1,196 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { OpenClawConfig } from "../config/config.js";
+import { createTalentlyInterviewTool } from "./tool.js";
+import type { InterviewSummary } from "./types.js";
+
+type FetchCall = { method: string; path: string; body?: unknown };
+
+function booking(overrides: Partial<InterviewSummary>): InterviewSummary {
+  return {
+    interview_id: "int_1",
+    title: "Interview - jane@example.com",
+    scheduled_at: "2026-03-10T14:00:00Z",
+    duration_minutes: 60,
+    status: "scheduled",
+    interviewer_email: "lead@example.com",
+    candidate_email: "jane@example.com",
+    ...overrides,
+  };
+}
+
+describe("talently_interview tool", () => {
+  let calls: FetchCall[];
+  let booked: InterviewSummary[];
+
+  beforeEach(() => {
+    calls = [];
+    booked = [];
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (url: string, init: RequestInit) => {
+        const parsed = new URL(url);
+        const method = init.method ?? "GET";
+        const body = typeof init.body === "string" ? JSON.parse(init.body) : undefined;
+        calls.push({ method, path: parsed.pathname, body });
+        if (method === "GET" && parsed.pathname === "/api/interviews") {
+          return new Response(JSON.stringify({ interviews: booked }));
+        }
+        if (method === "PATCH") {
+          return new Response(JSON.stringify(booking({ interview_id: "int_1", ...body })));
+        }
+        if (parsed.pathname.endsWith("/cancel")) {
+          return new Response(
+            JSON.stringify({
+              interview_id: "int_1",
+              status: "cancelled",
+              cancelled_at: "2026-03-09T10:00:00Z",
+            }),
+          );
+        }
+        if (parsed.pathname.endsWith("/feedback")) {
+          return new Response(
+            JSON.stringify({
+              interview_id: "int_1",
+              feedback_id: "fb_1",
+              submitted_at: "2026-03-10T16:00:00Z",
+              status: "completed",
+            }),
+          );
+        }
+        return new Response("not found", { status: 404 });
+      }),
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  function run(args: Record<string, unknown>, workspaceDir?: string) {
+    const tool = createTalentlyInterviewTool({
+      workspaceDir,
+      config: {
+        tools: {
+          talentlyInterview: { apiUrl: "https://talently.test/api", apiKey: "k", timeoutMs: 1_000 },
+        },
+      } as OpenClawConfig,
+    });
+    if (!tool) {
+      throw new Error("tool not created");
+    }
+    return tool.execute("call-1", args).then((result) => result.details as Record<string, unknown>);
+  }
+
+  it("refuses to reschedule onto an overlapping interview unless forced", async () => {
+    booked = [
+      booking({ interview_id: "int_1", scheduled_at: "2026-03-10T09:00:00Z" }),
+      booking({ interview_id: "int_2" }),
+      booking({ interview_id: "legacy", interviewer_email: undefined }),
+    ];
+    const args = {
+      action: "reschedule",
+      interview_id: "int_1",
+      interviewer_email: "lead@example.com",
+      scheduled_at: "2026-03-10T14:30:00Z",
+    };
+
+    const refused = await run(args);
+    expect(refused.success).toBe(false);
+    expect(refused.conflicts).toEqual([expect.objectContaining({ interview_id: "int_2" })]);
+    expect(calls.some((call) => call.method === "PATCH")).toBe(false);
+
+    calls = [];
+    const forced = await run({ ...args, force: true, reason: "Candidate request" });
+    expect(forced.success).toBe(true);
+    expect(calls).toEqual([
+      {
+        method: "PATCH",
+        path: "/api/interviews/int_1",
+        body: { scheduled_at: "2026-03-10T14:30:00Z", reason: "Candidate request" },
+      },
+    ]);
+  });
+
+  it("cancels an interview with a reason", async () => {
+    const result = await run({ action: "cancel", interview_id: "int_1", reason: "Role filled" });
+
+    expect(result).toEqual({
+      success: true,
+      interview_id: "int_1",
+      status: "cancelled",
+      cancelled_at: "2026-03-09T10:00:00Z",
+    });
+    expect(calls).toEqual([
+      { method: "POST", path: "/api/interviews/int_1/cancel", body: { reason: "Role filled" } },
+    ]);
+  });
+
+  it("lists upcoming interviews in time order without cancelled ones", async () => {
+    booked = [
+      booking({ interview_id: "late", scheduled_at: "2026-03-12T09:00:00Z" }),
+      booking({ interview_id: "gone", status: "cancelled" }),
+      booking({ interview_id: "early", scheduled_at: "2026-03-11T09:00:00Z" }),
+    ];
+
+    const result = await run({ action: "list", interviewer_email: "lead@example.com" });
+
+    expect(result.count).toBe(2);
+    expect((result.interviews as InterviewSummary[]).map((i) => i.interview_id)).toEqual([
+      "early",
+      "late",
+    ]);
+  });
+
+  it("validates feedback before submitting it", async () => {
+    const base = {
+      action: "feedback",
+      interview_id: "int_1",
+      interviewer_email: "lead@example.com",
+    };
+
+    const badRecommendation = await run({ ...base, recommendation: "maybe", rating: 3 });
+    expect(badRecommendation.success).toBe(false);
+    expect(badRecommendation.error).toContain("Invalid recommendation: maybe");
+
+    const missingRating = await run({ ...base, recommendation: "hire" });
+    expect(missingRating).toEqual({
+      success: false,
+      error: "rating (1-5) is required for feedback",
+    });
+    expect(calls).toEqual([]);
+
+    const submitted = await run({ ...base, recommendation: "hire", rating: 4, notes: "Solid" });
+    expect(submitted).toMatchObject({ success: true, feedback_id: "fb_1" });
+    expect(calls).toEqual([
+      {
+        method: "POST",
+        path: "/api/interviews/int_1/feedback",
+        body: {
+          interviewer_email: "lead@example.com",
+          rating: 4,
+          recommendation: "hire",
+          notes: "Solid",
+        },
+      },
+    ]);
+  });
+
+  it("only exports availability inside the agent workspace", async () => {
+    const base = { action: "availability", interviewer_email: "lead@example.com" };
+
+    expect(await run({ ...base, export_path: "slots.ics" })).toEqual({
+      success: false,
+      error: "export_path needs an agent workspace",
+    });
+    expect(await run({ ...base, export_path: "slots.sh" }, "/tmp/workspace")).toEqual({
+      success: false,
+      error: "export_path must be an .ics file",
+    });
+    for (const exportPath of ["../escape.ics", "/etc/cron.d/slots.ics"]) {
+      const escaped = await run({ ...base, export_path: exportPath }, "/tmp/workspace");
+      expect(escaped.success).toBe(false);
+      expect(escaped.error).toContain("Path escapes sandbox root");
+    }
+    expect(calls).toEqual([]);
+  });
+});
@@ -1,31 +1,88 @@
 /**
  * Talently Interview Tool
  *
- * Agent tool for creating quick interviews with Zoom meetings and calendar events.
+ * Agent tool for the interview lifecycle: create quick interviews with Zoom meetings and
+ * calendar events, reschedule, cancel, list upcoming interviews and capture feedback.
  */
 
+import fs from "node:fs/promises";
+import path from "node:path";
 import { Type } from "@sinclair/typebox";
+import { assertSandboxPath } from "../agents/sandbox-paths.js";
+import { optionalStringEnum } from "../agents/schema/typebox.js";
 import type { AnyAgentTool } from "../agents/tools/common.js";
-import { jsonResult, readStringParam, readNumberParam } from "../agents/tools/common.js";
+import {
+  jsonResult,
+  readStringParam,
+  readNumberParam,
+  readStringArrayParam,
+} from "../agents/tools/common.js";
+import { formatAvailabilitySlot } from "../calendar-availability/availability.js";
+import { formatIcs } from "../calendar-availability/ics.js";
+import { trackCandidateActivity } from "../candidate-pipeline/store.js";
 import type { OpenClawConfig } from "../config/config.js";
-import { buildClientOptions, createQuickInterview } from "./client.js";
+import { proposeInterviewSlots } from "./availability.js";
+import {
+  buildClientOptions,
+  cancelInterview,
+  createQuickInterview,
+  listInterviews,
+  rescheduleInterview,
+  submitInterviewFeedback,
+  type TalentlyInterviewClientOptions,
+} from "./client.js";
 import { resolveTalentlyInterviewConfig, getMissingCredentials } from "./config.js";
-import type { QuickInterviewRequest } from "./types.js";
+import { checkInterviewerConflicts } from "./conflicts.js";
+import {
+  INTERVIEW_RECOMMENDATIONS,
+  type InterviewRecommendation,
+  type InterviewSummary,
+  type QuickInterviewRequest,
+} from "./types.js";
 
 // =============================================================================
 // Tool Schema
 // =============================================================================
 
+const INTERVIEW_ACTIONS = [
+  "create",
+  "reschedule",
+  "cancel",
+  "list",
+  "feedback",
+  "availability",
+] as const;
+
 const TalentlyInterviewSchema = Type.Object({
-  interviewer_email: Type.String({
-    description: "Email address of the interviewer",
-  }),
-  candidate_email: Type.String({
-    description: "Email address of the candidate",
-  }),
-  scheduled_at: Type.String({
-    description: "Interview date/time in ISO 8601 format (e.g. '2025-03-15T14:00:00Z')",
+  action: optionalStringEnum(INTERVIEW_ACTIONS, {
+    description:
+      'Action to perform: "create" (default), "reschedule", "cancel", ' +
+      '"list" (upcoming interviews for an interviewer), "feedback" (post-interview) or ' +
+      '"availability" (propose free slots).',
   }),
+  interview_id: Type.Optional(
+    Type.String({
+      description: "Interview ID (required for reschedule, cancel and feedback)",
+    }),
+  ),
+  interviewer_email: Type.Optional(
+    Type.String({
+      description:
+        "Email address of the interviewer (required for create, reschedule, list, feedback)",
+    }),
+  ),
+  candidate_email: Type.Optional(
+    Type.String({
+      description:
+        "Email address of the candidate (required for create; optional elsewhere to update the candidate pipeline)",
+    }),
+  ),
+  scheduled_at: Type.Optional(
+    Type.String({
+      description:
+        "Interview date/time in ISO 8601 format (e.g. '2025-03-15T14:00:00Z'). Required for create and reschedule",
+    }),
+  ),
   interview_title: Type.Optional(
     Type.String({
       description: "Title for the interview. Defaults to 'Interview - {candidate_email}'",
@@ -38,8 +95,111 @@ const TalentlyInterviewSchema = Type.Object({
       maximum: 480,
     }),
   ),
+  force: Type.Optional(
+    Type.Boolean({
+      description:
+        "Book even if the interviewer already has an overlapping interview (create, reschedule)",
+    }),
+  ),
+  reason: Type.Optional(
+    Type.String({
+      description: "Reason shared with participants (reschedule, cancel)",
+    }),
+  ),
+  from: Type.Optional(
+    Type.String({
+      description:
+        "List or propose interviews starting at or after this ISO 8601 time (default: now)",
+    }),
+  ),
+  to: Type.Optional(
+    Type.String({
+      description: "List or propose interviews starting before this ISO 8601 time",
+    }),
+  ),
+  count: Type.Optional(
+    Type.Number({
+      description: "Number of slots to propose (availability). Default: 5",
+      minimum: 1,
+      maximum: 20,
+    }),
+  ),
+  export_path: Type.Optional(
+    Type.String({
+      description:
+        "Write proposed slots as tentative events to this .ics file, relative to the agent workspace (availability)",
+    }),
+  ),
+  rating: Type.Optional(
+    Type.Number({
+      description: "Overall rating from 1 (poor) to 5 (excellent) (feedback)",
+      minimum: 1,
+      maximum: 5,
+    }),
+  ),
+  recommendation: optionalStringEnum(INTERVIEW_RECOMMENDATIONS, {
+    description: "Hiring recommendation (feedback)",
+  }),
+  notes: Type.Optional(
+    Type.String({
+      description: "Free-form interview notes (feedback)",
+    }),
+  ),
+  strengths: Type.Optional(
+    Type.Array(Type.String(), {
+      description: "Observed strengths (feedback)",
+    }),
+  ),
+  concerns: Type.Optional(
+    Type.Array(Type.String(), {
+      description: "Observed concerns (feedback)",
+    }),
+  ),
 });
 
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function formatConflict(interview: InterviewSummary) {
+  return {
+    interview_id: interview.interview_id,
+    title: interview.title,
+    scheduled_at: interview.scheduled_at,
+    duration_minutes: interview.duration_minutes,
+    candidate_email: interview.candidate_email,
+  };
+}
+
+/**
+ * Return an error result when the interviewer is already booked, or null when the slot is free.
+ */
+async function rejectOnConflict(
+  clientOpts: TalentlyInterviewClientOptions,
+  params: {
+    interviewerEmail: string;
+    scheduledAt: string;
+    durationMinutes?: number;
+    excludeInterviewId?: string;
+    force: boolean;
+  },
+) {
+  if (params.force) {
+    return null;
+  }
+  const conflicts = await checkInterviewerConflicts(clientOpts, params);
+  if (conflicts.length === 0) {
+    return null;
+  }
+  return jsonResult({
+    success: false,
+    error:
+      `${params.interviewerEmail} already has ${conflicts.length} interview(s) overlapping ` +
+      `${params.scheduledAt}. Pick another time, or set force=true to double-book.`,
+    conflicts: conflicts.map(formatConflict),
+  });
+}
+
 // =============================================================================
 // Tool Factory
 // =============================================================================
@@ -52,6 +212,7 @@ const TalentlyInterviewSchema = Type.Object({
  */
 export function createTalentlyInterviewTool(options?: {
   config?: OpenClawConfig;
+  workspaceDir?: string;
 }): AnyAgentTool | null {
   const cfg = options?.config;
   const resolvedConfig = resolveTalentlyInterviewConfig(cfg ?? ({} as OpenClawConfig));
@@ -64,9 +225,13 @@ export function createTalentlyInterviewTool(options?: {
 
   // Build description with configured interviewers
   let description =
-    "Create a quick interview with automatic Zoom meeting and Google Calendar event. " +
-    "Requires interviewer email, candidate email, and scheduled time. " +
-    "Returns the Zoom meeting link and calendar event link.";
+    "Manage interviews. action=create books a quick interview with automatic Zoom meeting and " +
+    "Google Calendar event (requires interviewer email, candidate email and scheduled time) and " +
+    "returns the meeting and calendar links. Creating or rescheduling is refused when the " +
+    "interviewer already has an overlapping interview unless force=true. Other actions: " +
+    "reschedule, cancel, list (upcoming for an interviewer), feedback (rating + recommendation " +
+    "after the interview), availability (propose free slots from working hours and calendars; " +
+    "omit interviewer_email to search all configured interviewers).";
 
   if (resolvedConfig.interviewerEmails.length > 0) {
     description += ` Available interviewers: ${resolvedConfig.interviewerEmails.join(", ")}.`;
@@ -90,39 +255,277 @@ export function createTalentlyInterviewTool(options?: {
         });
       }
 
-      const interviewerEmail = readStringParam(params, "interviewer_email", { required: true });
-      const candidateEmail = readStringParam(params, "candidate_email", { required: true });
-      const scheduledAt = readStringParam(params, "scheduled_at", { required: true });
-      const interviewTitle = readStringParam(params, "interview_title");
-      const durationMinutes = readNumberParam(params, "duration_minutes", { integer: true });
+      const action = readStringParam(params, "action") ?? "create";
+      const force = params.force === true;
+      const candidateEmail = readStringParam(params, "candidate_email");
 
-      const requestData: QuickInterviewRequest = {
-        interviewer_email: interviewerEmail,
-        candidate_email: candidateEmail,
-        scheduled_at: scheduledAt,
-      };
+      try {
+        switch (action) {
+          case "create": {
+            const interviewerEmail = readStringParam(params, "interviewer_email", {
+              required: true,
+            });
+            const requiredCandidateEmail = readStringParam(params, "candidate_email", {
+              required: true,
+            });
+            const scheduledAt = readStringParam(params, "scheduled_at", { required: true });
+            const interviewTitle = readStringParam(params, "interview_title");
+            const durationMinutes = readNumberParam(params, "duration_minutes", {
+              integer: true,
+            });
 
-      if (interviewTitle) {
-        requestData.interview_title = interviewTitle;
-      }
-      if (durationMinutes) {
-        requestData.duration_minutes = durationMinutes;
-      }
+            const conflict = await rejectOnConflict(clientOpts, {
+              interviewerEmail,
+              scheduledAt,
+              durationMinutes,
+              force,
+            });
+            if (conflict) {
+              return conflict;
+            }
 
-      try {
-        const result = await createQuickInterview(clientOpts, requestData);
+            const requestData: QuickInterviewRequest = {
+              interviewer_email: interviewerEmail,
+              candidate_email: requiredCandidateEmail,
+              scheduled_at: scheduledAt,
+            };
 
-        return jsonResult({
-          success: true,
-          meeting_link: result.meeting_link,
-          meeting_passcode: result.meeting_passcode,
-          calendar_event_link: result.calendar_event_link,
-          scheduled_at: result.scheduled_at,
-          duration_minutes: result.duration_minutes,
-          title: result.title,
-          status: result.status,
-          participants: result.participants,
-        });
+            if (interviewTitle) {
+              requestData.interview_title = interviewTitle;
+            }
+            if (durationMinutes) {
+              requestData.duration_minutes = durationMinutes;
+            }
+
+            const result = await createQuickInterview(clientOpts, requestData);
+            await trackCandidateActivity(options?.workspaceDir, {
+              identity: { email: requiredCandidateEmail },
+              source: "interview",
+              stage: "interviewed",
+              summary: `Interview scheduled for ${result.scheduled_at} with ${interviewerEmail}`,
+              ref: result.interview_id ?? result.meeting_link,
+            });
+
+            return jsonResult({
+              success: true,
+              interview_id: result.interview_id,
+              meeting_link: result.meeting_link,
+              meeting_passcode: result.meeting_passcode,
+              calendar_event_link: result.calendar_event_link,
+              scheduled_at: result.scheduled_at,
+              duration_minutes: result.duration_minutes,
+              title: result.title,
+              status: result.status,
+              participants: result.participants,
+            });
+          }
+
+          case "reschedule": {
+            const interviewId = readStringParam(params, "interview_id", { required: true });
+            const interviewerEmail = readStringParam(params, "interviewer_email", {
+              required: true,
+            });
+            const scheduledAt = readStringParam(params, "scheduled_at", { required: true });
+            const durationMinutes = readNumberParam(params, "duration_minutes", {
+              integer: true,
+            });
+            const reason = readStringParam(params, "reason");
+
+            const conflict = await rejectOnConflict(clientOpts, {
+              interviewerEmail,
+              scheduledAt,
+              durationMinutes,
+              excludeInterviewId: interviewId,
+              force,
+            });
+            if (conflict) {
+              return conflict;
+            }
+
+            const result = await rescheduleInterview(clientOpts, interviewId, {
+              scheduled_at: scheduledAt,
+              duration_minutes: durationMinutes,
+              reason,
+            });
+            await trackCandidateActivity(options?.workspaceDir, {
+              identity: { email: candidateEmail ?? result.candidate_email },
+              source: "interview",
+              summary: `Interview rescheduled to ${result.scheduled_at}${reason ? ` (${reason})` : ""}`,
+              ref: interviewId,
+            });
+
+            return jsonResult({ success: true, interview: result });
+          }
+
+          case "cancel": {
+            const interviewId = readStringParam(params, "interview_id", { required: true });
+            const reason = readStringParam(params, "reason");
+            const result = await cancelInterview(clientOpts, interviewId, { reason });
+            await trackCandidateActivity(options?.workspaceDir, {
+              identity: { email: candidateEmail },
+              source: "interview",
+              summary: `Interview cancelled${reason ? ` (${reason})` : ""}`,
+              ref: interviewId,
+            });
+
+            return jsonResult({
+              success: true,
+              interview_id: result.interview_id,
+              status: result.status,
+              cancelled_at: result.cancelled_at,
+            });
+          }
+
+          case "list": {
+            const interviewerEmail = readStringParam(params, "interviewer_email", {
+              required: true,
+            });
+            const { interviews } = await listInterviews(clientOpts, {
+              interviewer_email: interviewerEmail,
+              from: readStringParam(params, "from") ?? new Date().toISOString(),
+              to: readStringParam(params, "to"),
+            });
+            const upcoming = interviews
+              .filter((interview) => interview.status !== "cancelled")
+              .toSorted((a, b) => Date.parse(a.scheduled_at) - Date.parse(b.scheduled_at));
+
+            return jsonResult({
+              success: true,
+              interviewer_email: interviewerEmail,
+              count: upcoming.length,
+              interviews: upcoming,
+            });
+          }
+
+          case "feedback": {
+            const interviewId = readStringParam(params, "interview_id", { required: true });
+            const interviewerEmail = readStringParam(params, "interviewer_email", {
+              required: true,
+            });
+            const rating = readNumberParam(params, "rating", { integer: true });
+            const recommendation = readStringParam(params, "recommendation", { required: true });
+            if (!INTERVIEW_RECOMMENDATIONS.includes(recommendation as InterviewRecommendation)) {
+              return jsonResult({
+                success: false,
+                error: `Invalid recommendation: ${recommendation}. Valid values: ${INTERVIEW_RECOMMENDATIONS.join(", ")}`,
+              });
+            }
+            if (rating === undefined || rating < 1 || rating > 5) {
+              return jsonResult({ success: false, error: "rating (1-5) is required for feedback" });
+            }
+            const notes = readStringParam(params, "notes");
+
+            const result = await submitInterviewFeedback(clientOpts, interviewId, {
+              interviewer_email: interviewerEmail,
+              rating,
+              recommendation: recommendation as InterviewRecommendation,
+              notes,
+              strengths: readStringArrayParam(params, "strengths"),
+              concerns: readStringArrayParam(params, "concerns"),
+            });
+            await trackCandidateActivity(options?.workspaceDir, {
+              identity: { email: candidateEmail },
+              source: "interview",
+              stage: "interviewed",
+              summary: `Interview feedback from ${interviewerEmail}: ${rating}/5, ${recommendation.replace(/_/g, " ")}`,
+              ref: interviewId,
+            });
+
+            return jsonResult({
+              success: true,
+              interview_id: result.interview_id,
+              feedback_id: result.feedback_id,
+              submitted_at: result.submitted_at,
+              status: result.status,
+            });
+          }
+
+          case "availability": {
+            const interviewerEmail = readStringParam(params, "interviewer_email");
+            const fromRaw = readStringParam(params, "from");
+            const toRaw = readStringParam(params, "to");
+            const from = fromRaw ? Date.parse(fromRaw) : undefined;
+            const to = toRaw ? Date.parse(toRaw) : undefined;
+            if (Number.isNaN(from) || Number.isNaN(to)) {
+              return jsonResult({ success: false, error: "from/to must be ISO 8601 times" });
+            }
+            const exportPath = readStringParam(params, "export_path");
+            let exportTarget: string | undefined;
+            if (exportPath) {
+              const workspaceDir = options?.workspaceDir;
+              if (!workspaceDir) {
+                return jsonResult({
+                  success: false,
+                  error: "export_path needs an agent workspace",
+                });
+              }
+              if (path.extname(exportPath).toLowerCase() !== ".ics") {
+                return jsonResult({ success: false, error: "export_path must be an .ics file" });
+              }
+              // Only inside the workspace (symlinks included), never an arbitrary host path.
+              exportTarget = (
+                await assertSandboxPath({
+                  filePath: exportPath,
+                  cwd: workspaceDir,
+                  root: workspaceDir,
+                })
+              ).resolved;
+            }
+            const durationMinutes = readNumberParam(params, "duration_minutes", {
+              integer: true,
+            });
+            const { slots, interviewers } = await proposeInterviewSlots(
+              cfg ?? ({} as OpenClawConfig),
+              {
+                interviewerEmails: interviewerEmail ? [interviewerEmail] : undefined,
+                durationMinutes,
+                from,
+                to,
+                count: readNumberParam(params, "count", { integer: true }),
+              },
+            );
+            if (interviewers.length === 0) {
+              return jsonResult({
+                success: false,
+                error:
+                  "No interviewers to check. Pass interviewer_email or set tools.talentlyInterview.interviewerEmails.",
+              });
+            }
+
+            if (exportTarget && slots.length > 0) {
+              const ics = formatIcs(
+                slots.map((slot) => ({
+                  uid: `slot-${Date.parse(slot.start)}-${slot.interviewerEmail}`,
+                  start: Date.parse(slot.start),
+                  end: Date.parse(slot.end),
+                  summary: `Interview hold (${slot.interviewerEmail})`,
+                  status: "TENTATIVE" as const,
+                  attendees: [slot.interviewerEmail],
+                })),
+              );
+              await fs.mkdir(path.dirname(exportTarget), { recursive: true });
+              await fs.writeFile(exportTarget, ics, "utf8");
+            }
+
+            return jsonResult({
+              success: true,
+              count: slots.length,
+              slots: slots.map((slot) => ({
+                interviewer_email: slot.interviewerEmail,
+                scheduled_at: slot.start,
+                ends_at: slot.end,
+                local_time: formatAvailabilitySlot(slot),
+              })),
+              ...(exportTarget && slots.length > 0 ? { exported_to: exportTarget } : {}),
+            });
+          }
+
+          default:
+            return jsonResult({
+              success: false,
+              error: `Unknown action: ${action}. Valid actions: ${INTERVIEW_ACTIONS.join(", ")}`,
+            });
+        }
       } catch (err) {
         const errorMessage = err instanceof Error ? err.message : String(err);
 
@@ -135,7 +538,7 @@ export function createTalentlyInterviewTool(options?: {
 
         return jsonResult({
           success: false,
-          error: `Talently Interview creation failed: ${errorMessage}`,
+          error: `Talently Interview ${action} failed: ${errorMessage}`,
         });
       }
     },
@@ -1,9 +1,11 @@
 /**
  * Talently Interview Tool - Types
  *
- * TypeScript interfaces for the Quick Interview API.
+ * TypeScript interfaces for the Interview API.
  */
 
+import type { CalendarAvailabilityConfig } from "../calendar-availability/types.js";
+
 // =============================================================================
 // Configuration Types
 // =============================================================================
@@ -14,6 +16,7 @@ export type TalentlyInterviewConfig = {
   apiKey?: string;
   timeoutMs?: number;
   interviewerEmails?: string[];
+  availability?: CalendarAvailabilityConfig;
 };
 
 // =============================================================================
@@ -31,6 +34,58 @@ export type QuickInterviewRequest = {
   duration_minutes?: number; // Default: 60
 };
 
+/**
+ * Request payload for moving an interview to a new time.
+ * PATCH /interviews/{interview_id}
+ */
+export type RescheduleInterviewRequest = {
+  scheduled_at: string; // ISO format datetime
+  duration_minutes?: number;
+  reason?: string;
+};
+
+/**
+ * Request payload for cancelling an interview.
+ * POST /interviews/{interview_id}/cancel
+ */
+export type CancelInterviewRequest = {
+  reason?: string;
+  notify_participants?: boolean; // Default: true
+};
+
+/**
+ * Query for listing interviews of an interviewer.
+ * GET /interviews?interviewer_email=...&from=...&to=...
+ */
+export type ListInterviewsQuery = {
+  interviewer_email: string;
+  from?: string; // ISO format datetime (default: now)
+  to?: string; // ISO format datetime
+  include_cancelled?: boolean;
+};
+
+export const INTERVIEW_RECOMMENDATIONS = [
+  "strong_hire",
+  "hire",
+  "no_hire",
+  "strong_no_hire",
+] as const;
+
+export type InterviewRecommendation = (typeof INTERVIEW_RECOMMENDATIONS)[number];
+
+/**
+ * Request payload for post-interview feedback.
+ * POST /interviews/{interview_id}/feedback
+ */
+export type InterviewFeedbackRequest = {
+  interviewer_email: string;
+  rating: number; // 1-5
+  recommendation: InterviewRecommendation;
+  notes?: string;
+  strengths?: string[];
+  concerns?: string[];
+};
+
 // =============================================================================
 // API Response Types
 // =============================================================================
@@ -47,6 +102,7 @@ export type QuickInterviewParticipant = {
  * Response from the quick interview creation endpoint.
  */
 export type QuickInterviewResponse = {
+  interview_id?: string;
   meeting_link: string;
   meeting_passcode?: string;
   calendar_event_link?: string;
@@ -56,3 +112,47 @@ export type QuickInterviewResponse = {
   title: string;
   participants: QuickInterviewParticipant[];
 };
+
+export type InterviewStatus = "scheduled" | "rescheduled" | "cancelled" | "completed";
+
+/**
+ * A booked interview as returned by the list and reschedule endpoints.
+ */
+export type InterviewSummary = {
+  interview_id: string;
+  title: string;
+  scheduled_at: string;
+  duration_minutes: number;
+  status: InterviewStatus;
+  /** Omitted by the API for some legacy bookings. */
+  interviewer_email?: string;
+  candidate_email: string;
+  meeting_link?: string;
+  calendar_event_link?: string;
+};
+
+/**
+ * Response from the list endpoint.
+ */
+export type ListInterviewsResponse = {
+  interviews: InterviewSummary[];
+};
+
+/**
+ * Response from the cancel endpoint.
+ */
+export type CancelInterviewResponse = {
+  interview_id: string;
+  status: InterviewStatus;
+  cancelled_at?: string;
+};
+
+/**
+ * Response from the feedback endpoint.
+ */
+export type InterviewFeedbackResponse = {
+  interview_id: string;
+  feedback_id: string;
+  submitted_at: string;
+  status: InterviewStatus;
+};
@@ -177,6 +177,12 @@ export const buildTelegramMessageContext = async ({
       id: peerId,
     },
     parentPeer,
+    message: {
+      text: msg.text ?? msg.caption ?? "",
+      attachments: allMedia.flatMap((media) => (media.contentType ? [media.contentType] : [])),
+      senderLanguage: msg.from?.language_code,
+      timestamp: msg.date ? msg.date * 1000 : undefined,
+    },
   });
   const baseSessionKey = route.sessionKey;
   // DMs: use raw messageThreadId for thread sessions (not forum topic ids)
@@ -0,0 +1,25 @@
+import type { IncomingHttpHeaders } from "node:http";
+import { WEBHOOK_SIGNING_SCHEMES, type WebhookProvider } from "../security/webhook-verify.js";
+
+/**
+ * Sign a webhook fixture the way the provider would, returning the raw body and
+ * the headers to send with it. `timestamp` is in unix seconds (default: now).
+ */
+export function signWebhookFixture(params: {
+  provider: WebhookProvider;
+  secret: string;
+  payload: unknown;
+  timestamp?: number;
+}): { rawBody: string; headers: IncomingHttpHeaders } {
+  const scheme = WEBHOOK_SIGNING_SCHEMES[params.provider];
+  const rawBody =
+    typeof params.payload === "string" ? params.payload : JSON.stringify(params.payload);
+  const timestamp = params.timestamp ?? Math.floor(Date.now() / 1000);
+  return {
+    rawBody,
+    headers: {
+      "content-type": "application/json",
+      [scheme.header]: scheme.sign({ rawBody, secret: params.secret, timestamp }),
+    },
+  };
+}
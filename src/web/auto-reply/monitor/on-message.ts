@@ -72,6 +72,11 @@ export function createWebOnMessageHandler(params: {
         kind: msg.chatType === "group" ? "group" : "direct",
         id: peerId,
       },
+      message: {
+        text: msg.body,
+        attachments: msg.mediaType ? [msg.mediaType] : [],
+        timestamp: msg.timestamp,
+      },
     });
     const groupHistoryKey =
       msg.chatType === "group"
@@ -29,6 +29,7 @@ export const en: TranslationMap = {
     sessions: "Sessions",
     usage: "Usage",
     cron: "Cron Jobs",
+    deliveries: "Deliveries",
     skills: "Skills",
     nodes: "Nodes",
     chat: "Chat",
@@ -44,6 +45,7 @@ export const en: TranslationMap = {
     sessions: "Inspect active sessions and adjust per-session defaults.",
     usage: "Monitor API usage and costs.",
     cron: "Schedule wakeups and recurring agent runs.",
+    deliveries: "Inspect, retry or discard queued outbound messages.",
     skills: "Manage skill availability and API key injection.",
     nodes: "Paired devices, capabilities, and command exposure.",
     chat: "Direct gateway chat session for quick interventions.",
@@ -29,6 +29,7 @@ export const pt_BR: TranslationMap = {
     sessions: "Sessões",
     usage: "Uso",
     cron: "Tarefas Cron",
+    deliveries: "Entregas",
     skills: "Habilidades",
     nodes: "Nós",
     chat: "Chat",
@@ -44,6 +45,7 @@ export const pt_BR: TranslationMap = {
     sessions: "Inspecionar sessões ativas e ajustar padrões por sessão.",
     usage: "Monitorar uso e custos da API.",
     cron: "Agendar despertares e execuções recorrentes de agentes.",
+    deliveries: "Inspecionar, reenviar ou descartar mensagens de saída na fila.",
     skills: "Gerenciar disponibilidade de habilidades e injeção de chaves de API.",
     nodes: "Dispositivos pareados, capacidades e exposição de comandos.",
     chat: "Sessão de chat direta com o gateway para intervenções rápidas.",
@@ -29,6 +29,7 @@ export const zh_CN: TranslationMap = {
     sessions: "会话",
     usage: "使用情况",
     cron: "定时任务",
+    deliveries: "投递队列",
     skills: "技能",
     nodes: "节点",
     chat: "聊天",
@@ -44,6 +45,7 @@ export const zh_CN: TranslationMap = {
     sessions: "检查活动会话并调整每个会话的默认设置。",
     usage: "监控 API 使用情况和成本。",
     cron: "安排唤醒和重复的代理运行。",
+    deliveries: "查看、重试或丢弃排队中的外发消息。",
     skills: "管理技能可用性和 API 密钥注入。",
     nodes: "配对设备、功能和命令公开。",
     chat: "用于快速干预的直接网关聊天会话。",
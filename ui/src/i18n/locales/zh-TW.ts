@@ -29,6 +29,7 @@ export const zh_TW: TranslationMap = {
     sessions: "會話",
     usage: "使用情況",
     cron: "定時任務",
+    deliveries: "投遞佇列",
     skills: "技能",
     nodes: "節點",
     chat: "聊天",
@@ -44,6 +45,7 @@ export const zh_TW: TranslationMap = {
     sessions: "檢查活動會話並調整每個會話的默認設置。",
     usage: "監控 API 使用情況和成本。",
     cron: "安排喚醒和重複的代理運行。",
+    deliveries: "檢視、重試或捨棄排隊中的外送訊息。",
     skills: "管理技能可用性和 API 密鑰注入。",
     nodes: "配對設備、功能和命令公開。",
     chat: "用於快速干預的直接網關聊天會話。",
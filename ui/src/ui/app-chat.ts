@@ -1,9 +1,14 @@
 import { parseAgentSessionKey } from "../../../src/sessions/session-key-utils.js";
 import { scheduleChatScroll } from "./app-scroll.ts";
-import { setLastActiveSessionKey } from "./app-settings.ts";
+import { setLastActiveSessionKey, syncUrlWithSessionKey } from "./app-settings.ts";
 import { resetToolStream } from "./app-tool-stream.ts";
 import type { OpenClawApp } from "./app.ts";
-import { abortChatRun, loadChatHistory, sendChatMessage } from "./controllers/chat.ts";
+import {
+  abortChatRun,
+  forkChatSession,
+  loadChatHistory,
+  sendChatMessage,
+} from "./controllers/chat.ts";
 import { loadSessions } from "./controllers/sessions.ts";
 import type { GatewayHelloOk } from "./gateway.ts";
 import { normalizeBasePath } from "./navigation.ts";
@@ -60,6 +65,40 @@ function isChatResetCommand(text: string) {
   return normalized.startsWith("/new ") || normalized.startsWith("/reset ");
 }
 
+function parseChatForkCommand(text: string): { label?: string } | null {
+  const trimmed = text.trim();
+  const normalized = trimmed.toLowerCase();
+  if (normalized !== "/fork" && !normalized.startsWith("/fork ")) {
+    return null;
+  }
+  const label = trimmed.slice("/fork".length).trim();
+  return label ? { label } : {};
+}
+
+export async function handleForkChat(host: ChatHost, opts?: { entryId?: string; label?: string }) {
+  if (!host.connected) {
+    return;
+  }
+  const app = host as unknown as OpenClawApp;
+  const key = await forkChatSession(app, opts);
+  if (!key) {
+    return;
+  }
+  app.sessionKey = key;
+  app.chatMessage = "";
+  app.chatAttachments = [];
+  app.chatStream = null;
+  app.chatStreamStartedAt = null;
+  app.chatRunId = null;
+  app.chatQueue = [];
+  app.resetToolStream();
+  app.resetChatScroll();
+  app.applySettings({ ...app.settings, sessionKey: key, lastActiveSessionKey: key });
+  syncUrlWithSessionKey(app as unknown as Parameters<typeof syncUrlWithSessionKey>[0], key, true);
+  void app.loadAssistantIdentity();
+  await refreshChat(host);
+}
+
 export async function handleAbortChat(host: ChatHost) {
   if (!host.connected) {
     return;
@@ -180,6 +219,16 @@ export async function handleSendChat(
     return;
   }
 
+  // Forking switches sessions, so it is handled here instead of going through chat.send.
+  const fork = parseChatForkCommand(message);
+  if (fork) {
+    if (messageOverride == null) {
+      host.chatMessage = "";
+    }
+    await handleForkChat(host, fork);
+    return;
+  }
+
   const refreshSessions = isChatResetCommand(message);
   if (messageOverride == null) {
     host.chatMessage = "";
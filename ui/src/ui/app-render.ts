@@ -28,6 +28,7 @@ import {
   normalizeCronFormState,
 } from "./controllers/cron.ts";
 import { loadDebug, callDebugMethod } from "./controllers/debug.ts";
+import { discardDelivery, loadDeliveries, retryDelivery } from "./controllers/deliveries.ts";
 import {
   approveDevicePairing,
   loadDevices,
@@ -60,6 +61,7 @@ import { renderChat } from "./views/chat.ts";
 import { renderConfig } from "./views/config.ts";
 import { renderCron } from "./views/cron.ts";
 import { renderDebug } from "./views/debug.ts";
+import { renderDeliveries } from "./views/deliveries.ts";
 import { renderExecApprovalPrompt } from "./views/exec-approval.ts";
 import { renderGatewayUrlConfirmation } from "./views/gateway-url-confirmation.ts";
 import { renderInstances } from "./views/instances.ts";
@@ -350,6 +352,21 @@ export function renderApp(state: AppViewState) {
             : nothing
         }
 
+        ${
+          state.tab === "deliveries"
+            ? renderDeliveries({
+                loading: state.deliveriesLoading,
+                result: state.deliveriesResult,
+                error: state.deliveriesError,
+                notice: state.deliveriesNotice,
+                busyId: state.deliveriesBusyId,
+                onRefresh: () => loadDeliveries(state),
+                onRetry: (row) => retryDelivery(state, row),
+                onDiscard: (row) => discardDelivery(state, row),
+              })
+            : nothing
+        }
+
         ${
           state.tab === "agents"
             ? renderAgents({
@@ -860,6 +877,7 @@ export function renderApp(state: AppViewState) {
                 onAbort: () => void state.handleAbortChat(),
                 onQueueRemove: (id) => state.removeQueuedMessage(id),
                 onNewSession: () => state.handleSendChat("/new", { restoreDraft: true }),
+                onForkMessage: (entryId) => void state.handleForkChat(entryId),
                 showNewMessages: state.chatNewMessagesBelow && !state.chatManualRefreshInFlight,
                 onScrollToBottom: () => state.scrollToBottom(),
                 // Sidebar props for tool output viewing
@@ -14,6 +14,7 @@ import { loadChannels } from "./controllers/channels.ts";
 import { loadConfig, loadConfigSchema } from "./controllers/config.ts";
 import { loadCronJobs, loadCronStatus } from "./controllers/cron.ts";
 import { loadDebug } from "./controllers/debug.ts";
+import { loadDeliveries } from "./controllers/deliveries.ts";
 import { loadDevices } from "./controllers/devices.ts";
 import { loadExecApprovals } from "./controllers/exec-approvals.ts";
 import { loadLogs } from "./controllers/logs.ts";
@@ -194,6 +195,9 @@ export async function refreshActiveTab(host: SettingsHost) {
   if (host.tab === "cron") {
     await loadCron(host);
   }
+  if (host.tab === "deliveries") {
+    await loadDeliveries(host as unknown as OpenClawApp);
+  }
   if (host.tab === "skills") {
     await loadSkills(host as unknown as OpenClawApp);
   }
@@ -19,6 +19,7 @@ import type {
   CronJob,
   CronRunLogEntry,
   CronStatus,
+  DeliveriesListResult,
   HealthSnapshot,
   LogEntry,
   LogLevel,
@@ -193,6 +194,11 @@ export type AppViewState = {
   cronRunsJobId: string | null;
   cronRuns: CronRunLogEntry[];
   cronBusy: boolean;
+  deliveriesLoading: boolean;
+  deliveriesResult: DeliveriesListResult | null;
+  deliveriesError: string | null;
+  deliveriesNotice: string | null;
+  deliveriesBusyId: string | null;
   skillsLoading: boolean;
   skillsReport: SkillStatusReport | null;
   skillsError: string | null;
@@ -243,7 +249,9 @@ export type AppViewState = {
   handleNostrProfileSave: () => Promise<void>;
   handleNostrProfileImport: () => Promise<void>;
   handleNostrProfileToggleAdvanced: () => void;
-  handleExecApprovalDecision: (decision: "allow-once" | "allow-always" | "deny") => Promise<void>;
+  handleExecApprovalDecision: (
+    decision: "allow-once" | "allow-always" | "allow-similar" | "deny",
+  ) => Promise<void>;
   handleGatewayUrlConfirm: () => void;
   handleGatewayUrlCancel: () => void;
   handleConfigLoad: () => Promise<void>;
@@ -277,6 +285,7 @@ export type AppViewState = {
   setChatMessage: (next: string) => void;
   handleSendChat: (messageOverride?: string, opts?: { restoreDraft?: boolean }) => Promise<void>;
   handleAbortChat: () => Promise<void>;
+  handleForkChat: (entryId?: string) => Promise<void>;
   removeQueuedMessage: (id: string) => void;
   handleChatScroll: (event: Event) => void;
   resetToolStream: () => void;
@@ -16,6 +16,7 @@ import {
 } from "./app-channels.ts";
 import {
   handleAbortChat as handleAbortChatInternal,
+  handleForkChat as handleForkChatInternal,
   handleSendChat as handleSendChatInternal,
   removeQueuedMessage as removeQueuedMessageInternal,
 } from "./app-chat.ts";
@@ -70,6 +71,7 @@ import type {
   CronJob,
   CronRunLogEntry,
   CronStatus,
+  DeliveriesListResult,
   HealthSnapshot,
   LogEntry,
   LogLevel,
@@ -302,6 +304,12 @@ export class OpenClawApp extends LitElement {
   @state() cronRuns: CronRunLogEntry[] = [];
   @state() cronBusy = false;
 
+  @state() deliveriesLoading = false;
+  @state() deliveriesResult: DeliveriesListResult | null = null;
+  @state() deliveriesError: string | null = null;
+  @state() deliveriesNotice: string | null = null;
+  @state() deliveriesBusyId: string | null = null;
+
   @state() updateAvailable: import("./types.js").UpdateAvailable | null = null;
 
   @state() skillsLoading = false;
@@ -447,6 +455,13 @@ export class OpenClawApp extends LitElement {
     await handleAbortChatInternal(this as unknown as Parameters<typeof handleAbortChatInternal>[0]);
   }
 
+  async handleForkChat(entryId?: string) {
+    await handleForkChatInternal(
+      this as unknown as Parameters<typeof handleForkChatInternal>[0],
+      entryId ? { entryId } : undefined,
+    );
+  }
+
   removeQueuedMessage(id: string) {
     removeQueuedMessageInternal(
       this as unknown as Parameters<typeof removeQueuedMessageInternal>[0],
@@ -509,7 +524,9 @@ export class OpenClawApp extends LitElement {
     handleNostrProfileToggleAdvancedInternal(this);
   }
 
-  async handleExecApprovalDecision(decision: "allow-once" | "allow-always" | "deny") {
+  async handleExecApprovalDecision(
+    decision: "allow-once" | "allow-always" | "allow-similar" | "deny",
+  ) {
     const active = this.execApprovalQueue[0];
     if (!active || !this.client || this.execApprovalBusy) {
       return;
@@ -1,6 +1,7 @@
 import { html, nothing } from "lit";
 import { unsafeHTML } from "lit/directives/unsafe-html.js";
 import type { AssistantIdentity } from "../assistant-identity.ts";
+import { icons } from "../icons.ts";
 import { toSanitizedMarkdownHtml } from "../markdown.ts";
 import { detectTextDirection } from "../text-direction.ts";
 import type { MessageGroup } from "../types/chat-types.ts";
@@ -108,6 +109,7 @@ export function renderMessageGroup(
   group: MessageGroup,
   opts: {
     onOpenSidebar?: (content: string) => void;
+    onForkMessage?: (entryId: string) => void;
     showReasoning: boolean;
     assistantName?: string;
     assistantAvatar?: string | null;
@@ -141,6 +143,7 @@ export function renderMessageGroup(
             {
               isStreaming: group.isStreaming && index === group.messages.length - 1,
               showReasoning: opts.showReasoning,
+              onFork: opts.onForkMessage,
             },
             opts.onOpenSidebar,
           ),
@@ -216,9 +219,30 @@ function renderMessageImages(images: ImageBlock[]) {
   `;
 }
 
+/** Transcript entry id attached by chat.history; only persisted messages can be forked. */
+function resolveMessageEntryId(message: Record<string, unknown>): string | null {
+  const marker = message.__openclaw as Record<string, unknown> | undefined;
+  return typeof marker?.id === "string" && marker.kind === undefined ? marker.id : null;
+}
+
+function renderForkButton(entryId: string, onFork: (entryId: string) => void) {
+  const label = "Fork from here";
+  return html`
+    <button
+      class="chat-fork-btn"
+      type="button"
+      title=${label}
+      aria-label=${label}
+      @click=${() => onFork(entryId)}
+    >
+      ${icons.gitBranch}
+    </button>
+  `;
+}
+
 function renderGroupedMessage(
   message: unknown,
-  opts: { isStreaming: boolean; showReasoning: boolean },
+  opts: { isStreaming: boolean; showReasoning: boolean; onFork?: (entryId: string) => void },
   onOpenSidebar?: (content: string) => void,
 ) {
   const m = message as Record<string, unknown>;
@@ -242,10 +266,12 @@ function renderGroupedMessage(
   const reasoningMarkdown = extractedThinking ? formatReasoningMarkdown(extractedThinking) : null;
   const markdown = markdownBase;
   const canCopyMarkdown = role === "assistant" && Boolean(markdown?.trim());
+  const forkEntryId = opts.onFork && !opts.isStreaming ? resolveMessageEntryId(m) : null;
 
   const bubbleClasses = [
     "chat-bubble",
     canCopyMarkdown ? "has-copy" : "",
+    forkEntryId ? "has-fork" : "",
     opts.isStreaming ? "streaming" : "",
     "fade-in",
   ]
@@ -263,6 +289,7 @@ function renderGroupedMessage(
   return html`
     <div class="${bubbleClasses}">
       ${canCopyMarkdown ? renderCopyAsMarkdownButton(markdown!) : nothing}
+      ${forkEntryId && opts.onFork ? renderForkButton(forkEntryId, opts.onFork) : nothing}
       ${renderMessageImages(images)}
       ${
         reasoningMarkdown
@@ -1,5 +1,6 @@
-import { describe, expect, it } from "vitest";
-import { handleChatEvent, type ChatEventPayload, type ChatState } from "./chat.ts";
+import { describe, expect, it, vi } from "vitest";
+import type { GatewayBrowserClient } from "../gateway.ts";
+import { forkChatSession, handleChatEvent, type ChatEventPayload, type ChatState } from "./chat.ts";
 
 function createState(overrides: Partial<ChatState> = {}): ChatState {
   return {
@@ -214,3 +215,27 @@ describe("handleChatEvent", () => {
     expect(state.chatMessages).toEqual([existingMessage]);
   });
 });
+
+describe("forkChatSession", () => {
+  it("forks the current session at a message and returns the new key", async () => {
+    const request = vi.fn(async () => ({ ok: true, key: "agent:main:fork:abc" }));
+    const state = createState({
+      sessionKey: "agent:main:main",
+      client: { request } as unknown as GatewayBrowserClient,
+    });
+    expect(await forkChatSession(state, { entryId: "m2" })).toBe("agent:main:fork:abc");
+    expect(request).toHaveBeenCalledWith("sessions.fork", {
+      key: "agent:main:main",
+      entryId: "m2",
+    });
+  });
+
+  it("surfaces gateway errors", async () => {
+    const request = vi.fn(async () => {
+      throw new Error("message m9 not found in session transcript");
+    });
+    const state = createState({ client: { request } as unknown as GatewayBrowserClient });
+    expect(await forkChatSession(state)).toBeNull();
+    expect(state.lastError).toContain("m9 not found");
+  });
+});
@@ -50,6 +50,28 @@ export async function loadChatHistory(state: ChatState) {
   }
 }
 
+/** Branch the current session (optionally at a transcript entry); returns the new session key. */
+export async function forkChatSession(
+  state: ChatState,
+  opts?: { entryId?: string; label?: string },
+): Promise<string | null> {
+  if (!state.client || !state.connected) {
+    return null;
+  }
+  state.lastError = null;
+  try {
+    const res = await state.client.request<{ key?: string }>("sessions.fork", {
+      key: state.sessionKey,
+      ...(opts?.entryId ? { entryId: opts.entryId } : {}),
+      ...(opts?.label ? { label: opts.label } : {}),
+    });
+    return typeof res?.key === "string" ? res.key : null;
+  } catch (err) {
+    state.lastError = String(err);
+    return null;
+  }
+}
+
 function dataUrlToBase64(dataUrl: string): { content: string; mimeType: string } | null {
   const match = /^data:([^;]+);base64,(.+)$/.exec(dataUrl);
   if (!match) {
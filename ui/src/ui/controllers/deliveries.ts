@@ -0,0 +1,81 @@
+import type { GatewayBrowserClient } from "../gateway.ts";
+import type { DeliveriesListResult, DeliveryQueueRow } from "../types.ts";
+
+export type DeliveriesState = {
+  client: GatewayBrowserClient | null;
+  connected: boolean;
+  deliveriesLoading: boolean;
+  deliveriesResult: DeliveriesListResult | null;
+  deliveriesError: string | null;
+  deliveriesNotice: string | null;
+  deliveriesBusyId: string | null;
+};
+
+export async function loadDeliveries(state: DeliveriesState) {
+  if (!state.client || !state.connected) {
+    return;
+  }
+  if (state.deliveriesLoading) {
+    return;
+  }
+  state.deliveriesLoading = true;
+  state.deliveriesError = null;
+  try {
+    const res = await state.client.request<DeliveriesListResult>("deliveries.list", {
+      state: "all",
+    });
+    if (res) {
+      state.deliveriesResult = res;
+    }
+  } catch (err) {
+    state.deliveriesError = String(err);
+  } finally {
+    state.deliveriesLoading = false;
+  }
+}
+
+export async function retryDelivery(state: DeliveriesState, row: DeliveryQueueRow) {
+  if (!state.client || !state.connected || state.deliveriesBusyId) {
+    return;
+  }
+  state.deliveriesBusyId = row.id;
+  state.deliveriesError = null;
+  state.deliveriesNotice = null;
+  try {
+    const res = await state.client.request<{ ok: boolean; error?: string }>("deliveries.retry", {
+      id: row.id,
+    });
+    state.deliveriesNotice = res?.ok
+      ? `Delivered to ${row.channel}:${row.to}.`
+      : `Retry failed: ${res?.error ?? "unknown error"}. The entry is still pending.`;
+  } catch (err) {
+    state.deliveriesError = String(err);
+  } finally {
+    state.deliveriesBusyId = null;
+  }
+  await loadDeliveries(state);
+}
+
+export async function discardDelivery(state: DeliveriesState, row: DeliveryQueueRow) {
+  if (!state.client || !state.connected || state.deliveriesBusyId) {
+    return;
+  }
+  const confirmed = window.confirm(
+    `Discard delivery to ${row.channel}:${row.to}? It will not be sent.`,
+  );
+  if (!confirmed) {
+    return;
+  }
+  state.deliveriesBusyId = row.id;
+  state.deliveriesError = null;
+  state.deliveriesNotice = null;
+  try {
+    await state.client.request("deliveries.discard", { id: row.id });
+    state.deliveriesNotice = `Discarded ${row.id}.`;
+  } catch (err) {
+    state.deliveriesError = String(err);
+  } finally {
+    state.deliveriesBusyId = null;
+  }
+  await loadDeliveries(state);
+}
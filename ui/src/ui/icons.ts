@@ -81,6 +81,12 @@ export const icons = {
       <path d="M15 12h-5" />
     </svg>
   `,
+  send: html`
+    <svg viewBox="0 0 24 24">
+      <path d="m22 2-7 20-4-9-9-4Z" />
+      <path d="M22 2 11 13" />
+    </svg>
+  `,
   folder: html`
     <svg viewBox="0 0 24 24">
       <path
@@ -118,6 +124,14 @@ export const icons = {
       <path d="M4 16c-1.1 0-2-.9-2-2V4c0-1.1.9-2 2-2h10c1.1 0 2 .9 2 2" />
     </svg>
   `,
+  gitBranch: html`
+    <svg viewBox="0 0 24 24">
+      <line x1="6" x2="6" y1="3" y2="15" />
+      <circle cx="18" cy="6" r="3" />
+      <circle cx="6" cy="18" r="3" />
+      <path d="M18 9a9 9 0 0 1-9 9" />
+    </svg>
+  `,
   search: html`
     <svg viewBox="0 0 24 24">
       <circle cx="11" cy="11" r="8" />
@@ -503,6 +503,32 @@ export type CronRunLogEntry = {
   sessionKey?: string;
 };
 
+export type DeliveryQueueRow = {
+  id: string;
+  state: "pending" | "failed";
+  channel: string;
+  to: string;
+  accountId?: string;
+  enqueuedAt: number;
+  retryCount: number;
+  lastError?: string;
+  payloadCount: number;
+  mediaCount: number;
+  preview?: string;
+};
+
+export type DeliveriesListResult = {
+  summary: {
+    pending: number;
+    failed: number;
+    oldestPendingAt?: number;
+    channels: Array<{ channel: string; pending: number; failed: number }>;
+  };
+  failedAlertThreshold: number;
+  pending: DeliveryQueueRow[];
+  failed: DeliveryQueueRow[];
+};
+
 export type SkillsStatusConfigCheck = {
   path: string;
   satisfied: boolean;
@@ -0,0 +1,129 @@
+import { html, nothing } from "lit";
+import { formatRelativeTimestamp } from "../format.ts";
+import type { DeliveriesListResult, DeliveryQueueRow } from "../types.ts";
+
+export type DeliveriesProps = {
+  loading: boolean;
+  result: DeliveriesListResult | null;
+  error: string | null;
+  notice: string | null;
+  busyId: string | null;
+  onRefresh: () => void;
+  onRetry: (row: DeliveryQueueRow) => void;
+  onDiscard: (row: DeliveryQueueRow) => void;
+};
+
+export function renderDeliveries(props: DeliveriesProps) {
+  const summary = props.result?.summary;
+  const threshold = props.result?.failedAlertThreshold ?? 0;
+  const overThreshold = Boolean(summary && threshold > 0 && summary.failed >= threshold);
+  return html`
+    <section class="card">
+      <div class="row" style="justify-content: space-between;">
+        <div>
+          <div class="card-title">Delivery Queue</div>
+          <div class="card-sub">Outbound messages waiting for a retry, and ones that gave up.</div>
+        </div>
+        <button class="btn" ?disabled=${props.loading} @click=${props.onRefresh}>
+          ${props.loading ? "Loading…" : "Refresh"}
+        </button>
+      </div>
+      ${
+        props.error
+          ? html`<div class="callout danger" style="margin-top: 12px;">${props.error}</div>`
+          : nothing
+      }
+      ${
+        props.notice
+          ? html`<div class="callout" style="margin-top: 12px;">${props.notice}</div>`
+          : nothing
+      }
+      ${
+        overThreshold
+          ? html`<div class="callout danger" style="margin-top: 12px;">
+              ${summary?.failed} failed deliveries (alert threshold ${threshold}).
+            </div>`
+          : nothing
+      }
+      ${
+        summary
+          ? html`
+              <div class="chip-row" style="margin-top: 16px;">
+                <span class="chip">${summary.pending} pending</span>
+                <span class="chip">${summary.failed} failed</span>
+                ${
+                  summary.oldestPendingAt
+                    ? html`<span class="chip"
+                        >oldest ${formatRelativeTimestamp(summary.oldestPendingAt)}</span
+                      >`
+                    : nothing
+                }
+                ${summary.channels.map(
+                  (entry) =>
+                    html`<span class="chip"
+                      >${entry.channel}: ${entry.pending} / ${entry.failed}</span
+                    >`,
+                )}
+              </div>
+            `
+          : nothing
+      }
+    </section>
+    ${renderQueue("Pending", "Retried automatically with backoff.", props.result?.pending, props)}
+    ${renderQueue("Failed", "Moved aside after too many attempts.", props.result?.failed, props)}
+  `;
+}
+
+function renderQueue(
+  title: string,
+  subtitle: string,
+  rows: DeliveryQueueRow[] | undefined,
+  props: DeliveriesProps,
+) {
+  const entries = rows ?? [];
+  return html`
+    <section class="card" style="margin-top: 16px;">
+      <div class="card-title">${title} (${entries.length})</div>
+      <div class="card-sub">${subtitle}</div>
+      <div class="list" style="margin-top: 16px;">
+        ${
+          entries.length === 0
+            ? html`
+                <div class="muted">Nothing here.</div>
+              `
+            : entries.map((row) => renderRow(row, props))
+        }
+      </div>
+    </section>
+  `;
+}
+
+function renderRow(row: DeliveryQueueRow, props: DeliveriesProps) {
+  const busy = props.busyId !== null;
+  return html`
+    <div class="list-item">
+      <div class="list-main">
+        <div class="list-title">${row.channel}:${row.to}</div>
+        <div class="list-sub">
+          ${row.preview ?? (row.mediaCount > 0 ? `${row.mediaCount} attachment(s)` : row.id)}
+        </div>
+        ${row.lastError ? html`<div class="list-sub danger">${row.lastError}</div>` : nothing}
+        <div class="chip-row">
+          <span class="chip">${formatRelativeTimestamp(row.enqueuedAt)}</span>
+          <span class="chip">retries: ${row.retryCount}</span>
+          ${row.accountId ? html`<span class="chip">${row.accountId}</span>` : nothing}
+        </div>
+      </div>
+      <div class="list-meta">
+        <div class="row">
+          <button class="btn" ?disabled=${busy} @click=${() => props.onRetry(row)}>
+            ${props.busyId === row.id ? "Working…" : "Retry"}
+          </button>
+          <button class="btn danger" ?disabled=${busy} @click=${() => props.onDiscard(row)}>
+            Discard
+          </button>
+        </div>
+      </div>
+    </div>
+  `;
+}
@@ -75,6 +75,13 @@ export function renderExecApprovalPrompt(state: AppViewState) {
           >
             Always allow
           </button>
+          <button
+            class="btn"
+            ?disabled=${state.execApprovalBusy}
+            @click=${() => state.handleExecApprovalDecision("allow-similar")}
+          >
+            Allow similar
+          </button>
           <button
             class="btn danger"
             ?disabled=${state.execApprovalBusy}